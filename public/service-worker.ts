@@ -34,26 +34,29 @@ declare global {
   }
 }
 
-const CACHE_NAME = 'civic-prototype-v1';
+const CACHE_NAME = 'civic-prototype-v2';
 const OFFLINE_URL = '/offline.html';
+const APP_SHELL_URL = '/index.html';
 
 // Resources to pre-cache
 const PRECACHE_URLS = [
   '/',
-  '/offline.html',
+  APP_SHELL_URL,
+  OFFLINE_URL,
   '/manifest.json',
-  '/icons/icon-192x192.png',
-  '/icons/icon-512x512.png',
-  '/styles.css',
-  '/index.html',
+  '/favicon.ico',
 ];
 
-// API routes to cache
-const API_ROUTES = [
-  '/api/representatives',
-  '/api/candidates',
-  '/api/ballot-measures',
-];
+// Hashed build output. The bundle carries the local mapper, the issue
+// terminology and the persona mappings, so caching it is what lets analysis
+// run offline.
+const ASSET_PREFIX = '/assets/';
+
+// Must match SYNC_TAG in src/services/offline/outbox.ts
+const OUTBOX_SYNC_TAG = 'sync-outbox';
+
+// How long a page gets to replay the outbox before the sync counts as failed
+const REPLAY_TIMEOUT_MS = 60000;
 
 self.addEventListener('install', (event: ExtendableEvent) => {
   event.waitUntil(
@@ -87,18 +90,22 @@ self.addEventListener('fetch', (event: FetchEvent) => {
   const { request } = event;
   const url = new URL(request.url);
 
-  // Handle API requests
-  if (API_ROUTES.some(route => url.pathname.startsWith(route))) {
-    event.respondWith(handleApiRequest(event));
+  // API calls go to other origins (Supabase, FEC, Google Civic); the app
+  // caches their data in IndexedDB itself
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
     return;
   }
 
-  // Handle static assets
   if (request.mode === 'navigate') {
     event.respondWith(handleNavigationRequest(event));
     return;
   }
 
+  if (url.pathname.startsWith(ASSET_PREFIX)) {
+    event.respondWith(handleAssetRequest(event));
+    return;
+  }
+
   // Default fetch strategy
   event.respondWith(
     caches.match(request).then((response) => {
@@ -107,65 +114,48 @@ self.addEventListener('fetch', (event: FetchEvent) => {
   );
 });
 
-async function handleApiRequest(event: FetchEvent): Promise<Response> {
-  const { request } = event;
-
-  try {
-    // Try network first
-    const response = await fetch(request);
-    
-    // Cache successful GET requests
-    if (request.method === 'GET' && response.ok) {
-      const cache = await caches.open(CACHE_NAME);
-      cache.put(request, response.clone());
-    }
-    
-    return response;
-  } catch (error) {
-    // If offline, try to return cached response
-    const cachedResponse = await caches.match(request);
-    if (cachedResponse) {
-      return cachedResponse;
-    }
+async function handleAssetRequest(event: FetchEvent): Promise<Response> {
+  const cached = await caches.match(event.request);
+  if (cached) return cached;
 
-    // If no cached response, return offline error
-    return new Response(
-      JSON.stringify({
-        error: 'You are offline',
-        code: 'OFFLINE',
-      }),
-      {
-        status: 503,
-        headers: { 'Content-Type': 'application/json' },
-      }
-    );
+  // Asset names change with their content, so a cached copy never goes stale
+  const response = await fetch(event.request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(event.request, response.clone());
   }
+  return response;
 }
 
 async function handleNavigationRequest(event: FetchEvent): Promise<Response> {
+  const cache = await caches.open(CACHE_NAME);
   try {
-    // Try network first for navigation requests
-    return await fetch(event.request);
+    // Try network first for navigation requests, keeping the shell current
+    const response = await fetch(event.request);
+    if (response.ok) {
+      await cache.put(APP_SHELL_URL, response.clone());
+    }
+    return response;
   } catch (error) {
-    const cache = await caches.open(CACHE_NAME);
-    const cachedResponse = await cache.match(event.request);
-    
+    // Every route is the same single-page app, so the cached shell serves them all
     return (
-      cachedResponse ??
+      (await cache.match(APP_SHELL_URL)) ??
       (await cache.match(OFFLINE_URL)) ??
       new Response('You are offline', { status: 503 })
     );
   }
 }
 
-// Handle background sync for failed requests
+// The queued analyses need the app's own code (mapper, Supabase client), so
+// the worker asks an open page to replay them. The sync fails when no page is
+// open or items are left, and the browser tries it again later.
 self.addEventListener('sync', (event: SyncEvent) => {
-  if (event.tag === 'sync-priorities') {
-    event.waitUntil(syncPriorities());
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(requestOutboxReplay());
   }
 });
 
-// Handle push notifications
+// Show reminders from send-reminders ({ title, body, url, tag })
 self.addEventListener('push', (event: PushEvent) => {
   if (!event.data) return;
 
@@ -174,7 +164,8 @@ self.addEventListener('push', (event: PushEvent) => {
     body: data.body,
     icon: '/icons/icon-192x192.png',
     badge: '/icons/badge-72x72.png',
-    data: data.url,
+    tag: data.tag,
+    data: data.url || '/',
   };
 
   event.waitUntil(
@@ -182,35 +173,39 @@ self.addEventListener('push', (event: PushEvent) => {
   );
 });
 
-// Handle notification clicks
+// Open the reminder's link, reusing an open tab when there is one
 self.addEventListener('notificationclick', (event: NotificationEvent) => {
   event.notification.close();
+  const url = new URL(event.notification.data || '/', self.location.origin).href;
 
-  if (event.notification.data) {
-    event.waitUntil(
-      self.clients.openWindow(event.notification.data)
-    );
-  }
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const open = clients.find((client) => client.url === url);
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
 });
 
-async function syncPriorities(): Promise<void> {
-  const cache = await caches.open(CACHE_NAME);
-  const requests = await cache.keys();
-  
-  const priorityRequests = requests.filter(request => 
-    request.url.includes('/api/priorities')
-  );
+async function requestOutboxReplay(): Promise<void> {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  // One page is enough; several replaying at once would redo the same items
+  const client = clients.find((candidate) => candidate.focused) ?? clients[0];
+  if (!client) {
+    throw new Error('No open page to replay the offline outbox');
+  }
 
-  await Promise.all(
-    priorityRequests.map(async (request) => {
-      try {
-        const response = await fetch(request);
-        if (response.ok) {
-          await cache.delete(request);
-        }
-      } catch (error) {
-        console.error('Failed to sync:', error);
-      }
-    })
-  );
+  const remaining = await new Promise<number>((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timeoutId = setTimeout(() => reject(new Error('The page did not replay the offline outbox in time')), REPLAY_TIMEOUT_MS);
+    channel.port1.onmessage = (event: MessageEvent) => {
+      clearTimeout(timeoutId);
+      if (event.data?.failed) reject(new Error('The page could not replay the offline outbox'));
+      else resolve(Number(event.data?.remaining) || 0);
+    };
+    client.postMessage({ type: 'replay-outbox' }, [channel.port2]);
+  });
+
+  if (remaining > 0) {
+    throw new Error(`${remaining} queued ${remaining === 1 ? 'analysis' : 'analyses'} still waiting to replay`);
+  }
 }
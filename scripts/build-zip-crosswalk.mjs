@@ -0,0 +1,196 @@
+#!/usr/bin/env node
+/**
+ * Builds src/data/zip-districts.json from the Census Bureau's 2020 ZCTA
+ * relationship files: pipe-delimited tables with one row per piece of a ZIP
+ * code tabulation area inside another geography. Download the ZCTA files for
+ * the district types you want (congressional and state legislative districts,
+ * counties, places, school districts), then pass each with its type:
+ *
+ *   npm run build-crosswalk -- \
+ *     --congressional zcta-cd.txt \
+ *     --state_senate zcta-sldu.txt \
+ *     --state_house zcta-sldl.txt \
+ *     --county zcta-county.txt \
+ *     --city zcta-place.txt \
+ *     --states CA,TX
+ *
+ * Shares are each piece's fraction of the ZCTA's land area, which stands in
+ * for its share of addresses. Pieces under --min-share (default 0.02) are
+ * slivers along a boundary and are dropped. District types without a file
+ * keep what the current crosswalk lists for a ZIP, so hand-entered school
+ * districts survive a rebuild. --states limits the output to some states; the
+ * whole country is several megabytes, too much to bundle with the app.
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const TYPES = ['congressional', 'state_senate', 'state_house', 'county', 'city', 'school_district'];
+
+// FIPS code to postal abbreviation and name
+const STATES = {
+  '01': ['AL', 'Alabama'], '02': ['AK', 'Alaska'], '04': ['AZ', 'Arizona'], '05': ['AR', 'Arkansas'],
+  '06': ['CA', 'California'], '08': ['CO', 'Colorado'], '09': ['CT', 'Connecticut'], '10': ['DE', 'Delaware'],
+  '11': ['DC', 'District of Columbia'], '12': ['FL', 'Florida'], '13': ['GA', 'Georgia'], '15': ['HI', 'Hawaii'],
+  '16': ['ID', 'Idaho'], '17': ['IL', 'Illinois'], '18': ['IN', 'Indiana'], '19': ['IA', 'Iowa'],
+  '20': ['KS', 'Kansas'], '21': ['KY', 'Kentucky'], '22': ['LA', 'Louisiana'], '23': ['ME', 'Maine'],
+  '24': ['MD', 'Maryland'], '25': ['MA', 'Massachusetts'], '26': ['MI', 'Michigan'], '27': ['MN', 'Minnesota'],
+  '28': ['MS', 'Mississippi'], '29': ['MO', 'Missouri'], '30': ['MT', 'Montana'], '31': ['NE', 'Nebraska'],
+  '32': ['NV', 'Nevada'], '33': ['NH', 'New Hampshire'], '34': ['NJ', 'New Jersey'], '35': ['NM', 'New Mexico'],
+  '36': ['NY', 'New York'], '37': ['NC', 'North Carolina'], '38': ['ND', 'North Dakota'], '39': ['OH', 'Ohio'],
+  '40': ['OK', 'Oklahoma'], '41': ['OR', 'Oregon'], '42': ['PA', 'Pennsylvania'], '44': ['RI', 'Rhode Island'],
+  '45': ['SC', 'South Carolina'], '46': ['SD', 'South Dakota'], '47': ['TN', 'Tennessee'], '48': ['TX', 'Texas'],
+  '49': ['UT', 'Utah'], '50': ['VT', 'Vermont'], '51': ['VA', 'Virginia'], '53': ['WA', 'Washington'],
+  '54': ['WV', 'West Virginia'], '55': ['WI', 'Wisconsin'], '56': ['WY', 'Wyoming'], '72': ['PR', 'Puerto Rico']
+};
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+function parseArgs(argv) {
+  const args = { files: {}, out: path.join(root, 'src', 'data', 'zip-districts.json'), minShare: 0.02 };
+  for (let i = 0; i < argv.length; i += 2) {
+    const [flag, value] = [argv[i].replace(/^--/, ''), argv[i + 1]];
+    if (value === undefined) throw new Error(`--${flag} needs a value`);
+    if (TYPES.includes(flag)) args.files[flag] = value;
+    else if (flag === 'states') args.states = new Set(value.toUpperCase().split(','));
+    else if (flag === 'min-share') args.minShare = Number(value);
+    else if (flag === 'out') args.out = path.resolve(value);
+    else throw new Error(`Unknown option --${flag}`);
+  }
+  if (Object.keys(args.files).length === 0) {
+    throw new Error(`Pass at least one relationship file with --${TYPES.join(', --')}`);
+  }
+  return args;
+}
+
+const slug = name => name.toLowerCase().replace(/[.'’]/g, '').trim().replace(/\s+/g, '_');
+
+const ordinal = n => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' })[n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+// State legislative district codes are zero-padded numbers or, in a few states, names
+const districtCode = code => (/^\d+$/.test(code) ? String(Number(code)) : code.toLowerCase());
+
+/**
+ * The OCD id and display name of one geography, or undefined for ones with no
+ * representation of their own (at-large seats, water, unincorporated places)
+ */
+function describe(type, geoid, label) {
+  const state = STATES[geoid.slice(0, 2)];
+  if (!state) return undefined;
+  const [abbr, stateName] = state;
+  const division = `ocd-division/country:us/state:${abbr.toLowerCase()}`;
+  const rest = geoid.slice(2);
+
+  switch (type) {
+    case 'congressional': {
+      // At-large members represent the whole state, which the resolver always includes
+      if (!/^\d+$/.test(rest) || Number(rest) === 0 || Number(rest) === 98) return undefined;
+      const n = Number(rest);
+      return { id: `${division}/cd:${n}`, name: `${stateName}'s ${ordinal(n)} Congressional District` };
+    }
+    case 'state_senate':
+    case 'state_house': {
+      if (/^Z+$/.test(rest)) return undefined;
+      return { id: `${division}/${type === 'state_senate' ? 'sldu' : 'sldl'}:${districtCode(rest)}`, name: `${stateName} ${label}` };
+    }
+    case 'county': {
+      // Independent cities stand in for counties and are listed as cities
+      if (/ city$/i.test(label)) return undefined;
+      return { id: `${division}/county:${slug(label.replace(/ (County|Parish|Borough|Census Area|Municipality)$/i, ''))}`, name: label };
+    }
+    case 'city': {
+      const match = label.match(/^(.*) (city|town|village|borough|municipality)$/i);
+      // Census-designated places have no government of their own
+      if (!match) return undefined;
+      const [, name, kind] = match;
+      return { id: `${division}/place:${slug(name)}`, name: `${kind[0].toUpperCase()}${kind.slice(1).toLowerCase()} of ${name}`, city: name };
+    }
+    case 'school_district':
+      return { id: `${division}/school_district:${slug(label.replace(/ School District$/i, ''))}`, name: label };
+  }
+}
+
+/**
+ * Rows of a relationship file as { zcta, geoid, label, land }. Columns are
+ * found by name because their order differs between files.
+ */
+async function readRelationship(file) {
+  const [header, ...lines] = (await readFile(file, 'utf8')).replace(/^\uFEFF/, '').split(/\r?\n/).filter(Boolean);
+  const columns = header.split('|');
+  const find = (test, what) => {
+    const index = columns.findIndex(test);
+    if (index < 0) throw new Error(`${path.basename(file)} has no ${what} column`);
+    return index;
+  };
+
+  const zcta = find(name => /^GEOID_ZCTA5/.test(name), 'ZCTA GEOID');
+  const geoid = find(name => /^GEOID_/.test(name) && !/ZCTA/.test(name), 'district GEOID');
+  const label = find(name => /^NAMELSAD_/.test(name) && !/ZCTA/.test(name), 'district NAMELSAD');
+  const land = find(name => name === 'AREALAND_PART', 'AREALAND_PART');
+
+  return lines
+    .map(line => line.split('|'))
+    .filter(cells => cells[zcta] && cells[geoid])
+    .map(cells => ({ zcta: cells[zcta], geoid: cells[geoid], label: cells[label], land: Number(cells[land]) || 0 }));
+}
+
+let args;
+try {
+  args = parseArgs(process.argv.slice(2));
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
+
+const current = JSON.parse(await readFile(args.out, 'utf8').catch(() => '{"zips":[]}'));
+const entries = new Map(current.zips.map(entry => [entry.zip, entry]));
+
+for (const [type, file] of Object.entries(args.files)) {
+  const byZcta = new Map();
+  for (const row of await readRelationship(file)) {
+    byZcta.set(row.zcta, [...(byZcta.get(row.zcta) || []), row]);
+  }
+
+  for (const [zip, rows] of byZcta) {
+    const total = rows.reduce((sum, row) => sum + row.land, 0);
+    if (total === 0) continue;
+
+    const pieces = rows
+      .map(row => ({ ...describe(type, row.geoid, row.label), share: row.land / total }))
+      .filter(piece => piece.id && piece.share >= args.minShare)
+      .sort((a, b) => b.share - a.share);
+    // A ZIP belongs to the state holding most of it, even where that part has no district of this type
+    const largest = rows.reduce((best, row) => (row.land > best.land ? row : best));
+    const state = STATES[largest.geoid.slice(0, 2)]?.[0] || entries.get(zip)?.state;
+    if (!state || (args.states && !args.states.has(state))) continue;
+
+    const entry = entries.get(zip) || { zip, state, districts: [] };
+    entry.districts = [
+      ...entry.districts.filter(district => district.type !== type),
+      ...pieces.map(piece => ({ id: piece.id, type, name: piece.name, share: Math.round(piece.share * 100) / 100 }))
+    ];
+    if (type === 'city' && pieces[0]) entry.city = pieces[0].city;
+    entries.set(zip, entry);
+  }
+}
+
+const zips = Array.from(entries.values())
+  .filter(entry => !args.states || args.states.has(entry.state))
+  .sort((a, b) => a.zip.localeCompare(b.zip))
+  .map(entry => ({
+    zip: entry.zip,
+    state: entry.state,
+    city: entry.city,
+    districts: [...entry.districts].sort((a, b) => TYPES.indexOf(a.type) - TYPES.indexOf(b.type) || b.share - a.share)
+  }));
+
+await writeFile(args.out, `${JSON.stringify({
+  version: new Date().toISOString().slice(0, 7),
+  description: 'ZIP-to-district crosswalk built by scripts/build-zip-crosswalk.mjs from Census 2020 ZCTA relationship files. Shares are the fraction of a ZIP\'s land area in each district.',
+  zips
+}, null, 2)}\n`);
+
+console.log(`Wrote ${zips.length} ZIP codes to ${path.relative(root, args.out)}`);
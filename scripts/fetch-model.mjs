@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+/**
+ * Downloads the sentence model the embedding strategy runs on into
+ * public/models/, where the browser and the semantic-matching tests load it
+ * from. The files are about 23 MB and are not committed.
+ *
+ *   npm run fetch-model
+ *   npm run fetch-model -- --force   # download again even if present
+ */
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MODEL_ID = 'Xenova/all-MiniLM-L6-v2';
+// Branch or commit on the Hugging Face Hub; MODEL_REVISION overrides it
+const REVISION = process.env.MODEL_REVISION || 'main';
+const FILES = ['config.json', 'tokenizer.json', 'tokenizer_config.json', 'onnx/model_quantized.onnx'];
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const modelDir = path.join(root, 'public', 'models', MODEL_ID);
+const force = process.argv.includes('--force');
+
+const exists = file => stat(file).then(() => true, () => false);
+
+for (const file of FILES) {
+  const target = path.join(modelDir, file);
+  if (!force && await exists(target)) {
+    console.log(`have ${file}`);
+    continue;
+  }
+
+  const url = `https://huggingface.co/${MODEL_ID}/resolve/${REVISION}/${file}`;
+  const response = await fetch(url).catch(error => ({ ok: false, status: error.cause?.code || error.message, statusText: '' }));
+  if (!response.ok) {
+    console.error(`Could not download ${url}: ${response.status} ${response.statusText}`.trim());
+    process.exit(1);
+  }
+
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(target, Buffer.from(await response.arrayBuffer()));
+  console.log(`fetched ${file}`);
+}
+
+console.log(`Model ready in ${path.relative(root, modelDir)}`);
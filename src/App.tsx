@@ -4,12 +4,17 @@ import { ThemeProvider } from '@/components/ui/theme-provider';
 import { Toaster } from '@/components/ui/toaster';
 import { Toaster as Sonner } from '@/components/ui/sonner';
 import { ModeProvider } from '@/contexts/ModeContext';
+import { LanguageProvider } from '@/contexts/LanguageContext';
+import { OfflineStatus } from '@/components/OfflineStatus';
 import Index from '@/pages/Index';
 import Auth from '@/pages/Auth';
+import Account from '@/pages/Account';
 import NotFound from '@/pages/NotFound';
 import Debug from '@/pages/Debug';
+import TerminologyReview from '@/pages/TerminologyReview';
 import ConflictTest from '@/pages/ConflictTest';
 import TestMapping from '@/pages/TestMapping';
+import SharedGuide from '@/pages/SharedGuide';
 import './App.css';
 
 // Create a client
@@ -25,20 +30,26 @@ function App() {
   return (
     <Router>
       <ThemeProvider defaultTheme="light" storageKey="voter-tool-theme">
-        <ModeProvider>
-          <QueryClientProvider client={queryClient}>
-            <Routes>
-              <Route path="/" element={<Index />} />
-              <Route path="/auth" element={<Auth />} />
-              <Route path="/debug" element={<Debug />} />
-              <Route path="/test/conflicts" element={<ConflictTest />} />
-              <Route path="/test/mapping" element={<TestMapping />} />
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-            <Toaster />
-            <Sonner />
-          </QueryClientProvider>
-        </ModeProvider>
+        <LanguageProvider>
+          <ModeProvider>
+            <QueryClientProvider client={queryClient}>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/account" element={<Account />} />
+                <Route path="/debug" element={<Debug />} />
+                <Route path="/debug/terminology" element={<TerminologyReview />} />
+                <Route path="/test/conflicts" element={<ConflictTest />} />
+                <Route path="/test/mapping" element={<TestMapping />} />
+                <Route path="/guide/:id" element={<SharedGuide />} />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+              <OfflineStatus />
+              <Toaster />
+              <Sonner />
+            </QueryClientProvider>
+          </ModeProvider>
+        </LanguageProvider>
       </ThemeProvider>
     </Router>
   );
@@ -19,11 +19,8 @@ export class ServiceFactory {
 
   getPriorityService(): PriorityService {
     if (!this.services.has('priority')) {
-      const apiKey = process.env.OPENAI_API_KEY;
-      if (!apiKey) {
-        throw new ValidationError('OpenAI API key is not configured');
-      }
-      this.services.set('priority', new PriorityService(apiKey));
+      // No key is fine here: the LLM client falls back to fixture replay
+      this.services.set('priority', new PriorityService(process.env.OPENAI_API_KEY));
     }
     return this.services.get('priority');
   }
@@ -2,37 +2,11 @@ import { APIClient } from '../utils/api-client';
 import { rateLimiters } from '../utils/rate-limiter';
 import { caches } from '../utils/cache';
 import { ValidationError } from '../utils/api-error';
-
-interface BallotMeasure {
-  title: string;
-  description: string;
-  supporters: string[];
-  opposers: string[];
-  userConcernMapping: string;
-  ballotpediaLink: string;
-  electionDate?: string;
-  status?: 'upcoming' | 'active' | 'passed' | 'failed';
-  type?: string;
-  topic?: string;
-  fiscalImpact?: string;
-}
+import { RawBallotMeasure, SummarizedBallotMeasure } from '../../types/ballot-measures';
+import { normalizeMeasure, summarizeMeasure } from '../../services/ballot-measures';
 
 interface BallotpediaApiResponse {
-  data: Array<{
-    title?: string;
-    name?: string;
-    summary?: string;
-    description?: string;
-    supporters?: string[];
-    opponents?: string[];
-    topic?: string;
-    category?: string;
-    url?: string;
-    election_date?: string;
-    measure_status?: string;
-    measure_type?: string;
-    fiscal_note?: string;
-  }>;
+  data: RawBallotMeasure[];
   meta: {
     total: number;
     page: number;
@@ -58,7 +32,7 @@ export class BallotService extends APIClient {
       includeHistory?: boolean;
       status?: 'upcoming' | 'active' | 'all';
     } = {}
-  ): Promise<BallotMeasure[]> {
+  ): Promise<SummarizedBallotMeasure[]> {
     if (!state || state.length !== 2) {
       throw new ValidationError('Invalid state code');
     }
@@ -68,7 +42,7 @@ export class BallotService extends APIClient {
 
     // Check cache
     const cacheKey = `${state}-${year}-${JSON.stringify(options)}`;
-    const cached = caches.ballotMeasures.get<BallotMeasure[]>(cacheKey);
+    const cached = caches.ballotMeasures.get<SummarizedBallotMeasure[]>(cacheKey);
     if (cached) {
       return cached;
     }
@@ -83,19 +57,7 @@ export class BallotService extends APIClient {
       },
     });
 
-    const measures: BallotMeasure[] = response.data.map((measure) => ({
-      title: measure.title || measure.name || 'Untitled Measure',
-      description: measure.summary || measure.description || 'No description available',
-      supporters: measure.supporters || [],
-      opposers: measure.opponents || [],
-      userConcernMapping: measure.topic || measure.category || 'Uncategorized',
-      ballotpediaLink: measure.url || '',
-      electionDate: measure.election_date,
-      status: this.normalizeStatus(measure.measure_status),
-      type: measure.measure_type,
-      topic: measure.topic || measure.category,
-      fiscalImpact: measure.fiscal_note,
-    }));
+    const measures = this.toMeasures(response.data);
 
     // Cache the results
     caches.ballotMeasures.set(cacheKey, measures);
@@ -110,7 +72,7 @@ export class BallotService extends APIClient {
       year?: number;
       topic?: string;
     } = {}
-  ): Promise<BallotMeasure[]> {
+  ): Promise<SummarizedBallotMeasure[]> {
     // Check rate limit
     await rateLimiters.ballotpedia.checkLimit('search');
 
@@ -124,31 +86,13 @@ export class BallotService extends APIClient {
       },
     });
 
-    return response.data.map((measure) => ({
-      title: measure.title || measure.name || 'Untitled Measure',
-      description: measure.summary || measure.description || 'No description available',
-      supporters: measure.supporters || [],
-      opposers: measure.opponents || [],
-      userConcernMapping: measure.topic || measure.category || 'Uncategorized',
-      ballotpediaLink: measure.url || '',
-      electionDate: measure.election_date,
-      status: this.normalizeStatus(measure.measure_status),
-      type: measure.measure_type,
-      topic: measure.topic || measure.category,
-      fiscalImpact: measure.fiscal_note,
-    }));
+    return this.toMeasures(response.data);
   }
 
-  private normalizeStatus(
-    status?: string
-  ): 'upcoming' | 'active' | 'passed' | 'failed' | undefined {
-    if (!status) return undefined;
-
-    const normalized = status.toLowerCase();
-    if (normalized.includes('upcoming')) return 'upcoming';
-    if (normalized.includes('active')) return 'active';
-    if (normalized.includes('passed') || normalized.includes('approved')) return 'passed';
-    if (normalized.includes('failed') || normalized.includes('rejected')) return 'failed';
-    return undefined;
+  private toMeasures(data: RawBallotMeasure[]): SummarizedBallotMeasure[] {
+    return data.map((record) => {
+      const measure = normalizeMeasure(record, 'ballotpedia');
+      return { ...measure, ...summarizeMeasure(measure) };
+    });
   }
 }
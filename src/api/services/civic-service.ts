@@ -2,6 +2,9 @@ import { APIClient } from '../utils/api-client';
 import { rateLimiters } from '../utils/rate-limiter';
 import { caches } from '../utils/cache';
 import { ValidationError } from '../utils/api-error';
+import { DistrictResolution, OfficeLevel, VoterLocation } from '../../types/districts';
+import { districtResolver } from '../../services/districts';
+import { CivicRepresentativesResponse, fromCivicRepresentatives } from '../../services/people';
 
 /**
  * @deprecated Google Civic Information API will be deprecated on April 30, 2025.
@@ -13,42 +16,9 @@ import { ValidationError } from '../utils/api-error';
  * 4. Commercial data providers
  */
 
-interface CivicApiResponse {
-  offices: Array<{
-    name: string;
-    divisionId: string;
-    levels: string[];
-    roles: string[];
-    officialIndices: number[];
-  }>;
-  officials: Array<{
-    name: string;
-    address?: Array<{
-      line1: string;
-      city: string;
-      state: string;
-      zip: string;
-    }>;
-    party: string;
-    phones?: string[];
-    urls?: string[];
-    photoUrl?: string;
-    emails?: string[];
-    channels?: Array<{
-      type: string;
-      id: string;
-    }>;
-  }>;
-  divisions: Record<
-    string,
-    {
-      name: string;
-      officeIndices: number[];
-    }
-  >;
-}
-
 interface Representative {
+  // Canonical person id from the people model
+  personId: string;
   name: string;
   role: string;
   party: string;
@@ -62,6 +32,15 @@ interface Representative {
   };
   alignment?: '✅' | '⚠️' | '❌';
   issueAreas?: string[];
+  level: OfficeLevel;
+  divisionId: string;
+  // Set when the voter's ZIP straddles this official's district
+  districtAmbiguous?: boolean;
+}
+
+export interface VoterRepresentatives {
+  representatives: Representative[];
+  districts: DistrictResolution;
 }
 
 export class CivicService extends APIClient {
@@ -76,6 +55,33 @@ export class CivicService extends APIClient {
     address: string,
     includeOffices = true
   ): Promise<Representative[]> {
+    return this.toRepresentatives(await this.fetchRepresentatives(address, includeOffices));
+  }
+
+  /**
+   * Representatives for a voter, leaving out officials of districts the voter
+   * can't be in. With only a ZIP code, officials of districts the ZIP
+   * straddles are kept and flagged until the voter says which one they're in.
+   */
+  async getRepresentativesForLocation(location: VoterLocation): Promise<VoterRepresentatives> {
+    const zipCode = this.validateZipCode(location.zipCode);
+    const address = location.address?.trim();
+    const response = await this.fetchRepresentatives(address ? `${address} ${zipCode}` : zipCode);
+
+    const addressDivisions = address
+      ? Object.entries(response.divisions || {}).map(([id, division]) => ({ id, name: division.name }))
+      : [];
+    const districts = districtResolver.resolve({ zipCode, address }, addressDivisions);
+
+    const representatives = this.toRepresentatives(response)
+      .map((rep) => ({ rep, membership: districtResolver.membership(districts, rep.divisionId) }))
+      .filter(({ membership }) => membership !== 'out')
+      .map(({ rep, membership }) => ({ ...rep, districtAmbiguous: membership === 'possible' }));
+
+    return { representatives, districts };
+  }
+
+  private async fetchRepresentatives(address: string, includeOffices = true): Promise<CivicRepresentativesResponse> {
     if (!address) {
       throw new ValidationError('Address is required');
     }
@@ -85,53 +91,57 @@ export class CivicService extends APIClient {
 
     // Check cache
     const cacheKey = `${address}-${includeOffices}`;
-    const cached = caches.representatives.get<Representative[]>(cacheKey);
+    const cached = caches.representatives.get<CivicRepresentativesResponse>(cacheKey);
     if (cached) {
       return cached;
     }
 
-    const response = await this.get<CivicApiResponse>('/representatives', {
+    const response = await this.get<CivicRepresentativesResponse>('/representatives', {
       query: {
         address,
         includeOffices: includeOffices.toString(),
       },
     });
 
-    const representatives: Representative[] = response.offices.flatMap((office) => {
-      return office.officialIndices.map((index) => {
-        const official = response.officials[index];
-        return {
-          name: official.name,
-          role: office.name,
-          party: official.party,
-          photoUrl: official.photoUrl,
-          contactInfo: {
-            address: official.address?.[0]
-              ? [
-                  official.address[0].line1,
-                  official.address[0].city,
-                  official.address[0].state,
-                  official.address[0].zip,
-                ].join(', ')
-              : undefined,
-            phone: official.phones?.[0],
-            email: official.emails?.[0],
-            website: official.urls?.[0],
-            social: official.channels?.reduce((acc, channel) => {
-              acc[channel.type.toLowerCase()] = channel.id;
+    // Cache the results
+    caches.representatives.set(cacheKey, response);
+
+    return response;
+  }
+
+  private toRepresentatives(response: CivicRepresentativesResponse): Representative[] {
+    const dataset = fromCivicRepresentatives(response);
+
+    return dataset.terms.flatMap((term) => {
+      const person = dataset.people.find((item) => item.id === term.personId);
+      const office = dataset.offices.find((item) => item.id === term.officeId);
+      if (!person || !office) return [];
+
+      const channel = (type: string) => person.channels.find((item) => item.type === type)?.value;
+      return [{
+        personId: person.id,
+        name: person.name,
+        role: office.name,
+        party: person.party?.name || '',
+        photoUrl: person.photoUrl,
+        contactInfo: {
+          address: channel('address'),
+          phone: channel('phone'),
+          email: channel('email'),
+          website: channel('website'),
+          social: person.channels
+            .filter((item) => item.type === 'social' && item.platform)
+            .reduce((acc, item) => {
+              acc[item.platform!] = item.value;
               return acc;
             }, {} as Record<string, string>),
-          },
-          alignment: '⚠️', // Default to warning until analyzed
-          issueAreas: [], // Will be populated by priority analysis
-        };
-      });
+        },
+        alignment: '⚠️' as const, // Default to warning until analyzed
+        issueAreas: [], // Will be populated by priority analysis
+        level: office.level,
+        divisionId: office.divisionId,
+      }];
     });
-
-    // Cache the results
-    caches.representatives.set(cacheKey, representatives);
-
-    return representatives;
   }
 
   /**
@@ -150,7 +160,9 @@ export class CivicService extends APIClient {
 
   /**
    * Gets representatives by ZIP code
-   * This is a convenience method that wraps getRepresentativesByAddress
+   * This is a convenience method that wraps getRepresentativesByAddress. It
+   * can't tell apart districts the ZIP straddles; prefer
+   * getRepresentativesForLocation.
    */
   async getRepresentativesByZip(zipCode: string): Promise<Representative[]> {
     const normalized = this.validateZipCode(zipCode);
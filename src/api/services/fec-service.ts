@@ -2,21 +2,18 @@ import { APIClient } from '../utils/api-client';
 import { rateLimiters } from '../utils/rate-limiter';
 import { caches } from '../utils/cache';
 import { ValidationError } from '../utils/api-error';
-
-interface FECCandidate {
-  candidate_id: string;
-  name: string;
-  party_full: string;
-  office: string;
-  office_full: string;
-  state: string;
-  district?: string;
-  incumbent_challenge_full?: string;
-  principal_committees?: Array<{
-    committee_id: string;
-    name: string;
-  }>;
-}
+import { Candidate } from '../../types/api';
+import { CandidateFinances } from '../../types/finance';
+import { candidatesFor, FecCandidateRecord, fromFecCandidates, personIdFromFec } from '../../services/people';
+import {
+  FecCandidateTotals,
+  FecCommitteeReport,
+  FecEmployerAggregate,
+  FecIndependentExpenditure,
+  FecSizeAggregate,
+  fromFecResponses,
+  summarizeFinances,
+} from '../../services/finance';
 
 interface FECCommittee {
   committee_id: string;
@@ -29,21 +26,13 @@ interface FECCommittee {
   cash_on_hand_end_period?: number;
 }
 
-interface CandidateDetails {
-  name: string;
-  party: string;
-  office: string;
-  alignment?: '✅' | '⚠️' | '❌';
-  platformHighlights: string[];
-  rationale: string;
-  officialWebsite?: string;
-  positionSummary: string;
+type CandidateDetails = Candidate & {
   financialSummary?: {
     totalReceipts: number;
     totalDisbursements: number;
     cashOnHand: number;
   };
-}
+};
 
 export class FECService extends APIClient {
   constructor(apiKey: string) {
@@ -72,7 +61,7 @@ export class FECService extends APIClient {
     }
 
     // Fetch candidates
-    const candidates = await this.get<{ results: FECCandidate[] }>('/candidates/search', {
+    const candidates = await this.get<{ results: FecCandidateRecord[] }>('/candidates/search', {
       query: {
         state,
         election_year: electionYear.toString(),
@@ -81,46 +70,42 @@ export class FECService extends APIClient {
       },
     });
 
-    // Process each candidate
-    const processedCandidates = await Promise.all(
+    // Fetch committee data for candidates that have a principal committee
+    const committees = new Map<string, FECCommittee>();
+    await Promise.all(
       candidates.results.map(async (candidate) => {
-        let committeeData: FECCommittee | undefined;
-
-        // Fetch committee data if available
-        if (candidate.principal_committees?.[0]) {
-          const committeeResponse = await this.get<{ results: FECCommittee[] }>(
-            `/committee/${candidate.principal_committees[0].committee_id}`,
-            {
-              query: {
-                per_page: '1',
-              },
-            }
-          );
-          committeeData = committeeResponse.results[0];
-        }
+        if (!candidate.principal_committees?.[0]) return;
 
-        return {
-          name: candidate.name,
-          party: candidate.party_full,
-          office: candidate.office_full || candidate.office,
-          alignment: '⚠️', // Default to warning until analyzed
-          platformHighlights: [], // Would need additional data source
-          rationale: 'Alignment to be determined based on priorities',
-          officialWebsite: '', // Would need additional data source
-          positionSummary: `${candidate.incumbent_challenge_full || ''} candidate for ${
-            candidate.office_full || candidate.office
-          }`,
-          ...(committeeData && {
-            financialSummary: {
-              totalReceipts: committeeData.total_receipts || 0,
-              totalDisbursements: committeeData.total_disbursements || 0,
-              cashOnHand: committeeData.cash_on_hand_end_period || 0,
+        const committeeResponse = await this.get<{ results: FECCommittee[] }>(
+          `/committee/${candidate.principal_committees[0].committee_id}`,
+          {
+            query: {
+              per_page: '1',
             },
-          }),
-        };
+          }
+        );
+        if (committeeResponse.results[0]) {
+          committees.set(personIdFromFec(candidate.candidate_id), committeeResponse.results[0]);
+        }
       })
     );
 
+    const processedCandidates: CandidateDetails[] = candidatesFor(
+      fromFecCandidates(candidates.results, electionYear)
+    ).map((candidate) => {
+      const committeeData = candidate.personId ? committees.get(candidate.personId) : undefined;
+      return {
+        ...candidate,
+        ...(committeeData && {
+          financialSummary: {
+            totalReceipts: committeeData.total_receipts || 0,
+            totalDisbursements: committeeData.total_disbursements || 0,
+            cashOnHand: committeeData.cash_on_hand_end_period || 0,
+          },
+        }),
+      };
+    });
+
     // Cache the results
     caches.candidates.set(cacheKey, processedCandidates);
 
@@ -137,4 +122,66 @@ export class FECService extends APIClient {
       },
     });
   }
+
+  /**
+   * Fundraising, donor mix and outside spending for a candidate in a cycle
+   */
+  async getCandidateFinances(candidateId: string, cycle: number): Promise<CandidateFinances> {
+    if (!candidateId) {
+      throw new ValidationError('Candidate ID is required');
+    }
+
+    // Check rate limit
+    await rateLimiters.fec.checkLimit('finances');
+
+    // Check cache
+    const cacheKey = `${candidateId}-${cycle}`;
+    const cached = caches.finances.get<CandidateFinances>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const query = (params: Record<string, string> = {}) => ({ query: { ...params, cycle: cycle.toString() } });
+    const committees = await this.get<{ results: Array<{ committee_id: string }> }>(
+      `/candidate/${candidateId}/committees/`,
+      query({ designation: 'P' })
+    );
+    const committeeId = committees.results[0]?.committee_id;
+
+    const [totals, bySize, byEmployer, scheduleE, reports] = await Promise.all([
+      this.get<{ results: FecCandidateTotals[] }>(`/candidate/${candidateId}/totals/`, query()),
+      committeeId
+        ? this.get<{ results: FecSizeAggregate[] }>('/schedules/schedule_a/by_size/', query({ committee_id: committeeId }))
+        : { results: [] },
+      committeeId
+        ? this.get<{ results: FecEmployerAggregate[] }>(
+            '/schedules/schedule_a/by_employer/',
+            query({ committee_id: committeeId, sort: '-total', per_page: '50' })
+          )
+        : { results: [] },
+      this.get<{ results: FecIndependentExpenditure[] }>(
+        '/schedules/schedule_e/by_candidate/',
+        query({ candidate_id: candidateId, per_page: '50' })
+      ),
+      committeeId
+        ? this.get<{ results: FecCommitteeReport[] }>(`/committee/${committeeId}/reports/`, query({ per_page: '20' }))
+        : { results: [] },
+    ]);
+
+    const finances = summarizeFinances(
+      fromFecResponses(candidateId, cycle, {
+        committee_id: committeeId,
+        totals,
+        by_size: bySize,
+        by_employer: byEmployer,
+        schedule_e: scheduleE,
+        reports,
+      })
+    );
+
+    // Cache the results
+    caches.finances.set(cacheKey, finances);
+
+    return finances;
+  }
 }
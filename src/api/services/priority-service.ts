@@ -1,7 +1,7 @@
-import { APIClient } from '../utils/api-client';
 import { rateLimiters } from '../utils/rate-limiter';
 import { caches } from '../utils/cache';
 import { APIError, ValidationError } from '../utils/api-error';
+import { APP_LLM_CONFIG, createLlmClient, LlmClient, LlmError } from '../../services/llm';
 
 interface PriorityAnalysisResult {
   mappings: Record<string, string[]>;
@@ -13,22 +13,15 @@ interface PriorityAnalysisResult {
   }>;
 }
 
-interface OpenAIResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
-}
+export class PriorityService {
+  private llm: LlmClient;
 
-export class PriorityService extends APIClient {
-  constructor(apiKey: string) {
-    super({
-      baseURL: 'https://api.openai.com/v1',
+  // Without a key, analysis is replayed from recorded fixtures
+  constructor(apiKey?: string) {
+    this.llm = createLlmClient({
+      ...APP_LLM_CONFIG,
       apiKey,
-      headers: {
-        'OpenAI-Organization': process.env.OPENAI_ORG_ID || '',
-      },
+      organization: process.env.OPENAI_ORG_ID || undefined,
     });
   }
 
@@ -48,65 +41,18 @@ export class PriorityService extends APIClient {
     }
 
     try {
-      const response = await this.post<OpenAIResponse>('/chat/completions', {
-        body: {
-          model: 'gpt-4',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a political analyst expert who maps voter priorities to standardized policy terms and identifies potential conflicts.
-
-Instructions:
-1. Map each priority to relevant policy areas and political terminology
-2. Identify any conflicting priorities
-3. Generate a brief analysis explaining the relationships
-4. Provide confidence scores for each mapping
-
-Output Format (JSON):
-{
-  "mappings": {
-    "[priority]": ["mapped term 1", "mapped term 2"]
-  },
-  "analysis": "Multi-paragraph analysis with line breaks",
-  "conflicts": [
-    {
-      "priority1": "first priority",
-      "priority2": "second priority",
-      "description": "Explanation of the conflict"
-    }
-  ]
-}`
-            },
-            {
-              role: 'user',
-              content: `Analyze these voter priorities:\n${priorities.join('\n')}`
-            }
-          ],
-          temperature: 0.7,
-          max_tokens: 1000,
-        },
-      });
-
-      if (!response.choices?.[0]?.message?.content) {
-        throw new APIError(
-          'Invalid response from OpenAI',
-          500,
-          'INVALID_RESPONSE'
-        );
-      }
-
-      const result = JSON.parse(response.choices[0].message.content) as PriorityAnalysisResult;
+      const result = await this.llm.runJson<PriorityAnalysisResult>('analyze-priorities', { priorities });
 
       // Cache the result
       caches.priorities.set(cacheKey, result);
 
       return result;
     } catch (error) {
-      if (error instanceof SyntaxError) {
+      if (error instanceof LlmError) {
         throw new APIError(
-          'Failed to parse OpenAI response',
-          500,
-          'PARSE_ERROR',
+          error.code === 'invalid_output' ? 'Failed to parse OpenAI response' : error.message,
+          error.status || 500,
+          error.code === 'invalid_output' ? 'PARSE_ERROR' : error.code.toUpperCase(),
           error
         );
       }
@@ -64,6 +64,7 @@ export class Cache {
 export const caches = {
   representatives: new Cache({ defaultTTL: 3600000, maxEntries: 1000 }), // 1 hour TTL
   candidates: new Cache({ defaultTTL: 3600000, maxEntries: 1000 }),      // 1 hour TTL
+  finances: new Cache({ defaultTTL: 3600000, maxEntries: 500 }),         // 1 hour TTL
   ballotMeasures: new Cache({ defaultTTL: 86400000, maxEntries: 500 }),  // 24 hours TTL
   priorities: new Cache({ defaultTTL: 300000, maxEntries: 100 }),        // 5 minutes TTL
   auth: new Cache({ defaultTTL: 86400000, maxEntries: 10 })             // 24 hours TTL for auth tokens
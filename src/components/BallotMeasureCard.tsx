@@ -2,6 +2,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Badge } from "@/components/ui/badge";
 import { CheckCircle, XCircle } from "lucide-react";
 import { Mode } from "@/contexts/ModeContext";
+import { MeasureConcern } from "@/types/ballot-measures";
 
 interface SupportGroup {
   name: string;
@@ -22,6 +23,12 @@ interface BallotMeasureProps {
   supportingGroups: SupportGroup[];
   opposingGroups: SupportGroup[];
   mode: Mode;
+  // Neutral summary and vote explanations from the ballot measure pipeline
+  summary?: string;
+  yesMeans?: string;
+  noMeans?: string;
+  concerns?: MeasureConcern[];
+  relevance?: number;
 }
 
 export const BallotMeasureCard = ({
@@ -31,7 +38,12 @@ export const BallotMeasureCard = ({
   priorityMatches,
   supportingGroups,
   opposingGroups,
-  mode
+  mode,
+  summary,
+  yesMeans,
+  noMeans,
+  concerns = [],
+  relevance
 }: BallotMeasureProps) => {
   return (
     <Card className="mb-6 border-muted/60 overflow-hidden">
@@ -46,7 +58,7 @@ export const BallotMeasureCard = ({
         <div className="flex justify-between items-start">
           <div>
             <CardTitle className="text-xl">{title}</CardTitle>
-            <CardDescription className="mt-1">{description}</CardDescription>
+            <CardDescription className="mt-1">{summary || description}</CardDescription>
           </div>
           <Badge 
             variant={
@@ -66,6 +78,36 @@ export const BallotMeasureCard = ({
         </div>
       </CardHeader>
       <CardContent className="space-y-4 pt-0">
+        {(yesMeans || noMeans) && (
+          <div className="space-y-1 text-sm">
+            {yesMeans && <p>{yesMeans}</p>}
+            {noMeans && <p>{noMeans}</p>}
+          </div>
+        )}
+
+        {concerns.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium mb-1 flex items-center gap-2">
+              <span>Relevance to your priorities</span>
+              {relevance !== undefined && (
+                <Badge variant={relevance >= 0.5 ? "default" : "secondary"} className="text-xs">
+                  {Math.round(relevance * 100)}%
+                </Badge>
+              )}
+            </h4>
+            <div className="space-y-1">
+              {concerns.map((concern) => (
+                <div key={concern.standardTerm} className="flex items-center gap-2 text-xs">
+                  <Badge variant="outline" className="text-xs">{concern.priority}</Badge>
+                  <span className="text-muted-foreground">
+                    {concern.standardTerm} ({Math.round(concern.relevance * 100)}%)
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {priorityMatches.length > 0 && (
           <div>
             <h4 className="text-sm font-medium mb-1">Related to your priorities:</h4>
@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { BallotMeasureCard } from "@/components/BallotMeasureCard";
 import { Mode } from "@/contexts/ModeContext";
+import { MeasureConcern } from "@/types/ballot-measures";
 
 interface BallotMeasure {
   title: string;
@@ -21,6 +22,11 @@ interface BallotMeasure {
     name: string;
     description?: string;
   }>;
+  summary?: string;
+  yesMeans?: string;
+  noMeans?: string;
+  concerns?: MeasureConcern[];
+  relevance?: number;
 }
 
 interface BallotMeasuresSectionProps {
@@ -59,6 +65,11 @@ export const BallotMeasuresSection = ({
             supportingGroups={measure.supportingGroups}
             opposingGroups={measure.opposingGroups}
             mode={mode}
+            summary={measure.summary}
+            yesMeans={measure.yesMeans}
+            noMeans={measure.noMeans}
+            concerns={measure.concerns}
+            relevance={measure.relevance}
           />
         ))}
       </CardContent>
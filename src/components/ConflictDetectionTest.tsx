@@ -1,6 +1,11 @@
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { VoterForm } from './VoterForm';
+import { PriorityConflicts } from './PriorityConflicts';
+import { mappingEngine } from '@/services/mapping-engine';
+import { toApiConflicts } from '@/utils/priorityConflicts';
+import { ConflictResult } from '@/types/api';
 import { Mode } from '@/contexts/ModeContext';
 
 const testScenarios = [
@@ -71,6 +76,15 @@ const testScenarios = [
 ];
 
 export function ConflictDetectionTest() {
+  // Conflicts per scenario, once its priorities are mapped
+  const [conflicts, setConflicts] = useState<ConflictResult[][]>([]);
+
+  useEffect(() => {
+    Promise.all(testScenarios.map(async scenario =>
+      toApiConflicts((await mappingEngine.mapPriorities(scenario.values.priorities)).conflicts)
+    )).then(setConflicts);
+  }, []);
+
   const handleSubmit = async (values: any) => {
     console.log('Form submitted:', values);
   };
@@ -92,12 +106,13 @@ export function ConflictDetectionTest() {
               <CardTitle>{scenario.name}</CardTitle>
               <CardDescription>{scenario.description}</CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-6">
               <VoterForm
                 onSubmit={handleSubmit}
                 isLoading={false}
                 initialValues={scenario.values}
               />
+              <PriorityConflicts conflicts={conflicts[index] || []} />
             </CardContent>
           </Card>
         ))}
@@ -10,6 +10,7 @@ import { LoadingProgress } from '@/components/LoadingProgress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { mapUserPriority, initializeModel, classifyPoliticalStatement } from '@/utils/transformersMapping';
+import { loadTerminology } from '@/services/terminology';
 
 interface DebugResult {
   category: string;
@@ -128,17 +129,7 @@ const DebugTool = () => {
         
         for (const term of result.terms) {
           const confidence = result.confidenceScores[term] || 0.5;
-          let description = "Term description not available";
-          
-          try {
-            const response = await fetch('/src/config/issueTerminology.json');
-            const data = await response.json();
-            if (data[term] && data[term].plainEnglish) {
-              description = data[term].plainEnglish;
-            }
-          } catch (error) {
-            console.error('Error fetching term data:', error);
-          }
+          const description = loadTerminology().terms[term]?.plainEnglish || "Term description not available";
           
           resolvedResults.push({
             term,
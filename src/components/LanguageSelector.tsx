@@ -0,0 +1,28 @@
+import { Languages } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { LOCALE_NAMES, SUPPORTED_LOCALES } from '@/services/i18n';
+import { Locale } from '@/types/i18n';
+
+/**
+ * Picks the language of the interface and of the emails and voter guides
+ * written for the voter. Priorities can be typed in either language whatever
+ * is picked here.
+ */
+export function LanguageSelector() {
+  const { language, setLanguage, t } = useLanguage();
+
+  return (
+    <Select value={language} onValueChange={value => setLanguage(value as Locale)}>
+      <SelectTrigger className="h-9 w-[8.5rem]" aria-label={t('language.label')}>
+        <Languages className="mr-2 h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_LOCALES.map(locale => (
+          <SelectItem key={locale} value={locale}>{LOCALE_NAMES[locale]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
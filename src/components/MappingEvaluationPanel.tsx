@@ -0,0 +1,204 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, Loader2, Play } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  compareToBaseline,
+  EvaluationTarget,
+  evaluateMapping,
+  loadGoldSet,
+  pipelineTarget,
+  strategyTarget,
+  toBaseline
+} from '@/services/evaluation';
+import { BaselineComparison, EvaluationMetrics, EvaluationReport } from '@/types/evaluation';
+
+const TARGETS: Record<string, () => EvaluationTarget> = {
+  pipeline: () => pipelineTarget('pipeline'),
+  persona: () => strategyTarget('persona'),
+  terminology: () => strategyTarget('terminology'),
+  embedding: () => strategyTarget('embedding'),
+  llm: () => strategyTarget('llm')
+};
+
+const percent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const MetricsTable = ({ title, groups }: { title: string; groups: Record<string, EvaluationMetrics> }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>{title}</TableHead>
+        <TableHead className="text-right">Examples</TableHead>
+        <TableHead className="text-right">Precision</TableHead>
+        <TableHead className="text-right">Recall</TableHead>
+        <TableHead className="text-right">Top-1</TableHead>
+        <TableHead className="text-right">Top-3</TableHead>
+        <TableHead className="text-right">Category</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {Object.entries(groups).map(([group, metrics]) => (
+        <TableRow key={group}>
+          <TableCell className="font-medium">{group}</TableCell>
+          <TableCell className="text-right">{metrics.examples}</TableCell>
+          <TableCell className="text-right">{percent(metrics.precision)}</TableCell>
+          <TableCell className="text-right">{percent(metrics.recall)}</TableCell>
+          <TableCell className="text-right">{percent(metrics.top1)}</TableCell>
+          <TableCell className="text-right">{percent(metrics.top3)}</TableCell>
+          <TableCell className="text-right">{percent(metrics.categoryAccuracy)}</TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+const BaselineSummary = ({ comparison }: { comparison: BaselineComparison }) => {
+  if (!comparison.comparable) {
+    return <p className="text-sm text-gray-500">{comparison.reason}</p>;
+  }
+  if (comparison.regressions.length === 0) {
+    return (
+      <p className="text-sm text-green-700">
+        No regressions against the stored baseline
+        {comparison.improvements.length > 0 && ` (${comparison.improvements.length} improvements)`}.
+      </p>
+    );
+  }
+  return (
+    <ul className="space-y-1 text-sm">
+      {comparison.regressions.map(change => (
+        <li key={`${change.scope}:${change.metric}`} className="text-red-600">
+          {change.scope} {change.metric}: {percent(change.baseline)} → {percent(change.current)}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Runs a mapping strategy over the labeled persona priorities and shows how
+ * it scores against the stored baseline
+ */
+const MappingEvaluationPanel = () => {
+  const goldSet = useMemo(() => loadGoldSet(), []);
+  const [targetName, setTargetName] = useState('pipeline');
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const { toast } = useToast();
+
+  const comparison = useMemo(() => (report ? compareToBaseline(report) : null), [report]);
+  const misses = report?.examples.filter(result =>
+    (result.example.expectedTerms.length > 0 && result.firstHitRank === undefined) || result.categoryCorrect === false
+  ) || [];
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      setReport(await evaluateMapping(TARGETS[targetName](), goldSet));
+    } catch (error) {
+      console.error('Mapping evaluation error:', error);
+      toast({
+        title: 'Evaluation failed',
+        description: error instanceof Error ? error.message : 'Could not run the evaluation',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleCopyBaseline = async () => {
+    if (!report) return;
+    await navigator.clipboard.writeText(JSON.stringify(toBaseline([report]), null, 2));
+    toast({ title: 'Copied', description: 'Paste it over src/data/mapping-evaluation-baseline.json to accept these results.' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Mapping accuracy</CardTitle>
+        <CardDescription>
+          {goldSet.length} labeled priorities from the persona CSV and test personas.
+          Curated persona entries are held out of the lookup for the example they label.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={targetName} onValueChange={setTargetName}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(TARGETS).map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleRun} disabled={isRunning}>
+            {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+            Run evaluation
+          </Button>
+          {report && (
+            <Button variant="outline" onClick={handleCopyBaseline}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy as baseline
+            </Button>
+          )}
+        </div>
+
+        {report && comparison && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">Precision {percent(report.overall.precision)}</Badge>
+              <Badge variant="secondary">Recall {percent(report.overall.recall)}</Badge>
+              <Badge variant="secondary">Top-1 {percent(report.overall.top1)}</Badge>
+              <Badge variant="secondary">Top-3 {percent(report.overall.top3)}</Badge>
+              <Badge variant="secondary">Category {percent(report.overall.categoryAccuracy)}</Badge>
+              <Badge variant="secondary">Coverage {percent(report.overall.coverage)}</Badge>
+              <Badge variant="outline">{report.embedder} embedder</Badge>
+            </div>
+
+            <BaselineSummary comparison={comparison} />
+            <MetricsTable title="Category" groups={report.byCategory} />
+            <MetricsTable title="Persona" groups={report.byPersona} />
+
+            {misses.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Missed priority</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Got</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {misses.map(result => (
+                    <TableRow key={result.example.id}>
+                      <TableCell className="max-w-xs">{result.example.priority}</TableCell>
+                      <TableCell>
+                        {(result.example.expectedTerms.length > 0
+                          ? result.example.expectedTerms
+                          : result.example.expectedCategories).join(', ')}
+                      </TableCell>
+                      <TableCell>
+                        {result.predictedTerms.length > 0
+                          ? `${result.predictedTerms.slice(0, 3).join(', ')} (${result.predictedCategory})`
+                          : 'nothing'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MappingEvaluationPanel;
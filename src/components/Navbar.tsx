@@ -19,6 +19,7 @@ import {
 import { LucideVote, Settings, Menu, BadgeCheck } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { LanguageSelector } from '@/components/LanguageSelector';
 
 type LogoTextProps = {
   showText?: boolean;
@@ -48,7 +49,8 @@ const Navbar = () => {
           <div className="w-full flex-1 md:w-auto md:flex-none">
             {!isMobile ? <NavLinks /> : null}
           </div>
-          <div className="flex items-center">
+          <div className="flex items-center gap-2">
+            <LanguageSelector />
             {isMobile ? <MobileMenu /> : null}
           </div>
         </div>
@@ -0,0 +1,57 @@
+import { AlertTriangle, CloudOff, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useOffline } from '@/hooks/use-offline';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+/**
+ * Registers the service worker and keeps the offline queue moving. Shows a
+ * bar while offline, while analyses made offline still wait for live data,
+ * or when some of them failed too often to be retried on their own.
+ */
+export function OfflineStatus() {
+  const { isOffline, queuedCount, stalledCount, syncData, retryStalled, discardStalled } = useOffline();
+  const { t } = useLanguage();
+
+  const showQueue = isOffline || queuedCount > 0;
+  if (!showQueue && stalledCount === 0) return null;
+
+  const plural = (count: number) => count === 1 ? 'one' : 'other';
+
+  return (
+    <div role="status" className="fixed bottom-0 inset-x-0 z-50 border-t bg-amber-50 text-amber-900 text-sm">
+      {showQueue && (
+        <div className="container mx-auto px-4 py-2 flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <CloudOff className="h-4 w-4 shrink-0" />
+            {isOffline
+              ? queuedCount > 0 ? t(`offline.offlineQueued.${plural(queuedCount)}`, { count: queuedCount }) : t('offline.offline')
+              : t(`offline.waiting.${plural(queuedCount)}`, { count: queuedCount })}
+          </span>
+          {!isOffline && (
+            <Button variant="outline" size="sm" className="flex items-center gap-1" onClick={() => void syncData()}>
+              <RefreshCw className="h-4 w-4" /> {t('offline.refresh')}
+            </Button>
+          )}
+        </div>
+      )}
+      {stalledCount > 0 && (
+        <div className="container mx-auto px-4 py-2 flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {t(`offline.stalled.${plural(stalledCount)}`, { count: stalledCount })}
+          </span>
+          <span className="flex gap-2">
+            {!isOffline && (
+              <Button variant="outline" size="sm" onClick={() => void retryStalled()}>
+                {t('offline.retry')}
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => void discardStalled()}>
+              {t('offline.discard')}
+            </Button>
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { ConflictResult } from '@/utils/priorityConflicts';
+import { ConflictResult } from '@/types/api';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { ExclamationTriangleIcon } from '@radix-ui/react-icons';
 
@@ -22,16 +22,39 @@ export function PriorityConflicts({ conflicts }: PriorityConflictsProps) {
             Potential Conflict Detected
           </AlertTitle>
           <AlertDescription className="mt-2">
-            <p className="text-sm">
-              Your priorities may have conflicting goals:
-            </p>
+            {conflict.priority2 ? (
+              <>
+                <p className="text-sm">
+                  Your priorities may have conflicting goals:
+                </p>
+                <div className="mt-2 space-y-2">
+                  <p className="text-sm font-medium">Priority 1:</p>
+                  <p className="text-sm pl-4">{conflict.priority1}</p>
+                  <p className="text-sm font-medium">Priority 2:</p>
+                  <p className="text-sm pl-4">{conflict.priority2}</p>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-sm">
+                  This priority may pull in two directions:
+                </p>
+                <p className="text-sm pl-4 mt-2">{conflict.priority1}</p>
+              </>
+            )}
             <div className="mt-2 space-y-2">
-              <p className="text-sm font-medium">Priority 1:</p>
-              <p className="text-sm pl-4">{conflict.priority1}</p>
-              <p className="text-sm font-medium">Priority 2:</p>
-              <p className="text-sm pl-4">{conflict.priority2}</p>
               <p className="text-sm font-medium mt-2">Reason:</p>
-              <p className="text-sm pl-4">{conflict.reason}</p>
+              <p className="text-sm pl-4">{conflict.explanation || conflict.reason}</p>
+              {conflict.possibleCompromises && conflict.possibleCompromises.length > 0 && (
+                <>
+                  <p className="text-sm font-medium mt-2">Possible compromises:</p>
+                  <ul className="text-sm pl-8 list-disc">
+                    {conflict.possibleCompromises.map(compromise => (
+                      <li key={compromise}>{compromise}</li>
+                    ))}
+                  </ul>
+                </>
+              )}
             </div>
           </AlertDescription>
         </Alert>
@@ -2,8 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
-import { initialPolicyMappings } from '@/data/policy-mappings';
-import { enhancedPolicyMappings } from '@/data/enhanced-policy-mappings';
+import { keywordTerms } from '@/services/terminology';
 import { PolicyMapper } from '@/services/policy-mapper';
 
 interface MappingRow {
@@ -18,7 +17,7 @@ interface MappingRow {
 // Utility to merge and flatten mappings
 function getAllMappings(unmapped: string[]): MappingRow[] {
   const merged: Record<string, MappingRow> = {};
-  Object.entries({ ...initialPolicyMappings, ...enhancedPolicyMappings }).forEach(
+  Object.entries(keywordTerms).forEach(
     ([priority, mapping]: any) => {
       merged[priority] = {
         priority,
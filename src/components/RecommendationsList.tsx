@@ -12,6 +12,7 @@ import {
   Petition,
   CivicEducationResource
 } from '@/types/api';
+import { toMailto } from '@/services/email';
 
 interface RecommendationsListProps {
   recommendations?: {
@@ -176,7 +177,7 @@ export function RecommendationsList({ recommendations, mode }: RecommendationsLi
                 <CardHeader>
                   <CardTitle>Email to {draft.recipient.name}</CardTitle>
                   <CardDescription>
-                    {draft.recipient.position} • {draft.recipient.email}
+                    {draft.recipient.title}{draft.recipient.email ? ` • ${draft.recipient.email}` : ''}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -194,7 +195,7 @@ export function RecommendationsList({ recommendations, mode }: RecommendationsLi
                 <CardFooter>
                   <Button variant="outline" size="sm" asChild>
                     <a 
-                      href={`mailto:${draft.recipient.email}?subject=${encodeURIComponent(draft.subject)}&body=${encodeURIComponent(draft.body)}`}
+                      href={toMailto(draft)}
                       target="_blank"
                       rel="noopener noreferrer"
                     >
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Bell, BellOff, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { REMINDER_CATEGORIES, ReminderService, reminderService } from '@/services/reminders';
+import { ReminderCategory, ReminderPreferences } from '@/types/reminders';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+/**
+ * Opt in to push reminders for the voter's ZIP code, choosing which kinds
+ */
+export function ReminderDialog({ zipCode }: { zipCode: string }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [current, setCurrent] = useState<ReminderPreferences | null>(null);
+  const [categories, setCategories] = useState<ReminderCategory[]>(REMINDER_CATEGORIES);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { t } = useLanguage();
+
+  if (!ReminderService.isSupported()) return null;
+
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open);
+    if (!open) return;
+
+    setIsLoading(true);
+    try {
+      const preferences = await reminderService.current();
+      setCurrent(preferences);
+      setCategories(preferences?.categories || REMINDER_CATEGORIES);
+    } catch (error) {
+      console.error('Error loading reminders:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleCategory = (category: ReminderCategory, checked: boolean) =>
+    setCategories(selected =>
+      checked ? REMINDER_CATEGORIES.filter(item => item === category || selected.includes(item)) : selected.filter(item => item !== category)
+    );
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      setCurrent(await reminderService.subscribe(zipCode, categories));
+      toast({ title: t('reminders.on'), description: t('reminders.onDescription', { zipCode }) });
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error saving reminders:', error);
+      toast({
+        title: t('reminders.onFailed'),
+        description: error instanceof Error ? error.message : t('common.tryAgain'),
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTurnOff = async () => {
+    setIsSaving(true);
+    try {
+      await reminderService.unsubscribe();
+      setCurrent(null);
+      toast({ title: t('reminders.off'), description: t('reminders.offDescription') });
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error turning off reminders:', error);
+      toast({ title: t('reminders.offFailed'), description: t('common.tryAgain'), variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Bell className="mr-2 h-4 w-4" />
+          {t('reminders.open')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('reminders.title')}</DialogTitle>
+          <DialogDescription>
+            {t('reminders.description', { zipCode })}
+            {current && current.zipCode !== zipCode && ` ${t('reminders.switching', { zipCode: current.zipCode })}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {REMINDER_CATEGORIES.map(category => (
+              <div key={category} className="flex items-center gap-2">
+                <Checkbox
+                  id={`reminder-${category}`}
+                  checked={categories.includes(category)}
+                  onCheckedChange={checked => toggleCategory(category, checked === true)}
+                />
+                <Label htmlFor={`reminder-${category}`}>{t(`reminders.category.${category}`)}</Label>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {current && (
+            <Button variant="outline" onClick={handleTurnOff} disabled={isSaving}>
+              <BellOff className="mr-2 h-4 w-4" />
+              {t('reminders.turnOff')}
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={isSaving || isLoading || categories.length === 0}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {current ? t('reminders.save') : t('reminders.turnOn')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
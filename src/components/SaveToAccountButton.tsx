@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useMode } from '@/contexts/ModeContext';
+import { useAuthUser } from '@/hooks/use-account';
+import { accountService, diffPriorities } from '@/services/account';
+import { RecommendationsData } from '@/types/api';
+
+/**
+ * Saves the priorities as the next version of the voter's latest set, and
+ * files this analysis in their history for the current cycle
+ */
+export function SaveToAccountButton({ recommendationsData }: { recommendationsData: RecommendationsData }) {
+  const { isSignedIn, isLoading } = useAuthUser();
+  const { election } = useMode();
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  if (isLoading) return null;
+
+  if (!isSignedIn) {
+    return (
+      <Button variant="outline" size="sm" asChild>
+        <Link to="/auth" className="flex items-center gap-1">
+          <Save className="h-4 w-4" /> Sign in to save
+        </Link>
+      </Button>
+    );
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { priorities, mappedPriorities } = recommendationsData.analysis;
+      const [latest] = await accountService.listPrioritySets();
+      // Only add a version when the wording or the mapping actually changed
+      const diff = latest && diffPriorities(latest, { priorities, mappedPriorities });
+      const unchanged = diff && [diff.added, diff.removed, diff.termsAdded, diff.termsRemoved].every(list => list.length === 0);
+
+      const saved = unchanged
+        ? latest
+        : await accountService.savePriorities({
+            setId: latest?.setId,
+            priorities,
+            mappedPriorities,
+            zipCode: recommendationsData.zipCode
+          });
+      const electionName = recommendationsData.mode === 'demo'
+        ? election.lastGeneralElection?.name
+        : election.nextElection?.name;
+      await accountService.recordAnalysis(recommendationsData, { cycle: election.cycle, name: electionName }, saved.id);
+
+      toast({
+        title: "Saved to your account",
+        description: unchanged
+          ? `Added to your ${election.cycle} history.`
+          : `Saved as version ${saved.version} of "${saved.name}" and added to your ${election.cycle} history.`,
+      });
+    } catch (error) {
+      console.error('Error saving to account:', error);
+      toast({
+        title: "Error",
+        description: "Couldn't save to your account. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" className="flex items-center gap-1" disabled={isSaving} onClick={handleSave}>
+      <Save className="h-4 w-4" /> {isSaving ? 'Saving...' : 'Save to account'}
+    </Button>
+  );
+}
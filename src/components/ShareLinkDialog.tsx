@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Link2, Loader2, Share } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { snapshotService } from '@/services/snapshots';
+import { formatDate } from '@/services/i18n';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { RecommendationsData } from '@/types/api';
+import { CreatedShare, SnapshotExpiry, SnapshotPrivacy } from '@/types/snapshots';
+
+const EXPIRY_OPTIONS: SnapshotExpiry[] = ['1d', '7d', '30d', 'never'];
+
+const isLive = (share: CreatedShare) =>
+  !share.revokedAt && (!share.expiresAt || new Date(share.expiresAt) > new Date());
+
+/**
+ * Creates read-only links to a redacted copy of the recommendations, and lists
+ * the links made in this browser so they can be revoked
+ */
+export function ShareLinkDialog({ recommendationsData }: { recommendationsData: RecommendationsData }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [privacy, setPrivacy] = useState<SnapshotPrivacy>('terms_only');
+  const [expiry, setExpiry] = useState<SnapshotExpiry>('30d');
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdShare, setCreatedShare] = useState<CreatedShare | null>(null);
+  const [shares, setShares] = useState<CreatedShare[]>([]);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { language, t } = useLanguage();
+
+  const formatShareDate = (date: string) => formatDate(new Date(date), language);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setCreatedShare(null);
+      setShares(snapshotService.createdShares());
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const share = await snapshotService.share(recommendationsData, { privacy, expiry });
+      setCreatedShare(share);
+      setShares(snapshotService.createdShares());
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      toast({
+        title: t('common.error'),
+        description: t('share.createFailed'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (share: CreatedShare) => {
+    try {
+      await navigator.clipboard.writeText(share.url);
+      toast({ title: t('share.copied'), description: t('share.copiedDescription') });
+    } catch (error) {
+      console.error('Error copying share link:', error);
+      toast({
+        title: t('share.copyFailed'),
+        description: t('share.copyFailedDescription'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleNativeShare = async (share: CreatedShare) => {
+    try {
+      await navigator.share({
+        title: t('share.nativeTitle'),
+        text: t('share.nativeText', { place: recommendationsData.zipCode || t('share.myArea') }),
+        url: share.url
+      });
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError; nothing to report
+      if (error instanceof Error && error.name === 'AbortError') return;
+      console.error('Error sharing:', error);
+    }
+  };
+
+  const handleRevoke = async (share: CreatedShare) => {
+    setRevokingId(share.id);
+    try {
+      await snapshotService.revoke(share);
+      setShares(snapshotService.createdShares());
+      if (createdShare?.id === share.id) setCreatedShare(null);
+      toast({ title: t('share.revoked'), description: t('share.revokedDescription') });
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      toast({
+        title: t('common.error'),
+        description: t('share.revokeFailed'),
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const earlierShares = shares.filter(share => share.id !== createdShare?.id && isLive(share));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1">
+          <Share className="h-4 w-4" /> {t('share.open')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('share.title')}</DialogTitle>
+          <DialogDescription>
+            {t('share.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdShare ? (
+          <div className="space-y-3">
+            <Label htmlFor="share-url">{t('share.yourLink')}</Label>
+            <div className="flex gap-2">
+              <Input id="share-url" readOnly value={createdShare.url} onFocus={event => event.target.select()} />
+              <Button variant="outline" size="icon" onClick={() => handleCopy(createdShare)} aria-label={t('share.copyLink')}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-sm text-gray-500">
+              {createdShare.expiresAt ? t('share.expires', { date: formatShareDate(createdShare.expiresAt) }) : t('share.neverExpires')}{' '}
+              {createdShare.privacy === 'terms_only' ? t('share.shownAsTerms') : t('share.shownAsWritten')}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {typeof navigator.share === 'function' && (
+                <Button variant="outline" size="sm" onClick={() => handleNativeShare(createdShare)}>
+                  <Share className="h-4 w-4 mr-1" /> {t('share.shareLink')}
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={revokingId === createdShare.id}
+                onClick={() => handleRevoke(createdShare)}
+              >
+                {t('share.turnOffLink')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{t('share.include')}</Label>
+              <RadioGroup value={privacy} onValueChange={value => setPrivacy(value as SnapshotPrivacy)} className="space-y-2">
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="terms_only" id="privacy-terms" className="mt-1" />
+                  <Label htmlFor="privacy-terms" className="font-normal">
+                    {t('share.privacy.termsOnly')}
+                    <span className="block text-sm text-gray-500">{t('share.privacy.termsOnlyDescription')}</span>
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="full" id="privacy-full" className="mt-1" />
+                  <Label htmlFor="privacy-full" className="font-normal">
+                    {t('share.privacy.full')}
+                    <span className="block text-sm text-gray-500">{t('share.privacy.fullDescription')}</span>
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-expiry">{t('share.expiry')}</Label>
+              <Select value={expiry} onValueChange={value => setExpiry(value as SnapshotExpiry)}>
+                <SelectTrigger id="share-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option} value={option}>{t(`share.expiry.${option}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {earlierShares.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <Label>{t('share.others')}</Label>
+            <ul className="space-y-2 text-sm">
+              {earlierShares.map(share => (
+                <li key={share.id} className="flex items-center justify-between gap-2">
+                  <span className="truncate">
+                    {formatShareDate(share.createdAt)} · {share.privacy === 'terms_only' ? t('share.summary.termsOnly') : t('share.summary.full')}
+                    {share.expiresAt ? ` · ${t('share.summary.expires', { date: formatShareDate(share.expiresAt) })}` : ''}
+                  </span>
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" size="icon" onClick={() => handleCopy(share)} aria-label={t('share.copyLink')}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={revokingId === share.id}
+                      onClick={() => handleRevoke(share)}
+                    >
+                      {t('share.turnOff')}
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!createdShare && (
+          <DialogFooter>
+            <Button onClick={handleCreate} disabled={isCreating}>
+              {isCreating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Link2 className="h-4 w-4 mr-1" />}
+              {t('share.create')}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,137 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Play, Send } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getUnmappedInputs, mineUnmappedInputs, submitProposals } from '@/services/term-mining';
+import { TermMiningResult } from '@/types/term-mining';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Clusters the priorities that couldn't be mapped and sends the selected
+ * term proposals to the terminology review queue
+ */
+const TermMiningPanel = () => {
+  const inputs = useMemo(() => getUnmappedInputs(), []);
+  const [result, setResult] = useState<TermMiningResult | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isMining, setIsMining] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleMine = async () => {
+    setIsMining(true);
+    try {
+      const mined = await mineUnmappedInputs(inputs);
+      setResult(mined);
+      setSelected(new Set(mined.proposals.map((_, index) => index)));
+    } catch (error) {
+      console.error('Term mining error:', error);
+      toast({
+        title: 'Mining failed',
+        description: error instanceof Error ? error.message : 'Could not cluster the unmapped inputs',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsMining(false);
+    }
+  };
+
+  const toggle = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setSelected(next);
+  };
+
+  const handleSubmit = async () => {
+    if (!result) return;
+    setIsSubmitting(true);
+    try {
+      const queued = await submitProposals(result.proposals.filter((_, index) => selected.has(index)));
+      toast({ title: 'Sent for review', description: `${queued} proposed terms were added to the pending queue.` });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Term mining</CardTitle>
+        <CardDescription>
+          {inputs.length} logged priorities that no strategy could map. Similar ones are clustered
+          into proposed terms for the review queue.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button onClick={handleMine} disabled={isMining || inputs.length === 0}>
+            {isMining ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+            Mine unmapped inputs
+          </Button>
+          {result && result.proposals.length > 0 && (
+            <Button variant="outline" onClick={handleSubmit} disabled={isSubmitting || selected.size === 0}>
+              {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+              Send {selected.size} for review
+            </Button>
+          )}
+        </div>
+
+        {result && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{result.proposals.length} proposals</Badge>
+              <Badge variant="outline">{result.unclustered.length} inputs left unclustered</Badge>
+            </div>
+
+            {result.proposals.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    <TableHead>Proposed term</TableHead>
+                    <TableHead>Plain language</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Would capture</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.proposals.map((proposal, index) => (
+                    <TableRow key={proposal.standardTerm}>
+                      <TableCell>
+                        <Checkbox checked={selected.has(index)} onCheckedChange={() => toggle(index)} />
+                      </TableCell>
+                      <TableCell className="max-w-xs">
+                        <div className="font-medium">{proposal.standardTerm}</div>
+                        <ul className="mt-1 text-xs text-gray-500 space-y-0.5">
+                          {proposal.cluster.inputs.slice(0, 3).map(input => (
+                            <li key={input}>"{input}"</li>
+                          ))}
+                        </ul>
+                      </TableCell>
+                      <TableCell>{proposal.plainLanguage.join(', ')}</TableCell>
+                      <TableCell>{proposal.category}</TableCell>
+                      <TableCell className="text-right">
+                        {proposal.estimatedCaptures} ({percent(proposal.captureRate)})
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TermMiningPanel;
@@ -0,0 +1,314 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { browserIssueTerminologyService } from '@/services/issue-terminology-service';
+import { loadTerminology } from '@/services/terminology';
+import { IssueTerm, IssueTermStatus, TerminologyAuditEntry } from '@/types/terminology';
+
+const STATUSES: IssueTermStatus[] = ['pending', 'approved', 'rejected', 'merged'];
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Merge targets are canonical terminology terms ("key:<term key>") or approved voter terms ("term:<id>")
+const CANONICAL_TERMS = Object.entries(loadTerminology().terms)
+  .map(([key, term]) => ({ key, standardTerm: term.standardTerm }))
+  .sort((a, b) => a.standardTerm.localeCompare(b.standardTerm));
+
+interface PendingTermCardProps {
+  term: IssueTerm;
+  approvedTerms: IssueTerm[];
+  onChanged: () => void;
+}
+
+const TermHistory = ({ termId }: { termId: string }) => {
+  const [history, setHistory] = useState<TerminologyAuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    browserIssueTerminologyService.getHistory(termId)
+      .then(setHistory)
+      .catch(err => setError(err.message || 'Could not load history'));
+  }, [termId]);
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+  if (!history) return <Loader2 className="h-4 w-4 animate-spin" />;
+  if (history.length === 0) return <p className="text-sm text-gray-500">No changes recorded.</p>;
+
+  return (
+    <ul className="space-y-2 text-sm">
+      {history.map(entry => (
+        <li key={entry.id} className="border-l-2 pl-3">
+          <div className="font-medium">
+            {entry.action} by {entry.actorEmail || 'anonymous'} · {new Date(entry.createdAt).toLocaleString()}
+          </div>
+          {entry.reason && <div className="text-gray-600">Reason: {entry.reason}</div>}
+          {Object.entries(entry.changes).map(([field, change]) => (
+            <div key={field} className="text-gray-500">
+              {field}: {JSON.stringify(change.from)} → {JSON.stringify(change.to)}
+            </div>
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const PendingTermCard = ({ term, approvedTerms, onChanged }: PendingTermCardProps) => {
+  const [synonyms, setSynonyms] = useState(term.synonyms.join(', '));
+  const [mappedPolicies, setMappedPolicies] = useState(term.mappedPolicies.join(', '));
+  const [reason, setReason] = useState('');
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const { toast } = useToast();
+
+  const run = async (action: () => Promise<unknown>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast({ title: 'Saved', description: successMessage });
+      onChanged();
+    } catch (error) {
+      console.error('Terminology review error:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Could not save the review',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => run(
+    () => browserIssueTerminologyService.updateTerm(term.id, {
+      synonyms: splitList(synonyms),
+      mappedPolicies: splitList(mappedPolicies)
+    }, reason || undefined),
+    `Updated "${term.term}"`
+  );
+
+  const handleApprove = () => run(
+    async () => {
+      await browserIssueTerminologyService.updateTerm(term.id, {
+        synonyms: splitList(synonyms),
+        mappedPolicies: splitList(mappedPolicies)
+      });
+      await browserIssueTerminologyService.approveTerm(term.id, reason || undefined);
+    },
+    `Approved "${term.term}"`
+  );
+
+  const handleReject = () => {
+    if (!reason.trim()) {
+      toast({ title: 'Reason required', description: 'Explain why this term is being rejected.', variant: 'destructive' });
+      return;
+    }
+    run(() => browserIssueTerminologyService.rejectTerm(term.id, reason), `Rejected "${term.term}"`);
+  };
+
+  const handleMerge = () => run(
+    () => mergeTarget.startsWith('key:')
+      ? browserIssueTerminologyService.mergeIntoTerminology(term.id, mergeTarget.slice(4), reason || undefined)
+      : browserIssueTerminologyService.mergeTerm(term.id, mergeTarget.slice(5), reason || undefined),
+    `Merged "${term.term}"`
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">{term.term}</CardTitle>
+          <Badge variant="outline">{term.category}</Badge>
+        </div>
+        <CardDescription>Suggested {new Date(term.dateAdded).toLocaleDateString()}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label>Voter inputs</Label>
+          <ul className="mt-1 list-disc pl-5 text-sm text-gray-700">
+            {(term.sourceInputs || [term.term]).map(input => <li key={input}>{input}</li>)}
+          </ul>
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          <div>
+            <Label htmlFor={`synonyms-${term.id}`}>Synonyms (comma separated)</Label>
+            <Input id={`synonyms-${term.id}`} value={synonyms} onChange={e => setSynonyms(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor={`policies-${term.id}`}>Mapped policies (comma separated)</Label>
+            <Input id={`policies-${term.id}`} value={mappedPolicies} onChange={e => setMappedPolicies(e.target.value)} />
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor={`reason-${term.id}`}>Reason</Label>
+          <Textarea
+            id={`reason-${term.id}`}
+            placeholder="Why are you approving, rejecting or merging this term?"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button onClick={handleApprove} disabled={isSaving}>Approve</Button>
+          <Button variant="destructive" onClick={handleReject} disabled={isSaving}>Reject</Button>
+          <Button variant="outline" onClick={handleSave} disabled={isSaving}>Save edits</Button>
+          <div className="flex items-center gap-2">
+            <Select value={mergeTarget} onValueChange={setMergeTarget}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Merge into existing term" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectLabel>Terminology</SelectLabel>
+                  {CANONICAL_TERMS.map(canonical => (
+                    <SelectItem key={canonical.key} value={`key:${canonical.key}`}>{canonical.standardTerm}</SelectItem>
+                  ))}
+                </SelectGroup>
+                {approvedTerms.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Approved voter terms</SelectLabel>
+                    {approvedTerms.map(approved => (
+                      <SelectItem key={approved.id} value={`term:${approved.id}`}>{approved.term}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+            <Button variant="secondary" onClick={handleMerge} disabled={isSaving || !mergeTarget}>Merge</Button>
+          </div>
+          <Button variant="ghost" onClick={() => setShowHistory(!showHistory)}>
+            {showHistory ? 'Hide history' : 'History'}
+          </Button>
+        </div>
+
+        {showHistory && <TermHistory termId={term.id} />}
+      </CardContent>
+    </Card>
+  );
+};
+
+const ReviewedTermRow = ({ term, terms }: { term: IssueTerm; terms: IssueTerm[] }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const mergedInto = term.mergedInto
+    ? terms.find(t => t.id === term.mergedInto)?.term
+    : CANONICAL_TERMS.find(canonical => canonical.key === term.mergedIntoTermKey)?.standardTerm;
+
+  return (
+    <Card>
+      <CardContent className="space-y-2 pt-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <span className="font-medium">{term.term}</span>
+            {mergedInto && <span className="text-sm text-gray-500"> → {mergedInto}</span>}
+          </div>
+          <Badge variant="outline">{term.category}</Badge>
+        </div>
+        {term.synonyms.length > 0 && (
+          <p className="text-sm text-gray-600">Synonyms: {term.synonyms.join(', ')}</p>
+        )}
+        {term.reviewReason && <p className="text-sm text-gray-600">Reason: {term.reviewReason}</p>}
+        <Button variant="ghost" size="sm" onClick={() => setShowHistory(!showHistory)}>
+          {showHistory ? 'Hide history' : 'History'}
+        </Button>
+        {showHistory && <TermHistory termId={term.id} />}
+      </CardContent>
+    </Card>
+  );
+};
+
+/**
+ * Reviewer queue for voter-suggested terminology
+ */
+const TerminologyReviewQueue = () => {
+  const [terms, setTerms] = useState<IssueTerm[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTerms = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setTerms(await browserIssueTerminologyService.listTerms());
+      setError(null);
+    } catch (err) {
+      console.error('Error loading terminology review queue:', err);
+      setError(err instanceof Error ? err.message : 'Could not load the review queue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTerms();
+  }, [loadTerms]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="space-y-4 pt-6">
+          <p className="text-red-600">{error}</p>
+          <p className="text-sm text-gray-600">Only signed-in terminology reviewers can use this page.</p>
+          <Button variant="outline" onClick={loadTerms}>Retry</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const approvedTerms = terms.filter(term => term.status === 'approved');
+
+  return (
+    <Tabs defaultValue="pending">
+      <TabsList>
+        {STATUSES.map(status => (
+          <TabsTrigger key={status} value={status} className="capitalize">
+            {status} ({terms.filter(term => term.status === status).length})
+          </TabsTrigger>
+        ))}
+      </TabsList>
+
+      {STATUSES.map(status => {
+        const termsWithStatus = terms.filter(term => term.status === status);
+        return (
+          <TabsContent key={status} value={status} className="space-y-4">
+            {termsWithStatus.length === 0 && (
+              <p className="py-8 text-center text-gray-500">No {status} terms.</p>
+            )}
+            {termsWithStatus.map(term => status === 'pending'
+              ? <PendingTermCard key={term.id} term={term} approvedTerms={approvedTerms} onChanged={loadTerms} />
+              : <ReviewedTermRow key={term.id} term={term} terms={terms} />
+            )}
+          </TabsContent>
+        );
+      })}
+    </Tabs>
+  );
+};
+
+export default TerminologyReviewQueue;
@@ -300,6 +300,23 @@ export function TestMappingForm() {
                             </div>
                           )}
                         </div>
+                      ) : priority.matches && priority.matches.length > 0 ? (
+                        <div className="space-y-1">
+                          {priority.matches.map(match => (
+                            <div key={match.standardTerm} className="flex items-center gap-2">
+                              <span>{match.standardTerm}</span>
+                              {match.stance && (
+                                <Badge
+                                  variant={match.stance === 'oppose' ? 'destructive' : match.stance === 'mixed' ? 'secondary' : 'default'}
+                                  className="text-xs"
+                                  title={match.stanceEvidence?.join('\n')}
+                                >
+                                  {match.stance}
+                                </Badge>
+                              )}
+                            </div>
+                          ))}
+                        </div>
                       ) : (
                         <div>
                           {priority.mappedTerms.join(', ')}
@@ -11,18 +11,36 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { useState } from "react";
+import { useMemo } from "react";
 import { ErrorBoundary } from 'react-error-boundary';
 import { ErrorFallback } from '@/components/ErrorFallback';
 import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd';
 import { GripVertical } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Translator } from "@/services/i18n";
 
 // Define a schema just for priorities
-const PrioritiesSchema = z.object({
-  priorities: z.array(z.string()).min(1, 'At least one priority is required'),
+const prioritiesSchema = (t: Translator) => z.object({
+  priorities: z.array(z.string()).min(1, t('voterForm.required')),
 });
 
-type PrioritiesFormValues = z.infer<typeof PrioritiesSchema>;
+type PrioritiesFormValues = z.infer<ReturnType<typeof prioritiesSchema>>;
+
+// Sample priorities in Spanish, in the same casual voice as the English ones
+const RANDOM_PRIORITIES_ES = [
+  "Me preocupa mucho el cambio climático. ¿Qué planeta les vamos a dejar a nuestros hijos?",
+  "La atención médica es carísima. No voy al doctor porque no me alcanza.",
+  "La renta está por las nubes y no puedo ahorrar nada.",
+  "La universidad no debería dejarte con deudas toda la vida.",
+  "El gobierno se queda con demasiado de mi sueldo en impuestos.",
+  "Necesitamos una frontera segura, pero con respeto para los inmigrantes.",
+  "Quiero que haya más transporte público en mi ciudad.",
+  "Los maestros ganan muy poco y las escuelas públicas no tienen recursos.",
+  "Me da miedo la inteligencia artificial y lo que va a hacer con los empleos.",
+  "La salud mental debería ser tan normal como ir al médico.",
+  "Los políticos solo se pelean y nadie busca soluciones.",
+  "El costo de vida sube cada mes y el sueldo no alcanza."
+];
 
 interface VoterFormProps {
   onSubmit: (values: any) => void;
@@ -31,8 +49,10 @@ interface VoterFormProps {
 }
 
 export function VoterForm({ onSubmit, isLoading = false, onRandomZipCode }: VoterFormProps) {
+  const { language, t } = useLanguage();
+  const schema = useMemo(() => prioritiesSchema(t), [t]);
   const form = useForm<PrioritiesFormValues>({
-    resolver: zodResolver(PrioritiesSchema),
+    resolver: zodResolver(schema),
     defaultValues: {
       priorities: ["", "", "", "", "", ""],
     },
@@ -118,7 +138,7 @@ export function VoterForm({ onSubmit, isLoading = false, onRandomZipCode }: Vote
     }
     
     // Shuffle and take 6 random priorities
-    const shuffled = [...randomPriorities].sort(() => 0.5 - Math.random());
+    const shuffled = [...(language === 'es' ? RANDOM_PRIORITIES_ES : randomPriorities)].sort(() => 0.5 - Math.random());
     const selected = shuffled.slice(0, 6);
     
     form.setValue("priorities", selected);
@@ -155,7 +175,7 @@ export function VoterForm({ onSubmit, isLoading = false, onRandomZipCode }: Vote
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
           <div className="space-y-2">
             <div className="flex justify-between items-center">
-              <FormLabel className="text-base">Your Top Priorities</FormLabel>
+              <FormLabel className="text-base">{t('voterForm.title')}</FormLabel>
             </div>
 
             <DragDropContext onDragEnd={handleDragEnd}>
@@ -187,7 +207,7 @@ export function VoterForm({ onSubmit, isLoading = false, onRandomZipCode }: Vote
                                 <FormItem className="flex-1 mb-0">
                                   <FormControl>
                                     <Input
-                                      placeholder={`Priority ${index + 1}`}
+                                      placeholder={t('voterForm.placeholder', { number: index + 1 })}
                                       className="h-9"
                                       maxLength={250}
                                       {...field}
@@ -216,10 +236,10 @@ export function VoterForm({ onSubmit, isLoading = false, onRandomZipCode }: Vote
               className="h-9 text-sm"
               onClick={handleRandomPriorities}
             >
-              Random
+              {t('voterForm.random')}
             </Button>
             <Button type="submit" className="h-9 text-sm" disabled={isLoading}>
-              {isLoading ? "Analyzing..." : "Submit"}
+              {isLoading ? t('voterForm.analyzing') : t('voterForm.submit')}
             </Button>
           </div>
         </form>
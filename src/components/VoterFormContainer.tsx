@@ -1,9 +1,10 @@
 import { VoterForm } from '@/components/VoterForm';
 import { VoterFormValues } from '@/schemas/voterFormSchema';
-import { RecommendationsData } from '@/types/api';
+import { Mode, RecommendationsData } from '@/types/api';
+import { MappedPriority } from '@/types/policy-mappings';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { RecommendationsViewer } from '@/components/priorities/RecommendationsViewer';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { ErrorBoundary as ReactErrorBoundary } from 'react-error-boundary';
 import { ErrorFallback } from '@/components/ErrorFallback';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
@@ -12,46 +13,50 @@ import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { PriorityMappingTable } from './priorities/PriorityMappingTable';
 import { Input } from "@/components/ui/input";
-import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { AutoFillMenu } from "@/components/AutoFillMenu";
-
-type ModeType = "current" | "demo";
+import { useMode } from "@/contexts/ModeContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Translator } from "@/services/i18n";
 
 interface VoterFormContainerProps {
   onSubmit: (values: VoterFormValues) => Promise<void>;
   isLoading: boolean;
   recommendations: RecommendationsData | null;
-  mode?: ModeType;
 }
 
-// Schema for just the ZIP code
-const ZipCodeSchema = z.object({
-  zipCode: z.string().regex(/^\d{5}$/, "ZIP code must be exactly 5 digits")
+// Schema for the ZIP code and the optional street address
+const zipCodeSchema = (t: Translator) => z.object({
+  zipCode: z.string().regex(/^\d{5}$/, t('voterForm.zipCodeInvalid')),
+  address: z.string().max(200, t('voterForm.addressTooLong')).optional()
 });
 
-type ZipCodeFormValues = z.infer<typeof ZipCodeSchema>;
+type ZipCodeFormValues = z.infer<ReturnType<typeof zipCodeSchema>>;
 
 export const VoterFormContainer = ({
   onSubmit,
   isLoading,
-  recommendations,
-  mode = 'demo'
+  recommendations
 }: VoterFormContainerProps) => {
-  const [selectedMode, setSelectedMode] = useState<ModeType>(mode);
   const [isUpdating, setIsUpdating] = useState(false);
   const [showMappingOnly, setShowMappingOnly] = useState(false);
   const [showRecommendations, setShowRecommendations] = useState(false);
   const [mappedPriorities, setMappedPriorities] = useState<any[]>([]);
   const { toast } = useToast();
+  // The election calendar picks the mode until the voter chooses one
+  const { mode: selectedMode, setMode, resetMode, isAutomaticMode, setZipCode } = useMode();
+  const { t } = useLanguage();
+  const schema = useMemo(() => zipCodeSchema(t), [t]);
   
   // Form for ZIP code
   const zipForm = useForm<ZipCodeFormValues>({
-    resolver: zodResolver(ZipCodeSchema),
+    resolver: zodResolver(schema),
     defaultValues: {
-      zipCode: recommendations?.zipCode || ""
+      zipCode: recommendations?.zipCode || "",
+      address: recommendations?.districts?.address || ""
     }
   });
   
@@ -59,8 +64,16 @@ export const VoterFormContainer = ({
   useEffect(() => {
     if (recommendations?.zipCode) {
       zipForm.setValue("zipCode", recommendations.zipCode);
+      // Lets the election calendar pick the mode and countdowns for the voter's state
+      setZipCode(recommendations.zipCode);
     }
-  }, [recommendations?.zipCode, zipForm]);
+  }, [recommendations?.zipCode, zipForm, setZipCode]);
+
+  // A ZIP code typed before submitting already decides the voter's state, and so the mode
+  const typedZipCode = zipForm.watch("zipCode");
+  useEffect(() => {
+    if (/^\d{5}$/.test(typedZipCode)) setZipCode(typedZipCode);
+  }, [typedZipCode, setZipCode]);
   
   // Debug logging
   useEffect(() => {
@@ -75,6 +88,7 @@ export const VoterFormContainer = ({
       const processedPriorities = recommendations.analysis.mappedPriorities.map(priority => {
         // Ensure each priority has the required fields
         return {
+          ...priority,
           original: priority.original || '',
           mappedTerms: Array.isArray(priority.mappedTerms) ? priority.mappedTerms : [],
           category: priority.category || ''
@@ -86,11 +100,11 @@ export const VoterFormContainer = ({
     }
   }, [recommendations]);
 
-  const handleModeChange = (value: ModeType) => {
-    setSelectedMode(value);
+  const handleModeChange = (value: Mode) => {
+    setMode(value);
     toast({
-      title: `Mode changed to ${value === 'current' ? 'Current Date' : 'Election SIM Mode'}`,
-      description: "Your form has been updated with the new mode."
+      title: t('voterForm.modeChanged', { mode: t(`voterForm.mode.${value}`) }),
+      description: t('voterForm.modeChangedDescription')
     });
   };
 
@@ -101,6 +115,7 @@ export const VoterFormContainer = ({
       await onSubmit({
         mode: selectedMode,
         zipCode: zipForm.getValues().zipCode,
+        address: zipForm.getValues().address || undefined,
         priorities: updatedPriorities
       });
     } catch (error) {
@@ -110,6 +125,19 @@ export const VoterFormContainer = ({
     }
   };
 
+  // Keep the voter's clarification answers on the priority so recommendations can explain them
+  const handleClarified = (index: number, updated: MappedPriority) => {
+    setMappedPriorities(previous => previous.map((priority, i) => (
+      i === index ? { ...priority, ...updated, original: priority.original } : priority
+    )));
+  };
+
+  const clarifiedRecommendations = useMemo(() => (
+    recommendations && mappedPriorities.length > 0
+      ? { ...recommendations, analysis: { ...recommendations.analysis, mappedPriorities } }
+      : recommendations
+  ), [recommendations, mappedPriorities]);
+
   const handleFormSubmit = async (values: any) => {
     console.log('Form submitted with values:', values);
     try {
@@ -117,7 +145,8 @@ export const VoterFormContainer = ({
       const formValues: VoterFormValues = {
         ...values,
         mode: selectedMode,
-        zipCode: zipForm.getValues().zipCode
+        zipCode: zipForm.getValues().zipCode,
+        address: zipForm.getValues().address || undefined
       };
       setShowMappingOnly(true);
       setShowRecommendations(false);
@@ -136,12 +165,14 @@ export const VoterFormContainer = ({
   };
   
   const handleZipCodeSubmit = async (data: ZipCodeFormValues) => {
+    setZipCode(data.zipCode);
     // If we have priorities already, update them with the new ZIP code
     // but don't reset the priorities mapping table
     if (recommendations?.analysis?.priorities?.length) {
       await onSubmit({
         mode: selectedMode,
         zipCode: data.zipCode,
+        address: data.address || undefined,
         priorities: recommendations.analysis.priorities
       });
     }
@@ -151,8 +182,8 @@ export const VoterFormContainer = ({
     setShowMappingOnly(false);
     setShowRecommendations(true);
     toast({
-      title: "Generating recommendations",
-      description: "Preparing your personalized recommendations based on your priorities."
+      title: t('voterForm.generating'),
+      description: t('voterForm.generatingDescription')
     });
   };
 
@@ -165,7 +196,7 @@ export const VoterFormContainer = ({
     if (typeof setMappedPriorities === 'function') {
       setMappedPriorities(values.priorities);
     }
-    toast({ title: "Auto-filled!", description: "Random ZIP and priorities set." });
+    toast({ title: t('voterForm.autoFilled'), description: t('voterForm.autoFilledDescription') });
   };
 
   return (
@@ -174,7 +205,7 @@ export const VoterFormContainer = ({
         <div className="absolute inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center z-50">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary mb-4"></div>
-            <p className="text-muted-foreground">Analyzing your priorities...</p>
+            <p className="text-muted-foreground">{t('voterForm.analyzingPriorities')}</p>
           </div>
         </div>
       )}
@@ -191,7 +222,14 @@ export const VoterFormContainer = ({
         {!recommendations && (
           <Card className="w-full shadow-sm">
             <CardHeader className="py-3 px-4">
-              <CardTitle className="text-base">Mode Selection</CardTitle>
+              <CardTitle className="text-base">{t('voterForm.mode')}</CardTitle>
+              <CardDescription className="text-xs">
+                {isAutomaticMode ? t('voterForm.mode.automatic') : (
+                  <Button variant="link" className="h-auto p-0 text-xs" onClick={resetMode}>
+                    {t('voterForm.mode.reset')}
+                  </Button>
+                )}
+              </CardDescription>
             </CardHeader>
             <CardContent className="py-2 px-4">
               <RadioGroup
@@ -201,11 +239,11 @@ export const VoterFormContainer = ({
               >
                 <div className="flex items-center space-x-2">
                   <RadioGroupItem value="current" id="current" />
-                  <Label htmlFor="current" className="text-sm">Current Date</Label>
+                  <Label htmlFor="current" className="text-sm">{t('voterForm.mode.current')}</Label>
                 </div>
                 <div className="flex items-center space-x-2">
                   <RadioGroupItem value="demo" id="demo" />
-                  <Label htmlFor="demo" className="text-sm">Election SIM Mode</Label>
+                  <Label htmlFor="demo" className="text-sm">{t('voterForm.mode.demo')}</Label>
                 </div>
               </RadioGroup>
             </CardContent>
@@ -215,7 +253,7 @@ export const VoterFormContainer = ({
         {!recommendations && (
           <Card className="w-full shadow-sm">
             <CardHeader className="py-3 px-4">
-              <CardTitle className="text-base">ZIP Code</CardTitle>
+              <CardTitle className="text-base">{t('voterForm.zipCode')}</CardTitle>
             </CardHeader>
             <CardContent className="py-2 px-4">
               <Form {...zipForm}>
@@ -231,6 +269,21 @@ export const VoterFormContainer = ({
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={zipForm.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem className="space-y-0 mt-2">
+                      <FormControl>
+                        <Input placeholder={t('voterForm.address')} className="h-9" {...field} />
+                      </FormControl>
+                      <FormDescription className="text-xs">
+                        {t('voterForm.addressHelp')}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </Form>
             </CardContent>
           </Card>
@@ -243,9 +296,9 @@ export const VoterFormContainer = ({
         {!recommendations && (
           <Card className="w-full shadow-sm">
             <CardHeader className="py-3 px-4">
-              <CardTitle>Your Voting Priorities</CardTitle>
+              <CardTitle>{t('voterForm.priorities')}</CardTitle>
               <CardDescription className="text-sm">
-                Tell us what matters most to you, and we'll help match you with candidates and measures that align with your values.
+                {t('voterForm.prioritiesDescription')}
               </CardDescription>
             </CardHeader>
             <CardContent className="py-2 px-4">
@@ -262,10 +315,9 @@ export const VoterFormContainer = ({
         {recommendations && mappedPriorities.length > 0 && showMappingOnly && (
           <Card className="w-full shadow-sm">
             <CardHeader className="py-3 px-4">
-              <CardTitle className="text-base">Priorities Mapping</CardTitle>
+              <CardTitle className="text-base">{t('voterForm.mapping')}</CardTitle>
               <CardDescription className="mt-1 text-sm">
-                We have mapped your priorities to policy terms to provide the best recommendations.
-                Please update your priorities below if we didn't get this right!
+                {t('voterForm.mappingDescription')}
               </CardDescription>
             </CardHeader>
             <CardContent className="py-2 px-4">
@@ -273,6 +325,7 @@ export const VoterFormContainer = ({
                 mappedPriorities={mappedPriorities}
                 onUpdatePriorities={handleUpdatePriorities}
                 isUpdating={isUpdating}
+                onClarified={handleClarified}
               />
               
               <div className="mt-4">
@@ -281,7 +334,7 @@ export const VoterFormContainer = ({
                   className="w-full h-9 text-sm"
                   variant="default"
                 >
-                  Get Recommendations
+                  {t('voterForm.getRecommendations')}
                 </Button>
               </div>
             </CardContent>
@@ -300,16 +353,17 @@ export const VoterFormContainer = ({
           >
             <Card className="w-full shadow-sm">
               <CardHeader className="py-3 px-4">
-                <CardTitle className="text-base">Your Recommendations</CardTitle>
+                <CardTitle className="text-base">{t('recommendations.title')}</CardTitle>
                 <CardDescription className="text-sm">
-                  Based on your priorities, here are your personalized recommendations.
+                  {t('voterForm.recommendationsDescription')}
                 </CardDescription>
               </CardHeader>
               <CardContent className="p-0">
                 <RecommendationsViewer 
-                  recommendations={recommendations}
+                  recommendations={clarifiedRecommendations}
                   mode={selectedMode}
                   onUpdatePriorities={handleUpdatePriorities}
+                  onClarified={handleClarified}
                   isUpdating={isUpdating}
                 />
               </CardContent>
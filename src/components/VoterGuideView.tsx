@@ -0,0 +1,89 @@
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { GuideBlock, VoterGuide } from '@/types/voter-guide';
+
+const GuideBlockView = ({ block }: { block: GuideBlock }) => {
+  switch (block.kind) {
+    case 'heading':
+      return <h3 className="text-lg font-semibold mt-4">{block.text}</h3>;
+    case 'paragraph':
+      return <p className={block.muted ? 'text-sm text-gray-500' : ''}>{block.text}</p>;
+    case 'list':
+      return (
+        <ul className="list-disc pl-5 space-y-1">
+          {block.items.map(item => <li key={item}>{item}</li>)}
+        </ul>
+      );
+    case 'entry':
+      return (
+        <div className="border-l-2 pl-3 space-y-1">
+          <div className="flex items-start justify-between gap-2">
+            <span className="font-medium">{block.title}</span>
+            {block.badge && <Badge variant="outline" className="whitespace-nowrap">{block.badge}</Badge>}
+          </div>
+          {block.subtitle && <p className="text-sm text-gray-500">{block.subtitle}</p>}
+          {block.lines.map((line, index) => <p key={index} className="text-sm">{line}</p>)}
+          {block.link && (
+            <a href={block.link} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:underline break-all">
+              {block.link}
+            </a>
+          )}
+        </div>
+      );
+    case 'table':
+      return (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {block.columns.map(column => <TableHead key={column}>{column}</TableHead>)}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {block.rows.map((row, index) => (
+              <TableRow key={index}>
+                {row.map((cell, cellIndex) => <TableCell key={cellIndex}>{cell}</TableCell>)}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      );
+  }
+};
+
+/**
+ * Read-only voter guide on screen, the same sections the PDF and print view use
+ */
+export function VoterGuideView({ guide }: { guide: VoterGuide }) {
+  return (
+    <div className="space-y-6">
+      {guide.sections.map(section => (
+        <Card key={section.id}>
+          <CardHeader>
+            <CardTitle>{section.title}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {section.blocks.map((block, index) => <GuideBlockView key={index} block={block} />)}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card className="border-2 border-dashed">
+        <CardHeader>
+          <CardTitle>{guide.pollSheet.title}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {guide.pollSheet.items.map(item => (
+            <div key={item.contest}>
+              <span className="font-medium">{item.contest}</span>: {item.choice}
+              {item.note && <p className="text-sm text-gray-500">{item.note}</p>}
+            </div>
+          ))}
+          {guide.pollSheet.reminders.map(reminder => (
+            <p key={reminder} className="text-sm text-gray-500">{reminder}</p>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
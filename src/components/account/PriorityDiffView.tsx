@@ -0,0 +1,31 @@
+import { Badge } from '@/components/ui/badge';
+import { PriorityDiff } from '@/types/account';
+
+const DiffList = ({ label, items, variant }: { label: string; items: string[]; variant: 'default' | 'secondary' | 'outline' }) => (
+  items.length > 0 ? (
+    <div className="space-y-1">
+      <p className="text-sm font-medium">{label}</p>
+      <div className="flex flex-wrap gap-1">
+        {items.map(item => <Badge key={item} variant={variant}>{item}</Badge>)}
+      </div>
+    </div>
+  ) : null
+);
+
+/**
+ * Priorities and policy areas gained, dropped and kept between two saves
+ */
+export function PriorityDiffView({ diff }: { diff: PriorityDiff }) {
+  const unchanged = [diff.added, diff.removed, diff.termsAdded, diff.termsRemoved].every(list => list.length === 0);
+  if (unchanged) return <p className="text-sm text-gray-500">Your priorities haven't changed.</p>;
+
+  return (
+    <div className="space-y-3">
+      <DiffList label="New priorities" items={diff.added} variant="default" />
+      <DiffList label="Dropped priorities" items={diff.removed} variant="secondary" />
+      <DiffList label="Still a priority" items={diff.kept} variant="outline" />
+      <DiffList label="New policy areas" items={diff.termsAdded} variant="default" />
+      <DiffList label="Policy areas you no longer mention" items={diff.termsRemoved} variant="secondary" />
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { accountService, diffPriorities } from '@/services/account';
+import { SavedPriorities } from '@/types/account';
+import { PriorityDiffView } from './PriorityDiffView';
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+interface PrioritySetCardProps {
+  latest: SavedPriorities;
+  onDelete: (setId: string) => void;
+}
+
+/**
+ * A saved set at its latest version, expanding to every version and what
+ * changed from the one before
+ */
+export function PrioritySetCard({ latest, onDelete }: PrioritySetCardProps) {
+  const [versions, setVersions] = useState<SavedPriorities[] | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = () => {
+    setIsOpen(!isOpen);
+    if (!versions) {
+      accountService.priorityVersions(latest.setId)
+        .then(setVersions)
+        .catch(err => setError(err.message || 'Could not load versions'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="py-3 px-4">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">{latest.name}</CardTitle>
+            <CardDescription>
+              Version {latest.version} · saved {formatDate(latest.createdAt)}
+              {latest.zipCode ? ` · ZIP ${latest.zipCode}` : ''}
+            </CardDescription>
+          </div>
+          <div className="flex gap-1">
+            <Button variant="ghost" size="sm" onClick={handleToggle}>
+              {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />} Versions
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onDelete(latest.setId)}>
+              Delete
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="py-2 px-4 space-y-3">
+        <ul className="list-disc pl-5 text-sm">
+          {latest.priorities.map(priority => <li key={priority}>{priority}</li>)}
+        </ul>
+
+        {isOpen && error && <p className="text-sm text-red-600">{error}</p>}
+        {isOpen && !error && !versions && <Loader2 className="h-4 w-4 animate-spin" />}
+        {isOpen && versions && versions.slice(0, -1).map((version, index) => (
+          <div key={version.id} className="border-l-2 pl-3 space-y-2">
+            <p className="text-sm font-medium">
+              Version {version.version} ({formatDate(version.createdAt)}) compared with version {versions[index + 1].version}
+            </p>
+            <PriorityDiffView diff={diffPriorities(versions[index + 1], version)} />
+          </div>
+        ))}
+        {isOpen && versions?.length === 1 && <p className="text-sm text-gray-500">This is the only version.</p>}
+      </CardContent>
+    </Card>
+  );
+}
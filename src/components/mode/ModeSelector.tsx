@@ -1,18 +1,33 @@
 import { useMode } from '@/contexts/ModeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { LOCALE_TAGS } from '@/services/i18n';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 
 export function ModeSelector() {
-  const { mode, setMode } = useMode();
+  const { mode, setMode, resetMode, isAutomaticMode, election } = useMode();
+  const { language, t } = useLanguage();
+  const demoLabel = election.lastGeneralElection
+    ? new Date(`${election.lastGeneralElection.date}T00:00:00`).toLocaleDateString(LOCALE_TAGS[language], { month: 'long', year: 'numeric' })
+    : t('modeSelector.lastGeneral');
 
   return (
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader>
-        <CardTitle>Select Mode</CardTitle>
+        <CardTitle>{t('modeSelector.title')}</CardTitle>
         <CardDescription>
-          Choose between current election data or demo mode for November 2024
+          {t('modeSelector.description', { election: demoLabel })}{' '}
+          {isAutomaticMode ? (
+            election.hasUpcomingBallots && election.nextElection
+              ? t('modeSelector.upcoming', { election: election.nextElection.name })
+              : t('modeSelector.nothingUpcoming')
+          ) : (
+            <Button variant="link" className="h-auto p-0" onClick={resetMode}>
+              {t('voterForm.mode.reset')}
+            </Button>
+          )}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -31,9 +46,9 @@ export function ModeSelector() {
               htmlFor="current"
               className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-popover p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary cursor-pointer"
             >
-              <span className="text-lg font-semibold">Current Date</span>
+              <span className="text-lg font-semibold">{t('voterForm.mode.current')}</span>
               <span className="text-sm text-muted-foreground">
-                Uses live election data from official sources
+                {t('modeSelector.currentDescription')}
               </span>
             </Label>
           </div>
@@ -48,9 +63,9 @@ export function ModeSelector() {
               htmlFor="demo"
               className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-popover p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary cursor-pointer"
             >
-              <span className="text-lg font-semibold">DEMO: November 2024</span>
+              <span className="text-lg font-semibold">{t('modeSelector.demo', { election: demoLabel })}</span>
               <span className="text-sm text-muted-foreground">
-                Simulates the November 2024 election with fixed data
+                {t('modeSelector.demoDescription', { election: demoLabel })}
               </span>
             </Label>
           </div>
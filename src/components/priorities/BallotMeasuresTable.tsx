@@ -1,5 +1,6 @@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { BallotMeasure } from "@/types/recommendations";
+import { Badge } from "@/components/ui/badge";
 import { ExternalLink } from "lucide-react";
 
 interface BallotMeasuresTableProps {
@@ -16,6 +17,7 @@ export function BallotMeasuresTable({ measures }: BallotMeasuresTableProps) {
             <TableHead className="w-[100px]">ID</TableHead>
             <TableHead className="w-[250px]">Title</TableHead>
             <TableHead>Summary</TableHead>
+            <TableHead className="w-[220px]">Your Priorities</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -43,6 +45,30 @@ export function BallotMeasuresTable({ measures }: BallotMeasuresTableProps) {
                 <p className="text-muted-foreground">
                   {measure.summary}
                 </p>
+                {(measure.yesMeans || measure.noMeans) && (
+                  <div className="mt-2 space-y-1 text-xs">
+                    {measure.yesMeans && <p>{measure.yesMeans}</p>}
+                    {measure.noMeans && <p>{measure.noMeans}</p>}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell>
+                {measure.concerns && measure.concerns.length > 0 ? (
+                  <div className="space-y-1">
+                    <Badge variant={(measure.relevance ?? 0) >= 0.5 ? "default" : "secondary"}>
+                      {Math.round((measure.relevance ?? 0) * 100)}% relevant
+                    </Badge>
+                    {measure.concerns.map((concern) => (
+                      <p key={concern.standardTerm} className="text-xs text-muted-foreground">
+                        {concern.priority}: {concern.standardTerm}
+                      </p>
+                    ))}
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground">
+                    {measure.concerns ? "Not related to your priorities" : measure.userConcernMapping}
+                  </span>
+                )}
               </TableCell>
             </TableRow>
           ))}
@@ -0,0 +1,181 @@
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Badge } from '@/components/ui/badge';
+import { useMemo } from 'react';
+import { useMode } from '@/contexts/ModeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useCandidateFinances } from '@/hooks/use-candidate-finances';
+import { Translator } from '@/services/i18n';
+import { ContributorGroup } from '@/types/finance';
+
+const trendConfig = (t: Translator) => ({
+  receipts: { label: t('finance.raised'), color: 'hsl(var(--primary))' },
+  disbursements: { label: t('finance.spent'), color: 'hsl(24 94% 50%)' },
+  cashOnHand: { label: t('finance.cashOnHand'), color: 'hsl(142 71% 45%)' }
+}) satisfies ChartConfig;
+
+const donorConfig = (t: Translator) => ({
+  total: { label: t('finance.raised'), color: 'hsl(var(--primary))' }
+}) satisfies ChartConfig;
+
+const formatDollars = (value: number) =>
+  value >= 1_000_000
+    ? `$${(value / 1_000_000).toFixed(1)}M`
+    : value >= 1_000
+      ? `$${Math.round(value / 1_000)}K`
+      : `$${Math.round(value)}`;
+
+const formatShare = (value: number) => `${Math.round(value * 100)}%`;
+
+const Metric = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+  <div className="rounded-md border p-2">
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="text-base font-semibold">{value}</p>
+    {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+  </div>
+);
+
+const GroupList = ({ title, groups, empty }: { title: string; groups: ContributorGroup[]; empty: string }) => (
+  <div className="space-y-1">
+    <p className="text-xs font-medium">{title}</p>
+    {groups.length === 0 ? (
+      <p className="text-xs text-muted-foreground">{empty}</p>
+    ) : (
+      <ul className="space-y-0.5 text-xs">
+        {groups.map(group => (
+          <li key={group.name} className="flex justify-between gap-2">
+            <span>{group.name}</span>
+            <span className="text-muted-foreground">{formatDollars(group.total)} ({formatShare(group.share)})</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+interface CampaignFinancePanelProps {
+  personId?: string;
+}
+
+/**
+ * Fundraising, donor mix and outside spending for one candidate, from FEC filings
+ */
+export function CampaignFinancePanel({ personId }: CampaignFinancePanelProps) {
+  const { election } = useMode();
+  const { finances, isLoading, hasFinances } = useCandidateFinances(personId, election.cycle);
+  const { t } = useLanguage();
+  const trendLabels = useMemo(() => trendConfig(t), [t]);
+  const donorLabels = useMemo(() => donorConfig(t), [t]);
+
+  if (!hasFinances) {
+    return <p className="text-sm text-muted-foreground">{t('finance.noFilings')}</p>;
+  }
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">{t('finance.loading')}</p>;
+  }
+  if (!finances) {
+    return <p className="text-sm text-muted-foreground">{t('finance.noData')}</p>;
+  }
+
+  const { outsideSpending, selfFunding } = finances;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">{t('finance.title', { cycle: finances.cycle })}</p>
+        {finances.coverageEndDate && (
+          <Badge variant="outline" className="text-xs">{t('finance.filingsThrough', { date: finances.coverageEndDate })}</Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+        <Metric
+          label={t('finance.raised')}
+          value={formatDollars(finances.receipts)}
+          detail={t('finance.spentAmount', { amount: formatDollars(finances.disbursements) })}
+        />
+        <Metric
+          label={t('finance.cashOnHand')}
+          value={formatDollars(finances.cashOnHand)}
+          detail={finances.debts > 0 ? t('finance.debts', { amount: formatDollars(finances.debts) }) : undefined}
+        />
+        <Metric
+          label={t('finance.smallDonors')}
+          value={formatShare(finances.smallDollar.share)}
+          detail={t('finance.largeDonors', { share: formatShare(finances.largeDonor.share) })}
+        />
+        <Metric
+          label={t('finance.selfFunding')}
+          value={formatDollars(selfFunding.total)}
+          detail={selfFunding.total > 0 ? t('finance.selfFundingShare', { share: formatShare(selfFunding.share) }) : undefined}
+        />
+      </div>
+
+      {finances.trend.length > 1 && (
+        <div>
+          <p className="text-xs font-medium mb-1">{t('finance.trend')}</p>
+          <ChartContainer config={trendLabels} className="h-[200px] w-full aspect-auto">
+            <LineChart data={finances.trend} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="endDate" tickLine={false} axisLine={false} />
+              <YAxis tickFormatter={formatDollars} tickLine={false} axisLine={false} width={56} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="receipts" type="monotone" stroke="var(--color-receipts)" strokeWidth={2} />
+              <Line dataKey="disbursements" type="monotone" stroke="var(--color-disbursements)" strokeWidth={2} />
+              <Line dataKey="cashOnHand" type="monotone" stroke="var(--color-cashOnHand)" strokeWidth={2} />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      )}
+
+      {finances.donorSizes.length > 0 && (
+        <div>
+          <p className="text-xs font-medium mb-1">{t('finance.donorSizes')}</p>
+          <ChartContainer config={donorLabels} className="h-[160px] w-full aspect-auto">
+            <BarChart data={finances.donorSizes} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis tickFormatter={formatDollars} tickLine={false} axisLine={false} width={56} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <GroupList title={t('finance.topIndustries')} groups={finances.topIndustries} empty={t('finance.noItemized')} />
+        <GroupList title={t('finance.topEmployers')} groups={finances.topEmployers} empty={t('finance.noItemized')} />
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs font-medium">{t('finance.outsideSpending')}</p>
+        {outsideSpending.total === 0 ? (
+          <p className="text-xs text-muted-foreground">{t('finance.noOutsideSpending')}</p>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground">
+              {t('finance.outsideSummary', {
+                support: formatDollars(outsideSpending.support),
+                oppose: formatDollars(outsideSpending.oppose)
+              })}
+            </p>
+            <ul className="space-y-0.5 text-xs">
+              {outsideSpending.topSpenders.map(spender => (
+                <li key={spender.committeeId} className="flex justify-between gap-2">
+                  <span>{spender.committeeName}</span>
+                  <span className="text-muted-foreground">
+                    {spender.support > 0 && t('finance.for', { amount: formatDollars(spender.support) })}
+                    {spender.support > 0 && spender.oppose > 0 && ', '}
+                    {spender.oppose > 0 && t('finance.against', { amount: formatDollars(spender.oppose) })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
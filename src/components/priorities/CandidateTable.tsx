@@ -1,13 +1,18 @@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { CandidateRecommendation } from "@/types/recommendations";
 import { Badge } from "@/components/ui/badge";
-import { ExternalLink, ChevronDown, ChevronUp } from "lucide-react";
+import { ExternalLink, ChevronDown, ChevronUp, Bookmark } from "lucide-react";
 import { useState, useMemo, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ErrorBoundary } from 'react-error-boundary';
 import { ErrorFallback } from '@/components/ErrorFallback';
+import { CampaignFinancePanel } from './CampaignFinancePanel';
+import { useMode } from '@/contexts/ModeContext';
+import { useSavedCandidates } from '@/hooks/use-account';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 interface CandidateTableProps {
   candidates: CandidateRecommendation[];
@@ -16,6 +21,25 @@ interface CandidateTableProps {
 export function CandidateTable({ candidates }: CandidateTableProps) {
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [expandedOffice, setExpandedOffice] = useState<string | null>(null);
+  // Candidate whose campaign finances are open, as office and row index
+  const [financesOpen, setFinancesOpen] = useState<string | null>(null);
+  const { election } = useMode();
+  const savedCandidates = useSavedCandidates(election.cycle);
+  const { toast } = useToast();
+  const { t } = useLanguage();
+
+  const handleToggleSaved = async (candidate: CandidateRecommendation) => {
+    try {
+      await savedCandidates.toggle?.(candidate);
+    } catch (error) {
+      console.error('Error saving candidate:', error);
+      toast({
+        title: t('common.error'),
+        description: t('candidates.saveFailed'),
+        variant: "destructive",
+      });
+    }
+  };
 
   // Automatically expand the first office (presidential) when candidates load
   useEffect(() => {
@@ -62,7 +86,7 @@ export function CandidateTable({ candidates }: CandidateTableProps) {
     console.log("Grouping candidates:", candidates);
     
     const grouped = candidates.reduce((acc, candidate) => {
-      const office = candidate.office || 'Unknown Office';
+      const office = candidate.office || t('candidates.unknownOffice');
       if (!acc[office]) {
         acc[office] = [];
       }
@@ -80,7 +104,7 @@ export function CandidateTable({ candidates }: CandidateTableProps) {
     });
 
     return grouped;
-  }, [candidates, sortOrder]);
+  }, [candidates, sortOrder, t]);
 
   // Order offices with presidential candidates first
   const orderedOffices = useMemo(() => {
@@ -132,7 +156,7 @@ export function CandidateTable({ candidates }: CandidateTableProps) {
   if (!candidates || !Array.isArray(candidates)) {
     return (
       <div className="p-4 border rounded-md bg-destructive/10 text-destructive">
-        Invalid candidate data format. Please try submitting the form again.
+        {t('candidates.invalid')}
       </div>
     );
   }
@@ -140,7 +164,7 @@ export function CandidateTable({ candidates }: CandidateTableProps) {
   if (candidates.length === 0) {
     return (
       <div className="p-4 border rounded-md">
-        No candidate recommendations available.
+        {t('candidates.empty')}
       </div>
     );
   }
@@ -153,14 +177,14 @@ export function CandidateTable({ candidates }: CandidateTableProps) {
     >
       <div className="space-y-6">
         <div className="flex justify-between items-center mb-4">
-          <h3 className="text-xl font-semibold">Candidate Recommendations</h3>
+          <h3 className="text-xl font-semibold">{t('candidates.title')}</h3>
           <Button 
             variant="outline" 
             size="sm" 
             onClick={toggleSortOrder}
             className="flex items-center gap-1"
           >
-            Sort by Alignment {sortOrder === 'desc' ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+            {t('candidates.sort')} {sortOrder === 'desc' ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
           </Button>
         </div>
 
@@ -191,9 +215,9 @@ export function CandidateTable({ candidates }: CandidateTableProps) {
                     <Table>
                       <TableHeader>
                         <TableRow>
-                          <TableHead className="w-[150px] lg:w-[200px]">Name</TableHead>
-                          <TableHead>Summary</TableHead>
-                          <TableHead className="w-[60px] text-center">Match</TableHead>
+                          <TableHead className="w-[150px] lg:w-[200px]">{t('candidates.column.name')}</TableHead>
+                          <TableHead>{t('candidates.column.summary')}</TableHead>
+                          <TableHead className="w-[60px] text-center">{t('candidates.column.match')}</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -221,6 +245,27 @@ export function CandidateTable({ candidates }: CandidateTableProps) {
                                       {candidate.party}
                                     </Badge>
                                   )}
+                                  {savedCandidates.toggle && (
+                                    <Button
+                                      variant="link"
+                                      size="sm"
+                                      className="h-auto p-0 text-xs flex items-center gap-1"
+                                      onClick={() => handleToggleSaved(candidate)}
+                                    >
+                                      <Bookmark className={`h-3 w-3 ${savedCandidates.isSaved(candidate) ? 'fill-current' : ''}`} />
+                                      {savedCandidates.isSaved(candidate) ? t('candidates.saved') : t('candidates.save')}
+                                    </Button>
+                                  )}
+                                  {candidate.personId?.startsWith('fec:') && (
+                                    <Button
+                                      variant="link"
+                                      size="sm"
+                                      className="h-auto p-0 text-xs"
+                                      onClick={() => setFinancesOpen(financesOpen === `${office}-${index}` ? null : `${office}-${index}`)}
+                                    >
+                                      {financesOpen === `${office}-${index}` ? t('candidates.hideFinances') : t('candidates.finances')}
+                                    </Button>
+                                  )}
                                 </div>
                               </TableCell>
                               <TableCell>
@@ -233,7 +278,7 @@ export function CandidateTable({ candidates }: CandidateTableProps) {
                                           <li key={i}>{highlight}</li>
                                         ))}
                                         {candidate.platformHighlights.length > 2 && (
-                                          <li className="italic">+ {candidate.platformHighlights.length - 2} more</li>
+                                          <li className="italic">{t('candidates.moreHighlights', { count: candidate.platformHighlights.length - 2 })}</li>
                                         )}
                                       </ul>
                                     </div>
@@ -246,6 +291,13 @@ export function CandidateTable({ candidates }: CandidateTableProps) {
                                 </span>
                               </TableCell>
                             </TableRow>
+                            {financesOpen === `${office}-${index}` && (
+                              <TableRow>
+                                <TableCell colSpan={3} className="bg-muted/30">
+                                  <CampaignFinancePanel personId={candidate.personId} />
+                                </TableCell>
+                              </TableRow>
+                            )}
                           </ErrorBoundary>
                         ))}
                       </TableBody>
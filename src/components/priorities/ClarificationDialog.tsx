@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import { ClarificationReply, ClarificationTurn } from '@/types/clarification';
+import { MappedPriority } from '@/types/policy-mappings';
+import { ClarificationDialogue, clarificationDialogue } from '@/services/clarification';
+import { localizeTerm } from '@/services/terminology';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+// Radio value for "none of these"
+const OTHER = '__other';
+
+interface ClarificationDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  mappedPriority: MappedPriority;
+  // Called after every answer with the re-mapped priority
+  onClarified: (updated: MappedPriority) => void;
+  dialogue?: ClarificationDialogue;
+}
+
+export function ClarificationDialog({
+  isOpen,
+  onClose,
+  mappedPriority,
+  onClarified,
+  dialogue = clarificationDialogue
+}: ClarificationDialogProps) {
+  const [current, setCurrent] = useState(mappedPriority);
+  const [turn, setTurn] = useState<ClarificationTurn | null>(null);
+  const [selection, setSelection] = useState('');
+  const [freeText, setFreeText] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  // Whether the exchange for this opening has started; answers update
+  // mappedPriority through onClarified and must not restart it
+  const [started, setStarted] = useState(false);
+  const { toast } = useToast();
+  const { language, t } = useLanguage();
+
+  const askNext = useCallback(async (mapped: MappedPriority) => {
+    setIsWorking(true);
+    setSelection('');
+    setFreeText('');
+    try {
+      setTurn(await dialogue.ask(mapped));
+    } catch (error) {
+      console.error('Error building clarification question:', error);
+      setTurn(null);
+    } finally {
+      setIsWorking(false);
+    }
+  }, [dialogue]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setStarted(false);
+    } else if (!started) {
+      setStarted(true);
+      setCurrent(mappedPriority);
+      askNext(mappedPriority);
+    }
+  }, [isOpen, started, mappedPriority, askNext]);
+
+  const handleSubmit = async () => {
+    if (!turn) return;
+    const reply: ClarificationReply = selection === OTHER
+      ? { kind: 'free-text', text: freeText.trim() }
+      : { kind: 'interpretation', standardTerm: selection };
+
+    setIsWorking(true);
+    try {
+      const updated = await dialogue.answer(current, turn, reply);
+      setCurrent(updated);
+      onClarified(updated);
+
+      if (dialogue.canAsk(updated)) {
+        await askNext(updated);
+        return;
+      }
+
+      toast({
+        title: updated.needsClarification ? t('clarification.thanks') : t('clarification.resolved'),
+        description: updated.policyTerms.length > 0
+          ? t('clarification.nowMapped', { terms: updated.policyTerms.slice(0, 3).map(term => localizeTerm(term, language)).join(', ') })
+          : t('clarification.unmatched')
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error applying clarification:', error);
+      toast({
+        title: t('common.error'),
+        description: t('clarification.failed'),
+        variant: "destructive"
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const canSubmit = !isWorking && !!turn && (selection === OTHER ? freeText.trim().length > 0 : selection.length > 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{t('clarification.title')}</DialogTitle>
+          <DialogDescription>
+            {turn?.question || t('clarification.looking', { priority: current.original || current.priority })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {turn && (
+          <RadioGroup value={selection} onValueChange={setSelection} className="space-y-2 py-2">
+            {turn.interpretations.map((interpretation, index) => (
+              <div key={interpretation.standardTerm} className="flex items-start space-x-2">
+                <RadioGroupItem value={interpretation.standardTerm} id={`interpretation-${index}`} className="mt-1" />
+                <Label htmlFor={`interpretation-${index}`} className="text-sm font-normal">
+                  <span className="font-medium">{localizeTerm(interpretation.standardTerm, language)}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {t('clarification.likely', { percent: Math.round(interpretation.confidence * 100) })}
+                  </span>
+                  {interpretation.description && (
+                    <span className="block text-xs text-muted-foreground">{interpretation.description}</span>
+                  )}
+                </Label>
+              </div>
+            ))}
+            <div className="flex items-start space-x-2">
+              <RadioGroupItem value={OTHER} id="interpretation-other" className="mt-1" />
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="interpretation-other" className="text-sm font-normal">
+                  {turn.interpretations.length > 0 ? t('clarification.somethingElse') : t('clarification.ownWords')}
+                </Label>
+                <Input
+                  value={freeText}
+                  onChange={(e) => {
+                    setFreeText(e.target.value);
+                    setSelection(OTHER);
+                  }}
+                  placeholder={t('clarification.placeholder')}
+                  className="h-8 text-sm"
+                />
+              </div>
+            </div>
+          </RadioGroup>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {isWorking ? t('clarification.working') : t('clarification.answer')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
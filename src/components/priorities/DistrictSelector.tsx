@@ -0,0 +1,53 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { DistrictResolution } from '@/types/districts';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface DistrictSelectorProps {
+  resolution: DistrictResolution;
+  onChoose: (districtId: string) => void;
+}
+
+/**
+ * Asks "which of these districts are you in?" for each district type the
+ * voter's ZIP code straddles
+ */
+export function DistrictSelector({ resolution, onChoose }: DistrictSelectorProps) {
+  const { t } = useLanguage();
+
+  if (resolution.ambiguous.length === 0) return null;
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="py-3 px-4">
+        <CardTitle className="text-base">{t('districts.title')}</CardTitle>
+        <CardDescription className="text-sm">
+          {t('districts.description', { zipCode: resolution.zipCode })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 py-2 px-4">
+        {resolution.ambiguous.map(group => (
+          <div key={group.type} className="space-y-1">
+            <p className="text-sm font-medium">{t(`districts.type.${group.type}`)}</p>
+            <div className="flex flex-wrap gap-2">
+              {group.candidates.map(candidate => (
+                <Button
+                  key={candidate.id}
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={() => onChoose(candidate.id)}
+                >
+                  {candidate.name}
+                  <span className="ml-1 text-muted-foreground">
+                    {t('districts.share', { percent: Math.round(candidate.share * 100) })}
+                  </span>
+                </Button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
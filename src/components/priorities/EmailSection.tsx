@@ -1,69 +1,221 @@
-import { EmailDraft } from "@/types/recommendations";
+import { useEffect, useState } from "react";
+import { RecommendationsData } from "@/types/api";
+import { EmailDraft, EmailLength, EmailTone } from "@/types/email";
+import { exportFileName, recomposeEmail, toEml, toMailto, toPlainText } from "@/services/email";
+import { offlineOutbox } from "@/services/offline";
+import { useToast } from "@/hooks/use-toast";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Mail } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, FileDown, Mail } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+const download = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 interface EmailSectionProps {
-  drafts: EmailDraft[];
+  recommendations: RecommendationsData;
 }
 
-export function EmailSection({ drafts }: EmailSectionProps) {
-  const openInEmailClient = (draft: EmailDraft) => {
-    const mailtoLink = `mailto:${draft.recipient.email}?subject=${encodeURIComponent(draft.subject)}&body=${encodeURIComponent(draft.content)}`;
-    window.open(mailtoLink, '_blank');
+/**
+ * Drafts to the voter's representatives, with a live editor: tone and length
+ * controls re-render the draft from its template, and the subject and body can
+ * be edited by hand before sending or exporting
+ */
+export function EmailSection({ recommendations }: EmailSectionProps) {
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const [drafts, setDrafts] = useState<EmailDraft[]>(recommendations.recommendations.emailDrafts || []);
+  const [selected, setSelected] = useState(0);
+
+  useEffect(() => {
+    setDrafts(recommendations.recommendations.emailDrafts || []);
+    setSelected(0);
+  }, [recommendations]);
+
+  if (drafts.length === 0) {
+    return (
+      <p className="text-muted-foreground">
+        {t('email.empty')}
+      </p>
+    );
+  }
+
+  const draft = drafts[Math.min(selected, drafts.length - 1)];
+  const composition = draft.composition;
+
+  const queuedId = recommendations.freshness?.queuedId;
+
+  const updateDraft = (next: EmailDraft) => {
+    const updated = drafts.map((item, index) => (index === selected ? next : item));
+    setDrafts(updated);
+    // Keep offline edits with the queued analysis so they survive its replay
+    if (queuedId) {
+      offlineOutbox.updateAnalysis(queuedId, payload => ({ ...payload, editedDrafts: updated }))
+        .catch(error => console.error('Error saving offline email edits:', error));
+    }
+  };
+
+  const copyToClipboard = async () => {
+    try {
+      await navigator.clipboard.writeText(toPlainText(draft));
+      toast({ title: t('email.copied'), description: t('email.copiedDescription', { name: draft.recipient.name }) });
+    } catch (error) {
+      console.error('Error copying email draft:', error);
+      toast({ title: t('email.copyFailed'), description: t('email.copyFailedDescription'), variant: "destructive" });
+    }
   };
 
   return (
     <div className="space-y-4">
       <div className="flex items-center gap-2">
         <Mail className="h-5 w-5 text-primary" />
-        <h3 className="text-xl font-semibold">Draft Emails</h3>
+        <h3 className="text-xl font-semibold">{t('email.title')}</h3>
       </div>
-      
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {drafts.map((draft, index) => (
-          <Card key={index} className="p-4 space-y-4">
-            <div>
-              <div className="flex items-center justify-between mb-2">
-                <h4 className="font-semibold">{draft.recipient.name}</h4>
-                <span className="text-xs text-muted-foreground">
-                  {draft.category === 'aligned' ? '✓ Aligned'
-                    : draft.category === 'opposing' ? '❌ Opposing'
-                    : '⚡ Key Decision Maker'}
-                </span>
+
+      {queuedId && (
+        <p className="text-sm text-muted-foreground">
+          {t('email.offline')}
+        </p>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-[16rem_1fr]">
+        <div className="space-y-2">
+          {drafts.map((item, index) => (
+            <button
+              key={item.recipient.personId || item.recipient.name}
+              type="button"
+              onClick={() => setSelected(index)}
+              className={`w-full rounded-md border p-3 text-left transition-colors ${
+                index === selected ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold text-sm">{item.recipient.name}</span>
+                <span className="text-xs text-muted-foreground">{t(`email.category.${item.category}`)}</span>
               </div>
-              <p className="text-sm text-muted-foreground mb-1">
-                {draft.recipient.title}
-              </p>
-              <p className="text-sm text-muted-foreground">
-                {draft.recipient.email}
-              </p>
-            </div>
+              <p className="text-xs text-muted-foreground">{item.recipient.title}</p>
+            </button>
+          ))}
+        </div>
 
-            <div>
-              <h5 className="font-medium mb-1">Subject</h5>
-              <p className="text-sm text-muted-foreground">
-                {draft.subject}
-              </p>
-            </div>
+        <Card className="p-4 space-y-4">
+          <div>
+            <h4 className="font-semibold">{draft.recipient.name}</h4>
+            <p className="text-sm text-muted-foreground">
+              {draft.recipient.title}
+              {draft.recipient.email ? ` • ${draft.recipient.email}` : ` • ${t('email.noAddress')}`}
+            </p>
+          </div>
 
-            <div>
-              <h5 className="font-medium mb-1">Preview</h5>
-              <p className="text-sm text-muted-foreground line-clamp-3">
-                {draft.content}
+          {composition && (
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="email-tone">{t('email.tone')}</Label>
+                <Select value={draft.tone} onValueChange={value => updateDraft(recomposeEmail(draft, { tone: value as EmailTone }))}>
+                  <SelectTrigger id="email-tone"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="formal">{t('email.tone.formal')}</SelectItem>
+                    <SelectItem value="friendly">{t('email.tone.friendly')}</SelectItem>
+                    <SelectItem value="urgent">{t('email.tone.urgent')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="email-length">{t('email.length')}</Label>
+                <Select value={draft.length} onValueChange={value => updateDraft(recomposeEmail(draft, { length: value as EmailLength }))}>
+                  <SelectTrigger id="email-length"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="short">{t('email.length.short')}</SelectItem>
+                    <SelectItem value="standard">{t('email.length.standard')}</SelectItem>
+                    <SelectItem value="detailed">{t('email.length.detailed')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="email-sender">{t('email.senderName')}</Label>
+                <Input
+                  id="email-sender"
+                  value={composition.sender.name || ''}
+                  placeholder={t('email.senderPlaceholder')}
+                  onChange={event => updateDraft(recomposeEmail(draft, { sender: { ...composition.sender, name: event.target.value } }))}
+                />
+              </div>
+              <div className="flex flex-col justify-end gap-2">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="email-voter-words"
+                    checked={composition.includeVoterWords}
+                    onCheckedChange={checked => updateDraft(recomposeEmail(draft, { includeVoterWords: checked }))}
+                  />
+                  <Label htmlFor="email-voter-words">{t('email.quoteVoterWords')}</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="email-local-facts"
+                    checked={composition.includeLocalFacts}
+                    disabled={composition.localFacts.length === 0}
+                    onCheckedChange={checked => updateDraft(recomposeEmail(draft, { includeLocalFacts: checked }))}
+                  />
+                  <Label htmlFor="email-local-facts">{t('email.mentionLocalFacts')}</Label>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground md:col-span-2">
+                {t('email.rewriteWarning')}
               </p>
             </div>
+          )}
 
-            <Button 
-              variant="outline" 
-              className="w-full"
-              onClick={() => openInEmailClient(draft)}
-            >
-              <Mail className="mr-2 h-4 w-4" />
-              Open in Email Client
+          <div className="space-y-1">
+            <Label htmlFor="email-subject">{t('email.subject')}</Label>
+            <Input
+              id="email-subject"
+              value={draft.subject}
+              onChange={event => updateDraft({ ...draft, subject: event.target.value })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="email-body">{t('email.message')}</Label>
+            <Textarea
+              id="email-body"
+              value={draft.body}
+              rows={14}
+              onChange={event => updateDraft({ ...draft, body: event.target.value })}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button asChild>
+              <a href={toMailto(draft)} target="_blank" rel="noopener noreferrer">
+                <Mail className="mr-2 h-4 w-4" />
+                {t('email.open')}
+              </a>
+            </Button>
+            <Button variant="outline" onClick={copyToClipboard}>
+              <Copy className="mr-2 h-4 w-4" />
+              {t('email.copy')}
+            </Button>
+            <Button variant="outline" onClick={() => download(toEml(draft), exportFileName(draft, 'eml'), 'message/rfc822')}>
+              <FileDown className="mr-2 h-4 w-4" />
+              {t('email.downloadEml')}
+            </Button>
+            <Button variant="outline" onClick={() => download(toPlainText(draft), exportFileName(draft, 'txt'), 'text/plain;charset=utf-8')}>
+              <FileDown className="mr-2 h-4 w-4" />
+              {t('email.downloadTxt')}
             </Button>
-          </Card>
-        ))}
+          </div>
+        </Card>
       </div>
     </div>
   );
@@ -3,29 +3,43 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd';
-import { GripVertical } from "lucide-react";
+import { AlertTriangle, GripVertical, HelpCircle } from "lucide-react";
+import { MappedPriority as CanonicalMappedPriority } from '@/types/policy-mappings';
+import { ClarificationDialog } from './ClarificationDialog';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { localizeTerm } from '@/services/terminology';
 
 // Match the API structure from types/api.ts
-interface MappedPriority {
-  original: string;
-  category?: string;
-  mappedTerms?: string[];
-  policyTerms?: string[];
-}
+type MappedPriority = Partial<CanonicalMappedPriority> & { original: string };
 
 interface PriorityMappingTableProps {
   mappedPriorities: MappedPriority[];
   onUpdatePriorities: (updatedPriorities: string[]) => void;
   isUpdating?: boolean;
+  // Lets the voter answer clarification questions for low-confidence rows
+  onClarified?: (index: number, updated: CanonicalMappedPriority) => void;
 }
 
+// Fill in the canonical fields a clarification needs from a table row
+const toCanonical = (priority: MappedPriority): CanonicalMappedPriority => ({
+  ...priority,
+  priority: priority.priority || priority.original,
+  policyTerms: priority.policyTerms || priority.mappedTerms || [],
+  sentiment: priority.sentiment || 'neutral',
+  confidence: priority.confidence ?? 0,
+  needsClarification: priority.needsClarification ?? true
+});
+
 export function PriorityMappingTable({ 
   mappedPriorities, 
   onUpdatePriorities,
-  isUpdating = false
+  isUpdating = false,
+  onClarified
 }: PriorityMappingTableProps) {
   const [editedPriorities, setEditedPriorities] = useState<string[]>([]);
   const [isEditing, setIsEditing] = useState(false);
+  const [clarifyingIndex, setClarifyingIndex] = useState<number | null>(null);
+  const { language, t } = useLanguage();
 
   // Initialize edited priorities from the mapped priorities
   useEffect(() => {
@@ -63,11 +77,25 @@ export function PriorityMappingTable({
   const getMappedTerms = (priority: MappedPriority): string => {
     // First try mappedTerms, then policyTerms if mappedTerms is empty
     if (priority.mappedTerms && priority.mappedTerms.length > 0) {
-      return priority.mappedTerms.join(', ');
+      return priority.mappedTerms.map(term => localizeTerm(term, language)).join(', ');
     } else if (priority.policyTerms && priority.policyTerms.length > 0) {
-      return priority.policyTerms.join(', ');
+      return priority.policyTerms.map(term => localizeTerm(term, language)).join(', ');
     }
-    return 'No mapping available';
+    return t('mappingTable.noMapping');
+  };
+
+  // Clauses that mapped to something, when the priority raised more than one issue
+  const getMappedClauses = (priority: MappedPriority) =>
+    (priority.clauses || []).filter(clause => clause.policyTerms.length > 0);
+
+  // The voter's latest answer, if they've clarified this row
+  const getLatestAnswer = (priority: MappedPriority): string | undefined => {
+    const answered = priority.clarification?.turns.filter(turn => turn.answer) || [];
+    const answer = answered[answered.length - 1]?.answer;
+    if (!answer) return undefined;
+    return answer.kind === 'interpretation'
+      ? t('mappingTable.youChose', { term: localizeTerm(answer.standardTerm, language) })
+      : t('mappingTable.youSaid', { text: answer.text });
   };
 
   return (
@@ -84,8 +112,8 @@ export function PriorityMappingTable({
                 <TableHeader>
                   <TableRow className="bg-muted/50">
                     <TableHead className="w-12"></TableHead>
-                    <TableHead className="w-1/2 py-2 text-xs font-medium">Your Concern</TableHead>
-                    <TableHead className="w-1/2 py-2 text-xs font-medium">Mapped Policy Term(s)</TableHead>
+                    <TableHead className="w-1/2 py-2 text-xs font-medium">{t('mappingTable.concern')}</TableHead>
+                    <TableHead className="w-1/2 py-2 text-xs font-medium">{t('mappingTable.terms')}</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -114,11 +142,41 @@ export function PriorityMappingTable({
                               value={editedPriorities[index] || priority.original}
                               onChange={(e) => handleEditPriority(index, e.target.value)}
                               className="w-full h-8 text-sm"
-                              placeholder="Your concern"
+                              placeholder={t('mappingTable.concernPlaceholder')}
                             />
                           </TableCell>
                           <TableCell className="p-1 text-sm">
-                            {getMappedTerms(priority)}
+                            <div>{getMappedTerms(priority)}</div>
+                            {getMappedClauses(priority).length > 1 && (
+                              <ul className="text-xs text-muted-foreground">
+                                {getMappedClauses(priority).map((clause, clauseIndex) => (
+                                  <li key={clauseIndex}>
+                                    "{clause.text}" → {localizeTerm(clause.policyTerms[0], language)}
+                                    {clause.stance && clause.stance !== 'support' && ` ${t(`mappingTable.stance.${clause.stance}`)}`}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {priority.tensions?.map((tension, tensionIndex) => (
+                              <div key={tensionIndex} className="flex items-start gap-1 text-xs text-amber-700">
+                                <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                                <span>{tension.explanation}</span>
+                              </div>
+                            ))}
+                            {getLatestAnswer(priority) && (
+                              <div className="text-xs text-muted-foreground">{getLatestAnswer(priority)}</div>
+                            )}
+                            {onClarified && priority.needsClarification && priority.clarification?.status !== 'resolved' && (
+                              <Button
+                                variant="link"
+                                size="sm"
+                                className="h-6 px-0 text-xs"
+                                onClick={() => setClarifyingIndex(index)}
+                              >
+                                <HelpCircle className="h-3 w-3 mr-1" />
+                                {t('mappingTable.clarify')}
+                              </Button>
+                            )}
                           </TableCell>
                         </TableRow>
                       )}
@@ -140,10 +198,19 @@ export function PriorityMappingTable({
             size="sm"
             className="h-8 text-xs"
           >
-            {isUpdating ? "Updating..." : "Update Mapping"}
+            {isUpdating ? t('mappingTable.updating') : t('mappingTable.update')}
           </Button>
         </div>
       )}
+
+      {onClarified && clarifyingIndex !== null && mappedPriorities[clarifyingIndex] && (
+        <ClarificationDialog
+          isOpen={clarifyingIndex !== null}
+          onClose={() => setClarifyingIndex(null)}
+          mappedPriority={toCanonical(mappedPriorities[clarifyingIndex])}
+          onClarified={(updated) => onClarified(clarifyingIndex, updated)}
+        />
+      )}
     </div>
   );
 }
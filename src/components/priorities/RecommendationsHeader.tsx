@@ -1,6 +1,20 @@
 import { ShareRecommendations } from '@/components/ShareRecommendations';
+import { SaveToAccountButton } from '@/components/SaveToAccountButton';
+import { ReminderDialog } from '@/components/ReminderDialog';
 import { RecommendationsData } from '@/types/api';
 import { useMode } from '@/contexts/ModeContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { countdownLabel } from '@/services/elections';
+import { formatDate, Locale, LOCALE_TAGS, Translator } from '@/services/i18n';
+import { ElectionCountdown } from '@/types/elections';
+
+const formatElectionDate = (date: string, language: Locale) => formatDate(new Date(`${date}T00:00:00`), language);
+
+const formatFetchedAt = (date: string, language: Locale) =>
+  new Date(date).toLocaleString(LOCALE_TAGS[language], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const formatDaysLeft = ({ daysLeft }: ElectionCountdown, t: Translator) =>
+  daysLeft === 0 ? t('countdown.today') : daysLeft === 1 ? t('countdown.tomorrow') : t('countdown.days', { days: daysLeft });
 
 export interface RecommendationsHeaderProps {
   recommendationsData: RecommendationsData;
@@ -13,8 +27,11 @@ export const RecommendationsHeader = ({
   onRemovePriority,
   sectionTitle
 }: RecommendationsHeaderProps) => {
-  const { mode } = useMode();
+  const { mode, election } = useMode();
+  const { language, t } = useLanguage();
   const isDemo = mode === 'demo';
+  const demoElection = election.lastGeneralElection;
+  const { freshness } = recommendationsData;
 
   const showTitle = sectionTitle !== undefined;
 
@@ -23,25 +40,63 @@ export const RecommendationsHeader = ({
       {showTitle && (
         <div className="flex justify-between items-center">
           <h2 className="text-3xl font-bold text-left">{sectionTitle}</h2>
-          <ShareRecommendations
-            recommendationsData={recommendationsData}
-          />
+          <div className="flex flex-wrap justify-end gap-2">
+            <SaveToAccountButton recommendationsData={recommendationsData} />
+            <ShareRecommendations
+              recommendationsData={recommendationsData}
+            />
+          </div>
         </div>
       )}
       
       <div className="text-left space-y-2">
         {isDemo ? (
           <p className="text-muted-foreground text-base">
-            Here are your personalized recommendations for the November 2024 election
-            in ZIP code {recommendationsData.zipCode}.
+            {t('recommendations.intro.demo', {
+              election: demoElection
+                ? t('recommendations.intro.demoElection', { date: formatElectionDate(demoElection.date, language) })
+                : t('recommendations.intro.lastGeneral'),
+              zipCode: recommendationsData.zipCode
+            })}
           </p>
         ) : (
           <p className="text-muted-foreground text-base">
-            Based on your priorities, here are the elected officials, candidates, and civic actions that most closely match your concerns.
+            {t('recommendations.intro.current')}
           </p>
         )}
+        {!isDemo && election.nextElection && election.countdowns.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            {election.countdowns.map(countdown => (
+              <span
+                key={countdown.kind}
+                className="inline-flex items-center gap-1 px-2.5 py-1 rounded-md border text-xs"
+                title={formatElectionDate(countdown.date, language)}
+              >
+                <span className="font-medium">{countdownLabel(countdown, t)}</span>
+                <span className="text-muted-foreground">{formatDaysLeft(countdown, t)}</span>
+              </span>
+            ))}
+            <ReminderDialog zipCode={recommendationsData.zipCode} />
+          </div>
+        )}
+        {freshness && (
+          <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+            <p className="font-medium">
+              {t(freshness.offline ? 'recommendations.freshness.offline' : 'recommendations.freshness.stale')}
+            </p>
+            <p>
+              {[
+                freshness.fetchedAt.fec &&
+                  t('recommendations.freshness.candidates', { date: formatFetchedAt(freshness.fetchedAt.fec, language) }),
+                freshness.fetchedAt.civic &&
+                  t('recommendations.freshness.representatives', { date: formatFetchedAt(freshness.fetchedAt.civic, language) })
+              ].filter(Boolean).join('; ') || t('recommendations.freshness.none')}.
+              {freshness.queuedId && ` ${t('recommendations.freshness.queued')}`}
+            </p>
+          </div>
+        )}
         <p className="text-sm text-muted-foreground">
-          For ZIP Code: <span className="font-medium">{recommendationsData.zipCode}</span> • Region: <span className="font-medium">{recommendationsData.region}</span>
+          {t('recommendations.zipCode')} <span className="font-medium">{recommendationsData.zipCode}</span> • {t('recommendations.region')} <span className="font-medium">{recommendationsData.region}</span>
         </p>
         
         <div className="flex flex-wrap gap-2 mt-4">
@@ -1,4 +1,4 @@
-import { DashboardData, AlignmentLevel, CandidateRecommendation, BallotMeasure as BallotMeasureType, InterestGroup as InterestGroupType, Petition as PetitionType, CivicEducationResource } from '@/types/recommendations';
+import { DashboardData, AlignmentLevel, CandidateRecommendation, InterestGroup as InterestGroupType, Petition as PetitionType, CivicEducationResource } from '@/types/recommendations';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -6,7 +6,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ExternalLinkIcon, MailIcon, Share2Icon } from 'lucide-react';
 import { Mode, useMode } from "@/contexts/ModeContext";
-import { RecommendationsData, Candidate, BallotMeasure, InterestGroup, Petition } from '@/types/api';
+import { RecommendationsData, Candidate, InterestGroup, Petition } from '@/types/api';
+import { MappedPriority } from '@/types/policy-mappings';
 import { RecommendationsList } from '@/components/RecommendationsList';
 import { CandidateTable } from "./CandidateTable";
 import { BallotMeasuresTable } from "./BallotMeasuresTable";
@@ -14,22 +15,28 @@ import { EmailSection } from "./EmailSection";
 import { ResourcesSection } from "./ResourcesSection";
 import { Share } from "lucide-react";
 import { PriorityMappingTable } from "./PriorityMappingTable";
+import { DistrictSelector } from "./DistrictSelector";
+import { districtResolver } from '@/services/districts';
+import { toCandidateRecommendation, toDashboardBallotMeasure } from '@/utils/dashboardData';
 import { PolicyRecommendations } from '@/components/PolicyRecommendations';
 import { RecommendationsHeader } from './RecommendationsHeader';
 import { useState } from 'react';
 import { usePrioritiesAnalysis } from '@/hooks/use-priorities-analysis';
 import { ErrorBoundary } from 'react-error-boundary';
 import { ErrorFallback } from '@/components/ErrorFallback';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 interface RecommendationsViewerProps {
   recommendations: RecommendationsData;
   mode?: Mode;
   onShare?: () => void;
   onUpdatePriorities?: (priorities: string[]) => void;
+  onClarified?: (index: number, updated: MappedPriority) => void;
   isUpdating?: boolean;
 }
 
 const AlignmentBadge = ({ level }: { level: AlignmentLevel }) => {
+  const { t } = useLanguage();
   const variants = {
     '✅': 'default',
     '⚠️': 'secondary',
@@ -38,61 +45,75 @@ const AlignmentBadge = ({ level }: { level: AlignmentLevel }) => {
 
   return (
     <Badge variant={variants[level]}>
-      {level === '✅' ? 'High' : level === '⚠️' ? 'Medium' : 'Low'} Alignment
+      {t(level === '✅' ? 'recommendations.alignment.high' : level === '⚠️' ? 'recommendations.alignment.medium' : 'recommendations.alignment.low')}
     </Badge>
   );
 };
 
-const CandidateCard = ({ candidate }: { candidate: CandidateRecommendation }) => (
-  <Card>
-    <CardHeader>
-      <div className="flex items-center justify-between">
-        <div>
-          <CardTitle className="text-lg">{candidate.name}</CardTitle>
-          <CardDescription>{candidate.office}</CardDescription>
-        </div>
-        <AlignmentBadge level={candidate.alignment} />
-      </div>
-    </CardHeader>
-    <CardContent>
-      <div className="space-y-4">
-        <div>
-          <h4 className="font-semibold mb-2">Platform Highlights</h4>
-          <ul className="list-disc pl-5 space-y-1">
-            {candidate.platformHighlights.map((highlight, i) => (
-              <li key={i}>{highlight}</li>
-            ))}
-          </ul>
+const CandidateCard = ({ candidate }: { candidate: CandidateRecommendation }) => {
+  const { t } = useLanguage();
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">{candidate.name}</CardTitle>
+            <CardDescription>{candidate.office}</CardDescription>
+          </div>
+          <AlignmentBadge level={candidate.alignment} />
         </div>
-        <div>
-          <h4 className="font-semibold mb-2">Match Rationale</h4>
-          <p className="text-sm text-muted-foreground">{candidate.rationale}</p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div>
+            <h4 className="font-semibold mb-2">{t('recommendations.platformHighlights')}</h4>
+            <ul className="list-disc pl-5 space-y-1">
+              {candidate.platformHighlights.map((highlight, i) => (
+                <li key={i}>{highlight}</li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <h4 className="font-semibold mb-2">{t('recommendations.matchRationale')}</h4>
+            <p className="text-sm text-muted-foreground">{candidate.rationale}</p>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={candidate.officialWebsite} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2">
+              {t('recommendations.officialWebsite')} <ExternalLinkIcon className="h-4 w-4" />
+            </a>
+          </Button>
         </div>
-        <Button variant="outline" size="sm" asChild>
-          <a href={candidate.officialWebsite} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2">
-            Official Website <ExternalLinkIcon className="h-4 w-4" />
-          </a>
-        </Button>
-      </div>
-    </CardContent>
-  </Card>
-);
+      </CardContent>
+    </Card>
+  );
+};
 
 export function RecommendationsViewer({ 
   recommendations, 
   mode, 
   onShare,
   onUpdatePriorities,
+  onClarified,
   isUpdating = false
 }: RecommendationsViewerProps) {
   const { mode: contextMode, hasUpcomingBallots } = useMode();
   const { isLoading: isAnalysisLoading } = usePrioritiesAnalysis();
+  const { t } = useLanguage();
+  // Districts the voter picked where their ZIP code straddles a boundary
+  const [chosenDistricts, setChosenDistricts] = useState<string[]>([]);
   
   // Use mode from props if provided, otherwise use from context
   const activeMode = mode || contextMode;
   
   if (!recommendations?.recommendations) return null;
 
+  const districts = recommendations.districts && chosenDistricts.reduce(
+    (resolution, districtId) => districtResolver.choose(resolution, districtId),
+    recommendations.districts
+  );
+  const inVoterDistricts = (candidate: Candidate) =>
+    !districts || !candidate.districtId || districtResolver.membership(districts, candidate.districtId) !== 'out';
+
   const showElectionContent = activeMode === 'demo' || (activeMode === 'current' && hasUpcomingBallots);
 
   // Transform mapped priorities for the PriorityMappingTable
@@ -103,7 +124,9 @@ export function RecommendationsViewer({
     sentiment: priority.sentiment,
     confidence: priority.confidence,
     needsClarification: priority.needsClarification,
-    possibleTopics: priority.possibleTopics
+    possibleTopics: priority.possibleTopics,
+    matches: priority.matches,
+    clarification: priority.clarification
   })) || [];
 
   // Handle priority updates
@@ -114,27 +137,6 @@ export function RecommendationsViewer({
   };
 
   // Convert API types to component types
-  const convertToCandidateRecommendation = (candidate: Candidate): CandidateRecommendation => ({
-    name: candidate.name,
-    office: candidate.office || 'Unknown Office',
-    summary: candidate.positionSummary || '',
-    match: candidate.alignment === '✅' ? 'full' : candidate.alignment === '⚠️' ? 'partial' : 'conflict',
-    platformHighlights: candidate.platformHighlights || [],
-    rationale: candidate.rationale || '',
-    officialWebsite: candidate.officialWebsite || '#',
-    party: candidate.party || ''
-  });
-
-  const convertToBallotMeasure = (measure: BallotMeasure): BallotMeasureType => ({
-    id: measure.title.replace(/\s+/g, '-').toLowerCase(),
-    title: measure.title,
-    summary: measure.description,
-    supporters: measure.supporters,
-    opposers: measure.opposers,
-    userConcernMapping: measure.userConcernMapping,
-    ballotpediaLink: measure.ballotpediaLink
-  });
-
   const convertToInterestGroup = (group: InterestGroup): InterestGroupType => ({
     name: group.name,
     description: group.description,
@@ -161,8 +163,8 @@ export function RecommendationsViewer({
   });
 
   // Convert the data
-  const candidates = recommendations.recommendations.candidates?.map(convertToCandidateRecommendation) || [];
-  const ballotMeasures = recommendations.recommendations.ballotMeasures?.map(convertToBallotMeasure) || [];
+  const candidates = recommendations.recommendations.candidates?.filter(inVoterDistricts).map(toCandidateRecommendation) || [];
+  const ballotMeasures = recommendations.recommendations.ballotMeasures?.map(toDashboardBallotMeasure) || [];
   const interestGroups = recommendations.recommendations.interestGroups?.map(convertToInterestGroup) || [];
   const petitions = recommendations.recommendations.petitions?.map(convertToPetition) || [];
   const educationResources = recommendations.recommendations.educationResources?.map(convertToEducationResource) || [];
@@ -173,7 +175,7 @@ export function RecommendationsViewer({
       <RecommendationsHeader 
         recommendationsData={recommendations}
         onRemovePriority={() => {}}
-        sectionTitle="Your Recommendations"
+        sectionTitle={t('recommendations.title')}
       />
 
       {/* Priority Mapping Table - with editable priorities */}
@@ -182,11 +184,22 @@ export function RecommendationsViewer({
           <PriorityMappingTable 
             mappedPriorities={mappedPrioritiesForTable} 
             onUpdatePriorities={onUpdatePriorities ? handleUpdatePriorities : undefined}
+            onClarified={onClarified}
             isUpdating={isUpdating}
           />
         </div>
       )}
 
+      {/* Ask which district the voter is in when their ZIP code straddles one */}
+      {districts && districts.ambiguous.length > 0 && (
+        <div className="mb-8">
+          <DistrictSelector
+            resolution={districts}
+            onChoose={(districtId) => setChosenDistricts(previous => [...previous, districtId])}
+          />
+        </div>
+      )}
+
       {/* Policy Recommendations */}
       {recommendations.recommendations.policyRecommendations && (
         <div className="mb-8">
@@ -197,10 +210,10 @@ export function RecommendationsViewer({
       {/* Tabs for different recommendation types */}
       <Tabs defaultValue="candidates" className="w-full">
         <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="candidates">Candidates</TabsTrigger>
-          <TabsTrigger value="ballot">Ballot Measures</TabsTrigger>
-          <TabsTrigger value="resources">Resources</TabsTrigger>
-          <TabsTrigger value="email">Email</TabsTrigger>
+          <TabsTrigger value="candidates">{t('recommendations.tabs.candidates')}</TabsTrigger>
+          <TabsTrigger value="ballot">{t('recommendations.tabs.ballot')}</TabsTrigger>
+          <TabsTrigger value="resources">{t('recommendations.tabs.resources')}</TabsTrigger>
+          <TabsTrigger value="email">{t('recommendations.tabs.email')}</TabsTrigger>
         </TabsList>
         
         <TabsContent value="candidates" className="space-y-4 pt-4">
@@ -218,7 +231,7 @@ export function RecommendationsViewer({
           ) : (
             <Card>
               <CardContent className="pt-6">
-                <p className="text-muted-foreground">No candidate recommendations available for your current settings.</p>
+                <p className="text-muted-foreground">{t('recommendations.noCandidates')}</p>
               </CardContent>
             </Card>
           )}
@@ -240,7 +253,7 @@ export function RecommendationsViewer({
           {(!showElectionContent || ballotMeasures.length === 0) && (
             <Card>
               <CardContent className="pt-6">
-                <p className="text-muted-foreground">No ballot measure recommendations available for your current settings.</p>
+                <p className="text-muted-foreground">{t('recommendations.noBallotMeasures')}</p>
               </CardContent>
             </Card>
           )}
@@ -0,0 +1,49 @@
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale } from '@/types/i18n';
+import { createTranslator, DEFAULT_LOCALE, isLocale, LOCALE_TAGS, Translator } from '@/services/i18n';
+
+const STORAGE_KEY = 'voter-tool-language';
+
+interface LanguageContextType {
+  // The voter's chosen language for the interface, emails and voter guides
+  language: Locale;
+  setLanguage: (language: Locale) => void;
+  t: Translator;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+// A saved choice wins; otherwise the browser's language if we support it
+function initialLanguage(): Locale {
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+  if (isLocale(saved)) return saved;
+  const browser = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2) : '';
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+}
+
+export function LanguageProvider({ children }: { children: React.ReactNode }) {
+  const [language, setLanguageState] = useState<Locale>(initialLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = LOCALE_TAGS[language];
+  }, [language]);
+
+  const value = useMemo(() => ({
+    language,
+    setLanguage: (next: Locale) => {
+      localStorage.setItem(STORAGE_KEY, next);
+      setLanguageState(next);
+    },
+    t: createTranslator(language)
+  }), [language]);
+
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+}
+
+export function useLanguage() {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useLanguage must be used within a LanguageProvider');
+  }
+  return context;
+}
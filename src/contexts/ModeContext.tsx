@@ -1,26 +1,57 @@
-import { createContext, useContext, useState } from 'react';
+import { createContext, useContext, useEffect, useState } from 'react';
 import { Mode } from '@/types/api';
+import { ElectionContext } from '@/types/elections';
+import { electionCalendar } from '@/services/elections';
 
 interface ModeContextType {
   mode: Mode;
   setMode: (mode: Mode) => void;
+  // Go back to the mode the election calendar suggests
+  resetMode: () => void;
+  isAutomaticMode: boolean;
   hasUpcomingBallots: boolean;
-  setHasUpcomingBallots: (has: boolean) => void;
+  election: ElectionContext;
+  setZipCode: (zipCode: string) => void;
 }
 
 const ModeContext = createContext<ModeContextType | undefined>(undefined);
 
 export function ModeProvider({ children }: { children: React.ReactNode }) {
-  const [mode, setMode] = useState<Mode>('current');
-  const [hasUpcomingBallots, setHasUpcomingBallots] = useState(false);
+  const [manualMode, setManualMode] = useState<Mode | null>(null);
+  const [zipCode, setZipCode] = useState('');
+  const [election, setElection] = useState<ElectionContext>(() => electionCalendar.contextFor({}));
+  // Google Civic's election list, loaded once in the background
+  const [seeding, setSeeding] = useState<Promise<number>>();
+
+  useEffect(() => {
+    setSeeding(electionCalendar.seedFromCivic());
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      if (!cancelled) setElection(electionCalendar.contextFor({ zipCode }, new Date(), manualMode ?? undefined));
+    };
+    refresh();
+    // Elections added by the seed can change the mode and countdowns
+    seeding?.then(added => {
+      if (added > 0) refresh();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [zipCode, manualMode, seeding]);
 
   return (
-    <ModeContext.Provider 
-      value={{ 
-        mode, 
-        setMode, 
-        hasUpcomingBallots, 
-        setHasUpcomingBallots 
+    <ModeContext.Provider
+      value={{
+        mode: election.mode,
+        setMode: setManualMode,
+        resetMode: () => setManualMode(null),
+        isAutomaticMode: manualMode === null,
+        hasUpcomingBallots: election.hasUpcomingBallots,
+        election,
+        setZipCode
       }}
     >
       {children}
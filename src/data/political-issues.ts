@@ -13,11 +13,13 @@ export const POLITICAL_ISSUES: PoliticalIssue[] = [
       {
         name: 'Universal Access',
         description: 'Expanding voting access through multiple methods',
+        keywords: ['automatic registration', 'mail voting', 'vote by mail', 'early voting', 'same day registration', 'expand voting'],
         conflictingApproaches: ['strict_verification']
       },
       {
         name: 'Strict Verification',
         description: 'Emphasizing security and verification in voting',
+        keywords: ['voter id', 'photo id', 'proof of citizenship', 'purge voter rolls', 'election integrity'],
         conflictingApproaches: ['universal_access']
       }
     ]
@@ -33,11 +35,13 @@ export const POLITICAL_ISSUES: PoliticalIssue[] = [
       {
         name: 'Community-Based',
         description: 'Focus on prevention and community programs',
+        keywords: ['community programs', 'defund', 'alternatives to incarceration', 'restorative justice', 'prevention programs'],
         conflictingApproaches: ['enforcement_focused']
       },
       {
         name: 'Enforcement-Focused',
         description: 'Emphasis on law enforcement and penalties',
+        keywords: ['more police', 'tougher sentences', 'tough on crime', 'mandatory minimums', 'harsher penalties'],
         conflictingApproaches: ['community_based']
       }
     ]
@@ -55,6 +59,7 @@ export const POLITICAL_ISSUES: PoliticalIssue[] = [
       {
         name: 'Strong Privacy',
         description: 'Maximizing individual privacy protections',
+        keywords: ['end mass surveillance', 'strong encryption', 'privacy protections', 'stop data collection'],
         conflictingApproaches: ['security_first']
       }
     ]
@@ -65,13 +70,14 @@ export const POLITICAL_ISSUES: PoliticalIssue[] = [
     id: 'climate_action',
     name: 'Climate Change Action',
     category: 'ENVIRONMENT',
-    synonyms: ['climate policy', 'global warming action', 'emissions reduction'],
+    synonyms: ['climate change', 'climate policy', 'global warming action', 'emissions reduction'],
     relatedTerms: ['carbon emissions', 'renewable energy', 'climate crisis'],
     weight: 1.0,
     policyApproaches: [
       {
         name: 'Rapid Transition',
         description: 'Quick shift to renewable energy',
+        keywords: ['green new deal', '100% renewable', 'ban fracking', 'phase out fossil fuels', 'net zero'],
         conflictingApproaches: ['gradual_adaptation']
       }
     ],
@@ -90,6 +96,7 @@ export const POLITICAL_ISSUES: PoliticalIssue[] = [
       {
         name: 'Strong Protections',
         description: 'Comprehensive worker protections and benefits',
+        keywords: ['minimum wage', 'paid leave', 'union', 'unions', 'overtime pay', 'worker protections'],
         conflictingApproaches: ['market_flexibility']
       }
     ]
@@ -107,11 +114,13 @@ export const POLITICAL_ISSUES: PoliticalIssue[] = [
       {
         name: 'Universal Coverage',
         description: 'Government-guaranteed healthcare for all',
+        keywords: ['medicare for all', 'single payer', 'universal healthcare', 'government healthcare', 'public option'],
         conflictingApproaches: ['market_based']
       },
       {
         name: 'Market-Based',
         description: 'Private insurance-focused system',
+        keywords: ['private insurance', 'market-based', 'market based', 'health savings accounts', 'reduce government role in healthcare'],
         conflictingApproaches: ['universal_coverage']
       }
     ]
@@ -129,9 +138,93 @@ export const POLITICAL_ISSUES: PoliticalIssue[] = [
       {
         name: 'Public Investment',
         description: 'Government-funded affordable housing',
+        keywords: ['public housing', 'rent control', 'housing vouchers', 'government-funded housing'],
         conflictingApproaches: ['market_solutions']
       }
     ]
+  },
+
+  // Issues other entries conflict with
+  {
+    id: 'fossil_fuel_development',
+    name: 'Fossil Fuel Development',
+    category: 'ENERGY',
+    synonyms: ['energy independence', 'domestic oil production', 'fossil fuel industry'],
+    relatedTerms: ['drilling', 'fracking', 'pipelines', 'coal', 'oil and gas'],
+    weight: 1.0,
+    policyApproaches: [
+      {
+        name: 'Gradual Adaptation',
+        description: 'Keep fossil fuels while slowly adding alternatives',
+        conflictingApproaches: ['rapid_transition'],
+        keywords: ['all of the above energy', 'keep coal plants', 'expand drilling', 'more pipelines', 'drill baby drill']
+      }
+    ],
+    opposingIssues: ['climate_action']
+  },
+  {
+    id: 'election_security',
+    name: 'Election Security',
+    category: 'ELECTORAL_REFORM',
+    synonyms: ['election integrity', 'secure elections', 'voter fraud prevention'],
+    relatedTerms: ['voter fraud', 'ballot security', 'voter rolls'],
+    weight: 0.9
+  },
+  {
+    id: 'economic_growth',
+    name: 'Economic Growth',
+    category: 'ECONOMY',
+    synonyms: ['job creation', 'economic development', 'grow the economy'],
+    relatedTerms: ['gdp', 'jobs', 'business investment', 'deregulation'],
+    weight: 0.9
+  },
+  {
+    id: 'business_flexibility',
+    name: 'Business Flexibility',
+    category: 'LABOR',
+    synonyms: ['small business freedom', 'flexible labor market', 'business friendly'],
+    relatedTerms: ['right to work', 'at-will employment', 'gig economy'],
+    weight: 0.8,
+    policyApproaches: [
+      {
+        name: 'Market Flexibility',
+        description: 'Let employers and workers set terms with minimal mandates',
+        conflictingApproaches: ['strong_protections'],
+        keywords: ['right to work', 'fewer mandates', 'cut red tape for employers', 'no minimum wage increase']
+      }
+    ]
+  },
+  {
+    id: 'property_rights',
+    name: 'Property Rights',
+    category: 'HOUSING',
+    synonyms: ['landlord rights', 'private property', 'property owner rights'],
+    relatedTerms: ['zoning', 'eminent domain', 'property values'],
+    weight: 0.8,
+    policyApproaches: [
+      {
+        name: 'Market Solutions',
+        description: 'Increase supply through private development and fewer restrictions',
+        conflictingApproaches: ['public_investment'],
+        keywords: ['no rent control', 'let the market', 'private development', 'fewer building restrictions']
+      }
+    ]
+  },
+  {
+    id: 'public_safety',
+    name: 'Public Safety',
+    category: 'PUBLIC_SAFETY',
+    synonyms: ['crime prevention', 'safe communities', 'national security'],
+    relatedTerms: ['crime', 'police', 'law enforcement', 'terrorism'],
+    weight: 1.0,
+    policyApproaches: [
+      {
+        name: 'Security First',
+        description: 'Give law enforcement broad surveillance and data access',
+        conflictingApproaches: ['strong_privacy'],
+        keywords: ['surveillance cameras', 'monitor communications', 'backdoor', 'facial recognition']
+      }
+    ]
   }
 ];
 
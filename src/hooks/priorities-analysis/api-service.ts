@@ -1,9 +1,12 @@
 import { supabase } from '@/integrations/supabase/client';
 import { VoterFormValues } from '@/schemas/voterFormSchema';
-import { RecommendationsData, AnalysisResult } from '@/types/api';
+import { RecommendationsData, AnalysisResult, Candidate } from '@/types/api';
 import { PolicyMapper } from '@/services/policy-mapper';
-import { ConflictResult as PolicyConflictResult, PriorityAnalysis } from '@/types/policy-mappings';
+import { PriorityAnalysis } from '@/types/policy-mappings';
 import { ConflictResult as ApiConflictResult } from '@/types/api';
+import { toApiConflicts } from '@/utils/priorityConflicts';
+import { candidateAlignmentService } from '@/services/alignment';
+import { ballotMeasureService } from '@/services/ballot-measures';
 import { FormData } from '../use-priorities-analysis';
 
 export function createApiService(toast: any) {
@@ -20,14 +23,7 @@ export function createApiService(toast: any) {
       const analysis = priorityAnalysis || await policyMapper.mapPriorities(formData.priorities);
       
       // Convert conflict format from policy-mappings to api format
-      const convertedConflicts: ApiConflictResult[] = analysis.conflicts.map(
-        (conflict: PolicyConflictResult) => ({
-          priority1: conflict.priorities[0] || '',
-          priority2: conflict.priorities[1] || '',
-          reason: conflict.reason,
-          severity: conflict.severity
-        })
-      );
+      const convertedConflicts: ApiConflictResult[] = toApiConflicts(analysis.conflicts);
       
       try {
         // Try to call the Supabase function if available
@@ -78,8 +74,14 @@ export function createApiService(toast: any) {
         // Create a mock recommendations response using local analysis
         const recommendationsData: AnalysisResult = {
           recommendations: {
-            candidates: getMockCandidates(formData.mode),
-            ballotMeasures: getMockBallotMeasures(),
+            candidates: await candidateAlignmentService.alignCandidates(
+              getMockCandidates(formData.mode),
+              analysis.mappedPriorities
+            ),
+            ballotMeasures: await ballotMeasureService.mapConcerns(
+              ballotMeasureService.fromFixture('CA'),
+              analysis.mappedPriorities
+            ),
             policyRecommendations: generateMockPolicyRecommendations(formData.priorities),
             interestGroups: getMockInterestGroups(analysis.mappedPriorities),
             petitions: getMockPetitions(analysis.mappedPriorities),
@@ -126,8 +128,9 @@ export function createApiService(toast: any) {
     };
   };
   
-  // Helper function to get mock candidates
-  const getMockCandidates = (mode: string) => {
+  // Helper function to get mock candidates. Alignment and rationale are
+  // filled in by candidateAlignmentService.
+  const getMockCandidates = (mode: string): Candidate[] => {
     if (mode !== 'demo') return [];
     
     return [
@@ -141,9 +144,9 @@ export function createApiService(toast: any) {
           "Opposes DEI mandates in public institutions",
           "Supports AI literacy programs in schools"
         ],
-        rationale: "Aligns with your priorities on tax reform and education",
+        rationale: "",
         officialWebsite: "https://example.com/tanya-nguyen",
-        alignment: "✅"
+        alignment: "⚠️"
       },
       {
         name: "Marcos Vidal",
@@ -155,9 +158,9 @@ export function createApiService(toast: any) {
           "Moderate support for transit expansion",
           "Neutral stance on DEI initiatives"
         ],
-        rationale: "Aligns with your priorities on government transparency",
+        rationale: "",
         officialWebsite: "https://example.com/marcos-vidal",
-        alignment: "✅"
+        alignment: "⚠️"
       },
       {
         name: "Anya Bellamy",
@@ -169,43 +172,13 @@ export function createApiService(toast: any) {
           "Investment in green infrastructure",
           "Neutral stance on January 6 related issues"
         ],
-        rationale: "Partially aligns with your priorities on transportation",
+        rationale: "",
         officialWebsite: "https://example.com/anya-bellamy",
         alignment: "⚠️"
       }
     ];
   };
   
-  // Helper function to get mock ballot measures
-  const getMockBallotMeasures = () => {
-    return [
-      {
-        title: "Prop 204",
-        description: "Adds 0.25% sales tax for expanded rural bus service",
-        supporters: ["Transit Advocates Coalition", "Rural Communities Alliance"],
-        opposers: ["Taxpayers Association", "Small Business Federation"],
-        userConcernMapping: "This measure relates to your interest in public transportation",
-        ballotpediaLink: "https://ballotpedia.org/example/prop204"
-      },
-      {
-        title: "Prop 301",
-        description: "Requires public AI policies to be explained at an 8th-grade level",
-        supporters: ["Digital Rights Coalition", "Education First"],
-        opposers: ["Tech Industry Association", "Innovation Alliance"],
-        userConcernMapping: "This relates to your interest in AI governance and transparency",
-        ballotpediaLink: "https://ballotpedia.org/example/prop301"
-      },
-      {
-        title: "Prop 112",
-        description: "Caps property taxes for seniors; supported by cross-partisan coalition",
-        supporters: ["Senior Advocacy Network", "Homeowners Alliance"],
-        opposers: ["Public Education Fund", "Municipal Services Coalition"],
-        userConcernMapping: "This relates to your interest in tax reform",
-        ballotpediaLink: "https://ballotpedia.org/example/prop112"
-      }
-    ];
-  };
-  
   // Helper function to get mock interest groups
   const getMockInterestGroups = (mappedPriorities: any[]) => {
     return [
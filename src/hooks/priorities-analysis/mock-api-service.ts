@@ -2,9 +2,22 @@ import { VoterFormValues } from '@/schemas/voterFormSchema';
 import { RecommendationsData } from '@/types/api';
 import { useToast } from '@/hooks/use-toast';
 import { useMode } from '@/contexts/ModeContext';
-import { PriorityMappingService } from '@/services/priority-mapping-service';
+import { mappingEngine } from '@/services/mapping-engine';
+import { MappedPriority } from '@/types/policy-mappings';
 
-const priorityMapper = new PriorityMappingService();
+// The three categories most of the voter's terms fall under
+function dominantCategories(mappedPriorities: MappedPriority[]): string[] {
+  const counts = new Map<string, number>();
+  for (const mapped of mappedPriorities) {
+    if (mapped.category && mapped.policyTerms.length > 0) {
+      counts.set(mapped.category, (counts.get(mapped.category) || 0) + mapped.confidence);
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([category]) => category);
+}
 
 export function createMockApiService(toast: ReturnType<typeof useToast>) {
   return {
@@ -19,8 +32,12 @@ export function createMockApiService(toast: ReturnType<typeof useToast>) {
       // Simulate API delay
       await new Promise(resolve => setTimeout(resolve, 1000));
 
-      // Use our priority mapping service to analyze priorities
-      const analysis = priorityMapper.analyzePriorities(allPriorities);
+      // Same engine as the real API, so mock results have the canonical shape
+      const analysis = await mappingEngine.mapPriorities(allPriorities);
+      const categories = dominantCategories(analysis.mappedPriorities);
+      const matchesFor = (category: string) => analysis.mappedPriorities
+        .filter(mp => mp.category === category)
+        .map(mp => ({ userPriority: mp.priority, mappedTerms: mp.policyTerms }));
 
       // Generate recommendations based on mapped priorities
       const recommendations: RecommendationsData = {
@@ -29,13 +46,13 @@ export function createMockApiService(toast: ReturnType<typeof useToast>) {
         analysis: {
           summary: "Based on your priorities, here are your recommendations",
           priorities: allPriorities,
-          conflicts: analysis.potentialConflicts.map(conflict => conflict.reason)
+          conflicts: analysis.conflicts.map(conflict => conflict.reason)
         },
         mappedPriorities: analysis.mappedPriorities.map(mp => ({
-          userPriority: mp.userPriority,
-          mappedTerms: mp.mappedIssues.flatMap(mi => mi.matchedTerms)
+          userPriority: mp.priority,
+          mappedTerms: mp.policyTerms
         })),
-        candidates: analysis.dominantCategories.map(category => ({
+        candidates: categories.map(category => ({
           name: `${category} Advocate`,
           party: "Independent",
           office: "City Council",
@@ -43,31 +60,21 @@ export function createMockApiService(toast: ReturnType<typeof useToast>) {
             stance: 'support',
             reason: `Strong track record on ${category.toLowerCase().replace('_', ' ')} issues`
           },
-          priorityMatches: analysis.mappedPriorities
-            .filter(mp => mp.mappedIssues.some(mi => mi.issue.category === category))
-            .map(mp => ({
-              userPriority: mp.userPriority,
-              mappedTerms: mp.mappedIssues.flatMap(mi => mi.matchedTerms)
-            })),
+          priorityMatches: matchesFor(category),
           keyPositions: [
             `${category.toLowerCase().replace('_', ' ')} reform advocate`,
             'Community engagement leader',
             'Data-driven decision maker'
           ]
         })),
-        ballotMeasures: analysis.dominantCategories.map(category => ({
+        ballotMeasures: categories.map(category => ({
           title: `${category} Initiative`,
           description: `A measure to improve ${category.toLowerCase().replace('_', ' ')} in our community`,
           recommendation: {
             stance: 'support',
             reason: `Aligns with your priorities on ${category.toLowerCase().replace('_', ' ')}`
           },
-          priorityMatches: analysis.mappedPriorities
-            .filter(mp => mp.mappedIssues.some(mi => mi.issue.category === category))
-            .map(mp => ({
-              userPriority: mp.userPriority,
-              mappedTerms: mp.mappedIssues.flatMap(mi => mi.matchedTerms)
-            })),
+          priorityMatches: matchesFor(category),
           supportingGroups: [
             { name: `${category} Action Group`, description: `Leading advocates for ${category.toLowerCase().replace('_', ' ')}` }
           ],
@@ -1,5 +1,6 @@
 
 import { useToast } from '@/hooks/use-toast';
+import { recordUnmappedInputs } from '@/services/term-mining';
 
 export const createUnmappedTermsHandler = (toast: ReturnType<typeof useToast>) => {
   return async (terms: string[]) => {
@@ -9,6 +10,8 @@ export const createUnmappedTermsHandler = (toast: ReturnType<typeof useToast>) =
       }
       
       console.log('Unmapped terms that need mapping:', terms);
+      // Kept for the term miner, which proposes new terms from them
+      recordUnmappedInputs(terms);
       // The correct way to call toast as it's an object with a toast method
       toast.toast({
         title: "Unmapped Terms Detected",
@@ -1,8 +1,10 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { VoterFormValues } from '@/schemas/voterFormSchema';
 import { RecommendationsData } from '@/types/api';
 import { useToast } from '@/hooks/use-toast';
 import { PrioritiesApiService } from '@/services/priorities-api-service';
+import { ANALYSIS_REPLAYED_EVENT, AnalysisReplayedDetail } from '@/services/offline';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 export function usePrioritiesAnalysis() {
   const [isLoading, setIsLoading] = useState(false);
@@ -10,13 +12,25 @@ export function usePrioritiesAnalysis() {
   const [feedbackPriorities, setFeedbackPriorities] = useState<string[]>([]);
   const [submitCount, setSubmitCount] = useState(0);
   const { toast } = useToast();
+  const { language } = useLanguage();
 
   const apiService = new PrioritiesApiService(toast);
 
+  // Swap in the live result once an analysis queued while offline is replayed
+  useEffect(() => {
+    const handleReplayed = (event: Event) => {
+      const { queuedId, data } = (event as CustomEvent<AnalysisReplayedDetail>).detail;
+      setRecommendations(current => (current?.freshness?.queuedId === queuedId ? data : current));
+    };
+    window.addEventListener(ANALYSIS_REPLAYED_EVENT, handleReplayed);
+    return () => window.removeEventListener(ANALYSIS_REPLAYED_EVENT, handleReplayed);
+  }, []);
+
   const analyzePriorities = async (formData: VoterFormValues) => {
     setIsLoading(true);
     try {
-      const response = await apiService.mapPriorities(formData, feedbackPriorities);
+      // Results come back in the voter's chosen language unless the caller picked one
+      const response = await apiService.mapPriorities({ ...formData, language: formData.language || language }, feedbackPriorities);
       if (response.ok && response.data) {
         setRecommendations(response.data);
         setSubmitCount(prev => prev + 1);
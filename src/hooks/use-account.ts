@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { accountService, candidateKey } from '@/services/account';
+import { priorityLearningService } from '@/services/priority-learning-service';
+import { SavedCandidate } from '@/types/account';
+import { CandidateRecommendation } from '@/types/recommendations';
+
+/**
+ * The signed-in user's id, kept current as they sign in and out
+ */
+export function useAuthUser() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setUserId(data.session?.user.id || null);
+      setIsLoading(false);
+    });
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id || null);
+      setIsLoading(false);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  return { userId, isSignedIn: !!userId, isLoading };
+}
+
+/**
+ * Point learned mappings at the signed-in voter (or this device, before
+ * sign-in), then send well-confirmed ones for review and pick up decisions
+ */
+export function usePriorityLearning() {
+  const { userId, isLoading } = useAuthUser();
+
+  useEffect(() => {
+    if (isLoading) return;
+    priorityLearningService.setUserId(userId);
+    priorityLearningService.syncWithReviewQueue().catch(error => {
+      console.error('Error syncing learned mappings:', error);
+    });
+  }, [userId, isLoading]);
+}
+
+/**
+ * Candidates the voter bookmarked for a cycle, with a toggle. Signed-out
+ * voters get an empty list and no toggle.
+ */
+export function useSavedCandidates(cycle: number) {
+  const { userId } = useAuthUser();
+  const queryClient = useQueryClient();
+  const queryKey = ['savedCandidates', userId, cycle];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => accountService.listSavedCandidates(cycle),
+    enabled: !!userId
+  });
+  const saved = (query.data as SavedCandidate[] | undefined) || [];
+
+  const savedFor = (candidate: CandidateRecommendation) =>
+    saved.find(item => item.personKey === candidateKey(candidate));
+
+  const toggle = async (candidate: CandidateRecommendation) => {
+    const existing = savedFor(candidate);
+    if (existing) {
+      await accountService.removeCandidate(existing.id);
+    } else {
+      await accountService.saveCandidate(candidate, cycle);
+    }
+    await queryClient.invalidateQueries({ queryKey });
+  };
+
+  return {
+    saved,
+    isSaved: (candidate: CandidateRecommendation) => !!savedFor(candidate),
+    toggle: userId ? toggle : undefined
+  };
+}
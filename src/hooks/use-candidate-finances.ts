@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { FecApiService } from '@/services/fec-api-service';
+import { CandidateFinances } from '@/types/finance';
+
+// Finance panels load on demand, so a missing key shouldn't toast for each one
+const fecApi = new FecApiService(() => {});
+
+/**
+ * FEC finances for a candidate, loaded when `enabled`. Only candidates with an
+ * FEC-based person id have any.
+ */
+export function useCandidateFinances(personId: string | undefined, cycle: number, enabled = true) {
+  const candidateId = personId?.startsWith('fec:') ? personId.slice(4) : undefined;
+
+  const query = useQuery({
+    queryKey: ['candidateFinances', candidateId, cycle],
+    queryFn: () => (candidateId ? fecApi.getCandidateFinances(candidateId, cycle) : null),
+    enabled: !!candidateId && enabled,
+    staleTime: 60 * 60 * 1000
+  });
+
+  return {
+    finances: query.data as CandidateFinances | null | undefined,
+    isLoading: query.isLoading,
+    error: query.error,
+    hasFinances: !!candidateId
+  };
+}
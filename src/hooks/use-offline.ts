@@ -1,26 +1,100 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useToast } from './use-toast';
 import {
   registerServiceWorker,
   checkInstallability,
+  onServiceWorkerMessage,
   promptInstall as promptInstallPWA,
   isInstalled,
 } from '../utils/service-worker';
+import { PrioritiesApiService } from '@/services/priorities-api-service';
+import { accountService } from '@/services/account';
+import { electionCalendar } from '@/services/elections';
+import { createAnalysisReplayer, offlineOutbox } from '@/services/offline';
 
 interface UseOfflineResult {
   isOffline: boolean;
   isInstallable: boolean;
   isInstalled: boolean;
+  // Analyses made offline that are waiting to be redone
+  queuedCount: number;
+  // Queued analyses that failed too often and are no longer retried
+  stalledCount: number;
   promptInstall: () => Promise<boolean>;
   syncData: () => Promise<void>;
+  retryStalled: () => Promise<void>;
+  discardStalled: () => Promise<void>;
 }
 
 export function useOffline(): UseOfflineResult {
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
   const [isInstallable, setIsInstallable] = useState(false);
   const [isAppInstalled, setIsAppInstalled] = useState(isInstalled());
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [stalledCount, setStalledCount] = useState(0);
   const { toast } = useToast();
 
+  const replayAnalysis = useMemo(() => {
+    const api = new PrioritiesApiService(toast);
+    return createAnalysisReplayer({
+      analyze: async (values) => {
+        const response = await api.mapPriorities(values, [], { queueIfOffline: false });
+        if (!response.ok || !response.data) throw new Error(response.error || 'Analysis failed');
+        return response.data;
+      },
+      // Signed-in voters get the refreshed result in their history too
+      record: async (data) => {
+        if (!(await accountService.currentUserId())) return;
+        const election = electionCalendar.contextFor({ zipCode: data.zipCode }, new Date(), data.mode);
+        await accountService.recordAnalysis(data, { cycle: election.cycle });
+      },
+    });
+  }, [toast]);
+
+  // Redo everything queued while offline, now that there is a connection.
+  // Resolves to how many items are still waiting to be retried.
+  const replayOutbox = useCallback(async () => {
+    if (navigator.onLine) {
+      const { replayed } = await offlineOutbox.replay(replayAnalysis);
+      if (replayed > 0) {
+        toast({
+          title: 'Results Updated',
+          description: `${replayed} ${replayed === 1 ? 'analysis' : 'analyses'} from while you were offline now use live data.`,
+        });
+      }
+    }
+    return (await offlineOutbox.list()).filter(item => !item.stalled).length;
+  }, [replayAnalysis, toast]);
+
+  useEffect(() => {
+    const refreshCount = () => {
+      offlineOutbox.list()
+        .then(items => {
+          setQueuedCount(items.filter(item => !item.stalled).length);
+          setStalledCount(items.filter(item => item.stalled).length);
+        })
+        .catch(error => console.warn('Could not read the offline queue:', error));
+    };
+    refreshCount();
+    const unsubscribe = offlineOutbox.subscribe(refreshCount);
+    // The service worker's background sync is retried while items are left
+    const stopListening = onServiceWorkerMessage((message, reply) => {
+      if (message.type !== 'replay-outbox') return;
+      replayOutbox()
+        .then(remaining => reply({ type: 'outbox-replayed', remaining }))
+        .catch(error => {
+          console.warn('Replaying the offline queue failed:', error);
+          reply({ type: 'outbox-replayed', failed: true });
+        });
+    });
+    // Anything left from an earlier session
+    void replayOutbox();
+    return () => {
+      unsubscribe();
+      stopListening();
+    };
+  }, [replayOutbox]);
+
   useEffect(() => {
     // Register service worker
     registerServiceWorker();
@@ -31,6 +105,8 @@ export function useOffline(): UseOfflineResult {
     // Listen for online/offline events
     const handleOnline = () => {
       setIsOffline(false);
+      // Browsers without Background Sync only learn about the connection here
+      void replayOutbox();
       toast({
         title: 'Back Online',
         variant: 'default',
@@ -43,7 +119,7 @@ export function useOffline(): UseOfflineResult {
       toast({
         title: 'You\'re Offline',
         variant: 'destructive',
-        children: 'Some features may be limited.',
+        children: 'Analyses will use your saved data and refresh when you reconnect.',
       });
     };
 
@@ -75,41 +151,39 @@ export function useOffline(): UseOfflineResult {
       window.removeEventListener('beforeinstallprompt', handleBeforeInstall);
       window.removeEventListener('appinstalled', handleAppInstalled);
     };
-  }, [toast]);
+  }, [toast, replayOutbox]);
 
-  // Function to trigger background sync
+  // Replay queued analyses now if online, otherwise as soon as the connection returns
   const syncData = async () => {
-    if (!navigator.serviceWorker || !('sync' in navigator.serviceWorker)) {
-      throw new Error('Service Worker or Background Sync not supported');
+    if (navigator.onLine) {
+      await replayOutbox();
+      return;
     }
 
-    const registration = await navigator.serviceWorker.ready;
-    if (!('sync' in registration)) {
-      throw new Error('Background Sync not supported');
-    }
+    const scheduled = await offlineOutbox.requestBackgroundSync();
+    toast({
+      title: 'Sync Scheduled',
+      variant: 'default',
+      children: scheduled
+        ? 'Your data will be synchronized when you\'re back online.'
+        : 'Your data will be synchronized the next time this page is online.',
+    });
+  };
 
-    try {
-      await registration.sync.register('sync-priorities');
-      toast({
-        title: 'Sync Scheduled',
-        variant: 'default',
-        children: 'Your data will be synchronized when you\'re back online.',
-      });
-    } catch (error) {
-      console.error('Failed to register sync:', error);
-      toast({
-        title: 'Sync Failed',
-        variant: 'destructive',
-        children: 'Unable to schedule data synchronization.',
-      });
-    }
+  const retryStalled = async () => {
+    await offlineOutbox.retryStalled();
+    await syncData();
   };
 
   return {
     isOffline,
     isInstallable,
     isInstalled: isAppInstalled,
+    queuedCount,
+    stalledCount,
     promptInstall: promptInstallPWA,
     syncData,
+    retryStalled,
+    discardStalled: () => offlineOutbox.discardStalled(),
   };
 }
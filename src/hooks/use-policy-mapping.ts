@@ -1,68 +1,53 @@
 import { useState, useCallback } from 'react';
-import { PolicyMapper } from '@/utils/policyMapper';
+import { mappingEngine } from '@/services/mapping-engine';
+import { MappedPriority, PolicyTermMatch } from '@/types/policy-mappings';
 
 interface PolicyMappingResult {
   originalInput: string;
-  mappedTerms: {
-    standardTerm: string;
-    confidence: number;
-    nuances: Record<string, number>;
-    contextualFactors: string[];
-    potentialConflicts: string[];
-  }[];
+  mappedTerms: PolicyTermMatch[];
   hasAmbiguity: boolean;
   hasConflict: boolean;
+  mapped: MappedPriority;
 }
 
 export function usePolicyMapping() {
   const [mappingResults, setMappingResults] = useState<PolicyMappingResult[]>([]);
-  const mapper = new PolicyMapper();
 
-  const mapPriorities = useCallback((
-    priorities: string[], 
-    context?: string[]
+  const mapPriorities = useCallback(async (
+    priorities: string[],
+    context: string[] = []
   ) => {
-    const results = priorities.map(priority => {
-      const mappedTerms = mapper.mapUserInput(priority, context);
-      
-      // Determine if there are ambiguities or conflicts
-      const hasAmbiguity = mappedTerms.some(term => 
-        term.confidence < 0.8 || // Low confidence mapping
-        term.contextualFactors.length > 1 // Multiple possible contexts
-      );
-      
-      const hasConflict = mappedTerms.some(term => 
-        term.potentialConflicts.length > 0 || // Explicit conflicts
-        mappedTerms.length > 1 // Multiple possible interpretations
-      );
+    const results = await Promise.all(priorities.map(async priority => {
+      const mapped = await mappingEngine.mapPriority(priority, { otherPriorities: context });
 
       return {
         originalInput: priority,
-        mappedTerms,
-        hasAmbiguity,
-        hasConflict
+        mappedTerms: mapped.matches || [],
+        // The best match is below the clarification threshold
+        hasAmbiguity: mapped.needsClarification,
+        // Clauses of the priority pulling against each other
+        hasConflict: (mapped.tensions || []).length > 0,
+        mapped
       };
-    });
+    }));
 
     setMappingResults(results);
     return results;
   }, []);
 
-  const getMappingSuggestions = useCallback((
+  const getMappingSuggestions = useCallback(async (
     priority: string,
-    context?: string[]
+    context: string[] = []
   ) => {
-    const mappedTerms = mapper.mapUserInput(priority, context);
-    
+    const mapped = await mappingEngine.mapPriority(priority, { otherPriorities: context });
+
     // Filter to high-confidence mappings
-    return mappedTerms
-      .filter(term => term.confidence > 0.7)
-      .map(term => ({
-        term: term.standardTerm,
-        confidence: term.confidence,
-        nuances: Object.entries(term.nuances)
-          .filter(([_, value]) => value > 0.7)
-          .map(([key]) => key)
+    return (mapped.matches || [])
+      .filter(match => match.confidence > 0.7)
+      .map(match => ({
+        term: match.standardTerm,
+        confidence: match.confidence,
+        stance: match.stance
       }));
   }, []);
 
@@ -161,10 +161,16 @@ export function usePrioritiesAnalysis(isOffline = false): PrioritiesAnalysisResu
             })),
             mappedPriorities: priorityAnalysis.mappedPriorities.map(mp => ({
               original: mp.original || mp.priority || filteredPriorities[0] || '',
+              priority: mp.priority,
               category: mp.category || 'Other',
               mappedTerms: mp.mappedTerms || [],
+              policyTerms: mp.policyTerms,
               sentiment: mp.sentiment || 'neutral',
-              confidence: mp.confidence || 0.5
+              confidence: mp.confidence || 0.5,
+              needsClarification: mp.needsClarification,
+              clarificationReason: mp.clarificationReason,
+              possibleTopics: mp.possibleTopics,
+              matches: mp.matches
             }))
           },
           recommendations: demoRecommendations
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { snapshotService } from '@/services/snapshots';
+import { SharedGuide } from '@/types/snapshots';
+
+/**
+ * A shared snapshot by link id; null once it is unknown, expired or revoked
+ */
+export function useSharedGuide(id: string | undefined) {
+  const query = useQuery({
+    queryKey: ['sharedGuide', id],
+    queryFn: () => (id ? snapshotService.load(id) : null),
+    enabled: !!id,
+    retry: false
+  });
+
+  return {
+    sharedGuide: query.data as SharedGuide | null | undefined,
+    isLoading: query.isLoading,
+    error: query.error
+  };
+}
@@ -2,9 +2,15 @@ import { useState, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { serviceFactory } from '../api/service-factory';
 import { APIError } from '../api/utils/api-error';
+import { ballotMeasureService } from '../services/ballot-measures';
+import { MappedPriority } from '../types/policy-mappings';
+import { SummarizedBallotMeasure } from '../types/ballot-measures';
+import { VoterRepresentatives } from '../api/services/civic-service';
 
 interface VoterInfoParams {
   zipCode?: string;
+  // Full street address, when the voter gave one
+  address?: string;
   state?: string;
   priorities?: string[];
 }
@@ -21,16 +27,21 @@ export function useVoterInfo(
   const queryClient = useQueryClient();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
-  // Fetch representatives by ZIP code
+  // Fetch representatives, and the voter's districts, by address or ZIP code
+  const representativesKey = ['representatives', params.zipCode, params.address];
   const representatives = useQuery({
-    queryKey: ['representatives', params.zipCode],
+    queryKey: representativesKey,
     queryFn: async () => {
-      if (!params.zipCode) return [];
-      return serviceFactory.getCivicService().getRepresentativesByZip(params.zipCode);
+      if (!params.zipCode) return null;
+      return serviceFactory.getCivicService().getRepresentativesForLocation({
+        zipCode: params.zipCode,
+        address: params.address,
+      });
     },
     enabled: !!params.zipCode && !!options.enabled,
     onError: options.onError,
   });
+  const voterRepresentatives = representatives.data as VoterRepresentatives | null | undefined;
 
   // Fetch candidates by state
   const candidates = useQuery({
@@ -68,8 +79,8 @@ export function useVoterInfo(
           .analyzePriorities(priorities);
 
         // Update representatives with alignment
-        if (representatives.data) {
-          const updatedReps = representatives.data.map((rep) => ({
+        if (voterRepresentatives) {
+          const updatedReps = voterRepresentatives.representatives.map((rep) => ({
             ...rep,
             issueAreas: Object.entries(analysis.mappings)
               .filter(([, terms]) =>
@@ -78,7 +89,7 @@ export function useVoterInfo(
               .map(([priority]) => priority),
             alignment: '⚠️', // Would need more data to determine alignment
           }));
-          queryClient.setQueryData(['representatives', params.zipCode], updatedReps);
+          queryClient.setQueryData(representativesKey, { ...voterRepresentatives, representatives: updatedReps });
         }
 
         // Update candidates with alignment
@@ -91,16 +102,19 @@ export function useVoterInfo(
           queryClient.setQueryData(['candidates', params.state], updatedCandidates);
         }
 
-        // Update ballot measures with user concern mapping
+        // Map ballot measures onto the voter's priorities
         if (ballotMeasures.data) {
-          const updatedMeasures = ballotMeasures.data.map((measure) => ({
-            ...measure,
-            userConcernMapping: Object.entries(analysis.mappings).find(([, terms]) =>
-              terms.some((term) =>
-                measure.description.toLowerCase().includes(term.toLowerCase())
-              )
-            )?.[0],
+          const mappedPriorities: MappedPriority[] = Object.entries(analysis.mappings).map(([priority, terms]) => ({
+            priority,
+            policyTerms: terms,
+            sentiment: 'neutral',
+            confidence: 1,
+            needsClarification: false
           }));
+          const updatedMeasures = await ballotMeasureService.mapConcerns(
+            ballotMeasures.data as SummarizedBallotMeasure[],
+            mappedPriorities
+          );
           queryClient.setQueryData(['ballotMeasures', params.state], updatedMeasures);
         }
 
@@ -142,7 +156,7 @@ export function useVoterInfo(
 
   return {
     representatives: {
-      data: representatives.data,
+      data: voterRepresentatives?.representatives,
       isLoading: representatives.isLoading,
       error: representatives.error,
     },
@@ -156,6 +170,8 @@ export function useVoterInfo(
       isLoading: ballotMeasures.isLoading,
       error: ballotMeasures.error,
     },
+    // Which districts the voter is in, and any the ZIP code left open
+    districts: voterRepresentatives?.districts,
     priorities: {
       analyze: analyzePriorities.mutate,
       isAnalyzing,
@@ -9,6 +9,131 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      analyses: {
+        Row: {
+          created_at: string
+          election_cycle: number
+          election_name: string | null
+          id: string
+          mode: string
+          priorities_id: string | null
+          result: Json
+          user_id: string
+          zip_code: string
+        }
+        Insert: {
+          created_at?: string
+          election_cycle: number
+          election_name?: string | null
+          id?: string
+          mode: string
+          priorities_id?: string | null
+          result: Json
+          user_id?: string
+          zip_code: string
+        }
+        Update: {
+          created_at?: string
+          election_cycle?: number
+          election_name?: string | null
+          id?: string
+          mode?: string
+          priorities_id?: string | null
+          result?: Json
+          user_id?: string
+          zip_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analyses_priorities_id_fkey"
+            columns: ["priorities_id"]
+            isOneToOne: false
+            referencedRelation: "priorities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learned_mappings: {
+        Row: {
+          clarified_term: string
+          confidence: number
+          created_at: string
+          id: string
+          issue_id: string
+          issue_name: string
+          last_used_at: string
+          original_term: string
+          scope: string
+          status: string
+          usage_count: number
+          user_id: string | null
+        }
+        Insert: {
+          clarified_term: string
+          confidence?: number
+          created_at?: string
+          id: string
+          issue_id: string
+          issue_name: string
+          last_used_at?: string
+          original_term: string
+          scope: string
+          status?: string
+          usage_count?: number
+          user_id?: string | null
+        }
+        Update: {
+          clarified_term?: string
+          confidence?: number
+          created_at?: string
+          id?: string
+          issue_id?: string
+          issue_name?: string
+          last_used_at?: string
+          original_term?: string
+          scope?: string
+          status?: string
+          usage_count?: number
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      priorities: {
+        Row: {
+          created_at: string
+          id: string
+          mapped_priorities: Json
+          name: string
+          priorities: string[]
+          set_id: string
+          user_id: string
+          version: number
+          zip_code: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          mapped_priorities?: Json
+          name?: string
+          priorities: string[]
+          set_id: string
+          user_id?: string
+          version: number
+          zip_code?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          mapped_priorities?: Json
+          name?: string
+          priorities?: string[]
+          set_id?: string
+          user_id?: string
+          version?: number
+          zip_code?: string | null
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
@@ -33,12 +158,276 @@ export type Database = {
         }
         Relationships: []
       }
+      published_measures: {
+        Row: {
+          election_date: string | null
+          first_seen_at: string
+          id: string
+          state: string
+          title: string
+          url: string | null
+        }
+        Insert: {
+          election_date?: string | null
+          first_seen_at?: string
+          id: string
+          state: string
+          title: string
+          url?: string | null
+        }
+        Update: {
+          election_date?: string | null
+          first_seen_at?: string
+          id?: string
+          state?: string
+          title?: string
+          url?: string | null
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          categories: string[]
+          created_at: string
+          district: string | null
+          endpoint: string
+          id: string
+          p256dh: string
+          state: string | null
+          updated_at: string
+          user_id: string | null
+          zip_code: string
+        }
+        Insert: {
+          auth: string
+          categories?: string[]
+          created_at?: string
+          district?: string | null
+          endpoint: string
+          id?: string
+          p256dh: string
+          state?: string | null
+          updated_at?: string
+          user_id?: string | null
+          zip_code: string
+        }
+        Update: {
+          auth?: string
+          categories?: string[]
+          created_at?: string
+          district?: string | null
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          state?: string | null
+          updated_at?: string
+          user_id?: string | null
+          zip_code?: string
+        }
+        Relationships: []
+      }
+      reminder_deliveries: {
+        Row: {
+          reminder_key: string
+          sent_at: string
+          subscription_id: string
+        }
+        Insert: {
+          reminder_key: string
+          sent_at?: string
+          subscription_id: string
+        }
+        Update: {
+          reminder_key?: string
+          sent_at?: string
+          subscription_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_deliveries_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "push_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_candidates: {
+        Row: {
+          created_at: string
+          election_cycle: number
+          id: string
+          name: string
+          notes: string | null
+          office: string
+          party: string | null
+          person_key: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          election_cycle: number
+          id?: string
+          name: string
+          notes?: string | null
+          office: string
+          party?: string | null
+          person_key: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          election_cycle?: number
+          id?: string
+          name?: string
+          notes?: string | null
+          office?: string
+          party?: string | null
+          person_key?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      shared_guides: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          privacy: string
+          revoke_token_hash: string
+          revoked_at: string | null
+          snapshot: Json
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id: string
+          privacy: string
+          revoke_token_hash: string
+          revoked_at?: string | null
+          snapshot: Json
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          privacy?: string
+          revoke_token_hash?: string
+          revoked_at?: string | null
+          snapshot?: Json
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      terminology_terms: {
+        Row: {
+          category: string
+          date_added: string
+          id: string
+          mapped_policies: string[]
+          merged_into: string | null
+          merged_into_term_key: string | null
+          review_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          source_inputs: string[]
+          status: string
+          synonyms: string[]
+          term: string
+          term_key: string
+          updated_at: string
+        }
+        Insert: {
+          category?: string
+          date_added?: string
+          id?: string
+          mapped_policies?: string[]
+          merged_into?: string | null
+          merged_into_term_key?: string | null
+          review_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source_inputs?: string[]
+          status?: string
+          synonyms?: string[]
+          term: string
+          term_key?: never
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          date_added?: string
+          id?: string
+          mapped_policies?: string[]
+          merged_into?: string | null
+          merged_into_term_key?: string | null
+          review_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source_inputs?: string[]
+          status?: string
+          synonyms?: string[]
+          term?: string
+          term_key?: never
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      delete_push_subscription: {
+        Args: {
+          endpoint: string
+        }
+        Returns: boolean
+      }
+      get_push_subscription: {
+        Args: {
+          endpoint: string
+        }
+        Returns: {
+          categories: string[]
+          created_at: string
+          zip_code: string
+        }[]
+      }
+      get_shared_guide: {
+        Args: {
+          guide_id: string
+        }
+        Returns: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          privacy: string
+          snapshot: Json
+        }[]
+      }
+      revoke_shared_guide: {
+        Args: {
+          guide_id: string
+          token?: string
+        }
+        Returns: boolean
+      }
+      save_push_subscription: {
+        Args: {
+          auth: string
+          categories?: string[]
+          district?: string
+          endpoint: string
+          p256dh: string
+          state?: string
+          zip_code: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
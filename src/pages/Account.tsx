@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import Navbar from '../components/Navbar';
+import { PriorityDiffView } from '../components/account/PriorityDiffView';
+import { PrioritySetCard } from '../components/account/PrioritySetCard';
+import { VoterGuideView } from '../components/VoterGuideView';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthUser } from '@/hooks/use-account';
+import { useMode } from '@/contexts/ModeContext';
+import { supabase } from '@/integrations/supabase/client';
+import { accountService, compareToLastElection } from '@/services/account';
+import { buildVoterGuide } from '@/services/voter-guide';
+import { SavedAnalysis, SavedCandidate, SavedPriorities } from '@/types/account';
+import { toDashboardData } from '@/utils/dashboardData';
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const byCycle = <T extends { cycle: number }>(items: T[]) =>
+  items.reduce<Record<number, T[]>>((groups, item) => {
+    groups[item.cycle] = [...(groups[item.cycle] || []), item];
+    return groups;
+  }, {});
+
+const newestCycleFirst = (groups: Record<number, unknown>) =>
+  Object.keys(groups).map(Number).sort((a, b) => b - a);
+
+const Account = () => {
+  const { userId, isLoading: isAuthLoading } = useAuthUser();
+  const { election } = useMode();
+  const [openAnalysis, setOpenAnalysis] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const profile = useQuery({ queryKey: ['account', userId, 'profile'], queryFn: () => accountService.profile(), enabled: !!userId });
+  const sets = useQuery({ queryKey: ['account', userId, 'prioritySets'], queryFn: () => accountService.listPrioritySets(), enabled: !!userId });
+  const analyses = useQuery({ queryKey: ['account', userId, 'analyses'], queryFn: () => accountService.listAnalyses(), enabled: !!userId });
+  const candidates = useQuery({ queryKey: ['account', userId, 'savedCandidates'], queryFn: () => accountService.listSavedCandidates(), enabled: !!userId });
+
+  const prioritySets = (sets.data as SavedPriorities[] | undefined) || [];
+  const history = (analyses.data as SavedAnalysis[] | undefined) || [];
+  const savedCandidates = (candidates.data as SavedCandidate[] | undefined) || [];
+  const comparison = compareToLastElection(history, election.cycle);
+  const historyByCycle = byCycle(history);
+  const candidatesByCycle = byCycle(savedCandidates);
+
+  const runAndRefresh = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: ['account', userId] });
+    } catch (error) {
+      console.error(failure, error);
+      toast({ title: "Error", description: `${failure} Please try again.`, variant: "destructive" });
+    }
+  };
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+    navigate('/');
+  };
+
+  const renderBody = () => {
+    if (isAuthLoading) return <Loader2 className="h-8 w-8 animate-spin text-gray-400 mx-auto" />;
+
+    if (!userId) {
+      return (
+        <div className="text-center py-8">
+          <p className="text-gray-600 mb-4">Sign in to save your priorities, past results and candidates.</p>
+          <Button asChild>
+            <Link to="/auth">Sign in</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-8">
+        <div className="flex items-center justify-between">
+          <p className="text-gray-600">{profile.data?.username || profile.data?.email || 'Signed in'}</p>
+          <Button variant="outline" size="sm" onClick={handleSignOut}>Sign out</Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Compared with the last election</CardTitle>
+            <CardDescription>
+              {comparison
+                ? `Your latest ${comparison.current.cycle} results against ${comparison.previous.electionName || `your ${comparison.previous.cycle} results`}`
+                : `Save results in two election cycles to see how your priorities have moved.`}
+            </CardDescription>
+          </CardHeader>
+          {comparison && (
+            <CardContent>
+              <PriorityDiffView diff={comparison.diff} />
+            </CardContent>
+          )}
+        </Card>
+
+        <section className="space-y-3">
+          <h2 className="text-2xl font-semibold">Saved priorities</h2>
+          {sets.isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+          {!sets.isLoading && prioritySets.length === 0 && (
+            <p className="text-sm text-gray-500">Use "Save to account" on your recommendations to keep your priorities here.</p>
+          )}
+          {prioritySets.map(set => (
+            <PrioritySetCard
+              key={set.setId}
+              latest={set}
+              onDelete={setId => runAndRefresh(() => accountService.deletePrioritySet(setId), "Couldn't delete these priorities.")}
+            />
+          ))}
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-2xl font-semibold">History</h2>
+          {!analyses.isLoading && history.length === 0 && (
+            <p className="text-sm text-gray-500">No saved results yet.</p>
+          )}
+          {newestCycleFirst(historyByCycle).map(cycle => (
+            <div key={cycle} className="space-y-2">
+              <h3 className="text-lg font-medium">{cycle} election cycle</h3>
+              {historyByCycle[cycle].map(analysis => (
+                <Card key={analysis.id}>
+                  <CardHeader className="py-3 px-4">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="text-base">
+                          {analysis.electionName || (analysis.mode === 'demo' ? 'Practice run' : 'Current election')}
+                        </CardTitle>
+                        <CardDescription>
+                          {formatDate(analysis.createdAt)} · ZIP {analysis.zipCode} · {analysis.result.analysis.priorities.join(', ')}
+                        </CardDescription>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => setOpenAnalysis(openAnalysis === analysis.id ? null : analysis.id)}>
+                          {openAnalysis === analysis.id ? 'Hide' : 'View'}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => runAndRefresh(() => accountService.deleteAnalysis(analysis.id), "Couldn't delete this result.")}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  {openAnalysis === analysis.id && (
+                    <CardContent className="px-4">
+                      <VoterGuideView
+                        guide={buildVoterGuide(toDashboardData(analysis.result), { generatedAt: new Date(analysis.createdAt) })}
+                      />
+                    </CardContent>
+                  )}
+                </Card>
+              ))}
+            </div>
+          ))}
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-2xl font-semibold">Saved candidates</h2>
+          {!candidates.isLoading && savedCandidates.length === 0 && (
+            <p className="text-sm text-gray-500">Save candidates from the candidate table to keep them here.</p>
+          )}
+          {newestCycleFirst(candidatesByCycle).map(cycle => (
+            <div key={cycle} className="space-y-2">
+              <h3 className="text-lg font-medium">{cycle} election cycle</h3>
+              <ul className="space-y-2">
+                {candidatesByCycle[cycle].map(candidate => (
+                  <li key={candidate.id} className="flex items-center justify-between gap-2 border rounded-md px-3 py-2">
+                    <span>
+                      <span className="font-medium">{candidate.name}</span>
+                      <span className="text-sm text-gray-500"> · {candidate.office}{candidate.party ? ` · ${candidate.party}` : ''}</span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => runAndRefresh(() => accountService.removeCandidate(candidate.id), "Couldn't remove this candidate.")}
+                    >
+                      Remove
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </section>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50">
+      <Navbar />
+
+      <div className="container mx-auto px-4 pt-16 pb-8">
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-4xl font-bold text-center mb-8 animate-fade-up">
+            My Account
+          </h1>
+
+          {renderBody()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Account;
@@ -1,19 +1,37 @@
 
 import Navbar from '../components/Navbar';
 import DebugTool from '../components/DebugTool';
+import MappingEvaluationPanel from '../components/MappingEvaluationPanel';
+import TermMiningPanel from '../components/TermMiningPanel';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 const Debug = () => {
   return (
     <div className="min-h-screen bg-gradient-to-b from-white to-gray-50">
       <Navbar />
-      
+
       <div className="container mx-auto px-4 pt-16 pb-8">
         <div className="max-w-4xl mx-auto">
           <h1 className="text-4xl font-bold text-center mb-8 animate-fade-up">
             Terminology Debug Tool
           </h1>
-          
-          <DebugTool />
+
+          <Tabs defaultValue="terminology">
+            <TabsList className="mb-4">
+              <TabsTrigger value="terminology">Terminology</TabsTrigger>
+              <TabsTrigger value="evaluation">Mapping accuracy</TabsTrigger>
+              <TabsTrigger value="mining">Term mining</TabsTrigger>
+            </TabsList>
+            <TabsContent value="terminology">
+              <DebugTool />
+            </TabsContent>
+            <TabsContent value="evaluation">
+              <MappingEvaluationPanel />
+            </TabsContent>
+            <TabsContent value="mining">
+              <TermMiningPanel />
+            </TabsContent>
+          </Tabs>
         </div>
       </div>
     </div>
@@ -1,12 +1,14 @@
 import Navbar from '../components/Navbar';
 import { VoterFormContainer } from '@/components/VoterFormContainer';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { VoterFormValues } from '@/schemas/voterFormSchema';
 import { Button } from '@/components/ui/button';
 import { Link } from 'react-router-dom';
 import { RecommendationsData, Recommendations } from '@/types/api';
 import { useToast } from '@/hooks/use-toast';
 import { useMode } from '@/contexts/ModeContext';
+import { usePriorityLearning } from '@/hooks/use-account';
+import { loadReviewedTerms } from '@/services/mapping-engine';
 import { DebugPanel } from '@/components/DebugPanel';
 import { Bug } from 'lucide-react';
 import { ErrorBoundary } from 'react-error-boundary';
@@ -18,6 +20,11 @@ const Index = () => {
   const [showDebugPanel, setShowDebugPanel] = useState(false);
   const { toast } = useToast();
   const { mode } = useMode();
+  usePriorityLearning();
+
+  useEffect(() => {
+    loadReviewedTerms();
+  }, []);
   
   const handleSubmit = async (values: VoterFormValues) => {
     setIsLoading(true);
@@ -187,6 +194,9 @@ const Index = () => {
               >
                 <Bug className="h-4 w-4" />
               </Button>
+              <Link to="/account">
+                <Button variant="outline">My Account</Button>
+              </Link>
               <Link to="/test/mapping">
                 <Button variant="outline" className="flex items-center gap-2">
                   Test Priority Mapping
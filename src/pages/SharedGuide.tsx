@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { FileDown, Loader2 } from 'lucide-react';
+import Navbar from '../components/Navbar';
+import { VoterGuideView } from '../components/VoterGuideView';
+import { Button } from '@/components/ui/button';
+import { useSharedGuide } from '@/hooks/use-shared-guide';
+import { electionCalendar } from '@/services/elections';
+import { buildVoterGuide, guideFileName, renderGuidePdf } from '@/services/voter-guide';
+import { toDashboardData } from '@/utils/dashboardData';
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+/**
+ * Public, read-only view of a shared snapshot. Nothing is re-analyzed: the
+ * guide is laid out from the stored recommendations as they were shared.
+ */
+const SharedGuide = () => {
+  const { id } = useParams<{ id: string }>();
+  const { sharedGuide, isLoading, error } = useSharedGuide(id);
+
+  const guide = useMemo(() => {
+    if (!sharedGuide) return null;
+    const { snapshot } = sharedGuide;
+    const election = electionCalendar.contextFor({ zipCode: snapshot.zipCode }, new Date(), snapshot.mode);
+    return buildVoterGuide(toDashboardData(snapshot), { election, generatedAt: new Date(sharedGuide.createdAt) });
+  }, [sharedGuide]);
+
+  const handleSavePDF = () => {
+    if (guide) renderGuidePdf(guide).save(guideFileName(guide, 'pdf'));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50">
+      <Navbar />
+
+      <div className="container mx-auto px-4 pt-16 pb-8">
+        <div className="max-w-4xl mx-auto">
+          {isLoading && (
+            <div className="flex justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+            </div>
+          )}
+
+          {!isLoading && (error || !guide) && (
+            <div className="text-center py-16">
+              <h1 className="text-3xl font-bold mb-4">This guide isn't available</h1>
+              <p className="text-gray-600 mb-6">
+                {error
+                  ? "We couldn't load this shared guide. Please try again later."
+                  : 'The link may have expired, or the person who shared it turned it off.'}
+              </p>
+              <Link to="/" className="text-blue-500 hover:text-blue-700 underline">
+                Build your own voter guide
+              </Link>
+            </div>
+          )}
+
+          {guide && sharedGuide && (
+            <>
+              <div className="text-center mb-8 animate-fade-up">
+                <h1 className="text-4xl font-bold mb-2">{guide.title}</h1>
+                <p className="text-gray-600">{guide.subtitle}</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  Shared {formatDate(sharedGuide.createdAt)}
+                  {sharedGuide.expiresAt ? ` · Link expires ${formatDate(sharedGuide.expiresAt)}` : ''}
+                </p>
+                <Button variant="outline" size="sm" className="mt-4 inline-flex items-center gap-1" onClick={handleSavePDF}>
+                  <FileDown className="h-4 w-4" /> Save as PDF
+                </Button>
+              </div>
+
+              <VoterGuideView guide={guide} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedGuide;
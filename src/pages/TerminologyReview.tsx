@@ -0,0 +1,23 @@
+
+import Navbar from '../components/Navbar';
+import TerminologyReviewQueue from '../components/TerminologyReviewQueue';
+
+const TerminologyReview = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50">
+      <Navbar />
+      
+      <div className="container mx-auto px-4 pt-16 pb-8">
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-4xl font-bold text-center mb-8 animate-fade-up">
+            Terminology Review
+          </h1>
+          
+          <TerminologyReviewQueue />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TerminologyReview;
@@ -9,6 +9,11 @@ export const VoterFormSchema = z.object({
     .min(5, 'ZIP code must be at least 5 characters')
     .max(10, 'ZIP code must not exceed 10 characters')
     .optional(),
+  // Optional street address; settles districts a ZIP code straddles
+  address: z
+    .string()
+    .max(200, 'Address must not exceed 200 characters')
+    .optional(),
   priorities: z
     .array(
       z
@@ -16,6 +21,8 @@ export const VoterFormSchema = z.object({
     )
     .min(1, 'At least one priority is required')
     .optional(),
+  // Language for the results; priorities may be typed in any supported language
+  language: z.enum(['en', 'es'] as const).optional(),
 });
 
 export type VoterFormValues = z.infer<typeof VoterFormSchema>;
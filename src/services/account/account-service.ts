@@ -0,0 +1,236 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+import { RecommendationsData } from '@/types/api';
+import { Mode } from '@/types/mode';
+import { CandidateRecommendation } from '@/types/recommendations';
+import {
+  SavedAnalysis,
+  SavedCandidate,
+  SavedMappedPriority,
+  SavedPriorities,
+  SavePrioritiesInput
+} from '@/types/account';
+
+type Tables = Database['public']['Tables'];
+type PrioritiesRow = Tables['priorities']['Row'];
+type AnalysisRow = Tables['analyses']['Row'];
+type SavedCandidateRow = Tables['saved_candidates']['Row'];
+
+const DEFAULT_SET_NAME = 'My priorities';
+
+const fromPrioritiesRow = (row: PrioritiesRow): SavedPriorities => ({
+  id: row.id,
+  setId: row.set_id,
+  version: row.version,
+  name: row.name,
+  priorities: row.priorities,
+  mappedPriorities: row.mapped_priorities as unknown as SavedMappedPriority[],
+  zipCode: row.zip_code || undefined,
+  createdAt: row.created_at
+});
+
+const fromAnalysisRow = (row: AnalysisRow): SavedAnalysis => ({
+  id: row.id,
+  prioritiesId: row.priorities_id || undefined,
+  cycle: row.election_cycle,
+  electionName: row.election_name || undefined,
+  mode: row.mode as Mode,
+  zipCode: row.zip_code,
+  result: row.result as unknown as RecommendationsData,
+  createdAt: row.created_at
+});
+
+const fromSavedCandidateRow = (row: SavedCandidateRow): SavedCandidate => ({
+  id: row.id,
+  personKey: row.person_key,
+  name: row.name,
+  office: row.office,
+  party: row.party || undefined,
+  cycle: row.election_cycle,
+  notes: row.notes || undefined,
+  createdAt: row.created_at
+});
+
+/**
+ * Bookmarks are keyed by canonical person id, so the same candidate found
+ * through FEC or Civic data is saved once
+ */
+export const candidateKey = (candidate: Pick<CandidateRecommendation, 'personId' | 'office' | 'name'>) =>
+  candidate.personId || `${candidate.office}:${candidate.name}`.toLowerCase();
+
+/**
+ * Priorities, analysis history and bookmarked candidates for the signed-in
+ * voter. Row level security keeps every query to the voter's own rows.
+ */
+export class AccountService {
+  constructor(private client: SupabaseClient<Database> = supabase) {}
+
+  async currentUserId(): Promise<string | null> {
+    const { data } = await this.client.auth.getSession();
+    return data.session?.user.id || null;
+  }
+
+  private async requireUserId(): Promise<string> {
+    const userId = await this.currentUserId();
+    if (!userId) throw new Error('Sign in to save to your account');
+    return userId;
+  }
+
+  async profile(): Promise<{ email: string; username: string } | null> {
+    const userId = await this.currentUserId();
+    if (!userId) return null;
+    const { data, error } = await this.client.from('profiles').select('email, username').eq('id', userId).maybeSingle();
+    if (error) throw new Error(`Failed to load profile: ${error.message}`);
+    return data;
+  }
+
+  /**
+   * Save the priorities as the next version of their set, or as version 1 of a
+   * new set when `setId` is left out
+   */
+  async savePriorities(input: SavePrioritiesInput): Promise<SavedPriorities> {
+    const userId = await this.requireUserId();
+    const setId = input.setId || crypto.randomUUID();
+    const previous = input.setId ? (await this.priorityVersions(input.setId))[0] : undefined;
+
+    const { data, error } = await this.client
+      .from('priorities')
+      .insert({
+        user_id: userId,
+        set_id: setId,
+        version: (previous?.version || 0) + 1,
+        name: input.name || previous?.name || DEFAULT_SET_NAME,
+        priorities: input.priorities,
+        mapped_priorities: (input.mappedPriorities || []) as unknown as Json,
+        zip_code: input.zipCode || null
+      })
+      .select()
+      .single();
+    if (error) throw new Error(`Failed to save priorities: ${error.message}`);
+    return fromPrioritiesRow(data);
+  }
+
+  /**
+   * Versions of one set, newest first
+   */
+  async priorityVersions(setId: string): Promise<SavedPriorities[]> {
+    const { data, error } = await this.client
+      .from('priorities')
+      .select('*')
+      .eq('set_id', setId)
+      .order('version', { ascending: false });
+    if (error) throw new Error(`Failed to load priority versions: ${error.message}`);
+    return (data || []).map(fromPrioritiesRow);
+  }
+
+  /**
+   * The latest version of each saved set, most recently saved first
+   */
+  async listPrioritySets(): Promise<SavedPriorities[]> {
+    const { data, error } = await this.client
+      .from('priorities')
+      .select('*')
+      .order('created_at', { ascending: false });
+    if (error) throw new Error(`Failed to load saved priorities: ${error.message}`);
+
+    const latest = new Map<string, SavedPriorities>();
+    for (const row of data || []) {
+      if (!latest.has(row.set_id)) latest.set(row.set_id, fromPrioritiesRow(row));
+    }
+    return [...latest.values()];
+  }
+
+  async deletePrioritySet(setId: string): Promise<void> {
+    const { error } = await this.client.from('priorities').delete().eq('set_id', setId);
+    if (error) throw new Error(`Failed to delete saved priorities: ${error.message}`);
+  }
+
+  /**
+   * File an analysis under its election cycle. The street address stays out
+   * of the account.
+   */
+  async recordAnalysis(
+    data: RecommendationsData,
+    election: { cycle: number; name?: string },
+    prioritiesId?: string
+  ): Promise<SavedAnalysis> {
+    const userId = await this.requireUserId();
+    const result: RecommendationsData = {
+      ...data,
+      districts: data.districts && { ...data.districts, address: undefined },
+      error: undefined
+    };
+
+    const { data: row, error } = await this.client
+      .from('analyses')
+      .insert({
+        user_id: userId,
+        priorities_id: prioritiesId || null,
+        election_cycle: election.cycle,
+        election_name: election.name || null,
+        mode: data.mode,
+        zip_code: data.zipCode,
+        result: result as unknown as Json
+      })
+      .select()
+      .single();
+    if (error) throw new Error(`Failed to save analysis: ${error.message}`);
+    return fromAnalysisRow(row);
+  }
+
+  /**
+   * Past analyses, newest first, optionally for one cycle
+   */
+  async listAnalyses(cycle?: number): Promise<SavedAnalysis[]> {
+    let request = this.client.from('analyses').select('*');
+    if (cycle !== undefined) request = request.eq('election_cycle', cycle);
+
+    const { data, error } = await request.order('created_at', { ascending: false });
+    if (error) throw new Error(`Failed to load analysis history: ${error.message}`);
+    return (data || []).map(fromAnalysisRow);
+  }
+
+  async deleteAnalysis(id: string): Promise<void> {
+    const { error } = await this.client.from('analyses').delete().eq('id', id);
+    if (error) throw new Error(`Failed to delete analysis: ${error.message}`);
+  }
+
+  async saveCandidate(candidate: CandidateRecommendation, cycle: number, notes?: string): Promise<SavedCandidate> {
+    const userId = await this.requireUserId();
+    const { data, error } = await this.client
+      .from('saved_candidates')
+      .upsert(
+        {
+          user_id: userId,
+          person_key: candidateKey(candidate),
+          name: candidate.name,
+          office: candidate.office,
+          party: candidate.party || null,
+          election_cycle: cycle,
+          notes: notes || null
+        },
+        { onConflict: 'user_id,person_key,election_cycle' }
+      )
+      .select()
+      .single();
+    if (error) throw new Error(`Failed to save candidate: ${error.message}`);
+    return fromSavedCandidateRow(data);
+  }
+
+  async removeCandidate(id: string): Promise<void> {
+    const { error } = await this.client.from('saved_candidates').delete().eq('id', id);
+    if (error) throw new Error(`Failed to remove saved candidate: ${error.message}`);
+  }
+
+  async listSavedCandidates(cycle?: number): Promise<SavedCandidate[]> {
+    let request = this.client.from('saved_candidates').select('*');
+    if (cycle !== undefined) request = request.eq('election_cycle', cycle);
+
+    const { data, error } = await request.order('created_at', { ascending: false });
+    if (error) throw new Error(`Failed to load saved candidates: ${error.message}`);
+    return (data || []).map(fromSavedCandidateRow);
+  }
+}
+
+export const accountService = new AccountService();
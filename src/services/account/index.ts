@@ -0,0 +1,2 @@
+export { AccountService, accountService, candidateKey } from './account-service';
+export { compareToLastElection, diffPriorities, termsOf } from './priority-diff';
@@ -0,0 +1,62 @@
+import { PriorityDiff, SavedAnalysis, SavedMappedPriority } from '@/types/account';
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Distinct policy terms across mapped priorities, in first-seen order
+ */
+export function termsOf(mappedPriorities: SavedMappedPriority[]): string[] {
+  const terms = mappedPriorities.flatMap(mapped => mapped.policyTerms || mapped.mappedTerms || []);
+  return [...new Set(terms)];
+}
+
+/**
+ * Split two lists into added, removed and kept, ignoring case and spacing.
+ * Kept items use the newer wording.
+ */
+function diffLists(before: string[], after: string[]) {
+  const beforeKeys = new Set(before.map(normalize));
+  const afterKeys = new Set(after.map(normalize));
+  return {
+    added: after.filter(item => !beforeKeys.has(normalize(item))),
+    removed: before.filter(item => !afterKeys.has(normalize(item))),
+    kept: after.filter(item => beforeKeys.has(normalize(item)))
+  };
+}
+
+export function diffPriorities(
+  before: { priorities: string[]; mappedPriorities: SavedMappedPriority[] },
+  after: { priorities: string[]; mappedPriorities: SavedMappedPriority[] }
+): PriorityDiff {
+  const priorities = diffLists(before.priorities, after.priorities);
+  const terms = diffLists(termsOf(before.mappedPriorities), termsOf(after.mappedPriorities));
+  return {
+    ...priorities,
+    termsAdded: terms.added,
+    termsRemoved: terms.removed,
+    termsKept: terms.kept
+  };
+}
+
+const analysisPriorities = (analysis: SavedAnalysis) => ({
+  priorities: analysis.result.analysis.priorities,
+  mappedPriorities: analysis.result.analysis.mappedPriorities
+});
+
+/**
+ * The newest analysis for `cycle` against the newest from any earlier cycle,
+ * or null until the voter has one of each
+ */
+export function compareToLastElection(
+  analyses: SavedAnalysis[],
+  cycle: number
+): { previous: SavedAnalysis; current: SavedAnalysis; diff: PriorityDiff } | null {
+  const newestFirst = [...analyses].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const current = newestFirst.find(analysis => analysis.cycle === cycle);
+  const previous = newestFirst
+    .filter(analysis => analysis.cycle < cycle)
+    .sort((a, b) => b.cycle - a.cycle)[0];
+  if (!current || !previous) return null;
+
+  return { previous, current, diff: diffPriorities(analysisPriorities(previous), analysisPriorities(current)) };
+}
@@ -1,148 +1,111 @@
 // This service handles sending unmapped user inputs to an external AI service
 // for clarification and suggestion generation
 
+import { ClarificationInterpretation } from '@/types/clarification';
+import { createAppLlmClient, LlmClient, llmClient, LlmError, setLlmApiKey } from './llm';
+
 interface ClarificationResponse {
   suggestedQuestion: string;
   possibleTopics: string[];
   confidence: number;
 }
 
+export interface InterpretationResponse {
+  question: string;
+  interpretations: ClarificationInterpretation[];
+}
+
+/**
+ * A question the voter already answered, as the model sees it
+ */
+export interface AnsweredQuestion {
+  question: string;
+  answer: string;
+}
+
+// Most interpretations offered in one question
+export const MAX_INTERPRETATIONS = 4;
+
 export class AIClarificationService {
-  private apiKey: string | null = null;
-  private endpoint: string = 'https://api.openai.com/v1/chat/completions';
+  private client: LlmClient;
   
-  constructor(apiKey?: string) {
-    if (apiKey) {
-      this.apiKey = apiKey;
-    } else {
-      // Try to get from environment
-      this.apiKey = import.meta.env.VITE_OPENAI_API_KEY || null;
-    }
+  constructor(apiKey?: string, client?: LlmClient) {
+    // A caller's own key gets its own client; otherwise share the app-wide one
+    this.client = client || (apiKey ? createAppLlmClient(apiKey) : llmClient);
   }
   
   /**
    * Set the API key for the service
    */
   setApiKey(apiKey: string): void {
-    this.apiKey = apiKey;
+    setLlmApiKey(apiKey, this.client);
   }
   
   /**
-   * Check if the service is configured with an API key
+   * Check if the service can reach a live model
    */
   isConfigured(): boolean {
-    return !!this.apiKey;
+    return this.client.isLive();
   }
   
   /**
    * Get clarification for an unmapped user input
-   * This will call the external AI API to generate a clarification question
+   * This asks the language model (or a recorded fixture) for a clarification question
    */
   async getClarification(userInput: string): Promise<ClarificationResponse> {
-    if (!this.apiKey) {
-      // If no API key, return a default response
-      return this.getDefaultClarification(userInput);
-    }
-    
     try {
-      const response = await fetch(this.endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          model: 'gpt-4',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a helpful assistant that helps clarify political priorities. 
-              When given a statement that is unclear or doesn't match standard policy topics, 
-              generate a clarification question in the format "Do you mean - [specific policy topic]?" 
-              Also suggest 2-3 possible policy topics this might relate to. Keep your response brief and focused.`
-            },
-            {
-              role: 'user',
-              content: `The user said: "${userInput}". 
-              This doesn't clearly match our standard policy topics. 
-              Generate a clarification question and suggest possible policy topics.`
-            }
-          ],
-          temperature: 0.7,
-          max_tokens: 150
-        })
-      });
-      
-      const data = await response.json();
-      
-      if (data.error) {
-        console.error('Error from OpenAI API:', data.error);
-        return this.getDefaultClarification(userInput);
-      }
-      
-      const aiResponse = data.choices[0].message.content;
-      
-      // Parse the AI response to extract the question and topics
-      return this.parseAIResponse(aiResponse, userInput);
+      const response = await this.client.runJson<Omit<ClarificationResponse, 'confidence'>>(
+        'clarify-priority',
+        { input: userInput }
+      );
       
+      return {
+        suggestedQuestion: response.suggestedQuestion || this.getDefaultClarification(userInput).suggestedQuestion,
+        possibleTopics: response.possibleTopics?.length ? response.possibleTopics.slice(0, 3) : this.generateDefaultTopics(userInput),
+        confidence: 0.5 // Medium confidence for AI-generated suggestions
+      };
     } catch (error) {
-      console.error('Error calling AI service:', error);
+      // Offline with nothing recorded for this input is expected, not an error
+      if (!(error instanceof LlmError && error.code === 'fixture_missing')) {
+        console.error('Error calling AI service:', error);
+      }
       return this.getDefaultClarification(userInput);
     }
   }
   
   /**
-   * Parse the AI response to extract the clarification question and possible topics
+   * Ask for the next clarification question with ranked interpretations.
+   * Returns null when no model (or recorded fixture) can answer, so callers
+   * fall back to the mapping engine's own candidates.
    */
-  private parseAIResponse(aiResponse: string, originalInput: string): ClarificationResponse {
-    // Default values
-    let suggestedQuestion = `Do you mean - something related to ${originalInput}?`;
-    const possibleTopics: string[] = [];
-    
+  async getInterpretations(
+    userInput: string,
+    previousTurns: AnsweredQuestion[] = []
+  ): Promise<InterpretationResponse | null> {
     try {
-      // Try to extract the question (should be in format "Do you mean - ...?")
-      const questionMatch = aiResponse.match(/Do you mean - [^?]+\?/i);
-      if (questionMatch) {
-        suggestedQuestion = questionMatch[0];
-      }
-      
-      // Try to extract topics (often listed after the question)
-      const topicsSection = aiResponse.replace(suggestedQuestion, '');
-      const topicMatches = topicsSection.match(/[A-Z][a-zA-Z\s]+(?:Policy|Rights|Reform|Security|Care|Control|Action|Justice)/g);
-      
-      if (topicMatches && topicMatches.length > 0) {
-        topicMatches.forEach(topic => {
-          const cleanTopic = topic.trim();
-          if (cleanTopic && !possibleTopics.includes(cleanTopic)) {
-            possibleTopics.push(cleanTopic);
-          }
-        });
-      }
-      
-      // If we couldn't extract topics, try a different approach
-      if (possibleTopics.length === 0) {
-        const lines = aiResponse.split('\n');
-        for (const line of lines) {
-          if (line.includes(':') || line.includes('-') || line.includes('•')) {
-            const parts = line.split(/[:•-]/);
-            if (parts.length > 1) {
-              const topic = parts[1].trim();
-              if (topic && !possibleTopics.includes(topic)) {
-                possibleTopics.push(topic);
-              }
-            }
-          }
-        }
-      }
+      const response = await this.client.runJson<InterpretationResponse>(
+        'interpret-priority',
+        { input: userInput, previousTurns }
+      );
+
+      const interpretations = response.interpretations
+        .filter(interpretation => interpretation.standardTerm?.trim())
+        .map(interpretation => ({
+          standardTerm: interpretation.standardTerm.trim(),
+          description: interpretation.description,
+          confidence: Math.max(0, Math.min(1, interpretation.confidence)),
+          source: 'model' as const
+        }))
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, MAX_INTERPRETATIONS);
+
+      return interpretations.length > 0 ? { question: response.question, interpretations } : null;
     } catch (error) {
-      console.error('Error parsing AI response:', error);
+      if (!(error instanceof LlmError && error.code === 'fixture_missing')) {
+        console.error('Error calling AI service:', error);
+      }
+      return null;
     }
-    
-    return {
-      suggestedQuestion,
-      possibleTopics: possibleTopics.length > 0 ? possibleTopics : this.generateDefaultTopics(originalInput),
-      confidence: 0.5 // Medium confidence for AI-generated suggestions
-    };
   }
   
   /**
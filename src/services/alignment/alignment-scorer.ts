@@ -0,0 +1,135 @@
+import {
+  CandidateAlignment,
+  CandidateProfile,
+  IssueAgreement,
+  VoterIssuePreference
+} from '@/types/alignment';
+import { TermStance } from '@/types/stance';
+
+export interface AlignmentThresholds {
+  // Minimum score, and share of the voter's issues covered, for a full match
+  fullScore: number;
+  fullCoverage: number;
+  // Below this score the candidate is a conflict
+  conflictScore: number;
+}
+
+export const DEFAULT_ALIGNMENT_THRESHOLDS: AlignmentThresholds = {
+  fullScore: 0.75,
+  fullCoverage: 0.5,
+  conflictScore: 0.4
+};
+
+// Longest list of issue names spelled out in a rationale
+const MAX_LISTED = 3;
+
+/**
+ * How well two stances on the same term agree, from -1 to 1
+ */
+export function stanceAgreement(voter: TermStance, candidate: TermStance): number {
+  if (voter === candidate) return voter === 'mixed' ? 0.5 : 1;
+  if (voter === 'mixed' || candidate === 'mixed') return 0.25;
+  return -1;
+}
+
+const listTerms = (terms: string[]) => {
+  if (terms.length <= MAX_LISTED) {
+    return terms.length > 1
+      ? `${terms.slice(0, -1).join(', ')} and ${terms[terms.length - 1]}`
+      : terms[0];
+  }
+  return `${terms.slice(0, MAX_LISTED).join(', ')} and ${terms.length - MAX_LISTED} more`;
+};
+
+function buildRationale(issues: IssueAgreement[], candidate: CandidateProfile): string {
+  if (issues.length === 0) {
+    return 'None of your priorities could be matched to policy positions yet.';
+  }
+
+  const covered = issues.filter(issue => issue.agreement !== undefined);
+  if (covered.length === 0) {
+    return `${candidate.name} has no known position on the issues you care about.`;
+  }
+
+  const agrees = covered.filter(issue => issue.agreement! >= 0.5).map(issue => issue.standardTerm);
+  const partly = covered.filter(issue => issue.agreement! > 0 && issue.agreement! < 0.5).map(issue => issue.standardTerm);
+  const disagrees = covered.filter(issue => issue.agreement! <= 0).map(issue => issue.standardTerm);
+  const unknown = issues.filter(issue => issue.agreement === undefined).map(issue => issue.standardTerm);
+
+  const sentences: string[] = [];
+  if (agrees.length > 0) sentences.push(`Agrees with you on ${listTerms(agrees)}.`);
+  if (partly.length > 0) sentences.push(`Partly aligned on ${listTerms(partly)}.`);
+  if (disagrees.length > 0) sentences.push(`Disagrees with you on ${listTerms(disagrees)}.`);
+  if (unknown.length > 0) sentences.push(`No known position on ${listTerms(unknown)}.`);
+
+  // Terms the voter picked in a clarification say so, so the match can be traced back
+  covered
+    .filter(issue => issue.reason)
+    .slice(0, MAX_LISTED)
+    .forEach(issue => sentences.push(issue.reason!));
+  return sentences.join(' ');
+}
+
+/**
+ * Score how well a candidate's positions line up with what the voter wants.
+ * Issues the candidate has no position on don't count for or against the
+ * score, but lower coverage keeps a candidate from being a full match.
+ */
+export function scoreAlignment(
+  preferences: VoterIssuePreference[],
+  candidate: CandidateProfile,
+  thresholds: AlignmentThresholds = DEFAULT_ALIGNMENT_THRESHOLDS
+): CandidateAlignment {
+  const positions = new Map(candidate.positions.map(position => [position.standardTerm.toLowerCase(), position]));
+
+  const issues: IssueAgreement[] = preferences.map(preference => {
+    const position = positions.get(preference.standardTerm.toLowerCase());
+    return {
+      standardTerm: preference.standardTerm,
+      priority: preference.priority,
+      voterStance: preference.stance,
+      candidateStance: position?.stance,
+      // Weakly held positions count for less either way
+      agreement: position ? stanceAgreement(preference.stance, position.stance) * position.strength : undefined,
+      weight: preference.weight,
+      source: position?.source,
+      reason: preference.reason
+    };
+  });
+
+  const totalWeight = issues.reduce((sum, issue) => sum + issue.weight, 0);
+  const covered = issues.filter(issue => issue.agreement !== undefined);
+  const coveredWeight = covered.reduce((sum, issue) => sum + issue.weight, 0);
+
+  const coverage = totalWeight > 0 ? coveredWeight / totalWeight : 0;
+  const score = coveredWeight > 0
+    ? (covered.reduce((sum, issue) => sum + issue.weight * issue.agreement!, 0) / coveredWeight + 1) / 2
+    : 0;
+
+  // Opposing the voter's most important issue is a dealbreaker on its own
+  const topIssue = issues.reduce<IssueAgreement | undefined>(
+    (top, issue) => (!top || issue.weight > top.weight ? issue : top),
+    undefined
+  );
+  const opposesTopIssue = !!topIssue && topIssue.agreement !== undefined && topIssue.agreement < 0;
+
+  let match: CandidateAlignment['match'];
+  if (covered.length === 0) {
+    match = 'partial';
+  } else if (score < thresholds.conflictScore || opposesTopIssue) {
+    match = 'conflict';
+  } else if (score >= thresholds.fullScore && coverage >= thresholds.fullCoverage) {
+    match = 'full';
+  } else {
+    match = 'partial';
+  }
+
+  return {
+    candidate,
+    score,
+    coverage,
+    match,
+    issues,
+    rationale: buildRationale(issues, candidate)
+  };
+}
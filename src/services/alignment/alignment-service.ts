@@ -0,0 +1,137 @@
+import curatedPositions from '@/data/candidate-positions.json';
+import { Candidate } from '@/types/api';
+import { MappingEngine } from '@/types/mapping-engine';
+import { MappedPriority } from '@/types/policy-mappings';
+import {
+  CandidateAlignment,
+  CandidateIssuePosition,
+  CandidateProfile,
+  PositionSource
+} from '@/types/alignment';
+import { TermStance } from '@/types/stance';
+import { mappingEngine as defaultMappingEngine } from '@/services/mapping-engine';
+import { AlignmentThresholds, DEFAULT_ALIGNMENT_THRESHOLDS, scoreAlignment } from './alignment-scorer';
+import { toVoterPreferences } from './voter-preferences';
+
+interface CuratedCandidate {
+  name: string;
+  office: string;
+  party?: string;
+  positions: Array<Omit<CandidateIssuePosition, 'source' | 'stance'> & { stance: string }>;
+}
+
+const ALIGNMENT_ICONS: Record<CandidateAlignment['match'], Candidate['alignment']> = {
+  full: '✅',
+  partial: '⚠️',
+  conflict: '❌'
+};
+
+/**
+ * Scores candidates against a voter's mapped priorities. Positions come from
+ * the curated list in `src/data/candidate-positions.json` where we have one,
+ * otherwise from mapping the candidate's platform text.
+ */
+export class CandidateAlignmentService {
+  private curated: Map<string, CandidateProfile>;
+
+  constructor(
+    private engine: MappingEngine = defaultMappingEngine,
+    curated: CuratedCandidate[] = curatedPositions.candidates,
+    private thresholds: AlignmentThresholds = DEFAULT_ALIGNMENT_THRESHOLDS,
+    // Platform statements mapped below this confidence aren't treated as positions
+    private minPositionConfidence = 0.5
+  ) {
+    this.curated = new Map(curated.map(candidate => [candidate.name.toLowerCase(), {
+      name: candidate.name,
+      office: candidate.office,
+      party: candidate.party,
+      positions: candidate.positions.map(position => ({
+        ...position,
+        stance: position.stance as TermStance,
+        source: 'curated' as const
+      }))
+    }]));
+  }
+
+  /**
+   * Turn platform statements into positions by mapping them like voter priorities
+   */
+  async positionsFromStatements(statements: string[], source: PositionSource): Promise<CandidateIssuePosition[]> {
+    const byTerm = new Map<string, CandidateIssuePosition>();
+
+    for (const statement of statements.filter(s => s && s.trim().length > 0)) {
+      const mapped = await this.engine.mapPriority(statement);
+      for (const match of mapped.matches || []) {
+        if (match.confidence < this.minPositionConfidence) continue;
+
+        const key = match.standardTerm.toLowerCase();
+        const existing = byTerm.get(key);
+        if (existing && existing.strength >= match.confidence) continue;
+
+        byTerm.set(key, {
+          standardTerm: match.standardTerm,
+          stance: match.stance || 'support',
+          strength: match.confidence,
+          source,
+          statement
+        });
+      }
+    }
+
+    return Array.from(byTerm.values());
+  }
+
+  async buildProfile(candidate: Candidate, source: PositionSource = 'platform'): Promise<CandidateProfile> {
+    const curated = this.curated.get(candidate.name.toLowerCase());
+    if (curated) return curated;
+
+    return {
+      name: candidate.name,
+      office: candidate.office || 'Unknown Office',
+      party: candidate.party,
+      positions: await this.positionsFromStatements(
+        [...(candidate.platformHighlights || []), candidate.positionSummary || ''],
+        source
+      )
+    };
+  }
+
+  async scoreCandidate(
+    candidate: Candidate,
+    mappedPriorities: MappedPriority[],
+    weights: number[] = [],
+    source: PositionSource = 'platform'
+  ): Promise<CandidateAlignment> {
+    const profile = await this.buildProfile(candidate, source);
+    return scoreAlignment(toVoterPreferences(mappedPriorities, weights), profile, this.thresholds);
+  }
+
+  /**
+   * Candidates with their alignment, match and rationale filled in from scoring
+   * @param source Where uncurated candidates' platform text came from
+   */
+  async alignCandidates(
+    candidates: Candidate[],
+    mappedPriorities: MappedPriority[],
+    weights: number[] = [],
+    source: PositionSource = 'platform'
+  ): Promise<Candidate[]> {
+    return Promise.all(candidates.map(async candidate => {
+      try {
+        const alignment = await this.scoreCandidate(candidate, mappedPriorities, weights, source);
+        return {
+          ...candidate,
+          alignment: ALIGNMENT_ICONS[alignment.match],
+          match: alignment.match,
+          alignmentScore: alignment.score,
+          rationale: alignment.rationale
+        };
+      } catch (error) {
+        console.error(`Error scoring candidate ${candidate.name}:`, error);
+        return candidate;
+      }
+    }));
+  }
+}
+
+export const candidateAlignmentService = new CandidateAlignmentService();
@@ -0,0 +1,4 @@
+export { CandidateAlignmentService, candidateAlignmentService } from './alignment-service';
+export { scoreAlignment, stanceAgreement, DEFAULT_ALIGNMENT_THRESHOLDS } from './alignment-scorer';
+export type { AlignmentThresholds } from './alignment-scorer';
+export { toVoterPreferences } from './voter-preferences';
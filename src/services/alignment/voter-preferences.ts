@@ -0,0 +1,52 @@
+import { MappedPriority } from '@/types/policy-mappings';
+import { VoterIssuePreference } from '@/types/alignment';
+import { TermStance } from '@/types/stance';
+import { explainTermChoice } from '@/services/clarification';
+
+const sentimentToStance = (sentiment: MappedPriority['sentiment']): TermStance =>
+  sentiment === 'negative' ? 'oppose' : 'support';
+
+/**
+ * Flatten mapped priorities into one weighted preference per policy term.
+ * @param weights How much each priority matters, in the same order; defaults to 1
+ */
+export function toVoterPreferences(
+  mappedPriorities: MappedPriority[],
+  weights: number[] = []
+): VoterIssuePreference[] {
+  const byTerm = new Map<string, VoterIssuePreference>();
+
+  mappedPriorities.forEach((mapped, index) => {
+    const priorityWeight = weights[index] ?? 1;
+    const priority = mapped.original || mapped.priority;
+    const matches = mapped.matches?.length
+      ? mapped.matches
+      : mapped.policyTerms.map(standardTerm => ({ standardTerm, confidence: mapped.confidence, stance: undefined }));
+
+    for (const match of matches) {
+      const preference: VoterIssuePreference = {
+        standardTerm: match.standardTerm,
+        stance: match.stance || sentimentToStance(mapped.sentiment),
+        weight: priorityWeight * match.confidence,
+        priority,
+        reason: mapped.clarification ? explainTermChoice(mapped, match.standardTerm) : undefined
+      };
+
+      const key = match.standardTerm.toLowerCase();
+      const existing = byTerm.get(key);
+      if (!existing) {
+        byTerm.set(key, preference);
+        continue;
+      }
+
+      // Two priorities pulling opposite ways on one term leave the voter mixed on it
+      const stance = existing.stance === preference.stance ? existing.stance : 'mixed';
+      byTerm.set(key, {
+        ...(preference.weight > existing.weight ? preference : existing),
+        stance
+      });
+    }
+  });
+
+  return Array.from(byTerm.values()).sort((a, b) => b.weight - a.weight);
+}
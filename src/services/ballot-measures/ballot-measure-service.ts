@@ -0,0 +1,103 @@
+import fixtureMeasures from '@/data/ballot-measures.json';
+import {
+  MappedBallotMeasure,
+  MeasureConcern,
+  MeasureIssuePosition,
+  MeasureSource,
+  RawBallotMeasure,
+  SummarizedBallotMeasure
+} from '@/types/ballot-measures';
+import { MappingEngine } from '@/types/mapping-engine';
+import { MappedPriority } from '@/types/policy-mappings';
+import { mappingEngine as defaultMappingEngine } from '@/services/mapping-engine';
+import { toVoterPreferences } from '@/services/alignment';
+import {
+  describeConcerns,
+  mapMeasureConcerns,
+  normalizeMeasure,
+  summarizeMeasure
+} from '../../../supabase/functions/_shared/ballot-measures/index.ts';
+
+/**
+ * Turns raw ballot measures into neutral, plain-language summaries and ranks
+ * them by how much they bear on the voter's mapped priorities. Measures with
+ * hand-labeled policy terms (the local fixture) use those; others are mapped
+ * from their text like a voter priority.
+ */
+export class BallotMeasureService {
+  constructor(
+    private engine: MappingEngine = defaultMappingEngine,
+    private fixture: RawBallotMeasure[] = fixtureMeasures.measures,
+    // Terms mapped from measure text below this confidence are ignored
+    private minTermConfidence = 0.5
+  ) {}
+
+  /**
+   * Normalize and summarize raw records
+   */
+  prepare(raw: RawBallotMeasure[], source: MeasureSource): SummarizedBallotMeasure[] {
+    return raw.map(record => {
+      const measure = normalizeMeasure(record, source);
+      return { ...measure, ...summarizeMeasure(measure) };
+    });
+  }
+
+  /**
+   * Measures from the local fixture, optionally limited to one state
+   */
+  fromFixture(state?: string): SummarizedBallotMeasure[] {
+    const records = state
+      ? this.fixture.filter(record => record.state?.toUpperCase() === state.toUpperCase())
+      : this.fixture;
+    return this.prepare(records, 'fixture');
+  }
+
+  /**
+   * What a YES vote does to each policy term the measure touches
+   */
+  async positionsFor(measure: SummarizedBallotMeasure): Promise<MeasureIssuePosition[]> {
+    if (measure.positions?.length) return measure.positions;
+
+    const text = [measure.title, measure.description, measure.topic].filter(Boolean).join('. ');
+    const mapped = await this.engine.mapPriority(text);
+    return (mapped.matches || [])
+      .filter(match => match.confidence >= this.minTermConfidence)
+      .map(match => ({
+        standardTerm: match.standardTerm,
+        stance: match.stance || 'support',
+        strength: match.confidence
+      }));
+  }
+
+  /**
+   * Attach concern mappings to each measure and sort the most relevant first.
+   * @param weights How much each priority matters, in the same order as `mappedPriorities`
+   */
+  async mapConcerns(
+    measures: SummarizedBallotMeasure[],
+    mappedPriorities: MappedPriority[],
+    weights: number[] = []
+  ): Promise<MappedBallotMeasure[]> {
+    const preferences = toVoterPreferences(mappedPriorities, weights);
+
+    const results = await Promise.all(measures.map(async measure => {
+      let concerns: MeasureConcern[] = [];
+      try {
+        concerns = mapMeasureConcerns(preferences, await this.positionsFor(measure));
+      } catch (error) {
+        console.error(`Error mapping concerns for ${measure.title}:`, error);
+      }
+
+      return {
+        ...measure,
+        concerns,
+        relevance: concerns[0]?.relevance ?? 0,
+        userConcernMapping: describeConcerns(concerns)
+      };
+    }));
+
+    return results.sort((a, b) => b.relevance - a.relevance);
+  }
+}
+
+export const ballotMeasureService = new BallotMeasureService();
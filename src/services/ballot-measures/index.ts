@@ -0,0 +1,11 @@
+export { BallotMeasureService, ballotMeasureService } from './ballot-measure-service';
+// The normalizer, summarizer and concern mapping live with the edge functions so
+// analyze-priorities summarizes and ranks measures the same way
+export {
+  normalizeMeasure,
+  normalizeStatus,
+  measureId,
+  summarizeMeasure,
+  mapMeasureConcerns,
+  describeConcerns
+} from '../../../supabase/functions/_shared/ballot-measures/index.ts';
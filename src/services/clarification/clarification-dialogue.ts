@@ -0,0 +1,244 @@
+import {
+  ClarificationAnswer,
+  ClarificationInterpretation,
+  ClarificationReply,
+  ClarificationTurn
+} from '@/types/clarification';
+import { MappingEngine } from '@/types/mapping-engine';
+import { MappedPriority, PolicyTermMatch } from '@/types/policy-mappings';
+import { AIClarificationService, AnsweredQuestion, MAX_INTERPRETATIONS } from '@/services/ai-clarification';
+import { DEFAULT_PIPELINE_CONFIG, mappingEngine as defaultMappingEngine } from '@/services/mapping-engine';
+import { PriorityLearningService, priorityLearningService } from '@/services/priority-learning-service';
+import { StanceDetector, stanceDetector as defaultStanceDetector, stanceToSentiment } from '@/services/stance';
+import { categorizeTerms } from '@/utils/policy-categories';
+
+// A term the voter picked themselves is as good as an exact terminology match
+const CHOSEN_CONFIDENCE = 0.95;
+
+const termKey = (term: string) => term.trim().toLowerCase();
+
+const priorityText = (mapped: MappedPriority) => mapped.original || mapped.priority;
+
+function describeAnswer(answer: ClarificationAnswer): string {
+  return answer.kind === 'interpretation' ? answer.standardTerm : answer.text;
+}
+
+/**
+ * Explain why a term is on a clarified priority, in words the voter will
+ * recognise. Undefined when the term didn't come from a clarification.
+ */
+export function explainTermChoice(mapped: MappedPriority, standardTerm: string): string | undefined {
+  const turns = mapped.clarification?.turns.filter(turn => turn.answer) || [];
+  const key = termKey(standardTerm);
+
+  for (const turn of [...turns].reverse()) {
+    const answer = turn.answer!;
+    if (answer.kind === 'interpretation' && termKey(answer.standardTerm) === key) {
+      return `You chose ${answer.standardTerm} when asked what you meant by "${priorityText(mapped)}".`;
+    }
+  }
+
+  const match = mapped.matches?.find(m => termKey(m.standardTerm) === key);
+  const lastFreeText = [...turns].reverse().find(turn => turn.answer!.kind === 'free-text');
+  if (match?.sources.includes('clarification') && lastFreeText) {
+    return `${match.standardTerm} comes from your answer "${describeAnswer(lastFreeText.answer!)}".`;
+  }
+  return undefined;
+}
+
+/**
+ * Multi-turn clarification for priorities the engine couldn't map with
+ * confidence. Each question offers ranked interpretations (from the language
+ * model when one is available, otherwise the engine's own weaker matches);
+ * each answer re-maps the priority and is recorded on it.
+ */
+export class ClarificationDialogue {
+  constructor(
+    private engine: MappingEngine = defaultMappingEngine,
+    private clarificationService: AIClarificationService = new AIClarificationService(),
+    private clarificationThreshold = DEFAULT_PIPELINE_CONFIG.clarificationThreshold,
+    // Questions asked about one priority before we stop asking
+    private maxTurns = 3,
+    private stanceDetector: StanceDetector = defaultStanceDetector,
+    private now: () => Date = () => new Date(),
+    // Remembers answers so the same priority maps without asking next time
+    private learning: Pick<PriorityLearningService, 'learnFromClarification'> = priorityLearningService
+  ) {}
+
+  /**
+   * Whether the priority still needs, and can still get, another question
+   */
+  canAsk(mapped: MappedPriority): boolean {
+    const turns = mapped.clarification?.turns.length || 0;
+    return mapped.needsClarification && mapped.clarification?.status !== 'resolved' && turns < this.maxTurns;
+  }
+
+  /**
+   * Build the next question for a priority. Nothing is recorded until it's answered.
+   */
+  async ask(mapped: MappedPriority): Promise<ClarificationTurn> {
+    const priority = priorityText(mapped);
+    const answered = mapped.clarification?.turns.filter(turn => turn.answer) || [];
+    const previousTurns: AnsweredQuestion[] = answered.map(turn => ({
+      question: turn.question,
+      answer: describeAnswer(turn.answer!)
+    }));
+
+    // Offered before and passed over for the voter's own words
+    const ruledOut = new Set(
+      answered
+        .filter(turn => turn.answer!.kind === 'free-text')
+        .flatMap(turn => turn.interpretations.map(interpretation => termKey(interpretation.standardTerm)))
+    );
+
+    const fromModel = await this.clarificationService.getInterpretations(priority, previousTurns);
+    const fromEngine: ClarificationInterpretation[] = (mapped.matches || []).map(match => ({
+      standardTerm: match.standardTerm,
+      confidence: match.confidence,
+      source: 'engine' as const,
+      termKey: match.termKey,
+      category: match.category
+    }));
+
+    const byTerm = new Map<string, ClarificationInterpretation>();
+    for (const interpretation of [...(fromModel?.interpretations || []), ...fromEngine]) {
+      const key = termKey(interpretation.standardTerm);
+      if (ruledOut.has(key)) continue;
+
+      const existing = byTerm.get(key);
+      byTerm.set(key, existing
+        ? {
+            ...existing,
+            confidence: Math.max(existing.confidence, interpretation.confidence),
+            description: existing.description || interpretation.description,
+            termKey: existing.termKey || interpretation.termKey,
+            category: existing.category || interpretation.category
+          }
+        : interpretation);
+    }
+
+    return {
+      question: fromModel?.question || (answered.length > 0
+        ? `Thanks. Which of these is closest to "${priority}"?`
+        : `What did you mean by "${priority}"?`),
+      interpretations: Array.from(byTerm.values())
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, MAX_INTERPRETATIONS),
+      askedAt: this.now().toISOString()
+    };
+  }
+
+  /**
+   * Re-map a priority from the voter's reply to a question and record the exchange
+   */
+  async answer(mapped: MappedPriority, turn: ClarificationTurn, reply: ClarificationReply): Promise<MappedPriority> {
+    const priority = priorityText(mapped);
+    const answer: ClarificationAnswer = { ...reply, answeredAt: this.now().toISOString() };
+    const offered = new Set(turn.interpretations.map(interpretation => termKey(interpretation.standardTerm)));
+
+    // Alternatives the question offered were answered; anything else the priority mapped to stands
+    const kept = (mapped.matches || []).filter(match => !offered.has(termKey(match.standardTerm)));
+
+    let matches: PolicyTermMatch[];
+    let stanceText = priority;
+    if (reply.kind === 'interpretation') {
+      matches = [this.chosenMatch(mapped, turn, reply.standardTerm), ...kept];
+    } else {
+      const remapped = await this.engine.mapPriority(reply.text, { otherPriorities: [] });
+      const fromAnswer = (remapped.matches || []).map(match => ({
+        ...match,
+        sources: [...match.sources, 'clarification' as const],
+        evidence: [`From your answer "${reply.text}"`, ...match.evidence]
+      }));
+      matches = this.mergeMatches([...fromAnswer, ...kept]);
+      stanceText = `${priority}. ${reply.text}`;
+    }
+
+    matches.sort((a, b) => b.confidence - a.confidence);
+    this.stanceDetector.assessAll(stanceText, matches).forEach((assessment, index) => {
+      Object.assign(matches[index], {
+        stance: assessment.stance,
+        stanceConfidence: assessment.confidence,
+        stanceEvidence: assessment.evidence,
+        nuancedMapping: assessment.nuancedMapping
+      });
+    });
+
+    const policyTerms = matches.map(match => match.standardTerm);
+    const confidence = matches[0]?.confidence || 0;
+    const needsClarification = confidence < this.clarificationThreshold;
+    await this.learn(priority, reply, matches);
+
+    return {
+      ...mapped,
+      policyTerms,
+      sentiment: matches[0]?.stance ? stanceToSentiment(matches[0].stance) : mapped.sentiment,
+      confidence,
+      needsClarification,
+      clarificationReason: needsClarification
+        ? (matches.length === 0
+          ? 'Your answer did not match any policy terms yet'
+          : `Best match "${matches[0].standardTerm}" is still below the confidence threshold`)
+        : undefined,
+      matches,
+      clarification: {
+        turns: [...(mapped.clarification?.turns || []), { ...turn, answer }],
+        status: needsClarification ? 'open' : 'resolved'
+      },
+      category: matches.find(match => match.category)?.category || categorizeTerms(policyTerms),
+      mappedTerms: policyTerms,
+      possibleTopics: needsClarification ? policyTerms.slice(0, 3) : []
+    };
+  }
+
+  /**
+   * Record the term the voter's answer settled on. A free-text answer only
+   * teaches a mapping once it maps with confidence on its own.
+   */
+  private async learn(priority: string, reply: ClarificationReply, matches: PolicyTermMatch[]): Promise<void> {
+    const learned = reply.kind === 'interpretation'
+      ? matches.find(match => termKey(match.standardTerm) === termKey(reply.standardTerm))
+      : matches.find(match => match.sources.includes('clarification') && match.confidence >= this.clarificationThreshold);
+    if (!learned) return;
+
+    try {
+      await this.learning.learnFromClarification(
+        priority,
+        reply.kind === 'interpretation' ? reply.standardTerm : reply.text,
+        { id: learned.termKey || learned.standardTerm, name: learned.standardTerm }
+      );
+    } catch (error) {
+      // The answer still counts for this session
+      console.error('Error recording clarification:', error);
+    }
+  }
+
+  private chosenMatch(mapped: MappedPriority, turn: ClarificationTurn, standardTerm: string): PolicyTermMatch {
+    const key = termKey(standardTerm);
+    const interpretation = turn.interpretations.find(i => termKey(i.standardTerm) === key);
+    const existing = mapped.matches?.find(match => termKey(match.standardTerm) === key);
+
+    return {
+      standardTerm: interpretation?.standardTerm || existing?.standardTerm || standardTerm,
+      termKey: existing?.termKey || interpretation?.termKey,
+      category: existing?.category || interpretation?.category,
+      confidence: CHOSEN_CONFIDENCE,
+      sources: [...(existing?.sources || []), 'clarification'],
+      evidence: [`Chosen when asked: ${turn.question}`, ...(existing?.evidence || [])]
+    };
+  }
+
+  private mergeMatches(matches: PolicyTermMatch[]): PolicyTermMatch[] {
+    const byTerm = new Map<string, PolicyTermMatch>();
+    for (const match of matches) {
+      const key = termKey(match.standardTerm);
+      const existing = byTerm.get(key);
+      if (!existing || match.confidence > existing.confidence) {
+        byTerm.set(key, match);
+      }
+    }
+    return Array.from(byTerm.values());
+  }
+}
+
+export const clarificationDialogue = new ClarificationDialogue();
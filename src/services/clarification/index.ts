@@ -0,0 +1 @@
+export { ClarificationDialogue, clarificationDialogue, explainTermChoice } from './clarification-dialogue';
@@ -0,0 +1,150 @@
+import { ConflictDefinition, PoliticalIssue } from '@/types/priority-mapping';
+import { ConflictEdge, ConflictExplanation, PriorityIssueMatch } from '@/types/conflicts';
+import { MappedPriority } from '@/types/policy-mappings';
+import { POLITICAL_ISSUES, ISSUE_CONFLICTS } from '@/data/political-issues';
+import { ConflictGraph } from './conflict-graph';
+import { matchIssues } from './issue-matcher';
+
+const SEVERITY_RANK: Record<ConflictDefinition['severity'], number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Detects contradictions inside a single priority and between priorities,
+ * using the conflict graph built from the political issue data.
+ */
+export class ConflictEngine {
+  readonly graph: ConflictGraph;
+
+  constructor(
+    private issues: PoliticalIssue[] = POLITICAL_ISSUES,
+    definitions: ConflictDefinition[] = ISSUE_CONFLICTS
+  ) {
+    this.graph = new ConflictGraph(issues, definitions);
+  }
+
+  matchIssues(mapped: MappedPriority): PriorityIssueMatch[] {
+    return matchIssues(mapped, this.issues);
+  }
+
+  /**
+   * Conflicts among issues that have already been identified
+   */
+  conflictsBetweenIssues(issueIds: string[]): ConflictDefinition[] {
+    return this.graph.conflictsAmong(issueIds).map(edge => edge.definition);
+  }
+
+  /**
+   * Stances come from the mapping engine's per-term reading of each priority
+   */
+  detect(mappedPriorities: MappedPriority[]): ConflictExplanation[] {
+    const filtered = mappedPriorities.filter(mapped => (mapped.original || mapped.priority).trim().length > 0);
+    const matchesByPriority = filtered.map(mapped => this.matchIssues(mapped));
+    const conflicts = new Map<string, ConflictExplanation>();
+
+    // Report one conflict per priority (or pair of priorities): the most severe,
+    // with the compromises from every tension found between them
+    const add = (conflict: ConflictExplanation) => {
+      const existing = conflicts.get(conflict.id);
+      if (!existing) {
+        conflicts.set(conflict.id, conflict);
+        return;
+      }
+      const [primary, secondary] = SEVERITY_RANK[conflict.severity] < SEVERITY_RANK[existing.severity]
+        ? [conflict, existing]
+        : [existing, conflict];
+      conflicts.set(conflict.id, {
+        ...primary,
+        possibleCompromises: [...new Set([...primary.possibleCompromises, ...secondary.possibleCompromises])]
+      });
+    };
+
+    // A single priority that asks for two incompatible things. Curated issue
+    // pairs are left out here: one sentence naming both sides usually wants a balance.
+    matchesByPriority.forEach(matches => {
+      const supported = matches.filter(m => m.stance === 'support');
+      for (let i = 0; i < supported.length; i++) {
+        for (let j = i; j < supported.length; j++) {
+          this.edgesBetween(supported[i], supported[j])
+            .filter(edge => edge.kind !== 'defined')
+            .forEach(edge => add(this.explain(edge, supported[i], supported[j])));
+        }
+      }
+    });
+
+    // Pairs of priorities
+    for (let i = 0; i < matchesByPriority.length; i++) {
+      for (let j = i + 1; j < matchesByPriority.length; j++) {
+        matchesByPriority[i].forEach(a => {
+          matchesByPriority[j].forEach(b => {
+            if (a.issueId === b.issueId && a.stance !== b.stance) {
+              add(this.explainStance(a, b));
+              return;
+            }
+            // Opposing an issue while supporting its rival is consistent, not a conflict
+            if (a.stance !== 'support' || b.stance !== 'support') return;
+            this.edgesBetween(a, b).forEach(edge => add(this.explain(edge, a, b)));
+          });
+        });
+      }
+    }
+
+    return Array.from(conflicts.values())
+      .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+  }
+
+  private edgesBetween(a: PriorityIssueMatch, b: PriorityIssueMatch): ConflictEdge[] {
+    const edges: ConflictEdge[] = [];
+    const issueEdge = this.graph.issueConflict(a.issueId, b.issueId);
+    if (issueEdge) edges.push(issueEdge);
+    return [...edges, ...this.graph.approachConflicts(a.approaches, b.approaches)];
+  }
+
+  private explain(edge: ConflictEdge, a: PriorityIssueMatch, b: PriorityIssueMatch): ConflictExplanation {
+    const withinPriority = a.priority === b.priority;
+    const sideA = this.describeSide(a, edge.approaches?.[0]);
+    const sideB = this.describeSide(b, edge.approaches?.[1]);
+
+    const explanation = withinPriority
+      ? `"${a.priority}" asks for both ${sideA} and ${sideB}. ${edge.definition.reason}.`
+      : `"${a.priority}" points to ${sideA}, while "${b.priority}" points to ${sideB}. ${edge.definition.reason}.`;
+
+    return {
+      id: withinPriority ? a.priority : [a.priority, b.priority].sort().join('|'),
+      scope: withinPriority ? 'within-priority' : 'cross-priority',
+      kind: edge.kind,
+      priorities: withinPriority ? [a.priority] : [a.priority, b.priority],
+      issues: [a.issueId, b.issueId],
+      type: edge.definition.type,
+      severity: edge.definition.severity,
+      reason: edge.definition.reason,
+      explanation,
+      possibleCompromises: edge.definition.possibleCompromises || []
+    };
+  }
+
+  private explainStance(a: PriorityIssueMatch, b: PriorityIssueMatch): ConflictExplanation {
+    const [supporting, opposing] = a.stance === 'support' ? [a, b] : [b, a];
+    return {
+      id: [a.priority, b.priority].sort().join('|'),
+      scope: 'cross-priority',
+      kind: 'stance',
+      priorities: [a.priority, b.priority],
+      issues: [a.issueId, b.issueId],
+      type: 'ideology',
+      severity: 'high',
+      reason: `Opposite stances on ${a.issueName}`,
+      explanation: `"${supporting.priority}" supports ${a.issueName}, but "${opposing.priority}" opposes it.`,
+      possibleCompromises: [
+        `Decide which part of ${a.issueName} matters most to you`,
+        'Look for candidates who support a limited or targeted version'
+      ]
+    };
+  }
+
+  private describeSide(match: PriorityIssueMatch, approachId?: string): string {
+    return approachId
+      ? `${this.graph.getApproachName(approachId)} (${match.issueName})`
+      : match.issueName;
+  }
+}
+
+export const conflictEngine = new ConflictEngine();
@@ -0,0 +1,151 @@
+import { ConflictDefinition, PoliticalIssue } from '@/types/priority-mapping';
+import { ConflictEdge } from '@/types/conflicts';
+
+export const toApproachId = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+interface ApproachNode {
+  id: string;
+  name: string;
+  issueId: string;
+  conflictsWith: Set<string>;
+}
+
+/**
+ * Undirected graph of known tensions between issues and between policy
+ * approaches, built from ISSUE_CONFLICTS, `opposingIssues` and
+ * `policyApproaches[].conflictingApproaches`.
+ */
+export class ConflictGraph {
+  private issues = new Map<string, PoliticalIssue>();
+  private approaches = new Map<string, ApproachNode>();
+  private issueEdges = new Map<string, ConflictEdge>();
+
+  constructor(issues: PoliticalIssue[], definitions: ConflictDefinition[]) {
+    issues.forEach(issue => this.issues.set(issue.id, issue));
+
+    issues.forEach(issue => {
+      (issue.policyApproaches || []).forEach(approach => {
+        const id = toApproachId(approach.name);
+        this.approaches.set(id, {
+          id,
+          name: approach.name,
+          issueId: issue.id,
+          conflictsWith: new Set(approach.conflictingApproaches || [])
+        });
+      });
+    });
+
+    // Conflicting approaches are symmetric even when only one side lists the other
+    this.approaches.forEach(node => {
+      node.conflictsWith.forEach(otherId => this.approaches.get(otherId)?.conflictsWith.add(node.id));
+    });
+
+    // Curated definitions win over generic opposing-issue edges
+    definitions.forEach(definition => {
+      const [a, b] = definition.issues;
+      this.issueEdges.set(pairKey(a, b), { kind: 'defined', issues: [a, b], definition });
+    });
+
+    issues.forEach(issue => {
+      (issue.opposingIssues || []).forEach(opposingId => {
+        const key = pairKey(issue.id, opposingId);
+        if (this.issueEdges.has(key)) return;
+
+        const opposing = this.issues.get(opposingId);
+        this.issueEdges.set(key, {
+          kind: 'opposing-issue',
+          issues: [issue.id, opposingId],
+          definition: {
+            issues: [issue.id, opposingId],
+            reason: `${issue.name} and ${opposing?.name || opposingId} pull policy in opposite directions`,
+            severity: 'high',
+            type: 'policy',
+            possibleCompromises: [
+              'Seek balanced approach considering both perspectives',
+              'Consider phased implementation to address concerns'
+            ]
+          }
+        });
+      });
+    });
+  }
+
+  getIssue(id: string): PoliticalIssue | undefined {
+    return this.issues.get(id);
+  }
+
+  getApproachName(id: string): string {
+    return this.approaches.get(id)?.name || id;
+  }
+
+  /**
+   * Issue-level conflict between two issues, if any
+   */
+  issueConflict(a: string, b: string): ConflictEdge | null {
+    if (a === b) return null;
+    return this.issueEdges.get(pairKey(a, b)) || null;
+  }
+
+  /**
+   * Approach-level conflicts between two sets of approach ids
+   */
+  approachConflicts(approachesA: string[], approachesB: string[]): ConflictEdge[] {
+    const edges: ConflictEdge[] = [];
+    const seen = new Set<string>();
+
+    approachesA.forEach(a => {
+      const nodeA = this.approaches.get(a);
+      if (!nodeA) return;
+
+      approachesB.forEach(b => {
+        const nodeB = this.approaches.get(b);
+        const key = pairKey(a, b);
+        if (!nodeB || seen.has(key) || !nodeA.conflictsWith.has(b)) return;
+        seen.add(key);
+
+        edges.push({
+          kind: 'conflicting-approach',
+          issues: [nodeA.issueId, nodeB.issueId],
+          approaches: [a, b],
+          definition: {
+            issues: [nodeA.issueId, nodeB.issueId],
+            reason: `Conflicting approaches: ${nodeA.name} vs ${nodeB.name}`,
+            severity: 'medium',
+            type: 'implementation',
+            possibleCompromises: [
+              `Consider balanced approach between ${nodeA.name} and ${nodeB.name}`,
+              'Seek expert mediation for implementation strategy'
+            ]
+          }
+        });
+      });
+    });
+
+    return edges;
+  }
+
+  /**
+   * Every conflict among a set of issues, issue-level and approach-level
+   */
+  conflictsAmong(issueIds: string[]): ConflictEdge[] {
+    const unique = [...new Set(issueIds)];
+    const edges: ConflictEdge[] = [];
+
+    for (let i = 0; i < unique.length; i++) {
+      for (let j = i + 1; j < unique.length; j++) {
+        const edge = this.issueConflict(unique[i], unique[j]);
+        if (edge) edges.push(edge);
+      }
+    }
+
+    const approachIds = unique.flatMap(id =>
+      (this.issues.get(id)?.policyApproaches || []).map(approach => toApproachId(approach.name))
+    );
+    // Without knowing which approach a voter favours, an issue's own rival approaches aren't a conflict
+    const approachEdges = this.approachConflicts(approachIds, approachIds)
+      .filter(edge => edge.issues[0] !== edge.issues[1]);
+    return [...edges, ...approachEdges];
+  }
+}
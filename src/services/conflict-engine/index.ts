@@ -0,0 +1,3 @@
+export { ConflictEngine, conflictEngine } from './conflict-engine';
+export { ConflictGraph, toApproachId } from './conflict-graph';
+export { matchIssues, stanceAt } from './issue-matcher';
@@ -0,0 +1,73 @@
+import { PoliticalIssue } from '@/types/priority-mapping';
+import { IssueStance, PriorityIssueMatch } from '@/types/conflicts';
+import { MappedPriority } from '@/types/policy-mappings';
+import { toApproachId } from './conflict-graph';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findPhrase = (text: string, phrase: string): number => {
+  const match = new RegExp(`\\b${escapeRegExp(phrase.toLowerCase())}\\b`).exec(text);
+  return match ? match.index : -1;
+};
+
+/**
+ * Stance the mapping engine read for the part of a priority a phrase is in:
+ * its clause when the priority was split into clauses, otherwise the priority's
+ * top match. Text that mapped to no term falls back on the sentence sentiment.
+ * Mixed stances still back the issue, so they count as support.
+ */
+export function stanceAt(mapped: MappedPriority, phrase: string): IssueStance {
+  const clause = mapped.clauses?.find(candidate => findPhrase(candidate.text.toLowerCase(), phrase) >= 0);
+  const stance = clause ? clause.stance : mapped.matches?.[0]?.stance;
+  if (stance) return stance === 'oppose' ? 'oppose' : 'support';
+  return mapped.sentiment === 'negative' ? 'oppose' : 'support';
+}
+
+/**
+ * Finds the issues, stances and policy approaches a single mapped priority expresses
+ */
+export function matchIssues(mapped: MappedPriority, issues: PoliticalIssue[]): PriorityIssueMatch[] {
+  const priority = mapped.original || mapped.priority;
+  const text = priority.toLowerCase();
+  const matches: PriorityIssueMatch[] = [];
+
+  for (const issue of issues) {
+    const matchedTerms: string[] = [];
+    const stances: IssueStance[] = [];
+    const approaches: string[] = [];
+
+    for (const term of [issue.name, ...issue.synonyms, ...issue.relatedTerms]) {
+      const index = findPhrase(text, term);
+      if (index >= 0) {
+        matchedTerms.push(term);
+        stances.push(stanceAt(mapped, term));
+      }
+    }
+
+    // An approach keyword states a position on the issue, so it counts as support
+    // for it; an opposed keyword ("no rent control") says nothing about the approach
+    for (const approach of issue.policyApproaches || []) {
+      const hit = (approach.keywords || []).find(keyword =>
+        findPhrase(text, keyword) >= 0 && stanceAt(mapped, keyword) === 'support'
+      );
+      if (hit) {
+        matchedTerms.push(hit);
+        approaches.push(toApproachId(approach.name));
+        stances.push('support');
+      }
+    }
+
+    if (matchedTerms.length === 0) continue;
+
+    matches.push({
+      priority,
+      issueId: issue.id,
+      issueName: issue.name,
+      stance: stances.includes('support') ? 'support' : 'oppose',
+      approaches,
+      matchedTerms: [...new Set(matchedTerms)]
+    });
+  }
+
+  return matches;
+}
@@ -0,0 +1,118 @@
+import {
+  AmbiguousDistrict,
+  District,
+  DistrictResolution,
+  VoterLocation
+} from '@/types/districts';
+import { districtTypeFromDivision } from './office-hierarchy';
+import { normalizeZip, ZipCrosswalk } from './zip-crosswalk';
+
+const COUNTRY_DIVISION = 'ocd-division/country:us';
+
+/**
+ * Whether a voter is in a division: definitely, possibly (their ZIP straddles
+ * it), definitely not, or unknown because we have no data for that kind of district
+ */
+export type DivisionMembership = 'in' | 'possible' | 'out' | 'unknown';
+
+const stateFromDivision = (divisionId: string) => divisionId.match(/\/(?:state|district):([a-z]{2})\b/)?.[1]?.toUpperCase();
+
+/**
+ * Works out which districts a voter lives in. A full address settles every
+ * district; a ZIP alone goes through the local crosswalk, and district types
+ * the ZIP straddles are left for the voter to pick from.
+ */
+export class DistrictResolver {
+  constructor(
+    private crosswalk: ZipCrosswalk = new ZipCrosswalk(),
+    // A district holding at least this share of the ZIP counts as the voter's
+    private dominantShare = 0.95
+  ) {}
+
+  /**
+   * @param addressDivisions Divisions the civic data source returned for the
+   * voter's full address, when they gave one
+   */
+  resolve(location: VoterLocation, addressDivisions: Array<{ id: string; name: string }> = []): DistrictResolution {
+    const zipCode = normalizeZip(location.zipCode) || location.zipCode.trim();
+    const entry = this.crosswalk.lookup(zipCode);
+    const address = location.address?.trim() || undefined;
+
+    if (address && addressDivisions.length > 0) {
+      const districts: District[] = addressDivisions.flatMap(division => {
+        const type = districtTypeFromDivision(division.id);
+        return type ? [{ id: division.id, type, name: division.name, state: stateFromDivision(division.id) }] : [];
+      });
+
+      return {
+        zipCode,
+        address,
+        state: districts.find(district => district.state)?.state || entry?.state,
+        city: entry?.city,
+        districts,
+        ambiguous: [],
+        source: 'address'
+      };
+    }
+
+    if (!entry) {
+      return { zipCode, address, districts: [], ambiguous: [], source: 'none' };
+    }
+
+    const districts: District[] = [
+      { id: COUNTRY_DIVISION, type: 'country', name: 'United States' },
+      { id: `${COUNTRY_DIVISION}/state:${entry.state.toLowerCase()}`, type: 'state', name: entry.state, state: entry.state }
+    ];
+    const ambiguous: AmbiguousDistrict[] = [];
+
+    // A ZIP that is partly unincorporated still counts as in its only city or school district
+    for (const [type, candidates] of this.crosswalk.districtsByType(zipCode)) {
+      if (candidates.length === 1 || candidates[0].share >= this.dominantShare) {
+        const { share, ...district } = candidates[0];
+        districts.push(district);
+      } else {
+        ambiguous.push({ type, candidates });
+      }
+    }
+
+    return { zipCode, address, state: entry.state, city: entry.city, districts, ambiguous, source: 'crosswalk' };
+  }
+
+  /**
+   * Record the voter's answer to "which of these districts are you in?"
+   */
+  choose(resolution: DistrictResolution, districtId: string): DistrictResolution {
+    const group = resolution.ambiguous.find(item => item.candidates.some(candidate => candidate.id === districtId));
+    if (!group) return resolution;
+
+    const { share, ...chosen } = group.candidates.find(candidate => candidate.id === districtId)!;
+    return {
+      ...resolution,
+      districts: [...resolution.districts, chosen],
+      ambiguous: resolution.ambiguous.filter(item => item !== group)
+    };
+  }
+
+  /**
+   * Whether the voter is in a division, so offices for other districts can be dropped
+   */
+  membership(resolution: DistrictResolution, divisionId: string): DivisionMembership {
+    if (resolution.districts.some(district => district.id === divisionId)) return 'in';
+    if (resolution.ambiguous.some(item => item.candidates.some(candidate => candidate.id === divisionId))) {
+      return 'possible';
+    }
+
+    const type = districtTypeFromDivision(divisionId);
+    if (type === 'country') return 'in';
+    if (type === 'state') {
+      if (!resolution.state) return 'unknown';
+      return stateFromDivision(divisionId) === resolution.state ? 'in' : 'out';
+    }
+
+    const covered = resolution.districts.some(district => district.type === type) ||
+      resolution.ambiguous.some(item => item.type === type);
+    return covered ? 'out' : 'unknown';
+  }
+}
+
+export const districtResolver = new DistrictResolver();
@@ -0,0 +1,10 @@
+export { DistrictResolver, districtResolver } from './district-resolver';
+export type { DivisionMembership } from './district-resolver';
+export { ZipCrosswalk, normalizeZip } from './zip-crosswalk';
+export {
+  OFFICE_LEVELS,
+  buildOfficeHierarchy,
+  districtTypeFromDivision,
+  normalizeOffice,
+  normalizeOfficeLevel
+} from './office-hierarchy';
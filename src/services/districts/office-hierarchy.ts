@@ -0,0 +1,108 @@
+import { DistrictType, NormalizedOffice, OfficeLevel, OfficeTier, RawOffice } from '@/types/districts';
+
+export const OFFICE_LEVELS: OfficeLevel[] = ['federal', 'state', 'county', 'city', 'school_board'];
+
+const LEVEL_LABELS: Record<OfficeLevel, string> = {
+  federal: 'Federal',
+  state: 'State',
+  county: 'County',
+  city: 'City',
+  school_board: 'School Board'
+};
+
+// Last segment of an OCD division id, e.g. `cd:11` -> congressional
+const DIVISION_TYPES: Record<string, DistrictType> = {
+  country: 'country',
+  state: 'state',
+  district: 'state',
+  cd: 'congressional',
+  sldu: 'state_senate',
+  sldl: 'state_house',
+  county: 'county',
+  parish: 'county',
+  borough: 'county',
+  place: 'city',
+  city: 'city',
+  school_district: 'school_district'
+};
+
+// Google Civic `levels` values
+const CIVIC_LEVELS: Record<string, OfficeLevel> = {
+  country: 'federal',
+  administrativeArea1: 'state',
+  regional: 'state',
+  administrativeArea2: 'county',
+  locality: 'city',
+  subLocality1: 'city',
+  subLocality2: 'city'
+};
+
+/**
+ * The kind of district an OCD division id names, from its last segment
+ */
+export function districtTypeFromDivision(divisionId: string | undefined): DistrictType | undefined {
+  const last = divisionId?.split('/').pop();
+  const kind = last?.split(':')[0];
+  return kind ? DIVISION_TYPES[kind] : undefined;
+}
+
+/**
+ * Place an office in the hierarchy. Google's `levels` describe who elects the
+ * office, so a U.S. House seat is federal even though its division is a
+ * congressional district; the division and the name are fallbacks.
+ */
+export function normalizeOfficeLevel(office: RawOffice): OfficeLevel {
+  const roles = office.roles || [];
+  const districtType = districtTypeFromDivision(office.divisionId);
+
+  if (roles.includes('schoolBoard') || districtType === 'school_district' || /school board|board of education/i.test(office.name)) {
+    return 'school_board';
+  }
+
+  for (const level of office.levels || []) {
+    if (CIVIC_LEVELS[level]) return CIVIC_LEVELS[level];
+  }
+
+  switch (districtType) {
+    case 'country':
+    case 'congressional':
+      return 'federal';
+    case 'state':
+    case 'state_senate':
+    case 'state_house':
+      return 'state';
+    case 'county':
+      return 'county';
+    case 'city':
+      return 'city';
+  }
+
+  if (/^(u\.?s\.?|united states)\b|president|congress/i.test(office.name)) return 'federal';
+  if (/county|sheriff|district attorney/i.test(office.name)) return 'county';
+  if (/mayor|city council|alderman/i.test(office.name)) return 'city';
+  return 'state';
+}
+
+export function normalizeOffice(office: RawOffice): NormalizedOffice {
+  return {
+    name: office.name,
+    level: normalizeOfficeLevel(office),
+    divisionId: office.divisionId,
+    districtType: districtTypeFromDivision(office.divisionId),
+    roles: office.roles || []
+  };
+}
+
+/**
+ * Group offices by level, top down, leaving out empty levels
+ */
+export function buildOfficeHierarchy(offices: RawOffice[]): OfficeTier[] {
+  const normalized = offices.map(normalizeOffice);
+  return OFFICE_LEVELS
+    .map(level => ({
+      level,
+      label: LEVEL_LABELS[level],
+      offices: normalized.filter(office => office.level === level)
+    }))
+    .filter(tier => tier.offices.length > 0);
+}
@@ -0,0 +1,59 @@
+import crosswalkData from '@/data/zip-districts.json';
+import { CrosswalkDistrict, DistrictType, ZipCrosswalkEntry } from '@/types/districts';
+
+/**
+ * First five digits of a ZIP or ZIP+4, or null if it isn't one
+ */
+export function normalizeZip(zipCode: string): string | null {
+  const match = zipCode.trim().match(/^(\d{5})(?:-?\d{4})?$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Local ZIP-to-district lookup. A ZIP is split for a district type when its
+ * addresses fall in more than one district of that type.
+ */
+export class ZipCrosswalk {
+  private entries: Map<string, ZipCrosswalkEntry>;
+
+  constructor(entries: ZipCrosswalkEntry[] = crosswalkData.zips as ZipCrosswalkEntry[]) {
+    this.entries = new Map(entries.map(entry => [entry.zip, entry]));
+  }
+
+  lookup(zipCode: string): ZipCrosswalkEntry | undefined {
+    const zip = normalizeZip(zipCode);
+    return zip ? this.entries.get(zip) : undefined;
+  }
+
+  /**
+   * Every district of each type the ZIP overlaps, largest share first
+   */
+  districtsByType(zipCode: string): Map<DistrictType, CrosswalkDistrict[]> {
+    const byType = new Map<DistrictType, CrosswalkDistrict[]>();
+    const entry = this.lookup(zipCode);
+    if (!entry) return byType;
+
+    for (const district of entry.districts) {
+      const list = byType.get(district.type) || [];
+      list.push({ ...district, state: entry.state });
+      byType.set(district.type, list);
+    }
+    for (const list of byType.values()) {
+      list.sort((a, b) => b.share - a.share);
+    }
+    return byType;
+  }
+
+  /**
+   * District types the ZIP straddles
+   */
+  splitTypes(zipCode: string): DistrictType[] {
+    return Array.from(this.districtsByType(zipCode).entries())
+      .filter(([, districts]) => districts.length > 1)
+      .map(([type]) => type);
+  }
+
+  isSplit(zipCode: string): boolean {
+    return this.splitTypes(zipCode).length > 0;
+  }
+}
@@ -0,0 +1,205 @@
+import calendarData from '../../../supabase/functions/_shared/elections/election-calendar.json';
+import { CivicElection, GoogleCivicApiService } from '@/services/google-civic-api-service';
+import { ZipCrosswalk } from '@/services/districts';
+import type { Translator } from '@/services/i18n';
+import {
+  ElectionContext,
+  ElectionCountdown,
+  ElectionEvent,
+  ElectionType,
+  StateElectionRules
+} from '@/types/elections';
+import type { Mode } from '@/types/mode';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Google's permanent test election, returned alongside the real ones
+const CIVIC_TEST_ELECTION_ID = '2000';
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+const shiftDate = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const electionTypeFromName = (name: string): ElectionType => {
+  const lower = name.toLowerCase();
+  if (lower.includes('runoff')) return 'runoff';
+  if (lower.includes('primary')) return 'primary';
+  if (lower.includes('special')) return 'special';
+  return 'general';
+};
+
+const stateFromDivision = (divisionId = '') => divisionId.match(/\/state:([a-z]{2})\b/)?.[1]?.toUpperCase();
+
+const bundledEvents = (): ElectionEvent[] =>
+  calendarData.elections.map(election => ({
+    ...election,
+    type: election.type as ElectionType,
+    cycle: Number(election.date.slice(0, 4)),
+    source: 'bundled' as const
+  }));
+
+/**
+ * Known election dates and each state's voting deadlines. Starts from the
+ * bundled calendar and can be topped up with Google Civic's election list.
+ */
+export class ElectionCalendar {
+  private events: ElectionEvent[] = [];
+
+  constructor(
+    events: ElectionEvent[] = bundledEvents(),
+    private rules: Record<string, StateElectionRules> = calendarData.stateRules,
+    private crosswalk: ZipCrosswalk = new ZipCrosswalk(),
+    // Elections within this many days count as upcoming ballots
+    private upcomingWindowDays = 120
+  ) {
+    this.addEvents(events);
+  }
+
+  /**
+   * Merge in more elections, skipping any already known for the same date and state
+   */
+  addEvents(events: ElectionEvent[]): void {
+    for (const event of events) {
+      const duplicate = this.events.some(existing =>
+        existing.id === event.id || (existing.date === event.date && existing.state === event.state && existing.type === event.type)
+      );
+      if (!duplicate) this.events.push(event);
+    }
+    this.events.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Pull upcoming elections from Google Civic. Returns how many were new;
+   * failures leave the bundled calendar in place.
+   */
+  async seedFromCivic(
+    // Seeding runs in the background, so it doesn't toast about missing keys
+    api: Pick<GoogleCivicApiService, 'getElections'> = new GoogleCivicApiService(() => {})
+  ): Promise<number> {
+    try {
+      const response = await api.getElections();
+      const elections: CivicElection[] = response?.elections || [];
+      const before = this.events.length;
+
+      this.addEvents(
+        elections
+          .filter(election => election.id !== CIVIC_TEST_ELECTION_ID && /^\d{4}-\d{2}-\d{2}$/.test(election.electionDay))
+          .map(election => ({
+            id: `civic-${election.id}`,
+            name: election.name,
+            date: election.electionDay,
+            type: electionTypeFromName(election.name),
+            state: stateFromDivision(election.ocdDivisionId),
+            cycle: Number(election.electionDay.slice(0, 4)),
+            source: 'civic' as const
+          }))
+      );
+      return this.events.length - before;
+    } catch (error) {
+      console.error('Error loading elections from Google Civic:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Elections a voter in the state takes part in; nationwide ones when no state is known
+   */
+  eventsFor(state?: string): ElectionEvent[] {
+    return this.events.filter(event => !event.state || event.state === state);
+  }
+
+  nextElection(state: string | undefined, now: Date = new Date()): ElectionEvent | undefined {
+    const today = toIsoDate(now);
+    return this.eventsFor(state).find(event => event.date >= today);
+  }
+
+  lastGeneralElection(now: Date = new Date()): ElectionEvent | undefined {
+    const today = toIsoDate(now);
+    return this.events.filter(event => event.type === 'general' && event.date < today).pop();
+  }
+
+  /**
+   * Countdowns to an election's deadlines that haven't passed yet
+   */
+  countdowns(event: ElectionEvent, state: string | undefined, now: Date = new Date()): ElectionCountdown[] {
+    const today = toIsoDate(now);
+    const rules = state ? this.rules[state] : undefined;
+    const deadlines: Array<Omit<ElectionCountdown, 'daysLeft'>> = [];
+
+    if (rules) {
+      deadlines.push({
+        kind: 'registration',
+        date: shiftDate(event.date, -rules.registrationDaysBefore),
+        ...(rules.sameDayRegistration ? { sameDayRegistration: true } : {})
+      });
+      if (rules.mailBallotRequestDaysBefore !== undefined) {
+        deadlines.push({
+          kind: 'mail_ballot_request',
+          date: shiftDate(event.date, -rules.mailBallotRequestDaysBefore)
+        });
+      }
+      if (rules.earlyVotingDaysBefore !== undefined) {
+        deadlines.push({
+          kind: 'early_voting',
+          date: shiftDate(event.date, -rules.earlyVotingDaysBefore)
+        });
+      }
+    }
+    deadlines.push({ kind: 'election_day', date: event.date, electionName: event.name });
+
+    return deadlines
+      .filter(deadline => deadline.date >= today)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(deadline => ({ ...deadline, daysLeft: daysBetween(today, deadline.date) }));
+  }
+
+  /**
+   * Where a voter stands in the calendar. With nothing on the ballot soon the
+   * calendar suggests demo mode, which replays the last general election.
+   * @param mode Mode the voter picked, which decides the cycle instead of the suggestion
+   */
+  contextFor(location: { zipCode?: string; state?: string }, now: Date = new Date(), mode?: Mode): ElectionContext {
+    const state = location.state?.toUpperCase() ||
+      (location.zipCode ? this.crosswalk.lookup(location.zipCode)?.state : undefined);
+    const nextElection = this.nextElection(state, now);
+    const lastGeneralElection = this.lastGeneralElection(now);
+    const hasUpcomingBallots = !!nextElection &&
+      daysBetween(toIsoDate(now), nextElection.date) <= this.upcomingWindowDays;
+
+    const resolvedMode: Mode = mode || (hasUpcomingBallots ? 'current' : 'demo');
+    const cycle = resolvedMode === 'demo'
+      ? lastGeneralElection?.cycle ?? now.getFullYear()
+      : nextElection?.cycle ?? now.getFullYear();
+
+    return {
+      state,
+      mode: resolvedMode,
+      cycle,
+      hasUpcomingBallots,
+      nextElection,
+      lastGeneralElection,
+      countdowns: nextElection && hasUpcomingBallots ? this.countdowns(nextElection, state, now) : []
+    };
+  }
+}
+
+/**
+ * What a countdown is for, in the translator's language
+ */
+export function countdownLabel(countdown: ElectionCountdown, t: Translator): string {
+  switch (countdown.kind) {
+    case 'election_day':
+      return countdown.electionName || '';
+    case 'registration':
+      return t(countdown.sameDayRegistration ? 'countdown.registrationInAdvance' : 'countdown.registration');
+    default:
+      return t(`countdown.${countdown.kind}`);
+  }
+}
+
+export const electionCalendar = new ElectionCalendar();
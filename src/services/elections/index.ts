@@ -0,0 +1 @@
+export { countdownLabel, ElectionCalendar, electionCalendar } from './election-calendar';
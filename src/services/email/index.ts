@@ -0,0 +1,4 @@
+// The composer lives with the edge functions so analyze-content can render the same drafts
+export * from '../../../supabase/functions/_shared/email/index.ts';
+export { localFactsFor, draftsForOfficials } from './recommendation-drafts';
+export type { OfficialDraftsInput } from './recommendation-drafts';
@@ -0,0 +1,93 @@
+import { BallotMeasure, Candidate } from '@/types/api';
+import { EmailDraft, EmailLength, EmailSender, EmailTone } from '@/types/email';
+import { ElectionContext } from '@/types/elections';
+import { Locale } from '@/types/i18n';
+import { DEFAULT_LOCALE, formatDate, translate } from '@/services/i18n';
+import { localizeTerm } from '@/services/terminology';
+import {
+  categorizeRecipient,
+  composeEmail,
+  issuesFromPriorities,
+  PriorityIssueSource
+} from '../../../supabase/functions/_shared/email/index.ts';
+
+const formatDay = (date: string, language: Locale) => formatDate(new Date(`${date}T00:00:00`), language);
+
+/**
+ * Facts about the voter's area worth citing: the next election and its
+ * deadlines, then ballot measures that touch the voter's priorities
+ */
+export function localFactsFor(
+  election?: ElectionContext,
+  ballotMeasures: BallotMeasure[] = [],
+  language: Locale = DEFAULT_LOCALE
+): string[] {
+  const facts: string[] = [];
+
+  const electionDay = election?.countdowns.find(countdown => countdown.kind === 'election_day');
+  if (electionDay) {
+    facts.push(translate(language, 'email.fact.electionDay', {
+      election: electionDay.electionName || '',
+      date: formatDay(electionDay.date, language),
+      days: electionDay.daysLeft
+    }));
+  }
+  const registration = election?.countdowns.find(countdown => countdown.kind === 'registration');
+  if (registration) {
+    facts.push(translate(language, 'email.fact.registration', { date: formatDay(registration.date, language) }));
+  }
+
+  for (const measure of ballotMeasures) {
+    const concern = measure.concerns?.[0];
+    if (concern) {
+      facts.push(translate(language, 'email.fact.measure', {
+        measure: measure.title,
+        term: localizeTerm(concern.standardTerm, language)
+      }));
+    }
+  }
+  return facts;
+}
+
+export interface OfficialDraftsInput {
+  officials: Candidate[];
+  mappedPriorities: PriorityIssueSource[];
+  sender?: EmailSender;
+  election?: ElectionContext;
+  ballotMeasures?: BallotMeasure[];
+  tone?: EmailTone;
+  length?: EmailLength;
+  language?: Locale;
+}
+
+/**
+ * One draft per official, with the template picked from how the official's
+ * record lines up with the voter's priorities
+ */
+export function draftsForOfficials(input: OfficialDraftsInput): EmailDraft[] {
+  const issues = issuesFromPriorities(input.mappedPriorities);
+  const localFacts = localFactsFor(input.election, input.ballotMeasures, input.language);
+  const seen = new Set<string>();
+
+  return input.officials.flatMap(official => {
+    const key = official.personId || official.name;
+    if (seen.has(key)) return [];
+    seen.add(key);
+
+    return [composeEmail({
+      recipient: {
+        name: official.name,
+        title: official.office || official.positionSummary || '',
+        email: official.email,
+        personId: official.personId
+      },
+      category: categorizeRecipient(official.match),
+      issues,
+      localFacts,
+      sender: input.sender,
+      tone: input.tone,
+      length: input.length,
+      language: input.language
+    })];
+  });
+}
@@ -0,0 +1,82 @@
+import storedBaseline from '@/data/mapping-evaluation-baseline.json';
+import {
+  BaselineComparison,
+  EvaluationBaseline,
+  EvaluationMetrics,
+  EvaluationReport,
+  MetricName,
+  MetricRegression
+} from '@/types/evaluation';
+
+export const mappingBaseline = storedBaseline as EvaluationBaseline;
+
+const METRICS: MetricName[] = ['precision', 'recall', 'top1', 'top3', 'categoryAccuracy', 'coverage'];
+
+// Drops smaller than this are noise on a gold set of this size
+export const DEFAULT_REGRESSION_TOLERANCE = 0.02;
+
+function compareMetrics(
+  scope: string,
+  baseline: EvaluationMetrics,
+  current: EvaluationMetrics,
+  tolerance: number,
+  into: BaselineComparison
+): void {
+  for (const metric of METRICS) {
+    const before = baseline[metric];
+    const after = current[metric];
+    if (before === null || after === null) continue;
+
+    const delta = after - before;
+    const change: MetricRegression = { scope, metric, baseline: before, current: after, delta };
+    if (delta < -tolerance) into.regressions.push(change);
+    else if (delta > tolerance) into.improvements.push(change);
+  }
+}
+
+/**
+ * Compare a report with the stored baseline for its target, overall and for
+ * every category and persona both of them have
+ */
+export function compareToBaseline(
+  report: EvaluationReport,
+  baseline: EvaluationBaseline = mappingBaseline,
+  tolerance = DEFAULT_REGRESSION_TOLERANCE
+): BaselineComparison {
+  const comparison: BaselineComparison = { comparable: false, regressions: [], improvements: [] };
+  const stored = baseline.targets[report.target];
+  if (!stored) {
+    return { ...comparison, reason: `No baseline stored for "${report.target}"` };
+  }
+  if (stored.embedder !== report.embedder) {
+    return { ...comparison, reason: `Baseline was recorded with the ${stored.embedder} embedder, this run used ${report.embedder}` };
+  }
+
+  comparison.comparable = true;
+  compareMetrics('overall', stored.overall, report.overall, tolerance, comparison);
+  for (const [category, metrics] of Object.entries(report.byCategory)) {
+    if (stored.byCategory[category]) {
+      compareMetrics(`category:${category}`, stored.byCategory[category], metrics, tolerance, comparison);
+    }
+  }
+  for (const [persona, metrics] of Object.entries(report.byPersona)) {
+    if (stored.byPersona[persona]) {
+      compareMetrics(`persona:${persona}`, stored.byPersona[persona], metrics, tolerance, comparison);
+    }
+  }
+  comparison.regressions.sort((a, b) => a.delta - b.delta);
+  comparison.improvements.sort((a, b) => b.delta - a.delta);
+  return comparison;
+}
+
+/**
+ * Add or replace reports' entries in a baseline, ready to save over
+ * `src/data/mapping-evaluation-baseline.json`
+ */
+export function toBaseline(reports: EvaluationReport[], base: EvaluationBaseline = mappingBaseline): EvaluationBaseline {
+  const targets = { ...base.targets };
+  for (const { target, embedder, overall, byCategory, byPersona } of reports) {
+    targets[target] = { embedder, overall, byCategory, byPersona };
+  }
+  return { generatedAt: new Date().toISOString(), targets };
+}
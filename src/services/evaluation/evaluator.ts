@@ -0,0 +1,116 @@
+import { personaMappings, PersonaMapping } from '@/data/persona-mappings';
+import {
+  createDefaultRegistry,
+  createMappingEngine,
+  isSemanticEmbedderReady,
+  MappingStrategyRegistry,
+  PersonaMappingStrategy
+} from '@/services/mapping-engine';
+import { EvaluationReport, ExampleResult, GoldExample } from '@/types/evaluation';
+import { MappingEngine, MappingPipelineConfig, MappingStrategy, MappingStrategyName } from '@/types/mapping-engine';
+import { MappedPriority } from '@/types/policy-mappings';
+import { priorityKey } from './gold-set';
+import { scoreExample, summarize, summarizeBy } from './metrics';
+
+/**
+ * Anything the harness can grade: a named way of mapping one gold example
+ */
+export interface EvaluationTarget {
+  name: string;
+  mapExample(example: GoldExample): Promise<MappedPriority>;
+}
+
+/**
+ * Grade an existing engine as is
+ */
+export function engineTarget(name: string, engine: MappingEngine): EvaluationTarget {
+  return {
+    name,
+    mapExample: example => engine.mapPriority(example.priority)
+  };
+}
+
+export interface PipelineTargetOptions {
+  registry?: MappingStrategyRegistry;
+  // Drop each example's own curated entry from the persona lookup (default true)
+  holdOutPersonaLabels?: boolean;
+  curated?: PersonaMapping[];
+}
+
+/**
+ * Grade a mapping pipeline. The persona strategy is built from the same
+ * curated rows as the gold set, so by default each example is mapped without
+ * the row its labels came from; otherwise the pipeline would grade itself.
+ */
+export function pipelineTarget(
+  name: string,
+  config: Partial<MappingPipelineConfig> = {},
+  options: PipelineTargetOptions = {}
+): EvaluationTarget {
+  const registry = options.registry || createDefaultRegistry();
+  const curated = options.curated || personaMappings;
+  const holdOut = options.holdOutPersonaLabels !== false;
+
+  // Strategies are shared across examples so embedding vectors are computed once
+  const shared = new Map<MappingStrategyName, MappingStrategy>();
+  for (const strategyName of registry.names()) {
+    // The default learned mappings are this voter's history, not part of what's graded
+    if (strategyName === 'learned' && !options.registry) continue;
+    const strategy = registry.create(strategyName);
+    if (strategy) shared.set(strategyName, strategy);
+  }
+
+  return {
+    name,
+    mapExample: example => {
+      const perExample = new MappingStrategyRegistry();
+      shared.forEach((strategy, strategyName) => perExample.register(strategyName, () => strategy));
+
+      if (holdOut && example.labelPriority && shared.has('persona')) {
+        const labelKey = priorityKey(example.labelPriority);
+        const remaining = curated.filter(mapping => priorityKey(mapping.priority) !== labelKey);
+        perExample.register('persona', () => new PersonaMappingStrategy(remaining));
+      }
+
+      return createMappingEngine(config, perExample).mapPriority(example.priority);
+    }
+  };
+}
+
+/**
+ * Grade one strategy on its own, with no weighting or fallbacks
+ */
+export function strategyTarget(strategy: MappingStrategyName, options: PipelineTargetOptions = {}): EvaluationTarget {
+  return pipelineTarget(strategy, { strategies: [{ name: strategy, enabled: true, weight: 1 }] }, options);
+}
+
+/**
+ * Map every gold example with the target and report precision, recall, top-k
+ * and category accuracy overall, per expected category and per persona.
+ * Examples are mapped one at a time so slow strategies don't pile up.
+ */
+export async function evaluateMapping(target: EvaluationTarget, goldSet: GoldExample[]): Promise<EvaluationReport> {
+  const examples: ExampleResult[] = [];
+  for (const example of goldSet) {
+    let mapped: MappedPriority;
+    try {
+      mapped = await target.mapExample(example);
+    } catch (error) {
+      console.error(`Evaluation target "${target.name}" failed on "${example.priority}":`, error);
+      mapped = { priority: example.priority, policyTerms: [], sentiment: 'neutral', confidence: 0, needsClarification: true };
+    }
+    examples.push(scoreExample(example, mapped));
+  }
+
+  return {
+    target: target.name,
+    embedder: isSemanticEmbedderReady() ? 'semantic' : 'hashing',
+    generatedAt: new Date().toISOString(),
+    overall: summarize(examples),
+    byCategory: summarizeBy(examples, result =>
+      result.example.expectedCategories.length > 0 ? result.example.expectedCategories : ['Other']
+    ),
+    byPersona: summarizeBy(examples, result => [result.example.persona]),
+    examples
+  };
+}
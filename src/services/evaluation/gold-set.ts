@@ -0,0 +1,235 @@
+import personaCsv from '@/docs/Persona_Priorities_and_Mappings_-_Full_View.csv?raw';
+import { personaMappings, PersonaMapping } from '@/data/persona-mappings';
+import { personas as paraphrasedPersonas, PersonaData } from '@/data/testPersonas';
+import { personas as testPersonas, TestPersona } from '@/data/test-personas';
+import { TEST_PERSONAS, TestPersona as CategoryPersona } from '@/test/personas';
+import { GoldExample, GoldSource } from '@/types/evaluation';
+import { PoliticalCategory } from '@/types/priority-mapping';
+import { categorizeTerms } from '@/utils/policy-categories';
+
+/**
+ * Display categories for the mapping-service categories used by the test
+ * personas. Categories with no display equivalent are dropped.
+ */
+const DISPLAY_CATEGORIES: Partial<Record<PoliticalCategory, string>> = {
+  EDUCATION: 'Education',
+  ECONOMY: 'Economy',
+  TAXATION: 'Economy',
+  LABOR: 'Economy',
+  HOUSING: 'Economy',
+  HEALTHCARE: 'Healthcare',
+  ENVIRONMENT: 'Environment',
+  ENERGY: 'Environment',
+  CIVIL_RIGHTS: 'Civil Rights',
+  CRIMINAL_JUSTICE: 'Criminal Justice',
+  PUBLIC_SAFETY: 'Criminal Justice',
+  IMMIGRATION: 'Immigration',
+  TECHNOLOGY: 'Technology'
+};
+
+// Hand labels for the autofill personas that aren't in the persona CSV, by
+// priority position. An empty entry means no display category fits.
+const TEST_PERSONA_CATEGORIES: Record<string, string[][]> = {
+  'Concerned Parent': [
+    ['Education'],
+    ['Economy'],
+    ['Economy', 'Democracy'],
+    ['Civil Liberties', 'Civil Rights'],
+    ['Criminal Justice', 'Education'],
+    ['Education']
+  ],
+  'Skeptical Voter': [
+    ['Economy'],
+    ['Civil Rights', 'Economy'],
+    ['Environment'],
+    [],
+    ['Criminal Justice', 'Democracy'],
+    ['Technology']
+  ]
+};
+
+/**
+ * Minimal RFC 4180 reader: quoted fields may hold commas, newlines and "" escapes
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// The CSV quotes each priority with curly quotes and uses curly apostrophes
+const cleanPriority = (text: string) => text
+  .trim()
+  .replace(/^[“"]+|[”"]+$/g, '')
+  .replace(/[‘’]/g, "'")
+  .trim();
+
+export const priorityKey = (text: string) => cleanPriority(text)
+  .toLowerCase()
+  .replace(/[^a-z0-9\s]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// "Sal (19)" and "T.J." are the same people as "Sal" and "T.J" in the autofill data
+const personaKey = (name: string) => name.replace(/\s*\(.*\)\s*$/, '').replace(/\.$/, '').trim();
+
+// Curated entries list several terms as "A, B" or "A + B", as the persona strategy reads them
+const splitTerms = (mapsTo: string) => mapsTo.split(/[,+]/g).map(term => term.trim()).filter(Boolean);
+
+const categoriesOf = (terms: string[]) => {
+  const category = categorizeTerms(terms);
+  return category === 'Other' ? [] : [category];
+};
+
+function fromPersonaMapping(mapping: PersonaMapping, source: GoldSource, index: number): GoldExample {
+  const priority = cleanPriority(mapping.priority);
+  const expectedTerms = splitTerms(mapping.mapsTo);
+  return {
+    id: `${source}:${index}`,
+    priority,
+    persona: personaKey(mapping.persona),
+    source,
+    expectedTerms,
+    expectedCategories: categoriesOf(expectedTerms),
+    labelPriority: priority
+  };
+}
+
+/**
+ * The persona CSV as curated mappings, one per row
+ */
+export function csvPersonaMappings(csv: string = personaCsv): PersonaMapping[] {
+  const [header, ...rows] = parseCsv(csv);
+  const column = (name: string) => header.findIndex(cell => cell.trim().toLowerCase() === name);
+  const [persona, summary, priority, mapsTo] = ['persona', 'summary', 'priority', 'maps to'].map(column);
+  if ([persona, priority, mapsTo].some(index => index < 0)) {
+    throw new Error('Persona CSV needs Persona, Priority and Maps To columns');
+  }
+
+  return rows.map(cells => ({
+    persona: cells[persona].trim(),
+    summary: summary >= 0 ? cells[summary].trim() : '',
+    priority: cleanPriority(cells[priority]),
+    mapsTo: cells[mapsTo].trim()
+  }));
+}
+
+export interface GoldSetSources {
+  csv?: string;
+  personaMappings?: PersonaMapping[];
+  paraphrasedPersonas?: Record<string, PersonaData>;
+  testPersonas?: TestPersona[];
+  categoryPersonas?: CategoryPersona[];
+}
+
+/**
+ * Every labeled priority in the repo as one gold set. The persona CSV is the
+ * source of truth; `personaMappings` only adds rows the CSV lacks. The
+ * autofill personas paraphrase the CSV in the same order, so they borrow its
+ * labels by position. Duplicate priority text is kept once.
+ */
+export function loadGoldSet(sources: GoldSetSources = {}): GoldExample[] {
+  const curated = csvPersonaMappings(sources.csv);
+  const examples: GoldExample[] = [];
+  const seen = new Set<string>();
+  const add = (example: GoldExample) => {
+    const key = priorityKey(example.priority);
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    examples.push(example);
+  };
+
+  curated.forEach((mapping, index) => add(fromPersonaMapping(mapping, 'persona-csv', index)));
+  (sources.personaMappings || personaMappings)
+    .forEach((mapping, index) => add(fromPersonaMapping(mapping, 'persona-mappings', index)));
+
+  const curatedByPersona = new Map<string, PersonaMapping[]>();
+  for (const mapping of curated) {
+    const key = personaKey(mapping.persona);
+    curatedByPersona.set(key, [...(curatedByPersona.get(key) || []), mapping]);
+  }
+
+  for (const [name, persona] of Object.entries(sources.paraphrasedPersonas || paraphrasedPersonas)) {
+    const labels = curatedByPersona.get(personaKey(name)) || [];
+    persona.priorities.forEach((priority, index) => {
+      const label = labels[index];
+      if (!label) return;
+      const expectedTerms = splitTerms(label.mapsTo);
+      add({
+        id: `persona-paraphrase:${personaKey(name)}:${index}`,
+        priority,
+        persona: personaKey(name),
+        source: 'persona-paraphrase',
+        expectedTerms,
+        expectedCategories: categoriesOf(expectedTerms),
+        labelPriority: label.priority
+      });
+    });
+  }
+
+  for (const persona of sources.testPersonas || testPersonas) {
+    const labels = TEST_PERSONA_CATEGORIES[persona.name] || [];
+    persona.priorities.forEach((priority, index) => {
+      const expectedCategories = labels[index] || [];
+      if (expectedCategories.length === 0) return;
+      add({
+        id: `test-persona:${persona.name}:${index}`,
+        priority,
+        persona: persona.name,
+        source: 'test-persona',
+        expectedTerms: [],
+        expectedCategories
+      });
+    });
+  }
+
+  for (const persona of sources.categoryPersonas || TEST_PERSONAS) {
+    const expectedCategories = Array.from(new Set(persona.expectedCategories
+      .map(category => DISPLAY_CATEGORIES[category as PoliticalCategory])
+      .filter((category): category is string => Boolean(category))));
+    if (expectedCategories.length === 0) continue;
+    persona.values.priorities.forEach((priority, index) => add({
+      id: `category-persona:${persona.id}:${index}`,
+      priority,
+      persona: persona.description,
+      source: 'category-persona',
+      expectedTerms: [],
+      expectedCategories
+    }));
+  }
+
+  return examples;
+}
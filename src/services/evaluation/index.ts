@@ -0,0 +1,6 @@
+export { csvPersonaMappings, loadGoldSet, parseCsv, priorityKey } from './gold-set';
+export type { GoldSetSources } from './gold-set';
+export { scoreExample, summarize, summarizeBy, termsMatch } from './metrics';
+export { engineTarget, evaluateMapping, pipelineTarget, strategyTarget } from './evaluator';
+export type { EvaluationTarget, PipelineTargetOptions } from './evaluator';
+export { DEFAULT_REGRESSION_TOLERANCE, compareToBaseline, mappingBaseline, toBaseline } from './baseline';
@@ -0,0 +1,101 @@
+import { EvaluationMetrics, ExampleResult, GoldExample } from '@/types/evaluation';
+import { MappedPriority } from '@/types/policy-mappings';
+import { categorizeTerms } from '@/utils/policy-categories';
+
+const STOP_WORDS = new Set([
+  'and', 'the', 'for', 'with', 'not', 'but', 'of', 'to', 'in', 'on', 'a', 'an', 'or',
+  'policy', 'policies', 'reform', 'protections', 'protection', 'initiatives', 'access'
+]);
+
+// Content words, lightly stemmed so "rights" meets "right" and "regulations" meets "regulation"
+const contentWords = (term: string) => new Set(term
+  .toLowerCase()
+  .replace(/[^a-z0-9\s]/g, ' ')
+  .split(/\s+/)
+  .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  .map(word => word.replace(/(ies|s)$/, suffix => (suffix === 'ies' ? 'y' : ''))));
+
+/**
+ * Whether a predicted term names the same policy as a gold label. Curated
+ * labels are free text ("Digital privacy") while strategies return standard
+ * terms ("Data Privacy Protections"), so terms match when at least half the
+ * content words of the shorter one appear in the other.
+ */
+export function termsMatch(predicted: string, expected: string): boolean {
+  if (predicted.trim().toLowerCase() === expected.trim().toLowerCase()) return true;
+
+  const a = contentWords(predicted);
+  const b = contentWords(expected);
+  if (a.size === 0 || b.size === 0) return false;
+  const shared = Array.from(a).filter(word => b.has(word)).length;
+  return shared > 0 && shared / Math.min(a.size, b.size) >= 0.5;
+}
+
+/**
+ * Grade one mapped priority against its labels
+ */
+export function scoreExample(example: GoldExample, mapped: MappedPriority): ExampleResult {
+  const predictedTerms = mapped.policyTerms;
+  const predictedCategory = categorizeTerms(predictedTerms);
+  const matches = (term: string) => example.expectedTerms.some(expected => termsMatch(term, expected));
+  const hitIndex = predictedTerms.findIndex(matches);
+
+  return {
+    example,
+    predictedTerms,
+    predictedCategory,
+    confidence: mapped.confidence,
+    matchedTerms: predictedTerms.filter(matches),
+    foundTerms: example.expectedTerms.filter(expected => predictedTerms.some(term => termsMatch(term, expected))),
+    firstHitRank: hitIndex >= 0 ? hitIndex + 1 : undefined,
+    categoryCorrect: example.expectedCategories.length > 0
+      ? example.expectedCategories.includes(predictedCategory)
+      : undefined
+  };
+}
+
+const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : null);
+
+/**
+ * Micro-averaged metrics: precision and recall pool every term across the
+ * examples, top-k is the share of examples with a matching term in the first k
+ */
+export function summarize(results: ExampleResult[]): EvaluationMetrics {
+  const termLabeled = results.filter(result => result.example.expectedTerms.length > 0);
+  const categoryLabeled = results.filter(result => result.categoryCorrect !== undefined);
+  const sum = (items: ExampleResult[], count: (result: ExampleResult) => number) =>
+    items.reduce((total, result) => total + count(result), 0);
+  const topK = (k: number) => termLabeled.filter(result => result.firstHitRank !== undefined && result.firstHitRank <= k).length;
+
+  return {
+    examples: results.length,
+    termLabeled: termLabeled.length,
+    categoryLabeled: categoryLabeled.length,
+    precision: ratio(sum(termLabeled, r => r.matchedTerms.length), sum(termLabeled, r => r.predictedTerms.length)),
+    recall: ratio(sum(termLabeled, r => r.foundTerms.length), sum(termLabeled, r => r.example.expectedTerms.length)),
+    top1: ratio(topK(1), termLabeled.length),
+    top3: ratio(topK(3), termLabeled.length),
+    categoryAccuracy: ratio(categoryLabeled.filter(result => result.categoryCorrect).length, categoryLabeled.length),
+    coverage: ratio(results.filter(result => result.predictedTerms.length > 0).length, results.length)
+  };
+}
+
+/**
+ * Metrics per group; an example in several groups counts toward each
+ */
+export function summarizeBy(
+  results: ExampleResult[],
+  groupsOf: (result: ExampleResult) => string[]
+): Record<string, EvaluationMetrics> {
+  const groups = new Map<string, ExampleResult[]>();
+  for (const result of results) {
+    for (const group of groupsOf(result)) {
+      groups.set(group, [...(groups.get(group) || []), result]);
+    }
+  }
+  return Object.fromEntries(
+    Array.from(groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([group, items]) => [group, summarize(items)])
+  );
+}
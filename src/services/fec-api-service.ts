@@ -1,37 +1,48 @@
 import { Toast } from '@/types/toast';
 import { Candidate } from '@/types/api';
+import { PeopleDataset } from '@/types/people';
+import { CandidateFinances } from '@/types/finance';
+import { candidatesFor, FecCandidateRecord, fromFecCandidates } from '@/services/people';
+import { FecFinanceResponses, fromFecResponses, sampleFinanceRecords, summarizeFinances } from '@/services/finance';
 
-const MOCK_CANDIDATES: Candidate[] = [
+// Raw FEC records for the demo, so they go through the same adapter as live data
+const MOCK_FEC_CANDIDATES: FecCandidateRecord[] = [
   {
-    name: "John Smith",
-    party: "Democratic Party",
-    office: "President",
-    alignment: "✅",
-    platformHighlights: [
-      "Climate Change Action",
-      "Healthcare Reform",
-      "Education Investment"
-    ],
-    rationale: "Strong alignment with environmental and social policies",
-    officialWebsite: "https://example.com/john-smith",
-    positionSummary: "Progressive candidate focused on climate action and social justice"
+    candidate_id: "P00000001",
+    name: "SMITH, JOHN",
+    party: "DEM",
+    party_full: "DEMOCRATIC PARTY",
+    office: "P",
+    state: "US",
+    incumbent_challenge: "O",
+    candidate_url: "https://example.com/john-smith"
   },
   {
-    name: "Jane Doe",
-    party: "Republican Party",
-    office: "President",
-    alignment: "⚠️",
-    platformHighlights: [
-      "Economic Growth",
-      "Tax Reform",
-      "Border Security"
-    ],
-    rationale: "Moderate alignment on economic policies",
-    officialWebsite: "https://example.com/jane-doe",
-    positionSummary: "Conservative candidate prioritizing economic growth"
+    candidate_id: "P00000002",
+    name: "DOE, JANE",
+    party: "REP",
+    party_full: "REPUBLICAN PARTY",
+    office: "P",
+    state: "US",
+    incumbent_challenge: "O",
+    candidate_url: "https://example.com/jane-doe"
   }
 ];
 
+// FEC has no platform data, so the demo candidates' platforms are listed here
+const MOCK_PLATFORMS: Record<string, string[]> = {
+  P00000001: [
+    "Climate Change Action",
+    "Healthcare Reform",
+    "Education Investment"
+  ],
+  P00000002: [
+    "Economic Growth",
+    "Tax Reform",
+    "Border Security"
+  ]
+};
+
 export class FecApiService {
   private apiKey: string | undefined;
   private baseUrl = 'https://api.open.fec.gov/v1';
@@ -50,10 +61,16 @@ export class FecApiService {
     }
   }
 
-  async getCandidates(electionYear: string): Promise<Candidate[]> {
+  /**
+   * Presidential candidates for an election year, normalized into the people model
+   */
+  async getCandidacies(electionYear: string): Promise<PeopleDataset> {
+    const cycle = Number(electionYear);
+    const mockData = () => fromFecCandidates(MOCK_FEC_CANDIDATES, cycle, MOCK_PLATFORMS);
+
     if (!this.apiKey) {
       console.warn('FEC API key not found, using mock data');
-      return MOCK_CANDIDATES;
+      return mockData();
     }
 
     try {
@@ -65,19 +82,8 @@ export class FecApiService {
         throw new Error('Failed to fetch candidates from FEC API');
       }
 
-      const data = await response.json();
-      
-      // Transform FEC API data into our Candidate format
-      return data.results.map((candidate: any) => ({
-        name: candidate.name,
-        party: candidate.party_full,
-        office: "President",
-        alignment: "⚠️", // Default to medium alignment
-        platformHighlights: [],
-        rationale: "Candidate data from FEC API",
-        officialWebsite: candidate.candidate_url || "",
-        positionSummary: `${candidate.party_full} candidate for President`
-      }));
+      const data: { results: FecCandidateRecord[] } = await response.json();
+      return fromFecCandidates(data.results, cycle);
     } catch (error: any) {
       console.warn('Failed to fetch from FEC API, using mock data:', error);
       this.toast({
@@ -85,7 +91,61 @@ export class FecApiService {
         description: 'Could not connect to FEC API, showing example candidates',
         variant: 'default',
       });
-      return MOCK_CANDIDATES;
+      return mockData();
+    }
+  }
+
+  async getCandidates(electionYear: string): Promise<Candidate[]> {
+    return candidatesFor(await this.getCandidacies(electionYear));
+  }
+
+  /**
+   * A candidate's fundraising, donors and outside spending for a cycle. Demo
+   * candidates, and every candidate when the API is unreachable, use the
+   * bundled sample responses; null means there is nothing to show.
+   */
+  async getCandidateFinances(candidateId: string, cycle: number): Promise<CandidateFinances | null> {
+    const sample = () => {
+      const records = sampleFinanceRecords(candidateId);
+      return records ? summarizeFinances(records) : null;
+    };
+
+    if (!this.apiKey) return sample();
+
+    try {
+      const get = async (endpoint: string, params: Record<string, string> = {}) => {
+        const query = new URLSearchParams({ ...params, api_key: this.apiKey!, cycle: cycle.toString() });
+        const response = await fetch(`${this.baseUrl}${endpoint}?${query}`);
+        if (!response.ok) {
+          throw new Error(`FEC API request failed: ${response.statusText}`);
+        }
+        return response.json();
+      };
+
+      const committees = await get(`/candidate/${candidateId}/committees/`, { designation: 'P' });
+      const committeeId: string | undefined = committees.results?.[0]?.committee_id;
+      const empty = { results: [] };
+
+      const [totals, bySize, byEmployer, scheduleE, reports] = await Promise.all([
+        get(`/candidate/${candidateId}/totals/`),
+        committeeId ? get('/schedules/schedule_a/by_size/', { committee_id: committeeId }) : empty,
+        committeeId ? get('/schedules/schedule_a/by_employer/', { committee_id: committeeId, sort: '-total', per_page: '50' }) : empty,
+        get('/schedules/schedule_e/by_candidate/', { candidate_id: candidateId, per_page: '50' }),
+        committeeId ? get(`/committee/${committeeId}/reports/`, { per_page: '20' }) : empty
+      ]);
+
+      const responses: FecFinanceResponses = {
+        committee_id: committeeId,
+        totals,
+        by_size: bySize,
+        by_employer: byEmployer,
+        schedule_e: scheduleE,
+        reports
+      };
+      return summarizeFinances(fromFecResponses(candidateId, cycle, responses));
+    } catch (error: any) {
+      console.warn('Failed to fetch finances from FEC API, using sample data:', error);
+      return sample();
     }
   }
 
@@ -0,0 +1,261 @@
+import {
+  CandidateFinances,
+  ContributorGroup,
+  DonorSizeBucket,
+  FinancePeriod,
+  OutsideSpender
+} from '@/types/finance';
+import { classifyIndustry, normalizeEmployer } from './industries';
+
+/**
+ * /candidate/{id}/totals result
+ */
+export interface FecCandidateTotals {
+  candidate_id: string;
+  cycle: number;
+  receipts?: number;
+  disbursements?: number;
+  last_cash_on_hand_end_period?: number;
+  last_debts_owed_by_committee?: number;
+  individual_contributions?: number;
+  individual_itemized_contributions?: number;
+  individual_unitemized_contributions?: number;
+  candidate_contribution?: number;
+  loans_made_by_candidate?: number;
+  coverage_end_date?: string;
+}
+
+/**
+ * /schedules/schedule_a/by_size result. `size` is the bottom of the band: 0 means under $200.
+ */
+export interface FecSizeAggregate {
+  size: number;
+  total: number;
+  count?: number;
+}
+
+/**
+ * /schedules/schedule_a/by_employer result
+ */
+export interface FecEmployerAggregate {
+  employer: string | null;
+  total: number;
+  count?: number;
+}
+
+/**
+ * /schedules/schedule_e/by_candidate result
+ */
+export interface FecIndependentExpenditure {
+  committee_id: string;
+  committee_name?: string;
+  support_oppose_indicator: 'S' | 'O';
+  total: number;
+}
+
+/**
+ * /committee/{id}/reports result
+ */
+export interface FecCommitteeReport {
+  report_type_full?: string;
+  coverage_end_date: string;
+  total_receipts_period?: number;
+  total_disbursements_period?: number;
+  cash_on_hand_end_period?: number;
+}
+
+/**
+ * Everything the FEC returns about one candidate's money in a cycle
+ */
+export interface FecFinanceRecords {
+  candidateId: string;
+  committeeId?: string;
+  cycle: number;
+  totals?: FecCandidateTotals;
+  bySize: FecSizeAggregate[];
+  byEmployer: FecEmployerAggregate[];
+  independentExpenditures: FecIndependentExpenditure[];
+  reports: FecCommitteeReport[];
+}
+
+const SIZE_LABELS: Record<number, string> = {
+  0: 'Under $200',
+  200: '$200–$499',
+  500: '$500–$999',
+  1000: '$1,000–$1,999',
+  2000: '$2,000 and over'
+};
+
+export const SMALL_DOLLAR_LIMIT = 200;
+export const LARGE_DONOR_MINIMUM = 1000;
+
+const share = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Individual contributions by FEC size band, smallest first
+ */
+export function donorSizeBuckets(bySize: FecSizeAggregate[]): DonorSizeBucket[] {
+  const total = sum(bySize.map(bucket => bucket.total));
+  return [...bySize]
+    .sort((a, b) => a.size - b.size)
+    .map(bucket => ({
+      label: SIZE_LABELS[bucket.size] || `$${bucket.size.toLocaleString('en-US')} and over`,
+      minimum: bucket.size,
+      total: bucket.total,
+      count: bucket.count,
+      share: share(bucket.total, total)
+    }));
+}
+
+/**
+ * Employers grouped under one spelling, largest first. Non-answers like
+ * "INFORMATION REQUESTED" are left out.
+ */
+export function topEmployers(byEmployer: FecEmployerAggregate[], limit = 5): ContributorGroup[] {
+  const groups = new Map<string, { total: number; count: number }>();
+  for (const row of byEmployer) {
+    const name = normalizeEmployer(row.employer);
+    if (!name) continue;
+    const group = groups.get(name) || { total: 0, count: 0 };
+    group.total += row.total;
+    group.count += row.count || 0;
+    groups.set(name, group);
+  }
+  return rankGroups(groups, sum(byEmployer.map(row => row.total)), limit);
+}
+
+/**
+ * Employers rolled up into industries, largest first
+ */
+export function topIndustries(byEmployer: FecEmployerAggregate[], limit = 5): ContributorGroup[] {
+  const groups = new Map<string, { total: number; count: number }>();
+  for (const row of byEmployer) {
+    const employer = normalizeEmployer(row.employer);
+    if (!employer) continue;
+    const industry = classifyIndustry(employer);
+    const group = groups.get(industry) || { total: 0, count: 0 };
+    group.total += row.total;
+    group.count += row.count || 0;
+    groups.set(industry, group);
+  }
+  return rankGroups(groups, sum(byEmployer.map(row => row.total)), limit);
+}
+
+function rankGroups(groups: Map<string, { total: number; count: number }>, whole: number, limit: number): ContributorGroup[] {
+  return Array.from(groups.entries())
+    .map(([name, group]) => ({ name, total: group.total, count: group.count || undefined, share: share(group.total, whole) }))
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limit);
+}
+
+/**
+ * Independent expenditures for and against the candidate, with the biggest spenders
+ */
+export function outsideSpending(expenditures: FecIndependentExpenditure[], limit = 5): CandidateFinances['outsideSpending'] {
+  const spenders = new Map<string, OutsideSpender>();
+  for (const item of expenditures) {
+    const spender = spenders.get(item.committee_id) || {
+      committeeId: item.committee_id,
+      committeeName: normalizeEmployer(item.committee_name) || item.committee_id,
+      support: 0,
+      oppose: 0
+    };
+    if (item.support_oppose_indicator === 'S') spender.support += item.total;
+    else spender.oppose += item.total;
+    spenders.set(item.committee_id, spender);
+  }
+
+  const all = Array.from(spenders.values());
+  const support = sum(all.map(spender => spender.support));
+  const oppose = sum(all.map(spender => spender.oppose));
+  return {
+    support,
+    oppose,
+    total: support + oppose,
+    topSpenders: all.sort((a, b) => (b.support + b.oppose) - (a.support + a.oppose)).slice(0, limit)
+  };
+}
+
+/**
+ * Filing periods in date order, for trend charts
+ */
+export function financeTrend(reports: FecCommitteeReport[]): FinancePeriod[] {
+  return [...reports]
+    .sort((a, b) => a.coverage_end_date.localeCompare(b.coverage_end_date))
+    .map(report => ({
+      label: report.report_type_full || report.coverage_end_date.slice(0, 10),
+      endDate: report.coverage_end_date.slice(0, 10),
+      receipts: report.total_receipts_period || 0,
+      disbursements: report.total_disbursements_period || 0,
+      cashOnHand: report.cash_on_hand_end_period || 0
+    }));
+}
+
+/**
+ * Turn raw FEC responses into the figures the finance panel shows. Size bands
+ * are preferred for small-dollar and large-donor shares; without them the
+ * unitemized total stands in for small donations.
+ */
+export function summarizeFinances(records: FecFinanceRecords): CandidateFinances {
+  const totals = records.totals;
+  const donorSizes = donorSizeBuckets(records.bySize);
+  const receipts = totals?.receipts || 0;
+  const individualContributions = totals?.individual_contributions || sum(records.bySize.map(bucket => bucket.total));
+
+  const smallDollarTotal = donorSizes.length > 0
+    ? sum(donorSizes.filter(bucket => bucket.minimum < SMALL_DOLLAR_LIMIT).map(bucket => bucket.total))
+    : totals?.individual_unitemized_contributions || 0;
+  const largeDonorTotal = sum(donorSizes.filter(bucket => bucket.minimum >= LARGE_DONOR_MINIMUM).map(bucket => bucket.total));
+
+  const contributions = totals?.candidate_contribution || 0;
+  const loans = totals?.loans_made_by_candidate || 0;
+  const trend = financeTrend(records.reports);
+
+  return {
+    candidateId: records.candidateId,
+    committeeId: records.committeeId,
+    cycle: records.cycle,
+    coverageEndDate: totals?.coverage_end_date?.slice(0, 10) || trend[trend.length - 1]?.endDate,
+    receipts,
+    disbursements: totals?.disbursements || 0,
+    cashOnHand: totals?.last_cash_on_hand_end_period ?? trend[trend.length - 1]?.cashOnHand ?? 0,
+    debts: totals?.last_debts_owed_by_committee || 0,
+    individualContributions,
+    smallDollar: { total: smallDollarTotal, share: share(smallDollarTotal, individualContributions) },
+    largeDonor: { total: largeDonorTotal, share: share(largeDonorTotal, individualContributions) },
+    donorSizes,
+    topEmployers: topEmployers(records.byEmployer),
+    topIndustries: topIndustries(records.byEmployer),
+    selfFunding: { contributions, loans, total: contributions + loans, share: share(contributions + loans, receipts) },
+    outsideSpending: outsideSpending(records.independentExpenditures),
+    trend
+  };
+}
+
+/**
+ * Raw endpoint responses, each in the API's `{ results }` envelope
+ */
+export interface FecFinanceResponses {
+  committee_id?: string;
+  totals?: { results: FecCandidateTotals[] };
+  by_size?: { results: FecSizeAggregate[] };
+  by_employer?: { results: FecEmployerAggregate[] };
+  schedule_e?: { results: FecIndependentExpenditure[] };
+  reports?: { results: FecCommitteeReport[] };
+}
+
+export function fromFecResponses(candidateId: string, cycle: number, responses: FecFinanceResponses): FecFinanceRecords {
+  const totals = responses.totals?.results.find(result => result.cycle === cycle) || responses.totals?.results[0];
+  return {
+    candidateId,
+    committeeId: responses.committee_id,
+    cycle: totals?.cycle || cycle,
+    totals,
+    bySize: responses.by_size?.results || [],
+    byEmployer: responses.by_employer?.results || [],
+    independentExpenditures: responses.schedule_e?.results || [],
+    reports: responses.reports?.results || []
+  };
+}
@@ -0,0 +1,22 @@
+export {
+  LARGE_DONOR_MINIMUM,
+  SMALL_DOLLAR_LIMIT,
+  donorSizeBuckets,
+  financeTrend,
+  fromFecResponses,
+  outsideSpending,
+  summarizeFinances,
+  topEmployers,
+  topIndustries
+} from './finance-analytics';
+export type {
+  FecCandidateTotals,
+  FecCommitteeReport,
+  FecEmployerAggregate,
+  FecFinanceRecords,
+  FecFinanceResponses,
+  FecIndependentExpenditure,
+  FecSizeAggregate
+} from './finance-analytics';
+export { classifyIndustry, normalizeEmployer } from './industries';
+export { sampleFinanceRecords } from './sample-finances';
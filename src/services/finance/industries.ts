@@ -0,0 +1,51 @@
+// Employer values that say the donor wasn't asked or didn't answer
+const NON_ANSWERS = new Set(['', 'N/A', 'NA', 'NONE', 'INFORMATION REQUESTED', 'INFORMATION REQUESTED PER BEST EFFORTS', 'REQUESTED']);
+
+const EMPLOYER_ALIASES: Record<string, string> = {
+  'SELF': 'Self-employed',
+  'SELF EMPLOYED': 'Self-employed',
+  'SELF-EMPLOYED': 'Self-employed',
+  'NOT EMPLOYED': 'Not employed',
+  'UNEMPLOYED': 'Not employed',
+  'HOMEMAKER': 'Homemaker',
+  'RETIRED': 'Retired',
+  'STUDENT': 'Student'
+};
+
+// First match wins, so specific patterns come before broad ones
+const INDUSTRY_RULES: Array<{ industry: string; pattern: RegExp }> = [
+  { industry: 'Retired', pattern: /^retired$/i },
+  { industry: 'Not employed', pattern: /^(not employed|homemaker|student)$/i },
+  { industry: 'Self-employed', pattern: /^self-employed$/i },
+  { industry: 'Law', pattern: /\b(llp|law|legal|attorneys?)\b/i },
+  { industry: 'Technology', pattern: /\b(google|alphabet|microsoft|apple|amazon|meta|facebook|oracle|intel|software|tech)\b/i },
+  { industry: 'Finance', pattern: /\b(sachs|jpmorgan|chase|morgan stanley|blackstone|capital|bank|financial|investments?|securities)\b/i },
+  { industry: 'Health care', pattern: /\b(kaiser|hospital|health|medical|clinic|pharma\w*)\b/i },
+  { industry: 'Education', pattern: /\b(university|college|school|academy)\b/i },
+  { industry: 'Energy', pattern: /\b(exxon|chevron|oil|gas|energy|petroleum|solar)\b/i },
+  { industry: 'Real estate', pattern: /\b(realty|real estate|properties|homes)\b/i },
+  { industry: 'Government', pattern: /\b(state of|county of|city of|department|u\.?s\.? army|navy|government)\b/i }
+];
+
+/**
+ * One spelling per employer, or null for non-answers like "INFORMATION REQUESTED"
+ */
+export function normalizeEmployer(employer: string | null | undefined): string | null {
+  const value = (employer || '').trim().toUpperCase().replace(/\s+/g, ' ');
+  if (NON_ANSWERS.has(value)) return null;
+  if (EMPLOYER_ALIASES[value]) return EMPLOYER_ALIASES[value];
+
+  return value
+    .replace(/[.,]+$/, '')
+    .toLowerCase()
+    .replace(/(^|[\s&-])(\w)/g, (_, separator, letter) => separator + letter.toUpperCase())
+    .replace(/\b(Llp|Llc|Pac)\b/g, suffix => suffix.toUpperCase());
+}
+
+/**
+ * Best-guess industry for a normalized employer. FEC only reports employers,
+ * so this is a keyword match, not an authoritative coding.
+ */
+export function classifyIndustry(employer: string): string {
+  return INDUSTRY_RULES.find(rule => rule.pattern.test(employer))?.industry || 'Other';
+}
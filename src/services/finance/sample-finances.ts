@@ -0,0 +1,12 @@
+import sampleData from '@/data/fec-finance.json';
+import { FecFinanceRecords, FecFinanceResponses, fromFecResponses } from './finance-analytics';
+
+const SAMPLE_CYCLE = 2024;
+
+/**
+ * Sample FEC records for a demo candidate, if there are any
+ */
+export function sampleFinanceRecords(candidateId: string): FecFinanceRecords | undefined {
+  const responses = (sampleData.candidates as Record<string, FecFinanceResponses>)[candidateId];
+  return responses ? fromFecResponses(candidateId, SAMPLE_CYCLE, responses) : undefined;
+}
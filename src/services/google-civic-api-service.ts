@@ -1,34 +1,38 @@
 import { Toast } from '@/types/toast';
+import { VoterLocation } from '@/types/districts';
+import type { CivicRepresentativesResponse } from '@/services/people';
 
-interface CivicApiResponse {
-  offices: Array<{
-    name: string;
-    officialIndices: number[];
-  }>;
-  officials: Array<{
-    name: string;
-    party: string;
-    urls?: string[];
-  }>;
-  normalizedInput?: {
-    city: string;
-    state: string;
-    zip: string;
-  };
+/**
+ * An election from Google Civic's /elections list
+ */
+export interface CivicElection {
+  id: string;
+  name: string;
+  electionDay: string;
+  ocdDivisionId?: string;
 }
 
-const MOCK_CIVIC_DATA: CivicApiResponse = {
+const MOCK_CIVIC_DATA: CivicRepresentativesResponse = {
   offices: [
     {
       name: "U.S. Senate",
+      divisionId: "ocd-division/country:us/state:ca",
+      levels: ["country"],
+      roles: ["legislatorUpperBody"],
       officialIndices: [0, 1]
     },
     {
       name: "U.S. House",
+      divisionId: "ocd-division/country:us/state:ca/cd:11",
+      levels: ["country"],
+      roles: ["legislatorLowerBody"],
       officialIndices: [2]
     },
     {
       name: "State Governor",
+      divisionId: "ocd-division/country:us/state:ca",
+      levels: ["administrativeArea1"],
+      roles: ["headOfGovernment"],
       officialIndices: [3]
     }
   ],
@@ -36,28 +40,36 @@ const MOCK_CIVIC_DATA: CivicApiResponse = {
     {
       name: "Senator Alex Johnson",
       party: "Democratic Party",
-      urls: ["https://example.com/alex-johnson"]
+      urls: ["https://example.com/alex-johnson"],
+      emails: ["alex.johnson@senate.gov"]
     },
     {
       name: "Senator Maria Garcia",
       party: "Republican Party",
-      urls: ["https://example.com/maria-garcia"]
+      urls: ["https://example.com/maria-garcia"],
+      emails: ["maria.garcia@senate.gov"]
     },
     {
       name: "Representative Chris Lee",
       party: "Democratic Party",
-      urls: ["https://example.com/chris-lee"]
+      urls: ["https://example.com/chris-lee"],
+      emails: ["chris.lee@house.gov"]
     },
     {
       name: "Governor Sarah Wilson",
       party: "Republican Party",
-      urls: ["https://example.com/sarah-wilson"]
+      urls: ["https://example.com/sarah-wilson"],
+      emails: ["governor.wilson@ca.gov"]
     }
   ],
   normalizedInput: {
     city: "San Francisco",
     state: "CA",
     zip: "94105"
+  },
+  divisions: {
+    "ocd-division/country:us/state:ca": { name: "California" },
+    "ocd-division/country:us/state:ca/cd:11": { name: "California's 11th Congressional District" }
   }
 };
 
@@ -79,15 +91,25 @@ export class GoogleCivicApiService {
     }
   }
 
-  async getRepresentativesByAddress(zipCode: string): Promise<CivicApiResponse> {
+  /**
+   * Look up representatives by full address when the voter gave one, otherwise
+   * by ZIP code (which can't tell apart districts the ZIP straddles)
+   */
+  async getRepresentativesByAddress(location: string | VoterLocation): Promise<CivicRepresentativesResponse> {
     if (!this.apiKey) {
       console.warn('Google Civic API key not found, using mock data');
       return MOCK_CIVIC_DATA;
     }
 
+    const query = typeof location === 'string'
+      ? location
+      : location.address?.trim()
+        ? `${location.address.trim()} ${location.zipCode}`
+        : location.zipCode;
+
     try {
       const response = await fetch(
-        `${this.baseUrl}/representatives?key=${this.apiKey}&address=${zipCode}`,
+        `${this.baseUrl}/representatives?key=${this.apiKey}&address=${encodeURIComponent(query)}`,
       );
 
       if (!response.ok) {
@@ -107,6 +129,20 @@ export class GoogleCivicApiService {
     }
   }
 
+  /**
+   * Upcoming elections Google knows about. Without an API key there are none,
+   * and callers fall back to the bundled election calendar.
+   */
+  async getElections(): Promise<{ elections: CivicElection[] }> {
+    if (!this.apiKey) return { elections: [] };
+
+    const response = await fetch(`${this.baseUrl}/elections?key=${this.apiKey}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch elections from Google Civic API');
+    }
+    return response.json();
+  }
+
   async checkConnection(): Promise<boolean> {
     if (!this.apiKey) return false;
 
@@ -0,0 +1,5 @@
+// Locales and language detection live with the edge functions so the email
+// composer and terminology can use them too
+export * from '../../../supabase/functions/_shared/i18n/index.ts';
+export { createTranslator, formatDate, translate } from './translate';
+export type { MessageCatalog, MessageKey, TranslationValues, Translator } from './translate';
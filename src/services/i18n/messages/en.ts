@@ -0,0 +1,313 @@
+/**
+ * English UI strings, the reference catalog: every other locale must define
+ * the same keys. `{name}` placeholders are filled in by `translate`.
+ */
+export const en = {
+  'language.label': 'Language',
+
+  'common.error': 'Error',
+  'common.cancel': 'Cancel',
+  'common.tryAgain': 'Please try again.',
+
+  'voterForm.title': 'Your Top Priorities',
+  'voterForm.placeholder': 'Priority {number}',
+  'voterForm.required': 'At least one priority is required',
+  'voterForm.random': 'Random',
+  'voterForm.submit': 'Submit',
+  'voterForm.analyzing': 'Analyzing...',
+  'voterForm.analyzingPriorities': 'Analyzing your priorities...',
+  'voterForm.mode': 'Mode Selection',
+  'voterForm.mode.current': 'Current Date',
+  'voterForm.mode.demo': 'Election SIM Mode',
+  'voterForm.mode.automatic': 'Picked for you from the election calendar.',
+  'voterForm.mode.reset': 'Pick automatically',
+  'voterForm.modeChanged': 'Mode changed to {mode}',
+  'voterForm.modeChangedDescription': 'Your form has been updated with the new mode.',
+  'voterForm.zipCode': 'ZIP Code',
+  'voterForm.zipCodeInvalid': 'ZIP code must be exactly 5 digits',
+  'voterForm.address': 'Street address (optional)',
+  'voterForm.addressTooLong': 'Address must not exceed 200 characters',
+  'voterForm.addressHelp': 'Some ZIP codes cross district lines. Your address lets us find your exact districts.',
+  'voterForm.autoFilled': 'Auto-filled!',
+  'voterForm.autoFilledDescription': 'Random ZIP and priorities set.',
+  'voterForm.priorities': 'Your Voting Priorities',
+  'voterForm.prioritiesDescription': "Tell us what matters most to you, and we'll help match you with candidates and measures that align with your values.",
+  'voterForm.mapping': 'Priorities Mapping',
+  'voterForm.mappingDescription': "We have mapped your priorities to policy terms to provide the best recommendations. Please update your priorities below if we didn't get this right!",
+  'voterForm.getRecommendations': 'Get Recommendations',
+  'voterForm.generating': 'Generating recommendations',
+  'voterForm.generatingDescription': 'Preparing your personalized recommendations based on your priorities.',
+  'voterForm.recommendationsDescription': 'Based on your priorities, here are your personalized recommendations.',
+
+  'modeSelector.title': 'Select Mode',
+  'modeSelector.description': 'Choose between current election data or demo mode for {election}.',
+  'modeSelector.lastGeneral': 'Last general election',
+  'modeSelector.upcoming': 'Picked automatically: {election} is coming up.',
+  'modeSelector.nothingUpcoming': 'Picked automatically: there is no election coming up soon.',
+  'modeSelector.currentDescription': 'Uses live election data from official sources',
+  'modeSelector.demo': 'DEMO: {election}',
+  'modeSelector.demoDescription': 'Simulates the {election} election with fixed data',
+
+  'recommendations.title': 'Your Recommendations',
+  'recommendations.alignment.high': 'High Alignment',
+  'recommendations.alignment.medium': 'Medium Alignment',
+  'recommendations.alignment.low': 'Low Alignment',
+  'recommendations.platformHighlights': 'Platform Highlights',
+  'recommendations.matchRationale': 'Match Rationale',
+  'recommendations.officialWebsite': 'Official Website',
+  'recommendations.tabs.candidates': 'Candidates',
+  'recommendations.tabs.ballot': 'Ballot Measures',
+  'recommendations.tabs.resources': 'Resources',
+  'recommendations.tabs.email': 'Email',
+  'recommendations.noCandidates': 'No candidate recommendations available for your current settings.',
+  'recommendations.noBallotMeasures': 'No ballot measure recommendations available for your current settings.',
+  'recommendations.intro.current': 'Based on your priorities, here are the elected officials, candidates, and civic actions that most closely match your concerns.',
+  'recommendations.intro.demo': 'Here are your personalized recommendations for {election} in ZIP code {zipCode}.',
+  'recommendations.intro.demoElection': 'the {date} election',
+  'recommendations.intro.lastGeneral': 'the most recent general election',
+  'recommendations.zipCode': 'For ZIP Code:',
+  'recommendations.region': 'Region:',
+  'recommendations.freshness.offline': 'Made offline with saved data',
+  'recommendations.freshness.stale': 'Some data could not be refreshed',
+  'recommendations.freshness.candidates': 'Candidates as of {date}',
+  'recommendations.freshness.representatives': 'representatives as of {date}',
+  'recommendations.freshness.none': 'No saved candidate or representative data for this ZIP code yet',
+  'recommendations.freshness.queued': 'These results will refresh when you reconnect.',
+
+  'countdown.registration': 'Registration deadline',
+  'countdown.registrationInAdvance': 'Register in advance',
+  'countdown.mail_ballot_request': 'Mail ballot request deadline',
+  'countdown.early_voting': 'Early voting starts',
+  'countdown.today': 'today',
+  'countdown.tomorrow': 'tomorrow',
+  'countdown.days': 'in {days} days',
+
+  'mappingTable.concern': 'Your Concern',
+  'mappingTable.terms': 'Mapped Policy Term(s)',
+  'mappingTable.concernPlaceholder': 'Your concern',
+  'mappingTable.noMapping': 'No mapping available',
+  'mappingTable.stance.oppose': '(oppose)',
+  'mappingTable.stance.mixed': '(mixed)',
+  'mappingTable.youChose': 'You chose {term}',
+  'mappingTable.youSaid': 'You said "{text}"',
+  'mappingTable.clarify': 'Clarify',
+  'mappingTable.update': 'Update Mapping',
+  'mappingTable.updating': 'Updating...',
+
+  'clarification.title': 'Help Us Understand',
+  'clarification.looking': 'Looking for possible meanings of "{priority}"...',
+  'clarification.likely': '{percent}% likely',
+  'clarification.somethingElse': 'Something else',
+  'clarification.ownWords': 'Tell us in your own words',
+  'clarification.placeholder': 'Describe what you mean',
+  'clarification.answer': 'Answer',
+  'clarification.working': 'Working...',
+  'clarification.thanks': 'Thanks for clarifying',
+  'clarification.resolved': 'Priority clarified',
+  'clarification.nowMapped': 'Now mapped to {terms}.',
+  'clarification.unmatched': "We couldn't match this priority yet, but we've kept your answers.",
+  'clarification.failed': 'There was a problem applying your answer. Please try again.',
+
+  'candidates.title': 'Candidate Recommendations',
+  'candidates.sort': 'Sort by Alignment',
+  'candidates.invalid': 'Invalid candidate data format. Please try submitting the form again.',
+  'candidates.empty': 'No candidate recommendations available.',
+  'candidates.unknownOffice': 'Unknown Office',
+  'candidates.column.name': 'Name',
+  'candidates.column.summary': 'Summary',
+  'candidates.column.match': 'Match',
+  'candidates.save': 'Save',
+  'candidates.saved': 'Saved',
+  'candidates.saveFailed': "Couldn't update your saved candidates. Please try again.",
+  'candidates.finances': 'Campaign finances',
+  'candidates.hideFinances': 'Hide finances',
+  'candidates.moreHighlights': '+ {count} more',
+
+  'finance.title': 'Campaign finances, {cycle} cycle',
+  'finance.filingsThrough': 'Filings through {date}',
+  'finance.noFilings': 'No FEC filings are linked to this candidate.',
+  'finance.loading': 'Loading campaign finances…',
+  'finance.noData': 'No campaign finance data is available for this candidate.',
+  'finance.raised': 'Raised',
+  'finance.spent': 'Spent',
+  'finance.spentAmount': '{amount} spent',
+  'finance.cashOnHand': 'Cash on hand',
+  'finance.debts': '{amount} in debts',
+  'finance.smallDonors': 'Small donors (under $200)',
+  'finance.largeDonors': '{share} from $1,000+ donors',
+  'finance.selfFunding': 'Self-funding',
+  'finance.selfFundingShare': '{share} of money raised',
+  'finance.trend': 'Money raised and spent by filing period',
+  'finance.donorSizes': 'Individual donations by size',
+  'finance.topIndustries': 'Top contributor industries',
+  'finance.topEmployers': 'Top employers of donors',
+  'finance.noItemized': 'No itemized contributions reported',
+  'finance.outsideSpending': 'Outside spending',
+  'finance.noOutsideSpending': 'No independent expenditures reported',
+  'finance.outsideSummary': '{support} supporting, {oppose} opposing',
+  'finance.for': '{amount} for',
+  'finance.against': '{amount} against',
+
+  'districts.title': 'Which of these districts are you in?',
+  'districts.description': "ZIP code {zipCode} crosses district lines, so we're showing officials for every district it touches. Pick yours, or add your street address for an exact match.",
+  'districts.share': '({percent}% of ZIP)',
+  'districts.type.country': 'Country',
+  'districts.type.state': 'State',
+  'districts.type.congressional': 'Congressional district',
+  'districts.type.state_senate': 'State senate district',
+  'districts.type.state_house': 'State house district',
+  'districts.type.county': 'County',
+  'districts.type.city': 'City or town',
+  'districts.type.school_district': 'School district',
+
+  'analysis.summary.current': "Based on your priorities, we've found relevant ways for you to take action and get involved in your community.",
+  'analysis.summary.demo': 'Here are potential candidates and measures that align with your priorities for the upcoming election.',
+
+  'email.title': 'Draft Emails',
+  'email.empty': "No draft emails yet. Drafts are written to your current representatives when you're viewing current elections.",
+  'email.offline': 'Written from saved data while offline. Your edits are kept and these drafts are refreshed once you reconnect.',
+  'email.category.aligned': '✓ Aligned',
+  'email.category.opposing': '❌ Opposing',
+  'email.category.key_decision_maker': '⚡ Key Decision Maker',
+  'email.noAddress': 'No public email address listed',
+  'email.tone': 'Tone',
+  'email.tone.formal': 'Formal',
+  'email.tone.friendly': 'Friendly',
+  'email.tone.urgent': 'Urgent',
+  'email.length': 'Length',
+  'email.length.short': 'Short',
+  'email.length.standard': 'Standard',
+  'email.length.detailed': 'Detailed',
+  'email.senderName': 'Your name',
+  'email.senderPlaceholder': 'Signs the email',
+  'email.quoteVoterWords': 'Quote my own words',
+  'email.mentionLocalFacts': 'Mention local elections and measures',
+  'email.rewriteWarning': 'Changing these rewrites the draft and replaces any edits below.',
+  'email.subject': 'Subject',
+  'email.message': 'Message',
+  'email.open': 'Open in Email Client',
+  'email.copy': 'Copy',
+  'email.downloadEml': 'Download .eml',
+  'email.downloadTxt': 'Download .txt',
+  'email.copied': 'Copied',
+  'email.copiedDescription': 'Email to {name} copied to your clipboard.',
+  'email.copyFailed': "Couldn't copy",
+  'email.copyFailedDescription': 'Select the text and copy it instead.',
+  'email.fact.electionDay': 'The {election} is on {date}, {days} days from now.',
+  'email.fact.registration': 'The voter registration deadline is {date}.',
+  'email.fact.measure': '{measure} is on our ballot and bears directly on {term}.',
+
+  'guide.title': 'Your Voter Guide',
+  'guide.title.demo': 'Practice Voter Guide',
+  'guide.zipCode': 'ZIP code {zipCode}',
+  'guide.prepared': 'Prepared {date}',
+  'guide.intro': 'This guide matches your priorities to the candidates, ballot measures and organizations in your area. The last page is a sheet you can tear off and take with you when you vote.',
+  'guide.contents': 'Contents',
+  'guide.print': 'Print this guide',
+  'guide.page': 'Page {page} of {pages}',
+  'guide.match.full': 'Strong match',
+  'guide.match.partial': 'Partial match',
+  'guide.match.conflict': 'Conflicts with your priorities',
+  'guide.lean.yes': 'Leaning Yes',
+  'guide.lean.no': 'Leaning No',
+  'guide.lean.review': 'Read before voting',
+  'guide.priorities': 'Your Priorities',
+  'guide.policyAreas': 'Policy areas: {terms}',
+  'guide.unmatched': 'Not yet matched to a policy area',
+  'guide.openQuestion': 'Open question: {question}',
+  'guide.tension': 'Tension: {tension}',
+  'guide.candidates': 'Candidates',
+  'guide.ballotMeasures': 'Ballot Measures',
+  'guide.column.measure': 'Measure',
+  'guide.column.lean': 'Your lean',
+  'guide.column.why': 'Why',
+  'guide.touches': 'Touches {term}',
+  'guide.yesMeans': 'A YES vote means: {text}',
+  'guide.noMeans': 'A NO vote means: {text}',
+  'guide.supporters': 'Supporters: {names}',
+  'guide.opponents': 'Opponents: {names}',
+  'guide.emails': 'Emails to Your Representatives',
+  'guide.emailTo': 'To {name}',
+  'guide.emailSubject': 'Subject: {subject}',
+  'guide.organizations': 'Organizations',
+  'guide.petitions': 'Petitions',
+  'guide.learnMore': 'Learn More',
+  'guide.getInvolved': 'Get Involved',
+  'guide.pollSheet': 'Bring to the polls',
+  'guide.cutHere': 'Cut along the dashed line',
+  'guide.or': 'or',
+  'guide.noStrongMatch': 'No strong match',
+  'guide.alsoClose': 'Also close: {names}',
+  'guide.because': 'Because of your views on {term}',
+  'guide.replaying': 'Practice guide replaying the {election}.',
+  'guide.replayingLast': 'Practice guide replaying the last general election.',
+  'guide.disclaimer': 'These are your own notes, not an official ballot. Check your sample ballot before you vote.',
+
+  'offline.offline': "You're offline. Results use the candidate and representative data saved on this device.",
+  'offline.offlineQueued.one': "You're offline. Results use the candidate and representative data saved on this device; 1 analysis will refresh when you reconnect.",
+  'offline.offlineQueued.other': "You're offline. Results use the candidate and representative data saved on this device; {count} analyses will refresh when you reconnect.",
+  'offline.waiting.one': '1 analysis from while you were offline is waiting to refresh.',
+  'offline.waiting.other': '{count} analyses from while you were offline are waiting to refresh.',
+  'offline.refresh': 'Refresh now',
+  'offline.stalled.one': "1 analysis from while you were offline couldn't be refreshed after several tries.",
+  'offline.stalled.other': "{count} analyses from while you were offline couldn't be refreshed after several tries.",
+  'offline.retry': 'Try again',
+  'offline.discard': 'Discard',
+
+  'reminders.open': 'Remind me',
+  'reminders.title': 'Election reminders',
+  'reminders.description': 'Get a notification on this device before deadlines for ZIP code {zipCode}.',
+  'reminders.switching': 'Reminders are currently set for {zipCode}; saving switches them.',
+  'reminders.category.deadlines': 'Registration and mail ballot deadlines',
+  'reminders.category.early_voting': 'Early voting starts',
+  'reminders.category.election_day': 'Election day',
+  'reminders.category.new_measures': 'New ballot measures',
+  'reminders.turnOn': 'Turn on reminders',
+  'reminders.turnOff': 'Turn off',
+  'reminders.save': 'Save',
+  'reminders.on': 'Reminders on',
+  'reminders.onDescription': "We'll notify this device about elections for ZIP code {zipCode}.",
+  'reminders.onFailed': "Couldn't turn on reminders",
+  'reminders.off': 'Reminders off',
+  'reminders.offDescription': 'This device will no longer get election reminders.',
+  'reminders.offFailed': "Couldn't turn off reminders",
+
+  'share.open': 'Share',
+  'share.title': 'Share your guide',
+  'share.description': 'Create a read-only link to these results. Your address and email drafts are never included.',
+  'share.include': 'What to include',
+  'share.privacy.termsOnly': 'Policy areas only',
+  'share.privacy.termsOnlyDescription': 'Viewers see what your priorities map to, not what you wrote',
+  'share.privacy.full': 'My priorities as written',
+  'share.privacy.fullDescription': 'Viewers see your own words alongside the policy areas',
+  'share.expiry': 'Link expires after',
+  'share.expiry.1d': '1 day',
+  'share.expiry.7d': '7 days',
+  'share.expiry.30d': '30 days',
+  'share.expiry.never': 'Never',
+  'share.create': 'Create link',
+  'share.createFailed': 'Failed to create a share link. Please try again.',
+  'share.yourLink': 'Your link',
+  'share.copyLink': 'Copy link',
+  'share.expires': 'Expires {date}.',
+  'share.neverExpires': 'Never expires.',
+  'share.shownAsTerms': 'Your priorities are shown only as policy areas.',
+  'share.shownAsWritten': 'Your priorities are shown in your own words.',
+  'share.shareLink': 'Share link',
+  'share.turnOffLink': 'Turn off link',
+  'share.turnOff': 'Turn off',
+  'share.others': 'Other links from this browser',
+  'share.summary.termsOnly': 'policy areas only',
+  'share.summary.full': 'as written',
+  'share.summary.expires': 'expires {date}',
+  'share.copied': 'Link copied',
+  'share.copiedDescription': 'Anyone with this link can view your guide.',
+  'share.copyFailed': "Couldn't copy the link",
+  'share.copyFailedDescription': 'Select the link and copy it manually.',
+  'share.revoked': 'Link turned off',
+  'share.revokedDescription': 'The shared guide is no longer viewable.',
+  'share.revokeFailed': 'Failed to turn off the link. Please try again.',
+  'share.nativeTitle': 'My Voter Guide',
+  'share.nativeText': 'My voter guide for {place}',
+  'share.myArea': 'my area'
+};
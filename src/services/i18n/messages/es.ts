@@ -0,0 +1,311 @@
+import type { MessageCatalog } from '../translate';
+
+export const es: MessageCatalog = {
+  'language.label': 'Idioma',
+
+  'common.error': 'Error',
+  'common.cancel': 'Cancelar',
+  'common.tryAgain': 'Inténtelo de nuevo.',
+
+  'voterForm.title': 'Sus prioridades principales',
+  'voterForm.placeholder': 'Prioridad {number}',
+  'voterForm.required': 'Escriba al menos una prioridad',
+  'voterForm.random': 'Al azar',
+  'voterForm.submit': 'Enviar',
+  'voterForm.analyzing': 'Analizando...',
+  'voterForm.analyzingPriorities': 'Analizando sus prioridades...',
+  'voterForm.mode': 'Selección de modo',
+  'voterForm.mode.current': 'Fecha actual',
+  'voterForm.mode.demo': 'Modo de simulación electoral',
+  'voterForm.mode.automatic': 'Elegido según el calendario electoral.',
+  'voterForm.mode.reset': 'Elegir automáticamente',
+  'voterForm.modeChanged': 'Modo cambiado a {mode}',
+  'voterForm.modeChangedDescription': 'Su formulario se actualizó con el nuevo modo.',
+  'voterForm.zipCode': 'Código postal',
+  'voterForm.zipCodeInvalid': 'El código postal debe tener exactamente 5 dígitos',
+  'voterForm.address': 'Dirección (opcional)',
+  'voterForm.addressTooLong': 'La dirección no puede tener más de 200 caracteres',
+  'voterForm.addressHelp': 'Algunos códigos postales cruzan los límites de los distritos. Con su dirección encontramos sus distritos exactos.',
+  'voterForm.autoFilled': '¡Completado!',
+  'voterForm.autoFilledDescription': 'Se eligieron un código postal y prioridades al azar.',
+  'voterForm.priorities': 'Sus prioridades como votante',
+  'voterForm.prioritiesDescription': 'Díganos qué es lo que más le importa y le ayudaremos a encontrar candidatos y medidas que coincidan con sus valores.',
+  'voterForm.mapping': 'Relación de prioridades',
+  'voterForm.mappingDescription': 'Relacionamos sus prioridades con términos de política pública para darle las mejores recomendaciones. Si no acertamos, corrija sus prioridades abajo.',
+  'voterForm.getRecommendations': 'Ver recomendaciones',
+  'voterForm.generating': 'Preparando recomendaciones',
+  'voterForm.generatingDescription': 'Estamos preparando recomendaciones personalizadas según sus prioridades.',
+  'voterForm.recommendationsDescription': 'Según sus prioridades, estas son sus recomendaciones personalizadas.',
+
+  'modeSelector.title': 'Seleccione el modo',
+  'modeSelector.description': 'Elija entre los datos electorales actuales o el modo de demostración para {election}.',
+  'modeSelector.lastGeneral': 'Última elección general',
+  'modeSelector.upcoming': 'Elegido automáticamente: se acerca {election}.',
+  'modeSelector.nothingUpcoming': 'Elegido automáticamente: no hay elecciones próximas.',
+  'modeSelector.currentDescription': 'Usa datos electorales actualizados de fuentes oficiales',
+  'modeSelector.demo': 'DEMO: {election}',
+  'modeSelector.demoDescription': 'Simula la elección de {election} con datos fijos',
+
+  'recommendations.title': 'Sus recomendaciones',
+  'recommendations.alignment.high': 'Alineación alta',
+  'recommendations.alignment.medium': 'Alineación media',
+  'recommendations.alignment.low': 'Alineación baja',
+  'recommendations.platformHighlights': 'Puntos clave de su plataforma',
+  'recommendations.matchRationale': 'Por qué coincide',
+  'recommendations.officialWebsite': 'Sitio web oficial',
+  'recommendations.tabs.candidates': 'Candidatos',
+  'recommendations.tabs.ballot': 'Medidas electorales',
+  'recommendations.tabs.resources': 'Recursos',
+  'recommendations.tabs.email': 'Correo',
+  'recommendations.noCandidates': 'No hay recomendaciones de candidatos para su configuración actual.',
+  'recommendations.noBallotMeasures': 'No hay recomendaciones de medidas electorales para su configuración actual.',
+  'recommendations.intro.current': 'Según sus prioridades, estos son los funcionarios electos, candidatos y acciones cívicas que más se ajustan a sus inquietudes.',
+  'recommendations.intro.demo': 'Estas son sus recomendaciones personalizadas para {election} en el código postal {zipCode}.',
+  'recommendations.intro.demoElection': 'la elección del {date}',
+  'recommendations.intro.lastGeneral': 'la elección general más reciente',
+  'recommendations.zipCode': 'Código postal:',
+  'recommendations.region': 'Región:',
+  'recommendations.freshness.offline': 'Hecho sin conexión con datos guardados',
+  'recommendations.freshness.stale': 'No se pudieron actualizar algunos datos',
+  'recommendations.freshness.candidates': 'Candidatos al {date}',
+  'recommendations.freshness.representatives': 'representantes al {date}',
+  'recommendations.freshness.none': 'Todavía no hay datos guardados de candidatos ni representantes para este código postal',
+  'recommendations.freshness.queued': 'Estos resultados se actualizarán cuando vuelva a conectarse.',
+
+  'countdown.registration': 'Fecha límite de inscripción',
+  'countdown.registrationInAdvance': 'Inscríbase con anticipación',
+  'countdown.mail_ballot_request': 'Fecha límite para pedir la boleta por correo',
+  'countdown.early_voting': 'Empieza la votación anticipada',
+  'countdown.today': 'hoy',
+  'countdown.tomorrow': 'mañana',
+  'countdown.days': 'en {days} días',
+
+  'mappingTable.concern': 'Su inquietud',
+  'mappingTable.terms': 'Términos de política relacionados',
+  'mappingTable.concernPlaceholder': 'Su inquietud',
+  'mappingTable.noMapping': 'Sin términos relacionados',
+  'mappingTable.stance.oppose': '(en contra)',
+  'mappingTable.stance.mixed': '(mixto)',
+  'mappingTable.youChose': 'Usted eligió {term}',
+  'mappingTable.youSaid': 'Usted dijo "{text}"',
+  'mappingTable.clarify': 'Aclarar',
+  'mappingTable.update': 'Actualizar relación',
+  'mappingTable.updating': 'Actualizando...',
+
+  'clarification.title': 'Ayúdenos a entender',
+  'clarification.looking': 'Buscando posibles significados de "{priority}"...',
+  'clarification.likely': '{percent}% probable',
+  'clarification.somethingElse': 'Otra cosa',
+  'clarification.ownWords': 'Díganoslo en sus propias palabras',
+  'clarification.placeholder': 'Describa lo que quiere decir',
+  'clarification.answer': 'Responder',
+  'clarification.working': 'Procesando...',
+  'clarification.thanks': 'Gracias por aclarar',
+  'clarification.resolved': 'Prioridad aclarada',
+  'clarification.nowMapped': 'Ahora relacionada con {terms}.',
+  'clarification.unmatched': 'Todavía no pudimos relacionar esta prioridad, pero guardamos sus respuestas.',
+  'clarification.failed': 'Hubo un problema al aplicar su respuesta. Inténtelo de nuevo.',
+
+  'candidates.title': 'Candidatos recomendados',
+  'candidates.sort': 'Ordenar por alineación',
+  'candidates.invalid': 'Los datos de los candidatos no tienen un formato válido. Intente enviar el formulario de nuevo.',
+  'candidates.empty': 'No hay candidatos recomendados.',
+  'candidates.unknownOffice': 'Cargo desconocido',
+  'candidates.column.name': 'Nombre',
+  'candidates.column.summary': 'Resumen',
+  'candidates.column.match': 'Coincidencia',
+  'candidates.save': 'Guardar',
+  'candidates.saved': 'Guardado',
+  'candidates.saveFailed': 'No pudimos actualizar sus candidatos guardados. Inténtelo de nuevo.',
+  'candidates.finances': 'Finanzas de campaña',
+  'candidates.hideFinances': 'Ocultar finanzas',
+  'candidates.moreHighlights': '+ {count} más',
+
+  'finance.title': 'Finanzas de campaña, ciclo {cycle}',
+  'finance.filingsThrough': 'Informes hasta {date}',
+  'finance.noFilings': 'No hay informes de la FEC vinculados a este candidato.',
+  'finance.loading': 'Cargando las finanzas de campaña…',
+  'finance.noData': 'No hay datos de finanzas de campaña para este candidato.',
+  'finance.raised': 'Recaudado',
+  'finance.spent': 'Gastado',
+  'finance.spentAmount': '{amount} gastados',
+  'finance.cashOnHand': 'Efectivo disponible',
+  'finance.debts': '{amount} en deudas',
+  'finance.smallDonors': 'Donantes pequeños (menos de $200)',
+  'finance.largeDonors': '{share} de donantes de $1,000 o más',
+  'finance.selfFunding': 'Autofinanciamiento',
+  'finance.selfFundingShare': '{share} del dinero recaudado',
+  'finance.trend': 'Dinero recaudado y gastado por período de informe',
+  'finance.donorSizes': 'Donaciones individuales por monto',
+  'finance.topIndustries': 'Principales industrias donantes',
+  'finance.topEmployers': 'Principales empleadores de los donantes',
+  'finance.noItemized': 'No se declararon contribuciones detalladas',
+  'finance.outsideSpending': 'Gastos externos',
+  'finance.noOutsideSpending': 'No se declararon gastos independientes',
+  'finance.outsideSummary': '{support} a favor, {oppose} en contra',
+  'finance.for': '{amount} a favor',
+  'finance.against': '{amount} en contra',
+
+  'districts.title': '¿En cuál de estos distritos está usted?',
+  'districts.description': 'El código postal {zipCode} cruza los límites de varios distritos, así que mostramos a los funcionarios de todos ellos. Elija el suyo o agregue su dirección para obtener una coincidencia exacta.',
+  'districts.share': '({percent}% del código postal)',
+  'districts.type.country': 'País',
+  'districts.type.state': 'Estado',
+  'districts.type.congressional': 'Distrito del Congreso',
+  'districts.type.state_senate': 'Distrito del senado estatal',
+  'districts.type.state_house': 'Distrito de la cámara estatal',
+  'districts.type.county': 'Condado',
+  'districts.type.city': 'Ciudad o pueblo',
+  'districts.type.school_district': 'Distrito escolar',
+
+  'analysis.summary.current': 'Según sus prioridades, encontramos maneras de actuar y participar en su comunidad.',
+  'analysis.summary.demo': 'Estos son candidatos y medidas que coinciden con sus prioridades para la próxima elección.',
+
+  'email.title': 'Borradores de correo',
+  'email.empty': 'Todavía no hay borradores. Se escriben a sus representantes actuales cuando consulta las elecciones actuales.',
+  'email.offline': 'Escrito con datos guardados sin conexión. Sus cambios se conservan y los borradores se actualizan al volver a conectarse.',
+  'email.category.aligned': '✓ A favor',
+  'email.category.opposing': '❌ En contra',
+  'email.category.key_decision_maker': '⚡ Voto decisivo',
+  'email.noAddress': 'No tiene un correo público',
+  'email.tone': 'Tono',
+  'email.tone.formal': 'Formal',
+  'email.tone.friendly': 'Cordial',
+  'email.tone.urgent': 'Urgente',
+  'email.length': 'Extensión',
+  'email.length.short': 'Corto',
+  'email.length.standard': 'Normal',
+  'email.length.detailed': 'Detallado',
+  'email.senderName': 'Su nombre',
+  'email.senderPlaceholder': 'Firma el correo',
+  'email.quoteVoterWords': 'Citar mis propias palabras',
+  'email.mentionLocalFacts': 'Mencionar elecciones y medidas locales',
+  'email.rewriteWarning': 'Cambiar estas opciones reescribe el borrador y reemplaza sus cambios.',
+  'email.subject': 'Asunto',
+  'email.message': 'Mensaje',
+  'email.open': 'Abrir en el correo',
+  'email.copy': 'Copiar',
+  'email.downloadEml': 'Descargar .eml',
+  'email.downloadTxt': 'Descargar .txt',
+  'email.copied': 'Copiado',
+  'email.copiedDescription': 'El correo para {name} se copió al portapapeles.',
+  'email.copyFailed': 'No se pudo copiar',
+  'email.copyFailedDescription': 'Seleccione el texto y cópielo.',
+  'email.fact.electionDay': 'La elección ({election}) es el {date}, dentro de {days} días.',
+  'email.fact.registration': 'La fecha límite para inscribirse para votar es el {date}.',
+  'email.fact.measure': '{measure} está en nuestra boleta y afecta directamente a {term}.',
+
+  'guide.title': 'Su guía para votar',
+  'guide.title.demo': 'Guía de práctica para votar',
+  'guide.zipCode': 'Código postal {zipCode}',
+  'guide.prepared': 'Preparada el {date}',
+  'guide.intro': 'Esta guía relaciona sus prioridades con los candidatos, las medidas electorales y las organizaciones de su zona. La última página es una hoja que puede recortar y llevar cuando vaya a votar.',
+  'guide.contents': 'Contenido',
+  'guide.print': 'Imprimir esta guía',
+  'guide.page': 'Página {page} de {pages}',
+  'guide.match.full': 'Gran coincidencia',
+  'guide.match.partial': 'Coincidencia parcial',
+  'guide.match.conflict': 'Choca con sus prioridades',
+  'guide.lean.yes': 'Inclinación por el Sí',
+  'guide.lean.no': 'Inclinación por el No',
+  'guide.lean.review': 'Léala antes de votar',
+  'guide.priorities': 'Sus prioridades',
+  'guide.policyAreas': 'Temas: {terms}',
+  'guide.unmatched': 'Todavía no se relaciona con un tema',
+  'guide.openQuestion': 'Pregunta abierta: {question}',
+  'guide.tension': 'Tensión: {tension}',
+  'guide.candidates': 'Candidatos',
+  'guide.ballotMeasures': 'Medidas electorales',
+  'guide.column.measure': 'Medida',
+  'guide.column.lean': 'Su inclinación',
+  'guide.column.why': 'Por qué',
+  'guide.touches': 'Tiene que ver con {term}',
+  'guide.yesMeans': 'Votar SÍ significa: {text}',
+  'guide.noMeans': 'Votar NO significa: {text}',
+  'guide.supporters': 'A favor: {names}',
+  'guide.opponents': 'En contra: {names}',
+  'guide.emails': 'Correos a sus representantes',
+  'guide.emailTo': 'Para {name}',
+  'guide.emailSubject': 'Asunto: {subject}',
+  'guide.organizations': 'Organizaciones',
+  'guide.petitions': 'Peticiones',
+  'guide.learnMore': 'Aprenda más',
+  'guide.getInvolved': 'Participe',
+  'guide.pollSheet': 'Para llevar a votar',
+  'guide.cutHere': 'Recorte por la línea punteada',
+  'guide.or': 'o',
+  'guide.noStrongMatch': 'Ninguna gran coincidencia',
+  'guide.alsoClose': 'También cerca: {names}',
+  'guide.because': 'Por sus opiniones sobre {term}',
+  'guide.replaying': 'Guía de práctica que repite la elección: {election}.',
+  'guide.replayingLast': 'Guía de práctica que repite la última elección general.',
+  'guide.disclaimer': 'Estas son sus propias notas, no una boleta oficial. Revise su boleta de muestra antes de votar.',
+
+  'offline.offline': 'No tiene conexión. Los resultados usan los datos de candidatos y representantes guardados en este dispositivo.',
+  'offline.offlineQueued.one': 'No tiene conexión. Los resultados usan los datos de candidatos y representantes guardados en este dispositivo; 1 análisis se actualizará cuando vuelva a conectarse.',
+  'offline.offlineQueued.other': 'No tiene conexión. Los resultados usan los datos de candidatos y representantes guardados en este dispositivo; {count} análisis se actualizarán cuando vuelva a conectarse.',
+  'offline.waiting.one': '1 análisis hecho sin conexión está esperando para actualizarse.',
+  'offline.waiting.other': '{count} análisis hechos sin conexión están esperando para actualizarse.',
+  'offline.refresh': 'Actualizar ahora',
+  'offline.stalled.one': 'No se pudo actualizar 1 análisis hecho sin conexión después de varios intentos.',
+  'offline.stalled.other': 'No se pudieron actualizar {count} análisis hechos sin conexión después de varios intentos.',
+  'offline.retry': 'Intentar de nuevo',
+  'offline.discard': 'Descartar',
+
+  'reminders.open': 'Recordarme',
+  'reminders.title': 'Recordatorios electorales',
+  'reminders.description': 'Reciba una notificación en este dispositivo antes de las fechas límite para el código postal {zipCode}.',
+  'reminders.switching': 'Los recordatorios están configurados para {zipCode}; al guardar se cambian.',
+  'reminders.category.deadlines': 'Fechas límite de inscripción y de voto por correo',
+  'reminders.category.early_voting': 'Inicio de la votación anticipada',
+  'reminders.category.election_day': 'Día de la elección',
+  'reminders.category.new_measures': 'Nuevas medidas en la boleta',
+  'reminders.turnOn': 'Activar recordatorios',
+  'reminders.turnOff': 'Desactivar',
+  'reminders.save': 'Guardar',
+  'reminders.on': 'Recordatorios activados',
+  'reminders.onDescription': 'Le avisaremos en este dispositivo sobre las elecciones del código postal {zipCode}.',
+  'reminders.onFailed': 'No se pudieron activar los recordatorios',
+  'reminders.off': 'Recordatorios desactivados',
+  'reminders.offDescription': 'Este dispositivo ya no recibirá recordatorios electorales.',
+  'reminders.offFailed': 'No se pudieron desactivar los recordatorios',
+
+  'share.open': 'Compartir',
+  'share.title': 'Comparta su guía',
+  'share.description': 'Cree un enlace de solo lectura a estos resultados. Su dirección y sus borradores de correo nunca se incluyen.',
+  'share.include': 'Qué incluir',
+  'share.privacy.termsOnly': 'Solo áreas de política',
+  'share.privacy.termsOnlyDescription': 'Quien lo vea sabrá con qué se relacionan sus prioridades, no lo que usted escribió',
+  'share.privacy.full': 'Mis prioridades tal como las escribí',
+  'share.privacy.fullDescription': 'Quien lo vea leerá sus propias palabras junto a las áreas de política',
+  'share.expiry': 'El enlace vence después de',
+  'share.expiry.1d': '1 día',
+  'share.expiry.7d': '7 días',
+  'share.expiry.30d': '30 días',
+  'share.expiry.never': 'Nunca',
+  'share.create': 'Crear enlace',
+  'share.createFailed': 'No se pudo crear el enlace. Inténtelo de nuevo.',
+  'share.yourLink': 'Su enlace',
+  'share.copyLink': 'Copiar enlace',
+  'share.expires': 'Vence el {date}.',
+  'share.neverExpires': 'No vence nunca.',
+  'share.shownAsTerms': 'Sus prioridades se muestran solo como áreas de política.',
+  'share.shownAsWritten': 'Sus prioridades se muestran con sus propias palabras.',
+  'share.shareLink': 'Compartir enlace',
+  'share.turnOffLink': 'Desactivar enlace',
+  'share.turnOff': 'Desactivar',
+  'share.others': 'Otros enlaces de este navegador',
+  'share.summary.termsOnly': 'solo áreas de política',
+  'share.summary.full': 'tal como se escribió',
+  'share.summary.expires': 'vence el {date}',
+  'share.copied': 'Enlace copiado',
+  'share.copiedDescription': 'Cualquier persona con este enlace puede ver su guía.',
+  'share.copyFailed': 'No se pudo copiar el enlace',
+  'share.copyFailedDescription': 'Seleccione el enlace y cópielo manualmente.',
+  'share.revoked': 'Enlace desactivado',
+  'share.revokedDescription': 'La guía compartida ya no se puede ver.',
+  'share.revokeFailed': 'No se pudo desactivar el enlace. Inténtelo de nuevo.',
+  'share.nativeTitle': 'Mi guía electoral',
+  'share.nativeText': 'Mi guía electoral para {place}',
+  'share.myArea': 'mi zona'
+};
@@ -0,0 +1,34 @@
+import { Locale, LOCALE_TAGS } from '../../../supabase/functions/_shared/i18n/index.ts';
+import { en } from './messages/en';
+import { es } from './messages/es';
+
+export type MessageKey = keyof typeof en;
+
+// Typing the other catalogs with this makes a missing key a type error
+export type MessageCatalog = Record<MessageKey, string>;
+
+export type TranslationValues = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, values?: TranslationValues) => string;
+
+const CATALOGS: Record<Locale, MessageCatalog> = { en, es };
+
+/**
+ * The message for `key` in the given locale with its `{name}` placeholders
+ * filled in. Placeholders without a value are left as they are.
+ */
+export function translate(locale: Locale, key: MessageKey, values: TranslationValues = {}): string {
+  const template = CATALOGS[locale]?.[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
+
+export const createTranslator = (locale: Locale): Translator => (key, values) => translate(locale, key, values);
+
+/**
+ * "October 18, 2026" or "18 de octubre de 2026"
+ */
+export function formatDate(date: Date, locale: Locale): string {
+  return date.toLocaleDateString(LOCALE_TAGS[locale], { month: 'long', day: 'numeric', year: 'numeric' });
+}
@@ -1,15 +1,7 @@
 import fs from 'fs';
 import path from 'path';
-
-interface IssueTerm {
-  id: string;
-  term: string;
-  category: string;
-  synonyms: string[];
-  mappedPolicies: string[];
-  dateAdded: string;
-  status: 'pending' | 'approved' | 'rejected';
-}
+import { supabase } from '@/integrations/supabase/client';
+import { IssueTerm, IssueTermStatus, TerminologyAuditEntry } from '@/types/terminology';
 
 interface IssueTerminology {
   version: string;
@@ -23,8 +15,9 @@ export class IssueTerminologyService {
   private terminology: IssueTerminology;
 
   constructor(dataPath = '/src/data') {
-    // In browser environment, we'll use API endpoints instead of direct file access
-    this.terminologyPath = path.join(process.cwd(), dataPath, 'issueTerminology.json');
+    // In browser environment, we'll use API endpoints instead of direct file access.
+    // This is the file-based review queue; the terminology itself is in the shared package.
+    this.terminologyPath = path.join(process.cwd(), dataPath, 'terminology-review-queue.json');
     this.terminology = this.loadTerminology();
   }
 
@@ -58,9 +51,9 @@ export class IssueTerminologyService {
   private saveTerminology(): boolean {
     try {
       if (typeof window !== 'undefined') {
-        // Browser environment - would use API in a real implementation
-        console.log('Would save terminology via API in browser environment');
-        return true;
+        // Browser environment - changes go through BrowserIssueTerminologyService
+        console.warn('File-based terminology is read-only in the browser');
+        return false;
       }
       
       this.terminology.lastUpdated = new Date().toISOString();
@@ -163,17 +156,142 @@ export class IssueTerminologyService {
 // Create a browser-compatible version for client-side use
 export class BrowserIssueTerminologyService {
   /**
-   * Add a pending term via API
+   * Call the terminology-review edge function
+   */
+  private async invoke<T>(body: Record<string, unknown>): Promise<T> {
+    const { data, error } = await supabase.functions.invoke('terminology-review', { body });
+    if (error) {
+      throw new Error(error.message || 'Terminology review request failed');
+    }
+    if (data?.error) {
+      throw new Error(data.error);
+    }
+    return data as T;
+  }
+
+  /**
+   * Submit a pending term for review
+   * @param sourceInput The raw voter input that led to the suggestion, if different from the term
    */
   public async addPendingTerm(
     term: string,
     category: string = 'Uncategorized',
     synonyms: string[] = [],
-    mappedPolicies: string[] = []
+    mappedPolicies: string[] = [],
+    sourceInput?: string
   ): Promise<boolean> {
     try {
-      // In a real implementation, this would call an API endpoint
-      // For now, we'll just store in localStorage for demo purposes
+      await this.invoke<{ term: IssueTerm }>({
+        action: 'submit',
+        term,
+        category,
+        synonyms,
+        mappedPolicies,
+        sourceInput
+      });
+      return true;
+    } catch (error) {
+      console.error('Error submitting term for review, keeping it locally:', error);
+      return this.addLocalPendingTerm(term, category, synonyms, mappedPolicies, sourceInput);
+    }
+  }
+
+  /**
+   * Terms in the review queue (reviewers only)
+   */
+  public async listTerms(status?: IssueTermStatus): Promise<IssueTerm[]> {
+    const { terms } = await this.invoke<{ terms: IssueTerm[] }>({ action: 'list', status });
+    return terms;
+  }
+
+  /**
+   * Review status of submitted terms, keyed by lower-cased term. Open to
+   * anyone, so voters can learn how their suggestions were decided.
+   */
+  public async getTermStatuses(terms: string[]): Promise<Record<string, IssueTermStatus>> {
+    const { statuses } = await this.invoke<{ statuses: Record<string, IssueTermStatus> }>({ action: 'status', terms });
+    return statuses;
+  }
+
+  /**
+   * Edit a term's category, synonyms or mapped policies
+   */
+  public async updateTerm(
+    id: string,
+    changes: Partial<Pick<IssueTerm, 'category' | 'synonyms' | 'mappedPolicies'>>,
+    reason?: string
+  ): Promise<IssueTerm> {
+    const { term } = await this.invoke<{ term: IssueTerm }>({ action: 'update', id, ...changes, reason });
+    return term;
+  }
+
+  public async approveTerm(id: string, reason?: string): Promise<IssueTerm> {
+    const { term } = await this.invoke<{ term: IssueTerm }>({ action: 'approve', id, reason });
+    return term;
+  }
+
+  public async rejectTerm(id: string, reason: string): Promise<IssueTerm> {
+    const { term } = await this.invoke<{ term: IssueTerm }>({ action: 'reject', id, reason });
+    return term;
+  }
+
+  /**
+   * Fold a pending term into an approved one as a synonym
+   */
+  public async mergeTerm(id: string, targetId: string, reason?: string): Promise<{ term: IssueTerm; target: IssueTerm }> {
+    return this.invoke<{ term: IssueTerm; target: IssueTerm }>({ action: 'merge', id, targetId, reason });
+  }
+
+  /**
+   * Fold a pending term into a canonical terminology term, by its key
+   */
+  public async mergeIntoTerminology(id: string, termKey: string, reason?: string): Promise<IssueTerm> {
+    const { term } = await this.invoke<{ term: IssueTerm }>({ action: 'merge', id, targetTermKey: termKey, reason });
+    return term;
+  }
+
+  /**
+   * Reviewed terms the mapping engine can use: approved ones and ones merged
+   * into a terminology term. Readable by anyone.
+   */
+  public async listPublishedTerms(): Promise<IssueTerm[]> {
+    const { data, error } = await supabase
+      .from('terminology_terms')
+      .select('*')
+      .or('status.eq.approved,merged_into_term_key.not.is.null');
+    if (error) throw new Error(`Failed to load reviewed terms: ${error.message}`);
+
+    return (data || []).map(row => ({
+      id: row.id,
+      term: row.term,
+      category: row.category,
+      synonyms: row.synonyms || [],
+      mappedPolicies: row.mapped_policies || [],
+      dateAdded: row.date_added,
+      status: row.status as IssueTermStatus,
+      mergedIntoTermKey: row.merged_into_term_key || undefined
+    }));
+  }
+
+  /**
+   * Audit trail for a term, newest first
+   */
+  public async getHistory(id: string): Promise<TerminologyAuditEntry[]> {
+    const { history } = await this.invoke<{ history: TerminologyAuditEntry[] }>({ action: 'history', id });
+    return history;
+  }
+
+  /**
+   * Keep a suggestion in localStorage when the review service can't be reached
+   */
+  private addLocalPendingTerm(
+    term: string,
+    category: string,
+    synonyms: string[],
+    mappedPolicies: string[],
+    sourceInput?: string
+  ): boolean {
+    try {
       const storedTerms = localStorage.getItem('pendingTerms') || '[]';
       const pendingTerms = JSON.parse(storedTerms);
       
@@ -189,15 +307,17 @@ export class BrowserIssueTerminologyService {
       }
       
       // Add new term
-      pendingTerms.push({
+      const newTerm: IssueTerm = {
         id: Date.now().toString(),
         term,
         category,
         synonyms,
         mappedPolicies,
         dateAdded: new Date().toISOString(),
-        status: 'pending'
-      });
+        status: 'pending',
+        sourceInputs: [sourceInput || term]
+      };
+      pendingTerms.push(newTerm);
       
       // Save to localStorage
       localStorage.setItem('pendingTerms', JSON.stringify(pendingTerms));
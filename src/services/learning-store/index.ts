@@ -0,0 +1,18 @@
+import { LearningStore } from '@/types/learning';
+import { IndexedDBLearningStore } from './indexeddb-learning-store';
+import { InMemoryLearningStore } from './memory-learning-store';
+
+export { IndexedDBLearningStore } from './indexeddb-learning-store';
+export { InMemoryLearningStore } from './memory-learning-store';
+export { SupabaseLearningStore } from './supabase-learning-store';
+
+/**
+ * Default store for the current environment: IndexedDB in the browser,
+ * in-memory everywhere else. Pass a SupabaseLearningStore explicitly to share
+ * mappings across devices.
+ */
+export function createLearningStore(): LearningStore {
+  return IndexedDBLearningStore.isSupported()
+    ? new IndexedDBLearningStore()
+    : new InMemoryLearningStore();
+}
@@ -0,0 +1,82 @@
+import { LearnedMapping, LearningQuery, LearningStore } from '@/types/learning';
+import { matchesQuery } from './query';
+
+const DB_NAME = 'civic-learning';
+const DB_VERSION = 1;
+const STORE_NAME = 'learnedMappings';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Browser store that keeps learned mappings across reloads
+ */
+export class IndexedDBLearningStore implements LearningStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async list(query: LearningQuery = {}): Promise<LearnedMapping[]> {
+    const store = await this.objectStore('readonly');
+    const mappings = await requestToPromise(store.getAll() as IDBRequest<LearnedMapping[]>);
+    return mappings.filter(mapping => matchesQuery(mapping, query));
+  }
+
+  async get(id: string): Promise<LearnedMapping | null> {
+    const store = await this.objectStore('readonly');
+    const mapping = await requestToPromise(store.get(id) as IDBRequest<LearnedMapping | undefined>);
+    return mapping || null;
+  }
+
+  async put(mapping: LearnedMapping): Promise<void> {
+    await this.putMany([mapping]);
+  }
+
+  async putMany(mappings: LearnedMapping[]): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    mappings.forEach(mapping => store.put(mapping));
+    await transactionDone(store.transaction);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    ids.forEach(id => store.delete(id));
+    await transactionDone(store.transaction);
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      this.db = requestToPromise(request).catch(error => {
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+}
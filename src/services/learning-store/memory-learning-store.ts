@@ -0,0 +1,29 @@
+import { LearnedMapping, LearningQuery, LearningStore } from '@/types/learning';
+import { matchesQuery } from './query';
+
+/**
+ * Non-persistent store, used in tests and where no other storage is available
+ */
+export class InMemoryLearningStore implements LearningStore {
+  private mappings = new Map<string, LearnedMapping>();
+
+  async list(query: LearningQuery = {}): Promise<LearnedMapping[]> {
+    return Array.from(this.mappings.values()).filter(mapping => matchesQuery(mapping, query));
+  }
+
+  async get(id: string): Promise<LearnedMapping | null> {
+    return this.mappings.get(id) || null;
+  }
+
+  async put(mapping: LearnedMapping): Promise<void> {
+    this.mappings.set(mapping.id, { ...mapping });
+  }
+
+  async putMany(mappings: LearnedMapping[]): Promise<void> {
+    mappings.forEach(mapping => this.mappings.set(mapping.id, { ...mapping }));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    ids.forEach(id => this.mappings.delete(id));
+  }
+}
@@ -0,0 +1,8 @@
+import { LearnedMapping, LearningQuery } from '@/types/learning';
+
+export function matchesQuery(mapping: LearnedMapping, query: LearningQuery): boolean {
+  if (query.scope && mapping.scope !== query.scope) return false;
+  if (query.userId !== undefined && (mapping.userId || null) !== query.userId) return false;
+  if (query.status && mapping.status !== query.status) return false;
+  return true;
+}
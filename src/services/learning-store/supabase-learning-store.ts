@@ -0,0 +1,90 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import {
+  LearnedMapping,
+  LearnedMappingStatus,
+  LearningQuery,
+  LearningScope,
+  LearningStore
+} from '@/types/learning';
+
+type LearnedMappingRow = Database['public']['Tables']['learned_mappings']['Row'];
+
+const TABLE = 'learned_mappings';
+
+const fromRow = (row: LearnedMappingRow): LearnedMapping => ({
+  id: row.id,
+  scope: row.scope as LearningScope,
+  userId: row.user_id || undefined,
+  originalTerm: row.original_term,
+  clarifiedTerm: row.clarified_term,
+  issueId: row.issue_id,
+  issueName: row.issue_name,
+  confidence: row.confidence,
+  usageCount: row.usage_count,
+  status: row.status as LearnedMappingStatus,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at
+});
+
+const toRow = (mapping: LearnedMapping): LearnedMappingRow => ({
+  id: mapping.id,
+  scope: mapping.scope,
+  user_id: mapping.userId || null,
+  original_term: mapping.originalTerm,
+  clarified_term: mapping.clarifiedTerm,
+  issue_id: mapping.issueId,
+  issue_name: mapping.issueName,
+  confidence: mapping.confidence,
+  usage_count: mapping.usageCount,
+  status: mapping.status,
+  created_at: mapping.createdAt,
+  last_used_at: mapping.lastUsedAt
+});
+
+/**
+ * Server-side store backed by the `learned_mappings` table. Row level security
+ * limits users to their own mappings plus the global ones.
+ */
+export class SupabaseLearningStore implements LearningStore {
+  constructor(private client: SupabaseClient<Database> = supabase) {}
+
+  async list(query: LearningQuery = {}): Promise<LearnedMapping[]> {
+    let request = this.client.from(TABLE).select('*');
+    if (query.scope) request = request.eq('scope', query.scope);
+    if (query.userId) request = request.eq('user_id', query.userId);
+    if (query.userId === null) request = request.is('user_id', null);
+    if (query.status) request = request.eq('status', query.status);
+
+    const { data, error } = await request;
+    if (error) throw new Error(`Failed to load learned mappings: ${error.message}`);
+    return (data || []).map(fromRow);
+  }
+
+  async get(id: string): Promise<LearnedMapping | null> {
+    const { data, error } = await this.client.from(TABLE).select('*').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Failed to load learned mapping: ${error.message}`);
+    return data ? fromRow(data) : null;
+  }
+
+  async put(mapping: LearnedMapping): Promise<void> {
+    await this.putMany([mapping]);
+  }
+
+  async putMany(mappings: LearnedMapping[]): Promise<void> {
+    if (mappings.length === 0) return;
+    // user_id references auth.users; mappings learned before sign-in stay on the device
+    if (mappings.some(mapping => mapping.scope === 'user' && !mapping.userId)) {
+      throw new Error('User-scoped learned mappings need a signed-in user');
+    }
+    const { error } = await this.client.from(TABLE).upsert(mappings.map(toRow));
+    if (error) throw new Error(`Failed to save learned mappings: ${error.message}`);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const { error } = await this.client.from(TABLE).delete().in('id', ids);
+    if (error) throw new Error(`Failed to delete learned mappings: ${error.message}`);
+  }
+}
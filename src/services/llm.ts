@@ -0,0 +1,41 @@
+import {
+  createLlmClient,
+  createLlmProvider,
+  LlmClient,
+  LlmConfig,
+  LlmProviderName
+} from '../../supabase/functions/_shared/llm/index.ts';
+
+// The client lives with the edge functions so Deno can import it without a build step
+export * from '../../supabase/functions/_shared/llm/index.ts';
+
+const env: Record<string, string | undefined> = import.meta.env || {};
+
+/**
+ * App-wide LLM settings. Without `VITE_OPENAI_API_KEY` (or with
+ * `VITE_LLM_PROVIDER=fixture`) calls are answered from recorded fixtures, so
+ * the app and the test suite never need the network.
+ */
+export const APP_LLM_CONFIG: LlmConfig = {
+  provider: env.VITE_LLM_PROVIDER as LlmProviderName | undefined,
+  apiKey: env.VITE_OPENAI_API_KEY || undefined,
+  model: env.VITE_LLM_MODEL || undefined,
+  timeoutMs: 20000
+};
+
+export const llmClient = createLlmClient(APP_LLM_CONFIG);
+
+/**
+ * A client of its own for callers that bring their own API key
+ */
+export function createAppLlmClient(apiKey?: string): LlmClient {
+  return createLlmClient({ ...APP_LLM_CONFIG, apiKey: apiKey || APP_LLM_CONFIG.apiKey });
+}
+
+/**
+ * Point a client at OpenAI with a new key, unless fixture replay is forced
+ */
+export function setLlmApiKey(apiKey: string, client: LlmClient = llmClient): void {
+  if (APP_LLM_CONFIG.provider === 'fixture') return;
+  client.setProvider(createLlmProvider({ ...APP_LLM_CONFIG, provider: 'openai', apiKey }));
+}
@@ -0,0 +1,22 @@
+import { SimilarityCalibration } from '@/types/mapping-engine';
+
+// Defaults for all-MiniLM-L6-v2, which typically scores paraphrases around
+// 0.5-0.7 and unrelated sentences around 0.1-0.3
+export const MINILM_CALIBRATION: SimilarityCalibration = {
+  midpoint: 0.42,
+  steepness: 12
+};
+
+/**
+ * Maps a raw cosine similarity onto a 0-1 confidence. Sentence-embedding models
+ * rarely score unrelated text near zero, so a logistic curve centred on the
+ * model's "probably related" similarity spreads scores out where it matters.
+ * Without a calibration the similarity is used as-is.
+ */
+export function calibrateSimilarity(similarity: number, calibration?: SimilarityCalibration): number {
+  if (!calibration) {
+    return Math.max(0, Math.min(1, similarity));
+  }
+  const { midpoint, steepness } = calibration;
+  return 1 / (1 + Math.exp(-steepness * (similarity - midpoint)));
+}
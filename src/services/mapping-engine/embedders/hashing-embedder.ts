@@ -0,0 +1,41 @@
+import { Embedder } from '@/types/mapping-engine';
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'that', 'this', 'with', 'are', 'our', 'you', 'your',
+  'have', 'from', 'they', 'their', 'about', 'what', 'want', 'need', 'more', 'should'
+]);
+
+/**
+ * Dependency-free embedder that hashes word stems into a fixed number of buckets.
+ * Good enough to catch rephrasings that share vocabulary; used until the local
+ * sentence-embedding model has loaded, or when it isn't bundled.
+ */
+export class HashingEmbedder implements Embedder {
+  constructor(private dimensions = 1024) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const words = text.toLowerCase()
+      .replace(/[^\w\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+    for (const word of words) {
+      const stem = word.slice(0, 5);
+      vector[this.hash(stem) % this.dimensions] += 1;
+    }
+    return vector;
+  }
+
+  private hash(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+      hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+  }
+}
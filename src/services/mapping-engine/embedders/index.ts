@@ -0,0 +1,68 @@
+import { Embedder } from '@/types/mapping-engine';
+import { HashingEmbedder } from './hashing-embedder';
+import type { TransformersEmbedderOptions } from './transformers-embedder';
+import { WorkerEmbedder } from './worker-embedder';
+
+export { HashingEmbedder } from './hashing-embedder';
+export { WorkerEmbedder } from './worker-embedder';
+export type { TransformersEmbedderOptions } from './transformers-embedder';
+
+interface LoadableEmbedder extends Embedder {
+  load(): Promise<void>;
+}
+
+const hashingEmbedder = new HashingEmbedder();
+let semanticEmbedder: Embedder | null = null;
+let loading: Promise<boolean> | null = null;
+
+// transformers.js is only pulled in where it runs: the worker chunk, or in-process
+// when workers aren't available (Node, tests)
+async function createSemanticEmbedder(options: TransformersEmbedderOptions): Promise<LoadableEmbedder> {
+  if (typeof Worker !== 'undefined') {
+    return new WorkerEmbedder(options);
+  }
+  const { TransformersEmbedder } = await import('./transformers-embedder');
+  return new TransformersEmbedder(options);
+}
+
+/**
+ * Load the local sentence-embedding model. Until it resolves — or if the model
+ * files are missing — embedding strategies keep using the hashing embedder.
+ */
+export function initializeSemanticEmbeddings(options: TransformersEmbedderOptions = {}): Promise<boolean> {
+  if (semanticEmbedder) return Promise.resolve(true);
+
+  if (!loading) {
+    loading = createSemanticEmbedder(options)
+      .then(async embedder => {
+        try {
+          await embedder.load();
+        } catch (error) {
+          if (embedder instanceof WorkerEmbedder) {
+            embedder.terminate();
+          }
+          throw error;
+        }
+        semanticEmbedder = embedder;
+        return true;
+      })
+      .catch(error => {
+        console.error('Failed to load local embedding model:', error);
+        loading = null;
+        return false;
+      });
+  }
+
+  return loading;
+}
+
+export function isSemanticEmbedderReady(): boolean {
+  return semanticEmbedder !== null;
+}
+
+/**
+ * The best embedder available right now
+ */
+export function getActiveEmbedder(): Embedder {
+  return semanticEmbedder || hashingEmbedder;
+}
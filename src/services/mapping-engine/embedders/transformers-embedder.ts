@@ -0,0 +1,62 @@
+import { env, pipeline, FeatureExtractionPipeline } from '@huggingface/transformers';
+import { Embedder, SimilarityCalibration } from '@/types/mapping-engine';
+import { MINILM_CALIBRATION } from '../calibration';
+
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+export interface TransformersEmbedderOptions {
+  modelId?: string;
+  // Directory holding `<modelId>/` with the tokenizer and ONNX weights.
+  // Browsers resolve it against the site root (`public/models/`), Node against the filesystem.
+  localModelPath?: string;
+  calibration?: SimilarityCalibration;
+}
+
+/**
+ * Sentence embeddings from a locally bundled transformers.js model. Remote model
+ * downloads are disabled so mapping never leaves the device.
+ */
+export class TransformersEmbedder implements Embedder {
+  readonly calibration: SimilarityCalibration;
+
+  private modelId: string;
+  private localModelPath: string;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  constructor(options: TransformersEmbedderOptions = {}) {
+    this.modelId = options.modelId || DEFAULT_EMBEDDING_MODEL;
+    this.localModelPath = options.localModelPath || '/models/';
+    this.calibration = options.calibration || MINILM_CALIBRATION;
+  }
+
+  /**
+   * Load the model ahead of the first embed call
+   */
+  async load(): Promise<void> {
+    await this.getExtractor();
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist() as number[][];
+  }
+
+  private getExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      env.allowRemoteModels = false;
+      env.allowLocalModels = true;
+      env.localModelPath = this.localModelPath;
+
+      this.extractor = pipeline('feature-extraction', this.modelId, { dtype: 'q8' })
+        .catch(error => {
+          // Let a later call retry, e.g. once the model files have been added
+          this.extractor = null;
+          throw error;
+        }) as Promise<FeatureExtractionPipeline>;
+    }
+    return this.extractor;
+  }
+}
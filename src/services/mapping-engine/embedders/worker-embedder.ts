@@ -0,0 +1,80 @@
+import { Embedder, SimilarityCalibration } from '@/types/mapping-engine';
+import { MINILM_CALIBRATION } from '../calibration';
+import type { TransformersEmbedderOptions } from './transformers-embedder';
+
+type EmbeddingWorkerCommand =
+  | { type: 'load'; options: TransformersEmbedderOptions }
+  | { type: 'embed'; texts: string[] };
+
+export type EmbeddingWorkerRequest = EmbeddingWorkerCommand & { id: number };
+
+export type EmbeddingWorkerResponse =
+  | { id: number; ok: true; vectors?: number[][] }
+  | { id: number; ok: false; error: string };
+
+interface PendingRequest {
+  resolve: (vectors: number[][] | undefined) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Proxies embedding calls to `src/workers/embedding.worker.ts` so model
+ * inference doesn't block the UI thread.
+ */
+export class WorkerEmbedder implements Embedder {
+  readonly calibration: SimilarityCalibration;
+
+  private worker: Worker;
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  constructor(private options: TransformersEmbedderOptions = {}) {
+    this.calibration = options.calibration || MINILM_CALIBRATION;
+    this.worker = new Worker(new URL('../../../workers/embedding.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<EmbeddingWorkerResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = (event) => {
+      console.error('Embedding worker error:', event.message);
+      this.rejectAll(new Error(event.message || 'Embedding worker crashed'));
+    };
+  }
+
+  async load(): Promise<void> {
+    await this.send({ type: 'load', options: { ...this.options, calibration: undefined } });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    return (await this.send({ type: 'embed', texts })) || [];
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+    this.rejectAll(new Error('Embedding worker terminated'));
+  }
+
+  private send(command: EmbeddingWorkerCommand): Promise<number[][] | undefined> {
+    const id = ++this.nextId;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      const request: EmbeddingWorkerRequest = { ...command, id };
+      this.worker.postMessage(request);
+    });
+  }
+
+  private handleResponse(response: EmbeddingWorkerResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    this.pending.delete(response.id);
+    if (response.ok === true) {
+      request.resolve(response.vectors);
+    } else {
+      request.reject(new Error(response.error));
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+}
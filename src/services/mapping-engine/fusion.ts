@@ -0,0 +1,22 @@
+import { ConfidenceFusion } from '@/types/mapping-engine';
+
+/**
+ * Combine per-strategy confidences for the same policy term into one score.
+ * - noisy-or: independent evidence reinforces (two 0.6 votes give 0.84)
+ * - max: the single most confident strategy wins
+ * - mean: average of the contributing strategies
+ */
+export function fuseConfidences(confidences: number[], method: ConfidenceFusion): number {
+  const values = confidences.map(c => Math.max(0, Math.min(1, c)));
+  if (values.length === 0) return 0;
+
+  switch (method) {
+    case 'max':
+      return Math.max(...values);
+    case 'mean':
+      return values.reduce((sum, c) => sum + c, 0) / values.length;
+    case 'noisy-or':
+    default:
+      return 1 - values.reduce((product, c) => product * (1 - c), 1);
+  }
+}
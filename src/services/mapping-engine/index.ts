@@ -0,0 +1,48 @@
+import { MappingPipelineConfig, MappingStrategy, MappingStrategyName } from '@/types/mapping-engine';
+import { DEFAULT_PIPELINE_CONFIG, PipelineMappingEngine } from './mapping-engine';
+import { createDefaultRegistry, MappingStrategyRegistry } from './strategy-registry';
+
+export { DEFAULT_PIPELINE_CONFIG, PipelineMappingEngine } from './mapping-engine';
+export { MappingStrategyRegistry, createDefaultRegistry } from './strategy-registry';
+export { fuseConfidences } from './fusion';
+export { findTensions, segmentPriority } from './segmentation';
+export { PersonaMappingStrategy } from './strategies/persona-strategy';
+export { LearnedMappingStrategy } from './strategies/learned-strategy';
+export { TerminologyMappingStrategy } from './strategies/terminology-strategy';
+export { EmbeddingMappingStrategy, cosineSimilarity } from './strategies/embedding-strategy';
+export type { TermSimilarity } from './strategies/embedding-strategy';
+export {
+  HashingEmbedder,
+  WorkerEmbedder,
+  initializeSemanticEmbeddings,
+  isSemanticEmbedderReady,
+  getActiveEmbedder
+} from './embedders';
+export type { TransformersEmbedderOptions } from './embedders';
+export { calibrateSimilarity, MINILM_CALIBRATION } from './calibration';
+export { getReviewedPhrases, loadReviewedTerms, setReviewedTerms } from './reviewed-terms';
+export { LlmMappingStrategy } from './strategies/llm-strategy';
+
+/**
+ * Build a mapping engine from a registry and a (partial) pipeline config.
+ * Strategies listed in the config but missing from the registry are skipped.
+ */
+export function createMappingEngine(
+  config: Partial<MappingPipelineConfig> = {},
+  registry: MappingStrategyRegistry = createDefaultRegistry()
+): PipelineMappingEngine {
+  const pipelineConfig: MappingPipelineConfig = { ...DEFAULT_PIPELINE_CONFIG, ...config };
+  const strategies = new Map<MappingStrategyName, MappingStrategy>();
+
+  for (const { name } of pipelineConfig.strategies) {
+    const strategy = registry.create(name);
+    if (strategy) {
+      strategies.set(name, strategy);
+    }
+  }
+
+  return new PipelineMappingEngine(strategies, pipelineConfig);
+}
+
+// Shared engine for callers that don't need a custom pipeline
+export const mappingEngine = createMappingEngine();
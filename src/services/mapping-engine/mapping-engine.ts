@@ -0,0 +1,283 @@
+import {
+  MappingContext,
+  MappingEngine,
+  MappingPipelineConfig,
+  MappingStrategy,
+  MappingStrategyName,
+  StrategyMatch
+} from '@/types/mapping-engine';
+import { ClauseMapping, MappedPriority, PolicyTermMatch, PriorityAnalysis } from '@/types/policy-mappings';
+import { detectPriorityConflicts } from '@/utils/priorityConflicts';
+import { StanceDetector, stanceDetector as defaultStanceDetector, stanceToSentiment } from '@/services/stance';
+import { categorizeTerms } from '@/utils/policy-categories';
+import { detectLanguage } from '@/services/i18n';
+import { fuseConfidences } from './fusion';
+import { findTensions, segmentPriority } from './segmentation';
+
+export const DEFAULT_PIPELINE_CONFIG: MappingPipelineConfig = {
+  strategies: [
+    { name: 'persona', enabled: true, weight: 1.0, shortCircuitAt: 0.95, wholePriorityOnly: true },
+    { name: 'learned', enabled: true, weight: 1.0, wholePriorityOnly: true },
+    { name: 'terminology', enabled: true, weight: 1.0 },
+    { name: 'embedding', enabled: true, weight: 0.7 },
+    { name: 'llm', enabled: true, weight: 0.8, fallbackOnly: true, wholePriorityOnly: true }
+  ],
+  fusion: 'noisy-or',
+  minConfidence: 0.3,
+  // Acceptance criteria 1.1.6: ask the voter to clarify below 80% confidence
+  clarificationThreshold: 0.8,
+  maxTerms: 5,
+  segmentClauses: true,
+  minClauseConfidence: 0.5
+};
+
+interface TermContributions {
+  standardTerm: string;
+  termKey?: string;
+  category?: string;
+  byStrategy: Map<MappingStrategyName, { confidence: number; evidence: string[] }>;
+}
+
+/**
+ * Runs the configured strategies in order and fuses their matches into the
+ * canonical MappedPriority shape.
+ */
+export class PipelineMappingEngine implements MappingEngine {
+  constructor(
+    private strategies: Map<MappingStrategyName, MappingStrategy>,
+    private config: MappingPipelineConfig = DEFAULT_PIPELINE_CONFIG,
+    private stanceDetector: StanceDetector = defaultStanceDetector
+  ) {}
+
+  getConfig(): MappingPipelineConfig {
+    return this.config;
+  }
+
+  getStrategy(name: MappingStrategyName): MappingStrategy | undefined {
+    return this.strategies.get(name);
+  }
+
+  async mapPriority(priority: string, context: MappingContext = { otherPriorities: [] }): Promise<MappedPriority> {
+    // Detected once for the whole priority: a short clause has too few words to tell
+    const language = detectLanguage(priority, context.language);
+    context = { ...context, language };
+
+    const whole = await this.collect(priority, context, false);
+    const segments = this.config.segmentClauses ? segmentPriority(priority) : [];
+    if (segments.length < 2) {
+      return { ...this.buildMappedPriority(priority, whole.contributions), language };
+    }
+
+    const clauses: ClauseMapping[] = [];
+    for (const segment of segments) {
+      const { contributions } = await this.collect(segment.text, context, true);
+      const matches = this.rankMatches(contributions)
+        .filter(match => match.confidence >= this.config.minClauseConfidence);
+      const kept = new Set(matches.map(match => match.standardTerm.toLowerCase()));
+      for (const key of contributions.keys()) {
+        if (!kept.has(key)) contributions.delete(key);
+      }
+      this.assignStances(segment.text, matches);
+      clauses.push({
+        text: segment.text,
+        contrastive: segment.contrastive,
+        policyTerms: matches.map(m => m.standardTerm),
+        confidence: matches[0]?.confidence || 0,
+        stance: matches[0]?.stance,
+        matches
+      });
+      // A curated whole-sentence hit already lists the priority's issues
+      if (!whole.shortCircuited) {
+        this.mergeContributions(whole.contributions, contributions);
+      }
+    }
+
+    // Every clause's top term is kept, so one issue can't crowd out another
+    const required = whole.shortCircuited ? [] : clauses.map(clause => clause.policyTerms[0]).filter(Boolean);
+    const mapped = this.buildMappedPriority(priority, whole.contributions, required);
+    return { ...mapped, language, clauses, tensions: findTensions(clauses) };
+  }
+
+  async mapPriorities(priorities: string[]): Promise<PriorityAnalysis> {
+    const filtered = priorities.filter(p => p && p.trim().length > 0);
+    const mappedPriorities = await Promise.all(
+      filtered.map(priority => this.mapPriority(priority, {
+        otherPriorities: filtered.filter(p => p !== priority)
+      }))
+    );
+
+    return {
+      mappedPriorities,
+      conflicts: detectPriorityConflicts(mappedPriorities)
+    };
+  }
+
+  /**
+   * Run the configured strategies on some text. Clauses skip strategies that
+   * only make sense for a whole priority.
+   */
+  private async collect(
+    text: string,
+    context: MappingContext,
+    isClause: boolean
+  ): Promise<{ contributions: Map<string, TermContributions>; shortCircuited: boolean }> {
+    const contributions = new Map<string, TermContributions>();
+
+    for (const strategyConfig of this.config.strategies) {
+      if (!strategyConfig.enabled || (isClause && strategyConfig.wholePriorityOnly)) continue;
+
+      const strategy = this.strategies.get(strategyConfig.name);
+      if (!strategy || !strategy.isAvailable()) continue;
+
+      if (strategyConfig.fallbackOnly && this.bestConfidence(contributions) >= this.config.clarificationThreshold) {
+        continue;
+      }
+
+      let matches: StrategyMatch[];
+      try {
+        matches = await strategy.map(text, context);
+      } catch (error) {
+        console.error(`Mapping strategy "${strategy.name}" failed:`, error);
+        continue;
+      }
+
+      for (const match of matches) {
+        this.addContribution(contributions, strategy.name, match, strategyConfig.weight);
+      }
+
+      if (strategyConfig.shortCircuitAt !== undefined &&
+          matches.some(m => m.confidence >= strategyConfig.shortCircuitAt)) {
+        return { contributions, shortCircuited: true };
+      }
+    }
+
+    return { contributions, shortCircuited: false };
+  }
+
+  // Fold a clause's matches into the whole priority's, keeping each strategy's best
+  private mergeContributions(into: Map<string, TermContributions>, from: Map<string, TermContributions>): void {
+    for (const [key, entry] of from) {
+      const existing = into.get(key);
+      if (!existing) {
+        into.set(key, { ...entry, byStrategy: new Map(entry.byStrategy) });
+        continue;
+      }
+      existing.termKey = existing.termKey || entry.termKey;
+      existing.category = existing.category || entry.category;
+      for (const [strategyName, contribution] of entry.byStrategy) {
+        const current = existing.byStrategy.get(strategyName);
+        if (!current || contribution.confidence > current.confidence) {
+          existing.byStrategy.set(strategyName, contribution);
+        }
+      }
+    }
+  }
+
+  private addContribution(
+    contributions: Map<string, TermContributions>,
+    strategyName: MappingStrategyName,
+    match: StrategyMatch,
+    weight: number
+  ): void {
+    const key = match.standardTerm.toLowerCase();
+    const entry = contributions.get(key) || {
+      standardTerm: match.standardTerm,
+      termKey: match.termKey,
+      category: match.category,
+      byStrategy: new Map()
+    };
+
+    entry.termKey = entry.termKey || match.termKey;
+    entry.category = entry.category || match.category;
+
+    // A strategy may report the same term twice (e.g. terminology + keyword lists); keep its best
+    const weighted = Math.min(1, match.confidence * weight);
+    const existing = entry.byStrategy.get(strategyName);
+    if (!existing || weighted > existing.confidence) {
+      entry.byStrategy.set(strategyName, { confidence: weighted, evidence: match.evidence });
+    }
+
+    contributions.set(key, entry);
+  }
+
+  private bestConfidence(contributions: Map<string, TermContributions>): number {
+    let best = 0;
+    for (const entry of contributions.values()) {
+      const confidences = Array.from(entry.byStrategy.values()).map(c => c.confidence);
+      best = Math.max(best, fuseConfidences(confidences, this.config.fusion));
+    }
+    return best;
+  }
+
+  /**
+   * Fused matches above the confidence floor, best first. Terms in `required`
+   * are kept even past `maxTerms`.
+   */
+  private rankMatches(contributions: Map<string, TermContributions>, required: string[] = []): PolicyTermMatch[] {
+    const ranked: PolicyTermMatch[] = Array.from(contributions.values())
+      .map(entry => ({
+        standardTerm: entry.standardTerm,
+        termKey: entry.termKey,
+        category: entry.category,
+        confidence: fuseConfidences(
+          Array.from(entry.byStrategy.values()).map(c => c.confidence),
+          this.config.fusion
+        ),
+        sources: Array.from(entry.byStrategy.keys()),
+        evidence: Array.from(entry.byStrategy.values()).flatMap(c => c.evidence)
+      }))
+      .filter(match => match.confidence >= this.config.minConfidence)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const kept = ranked.slice(0, this.config.maxTerms);
+    const extra = ranked.slice(this.config.maxTerms).filter(match => required.includes(match.standardTerm));
+    return [...kept, ...extra];
+  }
+
+  private assignStances(text: string, matches: PolicyTermMatch[]): void {
+    this.stanceDetector.assessAll(text, matches).forEach((assessment, index) => {
+      Object.assign(matches[index], {
+        stance: assessment.stance,
+        stanceConfidence: assessment.confidence,
+        stanceEvidence: assessment.evidence,
+        nuancedMapping: assessment.nuancedMapping
+      });
+    });
+  }
+
+  private buildMappedPriority(
+    priority: string,
+    contributions: Map<string, TermContributions>,
+    required: string[] = []
+  ): MappedPriority {
+    const matches = this.rankMatches(contributions, required);
+    this.assignStances(priority, matches);
+
+    const policyTerms = matches.map(m => m.standardTerm);
+    const confidence = matches[0]?.confidence || 0;
+    const needsClarification = confidence < this.config.clarificationThreshold;
+    const category = matches.find(m => m.category)?.category || categorizeTerms(policyTerms);
+
+    return {
+      priority,
+      policyTerms,
+      sentiment: matches[0]?.stance
+        ? stanceToSentiment(matches[0].stance)
+        : this.stanceDetector.sentimentOf(priority),
+      confidence,
+      needsClarification,
+      clarificationReason: needsClarification
+        ? (matches.length === 0
+          ? 'No matching policy terms were found'
+          : `Best match "${matches[0].standardTerm}" is below the confidence threshold`)
+        : undefined,
+      matches,
+
+      // Legacy fields for backward compatibility
+      original: priority,
+      category,
+      mappedTerms: policyTerms,
+      possibleTopics: needsClarification ? policyTerms.slice(0, 3) : []
+    };
+  }
+}
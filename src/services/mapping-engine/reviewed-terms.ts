@@ -0,0 +1,55 @@
+import { issueTerminology } from '@/services/terminology';
+import { BrowserIssueTerminologyService, browserIssueTerminologyService } from '@/services/issue-terminology-service';
+import { IssueTerm } from '@/types/terminology';
+
+// Phrases reviewers accepted for a terminology term, keyed by term key. Shared
+// by every terminology strategy, like the active embedder.
+let reviewedPhrases = new Map<string, string[]>();
+
+/**
+ * Use reviewed voter terms as extra phrasing for the terminology terms they
+ * belong to: terms merged into a terminology key, and approved terms whose
+ * mapped policies name a terminology term (by key or standard term)
+ */
+export function setReviewedTerms(terms: IssueTerm[], terminology: Record<string, unknown> = issueTerminology): void {
+  const keysByName = new Map<string, string>();
+  for (const [key, value] of Object.entries(terminology)) {
+    if (typeof value !== 'object' || value === null || !('standardTerm' in value)) continue;
+    keysByName.set(key.toLowerCase(), key);
+    keysByName.set(String(value.standardTerm).toLowerCase(), key);
+  }
+
+  const phrases = new Map<string, string[]>();
+  for (const term of terms) {
+    const keys = term.mergedIntoTermKey
+      ? [term.mergedIntoTermKey]
+      : term.status === 'approved'
+        ? term.mappedPolicies.map(policy => keysByName.get(policy.toLowerCase())).filter((key): key is string => !!key)
+        : [];
+
+    for (const key of new Set(keys)) {
+      phrases.set(key, [...(phrases.get(key) || []), term.term, ...term.synonyms]);
+    }
+  }
+  reviewedPhrases = phrases;
+}
+
+export function getReviewedPhrases(termKey: string): string[] {
+  return reviewedPhrases.get(termKey) || [];
+}
+
+/**
+ * Fetch the published reviewed terms. Mapping carries on with the terminology
+ * package alone if they can't be loaded.
+ */
+export async function loadReviewedTerms(
+  source: Pick<BrowserIssueTerminologyService, 'listPublishedTerms'> = browserIssueTerminologyService
+): Promise<boolean> {
+  try {
+    setReviewedTerms(await source.listPublishedTerms());
+    return true;
+  } catch (error) {
+    console.error('Error loading reviewed terms:', error);
+    return false;
+  }
+}
@@ -0,0 +1,146 @@
+import { splitClauses, tokenizeClause } from '@/services/stance/clauses';
+import { ClauseMapping, PriorityTension } from '@/types/policy-mappings';
+import { PriorityClause, TermStance } from '@/types/stance';
+
+// A comma part starting with one of these qualifies the part before it
+// ("support, especially for veterans") rather than raising a new issue
+const DEPENDENT_STARTERS = new Set([
+  'especially', 'particularly', 'including', 'like', 'such', 'for', 'from', 'with', 'without',
+  'in', 'on', 'at', 'of', 'to', 'by', 'about', 'than', 'which', 'who', 'that', 'because',
+  'so', 'not', 'etc', 'too', 'also', 'even', 'then',
+  'especialmente', 'incluso', 'incluyendo', 'como', 'para', 'por', 'de', 'con', 'sin', 'en', 'sobre',
+  'que', 'porque', 'tambien'
+]);
+
+const FILLER_WORDS = new Set([
+  'i', 'im', "i'm", 'we', 'you', 'it', 'its', "it's", 'the', 'a', 'an', 'and', 'or', 'is', 'are',
+  'be', 'just', 'really', 'so', 'very', 'that', 'this', 'what', 'me', 'my', 'our', 'us', 'like',
+  'honestly', 'also', 'too', 'think', 'feel', "that's", 'thats', "what's", 'whats',
+  'yo', 'el', 'la', 'los', 'las', 'un', 'una', 'y', 'o', 'es', 'son', 'mi', 'mis', 'nuestro', 'nuestra',
+  'nos', 'muy', 'solo', 'realmente', 'creo', 'siento', 'eso', 'esto', 'que'
+]);
+
+const contentWordCount = (text: string) => tokenizeClause(text).filter(word => !FILLER_WORDS.has(word)).length;
+
+// Each side of a comma needs a few words of its own to count as a separate issue
+const MIN_INDEPENDENT_WORDS = 3;
+
+function splitOnCommas(clause: PriorityClause): PriorityClause[] {
+  const parts = clause.text.split(/,\s+/);
+  const segments: PriorityClause[] = [{ text: parts[0], contrastive: clause.contrastive }];
+
+  for (const part of parts.slice(1)) {
+    const previous = segments[segments.length - 1];
+    const firstWord = tokenizeClause(part)[0];
+    const independent = firstWord !== undefined && !DEPENDENT_STARTERS.has(firstWord) &&
+      tokenizeClause(part).length >= MIN_INDEPENDENT_WORDS &&
+      tokenizeClause(previous.text).length >= MIN_INDEPENDENT_WORDS;
+
+    if (independent) {
+      segments.push({ text: part, contrastive: false });
+    } else {
+      previous.text = `${previous.text}, ${part}`;
+    }
+  }
+  return segments;
+}
+
+// "and" / "y" joins two issues only when each side names one: "Lower taxes and
+// better schools", but not "law and order" or "clean air and water"
+const MIN_CONJOINED_WORDS = 2;
+
+function splitOnConjunctions(clause: PriorityClause): PriorityClause[] {
+  // Splitting on a capture group keeps each conjunction before its part
+  const parts = clause.text.split(/(\s+(?:and|y)\s+)/i);
+  const segments: PriorityClause[] = [{ text: parts[0], contrastive: clause.contrastive }];
+
+  for (let index = 2; index < parts.length; index += 2) {
+    const [conjunction, part] = [parts[index - 1], parts[index]];
+    const previous = segments[segments.length - 1];
+    const firstWord = tokenizeClause(part)[0];
+    const independent = firstWord !== undefined && !DEPENDENT_STARTERS.has(firstWord) &&
+      contentWordCount(part) >= MIN_CONJOINED_WORDS &&
+      contentWordCount(previous.text) >= MIN_CONJOINED_WORDS;
+
+    if (independent) {
+      segments.push({ text: part, contrastive: false });
+    } else {
+      previous.text = `${previous.text}${conjunction}${part}`;
+    }
+  }
+  return segments;
+}
+
+/**
+ * Split a priority into the clauses that could each raise their own issue.
+ * Starts from the stance detector's clauses (sentences, dashes, contrast
+ * words), then also splits independent comma-separated clauses, as in
+ * "College costs too much, how will we afford homes?", and issues joined by
+ * "and". Fragments with fewer than two content words are folded back into
+ * the clause before them.
+ */
+export function segmentPriority(priority: string): PriorityClause[] {
+  const segments: PriorityClause[] = [];
+
+  for (const clause of splitClauses(priority).flatMap(splitOnCommas).flatMap(splitOnConjunctions)) {
+    const previous = segments[segments.length - 1];
+    if (previous && contentWordCount(clause.text) < 2) {
+      previous.text = `${previous.text} ${clause.text}`;
+      continue;
+    }
+    segments.push({ ...clause });
+  }
+
+  // A leading fragment ("Honestly, ...") joins the clause after it
+  if (segments.length > 1 && contentWordCount(segments[0].text) < 2) {
+    const [first, second, ...rest] = segments;
+    return [{ text: `${first.text} ${second.text}`, contrastive: first.contrastive }, ...rest];
+  }
+  return segments;
+}
+
+const STANCE_VERBS: Record<TermStance, string> = {
+  support: 'supports',
+  oppose: 'opposes',
+  mixed: 'has mixed views on'
+};
+
+/**
+ * Positions within one priority that pull against each other, read from the
+ * clauses' stances: a contrastive clause taking a different stance from the
+ * clause it qualifies, or the same term supported in one clause and opposed
+ * in another.
+ */
+export function findTensions(clauses: ClauseMapping[]): PriorityTension[] {
+  const tensions: PriorityTension[] = [];
+  const describe = (clause: ClauseMapping) => `"${clause.text}" ${STANCE_VERBS[clause.stance as TermStance]} ${clause.policyTerms[0]}`;
+
+  clauses.forEach((clause, index) => {
+    const previous = clauses[index - 1];
+    if (!previous || !clause.contrastive) return;
+    if (!previous.stance || !clause.stance || previous.stance === clause.stance) return;
+    tensions.push({
+      clauses: [previous.text, clause.text],
+      terms: Array.from(new Set([previous.policyTerms[0], clause.policyTerms[0]])),
+      explanation: `${describe(previous)}, but ${describe(clause)}`
+    });
+  });
+
+  const flagged = new Set(tensions.flatMap(tension => tension.terms));
+  for (const match of clauses.flatMap(clause => clause.matches)) {
+    if (flagged.has(match.standardTerm) || !match.stance || match.stance === 'mixed') continue;
+    const against = clauses.find(clause => clause.matches.some(other =>
+      other.standardTerm === match.standardTerm && other.stance && other.stance !== 'mixed' && other.stance !== match.stance
+    ));
+    const own = clauses.find(clause => clause.matches.includes(match));
+    if (!against || !own) continue;
+    flagged.add(match.standardTerm);
+    tensions.push({
+      clauses: [own.text, against.text],
+      terms: [match.standardTerm],
+      explanation: `${match.standardTerm} is ${match.stance === 'support' ? 'supported' : 'opposed'} in "${own.text}" and ${match.stance === 'support' ? 'opposed' : 'supported'} in "${against.text}"`
+    });
+  }
+
+  return tensions;
+}
@@ -0,0 +1,141 @@
+import { issueTerminology, TermTranslations } from '@/services/terminology';
+import { detectLanguage } from '@/services/i18n';
+import { Embedder, MappingContext, MappingStrategy, StrategyMatch } from '@/types/mapping-engine';
+import { Locale } from '@/types/i18n';
+import { getActiveEmbedder } from '../embedders';
+import { calibrateSimilarity } from '../calibration';
+
+interface ReferencePhrase {
+  termKey: string;
+  standardTerm: string;
+  phrase: string;
+  language: Locale;
+}
+
+/**
+ * Similarity between a priority and one terminology entry
+ */
+export interface TermSimilarity {
+  termKey: string;
+  standardTerm: string;
+  // Closest reference phrase for the term
+  phrase: string;
+  similarity: number;
+  confidence: number;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Ranks terminology entries by vector similarity between the priority and each
+ * term's standard term and plain-language phrases. Without an explicit embedder
+ * it uses whichever one is active, so the local model takes over once loaded.
+ * Spanish priorities are also compared with the terms' Spanish phrases.
+ */
+export class EmbeddingMappingStrategy implements MappingStrategy {
+  readonly name = 'embedding' as const;
+
+  private references: ReferencePhrase[];
+  // Reference vectors are computed once per embedder
+  private referenceVectors = new WeakMap<Embedder, Promise<number[][]>>();
+
+  constructor(
+    private embedder: Embedder | null = null,
+    terminology: Record<string, unknown> = issueTerminology,
+    private threshold = 0.35,
+    private maxResults = 3
+  ) {
+    this.references = Object.entries(terminology)
+      .filter(([key, value]) => key !== 'fallback' && key !== 'issues' &&
+        typeof value === 'object' && value !== null && 'standardTerm' in value)
+      .flatMap(([key, value]) => {
+        const term = value as {
+          standardTerm: string;
+          plainLanguage?: string[];
+          plainEnglish?: string;
+          translations?: TermTranslations;
+        };
+        const phrases = [term.standardTerm, ...(term.plainLanguage || []), term.plainEnglish].filter(Boolean) as string[];
+        const spanish = term.translations?.es;
+        const translated = spanish ? [spanish.label, ...spanish.plainLanguage, spanish.plainEnglish] : [];
+        return [
+          ...phrases.map(phrase => ({ termKey: key, standardTerm: term.standardTerm, phrase, language: 'en' as const })),
+          ...translated.map(phrase => ({ termKey: key, standardTerm: term.standardTerm, phrase, language: 'es' as const }))
+        ];
+      });
+  }
+
+  isAvailable(): boolean {
+    return this.references.length > 0;
+  }
+
+  async map(priority: string, context?: MappingContext): Promise<StrategyMatch[]> {
+    const ranked = await this.rank(priority, context?.language);
+
+    return ranked
+      .filter(({ confidence }) => confidence >= this.threshold)
+      .slice(0, this.maxResults)
+      .map(({ termKey, standardTerm, phrase, similarity, confidence }) => ({
+        standardTerm,
+        termKey,
+        confidence,
+        evidence: [`Similar to "${phrase}" (${Math.round(similarity * 100)}% similarity)`]
+      }));
+  }
+
+  /**
+   * Every term ordered by similarity to the priority, best first. English
+   * reference phrases always count; other languages' only for priorities
+   * written in them.
+   */
+  async rank(priority: string, language: Locale = detectLanguage(priority)): Promise<TermSimilarity[]> {
+    if (!priority.trim()) return [];
+
+    const embedder = this.embedder || getActiveEmbedder();
+    const vectors = await this.getReferenceVectors(embedder);
+    const [queryVector] = await embedder.embed([priority]);
+
+    // Keep the best-scoring phrase per term
+    const bestByTerm = new Map<string, { similarity: number; reference: ReferencePhrase }>();
+    this.references.forEach((reference, index) => {
+      if (reference.language !== 'en' && reference.language !== language) return;
+      const similarity = cosineSimilarity(queryVector, vectors[index]);
+      const current = bestByTerm.get(reference.termKey);
+      if (!current || similarity > current.similarity) {
+        bestByTerm.set(reference.termKey, { similarity, reference });
+      }
+    });
+
+    return Array.from(bestByTerm.values())
+      .sort((a, b) => b.similarity - a.similarity)
+      .map(({ similarity, reference }) => ({
+        termKey: reference.termKey,
+        standardTerm: reference.standardTerm,
+        phrase: reference.phrase,
+        similarity,
+        confidence: calibrateSimilarity(similarity, embedder.calibration)
+      }));
+  }
+
+  private getReferenceVectors(embedder: Embedder): Promise<number[][]> {
+    let vectors = this.referenceVectors.get(embedder);
+    if (!vectors) {
+      vectors = embedder.embed(this.references.map(r => r.phrase));
+      // Don't cache a failed batch
+      vectors.catch(() => this.referenceVectors.delete(embedder));
+      this.referenceVectors.set(embedder, vectors);
+    }
+    return vectors;
+  }
+}
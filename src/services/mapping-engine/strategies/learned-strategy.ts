@@ -0,0 +1,30 @@
+import { PriorityLearningService, priorityLearningService } from '@/services/priority-learning-service';
+import { MappingStrategy, StrategyMatch } from '@/types/mapping-engine';
+import { categorizeTerms } from '@/utils/policy-categories';
+
+/**
+ * Reuses what the voter told us when clarifying the same (or nearly the same)
+ * priority before. Confidence decays while a mapping goes unused.
+ */
+export class LearnedMappingStrategy implements MappingStrategy {
+  readonly name = 'learned' as const;
+
+  constructor(private learning: Pick<PriorityLearningService, 'findMatches'> = priorityLearningService) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async map(priority: string): Promise<StrategyMatch[]> {
+    const matches = await this.learning.findMatches(priority);
+
+    return matches.map(({ mapping, confidence }) => ({
+      standardTerm: mapping.issueName,
+      // Clarifications record the term key as the issue id when there is one
+      termKey: mapping.issueId !== mapping.issueName ? mapping.issueId : undefined,
+      category: categorizeTerms([mapping.issueName]),
+      confidence,
+      evidence: [`You clarified "${mapping.originalTerm}" as "${mapping.clarifiedTerm}"`]
+    }));
+  }
+}
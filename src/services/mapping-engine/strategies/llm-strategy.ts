@@ -0,0 +1,32 @@
+import { AIClarificationService } from '@/services/ai-clarification';
+import { MappingStrategy, StrategyMatch } from '@/types/mapping-engine';
+
+/**
+ * Asks the language model for candidate policy topics. Only used for natural
+ * language structuring, never as a source of election data.
+ */
+export class LlmMappingStrategy implements MappingStrategy {
+  readonly name = 'llm' as const;
+
+  constructor(private clarificationService: AIClarificationService = new AIClarificationService()) {}
+
+  isAvailable(): boolean {
+    return this.clarificationService.isConfigured();
+  }
+
+  async map(priority: string): Promise<StrategyMatch[]> {
+    const response = await this.clarificationService.getClarification(priority);
+    if (!response?.possibleTopics?.length) return [];
+
+    return response.possibleTopics.map((topic, index) => ({
+      standardTerm: topic,
+      // Later suggestions are progressively less likely
+      confidence: Math.max(0, response.confidence - index * 0.05),
+      evidence: [response.suggestedQuestion]
+    }));
+  }
+
+  setApiKey(apiKey: string): void {
+    this.clarificationService.setApiKey(apiKey);
+  }
+}
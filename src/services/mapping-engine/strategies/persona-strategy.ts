@@ -0,0 +1,49 @@
+import { personaMappings, PersonaMapping } from '@/data/persona-mappings';
+import { MappingStrategy, StrategyMatch } from '@/types/mapping-engine';
+import { categorizeTerms } from '@/utils/policy-categories';
+
+const normalize = (text: string) => text.toLowerCase().replace(/[.,;:!?()]/g, '').replace(/\s+/g, ' ').trim();
+
+// A priority inside a curated sentence must cover nearly all of it: "the" or
+// "I want" appear in many sentences and say nothing about which one was meant
+const NEAR_FULL_LENGTH = 0.9;
+
+/**
+ * Looks a priority up in the curated persona mappings from the persona CSV.
+ * These are hand-labeled, so a hit is treated as near-certain.
+ */
+export class PersonaMappingStrategy implements MappingStrategy {
+  readonly name = 'persona' as const;
+
+  constructor(
+    private mappings: PersonaMapping[] = personaMappings,
+    private confidence = 0.95
+  ) {}
+
+  isAvailable(): boolean {
+    return this.mappings.length > 0;
+  }
+
+  async map(priority: string): Promise<StrategyMatch[]> {
+    const normalizedPriority = normalize(priority);
+    if (!normalizedPriority) return [];
+
+    const mapping = this.mappings.find(m => {
+      const normalizedMappingPriority = normalize(m.priority);
+      return normalizedPriority.includes(normalizedMappingPriority) ||
+        (normalizedMappingPriority.includes(normalizedPriority) &&
+          normalizedPriority.length >= NEAR_FULL_LENGTH * normalizedMappingPriority.length);
+    });
+
+    if (!mapping) return [];
+
+    // Persona entries encode several terms as "A, B" or "A + B"
+    const terms = mapping.mapsTo.split(/[,+]/g).map(term => term.trim()).filter(Boolean);
+    return terms.map(term => ({
+      standardTerm: term,
+      category: categorizeTerms([term]),
+      confidence: this.confidence,
+      evidence: [`Matches curated priority for ${mapping.persona}: "${mapping.priority}"`]
+    }));
+  }
+}
@@ -0,0 +1,189 @@
+import { issueTerminology, keywordTerms, TermTranslations } from '@/services/terminology';
+import { detectLanguage, foldDiacritics } from '@/services/i18n';
+import { MappingContext, MappingStrategy, StrategyMatch } from '@/types/mapping-engine';
+import { Locale } from '@/types/i18n';
+import { getReviewedPhrases } from '../reviewed-terms';
+
+type TermWords = Pick<TerminologyEntry, 'plainLanguage' | 'inclusionWords' | 'exclusionWords'>;
+
+interface TerminologyEntry {
+  standardTerm: string;
+  plainEnglish?: string;
+  plainLanguage?: string[];
+  inclusionWords?: string[];
+  exclusionWords?: string[];
+  translations?: TermTranslations;
+}
+
+interface KeywordEntry {
+  standardTerm: string;
+  plainLanguage?: string[];
+  keywords?: string[];
+  category?: string;
+}
+
+// Accents are folded away so "educacion" and "educación" tokenize alike
+const tokenize = (text: string) => foldDiacritics(text.toLowerCase())
+  .replace(/[^\w\s]/g, '')
+  .split(/\s+/)
+  .filter(word => word.length > 0);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether the input contains the phrase starting at a word boundary. Short
+ * phrases must end at one too, so "AI" doesn't match "fair" or "aid".
+ */
+const containsPhrase = (input: string, phrase: string) => {
+  const lowered = foldDiacritics(phrase.toLowerCase());
+  const end = lowered.length < 4 ? '(?![a-z0-9])' : '';
+  return new RegExp(`(?<![a-z0-9])${escapeRegExp(lowered)}${end}`).test(input);
+};
+
+/**
+ * Rule-based matching against the shared terminology package (the source of
+ * truth for policy terms): its terms' phrases and words, then its keyword terms.
+ */
+export class TerminologyMappingStrategy implements MappingStrategy {
+  readonly name = 'terminology' as const;
+
+  private terms: Array<[string, TerminologyEntry]>;
+  private keywordMappings: Array<[string, KeywordEntry]>;
+
+  constructor(
+    terminology: Record<string, unknown> = issueTerminology,
+    keywordMappings: Record<string, KeywordEntry> = keywordTerms
+  ) {
+    this.terms = Object.entries(terminology)
+      .filter(([key, value]) => key !== 'fallback' && key !== 'issues' &&
+        typeof value === 'object' && value !== null && 'standardTerm' in value)
+      .map(([key, value]) => [key, value as TerminologyEntry]);
+    this.keywordMappings = Object.entries(keywordMappings);
+  }
+
+  isAvailable(): boolean {
+    return this.terms.length > 0;
+  }
+
+  async map(priority: string, context?: MappingContext): Promise<StrategyMatch[]> {
+    const input = foldDiacritics(priority.toLowerCase());
+    const words = tokenize(priority);
+    if (words.length === 0) return [];
+
+    const language = context?.language || detectLanguage(priority);
+    const matches: StrategyMatch[] = [];
+
+    for (const [key, entry] of this.terms) {
+      // Phrasing reviewers accepted from voters counts like the package's own
+      const reviewed = getReviewedPhrases(key);
+      const term = reviewed.length > 0 ? { ...entry, plainLanguage: [...(entry.plainLanguage || []), ...reviewed] } : entry;
+      const match = this.scoreLocalizedTerm(input, words, term, language);
+      if (match) {
+        matches.push({ ...match, termKey: key, standardTerm: term.standardTerm });
+      }
+    }
+
+    for (const [key, mapping] of this.keywordMappings) {
+      const match = this.scoreKeywordMapping(input, mapping);
+      if (match) {
+        matches.push({ ...match, termKey: key, standardTerm: mapping.standardTerm, category: mapping.category });
+      }
+    }
+
+    return matches.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Score the term with the phrases of the priority's language; Spanish terms
+   * map to the same English standard term. Priorities mixing the two ("mas
+   * fondos para Medicare") also get an exact-phrase check in the other language.
+   */
+  private scoreLocalizedTerm(
+    input: string,
+    words: string[],
+    term: TerminologyEntry,
+    language: Locale
+  ): Omit<StrategyMatch, 'standardTerm'> | null {
+    const translated = term.translations?.es;
+    if (!translated) return this.scoreTerm(input, words, term);
+
+    const [primary, secondary]: TermWords[] = language === 'es' ? [translated, term] : [term, translated];
+    // A term ruled out in the priority's own language stays ruled out
+    if ((primary.exclusionWords || []).some(word => containsPhrase(input, word))) return null;
+    return this.scoreTerm(input, words, primary) || this.scoreTerm(input, words, secondary, false);
+  }
+
+  private scoreTerm(
+    input: string,
+    words: string[],
+    term: TermWords,
+    allowPartial = true
+  ): Omit<StrategyMatch, 'standardTerm'> | null {
+    const excluded = (term.exclusionWords || []).filter(word => containsPhrase(input, word));
+    if (excluded.length > 0) return null;
+
+    // Inclusion words are required: without one of them the term cannot apply
+    const included = (term.inclusionWords || []).filter(word => containsPhrase(input, word));
+    if (term.inclusionWords?.length && included.length === 0) return null;
+
+    const phrases = term.plainLanguage || [];
+    const matchedPhrases = phrases.filter(phrase => containsPhrase(input, phrase));
+    if (matchedPhrases.length > 0) {
+      // Longer phrase hits are stronger evidence than short ones
+      const longest = Math.max(...matchedPhrases.map(phrase => tokenize(phrase).length));
+      return {
+        confidence: Math.min(0.98, 0.85 + 0.03 * longest + 0.02 * (matchedPhrases.length - 1)),
+        evidence: matchedPhrases.map(phrase => `Matched phrase "${phrase}"`)
+      };
+    }
+
+    if (included.length > 0) {
+      return {
+        confidence: 0.6,
+        evidence: included.map(word => `Matched required word "${word}"`)
+      };
+    }
+    if (!allowPartial) return null;
+
+    // Partial word overlap with the best plain-language phrase; a single shared
+    // word ("public", "rights") is too weak to count
+    let best = 0;
+    let bestPhrase = '';
+    for (const phrase of phrases) {
+      const phraseWords = tokenize(phrase).filter(word => word.length > 3);
+      const shared = phraseWords.filter(word => words.includes(word)).length;
+      if (phraseWords.length === 0 || (shared < 2 && phraseWords.length > 1)) continue;
+      const overlap = shared / phraseWords.length;
+      if (overlap > best) {
+        best = overlap;
+        bestPhrase = phrase;
+      }
+    }
+
+    if (best >= 0.5) {
+      return {
+        confidence: 0.3 + 0.4 * best,
+        evidence: [`Partially matched "${bestPhrase}"`]
+      };
+    }
+
+    return null;
+  }
+
+  private scoreKeywordMapping(input: string, mapping: KeywordEntry): Omit<StrategyMatch, 'standardTerm'> | null {
+    const matchedPhrase = (mapping.plainLanguage || []).find(phrase => containsPhrase(input, phrase));
+    if (matchedPhrase) {
+      return { confidence: 0.8, evidence: [`Matched phrase "${matchedPhrase}"`] };
+    }
+
+    const matchedKeywords = (mapping.keywords || []).filter(keyword => containsPhrase(input, keyword));
+    if (matchedKeywords.length >= 2) {
+      return {
+        confidence: Math.min(0.75, 0.45 + 0.1 * matchedKeywords.length),
+        evidence: matchedKeywords.map(keyword => `Matched keyword "${keyword}"`)
+      };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+import { MappingStrategy, MappingStrategyName } from '@/types/mapping-engine';
+import { PersonaMappingStrategy } from './strategies/persona-strategy';
+import { LearnedMappingStrategy } from './strategies/learned-strategy';
+import { TerminologyMappingStrategy } from './strategies/terminology-strategy';
+import { EmbeddingMappingStrategy } from './strategies/embedding-strategy';
+import { LlmMappingStrategy } from './strategies/llm-strategy';
+
+type StrategyFactory = () => MappingStrategy;
+
+/**
+ * Registry of strategy factories. Pipelines look strategies up by name, so a
+ * new strategy (or a test double) can be swapped in without touching the engine.
+ */
+export class MappingStrategyRegistry {
+  private factories = new Map<MappingStrategyName, StrategyFactory>();
+
+  register(name: MappingStrategyName, factory: StrategyFactory): this {
+    this.factories.set(name, factory);
+    return this;
+  }
+
+  has(name: MappingStrategyName): boolean {
+    return this.factories.has(name);
+  }
+
+  create(name: MappingStrategyName): MappingStrategy | null {
+    const factory = this.factories.get(name);
+    return factory ? factory() : null;
+  }
+
+  names(): MappingStrategyName[] {
+    return Array.from(this.factories.keys());
+  }
+}
+
+export function createDefaultRegistry(): MappingStrategyRegistry {
+  return new MappingStrategyRegistry()
+    .register('persona', () => new PersonaMappingStrategy())
+    .register('learned', () => new LearnedMappingStrategy())
+    .register('terminology', () => new TerminologyMappingStrategy())
+    .register('embedding', () => new EmbeddingMappingStrategy())
+    .register('llm', () => new LlmMappingStrategy());
+}
@@ -0,0 +1,59 @@
+import { RecommendationsData } from '@/types/api';
+import { EmailDraft } from '@/types/email';
+import { OutboxItem, QueuedAnalysis } from '@/types/offline';
+
+// Window event carrying { queuedId, data } once a queued analysis is redone
+export const ANALYSIS_REPLAYED_EVENT = 'offline-analysis-replayed';
+
+export interface AnalysisReplayedDetail {
+  queuedId: string;
+  data: RecommendationsData;
+}
+
+const draftKey = (draft: EmailDraft) => `${draft.recipient.name}|${draft.recipient.title}`;
+
+/**
+ * Fresh drafts, except where the voter hand-edited one to the same
+ * representative while offline. Their text wins; the recipient details are
+ * the fresh ones.
+ */
+export function mergeEditedDrafts(fresh: EmailDraft[], edited: EmailDraft[]): EmailDraft[] {
+  const editedByKey = new Map(edited.map(draft => [draftKey(draft), draft]));
+  return fresh.map(draft => {
+    const mine = editedByKey.get(draftKey(draft));
+    return mine ? { ...mine, recipient: draft.recipient } : draft;
+  });
+}
+
+export interface AnalysisReplayDeps {
+  analyze: (values: QueuedAnalysis['values']) => Promise<RecommendationsData>;
+  // Files the fresh result, e.g. in the voter's account history
+  record?: (data: RecommendationsData) => Promise<void>;
+}
+
+/**
+ * Outbox handler that redoes a queued analysis against live data and tells
+ * any page still showing the offline result
+ */
+export function createAnalysisReplayer({ analyze, record }: AnalysisReplayDeps) {
+  return async (item: OutboxItem): Promise<void> => {
+    const { values, editedDrafts } = item.payload;
+    const fresh = await analyze(values);
+    if (fresh.freshness?.offline) throw new Error('Still offline');
+
+    const data: RecommendationsData = {
+      ...fresh,
+      recommendations: {
+        ...fresh.recommendations,
+        emailDrafts: mergeEditedDrafts(fresh.recommendations.emailDrafts || [], editedDrafts)
+      }
+    };
+    await record?.(data);
+
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent<AnalysisReplayedDetail>(ANALYSIS_REPLAYED_EVENT, {
+        detail: { queuedId: item.id, data }
+      }));
+    }
+  };
+}
@@ -0,0 +1,26 @@
+import { OfflineStore } from '@/types/offline';
+import { IndexedDBOfflineStore } from './indexeddb-offline-store';
+import { InMemoryOfflineStore } from './memory-offline-store';
+import { OfflineData } from './offline-data';
+import { OfflineOutbox } from './outbox';
+
+export { IndexedDBOfflineStore } from './indexeddb-offline-store';
+export { InMemoryOfflineStore } from './memory-offline-store';
+export { OfflineData, isOnline } from './offline-data';
+export type { LoadedDataset } from './offline-data';
+export { OfflineOutbox, SYNC_TAG } from './outbox';
+export type { ReplaySummary } from './outbox';
+export { ANALYSIS_REPLAYED_EVENT, createAnalysisReplayer, mergeEditedDrafts } from './analysis-replay';
+export type { AnalysisReplayedDetail } from './analysis-replay';
+
+/**
+ * IndexedDB in the browser, in-memory everywhere else
+ */
+export function createOfflineStore(): OfflineStore {
+  return IndexedDBOfflineStore.isSupported() ? new IndexedDBOfflineStore() : new InMemoryOfflineStore();
+}
+
+const store = createOfflineStore();
+
+export const offlineData = new OfflineData(store);
+export const offlineOutbox = new OfflineOutbox(store);
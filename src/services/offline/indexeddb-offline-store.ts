@@ -0,0 +1,87 @@
+import { CachedDataset, OfflineStore, OutboxItem } from '@/types/offline';
+
+const DB_NAME = 'civic-offline';
+const DB_VERSION = 1;
+const DATASETS = 'datasets';
+const OUTBOX = 'outbox';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Cached API data and the queue of work done offline, kept across reloads
+ */
+export class IndexedDBOfflineStore implements OfflineStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async getDataset<T>(key: string): Promise<CachedDataset<T> | null> {
+    const store = await this.objectStore(DATASETS, 'readonly');
+    const dataset = await requestToPromise(store.get(key) as IDBRequest<CachedDataset<T> | undefined>);
+    return dataset || null;
+  }
+
+  async putDataset<T>(dataset: CachedDataset<T>): Promise<void> {
+    const store = await this.objectStore(DATASETS, 'readwrite');
+    store.put(dataset);
+    await transactionDone(store.transaction);
+  }
+
+  async listOutbox(): Promise<OutboxItem[]> {
+    const store = await this.objectStore(OUTBOX, 'readonly');
+    const items = await requestToPromise(store.getAll() as IDBRequest<OutboxItem[]>);
+    return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async putOutboxItem(item: OutboxItem): Promise<void> {
+    const store = await this.objectStore(OUTBOX, 'readwrite');
+    store.put(item);
+    await transactionDone(store.transaction);
+  }
+
+  async removeOutboxItem(id: string): Promise<void> {
+    const store = await this.objectStore(OUTBOX, 'readwrite');
+    store.delete(id);
+    await transactionDone(store.transaction);
+  }
+
+  private async objectStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DATASETS)) {
+          db.createObjectStore(DATASETS, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX)) {
+          db.createObjectStore(OUTBOX, { keyPath: 'id' });
+        }
+      };
+      this.db = requestToPromise(request).catch(error => {
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+}
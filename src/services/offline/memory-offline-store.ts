@@ -0,0 +1,29 @@
+import { CachedDataset, OfflineStore, OutboxItem } from '@/types/offline';
+
+/**
+ * Non-persistent store, used in tests and where IndexedDB is unavailable
+ */
+export class InMemoryOfflineStore implements OfflineStore {
+  private datasets = new Map<string, CachedDataset>();
+  private outbox = new Map<string, OutboxItem>();
+
+  async getDataset<T>(key: string): Promise<CachedDataset<T> | null> {
+    return (this.datasets.get(key) as CachedDataset<T>) || null;
+  }
+
+  async putDataset<T>(dataset: CachedDataset<T>): Promise<void> {
+    this.datasets.set(dataset.key, { ...dataset });
+  }
+
+  async listOutbox(): Promise<OutboxItem[]> {
+    return Array.from(this.outbox.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async putOutboxItem(item: OutboxItem): Promise<void> {
+    this.outbox.set(item.id, { ...item });
+  }
+
+  async removeOutboxItem(id: string): Promise<void> {
+    this.outbox.delete(id);
+  }
+}
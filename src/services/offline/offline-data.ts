@@ -0,0 +1,53 @@
+import { CachedDataset, OfflineStore } from '@/types/offline';
+
+export const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export interface LoadedDataset<T> {
+  value: T;
+  fetchedAt: string;
+  fromCache: boolean;
+}
+
+/**
+ * Network-first reads that keep the last good response for offline use
+ */
+export class OfflineData {
+  constructor(private store: OfflineStore, private online: () => boolean = isOnline) {}
+
+  isOnline(): boolean {
+    return this.online();
+  }
+
+  /**
+   * Fetch and remember `key` while online. Offline, or when the fetch fails,
+   * answer from the cache; with nothing cached, the fetcher's own fallback
+   * is the best there is.
+   */
+  async load<T>(key: string, fetcher: () => Promise<T>): Promise<LoadedDataset<T>> {
+    const cached = () => this.store.getDataset<T>(key).catch(error => {
+      console.warn(`Offline cache read failed for ${key}:`, error);
+      return null;
+    });
+    const fromCache = (dataset: CachedDataset<T>) => ({ value: dataset.value, fetchedAt: dataset.fetchedAt, fromCache: true });
+
+    if (!this.online()) {
+      const dataset = await cached();
+      if (dataset) return fromCache(dataset);
+    }
+
+    try {
+      const value = await fetcher();
+      const fetchedAt = new Date().toISOString();
+      if (this.online()) {
+        await this.store.putDataset({ key, value, fetchedAt }).catch(error => {
+          console.warn(`Offline cache write failed for ${key}:`, error);
+        });
+      }
+      return { value, fetchedAt, fromCache: false };
+    } catch (error) {
+      const dataset = await cached();
+      if (dataset) return fromCache(dataset);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { OfflineStore, OutboxItem, QueuedAnalysis } from '@/types/offline';
+
+// Background sync tag the service worker answers by asking open pages to replay
+export const SYNC_TAG = 'sync-outbox';
+
+// After this many failed replays an item stays queued but is no longer retried
+const MAX_ATTEMPTS = 5;
+
+// Background Sync isn't in the DOM typings yet
+type SyncRegistration = ServiceWorkerRegistration & { sync: { register(tag: string): Promise<void> } };
+
+export interface ReplaySummary {
+  replayed: number;
+  failed: number;
+}
+
+/**
+ * Analyses made offline, waiting to be redone against live data
+ */
+export class OfflineOutbox {
+  private listeners = new Set<() => void>();
+  private replaying: Promise<ReplaySummary> | null = null;
+
+  constructor(private store: OfflineStore) {}
+
+  async enqueueAnalysis(payload: QueuedAnalysis): Promise<OutboxItem> {
+    const item: OutboxItem = {
+      id: crypto.randomUUID(),
+      kind: 'analysis',
+      payload,
+      createdAt: new Date().toISOString(),
+      attempts: 0
+    };
+    await this.store.putOutboxItem(item);
+    this.notify();
+    return item;
+  }
+
+  async updateAnalysis(id: string, update: (payload: QueuedAnalysis) => QueuedAnalysis): Promise<void> {
+    const item = (await this.store.listOutbox()).find(entry => entry.id === id);
+    if (!item) return;
+    await this.store.putOutboxItem({ ...item, payload: update(item.payload) });
+  }
+
+  async list(): Promise<OutboxItem[]> {
+    return this.store.listOutbox();
+  }
+
+  /**
+   * Hand each queued item to `handler`, oldest first, dropping the ones that
+   * succeed. Stalled items are skipped. Concurrent calls share one run.
+   */
+  replay(handler: (item: OutboxItem) => Promise<void>): Promise<ReplaySummary> {
+    if (!this.replaying) {
+      this.replaying = this.replayAll(handler).finally(() => {
+        this.replaying = null;
+        this.notify();
+      });
+    }
+    return this.replaying;
+  }
+
+  private async replayAll(handler: (item: OutboxItem) => Promise<void>): Promise<ReplaySummary> {
+    const summary: ReplaySummary = { replayed: 0, failed: 0 };
+    for (const item of await this.store.listOutbox()) {
+      if (item.stalled) continue;
+      try {
+        await handler(item);
+        await this.store.removeOutboxItem(item.id);
+        summary.replayed++;
+      } catch (error) {
+        console.error(`Replaying queued ${item.kind} failed:`, error);
+        const attempts = item.attempts + 1;
+        await this.store.putOutboxItem({
+          ...item,
+          attempts,
+          lastError: error instanceof Error ? error.message : String(error),
+          // Stop retrying items that keep failing; the voter decides what happens to them
+          ...(attempts >= MAX_ATTEMPTS ? { stalled: true } : {})
+        });
+        summary.failed++;
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Give stalled items a fresh set of attempts on the next replay
+   */
+  async retryStalled(): Promise<void> {
+    for (const item of await this.store.listOutbox()) {
+      if (item.stalled) await this.store.putOutboxItem({ ...item, attempts: 0, stalled: false });
+    }
+    this.notify();
+  }
+
+  async discardStalled(): Promise<void> {
+    for (const item of await this.store.listOutbox()) {
+      if (item.stalled) await this.store.removeOutboxItem(item.id);
+    }
+    this.notify();
+  }
+
+  /**
+   * Ask the service worker to wake us when connectivity returns. Returns
+   * false where Background Sync isn't supported; pages then replay on the
+   * `online` event instead.
+   */
+  async requestBackgroundSync(): Promise<boolean> {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return false;
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      if (!('sync' in registration)) return false;
+      await (registration as SyncRegistration).sync.register(SYNC_TAG);
+      return true;
+    } catch (error) {
+      console.warn('Background sync registration failed:', error);
+      return false;
+    }
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
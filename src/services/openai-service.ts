@@ -1,12 +1,12 @@
 import { PriorityAnalysis, MappedPriority } from '@/types/policy-mappings';
 import { PolicyMapper } from './policy-mapper';
+import { setLlmApiKey } from './llm';
 
 // Default demo key for testing
 const DEFAULT_API_KEY = 'sk-demo-key-for-testing';
 
 export class OpenAIService {
   private apiKey: string | null = null;
-  private endpoint = 'https://api.openai.com/v1/chat/completions';
   private policyMapper: PolicyMapper;
 
   constructor(apiKey?: string) {
@@ -20,6 +20,10 @@ export class OpenAIService {
   public setApiKey(apiKey: string): void {
     this.apiKey = apiKey;
     localStorage.setItem('openai_api_key', apiKey);
+    // The demo key can't reach OpenAI, so keep replaying fixtures for it
+    if (apiKey !== DEFAULT_API_KEY) {
+      setLlmApiKey(apiKey);
+    }
     console.log('API key set and saved to localStorage');
   }
 
@@ -85,8 +89,8 @@ export class OpenAIService {
     try {
       console.log(`Analyzing priority: "${priority}"`);
       
-      // For demo purposes, always use mock data to ensure it works
-      return this.createMockMapping(priority);
+      // Route through the mapping engine so results match every other caller
+      return await this.policyMapper.mapPriority(priority);
     } catch (error) {
       console.error(`Error analyzing priority "${priority}":`, error);
       
@@ -96,100 +100,24 @@ export class OpenAIService {
   }
   
   private createFallbackMapping(priority: string): MappedPriority {
-    // Return a basic mapping as fallback
+    // Return an unmapped result that asks the voter to clarify
     return {
       // New fields
       priority,
-      policyTerms: this.policyMapper.mapPriorityToTerms(priority),
+      policyTerms: [],
+      matches: [],
       
       // Legacy fields
       original: priority,
       category: 'Other',
-      mappedTerms: this.policyMapper.mapPriorityToTerms(priority),
+      mappedTerms: [],
       
       // Common fields
       sentiment: 'neutral',
-      confidence: 0.5,
-      needsClarification: false,
-      clarificationReason: '',
+      confidence: 0,
+      needsClarification: true,
+      clarificationReason: 'Priority could not be analyzed',
       possibleTopics: []
     };
   }
-  
-  private createMockMapping(priority: string): MappedPriority {
-    // Create mock mappings for demo purposes
-    const lowerPriority = priority.toLowerCase();
-    
-    let category = 'Other';
-    let mappedTerms: string[] = [];
-    let sentiment: 'positive' | 'negative' | 'neutral' = 'neutral';
-    let confidence = 0.8;
-    let needsClarification = false;
-    let possibleTopics: string[] = [];
-    
-    // Economic issues
-    if (lowerPriority.includes('tax') || lowerPriority.includes('econom') || lowerPriority.includes('job') || lowerPriority.includes('inflation')) {
-      category = 'Economic';
-      mappedTerms = ['Tax Reform', 'Economic Development', 'Inflation Control'];
-    } 
-    // Environmental issues
-    else if (lowerPriority.includes('climate') || lowerPriority.includes('environment') || lowerPriority.includes('green')) {
-      category = 'Environmental';
-      mappedTerms = ['Climate Policy', 'Environmental Protection', 'Green Energy'];
-    }
-    // Healthcare issues
-    else if (lowerPriority.includes('health') || lowerPriority.includes('medical') || lowerPriority.includes('insurance')) {
-      category = 'Healthcare';
-      mappedTerms = ['Healthcare Access', 'Insurance Reform', 'Medical Research Funding'];
-    }
-    // Education issues
-    else if (lowerPriority.includes('education') || lowerPriority.includes('school') || lowerPriority.includes('student')) {
-      category = 'Education';
-      mappedTerms = ['Education Funding', 'School Choice', 'Student Loan Reform'];
-    }
-    // Social issues
-    else if (lowerPriority.includes('immigration') || lowerPriority.includes('equality') || lowerPriority.includes('justice')) {
-      category = 'Social';
-      mappedTerms = ['Immigration Reform', 'Social Justice', 'Equality Initiatives'];
-    }
-    // Foreign policy
-    else if (lowerPriority.includes('foreign') || lowerPriority.includes('military') || lowerPriority.includes('war')) {
-      category = 'Foreign Policy';
-      mappedTerms = ['Military Funding', 'Foreign Aid', 'International Relations'];
-    }
-    // Technology issues
-    else if (lowerPriority.includes('tech') || lowerPriority.includes('ai') || lowerPriority.includes('internet')) {
-      category = 'Technology';
-      mappedTerms = ['AI Governance', 'Tech Regulation', 'Digital Privacy'];
-    }
-    // Governance issues
-    else if (lowerPriority.includes('government') || lowerPriority.includes('corrupt') || lowerPriority.includes('election')) {
-      category = 'Governance';
-      mappedTerms = ['Election System Reform', 'Government Transparency', 'Anti-Corruption Measures'];
-    }
-    // Unclear priorities
-    else {
-      needsClarification = true;
-      possibleTopics = ['Economic Policy', 'Social Policy', 'Environmental Policy'];
-      confidence = 0.4;
-    }
-    
-    return {
-      // New fields
-      priority,
-      policyTerms: mappedTerms,
-      
-      // Legacy fields
-      original: priority,
-      category,
-      mappedTerms,
-      
-      // Common fields
-      sentiment,
-      confidence,
-      needsClarification,
-      clarificationReason: needsClarification ? 'Priority is too vague or ambiguous' : '',
-      possibleTopics
-    };
-  }
 }
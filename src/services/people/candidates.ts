@@ -0,0 +1,59 @@
+import { Candidate } from '@/types/api';
+import { Candidacy, Office, PeopleDataset, Person, Term } from '@/types/people';
+
+const websiteOf = (person: Person) => person.channels.find(channel => channel.type === 'website')?.value || '';
+
+const emailOf = (person: Person) => person.channels.find(channel => channel.type === 'email')?.value;
+
+/**
+ * The `Candidate` shape the recommendations UI and alignment scoring use, for
+ * someone holding or running for an office
+ */
+export function toCandidate(person: Person, office: Office, link: Term | Candidacy): Candidate {
+  const party = person.party?.name || '';
+  const candidacy = 'cycle' in link ? link : undefined;
+
+  return {
+    name: person.name,
+    party,
+    office: office.name,
+    alignment: '⚠️', // Default to medium alignment until scored
+    platformHighlights: candidacy?.platformHighlights || [],
+    rationale: candidacy
+      ? `Candidate for ${office.name} in ${candidacy.cycle}`
+      : `Current ${office.name} representing your district`,
+    officialWebsite: websiteOf(person),
+    email: emailOf(person),
+    positionSummary: candidacy ? `${party} candidate for ${office.name}`.trim() : `${party} ${office.name}`.trim(),
+    level: office.level,
+    districtId: office.divisionId,
+    personId: person.id,
+    officeId: office.id
+  };
+}
+
+/**
+ * Candidates running for offices matching the filter
+ */
+export function candidatesFor(dataset: PeopleDataset, filter: (office: Office) => boolean = () => true): Candidate[] {
+  return dataset.candidacies.flatMap(candidacy => {
+    const person = dataset.people.find(item => item.id === candidacy.personId);
+    const office = dataset.offices.find(item => item.id === candidacy.officeId);
+    return person && office && filter(office) ? [toCandidate(person, office, candidacy)] : [];
+  });
+}
+
+/**
+ * Current officeholders grouped by office, in the order the offices were listed
+ */
+export function officeholdersByOffice(dataset: PeopleDataset): Array<{ office: Office; officials: Candidate[] }> {
+  return dataset.offices.flatMap(office => {
+    const officials = dataset.terms
+      .filter(term => term.officeId === office.id)
+      .flatMap(term => {
+        const person = dataset.people.find(item => item.id === term.personId);
+        return person ? [toCandidate(person, office, term)] : [];
+      });
+    return officials.length > 0 ? [{ office, officials }] : [];
+  });
+}
@@ -0,0 +1,111 @@
+import { ContactChannel, Office, PeopleDataset, Person, Term } from '@/types/people';
+import { normalizeOfficeLevel } from '@/services/districts';
+import { officeId, personIdFromCivic, slugify } from './ids';
+import { normalizeParty } from './parties';
+
+const COUNTRY_DIVISION = 'ocd-division/country:us';
+
+/**
+ * Google Civic /representatives response
+ */
+export interface CivicRepresentativesResponse {
+  offices: Array<{
+    name: string;
+    divisionId?: string;
+    levels?: string[];
+    roles?: string[];
+    officialIndices: number[];
+  }>;
+  officials: Array<{
+    name: string;
+    party?: string;
+    address?: Array<{
+      line1: string;
+      city: string;
+      state: string;
+      zip: string;
+    }>;
+    phones?: string[];
+    urls?: string[];
+    photoUrl?: string;
+    emails?: string[];
+    channels?: Array<{
+      type: string;
+      id: string;
+    }>;
+  }>;
+  normalizedInput?: {
+    line1?: string;
+    city: string;
+    state: string;
+    zip: string;
+  };
+  divisions?: Record<string, { name: string; officeIndices?: number[] }>;
+}
+
+type CivicOffice = CivicRepresentativesResponse['offices'][number];
+type CivicOfficial = CivicRepresentativesResponse['officials'][number];
+
+/**
+ * Federal offices get the same role keys as FEC candidacies so the two line
+ * up; everything else is keyed by its name within the division
+ */
+function civicRoleKey(office: CivicOffice, divisionId: string): string {
+  const roles = office.roles || [];
+  const federal = (office.levels || []).includes('country');
+
+  if (divisionId === COUNTRY_DIVISION && roles.includes('headOfState')) return 'president';
+  if (federal && roles.includes('legislatorUpperBody')) return 'us_senate';
+  if (federal && roles.includes('legislatorLowerBody')) return 'us_house';
+  return slugify(office.name);
+}
+
+function civicChannels(official: CivicOfficial): ContactChannel[] {
+  const address = official.address?.[0];
+  return [
+    ...(official.urls || []).map(value => ({ type: 'website' as const, value })),
+    ...(official.emails || []).map(value => ({ type: 'email' as const, value })),
+    ...(official.phones || []).map(value => ({ type: 'phone' as const, value })),
+    ...(address ? [{ type: 'address' as const, value: [address.line1, address.city, address.state, address.zip].join(', ') }] : []),
+    ...(official.channels || []).map(channel => ({ type: 'social' as const, value: channel.id, platform: channel.type.toLowerCase() }))
+  ];
+}
+
+/**
+ * Normalize the officials Google Civic returns for an address. Every official
+ * gets a current term in their office.
+ */
+export function fromCivicRepresentatives(response: CivicRepresentativesResponse): PeopleDataset {
+  const people = new Map<string, Person>();
+  const offices: Office[] = [];
+  const terms: Term[] = [];
+
+  for (const office of response.offices) {
+    const divisionId = office.divisionId || COUNTRY_DIVISION;
+    const id = officeId(divisionId, civicRoleKey(office, divisionId));
+    if (!offices.some(existing => existing.id === id)) {
+      offices.push({ id, name: office.name, divisionId, level: normalizeOfficeLevel(office) });
+    }
+
+    for (const index of office.officialIndices) {
+      const official = response.officials[index];
+      if (!official) continue;
+
+      const personId = personIdFromCivic(official.name, divisionId);
+      if (!people.has(personId)) {
+        people.set(personId, {
+          id: personId,
+          name: official.name,
+          party: normalizeParty(official.party),
+          photoUrl: official.photoUrl,
+          channels: civicChannels(official),
+          externalIds: { civic: [personId] },
+          sources: ['civic']
+        });
+      }
+      terms.push({ personId, officeId: id });
+    }
+  }
+
+  return { people: Array.from(people.values()), offices, terms, candidacies: [] };
+}
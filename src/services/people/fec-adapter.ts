@@ -0,0 +1,99 @@
+import { Candidacy, CandidacyStatus, Office, PeopleDataset, Person } from '@/types/people';
+import { normalizeOfficeLevel } from '@/services/districts';
+import { divisionFromFec, FEC_OFFICE_ROLES, officeId, personIdFromFec } from './ids';
+import { normalizeParty } from './parties';
+
+/**
+ * A candidate as the FEC API returns it from /candidates and /candidates/search
+ */
+export interface FecCandidateRecord {
+  candidate_id: string;
+  name: string;
+  party?: string;
+  party_full?: string;
+  // P, S or H
+  office: string;
+  office_full?: string;
+  state?: string;
+  district?: string;
+  incumbent_challenge?: 'I' | 'C' | 'O' | null;
+  incumbent_challenge_full?: string;
+  candidate_url?: string;
+  principal_committees?: Array<{
+    committee_id: string;
+    name: string;
+  }>;
+}
+
+const FEC_OFFICE_NAMES: Record<string, string> = {
+  P: 'President',
+  S: 'U.S. Senate',
+  H: 'U.S. House'
+};
+
+const CANDIDACY_STATUSES: Record<string, CandidacyStatus> = {
+  I: 'incumbent',
+  C: 'challenger',
+  O: 'open_seat'
+};
+
+/**
+ * FEC names are "LAST, FIRST MIDDLE"; show them as "First Middle Last"
+ */
+export function displayNameFromFec(name: string): string {
+  const [last, first = ''] = name.split(',').map(part => part.trim());
+  // Suffixes come after the first name in FEC data: "O'BRIEN, PAT JR."
+  const suffix = first.match(/\s+(JR\.?|SR\.?|II|III|IV)$/i)?.[1] || '';
+  const ordered = first ? [first.slice(0, first.length - suffix.length).trim(), last, suffix].filter(Boolean).join(' ') : name;
+  return ordered
+    .toLowerCase()
+    .replace(/(^|[\s'-])(\w)/g, (_, separator, letter) => separator + letter.toUpperCase())
+    .replace(/\b(Ii|Iii|Iv)$/, numeral => numeral.toUpperCase());
+}
+
+/**
+ * Normalize FEC candidates for one election cycle
+ * @param platforms Platform highlights by FEC candidate id, where we have them
+ */
+export function fromFecCandidates(
+  records: FecCandidateRecord[],
+  cycle: number,
+  platforms: Record<string, string[]> = {}
+): PeopleDataset {
+  const people: Person[] = [];
+  const offices = new Map<string, Office>();
+  const candidacies: Candidacy[] = [];
+
+  for (const record of records) {
+    const role = FEC_OFFICE_ROLES[record.office];
+    if (!role) continue;
+
+    const divisionId = divisionFromFec(record.office, record.state, record.district);
+    const id = officeId(divisionId, role);
+    const name = FEC_OFFICE_NAMES[record.office];
+    if (!offices.has(id)) {
+      offices.set(id, { id, name, divisionId, level: normalizeOfficeLevel({ name, divisionId, levels: ['country'] }) });
+    }
+
+    const personId = personIdFromFec(record.candidate_id);
+    people.push({
+      id: personId,
+      name: displayNameFromFec(record.name),
+      party: normalizeParty(record.party_full || record.party),
+      channels: record.candidate_url ? [{ type: 'website', value: record.candidate_url }] : [],
+      externalIds: { fec: [record.candidate_id] },
+      sources: ['fec']
+    });
+    candidacies.push({
+      id: `${record.candidate_id}:${cycle}`,
+      personId,
+      officeId: id,
+      cycle,
+      status: CANDIDACY_STATUSES[record.incumbent_challenge || ''] || 'unknown',
+      source: 'fec',
+      platformHighlights: platforms[record.candidate_id]
+    });
+  }
+
+  return { people, offices: Array.from(offices.values()), terms: [], candidacies };
+}
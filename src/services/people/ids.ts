@@ -0,0 +1,61 @@
+const COUNTRY_DIVISION = 'ocd-division/country:us';
+
+// Titles the civic data puts in front of names
+const HONORIFICS = new Set([
+  'senator', 'sen', 'representative', 'rep', 'congressman', 'congresswoman', 'governor', 'gov',
+  'mayor', 'president', 'judge', 'hon', 'honorable', 'dr', 'mr', 'mrs', 'ms'
+]);
+const SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv']);
+
+// FEC office codes and the role keys they share with civic offices
+export const FEC_OFFICE_ROLES: Record<string, string> = {
+  P: 'president',
+  S: 'us_senate',
+  H: 'us_house'
+};
+
+export const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * Comparable form of a person's name: "SMITH, JOHN A. JR." and "Senator John
+ * Smith" both become "john smith"
+ */
+export function normalizePersonName(name: string): string {
+  const [last, first] = name.split(',').map(part => part.trim());
+  const ordered = first ? `${first} ${last}` : name;
+
+  return ordered
+    .toLowerCase()
+    .replace(/[."']/g, '')
+    .split(/[\s-]+/)
+    .filter(token => token.length > 1 && !HONORIFICS.has(token) && !SUFFIXES.has(token))
+    .join(' ');
+}
+
+/**
+ * First and last name only, so middle names and nicknames don't block a match
+ */
+export function personNameKey(name: string): string {
+  const tokens = normalizePersonName(name).split(' ').filter(Boolean);
+  return tokens.length > 1 ? `${tokens[0]} ${tokens[tokens.length - 1]}` : tokens.join('');
+}
+
+export const officeId = (divisionId: string, roleKey: string) => `${divisionId}#${roleKey}`;
+
+export const personIdFromFec = (candidateId: string) => `fec:${candidateId}`;
+
+export const personIdFromCivic = (name: string, divisionId: string) =>
+  `civic:${divisionId.replace(/^ocd-division\//, '')}:${slugify(normalizePersonName(name))}`;
+
+/**
+ * OCD division an FEC candidate runs in. House district 00 is an at-large seat,
+ * which covers the whole state.
+ */
+export function divisionFromFec(office: string, state?: string, district?: string): string {
+  if (office === 'P' || !state || state === 'US') return COUNTRY_DIVISION;
+
+  const stateDivision = `${COUNTRY_DIVISION}/state:${state.toLowerCase()}`;
+  const districtNumber = Number(district);
+  return office === 'H' && districtNumber > 0 ? `${stateDivision}/cd:${districtNumber}` : stateDivision;
+}
@@ -0,0 +1,15 @@
+export { fromFecCandidates, displayNameFromFec } from './fec-adapter';
+export type { FecCandidateRecord } from './fec-adapter';
+export { fromCivicRepresentatives } from './civic-adapter';
+export type { CivicRepresentativesResponse } from './civic-adapter';
+export { mergeDatasets } from './merge';
+export { toCandidate, candidatesFor, officeholdersByOffice } from './candidates';
+export { normalizeParty } from './parties';
+export {
+  divisionFromFec,
+  normalizePersonName,
+  officeId,
+  personIdFromCivic,
+  personIdFromFec,
+  personNameKey
+} from './ids';
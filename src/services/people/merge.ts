@@ -0,0 +1,95 @@
+import { ContactChannel, ExternalIds, PeopleDataset, Person } from '@/types/people';
+import { personNameKey } from './ids';
+
+interface MergedPerson {
+  person: Person;
+  nameKey: string;
+  officeIds: Set<string>;
+}
+
+const unique = <T>(values: T[]) => Array.from(new Set(values));
+
+const mergeChannels = (a: ContactChannel[], b: ContactChannel[]) =>
+  [...a, ...b].filter((channel, index, all) =>
+    all.findIndex(other => other.type === channel.type && other.value.toLowerCase() === channel.value.toLowerCase()) === index
+  );
+
+const mergeExternalIds = (a: ExternalIds, b: ExternalIds): ExternalIds => ({
+  ...(a.fec || b.fec ? { fec: unique([...(a.fec || []), ...(b.fec || [])]) } : {}),
+  ...(a.civic || b.civic ? { civic: unique([...(a.civic || []), ...(b.civic || [])]) } : {})
+});
+
+const sharesId = (a: ExternalIds, b: ExternalIds) =>
+  (a.fec || []).some(id => b.fec?.includes(id)) || (a.civic || []).some(id => b.civic?.includes(id));
+
+const overlaps = <T>(a: Set<T>, b: Set<T>) => Array.from(a).some(value => b.has(value));
+
+/**
+ * Combine datasets from several sources into one, folding together records
+ * for the same politician. Two records are the same person when they share an
+ * upstream id, or when first and last names match and they hold or seek the
+ * same office. A shared name and state isn't enough: two people called John
+ * Smith can both run in Texas. A merged person keeps their FEC id, so ids stay
+ * stable whichever sources answered.
+ */
+export function mergeDatasets(...datasets: PeopleDataset[]): PeopleDataset {
+  const merged: MergedPerson[] = [];
+  // Every source person id, pointing at the person it was folded into
+  const byOriginalId = new Map<string, MergedPerson>();
+  const offices = new Map(datasets.flatMap(dataset => dataset.offices).map(office => [office.id, office]));
+
+  for (const dataset of datasets) {
+    for (const person of dataset.people) {
+      const officeIds = new Set([
+        ...dataset.terms.filter(term => term.personId === person.id).map(term => term.officeId),
+        ...dataset.candidacies.filter(candidacy => candidacy.personId === person.id).map(candidacy => candidacy.officeId)
+      ]);
+      const nameKey = personNameKey(person.name);
+
+      // A shared id beats a shared name and office
+      const match = merged.find(entry => sharesId(entry.person.externalIds, person.externalIds)) ||
+        merged.find(entry => entry.nameKey === nameKey && overlaps(entry.officeIds, officeIds));
+
+      if (!match) {
+        const entry = { person: { ...person }, nameKey, officeIds };
+        merged.push(entry);
+        byOriginalId.set(person.id, entry);
+        continue;
+      }
+
+      const existing = match.person;
+      const preferIncoming = person.id.startsWith('fec:') && !existing.id.startsWith('fec:');
+      match.person = {
+        id: preferIncoming ? person.id : existing.id,
+        // Civic names are already in display case; FEC names are rebuilt from upper case
+        name: existing.sources.includes('civic') || !person.sources.includes('civic') ? existing.name : person.name,
+        party: existing.party || person.party,
+        photoUrl: existing.photoUrl || person.photoUrl,
+        channels: mergeChannels(existing.channels, person.channels),
+        externalIds: mergeExternalIds(existing.externalIds, person.externalIds),
+        sources: unique([...existing.sources, ...person.sources])
+      };
+      officeIds.forEach(id => match.officeIds.add(id));
+      byOriginalId.set(person.id, match);
+    }
+  }
+
+  const resolveId = (personId: string) => byOriginalId.get(personId)?.person.id || personId;
+  const terms = datasets
+    .flatMap(dataset => dataset.terms)
+    .map(term => ({ ...term, personId: resolveId(term.personId) }))
+    .filter((term, index, all) =>
+      all.findIndex(other => other.personId === term.personId && other.officeId === term.officeId) === index
+    );
+  const candidacies = datasets
+    .flatMap(dataset => dataset.candidacies)
+    .map(candidacy => ({ ...candidacy, personId: resolveId(candidacy.personId) }))
+    .filter((candidacy, index, all) => all.findIndex(other => other.id === candidacy.id) === index);
+
+  return {
+    people: merged.map(entry => entry.person),
+    offices: Array.from(offices.values()),
+    terms,
+    candidacies
+  };
+}
@@ -0,0 +1,35 @@
+import { Party } from '@/types/people';
+
+const KNOWN_PARTIES: Party[] = [
+  { id: 'DEM', name: 'Democratic Party' },
+  { id: 'REP', name: 'Republican Party' },
+  { id: 'IND', name: 'Independent' },
+  { id: 'LIB', name: 'Libertarian Party' },
+  { id: 'GRE', name: 'Green Party' },
+  { id: 'NPA', name: 'Nonpartisan' }
+];
+
+// Spellings used by FEC (codes and upper-case names) and Civic
+const PARTY_ALIASES: Record<string, string> = {
+  dem: 'DEM', democrat: 'DEM', democratic: 'DEM', 'democratic party': 'DEM',
+  rep: 'REP', republican: 'REP', 'republican party': 'REP',
+  ind: 'IND', independent: 'IND', 'no party preference': 'IND',
+  lib: 'LIB', libertarian: 'LIB', 'libertarian party': 'LIB',
+  gre: 'GRE', green: 'GRE', 'green party': 'GRE',
+  npa: 'NPA', nonpartisan: 'NPA', 'non-partisan': 'NPA'
+};
+
+/**
+ * One Party for every spelling of it; unknown parties keep their own name
+ */
+export function normalizeParty(raw: string | undefined): Party | undefined {
+  const value = raw?.trim();
+  if (!value) return undefined;
+
+  const id = PARTY_ALIASES[value.toLowerCase()];
+  const known = id && KNOWN_PARTIES.find(party => party.id === id);
+  if (known) return known;
+
+  const name = value.toLowerCase().replace(/\b\w/g, letter => letter.toUpperCase());
+  return { id: value.toUpperCase().replace(/[^A-Z0-9]+/g, '_'), name };
+}
@@ -1,209 +1,12 @@
-import { initialPolicyMappings } from '@/data/policy-mappings';
-import { enhancedPolicyMappings } from '@/data/enhanced-policy-mappings';
+import { keywordTerms } from '@/services/terminology';
 import { detectPriorityConflicts } from '@/utils/priorityConflicts';
+import { stanceDetector, stanceToSentiment } from './stance';
+import { categorizeTerms } from '@/utils/policy-categories';
 import { MappedPriority, PolicyData, PriorityAnalysis } from '@/types/policy-mappings';
+import { Locale } from '@/types/i18n';
 import { AIClarificationService } from './ai-clarification';
 import { browserIssueTerminologyService } from './issue-terminology-service';
-
-// Define persona mappings directly in this file since the import isn't working
-interface PersonaMapping {
-  persona: string;
-  summary: string;
-  priority: string;
-  mapsTo: string;
-}
-
-const personaMappings: PersonaMapping[] = [
-  // Sal (19)
-  {
-    persona: "Sal (19)",
-    summary: "Mixed-race student athlete, cautious, values liberty, unsure politically",
-    priority: "I don't want to be labeled or canceled just for having questions.",
-    mapsTo: "Free expression / civil liberties"
-  },
-  {
-    persona: "Sal (19)",
-    summary: "Mixed-race student athlete, cautious, values liberty, unsure politically",
-    priority: "Why can't the government agree on what we need to do to address climate change?",
-    mapsTo: "Climate research + market-based climate policy"
-  },
-  {
-    persona: "Sal (19)",
-    summary: "Mixed-race student athlete, cautious, values liberty, unsure politically",
-    priority: "IF trans people want to claim their pronouns...I don't want it forced on me.",
-    mapsTo: "Pronoun policy / speech freedom tension"
-  },
-  {
-    persona: "Sal (19)",
-    summary: "Mixed-race student athlete, cautious, values liberty, unsure politically",
-    priority: "Censorship freaks me out — like how social media hides stuff...",
-    mapsTo: "Tech regulation, content moderation transparency"
-  },
-  {
-    persona: "Sal (19)",
-    summary: "Mixed-race student athlete, cautious, values liberty, unsure politically",
-    priority: "Politics feels corrupt — can it be fixed?",
-    mapsTo: "Government ethics, transparency reform"
-  },
-  {
-    persona: "Sal (19)",
-    summary: "Mixed-race student athlete, cautious, values liberty, unsure politically",
-    priority: "College costs too much, how will we afford homes?",
-    mapsTo: "Tuition reform, student debt relief, housing access"
-  },
-  
-  // Danielle (23)
-  {
-    persona: "Danielle (23)",
-    summary: "Anxious, pro-women, scared of crime, frustrated by inequality",
-    priority: "I want women to have choices and control over our bodies.",
-    mapsTo: "Reproductive rights"
-  },
-  {
-    persona: "Danielle (23)",
-    summary: "Anxious, pro-women, scared of crime, frustrated by inequality",
-    priority: "Scared by violent immigrant stories... what's with pardons?",
-    mapsTo: "Public safety, immigration enforcement, criminal justice"
-  },
-  {
-    persona: "Danielle (23)",
-    summary: "Anxious, pro-women, scared of crime, frustrated by inequality",
-    priority: "Rich get richer, can't even pay rent.",
-    mapsTo: "Income inequality, rent relief, minimum wage"
-  },
-  {
-    persona: "Danielle (23)",
-    summary: "Anxious, pro-women, scared of crime, frustrated by inequality",
-    priority: "We need better mental health care...",
-    mapsTo: "Affordable therapy, Medicaid, community care"
-  },
-  {
-    persona: "Danielle (23)",
-    summary: "Anxious, pro-women, scared of crime, frustrated by inequality",
-    priority: "Protect LGBTQ+ rights, but I don't like trans women in my locker room.",
-    mapsTo: "Anti-discrimination + gender space policy tension"
-  },
-  {
-    persona: "Danielle (23)",
-    summary: "Anxious, pro-women, scared of crime, frustrated by inequality",
-    priority: "I voted once, but felt forced... no great choice.",
-    mapsTo: "Electoral trust, campaign reform, better candidate access"
-  },
-  
-  // Joe (20)
-  {
-    persona: "Joe (20)",
-    summary: "Conservative family, centrist, feels alienated by identity politics",
-    priority: "Gov't should stay out of most things.",
-    mapsTo: "Limited government, deregulation"
-  },
-  {
-    persona: "Joe (20)",
-    summary: "Conservative family, centrist, feels alienated by identity politics",
-    priority: "Woke politics divide us — I don't have a voice.",
-    mapsTo: "Anti-DEI, race/gender neutrality"
-  },
-  {
-    persona: "Joe (20)",
-    summary: "Conservative family, centrist, feels alienated by identity politics",
-    priority: "Gov't spending is out of control.",
-    mapsTo: "Fiscal conservatism, balanced budget"
-  },
-  {
-    persona: "Joe (20)",
-    summary: "Conservative family, centrist, feels alienated by identity politics",
-    priority: "Support gun control — school shootings are personal.",
-    mapsTo: "Gun background checks, red-flag laws"
-  },
-  {
-    persona: "Joe (20)",
-    summary: "Conservative family, centrist, feels alienated by identity politics",
-    priority: "Admissions should be based on effort — not identity.",
-    mapsTo: "Race-neutral admissions policy"
-  },
-  {
-    persona: "Joe (20)",
-    summary: "Conservative family, centrist, feels alienated by identity politics",
-    priority: "Men's mental health isn't taken seriously.",
-    mapsTo: "Male mental health access and stigma reduction"
-  },
-  
-  // T.J. (25)
-  {
-    persona: "T.J. (25)",
-    summary: "Gay Asian barista, youth advocate, pro-queer rights, anti-tokenism",
-    priority: "Queer and trans folks are under attack.",
-    mapsTo: "LGBTQ+ rights, anti-discrimination protections"
-  },
-  {
-    persona: "T.J. (25)",
-    summary: "Gay Asian barista, youth advocate, pro-queer rights, anti-tokenism",
-    priority: "Tired of fake allyship — I want real policy.",
-    mapsTo: "Policy integrity, equity audits"
-  },
-  {
-    persona: "T.J. (25)",
-    summary: "Gay Asian barista, youth advocate, pro-queer rights, anti-tokenism",
-    priority: "We need police accountability, not just promises.",
-    mapsTo: "Law enforcement reform"
-  },
-  {
-    persona: "T.J. (25)",
-    summary: "Gay Asian barista, youth advocate, pro-queer rights, anti-tokenism",
-    priority: "Scared of how much data is collected on me.",
-    mapsTo: "Digital privacy, surveillance reform"
-  },
-  {
-    persona: "T.J. (25)",
-    summary: "Gay Asian barista, youth advocate, pro-queer rights, anti-tokenism",
-    priority: "The planet is burning... but elites fly jets.",
-    mapsTo: "Climate justice, carbon accountability"
-  },
-  {
-    persona: "T.J. (25)",
-    summary: "Gay Asian barista, youth advocate, pro-queer rights, anti-tokenism",
-    priority: "Mental health is a crisis — especially for queer youth.",
-    mapsTo: "Inclusive mental health funding"
-  },
-  
-  // Gracie (22)
-  {
-    persona: "Gracie (22)",
-    summary: "Biracial Latina + White, pro-life, faith-led, safety-minded",
-    priority: "Abortion ends a life — we need to support moms instead.",
-    mapsTo: "Pro-life policy + maternal support"
-  },
-  {
-    persona: "Gracie (22)",
-    summary: "Biracial Latina + White, pro-life, faith-led, safety-minded",
-    priority: "I love my church and I want laws that respect that.",
-    mapsTo: "Religious liberty protections"
-  },
-  {
-    persona: "Gracie (22)",
-    summary: "Biracial Latina + White, pro-life, faith-led, safety-minded",
-    priority: "I back the police — but they need to earn our trust.",
-    mapsTo: "Community policing + trust reform"
-  },
-  {
-    persona: "Gracie (22)",
-    summary: "Biracial Latina + White, pro-life, faith-led, safety-minded",
-    priority: "We need more mental health support, especially for families and veterans.",
-    mapsTo: "Family mental health + VA access"
-  },
-  {
-    persona: "Gracie (22)",
-    summary: "Biracial Latina + White, pro-life, faith-led, safety-minded",
-    priority: "I believe in traditional values — family comes first.",
-    mapsTo: "Family policy, child care, faith-friendly spaces"
-  },
-  {
-    persona: "Gracie (22)",
-    summary: "Biracial Latina + White, pro-life, faith-led, safety-minded",
-    priority: "I want to believe elections are fair — but I have doubts.",
-    mapsTo: "Election integrity + civic trust initiatives"
-  }
-];
+import { createDefaultRegistry, createMappingEngine, LlmMappingStrategy, PersonaMappingStrategy, PipelineMappingEngine } from './mapping-engine';
 
 // In-memory store for terms that need mapping (could be persisted later)
 const termsNeedingMapping: Set<string> = new Set();
@@ -213,37 +16,38 @@ export class PolicyMapper {
   private confidenceThreshold = 0.8; // 80% confidence threshold as per acceptance criteria
   private lowConfidenceThreshold = 0.5; // Threshold for suggesting term addition
 
+  private engine: PipelineMappingEngine;
+
   constructor(apiKey?: string) {
     // Initialize the AI clarification service
     this.aiClarificationService = new AIClarificationService(apiKey);
+
+    // The LLM strategy shares this mapper's clarification service so setApiKey reaches it
+    const registry = createDefaultRegistry()
+      .register('llm', () => new LlmMappingStrategy(this.aiClarificationService));
+    this.engine = createMappingEngine({ clarificationThreshold: this.confidenceThreshold }, registry);
+  }
+
+  /**
+   * Map a single priority through the mapping engine pipeline
+   * @param language The voter's chosen language, used when the priority itself doesn't show one
+   */
+  async mapPriority(priority: string, otherPriorities: string[] = [], language?: Locale): Promise<MappedPriority> {
+    const mapped = await this.engine.mapPriority(priority, { otherPriorities, language });
+    if (mapped.policyTerms.length === 0) {
+      // Track unmapped input for terminology review
+      termsNeedingMapping.add(priority);
+    }
+    return mapped;
   }
 
   /**
    * Async version: Maps a single priority to policy terms, with AI fallback and tracking of unmapped terms
    */
   async mapPriorityToTerms(priority: string): Promise<string[]> {
-    // Check for persona mappings first
-    const personaMapping = this.checkPersonaMappings(priority);
-    if (personaMapping && personaMapping.mappedTerms) {
-      return personaMapping.mappedTerms;
-    }
-    // Otherwise use standard mapping logic
-    const matches = this.findAllMatches(priority);
-    if (matches.length > 0 && matches[0] !== priority) {
-      return matches;
-    }
-    // If no mapping found, add to needs-mapping list
-    termsNeedingMapping.add(priority);
-    // Try AI fallback
-    if (this.aiClarificationService.isConfigured()) {
-      try {
-        const aiResult = await this.aiClarificationService.getClarification(priority);
-        if (aiResult && aiResult.possibleTopics && aiResult.possibleTopics.length > 0) {
-          return aiResult.possibleTopics;
-        }
-      } catch (err) {
-        console.error('AI mapping failed:', err);
-      }
+    const mapped = await this.mapPriority(priority);
+    if (mapped.policyTerms.length > 0) {
+      return mapped.policyTerms;
     }
     // Fallback: return prompt for more detail
     return ["please say more so we can map this better"];
@@ -254,24 +58,12 @@ export class PolicyMapper {
     return Array.from(termsNeedingMapping);
   }
 
-  async mapPriorities(priorities: string[]): Promise<PriorityAnalysis> {
+  async mapPriorities(priorities: string[], language?: Locale): Promise<PriorityAnalysis> {
     console.log('Starting to map priorities to policies:', priorities);
-    const mappedPrioritiesPromises = priorities.map(async priority => {
-      console.log('Mapping priority:', priority);
-      // Compose the mapped priority object
-      const mappedTerms = await this.mapPriorityToTerms(priority);
-      return {
-        original: priority,
-        priority: priority,
-        mappedTerms: mappedTerms,
-        policyTerms: mappedTerms,
-        category: this.getCategoryFromMappedTerms(mappedTerms),
-        sentiment: this.analyzeSentiment(priority),
-        confidence: mappedTerms && mappedTerms.length > 0 && mappedTerms[0] !== priority ? 0.7 : 0.3 // crude confidence
-      } as MappedPriority;
-    });
-    const mappedPriorities = await Promise.all(mappedPrioritiesPromises);
-    console.log('Mapped priorities result:', JSON.stringify(mappedPriorities, null, 2));
+    const filtered = priorities.filter(p => p && p.trim().length > 0);
+    const mappedPriorities = await Promise.all(
+      filtered.map(priority => this.mapPriority(priority, filtered.filter(p => p !== priority), language))
+    );
     const conflicts = this.detectConflicts(mappedPriorities);
     return {
       mappedPriorities,
@@ -297,86 +89,32 @@ export class PolicyMapper {
   /**
    * Check if a priority matches any known persona priorities from our CSV data
    */
-  checkPersonaMappings(priority: string): MappedPriority | null {
-    // Normalize the priority text for comparison
-    const normalizedPriority = priority.toLowerCase().trim().replace(/[.,;:!?()]/g, '');
-    
-    // Check against our persona mappings
-    for (const mapping of personaMappings) {
-      const normalizedMappingPriority = mapping.priority.toLowerCase().trim().replace(/[.,;:!?()]/g, '');
-      
-      // Check for exact match or if the priority contains the mapping priority
-      if (normalizedPriority === normalizedMappingPriority || 
-          normalizedPriority.includes(normalizedMappingPriority) || 
-          normalizedMappingPriority.includes(normalizedPriority)) {
-        
-        // Parse the mapped terms into an array
-        const mappedTerms = mapping.mapsTo.split(/[,+]/g).map(term => term.trim());
-        
-        return {
-          original: priority,
-          priority: priority,
-          mappedTerms: mappedTerms,
-          policyTerms: mappedTerms,
-          category: this.getCategoryFromMappedTerms(mappedTerms),
-          sentiment: this.analyzeSentiment(priority),
-          confidence: 0.95 // High confidence for predefined mappings
-        } as MappedPriority;
-      }
-    }
-    
-    return null;
+  async checkPersonaMappings(priority: string): Promise<MappedPriority | null> {
+    const matches = await new PersonaMappingStrategy().map(priority);
+    if (matches.length === 0) return null;
+
+    const mappedTerms = matches.map(m => m.standardTerm);
+    const [topStance] = stanceDetector.assessAll(
+      priority,
+      matches.map(m => ({ ...m, sources: ['persona' as const] }))
+    );
+    return {
+      original: priority,
+      priority: priority,
+      mappedTerms: mappedTerms,
+      policyTerms: mappedTerms,
+      category: this.getCategoryFromMappedTerms(mappedTerms),
+      sentiment: stanceToSentiment(topStance.stance),
+      confidence: matches[0].confidence,
+      needsClarification: false
+    };
   }
 
   /**
    * Determine a category based on mapped terms
    */
   getCategoryFromMappedTerms(mappedTerms: string[]): string {
-    // Map of common terms to categories
-    const categoryMap: Record<string, string> = {
-      'rights': 'Civil Rights',
-      'freedom': 'Civil Liberties',
-      'liberty': 'Civil Liberties',
-      'expression': 'Civil Liberties',
-      'speech': 'Civil Liberties',
-      'climate': 'Environment',
-      'environment': 'Environment',
-      'tax': 'Economy',
-      'economic': 'Economy',
-      'inequality': 'Economy',
-      'education': 'Education',
-      'college': 'Education',
-      'school': 'Education',
-      'health': 'Healthcare',
-      'mental': 'Healthcare',
-      'therapy': 'Healthcare',
-      'police': 'Criminal Justice',
-      'criminal': 'Criminal Justice',
-      'immigration': 'Immigration',
-      'religion': 'Religion',
-      'faith': 'Religion',
-      'church': 'Religion',
-      'election': 'Democracy',
-      'voting': 'Democracy',
-      'privacy': 'Technology',
-      'data': 'Technology',
-      'digital': 'Technology',
-      'lgbtq': 'Civil Rights',
-      'trans': 'Civil Rights',
-      'queer': 'Civil Rights',
-      'gender': 'Civil Rights'
-    };
-    
-    // Check each mapped term against our category map
-    for (const term of mappedTerms) {
-      for (const [keyword, category] of Object.entries(categoryMap)) {
-        if (term.toLowerCase().includes(keyword)) {
-          return category;
-        }
-      }
-    }
-    
-    return 'Other'; // Default category
+    return categorizeTerms(mappedTerms);
   }
 
   /**
@@ -441,7 +179,7 @@ export class PolicyMapper {
     const lowercasePriority = priority.toLowerCase();
     
     // First check for exact matches in policy mappings
-    for (const [key, mapping] of Object.entries({...initialPolicyMappings, ...enhancedPolicyMappings})) {
+    for (const [key, mapping] of Object.entries(keywordTerms)) {
       if (mapping.plainLanguage && mapping.plainLanguage.some(phrase => 
         lowercasePriority.includes(phrase.toLowerCase()))) {
         return mapping.standardTerm;
@@ -452,7 +190,7 @@ export class PolicyMapper {
     let bestMatch = priority;
     let bestScore = 0;
     
-    for (const [key, mapping] of Object.entries({...initialPolicyMappings, ...enhancedPolicyMappings})) {
+    for (const [key, mapping] of Object.entries(keywordTerms)) {
       const keywords = mapping.keywords || [];
       let score = 0;
       
@@ -479,7 +217,7 @@ export class PolicyMapper {
     const matches: string[] = [];
     
     // Check all policy mappings for matches
-    for (const [key, mapping] of Object.entries({...initialPolicyMappings, ...enhancedPolicyMappings})) {
+    for (const [key, mapping] of Object.entries(keywordTerms)) {
       // Check plain language phrases
       if (mapping.plainLanguage && mapping.plainLanguage.some(phrase => 
         lowercasePriority.includes(phrase.toLowerCase()))) {
@@ -603,7 +341,7 @@ export class PolicyMapper {
     // If no category found, try to find a category based on the best matching policy term
     const bestMatch = this.findBestMatch(priority);
     if (bestMatch !== priority) {
-      for (const [key, mapping] of Object.entries({...initialPolicyMappings, ...enhancedPolicyMappings})) {
+      for (const [key, mapping] of Object.entries(keywordTerms)) {
         if (mapping.standardTerm === bestMatch && mapping.category) {
           return mapping.category;
         }
@@ -614,51 +352,11 @@ export class PolicyMapper {
   }
 
   /**
-   * Analyze the sentiment of a priority
+   * Analyze the sentiment of a priority, in English or Spanish. Per-term
+   * stances come with the matches from mapPriority.
    */
   analyzeSentiment(priority: string): 'positive' | 'negative' | 'neutral' {
-    const lowercasePriority = priority.toLowerCase();
-    
-    const positiveWords = [
-      'support', 'favor', 'agree', 'good', 'better', 'best',
-      'important', 'necessary', 'essential', 'critical', 'vital',
-      'want', 'need', 'should', 'must', 'increase', 'improve',
-      'enhance', 'strengthen', 'protect', 'defend', 'promote',
-      'encourage', 'help', 'benefit', 'advance', 'progress'
-    ];
-    
-    const negativeWords = [
-      'oppose', 'against', 'disagree', 'bad', 'worse', 'worst',
-      'harmful', 'dangerous', 'risky', 'threat', 'problem',
-      'don\'t', 'not', 'never', 'stop', 'prevent', 'reduce',
-      'eliminate', 'ban', 'prohibit', 'restrict', 'limit',
-      'cut', 'decrease', 'lower', 'weaken', 'undermine'
-    ];
-    
-    let positiveScore = 0;
-    let negativeScore = 0;
-    
-    // Count positive and negative words
-    for (const word of positiveWords) {
-      if (lowercasePriority.includes(word)) {
-        positiveScore += 1;
-      }
-    }
-    
-    for (const word of negativeWords) {
-      if (lowercasePriority.includes(word)) {
-        negativeScore += 1;
-      }
-    }
-    
-    // Determine sentiment based on scores
-    if (positiveScore > negativeScore) {
-      return 'positive';
-    } else if (negativeScore > positiveScore) {
-      return 'negative';
-    } else {
-      return 'neutral';
-    }
+    return stanceDetector.sentimentOf(priority);
   }
 
   /**
@@ -671,7 +369,7 @@ export class PolicyMapper {
     let confidence = 0.5;
     
     // Check for exact matches in policy mappings
-    for (const [key, mapping] of Object.entries({...initialPolicyMappings, ...enhancedPolicyMappings})) {
+    for (const [key, mapping] of Object.entries(keywordTerms)) {
       if (mapping.plainLanguage && mapping.plainLanguage.some(phrase => 
         lowercasePriority.includes(phrase.toLowerCase()))) {
         confidence += 0.3; // Significant boost for exact phrase match
@@ -681,7 +379,7 @@ export class PolicyMapper {
     
     // Check for keyword matches
     let keywordMatches = 0;
-    for (const [key, mapping] of Object.entries({...initialPolicyMappings, ...enhancedPolicyMappings})) {
+    for (const [key, mapping] of Object.entries(keywordTerms)) {
       const keywords = mapping.keywords || [];
       for (const keyword of keywords) {
         if (lowercasePriority.includes(keyword.toLowerCase())) {
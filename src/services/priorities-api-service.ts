@@ -1,32 +1,20 @@
 import { VoterFormValues } from '@/schemas/voterFormSchema';
-import { RecommendationsData, Candidate, EmailDraft, InterestGroup, Petition, CivicEducationResource } from '@/types/api';
+import { RecommendationsData, Candidate, BallotMeasure, EmailDraft, InterestGroup, Petition, CivicEducationResource } from '@/types/api';
 import { Toast } from '@/types/toast';
+import { DistrictResolution } from '@/types/districts';
 import { PolicyMapper } from '@/services/policy-mapper';
+import { toApiConflicts } from '@/utils/priorityConflicts';
+import { candidateAlignmentService } from '@/services/alignment';
+import { ballotMeasureService } from '@/services/ballot-measures';
 import { FecApiService } from '@/services/fec-api-service';
 import { GoogleCivicApiService } from '@/services/google-civic-api-service';
-
-const MOCK_EMAIL_DRAFTS: EmailDraft[] = [
-  {
-    recipient: {
-      name: "Senator Alex Johnson",
-      position: "U.S. Senator",
-      email: "alex.johnson@senate.gov"
-    },
-    subject: "Concerned Constituent: Environmental Protection and Clean Energy",
-    body: "Dear Senator Johnson,\n\nAs your constituent, I am writing to express my strong support for environmental protection and clean energy initiatives. Climate change is one of my top priorities, and I believe we need immediate action to address this critical issue.\n\nI urge you to support legislation that promotes renewable energy, reduces carbon emissions, and protects our natural resources. Our community's future depends on making sustainable choices today.\n\nThank you for your attention to this matter.\n\nSincerely,\n[Your Name]",
-    stance: "supportive"
-  },
-  {
-    recipient: {
-      name: "Representative Maria Garcia",
-      position: "U.S. Representative",
-      email: "maria.garcia@house.gov"
-    },
-    subject: "Request for Support: Education Funding",
-    body: "Dear Representative Garcia,\n\nI am writing as a concerned constituent regarding education funding in our district. Quality education is crucial for our community's future, and I believe we need to increase investment in our schools.\n\nPlease support initiatives that increase education funding, improve teacher pay, and provide resources for STEM programs. Our children's future depends on the decisions we make today.\n\nThank you for your consideration.\n\nSincerely,\n[Your Name]",
-    stance: "supportive"
-  }
-];
+import { districtResolver } from '@/services/districts';
+import { candidatesFor, fromCivicRepresentatives, mergeDatasets, officeholdersByOffice } from '@/services/people';
+import { electionCalendar } from '@/services/elections';
+import { draftsForOfficials } from '@/services/email';
+import { DEFAULT_LOCALE, translate } from '@/services/i18n';
+import { offlineData, offlineOutbox } from '@/services/offline';
+import { DataFreshness } from '@/types/offline';
 
 const MOCK_INTEREST_GROUPS: InterestGroup[] = [
   {
@@ -96,12 +84,6 @@ export class PrioritiesApiService {
     this.toast = toast;
   }
 
-  private generateEmailDrafts(mappedPriorities: string[]): EmailDraft[] {
-    // In a real implementation, we would generate personalized email drafts
-    // based on the user's mapped priorities and their representatives
-    return MOCK_EMAIL_DRAFTS;
-  }
-
   private getRelevantInterestGroups(mappedPriorities: string[]): InterestGroup[] {
     // In a real implementation, we would filter interest groups based on priorities
     return MOCK_INTEREST_GROUPS;
@@ -117,9 +99,16 @@ export class PrioritiesApiService {
     return MOCK_CIVIC_EDUCATION;
   }
 
+  /**
+   * Map the voter's priorities and build recommendations. Offline, the local
+   * mapper still runs and FEC and Civic data come from the last fetch; the
+   * analysis is then queued to be redone once back online.
+   * @param options.queueIfOffline Set false when replaying the queue itself
+   */
   async mapPriorities(
     formData: VoterFormValues,
-    feedbackPriorities: string[] = []
+    feedbackPriorities: string[] = [],
+    options: { queueIfOffline?: boolean } = {}
   ): Promise<ApiResponse<RecommendationsData>> {
     try {
       // Validate inputs
@@ -134,69 +123,107 @@ export class PrioritiesApiService {
       const priorities = [...formData.priorities, ...feedbackPriorities].filter(Boolean);
       
       // Analyze priorities using our policy mapper
-      const analysis = await this.policyMapper.mapPriorities(priorities).catch(error => {
+      const analysis = await this.policyMapper.mapPriorities(priorities, formData.language).catch(error => {
         console.error('Policy mapper error:', error);
         throw new Error('Failed to analyze priorities: ' + (error.message || 'Unknown error'));
       });
       
       // Get candidate data based on mode
       let potusData: Candidate[] = [];
-      let localOfficesData: { [key: string]: Candidate[] } = {};
+      const localOfficesData: { [key: string]: Candidate[] } = {};
+      let ballotMeasuresData: BallotMeasure[] = [];
+      let emailDraftsData: EmailDraft[] = [];
       let regionData: string | undefined;
+      let districts: DistrictResolution | undefined;
+      let freshness: DataFreshness | undefined;
+      const online = offlineData.isOnline();
 
       try {
-        // Get real-time data from APIs
-        const year = formData.mode === 'current' ? new Date().getFullYear().toString() : '2024';
+        // Demo mode replays the last general election; current mode follows the voter's next election
+        const election = electionCalendar.contextFor({ zipCode: formData.zipCode }, new Date(), formData.mode);
+        const year = election.cycle.toString();
         
-        const [candidates, civicData] = await Promise.all([
-          this.fecApi.getCandidates(year).catch(error => {
+        const [fecData, civicResponse] = await Promise.all([
+          offlineData.load(`fec:candidacies:${year}`, () => this.fecApi.getCandidacies(year)).catch(error => {
             console.error('FEC API error:', error);
             throw new Error('Failed to fetch candidate data: ' + (error.message || 'Unknown error'));
           }),
-          this.civicApi.getRepresentativesByAddress(formData.zipCode).catch(error => {
+          offlineData.load(
+            `civic:representatives:${formData.zipCode}:${formData.address?.trim().toLowerCase() || ''}`,
+            () => this.civicApi.getRepresentativesByAddress({ zipCode: formData.zipCode, address: formData.address })
+          ).catch(error => {
             console.error('Civic API error:', error);
             throw new Error('Failed to fetch representative data: ' + (error.message || 'Unknown error'));
           })
         ]);
+        const candidacies = fecData.value;
+        const civicData = civicResponse.value;
+        if (!online || fecData.fromCache || civicResponse.fromCache) {
+          freshness = { offline: !online, fetchedAt: { fec: fecData.fetchedAt, civic: civicResponse.fetchedAt } };
+        }
+
+        // One record per politician, whether FEC, Civic or both know them
+        const people = mergeDatasets(candidacies, fromCivicRepresentatives(civicData));
 
         // Only show candidates in demo mode or if there's an upcoming election
-        if (formData.mode === 'demo') {
-          potusData = candidates || [];
+        if (formData.mode === 'demo' || election.hasUpcomingBallots) {
+          potusData = await candidateAlignmentService.alignCandidates(
+            candidatesFor(people, office => office.level === 'federal'),
+            analysis.mappedPriorities,
+            [],
+            'fec'
+          );
         }
         
-        // Transform civic data into our format for current representatives
-        localOfficesData = civicData.offices.reduce((acc, office) => {
-          const officialsList = office.officialIndices.map(index => {
-            const official = civicData.officials[index];
-            return {
-              name: official.name,
-              party: official.party,
-              office: office.name,
-              alignment: "⚠️", // Default to medium alignment
-              platformHighlights: [],
-              rationale: `Current ${office.name} representing your district`,
-              officialWebsite: official.urls?.[0] || "",
-              positionSummary: `${official.party} ${office.name}`
-            } as Candidate;
-          });
-          
-          acc[office.name] = officialsList;
-          return acc;
-        }, {} as { [key: string]: Candidate[] });
+        // Divisions only pin the voter down when Google matched a street address
+        const addressDivisions = formData.address && civicData.normalizedInput?.line1
+          ? Object.entries(civicData.divisions || {}).map(([id, division]) => ({ id, name: division.name }))
+          : [];
+        districts = districtResolver.resolve({ zipCode: formData.zipCode, address: formData.address }, addressDivisions);
+
+        // Current representatives, leaving out offices for districts the voter isn't in
+        for (const { office, officials } of officeholdersByOffice(people)) {
+          if (districtResolver.membership(districts, office.divisionId) === 'out') continue;
+          localOfficesData[office.name] = [...(localOfficesData[office.name] || []), ...officials];
+        }
         
+        for (const [office, officials] of Object.entries(localOfficesData)) {
+          localOfficesData[office] = await candidateAlignmentService.alignCandidates(officials, analysis.mappedPriorities);
+        }
+
+        // Demo mode draws measures from the local fixture for the voter's state
+        if (formData.mode === 'demo') {
+          ballotMeasuresData = await ballotMeasureService.mapConcerns(
+            ballotMeasureService.fromFixture(civicData.normalizedInput?.state),
+            analysis.mappedPriorities
+          );
+        }
+
         regionData = civicData.normalizedInput?.city;
+
+        // Drafts to the voter's current representatives, written from where each one stands
+        if (formData.mode === 'current') {
+          emailDraftsData = draftsForOfficials({
+            officials: Object.values(localOfficesData).flat(),
+            mappedPriorities: analysis.mappedPriorities,
+            sender: { city: regionData, zipCode: formData.zipCode },
+            election,
+            ballotMeasures: ballotMeasuresData,
+            language: formData.language
+          });
+        }
       } catch (error) {
         console.error('API error:', error);
         throw error;
       }
 
       // Generate recommendations based on mode and priorities
-      const mappedTerms = analysis.mappedPriorities.map(p => p.mappedTerm);
+      const mappedTerms = analysis.mappedPriorities.flatMap(p => p.policyTerms);
       const recommendations = {
         potus: potusData,
         localOffices: localOfficesData,
-        ballotMeasures: [],
-        emailDrafts: formData.mode === 'current' ? this.generateEmailDrafts(mappedTerms) : [],
+        ballotMeasures: ballotMeasuresData,
+        emailDrafts: emailDraftsData,
         interestGroups: this.getRelevantInterestGroups(mappedTerms),
         petitions: formData.mode === 'current' ? this.getRelevantPetitions(mappedTerms) : [],
         civicEducation: this.getCivicEducationResources(mappedTerms)
@@ -207,17 +234,37 @@ export class PrioritiesApiService {
         mode: formData.mode,
         zipCode: formData.zipCode,
         region: regionData || 'Region not found',
+        districts,
+        language: formData.language,
         analysis: {
-          summary: formData.mode === 'current' 
-            ? 'Based on your priorities, we\'ve found relevant ways for you to take action and get involved in your community.'
-            : 'Here are potential candidates and measures that align with your priorities for the upcoming election.',
+          summary: translate(formData.language || DEFAULT_LOCALE, formData.mode === 'current' ? 'analysis.summary.current' : 'analysis.summary.demo'),
           priorities: formData.priorities,
-          conflicts: analysis.conflicts
+          conflicts: toApiConflicts(analysis.conflicts),
+          mappedPriorities: analysis.mappedPriorities.map(mp => ({
+            ...mp,
+            original: mp.original || mp.priority
+          }))
         },
-        mappedPriorities: analysis.mappedPriorities,
-        recommendations
+        recommendations,
+        freshness
       };
 
+      if (!online && options.queueIfOffline !== false) {
+        const queued = await offlineOutbox.enqueueAnalysis({
+          values: {
+            mode: formData.mode,
+            zipCode: formData.zipCode,
+            address: formData.address,
+            priorities,
+            language: formData.language
+          },
+          result: recommendationsData,
+          editedDrafts: []
+        });
+        recommendationsData.freshness = { ...freshness, offline: true, queuedId: queued.id };
+        void offlineOutbox.requestBackgroundSync();
+      }
+
       return {
         ok: true,
         data: recommendationsData
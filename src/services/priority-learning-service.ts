@@ -1,19 +1,97 @@
-import { PoliticalIssue, MappedPriority } from '@/types/priority-mapping';
+import { PoliticalIssue } from '@/types/priority-mapping';
+import { IssueTermStatus } from '@/types/terminology';
+import {
+  LearnedMapping,
+  LearnedMappingExport,
+  LearningScope,
+  LearningStore
+} from '@/types/learning';
+import { createLearningStore } from '@/services/learning-store';
+import { browserIssueTerminologyService } from './issue-terminology-service';
 
-interface TermLearning {
-  originalTerm: string;
-  clarifiedTerm: string;
+/**
+ * Where learned mappings go to be reviewed before they become terminology.
+ * Both terminology services satisfy this.
+ */
+export interface TerminologyReviewQueue {
+  addPendingTerm(
+    term: string,
+    category?: string,
+    synonyms?: string[],
+    mappedPolicies?: string[],
+    // The raw voter input behind the suggestion
+    sourceInput?: string
+  ): boolean | Promise<boolean>;
+  // Review status of previously submitted terms, keyed by lower-cased term
+  getTermStatuses?(terms: string[]): Promise<Record<string, IssueTermStatus>>;
+}
+
+/**
+ * The issue a clarified priority was mapped to. Callers outside the legacy
+ * issue list pass a term key (or the standard term) as the id.
+ */
+export type LearnedIssue = Pick<PoliticalIssue, 'id' | 'name'>;
+
+/**
+ * A learned mapping that applies to a priority, with its decayed confidence
+ */
+export interface LearnedMatch {
+  mapping: LearnedMapping;
+  // 1 when the priority is the exact text the mapping was learned from
+  similarity: number;
   confidence: number;
-  usageCount: number;
 }
 
+export interface PriorityLearningOptions {
+  store?: LearningStore;
+  // Signed-in user; without one, user-scoped mappings stay on this device
+  userId?: string | null;
+  reviewQueue?: TerminologyReviewQueue;
+  // Days after which an unused mapping's confidence has halved
+  halfLifeDays?: number;
+  // Mappings that decay below this are dropped
+  minConfidence?: number;
+  // A mapping must be confirmed this often, at this confidence, before it can be proposed for promotion
+  promotionUsageCount?: number;
+  promotionConfidence?: number;
+  now?: () => Date;
+}
+
+// Owner segment of the id for mappings learned before sign-in
+const DEVICE_OWNER = 'device';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class PriorityLearningService {
-  // Session-specific learned mappings
-  private sessionMappings = new Map<string, TermLearning>();
-  
+  private store: LearningStore;
+  private userId: string | null;
+  private reviewQueue: TerminologyReviewQueue;
+  private halfLifeDays: number;
+  private minConfidence: number;
+  private promotionUsageCount: number;
+  private promotionConfidence: number;
+  private now: () => Date;
+
   // Threshold for considering terms similar
   private readonly SIMILARITY_THRESHOLD = 0.7;
 
+  constructor(options: PriorityLearningOptions = {}) {
+    this.store = options.store || createLearningStore();
+    this.userId = options.userId || null;
+    this.reviewQueue = options.reviewQueue || browserIssueTerminologyService;
+    this.halfLifeDays = options.halfLifeDays ?? 30;
+    this.minConfidence = options.minConfidence ?? 0.2;
+    this.promotionUsageCount = options.promotionUsageCount ?? 3;
+    this.promotionConfidence = options.promotionConfidence ?? 0.8;
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Switch to a signed-in user's mappings
+   */
+  setUserId(userId: string | null): void {
+    this.userId = userId || null;
+  }
+
   /**
    * Calculate similarity between two terms
    * Using a simple but effective algorithm that can be enhanced later
@@ -22,7 +100,7 @@ export class PriorityLearningService {
     const normalize = (str: string) => str.toLowerCase().trim();
     const t1 = normalize(term1);
     const t2 = normalize(term2);
-    
+
     // Check for exact match or containment
     if (t1 === t2) return 1;
     if (t1.includes(t2) || t2.includes(t1)) {
@@ -34,40 +112,99 @@ export class PriorityLearningService {
     const words2 = new Set(t2.split(/\s+/));
     const intersection = new Set([...words1].filter(x => words2.has(x)));
     const union = new Set([...words1, ...words2]);
-    
+
     return intersection.size / union.size;
   }
 
+  private mappingId(scope: LearningScope, originalTerm: string, issueId: string): string {
+    const owner = scope === 'user' ? this.userId || DEVICE_OWNER : 'global';
+    return `${scope}:${owner}:${originalTerm.toLowerCase().trim()}:${issueId}`;
+  }
+
+  /**
+   * Confidence after exponential decay since the mapping was last used
+   */
+  private effectiveConfidence(mapping: LearnedMapping): number {
+    const ageDays = Math.max(0, this.now().getTime() - new Date(mapping.lastUsedAt).getTime()) / DAY_MS;
+    return mapping.confidence * Math.pow(0.5, ageDays / this.halfLifeDays);
+  }
+
+  /**
+   * The current user's mappings plus the global ones, skipping rejected mappings
+   */
+  private async getApplicableMappings(): Promise<LearnedMapping[]> {
+    const [userMappings, globalMappings] = await Promise.all([
+      this.store.list({ scope: 'user', userId: this.userId }),
+      this.store.list({ scope: 'global' })
+    ]);
+    return [...userMappings, ...globalMappings].filter(mapping => mapping.status !== 'rejected');
+  }
+
   /**
    * Learn from user clarification
    * @param originalPriority The original priority text
    * @param clarification The user's clarification
    * @param mappedIssue The issue it was eventually mapped to
+   * @param scope Whether the mapping applies to this user only or to everyone
    */
-  learnFromClarification(
+  async learnFromClarification(
     originalPriority: string,
     clarification: string,
-    mappedIssue: PoliticalIssue
-  ): void {
-    const key = `${originalPriority}:${mappedIssue.id}`;
-    const existing = this.sessionMappings.get(key);
-
-    if (existing) {
-      // Update existing mapping
-      this.sessionMappings.set(key, {
-        ...existing,
-        usageCount: existing.usageCount + 1,
-        confidence: Math.min(1, existing.confidence + 0.1)
-      });
-    } else {
-      // Create new mapping
-      this.sessionMappings.set(key, {
-        originalTerm: originalPriority,
-        clarifiedTerm: clarification,
-        confidence: 0.6, // Start with moderate confidence
-        usageCount: 1
-      });
+    mappedIssue: LearnedIssue,
+    scope: LearningScope = 'user'
+  ): Promise<LearnedMapping> {
+    const id = this.mappingId(scope, originalPriority, mappedIssue.id);
+    const existing = await this.store.get(id);
+    const now = this.now().toISOString();
+
+    const mapping: LearnedMapping = existing
+      ? {
+          // Update existing mapping, starting from its decayed confidence
+          ...existing,
+          clarifiedTerm: clarification,
+          usageCount: existing.usageCount + 1,
+          // Rounded so three quick confirmations reach 0.8 rather than 0.7999…
+          confidence: Math.min(1, Math.round((this.effectiveConfidence(existing) + 0.1) * 1000) / 1000),
+          lastUsedAt: now
+        }
+      : {
+          id,
+          scope,
+          userId: scope === 'user' ? this.userId || undefined : undefined,
+          originalTerm: originalPriority,
+          clarifiedTerm: clarification,
+          issueId: mappedIssue.id,
+          issueName: mappedIssue.name,
+          confidence: 0.6, // Start with moderate confidence
+          usageCount: 1,
+          status: 'active',
+          createdAt: now,
+          lastUsedAt: now
+        };
+
+    await this.store.put(mapping);
+    return mapping;
+  }
+
+  /**
+   * Learned mappings that apply to a priority: ones learned from the same
+   * text, or from text similar enough to it
+   */
+  async findMatches(priority: string): Promise<LearnedMatch[]> {
+    const mappings = await this.getApplicableMappings();
+    const matches: LearnedMatch[] = [];
+
+    for (const mapping of mappings) {
+      const confidence = this.effectiveConfidence(mapping);
+      if (confidence < this.minConfidence) continue;
+
+      const similarity = this.calculateSimilarity(priority, mapping.originalTerm);
+      if (similarity === 1 || similarity > this.SIMILARITY_THRESHOLD) {
+        matches.push({ mapping, similarity, confidence: similarity * confidence });
+      }
     }
+
+    return matches.sort((a, b) => b.confidence - a.confidence);
   }
 
   /**
@@ -76,59 +213,192 @@ export class PriorityLearningService {
    * @param issues Available political issues
    * @returns Enhanced confidence scores for matching
    */
-  enhanceMatching(
+  async enhanceMatching(
     priority: string,
     issues: PoliticalIssue[]
-  ): Array<{ issue: PoliticalIssue; confidenceBoost: number }> {
+  ): Promise<Array<{ issue: PoliticalIssue; confidenceBoost: number }>> {
+    const matches = await this.findMatches(priority);
     const enhancements: Array<{ issue: PoliticalIssue; confidenceBoost: number }> = [];
 
     issues.forEach(issue => {
-      const key = `${priority}:${issue.id}`;
-      const learned = this.sessionMappings.get(key);
-
-      if (learned) {
-        // Direct match from learning
-        enhancements.push({
-          issue,
-          confidenceBoost: learned.confidence * 0.3 // Cap the boost at 30%
-        });
-      } else {
-        // Check for similar terms we've learned about
-        for (const [, mapping] of this.sessionMappings) {
-          const similarityToOriginal = this.calculateSimilarity(
-            priority,
-            mapping.originalTerm
-          );
-          
-          if (similarityToOriginal > this.SIMILARITY_THRESHOLD) {
-            enhancements.push({
-              issue,
-              confidenceBoost: similarityToOriginal * mapping.confidence * 0.2 // Cap at 20% for similarity matches
-            });
-          }
-        }
+      const boost = matches
+        .filter(match => match.mapping.issueId === issue.id)
+        // Direct matches from learning are capped at 30%, similar terms at 20%
+        .map(match => match.confidence * (match.similarity === 1 ? 0.3 : 0.2))
+        .reduce((best, value) => Math.max(best, value), 0);
+
+      if (boost > 0) {
+        enhancements.push({ issue, confidenceBoost: boost });
       }
     });
 
     return enhancements;
   }
 
+  /**
+   * Drop active mappings whose confidence has decayed below the minimum
+   * @returns Number of mappings removed
+   */
+  async pruneStale(): Promise<number> {
+    const mappings = await this.store.list({ status: 'active' });
+    const stale = mappings.filter(mapping => this.effectiveConfidence(mapping) < this.minConfidence);
+    await this.store.remove(stale.map(mapping => mapping.id));
+    return stale.length;
+  }
+
+  /**
+   * Export the current user's mappings, or the global ones
+   */
+  async exportMappings(scope: LearningScope = 'user'): Promise<LearnedMappingExport> {
+    const mappings = await this.store.list(
+      scope === 'user' ? { scope, userId: this.userId } : { scope }
+    );
+    return {
+      version: 1,
+      exportedAt: this.now().toISOString(),
+      mappings
+    };
+  }
+
+  /**
+   * Import previously exported mappings. User-scoped mappings are re-owned by the
+   * current user; mappings that already exist are merged rather than replaced.
+   * @returns Number of mappings imported
+   */
+  async importMappings(data: LearnedMappingExport): Promise<number> {
+    if (!data || data.version !== 1 || !Array.isArray(data.mappings)) {
+      throw new Error('Unsupported learned mappings export');
+    }
+
+    const merged: LearnedMapping[] = [];
+    for (const incoming of data.mappings) {
+      if (!incoming.originalTerm || !incoming.issueId || !incoming.clarifiedTerm) continue;
+
+      const mapping: LearnedMapping = {
+        ...incoming,
+        id: this.mappingId(incoming.scope, incoming.originalTerm, incoming.issueId),
+        userId: incoming.scope === 'user' ? this.userId || undefined : undefined,
+        confidence: Math.max(0, Math.min(1, incoming.confidence)),
+        // A review requested elsewhere doesn't carry over
+        status: incoming.status === 'pending_review' ? 'active' : incoming.status
+      };
+
+      const existing = await this.store.get(mapping.id);
+      merged.push(existing
+        ? {
+            ...existing,
+            usageCount: Math.max(existing.usageCount, mapping.usageCount),
+            confidence: Math.max(existing.confidence, mapping.confidence),
+            lastUsedAt: existing.lastUsedAt > mapping.lastUsedAt ? existing.lastUsedAt : mapping.lastUsedAt
+          }
+        : mapping);
+    }
+
+    await this.store.putMany(merged);
+    return merged.length;
+  }
+
+  /**
+   * Active mappings confirmed often and confidently enough to propose as terminology
+   */
+  async getPromotionCandidates(): Promise<LearnedMapping[]> {
+    const mappings = await this.getApplicableMappings();
+    return mappings.filter(mapping =>
+      mapping.status === 'active' &&
+      mapping.usageCount >= this.promotionUsageCount &&
+      this.effectiveConfidence(mapping) >= this.promotionConfidence
+    );
+  }
+
+  /**
+   * Send a learned mapping to the terminology review queue. It only reaches
+   * the terminology package once a reviewer approves the pending term.
+   */
+  async submitForReview(id: string): Promise<boolean> {
+    const mapping = await this.store.get(id);
+    if (!mapping || mapping.status !== 'active') return false;
+
+    try {
+      const queued = await this.reviewQueue.addPendingTerm(
+        mapping.originalTerm,
+        mapping.issueName,
+        [mapping.clarifiedTerm],
+        [mapping.issueId]
+      );
+      if (!queued) return false;
+
+      await this.store.put({ ...mapping, status: 'pending_review' });
+      return true;
+    } catch (error) {
+      console.error('Error submitting learned mapping for review:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record the reviewer's decision on a mapping sent for review
+   */
+  async resolveReview(id: string, approved: boolean): Promise<void> {
+    const mapping = await this.store.get(id);
+    if (!mapping || mapping.status !== 'pending_review') return;
+
+    await this.store.put({ ...mapping, status: approved ? 'promoted' : 'rejected' });
+  }
+
+  /**
+   * Send promotion candidates to the review queue and record the decisions
+   * made on earlier submissions. A merged term counts as approved: it became
+   * a synonym of an existing one.
+   * @returns Number of reviews resolved
+   */
+  async syncWithReviewQueue(): Promise<number> {
+    for (const candidate of await this.getPromotionCandidates()) {
+      await this.submitForReview(candidate.id);
+    }
+
+    const pending = (await this.getApplicableMappings()).filter(mapping => mapping.status === 'pending_review');
+    if (pending.length === 0 || !this.reviewQueue.getTermStatuses) return 0;
+
+    let statuses: Record<string, IssueTermStatus>;
+    try {
+      statuses = await this.reviewQueue.getTermStatuses(pending.map(mapping => mapping.originalTerm));
+    } catch (error) {
+      console.error('Error checking learned mapping reviews:', error);
+      return 0;
+    }
+
+    let resolved = 0;
+    for (const mapping of pending) {
+      const status = statuses[mapping.originalTerm.toLowerCase().trim()];
+      if (!status || status === 'pending') continue;
+
+      await this.resolveReview(mapping.id, status !== 'rejected');
+      resolved++;
+    }
+    return resolved;
+  }
+
   /**
    * Get statistics about learned mappings
    */
-  getLearningStats(): {
+  async getLearningStats(): Promise<{
     totalMappings: number;
     averageConfidence: number;
-  } {
-    const mappings = Array.from(this.sessionMappings.values());
+    pendingReview: number;
+  }> {
+    const mappings = await this.getApplicableMappings();
     const total = mappings.length;
     const avgConfidence = total > 0
-      ? mappings.reduce((sum, m) => sum + m.confidence, 0) / total
+      ? mappings.reduce((sum, m) => sum + this.effectiveConfidence(m), 0) / total
       : 0;
 
     return {
       totalMappings: total,
-      averageConfidence: avgConfidence
+      averageConfidence: avgConfidence,
+      pendingReview: mappings.filter(m => m.status === 'pending_review').length
     };
   }
 }
+
+// Shared service for the signed-in voter (or this device, before sign-in)
+export const priorityLearningService = new PriorityLearningService();
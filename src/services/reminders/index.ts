@@ -0,0 +1,3 @@
+// The planner and Web Push code live with the edge functions so send-reminders can share them
+export * from '../../../supabase/functions/_shared/reminders/index.ts';
+export { ReminderService, reminderService } from './reminder-service';
@@ -0,0 +1,79 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { ZipCrosswalk } from '@/services/districts';
+import { ReminderCategory, ReminderPreferences, WebPushSubscription } from '@/types/reminders';
+import { currentPushSubscription, enablePushNotifications } from '@/utils/service-worker';
+
+const toWebPushSubscription = (subscription: PushSubscription): WebPushSubscription => {
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) {
+    throw new Error('The browser returned an incomplete push subscription');
+  }
+  return { endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } };
+};
+
+/**
+ * This browser's reminder subscription. The push endpoint is the key: it is
+ * stored with the voter's ZIP code and district so the send-reminders
+ * scheduler knows which deadlines and measures apply.
+ */
+export class ReminderService {
+  constructor(
+    private client: SupabaseClient<Database> = supabase,
+    private crosswalk: ZipCrosswalk = new ZipCrosswalk()
+  ) {}
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' &&
+      'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+  }
+
+  async current(): Promise<ReminderPreferences | null> {
+    const subscription = await currentPushSubscription();
+    if (!subscription) return null;
+
+    const { data, error } = await this.client.rpc('get_push_subscription', { endpoint: subscription.endpoint });
+    if (error) throw new Error(`Failed to load reminders: ${error.message}`);
+    const row = data?.[0];
+    return row
+      ? { zipCode: row.zip_code, categories: row.categories as ReminderCategory[], createdAt: row.created_at }
+      : null;
+  }
+
+  /**
+   * Subscribe, or change what an existing subscription covers
+   */
+  async subscribe(zipCode: string, categories: ReminderCategory[]): Promise<ReminderPreferences> {
+    if (categories.length === 0) throw new Error('Pick at least one kind of reminder');
+
+    const subscription = toWebPushSubscription(await enablePushNotifications());
+    const entry = this.crosswalk.lookup(zipCode);
+    // Largest share first, so this is the district most of the ZIP is in
+    const district = this.crosswalk.districtsByType(zipCode).get('congressional')?.[0];
+
+    const { error } = await this.client.rpc('save_push_subscription', {
+      endpoint: subscription.endpoint,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+      zip_code: zipCode,
+      state: entry?.state,
+      district: district?.id,
+      categories
+    });
+    if (error) throw new Error(`Failed to save reminders: ${error.message}`);
+
+    return (await this.current()) || { zipCode, categories, createdAt: new Date().toISOString() };
+  }
+
+  async unsubscribe(): Promise<void> {
+    const subscription = await currentPushSubscription();
+    if (!subscription) return;
+
+    const { error } = await this.client.rpc('delete_push_subscription', { endpoint: subscription.endpoint });
+    if (error) throw new Error(`Failed to turn off reminders: ${error.message}`);
+    await subscription.unsubscribe();
+  }
+}
+
+export const reminderService = new ReminderService();
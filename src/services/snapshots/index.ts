@@ -0,0 +1,10 @@
+export {
+  SnapshotService,
+  snapshotService,
+  createSnapshotId,
+  createRevokeToken,
+  expiryDate,
+  hashToken,
+  isSnapshotId
+} from './snapshot-service';
+export { redactRecommendations } from './redact';
@@ -0,0 +1,127 @@
+import { RecommendationsData } from '@/types/api';
+import { ClauseMapping, PolicyTermMatch, PriorityTension } from '@/types/policy-mappings';
+import { SnapshotPrivacy } from '@/types/snapshots';
+
+type SharedPriority = RecommendationsData['analysis']['mappedPriorities'][number];
+
+const priorityLabel = (index: number) => `Priority ${index + 1}`;
+const clauseLabel = (index: number, clauseIndex: number) => `${priorityLabel(index)}, part ${clauseIndex + 1}`;
+const answerLabel = (index: number) => `an answer about ${priorityLabel(index)}`;
+
+// Evidence, stance evidence and nuanced flags all come from the voter's words
+const redactMatch = ({ standardTerm, termKey, category, confidence, sources, stance, stanceConfidence }: PolicyTermMatch): PolicyTermMatch => ({
+  standardTerm,
+  termKey,
+  category,
+  confidence,
+  sources,
+  evidence: [],
+  stance,
+  stanceConfidence
+});
+
+function redactClauses(mapped: SharedPriority, index: number): Pick<SharedPriority, 'clauses' | 'tensions'> {
+  const clauses = mapped.clauses?.map((clause, clauseIndex): ClauseMapping => ({
+    text: clauseLabel(index, clauseIndex),
+    contrastive: clause.contrastive,
+    policyTerms: clause.policyTerms,
+    confidence: clause.confidence,
+    stance: clause.stance,
+    matches: clause.matches.map(redactMatch)
+  }));
+  const labelFor = (text: string) => {
+    const clauseIndex = mapped.clauses?.findIndex(clause => clause.text === text) ?? -1;
+    return clauseIndex >= 0 ? clauseLabel(index, clauseIndex) : priorityLabel(index);
+  };
+  const tensions = mapped.tensions?.map((tension): PriorityTension => ({
+    clauses: tension.clauses.map(labelFor),
+    terms: tension.terms,
+    // The explanation quotes the clauses
+    explanation: `${priorityLabel(index)} pulls in different directions on ${tension.terms.join(' and ')}`
+  }));
+  return { clauses, tensions };
+}
+
+/**
+ * Copy of the recommendations that is safe to publish. The street address,
+ * email drafts and errors never leave the browser. With `terms_only` the
+ * voter's own words are replaced by "Priority 1", "Priority 2", ... and each
+ * mapped priority and the recommendations keep only the fields named here, so
+ * anything added to them later stays private until it's listed. Candidate
+ * rationales can quote clarification answers, so those are replaced too.
+ */
+export function redactRecommendations(data: RecommendationsData, privacy: SnapshotPrivacy): RecommendationsData {
+  const districts = data.districts && { ...data.districts, address: undefined };
+  const recommendations = { ...data.recommendations, emailDrafts: [] };
+  const redacted: RecommendationsData = { ...data, districts, recommendations, error: undefined };
+  if (privacy === 'full') return redacted;
+
+  const { analysis } = data;
+  const originals = analysis.mappedPriorities.map(mapped => mapped.original || mapped.priority || '');
+  for (const priority of analysis.priorities) {
+    if (!originals.includes(priority)) originals.push(priority);
+  }
+  const labelFor = (text: string) => {
+    const index = originals.indexOf(text);
+    return index >= 0 ? priorityLabel(index) : text;
+  };
+  // Longest first, so a priority that contains another is replaced whole
+  const quoted = [
+    ...originals.map((text, index) => ({ text, label: priorityLabel(index) })),
+    ...analysis.mappedPriorities.flatMap((mapped, index) =>
+      (mapped.clauses || []).map((clause, clauseIndex) => ({ text: clause.text, label: clauseLabel(index, clauseIndex) }))),
+    ...analysis.mappedPriorities.flatMap((mapped, index) =>
+      (mapped.clarification?.turns || []).flatMap(turn =>
+        turn.answer?.kind === 'free-text' ? [{ text: turn.answer.text, label: answerLabel(index) }] : []))
+  ];
+  const byLength = quoted
+    .filter(({ text }) => text.trim().length > 0)
+    .sort((a, b) => b.text.length - a.text.length);
+  const scrub = (text?: string) =>
+    text && byLength.reduce((result, { text: original, label }) => result.split(original).join(label), text);
+
+  return {
+    ...redacted,
+    analysis: {
+      summary: analysis.summary,
+      priorities: analysis.priorities.map(labelFor),
+      conflicts: analysis.conflicts.map(conflict => ({
+        priority1: labelFor(conflict.priority1),
+        priority2: conflict.priority2 && labelFor(conflict.priority2),
+        reason: scrub(conflict.reason) || '',
+        severity: conflict.severity,
+        categories: conflict.categories,
+        explanation: scrub(conflict.explanation),
+        possibleCompromises: conflict.possibleCompromises
+      })),
+      mappedPriorities: analysis.mappedPriorities.map((mapped, index) => ({
+        original: priorityLabel(index),
+        priority: priorityLabel(index),
+        category: mapped.category,
+        mappedTerms: mapped.mappedTerms,
+        policyTerms: mapped.policyTerms,
+        sentiment: mapped.sentiment,
+        confidence: mapped.confidence,
+        needsClarification: mapped.needsClarification,
+        matches: mapped.matches?.map(redactMatch),
+        ...redactClauses(mapped, index)
+      }))
+    },
+    recommendations: {
+      candidates: recommendations.candidates?.map(candidate => ({ ...candidate, rationale: scrub(candidate.rationale) || '' })),
+      ballotMeasures: recommendations.ballotMeasures?.map(measure => ({
+        ...measure,
+        userConcernMapping: scrub(measure.userConcernMapping) || '',
+        concerns: measure.concerns?.map(concern => ({ ...concern, priority: labelFor(concern.priority) }))
+      })),
+      emailDrafts: [],
+      interestGroups: recommendations.interestGroups,
+      petitions: recommendations.petitions,
+      educationResources: recommendations.educationResources,
+      policyRecommendations: recommendations.policyRecommendations && {
+        topPolicies: recommendations.policyRecommendations.topPolicies,
+        explanation: scrub(recommendations.policyRecommendations.explanation)
+      }
+    }
+  };
+}
@@ -0,0 +1,148 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Json } from '@/integrations/supabase/types';
+import { RecommendationsData } from '@/types/api';
+import { CreatedShare, SharedGuide, ShareOptions, SnapshotExpiry, SnapshotPrivacy } from '@/types/snapshots';
+import { redactRecommendations } from './redact';
+
+const TABLE = 'shared_guides';
+const STORAGE_KEY = 'voter-tool-shared-guides';
+
+const ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const ID_LENGTH = 10;
+const ID_PATTERN = /^[A-Za-z0-9]{10}$/;
+
+const EXPIRY_DAYS: Record<SnapshotExpiry, number | null> = {
+  '1d': 1,
+  '7d': 7,
+  '30d': 30,
+  never: null
+};
+
+// Postgres unique_violation, for the rare id collision
+const UNIQUE_VIOLATION = '23505';
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Short random link id. Bytes past the last whole multiple of the alphabet
+ * are skipped so every character is equally likely.
+ */
+export function createSnapshotId(length = ID_LENGTH): string {
+  let id = '';
+  while (id.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length * 2))) {
+      if (byte < 248 && id.length < length) id += ID_ALPHABET[byte % ID_ALPHABET.length];
+    }
+  }
+  return id;
+}
+
+export const isSnapshotId = (id: string) => ID_PATTERN.test(id);
+
+export function createRevokeToken(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function hashToken(token: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))));
+}
+
+export function expiryDate(expiry: SnapshotExpiry, now: Date = new Date()): string | undefined {
+  const days = EXPIRY_DAYS[expiry];
+  return days === null ? undefined : new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Publishes redacted recommendations as read-only links. Links this browser
+ * made are remembered with their revoke secret so they can be taken down later.
+ */
+export class SnapshotService {
+  constructor(
+    private client: SupabaseClient<Database> = supabase,
+    private storage: Pick<Storage, 'getItem' | 'setItem'> | undefined = globalThis.localStorage
+  ) {}
+
+  async share(data: RecommendationsData, options: ShareOptions, origin: string = window.location.origin): Promise<CreatedShare> {
+    const snapshot = redactRecommendations(data, options.privacy);
+    const revokeToken = createRevokeToken();
+    const revokeTokenHash = await hashToken(revokeToken);
+    const createdAt = new Date();
+    const expiresAt = expiryDate(options.expiry, createdAt);
+    const { data: session } = await this.client.auth.getSession();
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const id = createSnapshotId();
+      const { error } = await this.client.from(TABLE).insert({
+        id,
+        snapshot: snapshot as unknown as Json,
+        privacy: options.privacy,
+        revoke_token_hash: revokeTokenHash,
+        user_id: session.session?.user.id || null,
+        expires_at: expiresAt || null
+      });
+      if (error?.code === UNIQUE_VIOLATION) continue;
+      if (error) throw new Error(`Failed to create share link: ${error.message}`);
+
+      const share: CreatedShare = {
+        id,
+        url: `${origin}/guide/${id}`,
+        revokeToken,
+        privacy: options.privacy,
+        createdAt: createdAt.toISOString(),
+        expiresAt
+      };
+      this.remember([share, ...this.createdShares()]);
+      return share;
+    }
+    throw new Error('Failed to create share link: no free link id');
+  }
+
+  /**
+   * A live snapshot, or null when the link is unknown, expired or revoked
+   */
+  async load(id: string): Promise<SharedGuide | null> {
+    if (!isSnapshotId(id)) return null;
+
+    const { data, error } = await this.client.rpc('get_shared_guide', { guide_id: id });
+    if (error) throw new Error(`Failed to load shared guide: ${error.message}`);
+    const row = data?.[0];
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      snapshot: row.snapshot as unknown as RecommendationsData,
+      privacy: row.privacy as SnapshotPrivacy,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at || undefined
+    };
+  }
+
+  async revoke(share: CreatedShare): Promise<boolean> {
+    const { data, error } = await this.client.rpc('revoke_shared_guide', { guide_id: share.id, token: share.revokeToken });
+    if (error) throw new Error(`Failed to revoke share link: ${error.message}`);
+
+    // Already revoked or expired links come back false; either way the link is dead
+    const revokedAt = new Date().toISOString();
+    this.remember(this.createdShares().map(item => (item.id === share.id ? { ...item, revokedAt } : item)));
+    return Boolean(data);
+  }
+
+  /**
+   * Links made in this browser, newest first
+   */
+  createdShares(): CreatedShare[] {
+    try {
+      return JSON.parse(this.storage?.getItem(STORAGE_KEY) || '[]') as CreatedShare[];
+    } catch (error) {
+      console.warn('Ignoring unreadable share link history:', error);
+      return [];
+    }
+  }
+
+  private remember(shares: CreatedShare[]): void {
+    this.storage?.setItem(STORAGE_KEY, JSON.stringify(shares));
+  }
+}
+
+export const snapshotService = new SnapshotService();
@@ -0,0 +1,44 @@
+import { PriorityClause } from '@/types/stance';
+import { foldDiacritics } from '@/services/i18n';
+
+// "but also" adds to a statement rather than qualifying it; likewise Spanish "pero también"
+const CONTRAST_MARKERS = new RegExp(
+  '\\b(but(?!\\s+also\\b)|however|though|although|yet|except|whereas|' +
+  'pero(?!\\s+tambi[eé]n)|aunque|sin\\s+embargo|sino|mientras\\s+que)\\b',
+  'i'
+);
+
+/**
+ * Split a priority into clauses at sentence breaks, dashes and contrast words
+ */
+export function splitClauses(priority: string): PriorityClause[] {
+  const clauses: PriorityClause[] = [];
+  const sentences = priority.replace(/’/g, "'").split(/[.;!?¡¿]+|\s+[-–—]+\s+|—/);
+
+  for (const sentence of sentences) {
+    // Splitting on a capture group keeps the markers at odd indexes
+    const parts = sentence.split(new RegExp(CONTRAST_MARKERS.source, 'i'));
+    let contrastive = false;
+
+    parts.forEach((part, index) => {
+      if (index % 2 === 1) {
+        contrastive = true;
+        return;
+      }
+      const text = part.replace(/^[\s,:]+|[\s,:]+$/g, '');
+      if (text) clauses.push({ text, contrastive });
+      contrastive = false;
+    });
+  }
+
+  return clauses;
+}
+
+// Accents are folded away, so Spanish cues match with or without them
+export function tokenizeClause(text: string): string[] {
+  return foldDiacritics(text.toLowerCase())
+    .replace(/’/g, "'")
+    .replace(/[^\w\s']/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0);
+}
@@ -0,0 +1,3 @@
+export { StanceDetector, stanceDetector, stanceToSentiment } from './stance-detector';
+export { splitClauses } from './clauses';
+export { buildNuancedMapping } from './nuanced-mapping';
@@ -0,0 +1,49 @@
+import { NuancedMapping } from '@/types/terminology';
+import { TermStance } from '@/types/stance';
+
+// Flags that record a position; they flip when the voter opposes the term
+const DIRECTIONAL_FLAG = /^(supports_|opposes_|believes_in_|acknowledges_|explicitly_against_|anti_|climate_skeptic$)/;
+// Flags that record whether the voter brought a topic up
+const MENTION_FLAG = /^(explicitly_mentions_|mentions_|concerned_about_)/;
+
+const mentions = (text: string, topic: string) => {
+  // Compare word stems so "insurance_costs" matches "insurance cost"
+  const words = text.toLowerCase().split(/[^\w]+/);
+  return topic.split('_').every(part =>
+    words.some(word => word.startsWith(part.slice(0, Math.max(4, part.length - 2))))
+  );
+};
+
+/**
+ * Fill in a term's nuancedMapping flags from the shared terminology for one
+ * voter's stance. The template describes a supporter of the term.
+ */
+export function buildNuancedMapping(
+  template: NuancedMapping,
+  stance: TermStance,
+  priority: string,
+  standardTerm: string
+): NuancedMapping {
+  const mapping: NuancedMapping = {};
+
+  for (const [flag, value] of Object.entries(template)) {
+    if (typeof value !== 'boolean') continue;
+
+    if (DIRECTIONAL_FLAG.test(flag)) {
+      mapping[flag] = stance === 'oppose' ? !value : value;
+    } else if (MENTION_FLAG.test(flag)) {
+      mapping[flag] = value || mentions(priority, flag.replace(MENTION_FLAG, ''));
+    } else {
+      mapping[flag] = value;
+    }
+  }
+
+  mapping.mixed_stance = stance === 'mixed';
+  mapping.reasoning = stance === 'support'
+    ? template.reasoning
+    : stance === 'oppose'
+      ? `The voter opposes ${standardTerm}.`
+      : `The voter supports parts of ${standardTerm} but has reservations about others.`;
+
+  return mapping;
+}
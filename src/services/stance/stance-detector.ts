@@ -0,0 +1,348 @@
+import { issueTerminology, keywordTerms, TermTranslations } from '@/services/terminology';
+import { foldDiacritics } from '@/services/i18n';
+import { PolicyTermMatch } from '@/types/policy-mappings';
+import { NuancedMapping } from '@/types/terminology';
+import { PriorityClause, StanceAssessment, TermStance } from '@/types/stance';
+import { splitClauses, tokenizeClause } from './clauses';
+import { buildNuancedMapping } from './nuanced-mapping';
+
+interface TerminologyEntry {
+  standardTerm: string;
+  plainLanguage?: string[];
+  inclusionWords?: string[];
+  nuance?: Record<string, number>;
+  nuancedMapping?: NuancedMapping;
+  translations?: TermTranslations;
+}
+
+interface KeywordEntry {
+  standardTerm: string;
+  plainLanguage?: string[];
+  keywords?: string[];
+}
+
+interface TermCues {
+  phrases: string[];
+  words: Set<string>;
+  // Words found only in negatively weighted nuance keys, e.g. "hoax" in climate_hoax
+  opposingWords: Set<string>;
+  nuancedMapping?: NuancedMapping;
+}
+
+type Polarity = 'support' | 'oppose' | null;
+
+interface ClauseReading {
+  polarity: Polarity;
+  evidence: string[];
+}
+
+const SUPPORT_CUES = [
+  'support', 'supports', 'protect', 'defend', 'want', 'need', 'expand', 'fund', 'invest',
+  'back', 'favor', 'keep', 'preserve', 'ensure', 'guarantee', 'improve', 'strengthen',
+  'promote', 'help', 'more', 'prioritize', 'like', 'love', 'fight', 'must', 'should',
+  'secure', 'believe in', 'care about', 'stand with',
+  // Spanish, without accents
+  'apoyo', 'apoyar', 'apoyamos', 'proteger', 'protejan', 'defender', 'quiero', 'queremos', 'necesito',
+  'necesitamos', 'ampliar', 'financiar', 'invertir', 'mantener', 'preservar', 'garantizar', 'mejorar',
+  'fortalecer', 'promover', 'ayudar', 'mas', 'priorizar', 'me gusta', 'me importa', 'creo en',
+  'luchar por', 'a favor', 'debe', 'deben', 'deberia'
+];
+
+const OPPOSE_CUES = [
+  'oppose', 'against', 'reject', 'abolish', 'repeal', 'defund', 'hate', 'dislike',
+  'get rid of', 'tired of', 'sick of', 'enough', 'hoax', 'scam', 'overblown', 'myth',
+  'forced on', 'shoved down', 'too far',
+  'me opongo', 'en contra', 'rechazo', 'rechazar', 'abolir', 'derogar', 'quitar fondos', 'odio',
+  'cansado de', 'cansada de', 'harto de', 'harta de', 'basta', 'farsa', 'estafa', 'exagerado', 'mito',
+  'demasiado lejos'
+];
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', "don't", 'dont', "doesn't", "didn't", "won't", "can't", 'cannot',
+  "shouldn't", "isn't", "aren't", 'nobody', 'nothing', 'without',
+  'nunca', 'jamas', 'nadie', 'nada', 'ni', 'sin', 'tampoco'
+]);
+
+// Too common across terms to say which one a clause is about
+const GENERIC_WORDS = new Set([
+  'rights', 'right', 'policy', 'policies', 'government', 'people', 'support', 'protection',
+  'reform', 'access', 'care', 'more', 'less', 'need', 'want', 'better', 'public', 'national',
+  'opposition', 'anti', 'against', 'other', 'their', 'with', 'from', 'that', 'this', 'have',
+  'should', 'about', 'everyone',
+  'derecho', 'derechos', 'gobierno', 'gente', 'personas', 'apoyo', 'proteccion', 'reforma', 'acceso',
+  'cuidado', 'menos', 'quiero', 'necesitamos', 'mejor', 'publico', 'publica', 'nacional', 'contra', 'para',
+  'como', 'sobre', 'todos', 'esta', 'este', 'tiene', 'deben', 'nuestro', 'nuestra', 'nuestros', 'nuestras',
+  'porque', 'cuando'
+]);
+
+const NEGATION_WINDOW = 3;
+
+const contentWords = (text: string) => tokenizeClause(text.replace(/[_+/-]/g, ' '))
+  .filter(word => word.length >= 4 && !GENERIC_WORDS.has(word));
+
+/**
+ * Sentence-level sentiment kept on MappedPriority for older callers
+ */
+export function stanceToSentiment(stance: TermStance): 'positive' | 'negative' | 'neutral' {
+  if (stance === 'support') return 'positive';
+  return stance === 'oppose' ? 'negative' : 'neutral';
+}
+
+const singular = (word: string) => word.length > 4 && word.endsWith('s') ? word.slice(0, -1) : word;
+
+/**
+ * Reads a voter's stance on each policy term a priority was mapped to, rather
+ * than one sentiment for the whole sentence. Works clause by clause, so
+ * "Protect LGBTQ+ rights, but I don't like trans women in my locker room"
+ * comes out as mixed on LGBTQ+ rights.
+ */
+export class StanceDetector {
+  private cuesByTermKey = new Map<string, TermCues>();
+  private cuesByStandardTerm = new Map<string, TermCues>();
+
+  constructor(
+    terminology: Record<string, unknown> = issueTerminology,
+    keywordMappings: Record<string, KeywordEntry> = keywordTerms
+  ) {
+    Object.entries(terminology)
+      .filter(([key, value]) => key !== 'fallback' && key !== 'issues' &&
+        typeof value === 'object' && value !== null && 'standardTerm' in value)
+      .forEach(([key, value]) => {
+        const entry = value as TerminologyEntry;
+        this.addCues(key, this.terminologyCues(entry), entry.standardTerm);
+      });
+
+    Object.entries(keywordMappings).forEach(([key, mapping]) => {
+      // Terminology wins where both define the same key
+      if (this.cuesByTermKey.has(key)) return;
+      this.addCues(key, {
+        phrases: (mapping.plainLanguage || []).map(phrase => phrase.toLowerCase()),
+        words: new Set([
+          ...(mapping.plainLanguage || []).flatMap(contentWords),
+          ...(mapping.keywords || []).flatMap(contentWords),
+          ...contentWords(mapping.standardTerm)
+        ]),
+        opposingWords: new Set()
+      }, mapping.standardTerm);
+    });
+  }
+
+  /**
+   * Stance on every match of a priority. Matches are assessed together so a
+   * clause about one term isn't read as a qualification of another.
+   */
+  assessAll(priority: string, matches: PolicyTermMatch[]): StanceAssessment[] {
+    const clauses = splitClauses(priority);
+    const cues = matches.map(match => this.cuesFor(match));
+    const mentioned = matches.map((_, index) => clauses.map(clause => this.mentions(clause, cues[index])));
+
+    return matches.map((match, index) => {
+      const relevant = this.relevantClauses(clauses, mentioned, index);
+      return this.assessTerm(priority, match, cues[index], clauses, relevant);
+    });
+  }
+
+  assess(priority: string, match: PolicyTermMatch): StanceAssessment {
+    return this.assessAll(priority, [match])[0];
+  }
+
+  /**
+   * Sentence-level sentiment, for priorities that didn't map to any term
+   */
+  sentimentOf(priority: string): 'positive' | 'negative' | 'neutral' {
+    const clauses = splitClauses(priority);
+    const readings = clauses.map(clause => this.readClause(clause, undefined));
+    const hasSupport = readings.some(reading => reading.polarity === 'support');
+    const hasOpposition = readings.some(reading => reading.polarity === 'oppose');
+
+    if (hasSupport === hasOpposition) return 'neutral';
+    return hasSupport ? 'positive' : 'negative';
+  }
+
+  private terminologyCues(entry: TerminologyEntry): TermCues {
+    const nuance = Object.entries(entry.nuance || {});
+    const supportingWords = new Set(nuance.filter(([, weight]) => weight >= 0).flatMap(([key]) => contentWords(key)));
+    // Spanish phrases describe the same term, so they point a clause at it too
+    const spanish = entry.translations?.es;
+    const phrases = [...(entry.plainLanguage || []), ...(spanish?.plainLanguage || [])];
+    const nameWords = new Set([...contentWords(entry.standardTerm), ...(spanish ? contentWords(spanish.label) : [])]);
+    const words = new Set([
+      ...phrases.flatMap(contentWords),
+      ...(entry.inclusionWords || []).flatMap(contentWords),
+      ...(spanish?.inclusionWords || []).flatMap(contentWords),
+      ...supportingWords,
+      ...nameWords
+    ]);
+    // Keys like upper_tax_relief_opposition repeat the term's name; the rest
+    // of the key ("opposition", "hoax") is the opposing position
+    const opposingWords = nuance.filter(([, weight]) => weight < 0)
+      .flatMap(([key]) => contentWords(key))
+      .filter(word => !nameWords.has(word));
+
+    return {
+      phrases: phrases.map(phrase => phrase.toLowerCase()),
+      words,
+      opposingWords: new Set(opposingWords),
+      nuancedMapping: entry.nuancedMapping
+    };
+  }
+
+  private addCues(key: string, cues: TermCues, standardTerm: string): void {
+    this.cuesByTermKey.set(key, cues);
+    if (!this.cuesByStandardTerm.has(standardTerm.toLowerCase())) {
+      this.cuesByStandardTerm.set(standardTerm.toLowerCase(), cues);
+    }
+  }
+
+  private cuesFor(match: PolicyTermMatch): TermCues {
+    const known = (match.termKey && this.cuesByTermKey.get(match.termKey)) ||
+      this.cuesByStandardTerm.get(match.standardTerm.toLowerCase());
+
+    // Phrases quoted in the evidence are what actually matched in this priority
+    const evidencePhrases = match.evidence
+      .map(line => line.match(/"([^"]+)"/)?.[1])
+      .filter((phrase): phrase is string => !!phrase && phrase.length < 60)
+      .map(phrase => phrase.toLowerCase());
+
+    return {
+      phrases: [...(known?.phrases || []), ...evidencePhrases],
+      words: new Set([...(known?.words || []), ...contentWords(match.standardTerm)]),
+      opposingWords: known?.opposingWords || new Set(),
+      nuancedMapping: known?.nuancedMapping
+    };
+  }
+
+  private mentions(clause: PriorityClause, cues: TermCues): boolean {
+    const text = foldDiacritics(clause.text.toLowerCase());
+    if (cues.phrases.some(phrase => text.includes(foldDiacritics(phrase)))) return true;
+
+    return tokenizeClause(clause.text).some(word => {
+      const stem = singular(word);
+      if (cues.words.has(word) || cues.words.has(stem)) return true;
+      // "trans" for "transgender", "immigrant" for "immigrants"
+      return stem.length >= 5 && Array.from(cues.words).some(cue => cue.startsWith(stem));
+    });
+  }
+
+  /**
+   * Clauses that mention the term, plus contrastive clauses right after them
+   * that don't mention any other matched term ("I back the police — but they
+   * need to earn our trust"). A term mentioned nowhere gets every clause.
+   */
+  private relevantClauses(clauses: PriorityClause[], mentioned: boolean[][], termIndex: number): number[] {
+    const own = mentioned[termIndex];
+    if (!own.some(Boolean)) return clauses.map((_, index) => index);
+
+    const relevant: number[] = [];
+    clauses.forEach((clause, index) => {
+      if (own[index]) {
+        relevant.push(index);
+        return;
+      }
+      const qualifiesPrevious = clause.contrastive && relevant.includes(index - 1);
+      const aboutOtherTerm = mentioned.some((other, otherIndex) => otherIndex !== termIndex && other[index]);
+      if (qualifiesPrevious && !aboutOtherTerm) relevant.push(index);
+    });
+    return relevant;
+  }
+
+  private assessTerm(
+    priority: string,
+    match: PolicyTermMatch,
+    cues: TermCues,
+    clauses: PriorityClause[],
+    relevant: number[]
+  ): StanceAssessment {
+    const readings = relevant.map(index => this.readClause(clauses[index], cues));
+    const evidence = readings.flatMap(reading => reading.evidence);
+    const supports = readings.filter(reading => reading.polarity === 'support').length;
+    const opposes = readings.filter(reading => reading.polarity === 'oppose').length;
+    const contrast = relevant.length > 1 && relevant.some(index => clauses[index].contrastive);
+
+    let stance: TermStance;
+    let confidence: number;
+
+    if (/\btension\b/i.test(match.standardTerm) || (supports > 0 && opposes > 0)) {
+      // Curated persona terms name the tension outright
+      stance = 'mixed';
+      confidence = 0.8;
+    } else if (contrast) {
+      stance = 'mixed';
+      confidence = 0.65;
+      evidence.push(`Qualified by "${relevant.map(index => clauses[index]).find(clause => clause.contrastive)?.text}"`);
+    } else if (opposes > 0) {
+      stance = 'oppose';
+      confidence = Math.min(0.9, 0.75 + 0.05 * opposes);
+    } else if (supports > 0) {
+      stance = 'support';
+      confidence = Math.min(0.9, 0.75 + 0.05 * supports);
+    } else {
+      // Naming an issue as a priority usually means wanting it addressed
+      stance = 'support';
+      confidence = 0.55;
+      evidence.push('No stance words; assumed support');
+    }
+
+    return {
+      stance,
+      confidence,
+      evidence,
+      nuancedMapping: cues.nuancedMapping
+        ? buildNuancedMapping(cues.nuancedMapping, stance, priority, match.standardTerm)
+        : undefined
+    };
+  }
+
+  private readClause(clause: PriorityClause, cues: TermCues | undefined): ClauseReading {
+    const words = tokenizeClause(clause.text);
+
+    // Words inside the term's own phrases describe the term, not the voter's attitude
+    // to it ("wealth tax opposition" is a position, not an objection)
+    const masked = new Array(words.length).fill(false);
+    cues?.phrases.forEach(phrase => {
+      const phraseWords = tokenizeClause(phrase);
+      for (let i = 0; i + phraseWords.length <= words.length; i++) {
+        if (phraseWords.every((word, offset) => words[i + offset] === word)) {
+          phraseWords.forEach((_, offset) => { masked[i + offset] = true; });
+        }
+      }
+    });
+
+    let support = 0;
+    let oppose = 0;
+    const evidence: string[] = [];
+
+    const scan = (cueList: string[], polarity: 'support' | 'oppose') => {
+      for (const cue of cueList) {
+        const cueWords = cue.split(' ');
+        for (let i = 0; i + cueWords.length <= words.length; i++) {
+          if (masked[i] || !cueWords.every((word, offset) => words[i + offset] === word)) continue;
+
+          const negated = words.slice(Math.max(0, i - NEGATION_WINDOW), i).some(word => NEGATORS.has(word));
+          const effective = negated ? (polarity === 'support' ? 'oppose' : 'support') : polarity;
+          if (effective === 'support') support++; else oppose++;
+          evidence.push(negated
+            ? `Negated "${cue}" in "${clause.text}"`
+            : `${polarity === 'support' ? 'Support' : 'Opposition'} cue "${cue}" in "${clause.text}"`);
+        }
+      }
+    };
+
+    scan(SUPPORT_CUES, 'support');
+    scan(OPPOSE_CUES, 'oppose');
+
+    if (cues) {
+      // These count even inside a matched phrase: "hoax" is the voter's position
+      const opposing = words.filter(word => cues.opposingWords.has(word));
+      if (opposing.length > 0) {
+        oppose += opposing.length;
+        evidence.push(`Opposing position "${opposing.join(', ')}" in "${clause.text}"`);
+      }
+    }
+
+    if (support === oppose) return { polarity: null, evidence };
+    return { polarity: support > oppose ? 'support' : 'oppose', evidence };
+  }
+}
+
+export const stanceDetector = new StanceDetector();
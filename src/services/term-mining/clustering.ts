@@ -0,0 +1,82 @@
+import { cosineSimilarity } from '@/services/mapping-engine/strategies/embedding-strategy';
+import { Embedder } from '@/types/mapping-engine';
+import { UnmappedCluster } from '@/types/term-mining';
+
+// Inputs that differ only in case, spacing or punctuation count as one
+export const normalizeInput = (input: string) => input
+  .toLowerCase()
+  .replace(/[^\w\s'+-]/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+interface DistinctInput {
+  text: string;
+  count: number;
+}
+
+function countDistinct(inputs: string[]): DistinctInput[] {
+  const distinct = new Map<string, DistinctInput>();
+  for (const input of inputs) {
+    const key = normalizeInput(input);
+    if (!key) continue;
+    const existing = distinct.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      distinct.set(key, { text: input.trim(), count: 1 });
+    }
+  }
+  // Stable sort, so equally frequent inputs keep the order they were logged in
+  return Array.from(distinct.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Group unmapped inputs by embedding similarity with average-linkage
+ * agglomerative clustering: the two closest clusters merge until no pair is
+ * at least `threshold` similar on average. Clusters come back largest first.
+ */
+export async function clusterInputs(inputs: string[], embedder: Embedder, threshold: number): Promise<UnmappedCluster[]> {
+  const distinct = countDistinct(inputs);
+  if (distinct.length === 0) return [];
+
+  const vectors = await embedder.embed(distinct.map(input => input.text));
+  const similarity = vectors.map(a => vectors.map(b => cosineSimilarity(a, b)));
+
+  // Average similarity between clusters, updated in place as clusters merge
+  const linkage = similarity.map(row => [...row]);
+  const clusters: Array<number[] | null> = distinct.map((_, index) => [index]);
+
+  for (;;) {
+    let best = { a: -1, b: -1, score: threshold };
+    for (let a = 0; a < clusters.length; a++) {
+      if (!clusters[a]) continue;
+      for (let b = a + 1; b < clusters.length; b++) {
+        if (clusters[b] && linkage[a][b] >= best.score) best = { a, b, score: linkage[a][b] };
+      }
+    }
+    if (best.a < 0) break;
+
+    const merged = clusters[best.a] as number[];
+    const absorbed = clusters[best.b] as number[];
+    for (let k = 0; k < clusters.length; k++) {
+      if (!clusters[k] || k === best.a || k === best.b) continue;
+      const average = (linkage[best.a][k] * merged.length + linkage[best.b][k] * absorbed.length) /
+        (merged.length + absorbed.length);
+      linkage[best.a][k] = linkage[k][best.a] = average;
+    }
+    clusters[best.a] = [...merged, ...absorbed].sort((x, y) => x - y);
+    clusters[best.b] = null;
+  }
+
+  return clusters
+    .filter((members): members is number[] => members !== null)
+    .map(members => {
+      const pairs = members.flatMap((a, i) => members.slice(i + 1).map(b => similarity[a][b]));
+      return {
+        inputs: members.map(index => distinct[index].text),
+        occurrences: members.reduce((sum, index) => sum + distinct[index].count, 0),
+        cohesion: pairs.length > 0 ? pairs.reduce((sum, value) => sum + value, 0) / pairs.length : 1
+      };
+    })
+    .sort((a, b) => b.occurrences - a.occurrences);
+}
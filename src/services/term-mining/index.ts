@@ -0,0 +1,81 @@
+import { browserIssueTerminologyService } from '@/services/issue-terminology-service';
+import { getActiveEmbedder } from '@/services/mapping-engine/embedders';
+import { TerminologyReviewQueue } from '@/services/priority-learning-service';
+import { loadTerminology } from '@/services/terminology';
+import { TermMiningOptions, TermMiningResult, TermProposal } from '@/types/term-mining';
+import { clusterInputs } from './clustering';
+import { phraseKey, proposeTerm } from './proposals';
+import { getUnmappedInputs } from './unmapped-log';
+
+export { clusterInputs, normalizeInput } from './clustering';
+export { estimateCaptures, phraseKey, proposeTerm } from './proposals';
+export { getUnmappedInputs, recordUnmappedInputs } from './unmapped-log';
+
+// Tuned for the hashing embedder, which scores paraphrases lower than the sentence model
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.4;
+
+const terminologyPhrases = () => Object.values(loadTerminology().terms)
+  .flatMap(term => [term.standardTerm, ...term.plainLanguage]);
+
+/**
+ * Cluster unmapped inputs and propose a new term for each cluster that came
+ * up at least `minClusterSize` times. Proposals are ranked by how many of the
+ * logged inputs their phrases would have captured.
+ */
+export async function mineUnmappedInputs(
+  inputs: string[] = getUnmappedInputs(),
+  options: TermMiningOptions = {}
+): Promise<TermMiningResult> {
+  const minClusterSize = options.minClusterSize ?? 2;
+  const knownPhrases = new Set((options.knownPhrases || terminologyPhrases()).map(phraseKey));
+  const clusters = await clusterInputs(
+    inputs,
+    options.embedder || getActiveEmbedder(),
+    options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD
+  );
+
+  const proposals: TermProposal[] = [];
+  const unclustered: string[] = [];
+  for (const cluster of clusters) {
+    const proposal = cluster.occurrences >= minClusterSize
+      ? proposeTerm(cluster, inputs, options.maxPhrases ?? 5, knownPhrases)
+      : null;
+    if (proposal) {
+      proposals.push(proposal);
+    } else {
+      unclustered.push(...cluster.inputs);
+    }
+  }
+
+  return {
+    proposals: proposals.sort((a, b) => b.estimatedCaptures - a.estimatedCaptures),
+    unclustered,
+    totalInputs: inputs.length
+  };
+}
+
+/**
+ * Add proposals to the terminology pending queue with their phrases as
+ * synonyms. Each clustered input is sent as a source input so reviewers see
+ * what voters wrote. Returns how many proposals were queued.
+ */
+export async function submitProposals(
+  proposals: TermProposal[],
+  queue: TerminologyReviewQueue = browserIssueTerminologyService
+): Promise<number> {
+  let queued = 0;
+
+  for (const proposal of proposals) {
+    const { standardTerm, category, plainLanguage, cluster } = proposal;
+    const [firstInput, ...otherInputs] = cluster.inputs;
+    if (!await queue.addPendingTerm(standardTerm, category, plainLanguage, [], firstInput)) continue;
+
+    queued++;
+    // Submitting the same term again adds the input to its source inputs
+    for (const input of otherInputs) {
+      await queue.addPendingTerm(standardTerm, category, plainLanguage, [], input);
+    }
+  }
+
+  return queued;
+}
@@ -0,0 +1,146 @@
+import { TermProposal, UnmappedCluster } from '@/types/term-mining';
+import { categorizeTerms } from '@/utils/policy-categories';
+
+// Words that say nothing about the issue; phrases may not start or end with one
+const STOP_WORDS = new Set([
+  'i', 'im', "i'm", 'me', 'my', 'we', 'our', 'us', 'you', 'your', 'it', 'its', "it's", 'they', 'them',
+  'their', 'there', 'this', 'that', 'these', 'those', 'the', 'a', 'an', 'and', 'or', 'but', 'if',
+  'is', 'are', 'was', 'were', 'be', 'been', 'am', 'do', 'does', 'did', 'have', 'has', 'had', 'to',
+  'of', 'in', 'on', 'at', 'for', 'with', 'from', 'by', 'about', 'as', 'into', 'than', 'too', 'very',
+  'so', 'more', 'most', 'less', 'need', 'needs', 'want', 'wants', 'should', 'would', 'could', 'can',
+  'will', 'must', 'think', 'feel', 'just', 'really', 'not', 'no', "don't", "can't", 'what', 'which',
+  'who', 'how', 'why', 'when', 'whether', 'someone', 'people', 'things', 'lot', 'much', 'many',
+  'get', 'make', 'some', 'all', 'any', 'every', 'area', 'also', 'even', 'only', 'like', 'better',
+  'worse', 'good', 'bad', 'high', 'low', 'major', 'big', 'stop', 'fix', 'keep', 'keeps', 'up', 'out',
+  'way', 'option', 'options', 'issue', 'issues', 'problem', 'concern', 'average', 'americans', 'city',
+  'community', 'country', 'america',
+  // Stance verbs: "ban assault weapons" is about assault weapons
+  'ban', 'legalize', 'protect', 'support', 'oppose', 'end', 'lower', 'raise', 'increase', 'reduce',
+  'invest', 'improve', 'expand', 'help', 'fund'
+]);
+
+const MAX_PHRASE_WORDS = 3;
+
+const tokenize = (text: string) => text
+  .toLowerCase()
+  .replace(/[^\w\s'+-]/g, ' ')
+  .split(/\s+/)
+  .filter(Boolean);
+
+// Light stemming so "costs" meets "cost"
+const stem = (word: string) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+
+const stemKey = (words: string[]) => words.map(stem).join(' ');
+
+/**
+ * Phrases are compared by their stemmed words, so "housing costs" and
+ * "Housing cost" are the same phrase
+ */
+export const phraseKey = (phrase: string) => stemKey(tokenize(phrase));
+
+const titleCase = (phrase: string) => phrase.replace(/(^|\s)(\w)/g, (_, space: string, letter: string) => space + letter.toUpperCase());
+
+interface Candidate {
+  key: string;
+  phrase: string;
+  words: number;
+  // Distinct cluster inputs containing the phrase
+  frequency: number;
+  firstSeen: number;
+}
+
+function candidatePhrases(inputs: string[]): Candidate[] {
+  const candidates = new Map<string, Candidate>();
+  let order = 0;
+
+  for (const input of inputs) {
+    const words = tokenize(input);
+    const seen = new Set<string>();
+    for (let size = 1; size <= MAX_PHRASE_WORDS; size++) {
+      for (let start = 0; start + size <= words.length; start++) {
+        const phraseWords = words.slice(start, start + size);
+        if (STOP_WORDS.has(phraseWords[0]) || STOP_WORDS.has(phraseWords[size - 1])) continue;
+
+        const key = stemKey(phraseWords);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const existing = candidates.get(key);
+        if (existing) {
+          existing.frequency++;
+        } else {
+          candidates.set(key, { key, phrase: phraseWords.join(' '), words: size, frequency: 1, firstSeen: order++ });
+        }
+      }
+    }
+  }
+  return Array.from(candidates.values());
+}
+
+// Two-word phrases make the best term names, then three words, then one
+const NAME_WEIGHT: Record<number, number> = { 1: 0.6, 2: 1, 3: 0.8 };
+
+const containsKey = (text: string, key: string) => ` ${text} `.includes(` ${key} `);
+
+/**
+ * Count the logged inputs, repeats included, that contain at least one of the
+ * phrases. This is what the proposal would have caught had it been a term.
+ */
+export function estimateCaptures(phrases: string[], inputs: string[]): number {
+  const keys = phrases.map(phraseKey).filter(Boolean);
+  return inputs.filter(input => {
+    const text = phraseKey(input);
+    return keys.some(key => containsKey(text, key));
+  }).length;
+}
+
+/**
+ * Propose a term for one cluster: its name is a phrase most of the inputs
+ * share, its plain-language phrases the shared phrases that no existing term
+ * already uses, and its category comes from `categorizeTerms`.
+ */
+export function proposeTerm(
+  cluster: UnmappedCluster,
+  allInputs: string[],
+  maxPhrases: number,
+  knownPhrases: Set<string>
+): TermProposal | null {
+  const candidates = candidatePhrases(cluster.inputs)
+    .filter(candidate => !knownPhrases.has(candidate.key));
+  if (candidates.length === 0) return null;
+
+  // Name the term after the phrase most inputs share, favouring two-word
+  // phrases over bare words when they are nearly as common
+  const nameScore = (candidate: Candidate) => candidate.frequency * NAME_WEIGHT[candidate.words];
+  const [name] = [...candidates].sort((a, b) => nameScore(b) - nameScore(a) || a.firstSeen - b.firstSeen);
+
+  // Shared phrases when the cluster has several inputs; a single input only has its own.
+  // Bare words must be in every input, since they match much more than phrases do.
+  const size = cluster.inputs.length;
+  const minFrequency = Math.min(2, size);
+  const phrases: Candidate[] = [name];
+  const ranked = candidates
+    .filter(candidate => candidate !== name && candidate.frequency >= minFrequency &&
+      (candidate.words > 1 || (size > 1 && candidate.frequency === size)))
+    .sort((a, b) => b.frequency - a.frequency || a.words - b.words || a.firstSeen - b.firstSeen);
+
+  for (const candidate of ranked) {
+    if (phrases.length >= maxPhrases) break;
+    // Overlapping an already chosen phrase adds nothing new, or only noise
+    if (phrases.some(chosen => containsKey(candidate.key, chosen.key) || containsKey(chosen.key, candidate.key))) continue;
+    phrases.push(candidate);
+  }
+
+  const plainLanguage = phrases.map(candidate => candidate.phrase);
+  const standardTerm = titleCase(name.phrase);
+  const estimatedCaptures = estimateCaptures(plainLanguage, allInputs);
+
+  return {
+    standardTerm,
+    plainLanguage,
+    category: categorizeTerms([standardTerm, ...plainLanguage]),
+    cluster,
+    estimatedCaptures,
+    captureRate: allInputs.length > 0 ? estimatedCaptures / allInputs.length : 0
+  };
+}
@@ -0,0 +1,40 @@
+import needsTermMapping from '@/config/needsTermMapping.json';
+
+const STORAGE_KEY = 'unmappedInputs';
+// Keeps localStorage small; the oldest inputs are dropped first
+const MAX_LOGGED_INPUTS = 500;
+
+const readLocal = (): string[] => {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((item): item is string => typeof item === 'string') : [];
+  } catch (error) {
+    console.error('Error reading unmapped inputs:', error);
+    return [];
+  }
+};
+
+/**
+ * Every input that couldn't be mapped: the ones collected in
+ * `needsTermMapping.json` followed by those logged on this device. Repeats
+ * are kept, since how often an input comes up is what the miner ranks by.
+ */
+export function getUnmappedInputs(): string[] {
+  return [...needsTermMapping.unmappedTerms, ...readLocal()];
+}
+
+/**
+ * Log priorities that no strategy could map, for the term miner
+ */
+export function recordUnmappedInputs(inputs: string[]): void {
+  const cleaned = inputs.map(input => input.trim()).filter(Boolean);
+  if (cleaned.length === 0 || typeof localStorage === 'undefined') return;
+
+  try {
+    const logged = [...readLocal(), ...cleaned].slice(-MAX_LOGGED_INPUTS);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(logged));
+  } catch (error) {
+    console.error('Error logging unmapped inputs:', error);
+  }
+}
@@ -0,0 +1,15 @@
+import { loadTerminology, toLegacyTerminology } from '../../supabase/functions/_shared/terminology/index.ts';
+
+// The terminology lives with the edge functions so Deno reads the same file without a build step
+export * from '../../supabase/functions/_shared/terminology/index.ts';
+
+/**
+ * The canonical terminology in the flat layout of the old
+ * `issueTerminology.json`: terms keyed by id next to `fallback` and `issues`
+ */
+export const issueTerminology = toLegacyTerminology();
+
+/**
+ * The package's keyword terms by id, for the phrase and keyword matchers
+ */
+export const keywordTerms = loadTerminology().keywordTerms;
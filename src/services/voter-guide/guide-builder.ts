@@ -0,0 +1,234 @@
+import { BallotMeasure, CandidateRecommendation, DashboardData } from '@/types/recommendations';
+import { ElectionContext } from '@/types/elections';
+import { GuideBlock, GuideSection, PollSheet, PollSheetItem, VoterGuide } from '@/types/voter-guide';
+import { Locale } from '@/types/i18n';
+import { createTranslator, DEFAULT_LOCALE, formatDate, Translator } from '@/services/i18n';
+import { countdownLabel } from '@/services/elections';
+import { localizeTerm } from '@/services/terminology';
+
+type MeasureLean = 'yes' | 'no' | 'review';
+
+// Net agreement needed before a measure leans one way
+const LEAN_THRESHOLD = 0.1;
+
+const formatDay = (date: string, language: Locale) => formatDate(new Date(`${date}T00:00:00`), language);
+
+const hasLink = (url?: string) => Boolean(url && url !== '#');
+
+/**
+ * Which way the voter's own positions point on a measure. Each concern counts
+ * for its relevance: toward YES when a YES vote moves the term the way the
+ * voter wants, toward NO when it moves it the other way.
+ */
+export function measureLean(measure: BallotMeasure): { lean: MeasureLean; reason?: string } {
+  const concerns = measure.concerns || [];
+  let score = 0;
+  for (const concern of concerns) {
+    if (concern.voterStance === 'mixed' || concern.measureStance === 'mixed') continue;
+    score += concern.voterStance === concern.measureStance ? concern.relevance : -concern.relevance;
+  }
+
+  const reason = concerns[0]?.standardTerm;
+  if (score > LEAN_THRESHOLD) return { lean: 'yes', reason };
+  if (score < -LEAN_THRESHOLD) return { lean: 'no', reason };
+  return { lean: 'review', reason };
+}
+
+/**
+ * Wording and term labels in the guide's language
+ */
+interface GuideText {
+  t: Translator;
+  language: Locale;
+}
+
+function prioritiesSection(data: DashboardData, { t, language }: GuideText): GuideSection {
+  return {
+    id: 'priorities',
+    title: t('guide.priorities'),
+    blocks: data.priorities.map(priority => ({
+      kind: 'entry',
+      title: priority.original,
+      lines: [
+        priority.mapped.length > 0
+          ? t('guide.policyAreas', { terms: priority.mapped.map(term => localizeTerm(term, language)).join(', ') })
+          : t('guide.unmatched'),
+        ...(priority.ambiguities || []).map(question => t('guide.openQuestion', { question })),
+        ...(priority.conflicts || []).map(tension => t('guide.tension', { tension }))
+      ]
+    }))
+  };
+}
+
+function candidatesSection(candidates: Record<string, CandidateRecommendation[]>, { t }: GuideText): GuideSection {
+  return {
+    id: 'candidates',
+    title: t('guide.candidates'),
+    blocks: Object.entries(candidates).flatMap(([office, people]): GuideBlock[] => [
+      { kind: 'heading', text: office },
+      ...people.map((candidate): GuideBlock => ({
+        kind: 'entry',
+        title: candidate.name,
+        subtitle: candidate.party || undefined,
+        badge: t(`guide.match.${candidate.match}`),
+        lines: [
+          candidate.summary,
+          candidate.rationale,
+          ...candidate.platformHighlights.map(highlight => `• ${highlight}`)
+        ].filter(Boolean),
+        link: hasLink(candidate.officialWebsite) ? candidate.officialWebsite : undefined
+      }))
+    ])
+  };
+}
+
+function ballotMeasuresSection(measures: BallotMeasure[], { t, language }: GuideText): GuideSection {
+  return {
+    id: 'ballot-measures',
+    title: t('guide.ballotMeasures'),
+    blocks: [
+      {
+        kind: 'table',
+        columns: [t('guide.column.measure'), t('guide.column.lean'), t('guide.column.why')],
+        rows: measures.map(measure => {
+          const { lean, reason } = measureLean(measure);
+          return [
+            measure.title,
+            t(`guide.lean.${lean}`),
+            reason ? t('guide.touches', { term: localizeTerm(reason, language) }) : measure.userConcernMapping
+          ];
+        })
+      },
+      ...measures.map((measure): GuideBlock => ({
+        kind: 'entry',
+        title: measure.title,
+        lines: [
+          measure.summary,
+          measure.yesMeans ? t('guide.yesMeans', { text: measure.yesMeans }) : '',
+          measure.noMeans ? t('guide.noMeans', { text: measure.noMeans }) : '',
+          measure.supporters.length > 0 ? t('guide.supporters', { names: measure.supporters.join(', ') }) : '',
+          measure.opposers.length > 0 ? t('guide.opponents', { names: measure.opposers.join(', ') }) : ''
+        ].filter(Boolean),
+        link: hasLink(measure.ballotpediaLink) ? measure.ballotpediaLink : undefined
+      }))
+    ]
+  };
+}
+
+function emailSection(data: DashboardData, { t }: GuideText): GuideSection {
+  return {
+    id: 'emails',
+    title: t('guide.emails'),
+    blocks: data.recommendations.emailDrafts.map(draft => ({
+      kind: 'entry',
+      title: t('guide.emailTo', { name: draft.recipient.name }),
+      subtitle: [draft.recipient.title, draft.recipient.email].filter(Boolean).join(' · '),
+      lines: [t('guide.emailSubject', { subject: draft.subject }), ...draft.body.split(/\n{2,}/)]
+    }))
+  };
+}
+
+function resourcesSection(data: DashboardData, { t }: GuideText): GuideSection {
+  const { interestGroups, petitions, civicEducation } = data.recommendations;
+  const blocks: GuideBlock[] = [];
+
+  if (interestGroups.length > 0) {
+    blocks.push({ kind: 'heading', text: t('guide.organizations') });
+    blocks.push(...interestGroups.map((group): GuideBlock => ({
+      kind: 'entry',
+      title: group.name,
+      lines: [group.description, group.relevance].filter(Boolean),
+      link: hasLink(group.website) ? group.website : undefined
+    })));
+  }
+  if (petitions.length > 0) {
+    blocks.push({ kind: 'heading', text: t('guide.petitions') });
+    blocks.push(...petitions.map((petition): GuideBlock => ({
+      kind: 'entry',
+      title: petition.title,
+      lines: [petition.description, petition.relevance].filter(Boolean),
+      link: hasLink(petition.changeOrgUrl) ? petition.changeOrgUrl : undefined
+    })));
+  }
+  if (civicEducation.length > 0) {
+    blocks.push({ kind: 'heading', text: t('guide.learnMore') });
+    blocks.push(...civicEducation.map((resource): GuideBlock => ({
+      kind: 'entry',
+      title: resource.title,
+      subtitle: resource.source,
+      lines: [resource.description],
+      link: hasLink(resource.url) ? resource.url : undefined
+    })));
+  }
+  return { id: 'resources', title: t('guide.getInvolved'), blocks };
+}
+
+function pollSheet(data: DashboardData, { t, language }: GuideText, election?: ElectionContext): PollSheet {
+  const items: PollSheetItem[] = Object.entries(data.recommendations.candidates || {}).map(([office, people]) => {
+    const strong = people.filter(candidate => candidate.match === 'full').map(candidate => candidate.name);
+    const partial = people.filter(candidate => candidate.match === 'partial').map(candidate => candidate.name);
+    return {
+      contest: office,
+      choice: strong.length > 0 ? strong.join(` ${t('guide.or')} `) : t('guide.noStrongMatch'),
+      note: partial.length > 0 ? t('guide.alsoClose', { names: partial.join(', ') }) : undefined
+    };
+  });
+
+  for (const measure of data.recommendations.ballotMeasures || []) {
+    const { lean, reason } = measureLean(measure);
+    items.push({
+      contest: measure.title,
+      choice: t(`guide.lean.${lean}`),
+      note: reason && lean !== 'review' ? t('guide.because', { term: localizeTerm(reason, language) }) : undefined
+    });
+  }
+
+  const reminders: string[] = [];
+  if (data.mode === 'demo') {
+    const replayed = election?.lastGeneralElection;
+    reminders.push(replayed ? t('guide.replaying', { election: replayed.name }) : t('guide.replayingLast'));
+  } else if (election?.nextElection) {
+    reminders.push(`${election.nextElection.name}: ${formatDay(election.nextElection.date, language)}`);
+    for (const countdown of election.countdowns.filter(countdown => countdown.kind !== 'election_day')) {
+      reminders.push(`${countdownLabel(countdown, t)}: ${formatDay(countdown.date, language)}`);
+    }
+  }
+  reminders.push(t('guide.disclaimer'));
+
+  return { title: t('guide.pollSheet'), items, reminders };
+}
+
+/**
+ * Lay out everything on the dashboard as guide sections, leaving out empty
+ * ones, plus the tear-off sheet for the polling place. The guide is written
+ * in `options.language`, else the language the voter chose for the analysis.
+ */
+export function buildVoterGuide(
+  data: DashboardData,
+  options: { election?: ElectionContext; generatedAt?: Date; language?: Locale } = {}
+): VoterGuide {
+  const language = options.language || data.language || DEFAULT_LOCALE;
+  const text: GuideText = { t: createTranslator(language), language };
+  const { t } = text;
+  const { candidates = {}, ballotMeasures = [], emailDrafts } = data.recommendations;
+  const resources = resourcesSection(data, text);
+
+  const sections: GuideSection[] = [
+    ...(data.priorities.length > 0 ? [prioritiesSection(data, text)] : []),
+    ...(Object.keys(candidates).length > 0 ? [candidatesSection(candidates, text)] : []),
+    ...(ballotMeasures.length > 0 ? [ballotMeasuresSection(ballotMeasures, text)] : []),
+    ...(emailDrafts.length > 0 ? [emailSection(data, text)] : []),
+    ...(resources.blocks.length > 0 ? [resources] : [])
+  ];
+
+  return {
+    title: t(data.mode === 'demo' ? 'guide.title.demo' : 'guide.title'),
+    subtitle: [t('guide.zipCode', { zipCode: data.zipCode }), data.region].filter(Boolean).join(' · '),
+    generatedOn: formatDate(options.generatedAt || new Date(), language),
+    zipCode: data.zipCode,
+    region: data.region || undefined,
+    language,
+    sections,
+    pollSheet: pollSheet(data, text, options.election)
+  };
+}
@@ -0,0 +1,3 @@
+export { buildVoterGuide, measureLean } from './guide-builder';
+export { renderGuidePdf, guideFileName, pdfText } from './pdf-renderer';
+export { renderGuideHtml } from './print-renderer';
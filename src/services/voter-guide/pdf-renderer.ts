@@ -0,0 +1,319 @@
+import jsPDF from 'jspdf';
+import { GuideBlock, GuideSection, PollSheet, VoterGuide } from '@/types/voter-guide';
+import { createTranslator, Translator } from '@/services/i18n';
+
+// US Letter in points, with 0.75in margins
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SPACE = 24;
+const LINE_HEIGHT = 1.35;
+
+const MUTED: [number, number, number] = [100, 100, 100];
+const TEXT: [number, number, number] = [20, 20, 20];
+const LINK: [number, number, number] = [30, 80, 200];
+
+// jsPDF only accepts the language tags it lists, which have no es-US
+const PDF_LANGUAGES = { en: 'en-US', es: 'es' } as const;
+
+interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: [number, number, number];
+  indent?: number;
+  // Space after the text
+  gap?: number;
+  width?: number;
+}
+
+/**
+ * The built-in PDF fonts only cover Windows-1252, so emoji and other symbols
+ * are dropped rather than printed as garbage
+ */
+export function pdfText(text: string): string {
+  return text.replace(/[^\t\n\r\x20-\x7E\xA0-\xFF‘’“”–—…•€]/gu, '').replace(/[ \t]+/g, ' ').trim();
+}
+
+/**
+ * Cursor-based layout over jsPDF: wraps text to the column, breaks pages
+ * before anything would run into the footer, and remembers where each
+ * section starts for the table of contents
+ */
+class GuidePdfLayout {
+  readonly doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  readonly sectionPages: Array<{ title: string; page: number }> = [];
+  private y = MARGIN;
+  private onPageBreak?: (previousPage: number) => void;
+
+  get page(): number {
+    return this.doc.getNumberOfPages();
+  }
+
+  get cursor(): number {
+    return this.y;
+  }
+
+  newPage(): void {
+    this.onPageBreak?.(this.page);
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y + height > PAGE_HEIGHT - MARGIN - FOOTER_SPACE) this.newPage();
+  }
+
+  moveDown(points: number): void {
+    this.y += points;
+  }
+
+  /**
+   * Called before each page break until cleared, e.g. to close a border
+   */
+  whilePaging(handler?: (previousPage: number) => void): void {
+    this.onPageBreak = handler;
+  }
+
+  private applyStyle({ size = 10, bold = false, color = TEXT }: TextStyle): void {
+    this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...color);
+  }
+
+  wrap(text: string, style: TextStyle = {}): string[] {
+    this.applyStyle(style);
+    return this.doc.splitTextToSize(pdfText(text), (style.width || CONTENT_WIDTH) - (style.indent || 0)) as string[];
+  }
+
+  text(text: string, style: TextStyle = {}): void {
+    const size = style.size || 10;
+    const lines = this.wrap(text, style);
+    for (const line of lines) {
+      this.ensureSpace(size * LINE_HEIGHT);
+      this.applyStyle(style);
+      this.doc.text(line, MARGIN + (style.indent || 0), this.y, { baseline: 'top' });
+      this.y += size * LINE_HEIGHT;
+    }
+    this.y += style.gap || 0;
+  }
+
+  link(url: string, style: TextStyle = {}): void {
+    const size = style.size || 9;
+    this.ensureSpace(size * LINE_HEIGHT);
+    this.applyStyle({ ...style, size, color: LINK });
+    const label = url.length > 90 ? `${url.slice(0, 87)}...` : url;
+    this.doc.textWithLink(label, MARGIN + (style.indent || 0), this.y, { url, baseline: 'top' });
+    this.y += size * LINE_HEIGHT + (style.gap || 0);
+  }
+
+  rule(color: [number, number, number] = [200, 200, 200]): void {
+    this.doc.setDrawColor(...color);
+    this.doc.setLineWidth(0.75);
+    this.doc.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y);
+  }
+
+  sectionHeading(title: string): void {
+    // Keep a heading with at least a few lines of its content
+    this.ensureSpace(90);
+    this.sectionPages.push({ title, page: this.page });
+    this.text(title, { size: 17, bold: true, gap: 4 });
+    this.rule();
+    this.moveDown(12);
+  }
+
+  block(block: GuideBlock): void {
+    switch (block.kind) {
+      case 'heading':
+        this.ensureSpace(60);
+        this.moveDown(4);
+        this.text(block.text, { size: 12.5, bold: true, gap: 6 });
+        break;
+      case 'paragraph':
+        this.text(block.text, { color: block.muted ? MUTED : TEXT, gap: 8 });
+        break;
+      case 'list':
+        for (const item of block.items) this.text(`• ${item}`, { gap: 2 });
+        this.moveDown(6);
+        break;
+      case 'entry':
+        this.entry(block);
+        break;
+      case 'table':
+        this.table(block.columns, block.rows);
+        break;
+    }
+  }
+
+  private entry(entry: Extract<GuideBlock, { kind: 'entry' }>): void {
+    this.ensureSpace(48);
+    const top = this.cursor;
+
+    if (entry.badge) {
+      this.applyStyle({ size: 8.5, bold: true, color: MUTED });
+      const label = pdfText(entry.badge);
+      const width = this.doc.getTextWidth(label) + 10;
+      const x = PAGE_WIDTH - MARGIN - width;
+      this.doc.setDrawColor(...MUTED);
+      this.doc.setLineWidth(0.5);
+      this.doc.roundedRect(x, top - 1, width, 14, 3, 3);
+      this.doc.text(label, x + 5, top + 2, { baseline: 'top' });
+      this.text(entry.title, { size: 11.5, bold: true, width: CONTENT_WIDTH - width - 8, gap: 1 });
+    } else {
+      this.text(entry.title, { size: 11.5, bold: true, gap: 1 });
+    }
+
+    if (entry.subtitle) this.text(entry.subtitle, { size: 9.5, color: MUTED, gap: 2 });
+    for (const line of entry.lines) this.text(line, { gap: 2 });
+    if (entry.link) this.link(entry.link);
+    this.moveDown(10);
+  }
+
+  private table(columns: string[], rows: string[][]): void {
+    const size = 9.5;
+    const padding = 4;
+    const columnWidth = CONTENT_WIDTH / columns.length;
+
+    const drawRow = (cells: string[], header: boolean) => {
+      const wrapped = cells.map(cell => this.wrap(cell, { size, bold: header, width: columnWidth - padding * 2 }));
+      const height = Math.max(...wrapped.map(lines => lines.length)) * size * LINE_HEIGHT + padding * 2;
+      const startPage = this.page;
+      this.ensureSpace(height);
+      if (!header && this.page !== startPage) drawRow(columns, true);
+
+      this.doc.setDrawColor(200, 200, 200);
+      this.doc.setLineWidth(0.5);
+      if (header) this.doc.setFillColor(240, 240, 240);
+      wrapped.forEach((lines, index) => {
+        const x = MARGIN + index * columnWidth;
+        this.doc.rect(x, this.y, columnWidth, height, header ? 'FD' : 'S');
+        this.applyStyle({ size, bold: header });
+        this.doc.text(lines, x + padding, this.y + padding, { baseline: 'top', lineHeightFactor: LINE_HEIGHT });
+      });
+      this.y += height;
+    };
+
+    this.ensureSpace(60);
+    drawRow(columns, true);
+    for (const row of rows) drawRow(row, false);
+    this.moveDown(14);
+  }
+}
+
+function drawCover(layout: GuidePdfLayout, guide: VoterGuide, t: Translator): number {
+  layout.moveDown(40);
+  layout.text(guide.title, { size: 26, bold: true, gap: 6 });
+  layout.text(guide.subtitle, { size: 13, color: MUTED, gap: 2 });
+  layout.text(t('guide.prepared', { date: guide.generatedOn }), { size: 10, color: MUTED, gap: 24 });
+  layout.text(t('guide.intro'), { size: 11, gap: 28 });
+  layout.text(t('guide.contents'), { size: 14, bold: true, gap: 4 });
+  layout.rule();
+  layout.moveDown(10);
+  return layout.cursor;
+}
+
+// Filled in last, once every section's page is known
+function drawContents(layout: GuidePdfLayout, top: number): void {
+  const { doc } = layout;
+  const lineHeight = 20;
+  doc.setPage(1);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(...TEXT);
+
+  layout.sectionPages.forEach(({ title, page }, index) => {
+    const y = top + index * lineHeight;
+    doc.text(pdfText(title), MARGIN, y, { baseline: 'top' });
+    doc.text(String(page), PAGE_WIDTH - MARGIN, y, { baseline: 'top', align: 'right' });
+    doc.link(MARGIN, y - 2, CONTENT_WIDTH, lineHeight - 2, { pageNumber: page });
+    doc.outline.add(null, pdfText(title), { pageNumber: page });
+  });
+}
+
+function drawPollSheet(layout: GuidePdfLayout, sheet: PollSheet, t: Translator): void {
+  const { doc } = layout;
+  layout.newPage();
+  layout.sectionPages.push({ title: sheet.title, page: layout.page });
+
+  // Dashed border to cut along, closed on each page the sheet runs over
+  let top = layout.cursor;
+  const closeBorder = (bottom: number) => {
+    doc.setDrawColor(...MUTED);
+    doc.setLineWidth(1);
+    doc.setLineDashPattern([5, 4], 0);
+    doc.rect(MARGIN - 10, top - 10, CONTENT_WIDTH + 20, bottom - top + 20);
+    doc.setLineDashPattern([], 0);
+  };
+  layout.whilePaging(previousPage => {
+    doc.setPage(previousPage);
+    closeBorder(PAGE_HEIGHT - MARGIN - FOOTER_SPACE);
+    top = MARGIN;
+  });
+
+  layout.text(t('guide.cutHere'), { size: 8, color: MUTED, gap: 6 });
+  layout.text(sheet.title, { size: 16, bold: true, gap: 10 });
+
+  for (const item of sheet.items) {
+    layout.ensureSpace(34);
+    doc.setDrawColor(...TEXT);
+    doc.setLineWidth(0.75);
+    doc.rect(MARGIN, layout.cursor + 1, 9, 9);
+    layout.text(item.contest, { size: 10.5, bold: true, indent: 18, gap: 0 });
+    layout.text(item.choice, { size: 10.5, indent: 18, gap: item.note ? 0 : 8 });
+    if (item.note) layout.text(item.note, { size: 9, color: MUTED, indent: 18, gap: 8 });
+  }
+
+  layout.moveDown(6);
+  for (const reminder of sheet.reminders) layout.text(reminder, { size: 9, color: MUTED, gap: 2 });
+
+  layout.whilePaging(undefined);
+  closeBorder(layout.cursor);
+}
+
+function drawFooters(layout: GuidePdfLayout, guide: VoterGuide, t: Translator): void {
+  const { doc } = layout;
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8.5);
+    doc.setTextColor(...MUTED);
+    const y = PAGE_HEIGHT - MARGIN / 2 - 8;
+    doc.text(pdfText(`${guide.title} · ${guide.subtitle}`), MARGIN, y, { baseline: 'top' });
+    doc.text(pdfText(t('guide.page', { page, pages })), PAGE_WIDTH - MARGIN, y, { baseline: 'top', align: 'right' });
+  }
+}
+
+function drawSection(layout: GuidePdfLayout, section: GuideSection): void {
+  layout.sectionHeading(section.title);
+  for (const block of section.blocks) layout.block(block);
+  layout.moveDown(12);
+}
+
+/**
+ * The guide as a text PDF: a cover with a linked table of contents, each
+ * section flowing across pages, and the tear-off sheet last. Text stays
+ * selectable and searchable, and sections show up as PDF bookmarks.
+ */
+export function renderGuidePdf(guide: VoterGuide): jsPDF {
+  const t = createTranslator(guide.language);
+  const layout = new GuidePdfLayout();
+  layout.doc.setDocumentProperties({ title: guide.title, subject: guide.subtitle });
+  layout.doc.setLanguage(PDF_LANGUAGES[guide.language]);
+
+  const contentsTop = drawCover(layout, guide, t);
+  layout.newPage();
+  for (const section of guide.sections) drawSection(layout, section);
+  drawPollSheet(layout, guide.pollSheet, t);
+
+  drawContents(layout, contentsTop);
+  drawFooters(layout, guide, t);
+  return layout.doc;
+}
+
+/**
+ * File name for a saved guide, e.g. "voter-guide-94105.pdf"
+ */
+export function guideFileName(guide: VoterGuide, extension: 'pdf' | 'html'): string {
+  return `voter-guide-${guide.zipCode || 'draft'}.${extension}`;
+}
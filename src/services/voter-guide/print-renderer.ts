@@ -0,0 +1,111 @@
+import { GuideBlock, PollSheet, VoterGuide } from '@/types/voter-guide';
+import { createTranslator, LOCALE_TAGS, Translator } from '@/services/i18n';
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const PRINT_STYLES = `
+  @page { size: letter; margin: 0.75in; }
+  body { font-family: Georgia, 'Times New Roman', serif; color: #141414; line-height: 1.4; max-width: 7in; margin: 0 auto; padding: 24px; }
+  h1 { font-size: 26pt; margin: 0 0 4px; }
+  h2 { font-size: 17pt; border-bottom: 1px solid #ccc; padding-bottom: 4px; margin-top: 0; }
+  h3 { font-size: 12.5pt; margin: 16px 0 6px; }
+  .muted { color: #646464; }
+  .entry { margin: 0 0 14px; break-inside: avoid; }
+  .entry-title { font-weight: bold; display: flex; justify-content: space-between; gap: 8px; }
+  .badge { font-size: 8.5pt; border: 1px solid #646464; border-radius: 3px; padding: 0 5px; white-space: nowrap; }
+  .entry p { margin: 2px 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 9.5pt; margin-bottom: 14px; }
+  th, td { border: 1px solid #ccc; padding: 4px; text-align: left; vertical-align: top; }
+  th { background: #f0f0f0; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; }
+  nav ol { padding-left: 20px; }
+  section { margin-top: 32px; }
+  .poll-sheet { border: 2px dashed #646464; padding: 16px; margin-top: 32px; break-inside: avoid; }
+  .poll-sheet li { list-style: none; margin-bottom: 8px; }
+  .poll-sheet li::before { content: ''; display: inline-block; width: 9pt; height: 9pt; border: 1px solid #141414; margin-right: 8px; vertical-align: -1pt; }
+  a { color: #1e50c8; word-break: break-all; }
+  @media print {
+    body { padding: 0; max-width: none; }
+    section, .poll-sheet { break-before: page; margin-top: 0; }
+    a { color: inherit; text-decoration: none; }
+    .no-print { display: none; }
+  }
+`;
+
+function renderBlock(block: GuideBlock): string {
+  switch (block.kind) {
+    case 'heading':
+      return `<h3>${escapeHtml(block.text)}</h3>`;
+    case 'paragraph':
+      return `<p${block.muted ? ' class="muted"' : ''}>${escapeHtml(block.text)}</p>`;
+    case 'list':
+      return `<ul>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    case 'entry':
+      return `<div class="entry">
+        <div class="entry-title"><span>${escapeHtml(block.title)}</span>${block.badge ? `<span class="badge">${escapeHtml(block.badge)}</span>` : ''}</div>
+        ${block.subtitle ? `<p class="muted">${escapeHtml(block.subtitle)}</p>` : ''}
+        ${block.lines.map(line => `<p>${escapeHtml(line)}</p>`).join('')}
+        ${block.link ? `<p><a href="${escapeHtml(block.link)}">${escapeHtml(block.link)}</a></p>` : ''}
+      </div>`;
+    case 'table':
+      return `<table>
+        <thead><tr>${block.columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead>
+        <tbody>${block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody>
+      </table>`;
+  }
+}
+
+function renderPollSheet(sheet: PollSheet, t: Translator): string {
+  return `<div class="poll-sheet" id="poll-sheet">
+    <p class="muted">${escapeHtml(t('guide.cutHere'))}</p>
+    <h2>${escapeHtml(sheet.title)}</h2>
+    <ul>${sheet.items.map(item => `<li>
+      <strong>${escapeHtml(item.contest)}</strong>: ${escapeHtml(item.choice)}
+      ${item.note ? `<br><span class="muted">${escapeHtml(item.note)}</span>` : ''}
+    </li>`).join('')}</ul>
+    ${sheet.reminders.map(reminder => `<p class="muted">${escapeHtml(reminder)}</p>`).join('')}
+  </div>`;
+}
+
+/**
+ * The guide as a standalone HTML page with a print stylesheet: each section
+ * starts a new page and the tear-off sheet gets its own dashed border
+ */
+export function renderGuideHtml(guide: VoterGuide): string {
+  const t = createTranslator(guide.language);
+  return `<!DOCTYPE html>
+<html lang="${LOCALE_TAGS[guide.language]}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(guide.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(guide.title)}</h1>
+  <p class="muted">${escapeHtml(guide.subtitle)}</p>
+  <p class="muted">${escapeHtml(t('guide.prepared', { date: guide.generatedOn }))}</p>
+  <button class="no-print" onclick="window.print()">${escapeHtml(t('guide.print'))}</button>
+</header>
+<nav aria-label="${escapeHtml(t('guide.contents'))}">
+  <h2>${escapeHtml(t('guide.contents'))}</h2>
+  <ol>
+    ${guide.sections.map(section => `<li><a href="#${section.id}">${escapeHtml(section.title)}</a></li>`).join('')}
+    <li><a href="#poll-sheet">${escapeHtml(guide.pollSheet.title)}</a></li>
+  </ol>
+</nav>
+${guide.sections.map(section => `<section id="${section.id}" aria-labelledby="${section.id}-title">
+  <h2 id="${section.id}-title">${escapeHtml(section.title)}</h2>
+  ${section.blocks.map(renderBlock).join('\n')}
+</section>`).join('\n')}
+${renderPollSheet(guide.pollSheet, t)}
+</body>
+</html>`;
+}
@@ -0,0 +1,131 @@
+import { measureId, normalizeMeasure, normalizeStatus, summarizeMeasure } from '@/services/ballot-measures';
+import { toBallotMeasures } from '../../supabase/functions/_shared/ballot-measures/index.ts';
+import { RawBallotMeasure } from '@/types/ballot-measures';
+
+const prop204: RawBallotMeasure = {
+  id: 204,
+  title: '  Prop   204 ',
+  summary: 'Adds a common-sense 0.25% sales tax for expanded rural bus service, supported by the Transit Coalition',
+  supporters: ['Transit Coalition', ' Transit Coalition ', ''],
+  opponents: ['Taxpayers Association'],
+  state: 'ca',
+  measure_status: 'Upcoming election',
+  fiscal_note: 'About $410 million a year in new state revenue',
+  policy_terms: [
+    { standardTerm: 'Public Transportation and Infrastructure', stance: 'support' },
+    { standardTerm: 'Tax Policy Reform', stance: 'oppose', strength: 1.4 },
+    { standardTerm: 'Zoning', stance: 'unclear' }
+  ]
+};
+
+describe('Ballot measure normalizer', () => {
+  test('cleans whitespace, dedupes supporters and reads the status', () => {
+    const measure = normalizeMeasure(prop204, 'fixture');
+
+    expect(measure.id).toBe('204');
+    expect(measure.title).toBe('Prop 204');
+    expect(measure.supporters).toEqual(['Transit Coalition']);
+    expect(measure.state).toBe('CA');
+    expect(measure.status).toBe('upcoming');
+  });
+
+  test('keeps labeled positions with a known stance and clamps their strength', () => {
+    expect(normalizeMeasure(prop204, 'fixture').positions).toEqual([
+      { standardTerm: 'Public Transportation and Infrastructure', stance: 'support', strength: 1 },
+      { standardTerm: 'Tax Policy Reform', stance: 'oppose', strength: 1 }
+    ]);
+  });
+
+  test('falls back on the name for the title and derives an id from it', () => {
+    const measure = normalizeMeasure({ name: 'Measure ULA: Housing Funds' }, 'ballotpedia');
+
+    expect(measure.title).toBe('Measure ULA: Housing Funds');
+    expect(measure.id).toBe(measureId('Measure ULA: Housing Funds'));
+    expect(measure.id).toBe('measure-ula-housing-funds');
+    expect(measure.description).toBe('No description available');
+    expect(normalizeStatus('Rejected by voters')).toBe('failed');
+    expect(normalizeStatus('on hold')).toBeUndefined();
+  });
+});
+
+describe('Ballot measure summarizer', () => {
+  test('drops campaign language and endorsements and states the action plainly', () => {
+    const summary = summarizeMeasure(normalizeMeasure(prop204, 'fixture'));
+
+    expect(summary.summary).toBe(
+      'This measure would add a 0.25% sales tax for expanded rural bus service. ' +
+      'Estimated fiscal impact: About $410 million a year in new state revenue.'
+    );
+    expect(summary.yesMeans).toBe('A YES vote means the measure passes, which would add a 0.25% sales tax for expanded rural bus service.');
+    expect(summary.noMeans).toBe('A NO vote means the measure fails and current law stays as it is.');
+  });
+
+  test("uses Ballotpedia's vote descriptions in our casing", () => {
+    const summary = summarizeMeasure(normalizeMeasure({
+      title: 'Prop 301',
+      summary: 'Public AI policies in plain language',
+      yes_vote: 'A "yes" vote supports requiring plain-language AI explanations',
+      no_vote: 'current disclosure rules stay in place'
+    }, 'ballotpedia'));
+
+    expect(summary.summary).toBe('Public AI policies in plain language.');
+    expect(summary.yesMeans).toBe('A YES vote supports requiring plain-language AI explanations.');
+    expect(summary.noMeans).toBe('A NO vote means current disclosure rules stay in place.');
+  });
+
+  test('cuts long summaries at a sentence boundary', () => {
+    const sentence = 'It funds the program for another ten years with money from the general fund. ';
+    const { summary } = summarizeMeasure(normalizeMeasure({ title: 'Long', summary: sentence.repeat(6) }, 'ballotpedia'));
+
+    expect(summary.length).toBeLessThanOrEqual(280);
+    expect(summary.endsWith('general fund.')).toBe(true);
+  });
+});
+
+describe('Edge ballot measure ranking', () => {
+  const transit = {
+    priority: 'We need more buses',
+    policyTerms: ['Public Transportation and Infrastructure'],
+    sentiment: 'positive' as const,
+    confidence: 0.8,
+    needsClarification: false
+  };
+
+  test('summarizes like the app and matches terms through their voter phrases', () => {
+    const [measure] = toBallotMeasures([{ title: 'Measure M', summary: 'Expands public transit in the county' }], [transit]);
+
+    expect(measure.summary).toBe('This measure would expand public transit in the county.');
+    // Relevance is weighed against the voter's top term, as in the app; a text
+    // match doesn't say which way a YES vote goes
+    expect(measure.concerns).toEqual([{
+      standardTerm: 'Public Transportation and Infrastructure',
+      priority: 'We need more buses',
+      relevance: 1,
+      voterStance: 'support',
+      measureStance: 'mixed'
+    }]);
+  });
+
+  test('weighs each priority against the most confident one', () => {
+    const housing = { ...transit, priority: 'Rent is too high', policyTerms: ['Housing Affordability'], confidence: 0.4 };
+    const [measure] = toBallotMeasures(
+      [{ title: 'Measure H', summary: 'Funds affordable housing', policy_terms: [{ standardTerm: 'Housing Affordability', stance: 'support' }] }],
+      [transit, housing]
+    );
+
+    expect(measure.concerns.map(concern => [concern.standardTerm, concern.relevance, concern.measureStance])).toEqual([
+      ['Housing Affordability', 0.5, 'support']
+    ]);
+  });
+
+  test('ranks measures that touch no priority last', () => {
+    const measures = toBallotMeasures([
+      { title: 'Measure Z', summary: 'Renames the county fairgrounds' },
+      { title: 'Measure M', summary: 'Expands public transit in the county' }
+    ], [transit]);
+
+    expect(measures.map(measure => measure.title)).toEqual(['Measure M', 'Measure Z']);
+    expect(measures[1].relevance).toBe(0);
+    expect(measures[1].userConcernMapping).toBe("This measure doesn't touch any of your stated priorities.");
+  });
+});
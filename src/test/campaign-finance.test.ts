@@ -0,0 +1,87 @@
+import sampleData from '@/data/fec-finance.json';
+import {
+  FecFinanceResponses,
+  classifyIndustry,
+  fromFecResponses,
+  normalizeEmployer,
+  sampleFinanceRecords,
+  summarizeFinances,
+  topEmployers
+} from '@/services/finance';
+
+const responses = sampleData.candidates as Record<string, FecFinanceResponses>;
+
+describe('Campaign finance analytics', () => {
+  const grassroots = summarizeFinances(fromFecResponses('P00000001', 2024, responses.P00000001));
+  const selfFunded = summarizeFinances(fromFecResponses('P00000002', 2024, responses.P00000002));
+
+  test('reads receipts, spending, cash on hand and debts from the candidate totals', () => {
+    expect(grassroots.committeeId).toBe('C00000001');
+    expect(grassroots.receipts).toBe(45_600_000);
+    expect(grassroots.disbursements).toBe(40_300_000);
+    expect(grassroots.cashOnHand).toBe(7_400_000);
+    expect(grassroots.debts).toBe(250_000);
+    expect(grassroots.coverageEndDate).toBe('2024-10-16');
+  });
+
+  test('splits individual money into small-dollar and large-donor shares by size band', () => {
+    expect(grassroots.donorSizes.map(bucket => bucket.minimum)).toEqual([0, 200, 500, 1000, 2000]);
+    expect(grassroots.smallDollar.total).toBe(18_400_000);
+    expect(grassroots.smallDollar.share).toBeCloseTo(18.4 / 37, 5);
+    expect(grassroots.largeDonor.total).toBe(11_300_000);
+    expect(selfFunded.largeDonor.share).toBeCloseTo(0.6, 5);
+    expect(grassroots.smallDollar.share).toBeGreaterThan(selfFunded.smallDollar.share);
+  });
+
+  test('falls back to unitemized contributions when size bands are missing', () => {
+    const withoutBands = summarizeFinances({ ...sampleFinanceRecords('P00000001')!, bySize: [] });
+    expect(withoutBands.smallDollar.total).toBe(18_400_000);
+    expect(withoutBands.largeDonor.total).toBe(0);
+  });
+
+  test('counts candidate contributions and loans as self-funding', () => {
+    expect(grassroots.selfFunding.total).toBe(0);
+    expect(selfFunded.selfFunding).toEqual({
+      contributions: 6_000_000,
+      loans: 4_000_000,
+      total: 10_000_000,
+      share: 10 / 31
+    });
+  });
+
+  test('totals outside spending for and against, grouped by spender', () => {
+    expect(grassroots.outsideSpending.support).toBe(2_950_000);
+    expect(grassroots.outsideSpending.oppose).toBe(1_800_000);
+    expect(grassroots.outsideSpending.topSpenders[0]).toMatchObject({ committeeName: 'Clean Future PAC', support: 2_300_000 });
+    expect(selfFunded.outsideSpending.topSpenders.map(spender => spender.committeeId)).toEqual(['C90000004', 'C90000001']);
+  });
+
+  test('orders filing periods by date for the trend chart', () => {
+    expect(grassroots.trend.map(period => period.endDate)).toEqual(['2024-03-31', '2024-06-30', '2024-09-30', '2024-10-16']);
+    expect(grassroots.trend[grassroots.trend.length - 1].cashOnHand).toBe(grassroots.cashOnHand);
+  });
+
+  test('merges employer spellings and leaves out non-answers', () => {
+    const employers = topEmployers(responses.P00000001.by_employer!.results, 10);
+    const names = employers.map(employer => employer.name);
+    expect(names).not.toContain('Information Requested');
+    expect(employers.find(employer => employer.name === 'Self-employed')?.total).toBe(475_000);
+    expect(normalizeEmployer('N/A')).toBeNull();
+  });
+
+  test('rolls employers up into industries', () => {
+    expect(classifyIndustry('Google')).toBe('Technology');
+    expect(classifyIndustry('Smith & Jones LLP')).toBe('Law');
+    expect(classifyIndustry('Exxon Mobil')).toBe('Energy');
+    expect(classifyIndustry('Acme Widgets')).toBe('Other');
+
+    const technology = grassroots.topIndustries.find(industry => industry.name === 'Technology');
+    expect(technology?.total).toBe(410_000 + 210_000 + 120_000);
+    expect(selfFunded.topIndustries.map(industry => industry.name)).toContain('Finance');
+  });
+
+  test('sample records exist only for the demo candidates', () => {
+    expect(sampleFinanceRecords('P00000001')?.cycle).toBe(2024);
+    expect(sampleFinanceRecords('H0XX00000')).toBeUndefined();
+  });
+});
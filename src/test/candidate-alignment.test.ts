@@ -0,0 +1,176 @@
+import { CandidateAlignmentService, scoreAlignment, stanceAgreement, toVoterPreferences } from '@/services/alignment';
+import { CandidateProfile } from '@/types/alignment';
+import { MappingEngine } from '@/types/mapping-engine';
+import { MappedPriority, PolicyTermMatch } from '@/types/policy-mappings';
+import { TermStance } from '@/types/stance';
+import { TEST_PERSONAS } from './personas';
+
+// Hand-labeled mappings for the persona priorities, so scores don't depend on the mapper
+const PERSONA_TERMS: Record<string, Array<[string, TermStance]>> = {
+  'Fair access to quality education': [['Education and Student Opportunity', 'support']],
+  'Reducing achievement gaps': [['Education and Student Opportunity', 'support']],
+  'School funding equity': [['Education and Student Opportunity', 'support'], ['Income Inequality and Wealth Distribution', 'support']],
+  'Teacher diversity hiring': [['Affirmative Action', 'support']],
+  'Special education support': [['Education and Student Opportunity', 'support']],
+  'Bilingual education programs': [['Education and Student Opportunity', 'support']],
+  'Fair hiring practices': [['Equal Opportunity Employment', 'support']],
+  'Living wage requirements': [["Labor Rights and Workers' Protections", 'support']],
+  'Small business support': [['Economic Conditions and Growth', 'support']],
+  'Worker protections': [["Labor Rights and Workers' Protections", 'support']],
+  'Equal pay enforcement': [["Women's Rights and Gender Equality", 'support']],
+  'Job training programs': [['Economic Conditions and Growth', 'support']],
+  'Clean air standards': [['Environmental Protection', 'support']],
+  'Water quality protection': [['Environmental Protection', 'support']],
+  'Environmental justice': [['Climate Change and Environmental Policy', 'support']],
+  'Public health measures': [['Healthcare Access and Affordability', 'support']],
+  'Industrial pollution control': [['Environmental Regulation Skepticism', 'oppose']],
+  'Green space access': [['Environmental Protection', 'support']]
+};
+
+const toMappedPriority = (priority: string): MappedPriority => {
+  const matches: PolicyTermMatch[] = (PERSONA_TERMS[priority] || []).map(([standardTerm, stance]) => ({
+    standardTerm,
+    confidence: 0.9,
+    sources: ['terminology'],
+    evidence: [],
+    stance
+  }));
+  return {
+    priority,
+    original: priority,
+    policyTerms: matches.map(m => m.standardTerm),
+    sentiment: 'positive',
+    confidence: 0.9,
+    needsClarification: false,
+    matches
+  };
+};
+
+const flip = (stance: TermStance): TermStance =>
+  stance === 'support' ? 'oppose' : stance === 'oppose' ? 'support' : 'mixed';
+
+const profileFrom = (name: string, terms: Array<[string, TermStance]>): CandidateProfile => ({
+  name,
+  office: 'Governor',
+  positions: terms.map(([standardTerm, stance]) => ({ standardTerm, stance, strength: 1, source: 'curated' }))
+});
+
+describe('Candidate alignment', () => {
+  test('stance agreement is symmetric and ranks agreement above tension above opposition', () => {
+    expect(stanceAgreement('support', 'support')).toBe(1);
+    expect(stanceAgreement('oppose', 'oppose')).toBe(1);
+    expect(stanceAgreement('support', 'oppose')).toBe(-1);
+    expect(stanceAgreement('mixed', 'support')).toBe(stanceAgreement('support', 'mixed'));
+    expect(stanceAgreement('mixed', 'mixed')).toBeGreaterThan(stanceAgreement('mixed', 'support'));
+  });
+
+  test('merges a term named by several priorities and weights it by priority', () => {
+    const persona = TEST_PERSONAS.find(p => p.id === 'education_equity')!;
+    const mapped = persona.values.priorities.map(toMappedPriority);
+    const weights = persona.values.priorities.map((_, index) => 1 - index * 0.1);
+
+    const preferences = toVoterPreferences(mapped, weights);
+    const education = preferences.filter(p => p.standardTerm === 'Education and Student Opportunity');
+
+    expect(education).toHaveLength(1);
+    expect(education[0].priority).toBe('Fair access to quality education');
+    expect(preferences[0].standardTerm).toBe('Education and Student Opportunity');
+  });
+
+  test('opposite stances on one term across priorities leave the voter mixed', () => {
+    const mapped = [
+      { ...toMappedPriority('Clean air standards') },
+      {
+        ...toMappedPriority('Clean air standards'),
+        priority: 'Fewer rules on factories',
+        original: 'Fewer rules on factories',
+        matches: [{ standardTerm: 'Environmental Protection', confidence: 0.9, sources: ['terminology'], evidence: [], stance: 'oppose' }]
+      } as MappedPriority
+    ];
+
+    const [preference] = toVoterPreferences(mapped);
+    expect(preference.stance).toBe('mixed');
+  });
+
+  TEST_PERSONAS.forEach(persona => {
+    describe(`Persona: ${persona.description}`, () => {
+      const mapped = persona.values.priorities.map(toMappedPriority);
+      const preferences = toVoterPreferences(mapped);
+      const terms = preferences.map(p => [p.standardTerm, p.stance] as [string, TermStance]);
+
+      test('a candidate holding every position the voter does is a full match', () => {
+        const alignment = scoreAlignment(preferences, profileFrom('Ally', terms));
+        expect(alignment.match).toBe('full');
+        expect(alignment.score).toBe(1);
+        expect(alignment.coverage).toBe(1);
+        expect(alignment.rationale).toMatch(/^Agrees with you on /);
+      });
+
+      test('a candidate holding the opposite positions is a conflict', () => {
+        const opposite = terms.map(([term, stance]) => [term, flip(stance)] as [string, TermStance]);
+        const alignment = scoreAlignment(preferences, profileFrom('Opponent', opposite));
+        expect(alignment.match).toBe('conflict');
+        expect(alignment.score).toBe(0);
+        expect(alignment.rationale).toMatch(/^Disagrees with you on /);
+      });
+
+      test('a candidate agreeing on some issues and silent on the rest is partial', () => {
+        const alignment = scoreAlignment(preferences, profileFrom('Partial', terms.slice(0, 1)));
+        expect(alignment.match).toBe('partial');
+        expect(alignment.coverage).toBeLessThan(0.5);
+        expect(alignment.rationale).toContain('No known position on');
+      });
+
+      test('a candidate with no known positions is partial with zero coverage', () => {
+        const alignment = scoreAlignment(preferences, profileFrom('Unknown', []));
+        expect(alignment.match).toBe('partial');
+        expect(alignment.coverage).toBe(0);
+        expect(alignment.rationale).toBe('Unknown has no known position on the issues you care about.');
+      });
+
+      test('scoring is deterministic', () => {
+        const profile = profileFrom('Ally', terms.slice(0, 2));
+        expect(scoreAlignment(preferences, profile)).toEqual(scoreAlignment(preferences, profile));
+      });
+    });
+  });
+
+  test('opposing the voter\'s most important issue is a conflict even if the rest agree', () => {
+    const mapped = TEST_PERSONAS.find(p => p.id === 'environmental_health')!.values.priorities.map(toMappedPriority);
+    const preferences = toVoterPreferences(mapped, [3, 1, 1, 1, 1, 1]);
+    const terms = preferences.map(p => [p.standardTerm, p.stance] as [string, TermStance]);
+    const [top, ...rest] = terms;
+
+    const alignment = scoreAlignment(preferences, profileFrom('Mostly', [[top[0], flip(top[1])], ...rest]));
+    expect(alignment.score).toBeGreaterThan(0.4);
+    expect(alignment.match).toBe('conflict');
+  });
+
+  test('uncurated candidates get positions from their platform text', async () => {
+    const engine: MappingEngine = {
+      mapPriority: async (priority: string) => ({
+        ...toMappedPriority(priority),
+        matches: priority === 'Protect clean air'
+          ? [{ standardTerm: 'Environmental Protection', confidence: 0.9, sources: ['terminology'], evidence: [], stance: 'support' }]
+          : []
+      }),
+      mapPriorities: async () => ({ mappedPriorities: [], conflicts: [] })
+    };
+    const service = new CandidateAlignmentService(engine, []);
+    const mapped = [toMappedPriority(TEST_PERSONAS.find(p => p.id === 'environmental_health')!.values.priorities[0])];
+
+    const [candidate] = await service.alignCandidates([{
+      name: 'Platform Only',
+      party: 'Independent',
+      office: 'Mayor',
+      alignment: '⚠️',
+      platformHighlights: ['Protect clean air'],
+      rationale: '',
+      officialWebsite: ''
+    }], mapped);
+
+    expect(candidate.match).toBe('full');
+    expect(candidate.alignment).toBe('✅');
+    expect(candidate.rationale).toContain('Agrees with you on Environmental Protection');
+  });
+});
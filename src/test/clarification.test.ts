@@ -0,0 +1,185 @@
+import { ClarificationDialogue, explainTermChoice } from '@/services/clarification';
+import { AIClarificationService, MAX_INTERPRETATIONS } from '@/services/ai-clarification';
+import { FixtureProvider, LlmClient } from '@/services/llm';
+import { PriorityLearningService } from '@/services/priority-learning-service';
+import { InMemoryLearningStore } from '@/services/learning-store';
+import { MappingEngine } from '@/types/mapping-engine';
+import { MappedPriority, PolicyTermMatch } from '@/types/policy-mappings';
+import { ClarificationTurn } from '@/types/clarification';
+
+const NOW = new Date('2026-10-01T12:00:00.000Z');
+const TRANSIT = 'Public Transportation and Infrastructure';
+const HOUSING = 'Housing Affordability and Homelessness Prevention';
+
+const match = (standardTerm: string, confidence: number, changes: Partial<PolicyTermMatch> = {}): PolicyTermMatch => ({
+  standardTerm,
+  confidence,
+  sources: ['embedding'],
+  evidence: [],
+  ...changes
+});
+
+const unclear = (priority: string, matches: PolicyTermMatch[] = []): MappedPriority => ({
+  priority,
+  policyTerms: matches.map(m => m.standardTerm),
+  sentiment: 'neutral',
+  confidence: matches[0]?.confidence || 0,
+  needsClarification: true,
+  matches
+});
+
+// Answers free-text replies with whatever terms are listed for them
+const engineFor = (answers: Record<string, PolicyTermMatch[]>): MappingEngine => ({
+  mapPriority: async priority => unclear(priority, answers[priority] || []),
+  mapPriorities: async () => ({ mappedPriorities: [], conflicts: [] })
+});
+
+const modelWith = (interpretations: Array<{ standardTerm: string; confidence: number }>) =>
+  new AIClarificationService(undefined, new LlmClient(new FixtureProvider([{
+    promptId: 'interpret-priority',
+    response: { question: 'Which of these do you mean?', interpretations }
+  }]), { maxRetries: 0 }));
+
+const offline = () => new AIClarificationService(undefined, new LlmClient(new FixtureProvider(), { maxRetries: 0 }));
+
+function dialogue(
+  engine: MappingEngine = engineFor({}),
+  clarificationService = offline(),
+  learning: Pick<PriorityLearningService, 'learnFromClarification'> = new PriorityLearningService({
+    store: new InMemoryLearningStore(),
+    now: () => NOW
+  })
+) {
+  return new ClarificationDialogue(engine, clarificationService, 0.8, 3, undefined, () => NOW, learning);
+}
+
+describe('Clarification dialogue', () => {
+  test('asks about the engine matches when no model is available', async () => {
+    const turn = await dialogue().ask(unclear('getting around town', [match(TRANSIT, 0.5), match(HOUSING, 0.3)]));
+
+    expect(turn.question).toBe('What did you mean by "getting around town"?');
+    expect(turn.interpretations.map(i => [i.standardTerm, i.source])).toEqual([[TRANSIT, 'engine'], [HOUSING, 'engine']]);
+    expect(turn.askedAt).toBe(NOW.toISOString());
+  });
+
+  test('merges model and engine interpretations, best first and capped', async () => {
+    const model = modelWith([
+      { standardTerm: 'Public Transit Investment', confidence: 0.7 },
+      { standardTerm: TRANSIT.toLowerCase(), confidence: 0.2 },
+      { standardTerm: 'Road Maintenance', confidence: 0.4 },
+      { standardTerm: 'Bike Infrastructure', confidence: 0.35 },
+      { standardTerm: 'Ride Sharing', confidence: 0.1 }
+    ]);
+    const turn = await dialogue(engineFor({}), model).ask(
+      unclear('getting around town', [match(TRANSIT, 0.5, { termKey: 'publicTransportation' })])
+    );
+
+    expect(turn.question).toBe('Which of these do you mean?');
+    expect(turn.interpretations).toHaveLength(MAX_INTERPRETATIONS);
+    expect(turn.interpretations.map(i => i.confidence)).toEqual([0.7, 0.5, 0.4, 0.35]);
+    // The model's wording wins, with the engine's confidence and term key
+    expect(turn.interpretations[1]).toMatchObject({ standardTerm: TRANSIT.toLowerCase(), termKey: 'publicTransportation' });
+  });
+
+  test('a chosen interpretation resolves the priority and is remembered', async () => {
+    const store = new InMemoryLearningStore();
+    const learning = new PriorityLearningService({ store, now: () => NOW });
+    const mapped = unclear('getting around town', [match(TRANSIT, 0.5, { termKey: 'publicTransportation' }), match(HOUSING, 0.3)]);
+    const clarifier = dialogue(engineFor({}), offline(), learning);
+
+    const turn = await clarifier.ask(mapped);
+    const answered = await clarifier.answer(mapped, turn, { kind: 'interpretation', standardTerm: TRANSIT });
+
+    expect(answered.policyTerms).toEqual([TRANSIT]);
+    expect(answered.confidence).toBe(0.95);
+    expect(answered.needsClarification).toBe(false);
+    expect(answered.matches?.[0].sources).toEqual(['embedding', 'clarification']);
+    expect(answered.clarification?.status).toBe('resolved');
+    expect(answered.clarification?.turns[0].answer).toEqual({
+      kind: 'interpretation',
+      standardTerm: TRANSIT,
+      answeredAt: NOW.toISOString()
+    });
+    expect(clarifier.canAsk(answered)).toBe(false);
+
+    const [learned] = await store.list();
+    expect(learned).toMatchObject({ originalTerm: 'getting around town', issueId: 'publicTransportation', issueName: TRANSIT });
+  });
+
+  test('re-maps free-text answers and rules out what was passed over', async () => {
+    const engine = engineFor({ 'I mean rent': [match(HOUSING, 0.6, { sources: ['terminology'] })] });
+    const clarifier = dialogue(engine);
+    const mapped = unclear('getting around town', [match(TRANSIT, 0.5)]);
+
+    const first = await clarifier.ask(mapped);
+    const answered = await clarifier.answer(mapped, first, { kind: 'free-text', text: 'I mean rent' });
+
+    expect(answered.policyTerms).toEqual([HOUSING]);
+    expect(answered.matches?.[0].sources).toEqual(['terminology', 'clarification']);
+    expect(answered.matches?.[0].evidence[0]).toBe('From your answer "I mean rent"');
+    expect(answered.needsClarification).toBe(true);
+    expect(answered.clarification?.status).toBe('open');
+    expect(clarifier.canAsk(answered)).toBe(true);
+
+    const second = await clarifier.ask(answered);
+    expect(second.question).toBe('Thanks. Which of these is closest to "getting around town"?');
+    expect(second.interpretations.map(i => i.standardTerm)).toEqual([HOUSING]);
+  });
+
+  test('stops asking after the last turn', async () => {
+    const clarifier = dialogue();
+    let mapped = unclear('getting around town', [match(TRANSIT, 0.5)]);
+    for (let i = 0; i < 3; i++) {
+      mapped = await clarifier.answer(mapped, await clarifier.ask(mapped), { kind: 'free-text', text: 'not sure' });
+    }
+
+    expect(mapped.clarification?.turns).toHaveLength(3);
+    expect(mapped.needsClarification).toBe(true);
+    expect(clarifier.canAsk(mapped)).toBe(false);
+  });
+
+  test('keeps the answer when it cannot be remembered', async () => {
+    const failing = { learnFromClarification: async () => { throw new Error('offline'); } };
+    const mapped = unclear('getting around town', [match(TRANSIT, 0.5)]);
+    const clarifier = dialogue(engineFor({}), offline(), failing);
+
+    const answered = await clarifier.answer(mapped, await clarifier.ask(mapped), { kind: 'interpretation', standardTerm: TRANSIT });
+    expect(answered.policyTerms).toEqual([TRANSIT]);
+  });
+});
+
+describe('explainTermChoice', () => {
+  const turn = (answer: ClarificationTurn['answer']): ClarificationTurn => ({
+    question: 'What did you mean by "getting around town"?',
+    interpretations: [{ standardTerm: TRANSIT, confidence: 0.5, source: 'engine' }],
+    askedAt: NOW.toISOString(),
+    answer
+  });
+
+  test('explains chosen interpretations and terms from free-text answers', () => {
+    const chosen: MappedPriority = {
+      ...unclear('getting around town', [match(TRANSIT, 0.95, { sources: ['clarification'] })]),
+      clarification: {
+        turns: [turn({ kind: 'interpretation', standardTerm: TRANSIT, answeredAt: NOW.toISOString() })],
+        status: 'resolved'
+      }
+    };
+    expect(explainTermChoice(chosen, TRANSIT.toLowerCase()))
+      .toBe(`You chose ${TRANSIT} when asked what you meant by "getting around town".`);
+
+    const typed: MappedPriority = {
+      ...unclear('getting around town', [match(HOUSING, 0.6, { sources: ['terminology', 'clarification'] })]),
+      clarification: {
+        turns: [turn({ kind: 'free-text', text: 'I mean rent', answeredAt: NOW.toISOString() })],
+        status: 'open'
+      }
+    };
+    expect(explainTermChoice(typed, HOUSING)).toBe(`${HOUSING} comes from your answer "I mean rent".`);
+  });
+
+  test('says nothing about terms that did not come from a clarification', () => {
+    const mapped = unclear('getting around town', [match(TRANSIT, 0.9)]);
+    expect(explainTermChoice(mapped, TRANSIT)).toBeUndefined();
+    expect(explainTermChoice({ ...mapped, clarification: { turns: [turn(undefined)], status: 'open' } }, TRANSIT)).toBeUndefined();
+  });
+});
@@ -0,0 +1,117 @@
+import { DEFAULT_PIPELINE_CONFIG, PipelineMappingEngine, findTensions, mappingEngine, segmentPriority } from '@/services/mapping-engine';
+import { MappingStrategy, MappingStrategyName, StrategyMatch } from '@/types/mapping-engine';
+import { ClauseMapping } from '@/types/policy-mappings';
+
+// Maps any text containing a keyword to its term, so results don't depend on the terminology data
+const keywordStrategy = (terms: Record<string, string>): MappingStrategy => ({
+  name: 'terminology',
+  isAvailable: () => true,
+  map: async (text: string): Promise<StrategyMatch[]> => Object.entries(terms)
+    .filter(([keyword]) => text.toLowerCase().includes(keyword))
+    .map(([keyword, standardTerm]) => ({ standardTerm, confidence: 0.85, evidence: [`Mentions "${keyword}"`] }))
+});
+
+const engineWith = (strategy: MappingStrategy, maxTerms = DEFAULT_PIPELINE_CONFIG.maxTerms) => new PipelineMappingEngine(
+  new Map<MappingStrategyName, MappingStrategy>([['terminology', strategy]]),
+  { ...DEFAULT_PIPELINE_CONFIG, strategies: [{ name: 'terminology', enabled: true, weight: 1 }], maxTerms }
+);
+
+const clause = (text: string, term: string, stance: ClauseMapping['stance'], contrastive = false): ClauseMapping => ({
+  text,
+  contrastive,
+  policyTerms: [term],
+  confidence: 0.8,
+  stance,
+  matches: [{ standardTerm: term, confidence: 0.8, sources: ['terminology'], evidence: [], stance }]
+});
+
+describe('Clause segmentation', () => {
+  test('splits independent comma clauses and contrast words', () => {
+    expect(segmentPriority('College costs too much, how will we afford homes?').map(c => c.text))
+      .toEqual(['College costs too much', 'how will we afford homes']);
+    expect(segmentPriority("Protect LGBTQ+ rights, but I don't like trans women in my locker room")).toEqual([
+      { text: 'Protect LGBTQ+ rights', contrastive: false },
+      { text: "I don't like trans women in my locker room", contrastive: true }
+    ]);
+  });
+
+  test('splits issues joined by "and" or "y" when each side names one', () => {
+    expect(segmentPriority('Lower taxes and better schools').map(c => c.text)).toEqual(['Lower taxes', 'better schools']);
+    expect(segmentPriority('Bajar impuestos y mejores escuelas').map(c => c.text)).toEqual(['Bajar impuestos', 'mejores escuelas']);
+    expect(segmentPriority('We need law and order')).toHaveLength(1);
+    expect(segmentPriority('Clean air and water').map(c => c.text)).toEqual(['Clean air and water']);
+  });
+
+  test('keeps qualifying phrases and short fragments with their clause', () => {
+    expect(segmentPriority('We need more mental health support, especially for families and veterans.')).toHaveLength(1);
+    expect(segmentPriority('Healthcare costs are crushing us. Seriously!')).toHaveLength(1);
+  });
+
+  test('maps each clause on its own and keeps every clause\'s top term', async () => {
+    const engine = engineWith(keywordStrategy({ college: 'Higher Education Affordability', homes: 'Housing Affordability' }), 1);
+
+    const mapped = await engine.mapPriority('College costs too much, how will we afford homes?');
+
+    expect(mapped.clauses?.map(c => c.policyTerms)).toEqual([['Higher Education Affordability'], ['Housing Affordability']]);
+    expect(mapped.policyTerms).toEqual(['Higher Education Affordability', 'Housing Affordability']);
+    expect(mapped.tensions).toEqual([]);
+  });
+
+  test('maps the clauses with the default strategies', async () => {
+    const mapped = await mappingEngine.mapPriority('College costs too much, how will we afford homes?');
+
+    expect(mapped.clauses?.map(c => c.policyTerms[0])).toEqual([
+      'Education and Student Opportunity',
+      'Housing Affordability and Homelessness Prevention'
+    ]);
+  });
+
+  test('drops weak clause matches instead of adding them to the priority', async () => {
+    // Finds a term only in the clause's few words, as similarity on short text does
+    const clauseOnly: MappingStrategy = {
+      name: 'terminology',
+      isAvailable: () => true,
+      map: async text => (text === 'how will we afford homes' ? [{ standardTerm: 'Housing Affordability', confidence: 0.4, evidence: [] }] : [])
+    };
+
+    const mapped = await engineWith(clauseOnly).mapPriority('College costs too much, how will we afford homes?');
+
+    expect(mapped.clauses?.map(c => c.policyTerms)).toEqual([[], []]);
+    expect(mapped.policyTerms).toEqual([]);
+  });
+
+  test('leaves single-clause priorities as they were', async () => {
+    const mapped = await engineWith(keywordStrategy({ college: 'Higher Education Affordability' }))
+      .mapPriority('College is too expensive');
+
+    expect(mapped.clauses).toBeUndefined();
+    expect(mapped.policyTerms).toEqual(['Higher Education Affordability']);
+  });
+
+  test('flags a contrastive clause that takes the other side', () => {
+    const tensions = findTensions([
+      clause('Protect LGBTQ+ rights', 'LGBTQ+ Rights', 'support'),
+      clause("I don't like trans women in my locker room", 'Transgender Rights', 'oppose', true)
+    ]);
+
+    expect(tensions).toHaveLength(1);
+    expect(tensions[0].terms).toEqual(['LGBTQ+ Rights', 'Transgender Rights']);
+    expect(tensions[0].explanation).toContain('opposes Transgender Rights');
+  });
+
+  test('flags one term supported and opposed in different clauses', () => {
+    const tensions = findTensions([
+      clause('I want lower taxes', 'Tax Policy', 'support'),
+      clause('I oppose any tax changes for the rich', 'Tax Policy', 'oppose')
+    ]);
+
+    expect(tensions.map(tension => tension.terms)).toEqual([['Tax Policy']]);
+  });
+
+  test('does not flag a qualification that agrees', () => {
+    expect(findTensions([
+      clause('I back the police', 'Law Enforcement', 'support'),
+      clause('they need to earn our trust', 'Police Accountability', 'support', true)
+    ])).toEqual([]);
+  });
+});
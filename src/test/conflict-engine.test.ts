@@ -0,0 +1,67 @@
+import { conflictEngine } from '@/services/conflict-engine';
+import { ClauseMapping, MappedPriority } from '@/types/policy-mappings';
+import { TermStance } from '@/types/stance';
+
+const mapped = (priority: string, stance?: TermStance, changes: Partial<MappedPriority> = {}): MappedPriority => ({
+  priority,
+  original: priority,
+  policyTerms: stance ? ['Healthcare Access and Affordability'] : [],
+  sentiment: stance === 'oppose' ? 'negative' : 'positive',
+  confidence: stance ? 0.9 : 0,
+  needsClarification: !stance,
+  matches: stance
+    ? [{ standardTerm: 'Healthcare Access and Affordability', confidence: 0.9, sources: ['terminology'], evidence: [], stance }]
+    : [],
+  ...changes
+});
+
+const clause = (text: string, stance: TermStance, contrastive = false): ClauseMapping => ({
+  text,
+  contrastive,
+  policyTerms: ['Healthcare Access and Affordability'],
+  confidence: 0.9,
+  stance,
+  matches: []
+});
+
+describe('Conflict engine', () => {
+  test('takes issue stances from the mapped priority, not from the wording', () => {
+    const [supports] = conflictEngine.matchIssues(mapped('Stop cutting health coverage', 'support'));
+    expect(supports.issueId).toBe('healthcare_access');
+    expect(supports.stance).toBe('support');
+
+    const [opposes] = conflictEngine.matchIssues(mapped('More health coverage mandates are a mistake', 'oppose'));
+    expect(opposes.stance).toBe('oppose');
+  });
+
+  test('reports opposite stances on one issue across priorities', () => {
+    const conflicts = conflictEngine.detect([
+      mapped('Stop cutting health coverage', 'support'),
+      mapped('More health coverage mandates are a mistake', 'oppose')
+    ]);
+    expect(conflicts.map(conflict => conflict.kind)).toContain('stance');
+
+    const agreeing = conflictEngine.detect([
+      mapped('Stop cutting health coverage', 'support'),
+      mapped('Protect health coverage', 'support')
+    ]);
+    expect(agreeing.filter(conflict => conflict.kind === 'stance')).toEqual([]);
+  });
+
+  test('reads the stance of the clause a phrase is in', () => {
+    const priority = 'Protect health coverage, but no single payer';
+    const [match] = conflictEngine.matchIssues(mapped(priority, 'mixed', {
+      clauses: [clause('Protect health coverage', 'support'), clause('no single payer', 'oppose', true)]
+    }));
+
+    expect(match.stance).toBe('support');
+    // An opposed approach keyword says nothing about the approach
+    expect(match.approaches).toEqual([]);
+    expect(match.matchedTerms).toEqual(['health coverage']);
+  });
+
+  test('falls back on the sentence sentiment when nothing was mapped', () => {
+    const [match] = conflictEngine.matchIssues(mapped('No more health coverage mandates', undefined, { sentiment: 'negative' }));
+    expect(match.stance).toBe('oppose');
+  });
+});
@@ -0,0 +1,126 @@
+import { DistrictResolver, normalizeZip, ZipCrosswalk } from '@/services/districts';
+import crosswalkData from '@/data/zip-districts.json';
+import { ZipCrosswalkEntry } from '@/types/districts';
+
+const TX = 'ocd-division/country:us/state:tx';
+
+const entries: ZipCrosswalkEntry[] = [
+  {
+    zip: '78701',
+    state: 'TX',
+    city: 'Austin',
+    districts: [
+      { id: `${TX}/cd:25`, type: 'congressional', name: "Texas's 25th Congressional District", share: 0.18 },
+      { id: `${TX}/cd:37`, type: 'congressional', name: "Texas's 37th Congressional District", share: 0.82 },
+      { id: `${TX}/sldl:49`, type: 'state_house', name: 'Texas House of Representatives District 49', share: 0.97 },
+      { id: `${TX}/sldl:46`, type: 'state_house', name: 'Texas House of Representatives District 46', share: 0.03 },
+      { id: `${TX}/county:travis`, type: 'county', name: 'Travis County', share: 1 }
+    ]
+  }
+];
+
+const resolver = new DistrictResolver(new ZipCrosswalk(entries));
+
+describe('ZIP crosswalk', () => {
+  test('reads five-digit ZIPs and ZIP+4', () => {
+    expect(normalizeZip(' 78701 ')).toBe('78701');
+    expect(normalizeZip('78701-1234')).toBe('78701');
+    expect(normalizeZip('787011234')).toBe('78701');
+    expect(normalizeZip('7870')).toBeNull();
+    expect(normalizeZip('austin')).toBeNull();
+  });
+
+  test('lists the districts of each type largest share first and reports splits', () => {
+    const crosswalk = new ZipCrosswalk(entries);
+    const congressional = crosswalk.districtsByType('78701-0001').get('congressional')!;
+
+    expect(congressional.map(district => district.id)).toEqual([`${TX}/cd:37`, `${TX}/cd:25`]);
+    expect(congressional[0].state).toBe('TX');
+    expect(crosswalk.splitTypes('78701')).toEqual(['congressional', 'state_house']);
+    expect(crosswalk.isSplit('99999')).toBe(false);
+  });
+
+  test('every bundled entry lists valid shares for known district types', () => {
+    const types = ['congressional', 'state_senate', 'state_house', 'county', 'city', 'school_district'];
+    const crosswalk = new ZipCrosswalk();
+
+    for (const { zip } of crosswalkData.zips) {
+      const byType = crosswalk.districtsByType(zip);
+      expect(byType.size).toBeGreaterThan(0);
+      for (const [type, districts] of byType) {
+        expect(types).toContain(type);
+        const total = districts.reduce((sum, district) => sum + district.share, 0);
+        expect(total).toBeLessThanOrEqual(1.01);
+        districts.forEach(district => expect(district.id).toMatch(/^ocd-division\/country:us\/state:[a-z]{2}\//));
+      }
+    }
+  });
+});
+
+describe('District resolver', () => {
+  test('settles districts that hold the ZIP and leaves split ones for the voter', () => {
+    const resolution = resolver.resolve({ zipCode: '78701' });
+
+    expect(resolution.source).toBe('crosswalk');
+    expect(resolution.state).toBe('TX');
+    expect(resolution.city).toBe('Austin');
+    expect(resolution.districts.map(district => district.id)).toEqual([
+      'ocd-division/country:us',
+      TX,
+      // 97% of the ZIP is enough
+      `${TX}/sldl:49`,
+      `${TX}/county:travis`
+    ]);
+    expect(resolution.ambiguous).toHaveLength(1);
+    expect(resolution.ambiguous[0].type).toBe('congressional');
+    expect(resolution.ambiguous[0].candidates.map(candidate => candidate.share)).toEqual([0.82, 0.18]);
+  });
+
+  test('records the district the voter picks', () => {
+    const resolution = resolver.choose(resolver.resolve({ zipCode: '78701' }), `${TX}/cd:25`);
+
+    expect(resolution.ambiguous).toEqual([]);
+    expect(resolution.districts).toContainEqual({
+      id: `${TX}/cd:25`,
+      type: 'congressional',
+      name: "Texas's 25th Congressional District",
+      state: 'TX'
+    });
+    // Picking a district that wasn't offered changes nothing
+    expect(resolver.choose(resolution, `${TX}/cd:10`)).toBe(resolution);
+  });
+
+  test('prefers the divisions found for a full address', () => {
+    const resolution = resolver.resolve({ zipCode: '78701', address: '1100 Congress Ave' }, [
+      { id: `${TX}/cd:37`, name: "Texas's 37th Congressional District" },
+      { id: `${TX}/sldu:14`, name: 'Texas State Senate District 14' },
+      { id: `${TX}/precinct:1`, name: 'Precinct 1' }
+    ]);
+
+    expect(resolution.source).toBe('address');
+    expect(resolution.ambiguous).toEqual([]);
+    expect(resolution.districts.map(district => district.type)).toEqual(['congressional', 'state_senate']);
+    expect(resolution.state).toBe('TX');
+  });
+
+  test('falls back on nothing for ZIPs the crosswalk does not know', () => {
+    expect(resolver.resolve({ zipCode: '00000' })).toEqual({
+      zipCode: '00000',
+      address: undefined,
+      districts: [],
+      ambiguous: [],
+      source: 'none'
+    });
+  });
+
+  test('says whether the voter is in a division', () => {
+    const resolution = resolver.resolve({ zipCode: '78701' });
+
+    expect(resolver.membership(resolution, `${TX}/sldl:49`)).toBe('in');
+    expect(resolver.membership(resolution, `${TX}/cd:25`)).toBe('possible');
+    expect(resolver.membership(resolution, `${TX}/sldl:46`)).toBe('out');
+    expect(resolver.membership(resolution, 'ocd-division/country:us/state:ca')).toBe('out');
+    // No state senate data for this ZIP
+    expect(resolver.membership(resolution, `${TX}/sldu:14`)).toBe('unknown');
+  });
+});
@@ -0,0 +1,144 @@
+import { countdownLabel, ElectionCalendar } from '@/services/elections';
+import { ZipCrosswalk } from '@/services/districts';
+import { createTranslator } from '@/services/i18n';
+import { ElectionEvent, StateElectionRules } from '@/types/elections';
+
+const NOW = new Date('2026-10-01T12:00:00.000Z');
+
+const event = (id: string, date: string, changes: Partial<ElectionEvent> = {}): ElectionEvent => ({
+  id,
+  name: `Election ${id}`,
+  date,
+  type: 'general',
+  cycle: Number(date.slice(0, 4)),
+  source: 'bundled',
+  ...changes
+});
+
+const rules: Record<string, StateElectionRules> = {
+  TX: { registrationDaysBefore: 30, mailBallotRequestDaysBefore: 11, earlyVotingDaysBefore: 17 },
+  CA: { registrationDaysBefore: 15, earlyVotingDaysBefore: 29, sameDayRegistration: true }
+};
+
+const crosswalk = new ZipCrosswalk([{ zip: '78701', state: 'TX', city: 'Austin', districts: [] }]);
+
+const GENERAL_2024 = event('us-general-2024', '2024-11-05', { name: '2024 General Election' });
+const GENERAL_2026 = event('us-general-2026', '2026-11-03', { name: '2026 General Election' });
+
+const calendar = (events: ElectionEvent[] = [GENERAL_2024, GENERAL_2026]) =>
+  new ElectionCalendar(events, rules, crosswalk);
+
+describe('Election calendar', () => {
+  test('picks current mode when an election is inside the window', () => {
+    const context = calendar().contextFor({ zipCode: '78701' }, NOW);
+
+    expect(context.state).toBe('TX');
+    expect(context.mode).toBe('current');
+    expect(context.cycle).toBe(2026);
+    expect(context.hasUpcomingBallots).toBe(true);
+    expect(context.nextElection?.id).toBe('us-general-2026');
+    expect(context.lastGeneralElection?.id).toBe('us-general-2024');
+  });
+
+  test('picks demo mode and the last general cycle with nothing coming up', () => {
+    const context = calendar([GENERAL_2024]).contextFor({ state: 'tx' }, NOW);
+
+    expect(context.mode).toBe('demo');
+    expect(context.cycle).toBe(2024);
+    expect(context.hasUpcomingBallots).toBe(false);
+    expect(context.countdowns).toEqual([]);
+  });
+
+  test('lets the voter\'s mode decide the cycle', () => {
+    const context = calendar().contextFor({ state: 'TX' }, NOW, 'demo');
+
+    expect(context.mode).toBe('demo');
+    expect(context.cycle).toBe(2024);
+    // The upcoming election is still reported
+    expect(context.hasUpcomingBallots).toBe(true);
+  });
+
+  test('only counts elections in the voter\'s state or nationwide', () => {
+    const texasRunoff = event('tx-runoff', '2026-10-20', { type: 'runoff', state: 'TX' });
+    const context = calendar([GENERAL_2024, texasRunoff, GENERAL_2026]).contextFor({ state: 'CA' }, NOW);
+
+    expect(context.nextElection?.id).toBe('us-general-2026');
+  });
+
+  test('counts back each state deadline from election day', () => {
+    const countdowns = calendar().countdowns(GENERAL_2026, 'TX', NOW);
+
+    expect(countdowns.map(countdown => [countdown.kind, countdown.date, countdown.daysLeft])).toEqual([
+      ['registration', '2026-10-04', 3],
+      ['early_voting', '2026-10-17', 16],
+      ['mail_ballot_request', '2026-10-23', 22],
+      ['election_day', '2026-11-03', 33]
+    ]);
+  });
+
+  test('drops deadlines that have passed and states without a mail ballot deadline', () => {
+    const countdowns = calendar().countdowns(GENERAL_2026, 'CA', new Date('2026-10-10T12:00:00.000Z'));
+
+    // Early voting opened on October 5th; California mails every voter a ballot
+    expect(countdowns.map(countdown => countdown.kind)).toEqual(['registration', 'election_day']);
+    expect(countdowns[0]).toMatchObject({ date: '2026-10-19', daysLeft: 9, sameDayRegistration: true });
+  });
+
+  test('counts only election day without the voter\'s state', () => {
+    expect(calendar().countdowns(GENERAL_2026, undefined, NOW)).toEqual([
+      { kind: 'election_day', date: '2026-11-03', daysLeft: 33, electionName: '2026 General Election' }
+    ]);
+  });
+
+  test('labels countdowns in the voter\'s language', () => {
+    const spanish = createTranslator('es');
+    const texas = calendar().countdowns(GENERAL_2026, 'TX', NOW);
+    const californiaRegistration = calendar().countdowns(GENERAL_2026, 'CA', NOW).find(countdown => countdown.kind === 'registration');
+
+    expect(texas.map(countdown => countdownLabel(countdown, spanish))).toEqual([
+      'Fecha límite de inscripción',
+      'Empieza la votación anticipada',
+      'Fecha límite para pedir la boleta por correo',
+      '2026 General Election'
+    ]);
+    expect(californiaRegistration && countdownLabel(californiaRegistration, createTranslator('en'))).toBe('Register in advance');
+  });
+
+  test('skips elections it already knows by id or by date, state and type', () => {
+    const elections = calendar();
+    elections.addEvents([
+      event('us-general-2026', '2026-11-03'),
+      event('civic-9000', '2026-11-03', { source: 'civic' }),
+      event('tx-runoff', '2026-12-12', { type: 'runoff', state: 'TX' })
+    ]);
+
+    expect(elections.eventsFor('TX').map(known => known.id)).toEqual(['us-general-2024', 'us-general-2026', 'tx-runoff']);
+  });
+
+  test('adds Civic elections except the test election and malformed dates', async () => {
+    const elections = calendar();
+    const added = await elections.seedFromCivic({
+      getElections: async () => ({
+        elections: [
+          { id: '2000', name: 'VIP Test Election', electionDay: '2026-06-06' },
+          { id: '9001', name: 'Texas Primary Runoff', electionDay: '2026-05-26', ocdDivisionId: 'ocd-division/country:us/state:tx' },
+          { id: '9002', name: 'Special Election', electionDay: 'soon' },
+          { id: '9003', name: 'General Election', electionDay: '2026-11-03' }
+        ]
+      })
+    });
+
+    expect(added).toBe(1);
+    const runoff = elections.eventsFor('TX').find(known => known.id === 'civic-9001');
+    expect(runoff).toMatchObject({ type: 'runoff', state: 'TX', cycle: 2026, source: 'civic' });
+    expect(elections.eventsFor('CA').some(known => known.id === 'civic-9001')).toBe(false);
+  });
+
+  test('keeps the bundled calendar when Civic fails', async () => {
+    const elections = calendar();
+    const added = await elections.seedFromCivic({ getElections: async () => { throw new Error('offline'); } });
+
+    expect(added).toBe(0);
+    expect(elections.eventsFor().map(known => known.id)).toEqual(['us-general-2024', 'us-general-2026']);
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  composeEmail,
+  ComposeEmailInput,
+  EmailDraft,
+  EmailIssue,
+  issuesFromPriorities,
+  recomposeEmail,
+  salutationName,
+  toEml
+} from '@/services/email';
+
+const decodeBase64 = (text: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(text), char => char.charCodeAt(0)));
+
+const issues: EmailIssue[] = ['Housing', 'Transit', 'Schools', 'Parks', 'Wages', 'Libraries'].map(term => ({
+  term,
+  stance: 'support',
+  voterWords: `More ${term.toLowerCase()} for our town`
+}));
+
+const input = (changes: Partial<ComposeEmailInput> = {}): ComposeEmailInput => ({
+  recipient: { name: 'Alex Lee', title: 'U.S. Senator' },
+  category: 'aligned',
+  issues,
+  localFacts: ['Fact one.', 'Fact two.', 'Fact three.', 'Fact four.'],
+  sender: { name: 'Rosa', city: 'Austin' },
+  ...changes
+});
+
+const count = (text: string, pattern: RegExp) => text.match(pattern)?.length || 0;
+
+const draft = (changes: Partial<EmailDraft> = {}): EmailDraft => ({
+  recipient: { name: 'Alex Lee', title: 'U.S. Senator', email: 'alex@senate.test' },
+  subject: 'Where I stand on Housing',
+  body: 'Dear Senator Lee,\n\nI support Housing.',
+  category: 'key_decision_maker',
+  stance: 'mixed',
+  tone: 'formal',
+  length: 'standard',
+  ...changes
+});
+
+// Headers and body of an .eml, split on the blank line between them
+const emlParts = (eml: string) => {
+  const [head, body] = eml.split('\r\n\r\n');
+  return { headers: head.split('\r\n'), body: body.replace(/\r\n$/, '').split('\r\n') };
+};
+
+describe('Email composer', () => {
+  test('addresses officials by honorific and last name', () => {
+    expect(salutationName({ name: 'Alex Lee', title: 'U.S. Senator' })).toBe('Senator Lee');
+    expect(salutationName({ name: 'Rep. Maria Garcia Jr.', title: 'Member of the U.S. House' })).toBe('Representative Garcia');
+    expect(salutationName({ name: 'Alex Lee', title: 'U.S. Senator' }, 'es')).toBe('Senador/a Lee');
+    expect(salutationName({ name: ' Jordan Smith ', title: 'County Clerk' })).toBe('Jordan Smith');
+  });
+
+  test('turns mapped priorities into one issue per term', () => {
+    const result = issuesFromPriorities([
+      {
+        priority: '  Lower rent ',
+        policyTerms: ['Housing', 'Rent Control'],
+        sentiment: 'positive',
+        matches: [{ standardTerm: 'Rent Control', stance: 'mixed' }]
+      },
+      { priority: 'Stop new highways', policyTerms: ['Highways', 'Housing'], sentiment: 'negative' },
+      { priority: ' ', policyTerms: ['Parks'] }
+    ]);
+
+    expect(result).toEqual([
+      { term: 'Housing', stance: 'support', voterWords: 'Lower rent' },
+      { term: 'Rent Control', stance: 'mixed', voterWords: 'Lower rent' },
+      { term: 'Highways', stance: 'oppose', voterWords: 'Stop new highways' },
+      { term: 'Parks', stance: 'support' }
+    ]);
+    expect(result[3].voterWords).toBeUndefined();
+  });
+
+  test('caps issues, quotes and facts by length', () => {
+    const short = composeEmail(input({ length: 'short' })).body;
+    expect(count(short, /I support /g)).toBe(1);
+    expect(short).not.toContain('In my own words');
+    expect(short).not.toContain('Fact one.');
+
+    const standard = composeEmail(input()).body;
+    expect(count(standard, /I support /g)).toBe(3);
+    expect(count(standard, /In my own words/g)).toBe(1);
+    expect(standard).toContain('As a voter in Austin, here is what I am seeing: Fact one.\n');
+
+    const detailed = composeEmail(input({ length: 'detailed' })).body;
+    expect(count(detailed, /I support /g)).toBe(5);
+    expect(detailed).not.toContain('Libraries');
+    expect(count(detailed, /In my own words/g)).toBe(3);
+    expect(detailed).toContain('Fact one. Fact two. Fact three.\n');
+    expect(detailed).not.toContain('Fact four.');
+  });
+
+  test('leaves out quotes and facts the voter turned off', () => {
+    const body = composeEmail(input({ length: 'detailed', includeVoterWords: false, includeLocalFacts: false })).body;
+
+    expect(count(body, /I support /g)).toBe(5);
+    expect(body).not.toContain('In my own words');
+    expect(body).not.toContain('As a voter');
+  });
+
+  test('shortens long quotes at a word boundary', () => {
+    const voterWords = `${'affordable homes '.repeat(20)}now`;
+    const body = composeEmail(input({ issues: [{ term: 'Housing', stance: 'support', voterWords }] })).body;
+    const quoted = body.match(/In my own words: "([^"]*)"/)?.[1] || '';
+
+    expect(quoted.length).toBeLessThanOrEqual(241);
+    expect(quoted).toMatch(/homes…$/);
+  });
+
+  test('picks subject, opening and closing by tone and re-renders with a new one', () => {
+    const formal = composeEmail(input());
+    expect(formal.subject).toBe('Thank you for your work on Housing');
+    expect(formal.body).toMatch(/^Dear Senator Lee,\n\nI am writing as your constituent to thank you/);
+    expect(formal.body).toMatch(/\n\nSincerely,\nRosa\nAustin$/);
+
+    const urgent = recomposeEmail(formal, { tone: 'urgent' });
+    expect(urgent.subject).toBe('Please keep fighting for Housing');
+    expect(urgent.body).toMatch(/\n\nRespectfully,\nRosa\nAustin$/);
+    expect(urgent.length).toBe('standard');
+    expect(count(urgent.body, /I support /g)).toBe(3);
+  });
+
+  test('falls back to placeholders without issues or a sender name', () => {
+    const email = composeEmail(input({ category: 'opposing', issues: [], sender: {}, localFacts: [] }));
+
+    expect(email.subject).toBe("A constituent's concerns about issues in our community");
+    expect(email.body).toContain('The issues I care about affect me and my neighbors every day.');
+    expect(email.body).toMatch(/\n\[Your Name\]$/);
+  });
+});
+
+describe('Email export', () => {
+  test('writes a draft message with plain ASCII headers as they are', () => {
+    const { headers, body } = emlParts(toEml(draft()));
+
+    expect(headers).toEqual([
+      'To: Alex Lee <alex@senate.test>',
+      'Subject: Where I stand on Housing',
+      'X-Unsent: 1',
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64'
+    ]);
+    expect(decodeBase64(body.join(''))).toBe('Dear Senator Lee,\r\n\r\nI support Housing.');
+  });
+
+  test('quotes display names with commas and other specials', () => {
+    const [to] = emlParts(toEml(draft({ recipient: { name: 'SMITH, JOHN', title: 'Mayor', email: 'mayor@city.test' } }))).headers;
+    expect(to).toBe('To: "SMITH, JOHN" <mayor@city.test>');
+
+    const [nickname] = emlParts(toEml(draft({ recipient: { name: 'Alex "Al" Lee', title: 'Mayor', email: 'mayor@city.test' } }))).headers;
+    expect(nickname).toBe('To: "Alex \\"Al\\" Lee" <mayor@city.test>');
+  });
+
+  test('encodes non-ASCII headers as RFC 2047 encoded words', () => {
+    const { headers } = emlParts(toEml(draft({
+      recipient: { name: 'Núñez, José', title: 'Alcalde', email: 'jose@city.test' },
+      subject: 'Mi posición sobre Vivienda'
+    })));
+    const encoded = /^=\?UTF-8\?B\?([A-Za-z0-9+/=]+)\?=$/;
+
+    const [, name, email] = headers[0].match(/^To: (\S+) <(.+)>$/) || [];
+    expect(name).toMatch(encoded);
+    expect(decodeBase64(name.match(encoded)?.[1] || '')).toBe('Núñez, José');
+    expect(email).toBe('jose@city.test');
+
+    const subject = headers[1].slice('Subject: '.length);
+    expect(decodeBase64(subject.match(encoded)?.[1] || '')).toBe('Mi posición sobre Vivienda');
+  });
+
+  test('wraps the base64 body at 76 columns', () => {
+    const text = `Estimado/a Senador/a Lee:\n\n${'Estoy a favor de la vivienda asequible. '.repeat(10)}\nAtentamente,\nRosa`;
+    const { body } = emlParts(toEml(draft({ body: text })));
+
+    expect(body.length).toBeGreaterThan(2);
+    expect(body.slice(0, -1).every(line => line.length === 76)).toBe(true);
+    expect(body[body.length - 1].length).toBeLessThanOrEqual(76);
+    expect(decodeBase64(body.join(''))).toBe(text.replace(/\n/g, '\r\n'));
+  });
+
+  test('leaves the recipient empty without an address', () => {
+    const [to] = emlParts(toEml(draft({ recipient: { name: 'Alex Lee', title: 'U.S. Senator' } }))).headers;
+
+    expect(to).toBe('To: ');
+  });
+});
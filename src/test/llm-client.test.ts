@@ -0,0 +1,143 @@
+import { FixtureProvider, LlmClient, LlmError, LlmProvider, LlmRequest, LlmResponse } from '@/services/llm';
+
+type Step = string | LlmError | Error | 'hang';
+
+/**
+ * Answers each call with the next scripted step: content, a thrown error, or
+ * a request that never settles until it's aborted
+ */
+class ScriptedProvider implements LlmProvider {
+  readonly name = 'scripted';
+  readonly live = true;
+  calls: number[] = [];
+
+  constructor(private steps: Step[]) {}
+
+  async complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmResponse> {
+    this.calls.push(Date.now());
+    const step = this.steps[Math.min(this.calls.length - 1, this.steps.length - 1)];
+
+    if (step === 'hang') {
+      return new Promise((_, reject) => {
+        signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+      });
+    }
+    if (step instanceof Error) throw step;
+    return {
+      content: step,
+      model: 'scripted-1',
+      provider: this.name,
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }
+    };
+  }
+}
+
+const rateLimited = () => new LlmError('Too many requests', 'rate_limited', true, 429);
+const clarification = JSON.stringify({ suggestedQuestion: 'Do you mean - Public Transit?', possibleTopics: ['Public Transit'] });
+const request: LlmRequest = { messages: [{ role: 'user', content: 'hello' }] };
+
+const failure = (call: Promise<unknown>): Promise<LlmError> =>
+  call.then(() => { throw new Error('Expected the call to fail'); }, (error: LlmError) => error);
+
+describe('LLM client', () => {
+  test('retries retryable failures with a doubling delay', async () => {
+    const provider = new ScriptedProvider([rateLimited(), rateLimited(), 'done']);
+    const client = new LlmClient(provider, { maxRetries: 2, retryDelayMs: 20 });
+
+    expect((await client.complete(request)).content).toBe('done');
+    expect(provider.calls).toHaveLength(3);
+    expect(provider.calls[1] - provider.calls[0]).toBeGreaterThanOrEqual(15);
+    expect(provider.calls[2] - provider.calls[1]).toBeGreaterThanOrEqual(35);
+  });
+
+  test('gives up after the last retry and counts the failure', async () => {
+    const provider = new ScriptedProvider([rateLimited()]);
+    const client = new LlmClient(provider, { maxRetries: 1, retryDelayMs: 1 });
+
+    await expect(client.complete(request)).rejects.toThrow();
+    expect(provider.calls).toHaveLength(2);
+    expect(client.getUsage().failures).toBe(1);
+    expect(client.getUsage().requests).toBe(0);
+  });
+
+  test('does not retry errors marked as final', async () => {
+    const provider = new ScriptedProvider([new LlmError('Bad API key', 'not_configured', false, 401)]);
+    const client = new LlmClient(provider, { maxRetries: 3, retryDelayMs: 1 });
+
+    const error = await failure(client.complete(request));
+    expect(error).toBeInstanceOf(LlmError);
+    expect(error.code).toBe('not_configured');
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  test('wraps unknown provider errors as retryable', async () => {
+    const provider = new ScriptedProvider([new Error('socket hang up'), 'done']);
+    const client = new LlmClient(provider, { retryDelayMs: 1 });
+
+    expect((await client.complete(request)).content).toBe('done');
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  test('aborts requests that run past the timeout', async () => {
+    const provider = new ScriptedProvider(['hang']);
+    const client = new LlmClient(provider, { timeoutMs: 10, maxRetries: 1, retryDelayMs: 1 });
+
+    const error = await failure(client.complete(request));
+    expect(error.code).toBe('timeout');
+    expect(error.message).toBe('LLM request timed out after 10ms');
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  test('retries responses that are not JSON or do not match the schema', async () => {
+    const provider = new ScriptedProvider([
+      'Sure! Here you go',
+      JSON.stringify({ suggestedQuestion: 'Do you mean - Public Transit?' }),
+      clarification
+    ]);
+    const client = new LlmClient(provider, { retryDelayMs: 1 });
+
+    const parsed = await client.runJson<{ possibleTopics: string[] }>('clarify-priority', { input: 'more buses' });
+    expect(parsed.possibleTopics).toEqual(['Public Transit']);
+    expect(provider.calls).toHaveLength(3);
+
+    const failing = new LlmClient(new ScriptedProvider([JSON.stringify({ possibleTopics: 'Public Transit' })]), {
+      maxRetries: 0
+    });
+    const error = await failure(failing.runJson('clarify-priority', { input: 'more buses' }));
+    expect(error.code).toBe('invalid_output');
+    expect(error.details).toContain('$.suggestedQuestion is required');
+  });
+
+  test('adds up token usage overall and per prompt', async () => {
+    const client = new LlmClient(new ScriptedProvider([clarification]));
+    await client.runJson('clarify-priority', { input: 'more buses' });
+    await client.runJson('clarify-priority', { input: 'fewer potholes' });
+    await client.complete(request);
+
+    const usage = client.getUsage();
+    expect(usage.requests).toBe(3);
+    expect(usage.totalTokens).toBe(45);
+    expect(usage.byPrompt['clarify-priority']).toEqual({ promptTokens: 20, completionTokens: 10, totalTokens: 30, requests: 2 });
+    expect(usage.byPrompt.raw.requests).toBe(1);
+
+    client.resetUsage();
+    expect(client.getUsage().requests).toBe(0);
+  });
+
+  test('replays fixtures by prompt and variables, with a catch-all fallback', async () => {
+    const client = new LlmClient(new FixtureProvider([
+      { promptId: 'clarify-priority', variables: { input: 'more buses' }, response: JSON.parse(clarification) },
+      { promptId: 'clarify-priority', response: { suggestedQuestion: 'Can you say more?', possibleTopics: [] } }
+    ]), { maxRetries: 0 });
+
+    expect(client.isLive()).toBe(false);
+    expect((await client.runJson<{ suggestedQuestion: string }>('clarify-priority', { input: 'more buses' })).suggestedQuestion)
+      .toBe('Do you mean - Public Transit?');
+    expect((await client.runJson<{ suggestedQuestion: string }>('clarify-priority', { input: 'anything' })).suggestedQuestion)
+      .toBe('Can you say more?');
+
+    const error = await failure(client.runText('summarize-priorities', { priorities: ['more buses'] }));
+    expect(error.code).toBe('fixture_missing');
+    expect(client.getUsage().byPrompt['clarify-priority'].totalTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,62 @@
+import { PersonaMappingStrategy, setReviewedTerms, TerminologyMappingStrategy } from '@/services/mapping-engine';
+import { IssueTerm } from '@/types/terminology';
+
+const reviewedTerm = (term: string, changes: Partial<IssueTerm>): IssueTerm => ({
+  id: term,
+  term,
+  category: 'Housing',
+  synonyms: [],
+  mappedPolicies: [],
+  dateAdded: '2026-10-01T00:00:00.000Z',
+  status: 'approved',
+  ...changes
+});
+
+describe('Mapping engine', () => {
+  describe('persona strategy', () => {
+    const strategy = new PersonaMappingStrategy();
+
+    test('matches a curated priority, with or without extra words', async () => {
+      const exact = await strategy.map("Why can't the government agree on what we need to do to address climate change?");
+      expect(exact.length).toBeGreaterThan(0);
+      expect(exact[0].confidence).toBe(0.95);
+
+      const longer = await strategy.map(
+        "Honestly: why can't the government agree on what we need to do to address climate change? It's frustrating."
+      );
+      expect(longer.map(match => match.standardTerm)).toEqual(exact.map(match => match.standardTerm));
+    });
+
+    test('does not match short inputs that happen to appear in a curated sentence', async () => {
+      for (const input of ['the', 'I want', 'abortion', 'climate change']) {
+        expect(await strategy.map(input)).toEqual([]);
+      }
+    });
+  });
+
+  describe('terminology strategy with reviewed terms', () => {
+    const strategy = new TerminologyMappingStrategy();
+    const priority = 'landlord gouging is out of control';
+
+    test('uses terms merged into a terminology key and approved terms that name one', async () => {
+      expect(await strategy.map(priority)).toEqual([]);
+
+      setReviewedTerms([reviewedTerm('landlord gouging', { status: 'merged', mergedIntoTermKey: 'housing' })]);
+      const [merged] = await strategy.map(priority);
+      expect(merged.termKey).toBe('housing');
+      expect(merged.confidence).toBeGreaterThanOrEqual(0.8);
+
+      setReviewedTerms([reviewedTerm('slumlords', {
+        synonyms: ['landlord gouging'],
+        mappedPolicies: ['Housing Affordability and Homelessness Prevention']
+      })]);
+      expect((await strategy.map(priority)).map(match => match.termKey)).toEqual(['housing']);
+    });
+
+    test('ignores approved terms whose mapped policies name no terminology term', async () => {
+      setReviewedTerms([reviewedTerm('landlord gouging', { mappedPolicies: ['Rent Control'] })]);
+      expect(await strategy.map(priority)).toEqual([]);
+      setReviewedTerms([]);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  compareToBaseline,
+  engineTarget,
+  evaluateMapping,
+  loadGoldSet,
+  mappingBaseline,
+  parseCsv,
+  pipelineTarget,
+  strategyTarget,
+  termsMatch
+} from '@/services/evaluation';
+import { EvaluationBaseline, GoldExample } from '@/types/evaluation';
+import { MappingEngine } from '@/types/mapping-engine';
+import { MappedPriority } from '@/types/policy-mappings';
+
+const example = (priority: string, expectedTerms: string[], expectedCategories: string[] = []): GoldExample => ({
+  id: priority,
+  priority,
+  persona: 'Tester',
+  source: 'persona-csv',
+  expectedTerms,
+  expectedCategories
+});
+
+// Returns canned terms per priority, so scores don't depend on the mapper
+const fixedEngine = (terms: Record<string, string[]>): MappingEngine => ({
+  mapPriority: async (priority: string): Promise<MappedPriority> => ({
+    priority,
+    policyTerms: terms[priority] || [],
+    sentiment: 'neutral',
+    confidence: terms[priority]?.length ? 0.9 : 0,
+    needsClarification: false
+  }),
+  mapPriorities: async () => ({ mappedPriorities: [], conflicts: [] })
+});
+
+describe('Gold set', () => {
+  const goldSet = loadGoldSet();
+
+  test('reads quoted CSV fields with commas', () => {
+    const rows = parseCsv('Persona,Maps To\nSal,"Tech regulation, content moderation"\n');
+    expect(rows).toEqual([['Persona', 'Maps To'], ['Sal', 'Tech regulation, content moderation']]);
+  });
+
+  test('loads every persona CSV row once, without its curly quotes', () => {
+    const csvRows = goldSet.filter(item => item.source === 'persona-csv');
+    expect(csvRows).toHaveLength(30);
+    expect(csvRows[0].priority).toBe("I don't want to be labeled or canceled just for having questions.");
+    expect(csvRows[0].expectedTerms).toEqual(['Free expression / civil liberties']);
+  });
+
+  test('labels the autofill paraphrases from the CSV row they paraphrase', () => {
+    const paraphrase = goldSet.find(item => item.priority.includes('private jets'));
+    expect(paraphrase?.source).toBe('persona-paraphrase');
+    expect(paraphrase?.expectedTerms).toEqual(['Climate justice', 'carbon accountability']);
+    expect(paraphrase?.labelPriority).toBe('The planet is burning... but elites fly jets.');
+  });
+
+  test('gives category-only labels to the test personas', () => {
+    const education = goldSet.find(item => item.priority === 'Bilingual education programs');
+    expect(education?.expectedTerms).toEqual([]);
+    expect(education?.expectedCategories).toEqual(['Education']);
+  });
+});
+
+describe('Mapping evaluation', () => {
+  test('matches free-text labels to standard terms by shared content words', () => {
+    expect(termsMatch('Data Privacy Protections', 'Digital privacy')).toBe(true);
+    expect(termsMatch('LGBTQ+ Rights', 'LGBTQ+ rights')).toBe(true);
+    expect(termsMatch('Gun Rights', 'Climate justice')).toBe(false);
+  });
+
+  test('reports micro-averaged precision, recall and top-k', async () => {
+    const goldSet = [
+      example('privacy', ['Digital privacy', 'Surveillance reform'], ['Technology']),
+      example('climate', ['Climate justice'], ['Environment']),
+      example('unknown', ['Gun background checks'])
+    ];
+    const target = engineTarget('fixed', fixedEngine({
+      privacy: ['Data Privacy Protections', 'Tax Policy'],
+      climate: ['Tax Policy', 'Energy Costs', 'Climate Change and Environmental Policy']
+    }));
+
+    const report = await evaluateMapping(target, goldSet);
+
+    expect(report.overall.precision).toBeCloseTo(2 / 5);
+    expect(report.overall.recall).toBeCloseTo(2 / 4);
+    expect(report.overall.top1).toBeCloseTo(1 / 3);
+    expect(report.overall.top3).toBeCloseTo(2 / 3);
+    expect(report.overall.coverage).toBeCloseTo(2 / 3);
+    // "Tax Policy" comes first for climate, so it is categorized as Economy
+    expect(report.byCategory.Technology.categoryAccuracy).toBe(1);
+    expect(report.byCategory.Environment.categoryAccuracy).toBe(0);
+    expect(report.byCategory.Other.examples).toBe(1);
+  });
+
+  test('holds an example\'s own curated entry out of the persona lookup', async () => {
+    const [labeled] = loadGoldSet().filter(item => item.source === 'persona-csv');
+    const persona = { strategies: [{ name: 'persona' as const, enabled: true, weight: 1 }] };
+
+    const heldOut = await pipelineTarget('persona', persona).mapExample(labeled);
+    const included = await pipelineTarget('persona', persona, { holdOutPersonaLabels: false }).mapExample(labeled);
+
+    expect(heldOut.policyTerms).toEqual([]);
+    expect(included.policyTerms).toEqual(['Free expression / civil liberties']);
+  });
+
+  test('flags metrics that drop past the tolerance', async () => {
+    const goldSet = [example('privacy', ['Digital privacy'])];
+    const report = await evaluateMapping(engineTarget('fixed', fixedEngine({ privacy: ['Tax Policy'] })), goldSet);
+    const baseline: EvaluationBaseline = {
+      generatedAt: '2026-10-01T00:00:00.000Z',
+      targets: {
+        fixed: {
+          embedder: report.embedder,
+          overall: { ...report.overall, top1: 0.5, coverage: 0.9 },
+          byCategory: {},
+          byPersona: {}
+        }
+      }
+    };
+
+    const comparison = compareToBaseline(report, baseline);
+
+    expect(comparison.comparable).toBe(true);
+    expect(comparison.regressions.map(change => change.metric)).toEqual(['top1']);
+    expect(comparison.improvements.map(change => change.metric)).toEqual(['coverage']);
+    expect(compareToBaseline({ ...report, target: 'other' }, baseline).comparable).toBe(false);
+  });
+});
+
+describe('Stored baseline', () => {
+  // Rebuilds each target the baseline file lists, the same way it was recorded
+  const targets = [
+    pipelineTarget('pipeline'),
+    strategyTarget('persona'),
+    strategyTarget('terminology'),
+    strategyTarget('embedding')
+  ];
+
+  test('lists every target this suite checks', () => {
+    expect(Object.keys(mappingBaseline.targets).sort()).toEqual(targets.map(target => target.name).sort());
+  });
+
+  for (const target of targets) {
+    test(`${target.name} does not regress on the gold set`, async () => {
+      const comparison = compareToBaseline(await evaluateMapping(target, loadGoldSet()));
+
+      expect(comparison.reason).toBeUndefined();
+      expect(comparison.comparable).toBe(true);
+      expect(comparison.regressions).toEqual([]);
+    });
+  }
+});
@@ -0,0 +1,184 @@
+import { createAnalysisReplayer, InMemoryOfflineStore, mergeEditedDrafts, OfflineOutbox } from '@/services/offline';
+import { RecommendationsData } from '@/types/api';
+import { EmailDraft } from '@/types/email';
+import { OutboxItem, QueuedAnalysis } from '@/types/offline';
+
+const draft = (name: string, body: string, title = 'U.S. Senator'): EmailDraft => ({
+  recipient: { name, title },
+  subject: 'Regarding my priorities',
+  body,
+  category: 'aligned',
+  stance: 'supportive',
+  tone: 'formal',
+  length: 'standard'
+});
+
+const result = (changes: Partial<RecommendationsData> = {}): RecommendationsData => ({
+  mode: 'current',
+  zipCode: '78701',
+  region: 'Austin, TX',
+  analysis: { priorities: ['Affordable housing'], conflicts: [], mappedPriorities: [] },
+  recommendations: { emailDrafts: [] },
+  ...changes
+});
+
+const queued = (priorities: string[] = ['Affordable housing']): QueuedAnalysis => ({
+  values: { mode: 'current', zipCode: '78701', priorities, language: 'es' },
+  result: result({ freshness: { offline: true, fetchedAt: {} } }),
+  editedDrafts: []
+});
+
+const failing = async () => {
+  throw new Error('Still offline');
+};
+
+describe('Offline outbox', () => {
+  test('replays queued analyses oldest first and removes the ones that succeed', async () => {
+    const outbox = new OfflineOutbox(new InMemoryOfflineStore());
+    const first = await outbox.enqueueAnalysis(queued(['Housing']));
+    const second = await outbox.enqueueAnalysis(queued(['Schools']));
+    const seen: string[] = [];
+
+    const summary = await outbox.replay(async item => {
+      seen.push(item.id);
+      if (item.id === second.id) throw new Error('Analysis failed');
+    });
+
+    expect(seen).toEqual([first.id, second.id]);
+    expect(summary).toEqual({ replayed: 1, failed: 1 });
+    const [left] = await outbox.list();
+    expect(left).toMatchObject({ id: second.id, attempts: 1, lastError: 'Analysis failed' });
+    expect(left.stalled).toBeUndefined();
+  });
+
+  test('keeps items that keep failing but stops retrying them', async () => {
+    const outbox = new OfflineOutbox(new InMemoryOfflineStore());
+    const item = await outbox.enqueueAnalysis(queued());
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await outbox.replay(failing);
+    }
+    const [stalled] = await outbox.list();
+    expect(stalled).toMatchObject({ id: item.id, attempts: 5, stalled: true, lastError: 'Still offline' });
+
+    let calls = 0;
+    const summary = await outbox.replay(async () => {
+      calls++;
+    });
+    expect(calls).toBe(0);
+    expect(summary).toEqual({ replayed: 0, failed: 0 });
+    expect(await outbox.list()).toHaveLength(1);
+  });
+
+  test('retries or discards stalled items when asked', async () => {
+    const outbox = new OfflineOutbox(new InMemoryOfflineStore());
+    await outbox.enqueueAnalysis(queued());
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await outbox.replay(failing);
+    }
+
+    await outbox.retryStalled();
+    const [retried] = await outbox.list();
+    expect(retried).toMatchObject({ attempts: 0, stalled: false });
+    expect(await outbox.replay(async () => undefined)).toEqual({ replayed: 1, failed: 0 });
+
+    await outbox.enqueueAnalysis(queued());
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await outbox.replay(failing);
+    }
+    const fresh = await outbox.enqueueAnalysis(queued(['Schools']));
+    await outbox.discardStalled();
+    expect((await outbox.list()).map(item => item.id)).toEqual([fresh.id]);
+  });
+
+  test('shares one run between concurrent replays and notifies listeners', async () => {
+    const outbox = new OfflineOutbox(new InMemoryOfflineStore());
+    await outbox.enqueueAnalysis(queued());
+    let calls = 0;
+    let notified = 0;
+    outbox.subscribe(() => notified++);
+    const handler = async () => {
+      calls++;
+    };
+
+    const [a, b] = await Promise.all([outbox.replay(handler), outbox.replay(handler)]);
+
+    expect(calls).toBe(1);
+    expect(a).toEqual(b);
+    expect(notified).toBe(1);
+    expect(await outbox.list()).toEqual([]);
+  });
+
+  test('updates a queued analysis in place', async () => {
+    const outbox = new OfflineOutbox(new InMemoryOfflineStore());
+    const item = await outbox.enqueueAnalysis(queued());
+
+    await outbox.updateAnalysis(item.id, payload => ({ ...payload, editedDrafts: [draft('Jane Doe', 'My own words')] }));
+
+    const [updated] = await outbox.list();
+    expect(updated.payload.editedDrafts.map(edited => edited.body)).toEqual(['My own words']);
+  });
+});
+
+describe('Replaying offline analyses', () => {
+  test('keeps the voter\'s edits over fresh drafts to the same recipient', () => {
+    const fresh = [
+      { ...draft('Jane Doe', 'Fresh text'), recipient: { name: 'Jane Doe', title: 'U.S. Senator', email: 'jane@senate.test' } },
+      draft('John Roe', 'Fresh text for John', 'U.S. Representative')
+    ];
+    const edited = [draft('Jane Doe', 'My own words'), draft('Someone Else', 'Dropped', 'Mayor')];
+
+    const merged = mergeEditedDrafts(fresh, edited);
+
+    expect(merged.map(item => item.body)).toEqual(['My own words', 'Fresh text for John']);
+    // The recipient details are the fresh ones
+    expect(merged[0].recipient.email).toBe('jane@senate.test');
+  });
+
+  test('redoes the analysis with the queued values and records the merged result', async () => {
+    const analyzed: Array<QueuedAnalysis['values']> = [];
+    const recorded: RecommendationsData[] = [];
+    const replay = createAnalysisReplayer({
+      analyze: async values => {
+        analyzed.push(values);
+        return result({ recommendations: { emailDrafts: [draft('Jane Doe', 'Fresh text')] } });
+      },
+      record: async data => {
+        recorded.push(data);
+      }
+    });
+    const item: OutboxItem = {
+      id: 'queued-1',
+      kind: 'analysis',
+      payload: { ...queued(), editedDrafts: [draft('Jane Doe', 'My own words')] },
+      createdAt: '2026-10-18T12:00:00.000Z',
+      attempts: 0
+    };
+
+    await replay(item);
+
+    expect(analyzed).toEqual([{ mode: 'current', zipCode: '78701', priorities: ['Affordable housing'], language: 'es' }]);
+    expect(recorded).toHaveLength(1);
+    expect(recorded[0].recommendations.emailDrafts?.map(merged => merged.body)).toEqual(['My own words']);
+  });
+
+  test('fails while the fresh result still comes from saved data', async () => {
+    let recorded = 0;
+    const replay = createAnalysisReplayer({
+      analyze: async () => result({ freshness: { offline: true, fetchedAt: {} } }),
+      record: async () => {
+        recorded++;
+      }
+    });
+    const item: OutboxItem = {
+      id: 'queued-1',
+      kind: 'analysis',
+      payload: queued(),
+      createdAt: '2026-10-18T12:00:00.000Z',
+      attempts: 0
+    };
+
+    await expect(replay(item)).rejects.toThrow();
+    expect(recorded).toBe(0);
+  });
+});
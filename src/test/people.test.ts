@@ -0,0 +1,126 @@
+import {
+  CivicRepresentativesResponse,
+  displayNameFromFec,
+  FecCandidateRecord,
+  fromCivicRepresentatives,
+  fromFecCandidates,
+  mergeDatasets,
+  personNameKey
+} from '@/services/people';
+
+const CA = 'ocd-division/country:us/state:ca';
+const TX = 'ocd-division/country:us/state:tx';
+
+const fecRecord = (changes: Partial<FecCandidateRecord>): FecCandidateRecord => ({
+  candidate_id: 'H0CA11001',
+  name: 'PELLETIER, NANCY',
+  party: 'DEM',
+  office: 'H',
+  state: 'CA',
+  district: '11',
+  incumbent_challenge: 'I',
+  ...changes
+});
+
+const civicResponse = (officials: Array<{ name: string; office: CivicRepresentativesResponse['offices'][number] }>): CivicRepresentativesResponse => ({
+  offices: officials.map(({ office }, index) => ({ ...office, officialIndices: [index] })),
+  officials: officials.map(({ name }) => ({
+    name,
+    party: 'Democratic Party',
+    urls: ['https://example.gov'],
+    phones: ['(202) 555-0100']
+  }))
+});
+
+const houseSeat = (divisionId: string) => ({
+  name: 'U.S. Representative',
+  divisionId,
+  levels: ['country'],
+  roles: ['legislatorLowerBody'],
+  officialIndices: []
+});
+
+describe('People adapters', () => {
+  test('reads FEC candidates into people, offices and candidacies', () => {
+    const dataset = fromFecCandidates([
+      fecRecord({ candidate_url: 'https://pelletier.example' }),
+      fecRecord({ candidate_id: 'S6CA00001', name: "O'BRIEN, PAT JR.", party_full: 'REPUBLICAN PARTY', office: 'S', district: '00', incumbent_challenge: 'C' }),
+      fecRecord({ candidate_id: 'X1', office: 'X' })
+    ], 2026, { H0CA11001: ['Housing'] });
+
+    expect(dataset.people.map(person => person.id)).toEqual(['fec:H0CA11001', 'fec:S6CA00001']);
+    expect(dataset.people[1].name).toBe("Pat O'Brien Jr.");
+    expect(dataset.people[1].party?.id).toBe('REP');
+    expect(dataset.offices.map(office => office.id)).toEqual([`${CA}/cd:11#us_house`, `${CA}#us_senate`]);
+    expect(dataset.candidacies[0]).toMatchObject({
+      id: 'H0CA11001:2026',
+      status: 'incumbent',
+      platformHighlights: ['Housing']
+    });
+    expect(dataset.candidacies[1].status).toBe('challenger');
+  });
+
+  test('gives Civic federal seats the same office ids as FEC', () => {
+    const dataset = fromCivicRepresentatives(civicResponse([{ name: 'Nancy Pelletier', office: houseSeat(`${CA}/cd:11`) }]));
+
+    expect(dataset.offices[0].id).toBe(`${CA}/cd:11#us_house`);
+    expect(dataset.people[0].id).toBe('civic:country:us/state:ca/cd:11:nancy_pelletier');
+    expect(dataset.people[0].channels.map(channel => channel.type)).toEqual(['website', 'phone']);
+    expect(dataset.terms).toEqual([{ personId: dataset.people[0].id, officeId: `${CA}/cd:11#us_house` }]);
+  });
+
+  test('normalizes names from both sources to the same key', () => {
+    expect(displayNameFromFec('SMITH, JOHN A.')).toBe('John A. Smith');
+    expect(personNameKey('SMITH, JOHN A. JR.')).toBe('john smith');
+    expect(personNameKey('Rep. John Smith')).toBe('john smith');
+  });
+});
+
+describe('mergeDatasets', () => {
+  test('folds a Civic officeholder into the FEC candidate for the same office', () => {
+    const merged = mergeDatasets(
+      fromCivicRepresentatives(civicResponse([{ name: 'Nancy Pelletier', office: houseSeat(`${CA}/cd:11`) }])),
+      fromFecCandidates([fecRecord({})], 2026)
+    );
+
+    expect(merged.people).toHaveLength(1);
+    const [person] = merged.people;
+    expect(person.id).toBe('fec:H0CA11001');
+    // Civic's display name wins
+    expect(person.name).toBe('Nancy Pelletier');
+    expect(person.sources).toEqual(['civic', 'fec']);
+    expect(person.externalIds.fec).toEqual(['H0CA11001']);
+    expect(merged.terms[0].personId).toBe('fec:H0CA11001');
+    expect(merged.candidacies[0].personId).toBe('fec:H0CA11001');
+  });
+
+  test('keeps people with the same name apart unless they share an office', () => {
+    const merged = mergeDatasets(fromFecCandidates([
+      fecRecord({ candidate_id: 'H6TX02001', name: 'SMITH, JOHN', state: 'TX', district: '2' }),
+      fecRecord({ candidate_id: 'H6TX07001', name: 'SMITH, JOHN', state: 'TX', district: '7' })
+    ], 2026));
+
+    expect(merged.people.map(person => person.id)).toEqual(['fec:H6TX02001', 'fec:H6TX07001']);
+    expect(merged.candidacies.map(candidacy => candidacy.personId)).toEqual(['fec:H6TX02001', 'fec:H6TX07001']);
+    expect(merged.offices.map(office => office.id)).toEqual([`${TX}/cd:2#us_house`, `${TX}/cd:7#us_house`]);
+  });
+
+  test('merges records that share an upstream id across cycles', () => {
+    const merged = mergeDatasets(
+      fromFecCandidates([fecRecord({ name: 'PELLETIER, NANCY' })], 2024),
+      fromFecCandidates([fecRecord({ name: 'PELLETIER-HART, NANCY' })], 2026)
+    );
+
+    expect(merged.people).toHaveLength(1);
+    expect(merged.candidacies.map(candidacy => candidacy.id)).toEqual(['H0CA11001:2024', 'H0CA11001:2026']);
+  });
+
+  test('does not duplicate terms or channels for a merged person', () => {
+    const civic = fromCivicRepresentatives(civicResponse([{ name: 'Nancy Pelletier', office: houseSeat(`${CA}/cd:11`) }]));
+    const merged = mergeDatasets(civic, civic);
+
+    expect(merged.people).toHaveLength(1);
+    expect(merged.people[0].channels).toHaveLength(2);
+    expect(merged.terms).toHaveLength(1);
+  });
+});
@@ -0,0 +1,196 @@
+import { PriorityLearningService, TerminologyReviewQueue } from '@/services/priority-learning-service';
+import { InMemoryLearningStore } from '@/services/learning-store';
+import { LearnedMappingStrategy } from '@/services/mapping-engine';
+import { ClarificationDialogue } from '@/services/clarification';
+import { AIClarificationService } from '@/services/ai-clarification';
+import { MappingEngine } from '@/types/mapping-engine';
+import { MappedPriority } from '@/types/policy-mappings';
+import { IssueTermStatus } from '@/types/terminology';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USER_ID = '6f1c2a4e-8d3b-4c5a-9e7f-0a1b2c3d4e5f';
+const housing = { id: 'housing_affordability', name: 'Housing Affordability and Homelessness Prevention' };
+
+class FakeReviewQueue implements TerminologyReviewQueue {
+  submitted: string[] = [];
+  statuses: Record<string, IssueTermStatus> = {};
+
+  addPendingTerm(term: string): boolean {
+    this.submitted.push(term);
+    this.statuses[term.toLowerCase()] = 'pending';
+    return true;
+  }
+
+  async getTermStatuses(terms: string[]): Promise<Record<string, IssueTermStatus>> {
+    return Object.fromEntries(terms
+      .map(term => term.toLowerCase())
+      .filter(term => this.statuses[term])
+      .map(term => [term, this.statuses[term]]));
+  }
+}
+
+function setup(userId: string | null = USER_ID) {
+  let now = new Date('2026-10-01T00:00:00.000Z');
+  const store = new InMemoryLearningStore();
+  const reviewQueue = new FakeReviewQueue();
+  const service = new PriorityLearningService({
+    store,
+    userId,
+    reviewQueue,
+    now: () => now
+  });
+  const advanceDays = (days: number) => { now = new Date(now.getTime() + days * DAY_MS); };
+  return { store, reviewQueue, service, advanceDays };
+}
+
+describe('Priority learning', () => {
+  test('learns a clarification and reinforces it when confirmed again', async () => {
+    const { service } = setup();
+
+    const first = await service.learnFromClarification('rent is too high', 'housing costs', housing);
+    expect(first.confidence).toBeCloseTo(0.6);
+    expect(first.userId).toBe(USER_ID);
+
+    const second = await service.learnFromClarification('Rent is too high', 'housing costs', housing);
+    expect(second.id).toBe(first.id);
+    expect(second.usageCount).toBe(2);
+    expect(second.confidence).toBeCloseTo(0.7);
+  });
+
+  test('keeps mappings learned before sign-in on the device, with no user id', async () => {
+    const { store, service } = setup(null);
+
+    const mapping = await service.learnFromClarification('rent is too high', 'housing costs', housing);
+    expect(mapping.userId).toBeUndefined();
+    expect(await service.findMatches('rent is too high')).toHaveLength(1);
+
+    // Another voter signing in on this device doesn't see them
+    service.setUserId(USER_ID);
+    expect(await service.findMatches('rent is too high')).toEqual([]);
+    expect(await store.list({ scope: 'user', userId: null })).toHaveLength(1);
+  });
+
+  test('finds exact and similar priorities, and decays unused mappings', async () => {
+    const { service, advanceDays } = setup();
+    await service.learnFromClarification('rent is too high in my city', 'housing costs', housing);
+
+    const [exact] = await service.findMatches('rent is too high in my city');
+    expect(exact.similarity).toBe(1);
+    expect(exact.confidence).toBeCloseTo(0.6);
+
+    const [similar] = await service.findMatches('the rent is too high in my city');
+    expect(similar.confidence).toBeLessThan(exact.confidence);
+    expect(await service.findMatches('lower taxes')).toEqual([]);
+
+    // One half-life later the mapping counts for half as much
+    advanceDays(30);
+    const [decayed] = await service.findMatches('rent is too high in my city');
+    expect(decayed.confidence).toBeCloseTo(0.3);
+
+    advanceDays(30);
+    expect(await service.findMatches('rent is too high in my city')).toEqual([]);
+    expect(await service.pruneStale()).toBe(1);
+  });
+
+  test('applies global mappings to every user but user mappings only to their owner', async () => {
+    const { store, service } = setup();
+    await service.learnFromClarification('rent is too high', 'housing costs', housing);
+    await service.learnFromClarification('no place to live', 'housing costs', housing, 'global');
+
+    const other = new PriorityLearningService({ store, userId: '0b9e8d7c-6a5b-4c3d-2e1f-a0b1c2d3e4f5' });
+    expect(await other.findMatches('rent is too high')).toEqual([]);
+    expect(await other.findMatches('no place to live')).toHaveLength(1);
+  });
+
+  test('re-owns imported user mappings and merges ones that already exist', async () => {
+    const source = setup();
+    await source.service.learnFromClarification('rent is too high', 'housing costs', housing);
+    await source.service.learnFromClarification('rent is too high', 'housing costs', housing);
+    const exported = await source.service.exportMappings();
+
+    const target = setup('0b9e8d7c-6a5b-4c3d-2e1f-a0b1c2d3e4f5');
+    await target.service.learnFromClarification('rent is too high', 'housing costs', housing);
+    expect(await target.service.importMappings(exported)).toBe(1);
+
+    const [mapping] = await target.store.list();
+    expect(mapping.userId).toBe('0b9e8d7c-6a5b-4c3d-2e1f-a0b1c2d3e4f5');
+    expect(mapping.usageCount).toBe(2);
+    expect(mapping.confidence).toBeCloseTo(0.7);
+
+    await expect(target.service.importMappings({ version: 2 } as never)).rejects.toThrow();
+  });
+
+  test('sends well-confirmed mappings for review and records the decision', async () => {
+    const { reviewQueue, service, store } = setup();
+    for (let i = 0; i < 3; i++) {
+      await service.learnFromClarification('rent is too high', 'housing costs', housing);
+    }
+    await service.learnFromClarification('bus fares', 'public transit', { id: 'transit', name: 'Public Transit' });
+    for (let i = 0; i < 3; i++) {
+      await service.learnFromClarification('no place to live', 'housing costs', housing);
+    }
+
+    // Not decided yet
+    expect(await service.syncWithReviewQueue()).toBe(0);
+    expect(reviewQueue.submitted).toEqual(['rent is too high', 'no place to live']);
+    expect((await store.list({ status: 'pending_review' })).length).toBe(2);
+
+    reviewQueue.statuses['rent is too high'] = 'merged';
+    reviewQueue.statuses['no place to live'] = 'rejected';
+    expect(await service.syncWithReviewQueue()).toBe(2);
+
+    const statuses = (await store.list()).map(mapping => [mapping.originalTerm, mapping.status]);
+    expect(statuses).toContainEqual(['rent is too high', 'promoted']);
+    expect(statuses).toContainEqual(['no place to live', 'rejected']);
+    expect(statuses).toContainEqual(['bus fares', 'active']);
+
+    // Rejected mappings no longer apply
+    expect(await service.findMatches('no place to live')).toEqual([]);
+  });
+
+  test('the learned strategy turns learned mappings into engine matches', async () => {
+    const { service } = setup();
+    await service.learnFromClarification('rent is too high', 'housing costs', housing);
+
+    const [match] = await new LearnedMappingStrategy(service).map('rent is too high');
+    expect(match.standardTerm).toBe(housing.name);
+    expect(match.termKey).toBe(housing.id);
+    expect(match.confidence).toBeCloseTo(0.6);
+  });
+
+  test('records the interpretation a voter chooses in a clarification', async () => {
+    const { service } = setup();
+    const unclear: MappedPriority = {
+      priority: 'rent is too high',
+      policyTerms: [],
+      sentiment: 'neutral',
+      confidence: 0,
+      needsClarification: true,
+      matches: []
+    };
+    const engine: MappingEngine = {
+      mapPriority: async () => unclear,
+      mapPriorities: async () => ({ mappedPriorities: [unclear], conflicts: [] })
+    };
+    const dialogue = new ClarificationDialogue(
+      engine,
+      new AIClarificationService(),
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      service
+    );
+    const turn = {
+      question: 'What did you mean by "rent is too high"?',
+      interpretations: [{ standardTerm: housing.name, confidence: 0.5, source: 'engine' as const, termKey: housing.id }],
+      askedAt: '2026-10-01T00:00:00.000Z'
+    };
+
+    await dialogue.answer(unclear, turn, { kind: 'interpretation', standardTerm: housing.name });
+
+    const [learned] = await service.findMatches('rent is too high');
+    expect(learned.mapping.issueId).toBe(housing.id);
+    expect(learned.mapping.clarifiedTerm).toBe(housing.name);
+  });
+});
@@ -1,59 +1,48 @@
-import { PriorityMappingService } from '@/services/priority-mapping-service';
+import { mappingEngine } from '@/services/mapping-engine';
 import { TEST_PERSONAS } from './personas';
-import { PoliticalCategory } from '@/types/priority-mapping';
 
+// Category coverage over these personas is tracked by the mapping evaluation
+// harness; these tests check that every caller gets the same canonical shape
 describe('Priority Mapping Tests', () => {
-  const mapper = new PriorityMappingService();
-
   TEST_PERSONAS.forEach(persona => {
     describe(`Persona: ${persona.description}`, () => {
-      const analysis = mapper.analyzePriorities(persona.values.priorities);
-
-      test('maps to expected categories', () => {
-        const foundCategories = analysis.dominantCategories;
-        persona.expectedCategories.forEach(expected => {
-          expect(foundCategories).toContain(expected as PoliticalCategory);
-        });
+      test('returns one canonical mapped priority per priority', async () => {
+        const analysis = await mappingEngine.mapPriorities(persona.values.priorities);
+        expect(analysis.mappedPriorities.map(mapped => mapped.priority)).toEqual(persona.values.priorities);
       });
 
-      test('has reasonable confidence scores', () => {
+      test('ranks matches best first with confidences in range', async () => {
+        const analysis = await mappingEngine.mapPriorities(persona.values.priorities);
         analysis.mappedPriorities.forEach(mapped => {
-          // Each priority should map to at least one issue
-          expect(mapped.mappedIssues.length).toBeGreaterThan(0);
-          
-          // Top match should have reasonable confidence
-          const topMatch = mapped.mappedIssues[0];
-          expect(topMatch.confidence).toBeGreaterThan(0.3);
+          const confidences = (mapped.matches || []).map(match => match.confidence);
+          expect(confidences).toEqual([...confidences].sort((a, b) => b - a));
+          expect(confidences.every(confidence => confidence > 0 && confidence <= 1)).toBe(true);
+          expect(mapped.policyTerms).toEqual((mapped.matches || []).map(match => match.standardTerm));
+          expect(mapped.confidence).toBe(confidences[0] || 0);
         });
       });
 
-      test('identifies relevant terms', () => {
+      test('asks for clarification below the confidence threshold', async () => {
+        const analysis = await mappingEngine.mapPriorities(persona.values.priorities);
         analysis.mappedPriorities.forEach(mapped => {
-          // Each mapping should have some matched terms
-          const hasMatchedTerms = mapped.mappedIssues.some(
-            mi => mi.matchedTerms.length > 0
-          );
-          expect(hasMatchedTerms).toBe(true);
+          expect(mapped.needsClarification).toBe(mapped.confidence < 0.8);
+          if (mapped.needsClarification) expect(mapped.clarificationReason).toBeTruthy();
         });
       });
     });
   });
 
-  test('handles nuanced policy positions', () => {
-    const nuancedPriorities = [
+  test('handles nuanced policy positions', async () => {
+    const analysis = await mappingEngine.mapPriorities([
       'fair hiring practices',
       'affirmative action in education',
-      'merit-based employment',
-      'workplace diversity initiatives'
-    ];
-
-    const analysis = mapper.analyzePriorities(nuancedPriorities);
-    
-    // Should identify both employment and equity aspects
-    expect(analysis.dominantCategories).toContain('ECONOMY');
-    expect(analysis.dominantCategories).toContain('SOCIAL_SERVICES');
-
-    // Should find potential conflicts
-    expect(analysis.potentialConflicts.length).toBeGreaterThan(0);
+      'merit-based employment'
+    ]);
+    const [fairHiring, affirmativeAction, meritBased] = analysis.mappedPriorities.map(mapped => mapped.policyTerms);
+
+    // Fair hiring and merit-based hiring are different positions from affirmative action
+    expect(fairHiring).toContain('Equal Opportunity Employment');
+    expect(affirmativeAction).toContain('Affirmative Action in Admissions');
+    expect(meritBased).toContain('Opposition to Race and Gender-Based Hiring Policies');
   });
 });
@@ -0,0 +1,231 @@
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  decryptPushPayload,
+  encryptPushPayload,
+  generateVapidKeys,
+  planReminders,
+  ReminderCalendar,
+  ReminderSubscriber,
+  sendWebPush,
+  vapidAuthorization,
+  verifyVapidAuthorization,
+  WebPushSubscription
+} from '@/services/reminders';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const calendar: ReminderCalendar = {
+  elections: [
+    { id: 'us-general-2024', name: '2024 General Election', date: '2024-11-05' },
+    { id: 'us-general-2026', name: '2026 General Election', date: '2026-11-03' }
+  ],
+  rules: {
+    TX: { registrationDaysBefore: 30, mailBallotRequestDaysBefore: 11, earlyVotingDaysBefore: 17 },
+    CA: { registrationDaysBefore: 15, sameDayRegistration: true }
+  },
+  measures: [
+    { id: 'TX:1', state: 'TX', title: 'Proposition 1', firstSeenAt: '2026-09-01T00:00:00.000Z' },
+    { id: 'TX:2', state: 'TX', title: 'Proposition 2', url: 'https://example.test/prop-2', firstSeenAt: '2026-10-10T00:00:00.000Z' },
+    { id: 'TX:3', state: 'TX', title: 'Proposition 3', firstSeenAt: '2026-10-12T00:00:00.000Z' },
+    { id: 'CA:1', state: 'CA', title: 'Proposition 50', firstSeenAt: '2026-10-12T00:00:00.000Z' }
+  ]
+};
+
+const subscriber = (changes: Partial<ReminderSubscriber> = {}): ReminderSubscriber => ({
+  id: 'subscription-1',
+  zipCode: '78701',
+  state: 'TX',
+  categories: ['deadlines', 'early_voting', 'election_day'],
+  createdAt: '2026-10-01T00:00:00.000Z',
+  ...changes
+});
+
+const keysFor = (planned: ReturnType<typeof planReminders>) => planned.flatMap(reminder => reminder.keys);
+
+async function testSubscription(): Promise<{ subscription: WebPushSubscription; privateKey: CryptoKey }> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  return {
+    privateKey: pair.privateKey,
+    subscription: {
+      endpoint: 'https://push.example.test/send/abc123',
+      keys: {
+        p256dh: base64UrlEncode(new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey))),
+        auth: base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)))
+      }
+    }
+  };
+}
+
+describe('Reminder schedule', () => {
+  test('plans each deadline that reaches a lead time today', () => {
+    const planned = planReminders(subscriber(), calendar, '2026-10-16');
+
+    // Registration closed on October 4th and election day is weeks away
+    expect(keysFor(planned)).toEqual(['us-general-2026:mail_ballot_request:7', 'us-general-2026:early_voting:1']);
+    expect(planned[0].payload).toMatchObject({
+      title: 'Mail ballot request deadline in 7 days',
+      tag: 'us-general-2026:mail_ballot_request'
+    });
+    expect(planned[0].payload.body).toMatch(/2026 General Election is Tuesday, November 3/);
+    expect(planned[1].payload.title).toBe('Early voting starts tomorrow');
+  });
+
+  test('uses only the nearest lead time', () => {
+    expect(keysFor(planReminders(subscriber(), calendar, '2026-10-22'))).toEqual(['us-general-2026:mail_ballot_request:1']);
+    expect(keysFor(planReminders(subscriber(), calendar, '2026-10-20'))).toEqual(['us-general-2026:mail_ballot_request:7']);
+  });
+
+  test('skips reminders already sent', () => {
+    const sent = new Set(['us-general-2026:mail_ballot_request:7']);
+
+    expect(keysFor(planReminders(subscriber(), calendar, '2026-10-16', sent))).toEqual(['us-general-2026:early_voting:1']);
+  });
+
+  test('sends election day reminders the day before and on the day', () => {
+    const voter = subscriber({ categories: ['election_day'] });
+
+    expect(planReminders(voter, calendar, '2026-11-02').map(reminder => [reminder.keys[0], reminder.payload.title])).toEqual([
+      ['us-general-2026:election_day:1', 'Election day is tomorrow']
+    ]);
+    expect(planReminders(voter, calendar, '2026-11-03').map(reminder => [reminder.keys[0], reminder.payload.title])).toEqual([
+      ['us-general-2026:election_day:0', 'Election day is today']
+    ]);
+    expect(planReminders(voter, calendar, '2026-11-04')).toEqual([]);
+  });
+
+  test('leaves out categories the voter did not pick', () => {
+    const voter = subscriber({ categories: ['early_voting'] });
+
+    expect(keysFor(planReminders(voter, calendar, '2026-10-16'))).toEqual(['us-general-2026:early_voting:1']);
+  });
+
+  test('plans only election day without state deadlines', () => {
+    const voter = subscriber({ state: undefined, categories: ['deadlines', 'election_day'] });
+
+    expect(keysFor(planReminders(voter, calendar, '2026-10-16'))).toEqual([]);
+    expect(keysFor(planReminders(voter, calendar, '2026-11-02'))).toEqual(['us-general-2026:election_day:1']);
+  });
+
+  test('tells voters with same-day registration to register in advance', () => {
+    const voter = subscriber({ zipCode: '94103', state: 'CA', categories: ['deadlines'] });
+    const [reminder] = planReminders(voter, calendar, '2026-10-18');
+
+    expect(reminder.keys).toEqual(['us-general-2026:registration:1']);
+    expect(reminder.payload.title).toBe('Register in advance tomorrow');
+    expect(reminder.payload.body).toMatch(/register at the polls/);
+  });
+
+  test('groups measures in the voter\'s state published since they subscribed', () => {
+    const voter = subscriber({ categories: ['new_measures'] });
+    const planned = planReminders(voter, calendar, '2026-10-16');
+
+    expect(planned).toHaveLength(1);
+    expect(planned[0].keys).toEqual(['measure:TX:2', 'measure:TX:3']);
+    expect(planned[0].payload).toEqual({
+      title: '2 new ballot measures published',
+      body: 'Proposition 2; Proposition 3.',
+      url: '/',
+      tag: 'new-measures'
+    });
+
+    const [single] = planReminders(voter, calendar, '2026-10-16', new Set(['measure:TX:3']));
+    expect(single.payload).toMatchObject({ title: 'New ballot measure published', url: 'https://example.test/prop-2' });
+  });
+});
+
+describe('Web Push encryption', () => {
+  test('decrypts what it encrypts for a subscription', async () => {
+    const { subscription, privateKey } = await testSubscription();
+    const message = JSON.stringify({ title: 'Early voting starts tomorrow', body: 'Find an early voting location near you.' });
+
+    const body = await encryptPushPayload(encoder.encode(message), subscription);
+
+    // aes128gcm header: 16-byte salt, 4096-byte record size, then the 65-byte sender key
+    expect(new DataView(body.buffer, body.byteOffset).getUint32(16)).toBe(4096);
+    expect(body[20]).toBe(65);
+    expect(decoder.decode(await decryptPushPayload(body, privateKey, subscription))).toBe(message);
+  });
+
+  test('uses a new key and salt for every message', async () => {
+    const { subscription } = await testSubscription();
+    const first = await encryptPushPayload(encoder.encode('same'), subscription);
+    const second = await encryptPushPayload(encoder.encode('same'), subscription);
+
+    expect(base64UrlEncode(first)).not.toBe(base64UrlEncode(second));
+  });
+
+  test('cannot be read with another subscription\'s auth secret', async () => {
+    const { subscription, privateKey } = await testSubscription();
+    const body = await encryptPushPayload(encoder.encode('secret'), subscription);
+    const otherAuth = { ...subscription, keys: { ...subscription.keys, auth: base64UrlEncode(new Uint8Array(16)) } };
+
+    await expect(decryptPushPayload(body, privateKey, otherAuth)).rejects.toThrow();
+  });
+
+  test('refuses payloads larger than one record', async () => {
+    const { subscription } = await testSubscription();
+
+    await expect(encryptPushPayload(new Uint8Array(4080), subscription)).rejects.toThrow();
+  });
+});
+
+describe('VAPID', () => {
+  const NOW = Date.parse('2026-10-16T12:00:00.000Z');
+
+  test('signs a token the public key verifies', async () => {
+    const keys = await generateVapidKeys();
+    const vapid = { ...keys, subject: 'mailto:reminders@example.test' };
+
+    const authorization = await vapidAuthorization('https://push.example.test/send/abc123', vapid, NOW);
+
+    expect(authorization).toMatch(new RegExp(`^vapid t=[\\w-]+\\.[\\w-]+\\.[\\w-]+, k=${keys.publicKey}$`));
+    expect(await verifyVapidAuthorization(authorization, keys.publicKey)).toBe(true);
+
+    const claims = JSON.parse(decoder.decode(base64UrlDecode(authorization.split('.')[1])));
+    expect(claims).toEqual({
+      aud: 'https://push.example.test',
+      exp: NOW / 1000 + 12 * 60 * 60,
+      sub: 'mailto:reminders@example.test'
+    });
+  });
+
+  test('rejects tokens signed by another key or with changed claims', async () => {
+    const vapid = { ...(await generateVapidKeys()), subject: 'mailto:reminders@example.test' };
+    const other = await generateVapidKeys();
+    const authorization = await vapidAuthorization('https://push.example.test/send/abc123', vapid, NOW);
+
+    // The header names its key, so a different one fails before the signature is checked
+    expect(await verifyVapidAuthorization(authorization, other.publicKey)).toBe(false);
+    const forged = authorization.replace(`k=${vapid.publicKey}`, `k=${other.publicKey}`);
+    expect(await verifyVapidAuthorization(forged, other.publicKey)).toBe(false);
+
+    const [token] = authorization.slice('vapid t='.length).split(',');
+    const [header, , signature] = token.split('.');
+    const claims = base64UrlEncode(encoder.encode(JSON.stringify({ aud: 'https://evil.example.test', exp: NOW / 1000, sub: vapid.subject })));
+    expect(await verifyVapidAuthorization(authorization.replace(token, `${header}.${claims}.${signature}`), vapid.publicKey)).toBe(false);
+  });
+
+  test('sends an encrypted, signed push and reports gone subscriptions', async () => {
+    const { subscription, privateKey } = await testSubscription();
+    const vapid = { ...(await generateVapidKeys()), subject: 'mailto:reminders@example.test' };
+    const payload = { title: 'Election day is tomorrow', body: 'Check your polling place.', url: '/', tag: 'us-general-2026:election_day' };
+    const requests: Array<{ url: string; init: RequestInit }> = [];
+    const fetcher = (status: number) => (async (url: string, init: RequestInit) => {
+      requests.push({ url, init });
+      return new Response(null, { status });
+    }) as unknown as typeof fetch;
+
+    expect(await sendWebPush(subscription, payload, vapid, { fetcher: fetcher(201) })).toEqual({ status: 201, ok: true, expired: false });
+    expect(await sendWebPush(subscription, payload, vapid, { fetcher: fetcher(410) })).toEqual({ status: 410, ok: false, expired: true });
+
+    const [{ url, init }] = requests;
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe(subscription.endpoint);
+    expect(headers['Content-Encoding']).toBe('aes128gcm');
+    expect(headers.TTL).toBe(String(24 * 60 * 60));
+    expect(await verifyVapidAuthorization(headers.Authorization, vapid.publicKey)).toBe(true);
+    expect(JSON.parse(decoder.decode(await decryptPushPayload(init.body as Uint8Array, privateKey, subscription)))).toEqual(payload);
+  });
+});
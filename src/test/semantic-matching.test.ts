@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  EmbeddingMappingStrategy,
+  HashingEmbedder,
+  calibrateSimilarity,
+  MINILM_CALIBRATION
+} from '@/services/mapping-engine';
+import { TransformersEmbedder } from '@/services/mapping-engine/embedders/transformers-embedder';
+
+// Same folder the browser loads the model from; `npm run fetch-model` fills it
+const LOCAL_MODEL_PATH = path.resolve(__dirname, '../../public/models');
+const hasLocalModel = fs.existsSync(path.join(LOCAL_MODEL_PATH, 'Xenova/all-MiniLM-L6-v2/onnx/model_quantized.onnx'));
+// Set this after `npm run fetch-model` so the paraphrase cases fail rather than quietly skip
+const requireLocalModel = process.env.REQUIRE_LOCAL_MODEL === '1';
+
+describe('Similarity calibration', () => {
+  test('maps the midpoint to 50% confidence', () => {
+    expect(calibrateSimilarity(MINILM_CALIBRATION.midpoint, MINILM_CALIBRATION)).toBeCloseTo(0.5);
+  });
+
+  test('is monotonic and bounded', () => {
+    const scores = [0, 0.2, 0.4, 0.6, 0.8, 1].map(s => calibrateSimilarity(s, MINILM_CALIBRATION));
+    scores.slice(1).forEach((score, i) => expect(score).toBeGreaterThan(scores[i]));
+    expect(scores[0]).toBeGreaterThanOrEqual(0);
+    expect(scores[scores.length - 1]).toBeLessThanOrEqual(1);
+  });
+
+  test('passes similarity through when uncalibrated', () => {
+    expect(calibrateSimilarity(0.42)).toBe(0.42);
+    expect(calibrateSimilarity(-0.2)).toBe(0);
+  });
+});
+
+describe('Embedding strategy (hashing embedder)', () => {
+  const strategy = new EmbeddingMappingStrategy(new HashingEmbedder());
+
+  test('ranks every terminology entry', async () => {
+    const ranked = await strategy.rank('rent is insane');
+    expect(ranked.length).toBeGreaterThan(1);
+    expect(ranked[0].termKey).toBe('housing');
+  });
+
+  test('returns nothing for empty input', async () => {
+    expect(await strategy.map('   ')).toEqual([]);
+  });
+});
+
+describe('Local sentence model files', () => {
+  (requireLocalModel ? test : test.skip)('are present when REQUIRE_LOCAL_MODEL is set', () => {
+    expect(hasLocalModel).toBe(true);
+  });
+});
+
+(hasLocalModel || requireLocalModel ? describe : describe.skip)('Embedding strategy (local sentence model)', () => {
+  const strategy = new EmbeddingMappingStrategy(new TransformersEmbedder({ localModelPath: LOCAL_MODEL_PATH }));
+
+  // Paraphrases that share no words with the terms' phrases
+  test.each([
+    ['rent is insane', 'housing'],
+    ['nobody can afford groceries anymore', 'economy'],
+    ['the planet is burning up', 'climate'],
+    ['my kids\' school is falling apart', 'education'],
+    ['I can\'t pay for my insulin', 'healthcare']
+  ])('maps "%s" to %s', async (priority, termKey) => {
+    const matches = await strategy.map(priority);
+    expect(matches[0]?.termKey).toBe(termKey);
+    expect(matches[0].confidence).toBeGreaterThan(0.5);
+  }, 60000);
+
+  test('keeps unrelated text below the match threshold', async () => {
+    const matches = await strategy.map('my favourite colour is blue');
+    matches.forEach(match => expect(match.confidence).toBeLessThan(0.8));
+  }, 60000);
+});
@@ -0,0 +1,104 @@
+import { mappingEngine } from '@/services/mapping-engine';
+import { redactRecommendations } from '@/services/snapshots';
+import { Candidate, RecommendationsData } from '@/types/api';
+
+const PRIORITY = 'Protect LGBTQ+ rights, but I do not want trans women in my locker room';
+
+async function recommendationsFor(priority: string): Promise<RecommendationsData> {
+  const mapped = await mappingEngine.mapPriority(priority);
+  const terms = mapped.policyTerms.join(', ');
+  return {
+    mode: 'demo',
+    zipCode: '78701',
+    region: 'Austin, TX',
+    analysis: {
+      priorities: [priority],
+      conflicts: [{ priority1: priority, priority2: '', reason: `"${mapped.clauses?.[1]?.text}" pulls against ${terms}` }],
+      mappedPriorities: [{ ...mapped, original: priority }]
+    },
+    recommendations: {
+      candidates: [{
+        name: 'Nancy Pelletier',
+        party: 'Democratic',
+        alignment: '⚠️',
+        platformHighlights: [],
+        rationale: `Matches "${priority}"`,
+        officialWebsite: 'https://pelletier.example'
+      }]
+    }
+  };
+}
+
+describe('Snapshot redaction', () => {
+  test('keeps none of the voter\'s words in a terms-only snapshot', async () => {
+    const data = await recommendationsFor(PRIORITY);
+    const [mapped] = data.analysis.mappedPriorities;
+    // Without clauses and tensions this test wouldn't cover them
+    expect(mapped.clauses?.length).toBeGreaterThan(1);
+    expect(mapped.tensions?.length).toBeGreaterThan(0);
+
+    const redacted = redactRecommendations(data, 'terms_only');
+    const published = JSON.stringify(redacted).toLowerCase();
+
+    for (const words of ['protect lgbtq', 'trans women', 'locker room', 'do not want']) {
+      expect(published.includes(words)).toBe(false);
+    }
+    const [shared] = redacted.analysis.mappedPriorities;
+    expect(shared.original).toBe('Priority 1');
+    expect(shared.policyTerms).toEqual(mapped.policyTerms);
+    expect(shared.clauses?.map(clause => clause.text)).toEqual(['Priority 1, part 1', 'Priority 1, part 2']);
+    expect(shared.clauses?.map(clause => clause.policyTerms)).toEqual(mapped.clauses?.map(clause => clause.policyTerms));
+    expect(shared.tensions?.[0].terms).toEqual(mapped.tensions?.[0].terms);
+    expect(redacted.recommendations.candidates?.[0].rationale).toBe('Matches "Priority 1"');
+  });
+
+  test('drops unlisted recommendation fields and scrubs clarification answers', async () => {
+    const data = await recommendationsFor(PRIORITY);
+    const answer = "I can't afford my apartment on Mission St";
+    const rationale = `Housing comes from your answer "${answer}".`;
+    const official: Candidate = {
+      name: 'Ana Ruiz',
+      party: 'Democratic',
+      alignment: '✅',
+      platformHighlights: [],
+      rationale,
+      officialWebsite: 'https://ruiz.example'
+    };
+    // PrioritiesApiService stores officials under keys the Recommendations type doesn't name
+    const recommendations = { ...data.recommendations, candidates: [official], localOffices: { 'City Council': [official] } };
+    const mapped = {
+      ...data.analysis.mappedPriorities[0],
+      clarification: {
+        status: 'open' as const,
+        turns: [{
+          question: 'What did you mean?',
+          interpretations: [],
+          askedAt: '2026-10-01T12:00:00.000Z',
+          answer: { kind: 'free-text' as const, text: answer, answeredAt: '2026-10-01T12:01:00.000Z' }
+        }]
+      }
+    };
+
+    const redacted = redactRecommendations({
+      ...data,
+      analysis: { ...data.analysis, mappedPriorities: [mapped] },
+      recommendations
+    }, 'terms_only');
+
+    expect(JSON.stringify(redacted).toLowerCase().includes('mission st')).toBe(false);
+    expect(redacted.recommendations.candidates?.[0].rationale).toBe('Housing comes from your answer "an answer about Priority 1".');
+    expect('localOffices' in redacted.recommendations).toBe(false);
+  });
+
+  test('keeps the priorities but not the street address in a full snapshot', async () => {
+    const data = await recommendationsFor(PRIORITY);
+    const redacted = redactRecommendations({
+      ...data,
+      districts: { zipCode: '78701', address: '1100 Congress Ave', districts: [], ambiguous: [], source: 'address' }
+    }, 'full');
+
+    expect(redacted.analysis.priorities).toEqual([PRIORITY]);
+    expect(redacted.analysis.mappedPriorities[0].clauses).toEqual(data.analysis.mappedPriorities[0].clauses);
+    expect(redacted.districts?.address).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+import { createTranslator, detectLanguage, MessageKey, translate } from '@/services/i18n';
+import { en } from '@/services/i18n/messages/en';
+import { es } from '@/services/i18n/messages/es';
+import { DEFAULT_PIPELINE_CONFIG, PipelineMappingEngine, TerminologyMappingStrategy } from '@/services/mapping-engine';
+import { splitClauses, stanceDetector } from '@/services/stance';
+import { composeEmail } from '@/services/email';
+import { loadTerminology, localizeTerm, TerminologyPackage, TerminologyTerm, validateTerminology } from '@/services/terminology';
+import { MappingStrategy, MappingStrategyName } from '@/types/mapping-engine';
+
+const term = (standardTerm: string, plainLanguage: string[], spanish?: string[]): TerminologyTerm => ({
+  standardTerm,
+  plainEnglish: `I care about ${standardTerm.toLowerCase()}.`,
+  plainLanguage,
+  nuance: {},
+  ...(spanish ? { translations: { es: { label: standardTerm, plainEnglish: 'Me importa.', plainLanguage: spanish } } } : {})
+});
+
+const terminologyWith = (terms: Record<string, TerminologyTerm>): TerminologyPackage => ({
+  version: 3,
+  updatedAt: '2026-10-01T00:00:00.000Z',
+  fallback: { standardTerm: 'Clarification Needed', plainEnglish: 'Can you clarify?', nuance: {} },
+  terms,
+  complexIssues: [],
+  nuanceTriggers: {},
+  keywordTerms: {}
+});
+
+describe('Spanish priorities', () => {
+  test('detects the language from function words and Spanish-only letters', () => {
+    expect(detectLanguage('Quiero que bajen los impuestos para las familias')).toBe('es');
+    expect(detectLanguage('We need lower taxes for working families')).toBe('en');
+    expect(detectLanguage('inflación')).toBe('es');
+    expect(detectLanguage('inflation')).toBe('en');
+    // No evidence either way: the voter's chosen language decides
+    expect(detectLanguage('salud', 'es')).toBe('es');
+  });
+
+  test('maps Spanish priorities to the English standard terms, with or without accents', async () => {
+    const strategy = new TerminologyMappingStrategy();
+
+    const [economy] = await strategy.map('Me preocupa mucho el costo de vida');
+    expect(economy.standardTerm).toBe('Economic Conditions and Growth');
+    expect(economy.confidence).toBeGreaterThanOrEqual(0.85);
+
+    const [healthcare] = await strategy.map('la atencion medica es muy cara');
+    expect(healthcare.standardTerm).toBe('Healthcare Access and Affordability');
+  });
+
+  test('records the priority language on the mapped priority', async () => {
+    const engine = new PipelineMappingEngine(
+      new Map<MappingStrategyName, MappingStrategy>([['terminology', new TerminologyMappingStrategy()]]),
+      { ...DEFAULT_PIPELINE_CONFIG, strategies: [{ name: 'terminology', enabled: true, weight: 1 }] }
+    );
+
+    const mapped = await engine.mapPriority('Necesitamos vivienda asequible en nuestra ciudad');
+    expect(mapped.language).toBe('es');
+    expect(mapped.policyTerms[0]).toBe('Housing Affordability and Homelessness Prevention');
+
+    expect((await engine.mapPriority('We need affordable housing')).language).toBe('en');
+  });
+
+  test('reads Spanish stance cues, negation and contrast words', () => {
+    expect(stanceDetector.sentimentOf('Apoyo la energía limpia')).toBe('positive');
+    expect(stanceDetector.sentimentOf('No quiero más impuestos')).toBe('negative');
+    expect(splitClauses('Apoyo a la policía, pero tienen que rendir cuentas')).toEqual([
+      { text: 'Apoyo a la policía', contrastive: false },
+      { text: 'tienen que rendir cuentas', contrastive: true }
+    ]);
+  });
+
+  test('fills placeholders and falls back to English', () => {
+    expect(translate('es', 'voterForm.placeholder', { number: 2 })).toBe('Prioridad 2');
+    expect(translate('en', 'guide.page', { page: 1 })).toBe('Page 1 of {pages}');
+    expect(createTranslator('es')('guide.title')).toBe('Su guía para votar');
+    expect(Object.keys(es).sort()).toEqual(Object.keys(en).sort());
+    expect(Object.keys(es).filter(key => !es[key as MessageKey].trim())).toEqual([]);
+  });
+
+  test('writes email drafts in the voter’s language', () => {
+    const input = {
+      recipient: { name: 'Alex Padilla', title: 'U.S. Senator' },
+      category: 'aligned' as const,
+      issues: [{ term: 'Healthcare Access and Affordability', stance: 'support' as const }],
+      sender: { name: 'Rosa' }
+    };
+
+    const spanish = composeEmail({ ...input, language: 'es' });
+    expect(spanish.language).toBe('es');
+    expect(spanish.body).toContain('Estimado/a');
+    expect(spanish.body).toContain(localizeTerm('Healthcare Access and Affordability', 'es'));
+
+    const english = composeEmail(input);
+    expect(english.language).toBe('en');
+    expect(english.body).toContain('Dear');
+  });
+
+  test('every canonical term has Spanish phrases', () => {
+    const issues = validateTerminology(loadTerminology());
+    expect(issues.filter(issue => issue.code === 'missing_translation')).toEqual([]);
+  });
+
+  test('checks Spanish phrases apart from English ones', () => {
+    const issues = validateTerminology(terminologyWith({
+      housing: term('Housing', ['rent'], ['renta', 'vivienda']),
+      wages: term('Wages', ['wages'], ['renta']),
+      transit: term('Transit', ['bus'])
+    }));
+
+    expect(issues.map(issue => [issue.code, issue.path])).toEqual([
+      ['duplicate_phrase', 'terms.wages.translations.es.plainLanguage[0]'],
+      ['missing_translation', 'terms.transit.translations']
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import { mappingEngine } from '@/services/mapping-engine';
+import { stanceDetector } from '@/services/stance';
+import { PolicyTermMatch } from '@/types/policy-mappings';
+
+const LGBTQ = 'LGBTQ+ Rights and Inclusion';
+
+const matchFor = (standardTerm: string, termKey?: string): PolicyTermMatch => ({
+  standardTerm,
+  termKey,
+  confidence: 0.9,
+  sources: ['terminology'],
+  evidence: []
+});
+
+const stanceOn = async (priority: string, standardTerm: string) => {
+  const mapped = await mappingEngine.mapPriority(priority);
+  return mapped.matches?.find(match => match.standardTerm === standardTerm)?.stance;
+};
+
+describe('Stance detection', () => {
+  test('reads opposite stances on the same term, not one sentence polarity', async () => {
+    expect(await stanceOn("I don't want trans women in my locker room", LGBTQ)).toBe('oppose');
+    expect(await stanceOn('Protect trans rights', LGBTQ)).toBe('support');
+  });
+
+  test('reads "X but Y" statements as mixed on the term they qualify', async () => {
+    const mapped = await mappingEngine.mapPriority(
+      'Protect LGBTQ+ rights, but I do not want trans women in my locker room'
+    );
+    expect(mapped.matches?.find(match => match.standardTerm === LGBTQ)?.stance).toBe('mixed');
+  });
+
+  test('handles negation before the stance verb', () => {
+    const healthcare = matchFor('Healthcare Access and Affordability', 'healthcare');
+    expect(stanceDetector.assess('I support affordable healthcare', healthcare).stance).toBe('support');
+    expect(stanceDetector.assess("I don't support affordable healthcare", healthcare).stance).toBe('oppose');
+  });
+
+  test('does not read words naming the term as opposition to it', () => {
+    // The nuance key "upper_tax_relief_opposition" shares "upper" and "relief" with the term itself
+    const upperIncome = matchFor('Upper Income Tax Relief', 'taxCutsForWealthy');
+    expect(stanceDetector.assess('I want relief for upper earners', upperIncome).stance).toBe('support');
+    expect(stanceDetector.assess('Estate tax relief now', upperIncome).stance).toBe('support');
+  });
+
+  test('reads position words from negative nuance keys even inside the term\'s phrases', async () => {
+    // "hoax" is both a climate phrase and the climate_hoax position
+    expect(await stanceOn('Climate change is a hoax', 'Climate Change and Environmental Policy')).toBe('oppose');
+  });
+
+  test('fills the terminology nuancedMapping flags for the stance', () => {
+    const middleClass = matchFor('Middle Class Tax Relief', 'taxCutsForMiddleClass');
+
+    const support = stanceDetector.assess('Cut taxes for the middle class', middleClass).nuancedMapping;
+    expect(support?.supports_middle_class_relief).toBe(true);
+    expect(support?.explicitly_mentions_middle_class).toBe(true);
+    expect(support?.mixed_stance).toBe(false);
+
+    const oppose = stanceDetector.assess('No more tax cuts for the middle class', middleClass).nuancedMapping;
+    expect(oppose?.supports_middle_class_relief).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { HashingEmbedder } from '@/services/mapping-engine/embedders';
+import { clusterInputs, estimateCaptures, mineUnmappedInputs, submitProposals } from '@/services/term-mining';
+import { TerminologyReviewQueue } from '@/services/priority-learning-service';
+
+const embedder = new HashingEmbedder();
+
+const INPUTS = [
+  'We need more bus routes',
+  'More bus routes and light rail',
+  'Stop the potholes on our roads',
+  'Fix the roads and potholes',
+  'Fix the roads and potholes!',
+  'Noise from the airport keeps me up'
+];
+
+describe('Term mining', () => {
+  test('clusters similar inputs and counts repeats once', async () => {
+    const clusters = await clusterInputs(INPUTS, embedder, 0.4);
+
+    expect(clusters.map(cluster => cluster.inputs)).toEqual([
+      ['Fix the roads and potholes', 'Stop the potholes on our roads'],
+      ['We need more bus routes', 'More bus routes and light rail'],
+      ['Noise from the airport keeps me up']
+    ]);
+    expect(clusters[0].occurrences).toBe(3);
+  });
+
+  test('proposes a term per cluster with its shared phrases', async () => {
+    const result = await mineUnmappedInputs(INPUTS, { embedder, knownPhrases: [] });
+
+    expect(result.proposals.map(proposal => proposal.standardTerm)).toEqual(['Roads', 'Bus Routes']);
+    expect(result.proposals[0].plainLanguage).toEqual(['roads', 'potholes']);
+    expect(result.proposals[1].plainLanguage).toEqual(['bus routes']);
+    expect(result.proposals[0].estimatedCaptures).toBe(3);
+    expect(result.proposals[0].captureRate).toBeCloseTo(0.5);
+    expect(result.unclustered).toEqual(['Noise from the airport keeps me up']);
+    expect(result.totalInputs).toBe(6);
+  });
+
+  test('leaves out phrases the terminology already has', async () => {
+    const result = await mineUnmappedInputs(['Daycare for toddlers is too expensive', 'Daycare for toddlers costs a fortune'], {
+      embedder,
+      knownPhrases: ['daycare']
+    });
+
+    expect(result.proposals[0].standardTerm).toBe('Daycare For Toddlers');
+    expect(result.proposals[0].plainLanguage).not.toContain('daycare');
+  });
+
+  test('proposes a term for one input that keeps coming up', async () => {
+    const result = await mineUnmappedInputs(['Legalize sports betting', 'legalize sports betting.'], { embedder, knownPhrases: [] });
+
+    expect(result.proposals).toHaveLength(1);
+    expect(result.proposals[0].standardTerm).toBe('Sports Betting');
+  });
+
+  test('matches phrases by word, ignoring plurals', () => {
+    expect(estimateCaptures(['bus route'], ['More bus routes please', 'Busy routes', 'bus route 9'])).toBe(2);
+  });
+
+  test('queues each proposal with every input as a source', async () => {
+    const calls: Array<[string, string | undefined]> = [];
+    const queue: TerminologyReviewQueue = {
+      addPendingTerm: (term, _category, _synonyms, _policies, sourceInput) => {
+        calls.push([term, sourceInput]);
+        return true;
+      }
+    };
+    const { proposals } = await mineUnmappedInputs(INPUTS, { embedder, knownPhrases: [] });
+
+    const queued = await submitProposals(proposals.slice(1), queue);
+
+    expect(queued).toBe(1);
+    expect(calls).toEqual([
+      ['Bus Routes', 'We need more bus routes'],
+      ['Bus Routes', 'More bus routes and light rail']
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  detectTerminologyVersion,
+  issueTerminology,
+  keywordTerms,
+  loadTerminology,
+  migrateTerminology,
+  parseTerminology,
+  TerminologyError,
+  TerminologyPackage,
+  TerminologyTerm,
+  validateTerminology
+} from '@/services/terminology';
+
+const term = (standardTerm: string, plainLanguage: string[], extra: Partial<TerminologyTerm> = {}): TerminologyTerm => ({
+  standardTerm,
+  plainEnglish: `I care about ${standardTerm.toLowerCase()}.`,
+  plainLanguage,
+  nuance: {},
+  ...extra
+});
+
+const terminologyWith = (terms: Record<string, TerminologyTerm>, nuanceTriggers: Record<string, string[]> = {}): TerminologyPackage => ({
+  version: 3,
+  updatedAt: '2026-10-01T00:00:00.000Z',
+  fallback: { standardTerm: 'Clarification Needed', plainEnglish: 'Can you clarify?', nuance: {} },
+  terms,
+  complexIssues: [],
+  nuanceTriggers,
+  keywordTerms: {}
+});
+
+describe('Terminology package', () => {
+  test('the canonical terminology loads without errors', () => {
+    const terminology = loadTerminology();
+    const errors = validateTerminology(terminology).filter(issue => issue.severity === 'error');
+
+    expect(errors).toEqual([]);
+    expect(terminology.version).toBe(3);
+    expect(terminology.terms.taxWealthyMore.standardTerm).toBe('Progressive Taxation and Wealth Tax');
+  });
+
+  test('holds the keyword terms the matchers use', () => {
+    expect(keywordTerms.inflationandcostofliving).toMatchObject({
+      standardTerm: 'Inflation and Cost of Living',
+      category: 'economy',
+      publicConcern: 'High'
+    });
+    expect(keywordTerms.inflationandcostofliving.keywords).toContain('groceries');
+    expect(keywordTerms.publicTransit.plainLanguage.length).toBeGreaterThan(0);
+  });
+
+  test('keeps the flat layout for existing consumers', () => {
+    expect(issueTerminology.fallback.standardTerm).toBe('Clarification Needed');
+    expect((issueTerminology.economy as TerminologyTerm).plainLanguage).toContain('cost of living');
+    expect(issueTerminology.issues).toHaveLength(1);
+  });
+
+  test('migrates a version 1 file up and back down', () => {
+    const legacy = {
+      fallback: { standardTerm: 'Clarification Needed', plainEnglish: 'Can you clarify?', plainLanguage: [], nuance: {} },
+      housing: term('Affordable Housing', ['rent is too high']),
+      issues: []
+    };
+
+    const upgraded = parseTerminology(legacy);
+
+    expect(detectTerminologyVersion(legacy)).toBe(1);
+    expect(Object.keys(upgraded.terms)).toEqual(['housing']);
+    expect(upgraded.fallback).toEqual({ standardTerm: 'Clarification Needed', plainEnglish: 'Can you clarify?', nuance: {} });
+    expect(migrateTerminology(upgraded, 1)).toEqual({ ...legacy, fallback: upgraded.fallback });
+  });
+
+  test('adds empty keyword terms to a version 2 file and drops them going back', () => {
+    const { keywordTerms: _keywordTerms, ...rest } = terminologyWith({ housing: term('Affordable Housing', ['rent is too high']) });
+    const version2 = { ...rest, version: 2 };
+
+    const upgraded = parseTerminology(version2);
+
+    expect(upgraded.version).toBe(3);
+    expect(upgraded.keywordTerms).toEqual({});
+    expect(migrateTerminology(upgraded, 2)).toEqual(version2);
+  });
+
+  test('rejects unknown versions', () => {
+    expect(() => detectTerminologyVersion({ version: 4, terms: {} })).toThrow();
+  });
+
+  test('reports schema problems with their path', () => {
+    const terminology = terminologyWith({
+      housing: term('Affordable Housing', ['rent is too high'], { nuance: { affordability: 1.5 } })
+    });
+    (terminology.terms.housing as unknown as Record<string, unknown>).exclusionWord = ['mortgage'];
+
+    const issues = validateTerminology(terminology);
+
+    expect(issues.every(issue => issue.code === 'schema')).toBe(true);
+    expect(issues.map(issue => issue.path)).toEqual(['terms.housing.nuance.affordability', 'terms.housing']);
+  });
+
+  test('flags phrases shared by two terms and phrases inside other phrases', () => {
+    const issues = validateTerminology(terminologyWith({
+      wealthTax: term('Wealth Tax', ['wealth tax', 'tax the rich']),
+      taxCuts: term('Tax Cuts', ['wealth tax opposition', 'Tax the  rich'])
+    }));
+
+    expect(issues.map(issue => [issue.code, issue.severity])).toEqual([
+      ['duplicate_phrase', 'error'],
+      ['overlapping_phrase', 'warning']
+    ]);
+    expect(issues[0].message).toBe('"tax the rich" maps to both wealthTax and taxCuts');
+  });
+
+  test('flags contradictory word lists and dangling nuance triggers', () => {
+    const issues = validateTerminology(terminologyWith({
+      liberty: term('Personal Liberty', ['personal freedom', 'keep my money'], {
+        inclusionWords: ['freedom'],
+        exclusionWords: ['money', 'freedom'],
+        nuance: { privacy_and_autonomy: 0.9 }
+      })
+    }, { privacy_and_autonomy: ['privacy'], freedom_from_regulation: ['overreach'] }));
+
+    expect(issues.map(issue => issue.code)).toEqual([
+      'conflicting_words',
+      'excluded_phrase',
+      'excluded_phrase',
+      'dangling_reference'
+    ]);
+    expect(issues[3].path).toBe('nuanceTriggers.freedom_from_regulation');
+  });
+
+  test('refuses to load a package with errors', () => {
+    const terminology = terminologyWith({
+      a: term('Same Term', ['first phrase']),
+      b: term('Same Term', ['second phrase'])
+    });
+
+    expect(() => parseTerminology(terminology)).toThrow();
+    try {
+      parseTerminology(terminology);
+    } catch (error) {
+      expect(error).toBeInstanceOf(TerminologyError);
+      expect((error as TerminologyError).issues.map(issue => issue.code)).toEqual(['duplicate_standard_term']);
+    }
+  });
+});
@@ -0,0 +1,221 @@
+import jsPDF from 'jspdf';
+import { buildVoterGuide, renderGuidePdf } from '@/services/voter-guide';
+import { ElectionCalendar } from '@/services/elections';
+import { ZipCrosswalk } from '@/services/districts';
+import { formatDate } from '@/services/i18n';
+import { BallotMeasure, CandidateRecommendation, DashboardData } from '@/types/recommendations';
+import { ElectionEvent } from '@/types/elections';
+
+const NOW = new Date('2026-10-01T12:00:00.000Z');
+
+const election = (id: string, name: string, date: string): ElectionEvent => ({
+  id,
+  name,
+  date,
+  type: 'general',
+  cycle: Number(date.slice(0, 4)),
+  source: 'bundled'
+});
+
+const calendar = new ElectionCalendar(
+  [election('us-general-2024', '2024 General Election', '2024-11-05'), election('us-general-2026', '2026 General Election', '2026-11-03')],
+  { TX: { registrationDaysBefore: 30, mailBallotRequestDaysBefore: 11, earlyVotingDaysBefore: 17 } },
+  new ZipCrosswalk([{ zip: '78701', state: 'TX', city: 'Austin', districts: [] }])
+);
+
+const candidate = (name: string, office: string, match: CandidateRecommendation['match'], changes: Partial<CandidateRecommendation> = {}): CandidateRecommendation => ({
+  name,
+  office,
+  match,
+  party: 'Independent',
+  summary: `${name} has served on the city council and the county transit board.`,
+  rationale: `${name} lines up with your priorities on housing and transit.`,
+  platformHighlights: ['Build more homes near transit', 'Expand bus service', 'Fund after-school programs'],
+  officialWebsite: 'https://example.test/candidate',
+  ...changes
+});
+
+const measure = (title: string, concerns: BallotMeasure['concerns']): BallotMeasure => ({
+  id: title,
+  title,
+  summary: `${title} asks voters to approve new bonds.`,
+  supporters: ['Austin Housing Coalition'],
+  opposers: [],
+  userConcernMapping: 'Related to your priorities',
+  ballotpediaLink: '#',
+  yesMeans: 'The city may issue the bonds.',
+  noMeans: 'The city may not issue the bonds.',
+  concerns
+});
+
+const dashboard = (changes: Partial<DashboardData['recommendations']> = {}, mode: DashboardData['mode'] = 'current'): DashboardData => ({
+  mode,
+  zipCode: '78701',
+  region: 'Austin, TX',
+  priorities: [
+    { original: 'Cheaper rent', mapped: ['Affordable Housing'], weight: 1 },
+    { original: 'Better buses', mapped: [], weight: 0.5, ambiguities: ['More routes or more frequent service?'] }
+  ],
+  recommendations: {
+    candidates: {
+      Mayor: [candidate('Alex Lee', 'Mayor', 'full'), candidate('Sam Roe', 'Mayor', 'partial'), candidate('Pat Doe', 'Mayor', 'conflict')],
+      'City Council District 9': [candidate('Jordan Smith', 'City Council District 9', 'partial')]
+    },
+    ballotMeasures: [
+      measure('Proposition A', [{ standardTerm: 'Affordable Housing', priority: 'Cheaper rent', relevance: 0.8, voterStance: 'support', measureStance: 'support' }]),
+      measure('Proposition B', [{ standardTerm: 'Public Transit Investment', priority: 'Better buses', relevance: 0.6, voterStance: 'support', measureStance: 'oppose' }]),
+      measure('Proposition C', [])
+    ],
+    emailDrafts: [],
+    interestGroups: [{ name: 'Austin Housing Coalition', description: 'Tenant advocacy group.', website: '#', priorities: [], relevance: 'Housing' }],
+    petitions: [],
+    civicEducation: [],
+    ...changes
+  }
+});
+
+// More offices than fit on a page, and one rationale several pages long
+const longDashboard = (): DashboardData => {
+  const candidates: Record<string, CandidateRecommendation[]> = {};
+  for (let office = 1; office <= 24; office++) {
+    const name = `Office ${office}`;
+    candidates[name] = [candidate(`Candidate ${office}A`, name, 'full'), candidate(`Candidate ${office}B`, name, 'partial')];
+  }
+  const rationale = Array.from({ length: 120 }, (_, index) => `Long rationale sentence ${index + 1} about housing and transit.`).join(' ');
+  candidates['Office 1'][0] = candidate('Candidate 1A', 'Office 1', 'full', { rationale });
+  return dashboard({ candidates });
+};
+
+interface PdfLine {
+  text: string;
+  // From the bottom of the page, in points
+  y: number;
+}
+
+// The parts of jsPDF's internals its typings leave out
+interface PdfInternals {
+  pages: string[][];
+  getPageInfo(page: number): { pageContext: { annotations: Array<{ options: { pageNumber: number } }> } };
+}
+
+const internals = (doc: jsPDF) => doc.internal as unknown as PdfInternals;
+
+// Text drawn on a page, read back from its content stream
+const pageLines = (doc: jsPDF, page: number): PdfLine[] =>
+  internals(doc).pages[page]
+    .filter(operation => operation.startsWith('BT'))
+    .flatMap(operation => {
+      const y = Number(operation.match(/ ([\d.]+) Td/)?.[1]);
+      return [...operation.matchAll(/\((.*)\) Tj/g)].map(match => ({ text: match[1].replace(/\\(.)/g, '$1'), y }));
+    });
+
+const pageText = (doc: jsPDF, page: number) => pageLines(doc, page).map(line => line.text);
+
+const pagesWith = (doc: jsPDF, text: string) =>
+  Array.from({ length: doc.getNumberOfPages() }, (_, index) => index + 1).filter(page => pageText(doc, page).some(line => line.includes(text)));
+
+const isDashed = (doc: jsPDF, page: number) =>
+  internals(doc).pages[page].includes('[5. 4.] 0. d');
+
+describe('Voter guide', () => {
+  test('lays out the sections that have content, in order', () => {
+    const guide = buildVoterGuide(dashboard(), { generatedAt: NOW });
+
+    expect(guide.title).toBe('Your Voter Guide');
+    expect(guide.subtitle).toBe('ZIP code 78701 · Austin, TX');
+    expect(guide.sections.map(section => section.id)).toEqual(['priorities', 'candidates', 'ballot-measures', 'resources']);
+    expect(guide.sections[0].blocks[1]).toEqual({
+      kind: 'entry',
+      title: 'Better buses',
+      lines: ['Not yet matched to a policy area', 'Open question: More routes or more frequent service?']
+    });
+    expect(guide.sections[2].blocks[0]).toMatchObject({
+      kind: 'table',
+      rows: [
+        ['Proposition A', 'Leaning Yes', 'Touches Affordable Housing'],
+        ['Proposition B', 'Leaning No', 'Touches Public Transit Investment'],
+        ['Proposition C', 'Read before voting', 'Related to your priorities']
+      ]
+    });
+  });
+
+  test('lists strong matches, measure leans and deadlines on the poll sheet', () => {
+    const context = calendar.contextFor({ zipCode: '78701' }, NOW);
+    const { pollSheet } = buildVoterGuide(dashboard(), { election: context, generatedAt: NOW });
+    const day = (date: string) => formatDate(new Date(`${date}T00:00:00`), 'en');
+
+    expect(pollSheet.title).toBe('Bring to the polls');
+    expect(pollSheet.items).toEqual([
+      { contest: 'Mayor', choice: 'Alex Lee', note: 'Also close: Sam Roe' },
+      { contest: 'City Council District 9', choice: 'No strong match', note: 'Also close: Jordan Smith' },
+      { contest: 'Proposition A', choice: 'Leaning Yes', note: 'Because of your views on Affordable Housing' },
+      { contest: 'Proposition B', choice: 'Leaning No', note: 'Because of your views on Public Transit Investment' },
+      { contest: 'Proposition C', choice: 'Read before voting' }
+    ]);
+    expect(pollSheet.reminders).toEqual([
+      `2026 General Election: ${day('2026-11-03')}`,
+      `Registration deadline: ${day('2026-10-04')}`,
+      `Early voting starts: ${day('2026-10-17')}`,
+      `Mail ballot request deadline: ${day('2026-10-23')}`,
+      'These are your own notes, not an official ballot. Check your sample ballot before you vote.'
+    ]);
+  });
+
+  test('names the replayed election in demo mode and writes in the voter\'s language', () => {
+    const context = calendar.contextFor({ zipCode: '78701' }, NOW, 'demo');
+
+    const demo = buildVoterGuide(dashboard({}, 'demo'), { election: context, generatedAt: NOW });
+    expect(demo.title).toBe('Practice Voter Guide');
+    expect(demo.pollSheet.reminders[0]).toBe('Practice guide replaying the 2024 General Election.');
+
+    const spanish = buildVoterGuide({ ...dashboard(), language: 'es' }, { generatedAt: NOW });
+    expect(spanish.language).toBe('es');
+    expect(spanish.title).toBe('Su guía para votar');
+  });
+});
+
+describe('Voter guide PDF', () => {
+  const guide = buildVoterGuide(longDashboard(), { election: calendar.contextFor({ zipCode: '78701' }, NOW), generatedAt: NOW });
+  const doc = renderGuidePdf(guide);
+  const pages = doc.getNumberOfPages();
+
+  test('breaks a long result across pages without running into the footer', () => {
+    expect(pages).toBeGreaterThan(6);
+    // The long rationale runs over more than one page
+    expect(pagesWith(doc, 'Long rationale sentence 1 ').length).toBe(1);
+    expect(pagesWith(doc, 'Long rationale sentence 120 ')[0]).toBeGreaterThan(pagesWith(doc, 'Long rationale sentence 1 ')[0]);
+
+    for (let page = 1; page <= pages; page++) {
+      // Only the footer sits in the bottom margin
+      const footer = pageLines(doc, page).filter(line => line.y < 60).map(line => line.text);
+      expect(footer).toEqual(['Your Voter Guide · ZIP code 78701 · Austin, TX', `Page ${page} of ${pages}`]);
+    }
+  });
+
+  test('links each table of contents entry to the page its section starts on', () => {
+    const titles = [...guide.sections.map(section => section.title), 'Bring to the polls'];
+    const cover = pageText(doc, 1);
+    const contents = cover.slice(cover.indexOf('Contents') + 1, cover.indexOf('Your Voter Guide · ZIP code 78701 · Austin, TX'));
+    const starts = titles.map(title => pagesWith(doc, title).filter(page => page > 1 && pageText(doc, page).includes(title))[0]);
+
+    expect(contents).toEqual(titles.flatMap((title, index) => [title, String(starts[index])]));
+    // Short sections can share a page, but none starts before the one above it
+    expect(starts.every((page, index) => index === 0 || page >= starts[index - 1])).toBe(true);
+    expect(starts[starts.length - 1]).toBeGreaterThan(starts[starts.length - 2]);
+    expect(internals(doc).getPageInfo(1).pageContext.annotations.map(link => link.options.pageNumber)).toEqual(starts);
+
+    const bookmarks = (doc.outline as unknown as { root: { children: Array<{ title: string; options: { pageNumber: number } }> } }).root.children;
+    expect(bookmarks.map(bookmark => [bookmark.title, bookmark.options.pageNumber])).toEqual(titles.map((title, index) => [title, starts[index]]));
+  });
+
+  test('puts the tear-off sheet last and borders it on every page it runs over', () => {
+    const [start] = pagesWith(doc, 'Cut along the dashed line');
+    const sheetPages = Array.from({ length: pages - start + 1 }, (_, index) => start + index);
+
+    expect(sheetPages.length).toBeGreaterThan(1);
+    expect(pageText(doc, start)[0]).toBe('Cut along the dashed line');
+    expect(pagesWith(doc, 'These are your own notes')).toEqual([pages]);
+    expect(sheetPages.every(page => isDashed(doc, page))).toBe(true);
+    expect(Array.from({ length: start - 1 }, (_, index) => index + 1).some(page => isDashed(doc, page))).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import type { RecommendationsData } from './api';
+import type { Mode } from './mode';
+
+// A priority as the analysis returned it, with any clarification the voter gave
+export type SavedMappedPriority = RecommendationsData['analysis']['mappedPriorities'][number];
+
+/**
+ * One saved version of a priority set. Saving again adds a version rather
+ * than overwriting, so earlier wording stays comparable.
+ */
+export interface SavedPriorities {
+  id: string;
+  setId: string;
+  version: number;
+  name: string;
+  priorities: string[];
+  mappedPriorities: SavedMappedPriority[];
+  zipCode?: string;
+  createdAt: string;
+}
+
+export interface SavePrioritiesInput {
+  // Omit to start a new set
+  setId?: string;
+  name?: string;
+  priorities: string[];
+  mappedPriorities?: SavedMappedPriority[];
+  zipCode?: string;
+}
+
+/**
+ * A past analysis, filed by the election cycle it was run for
+ */
+export interface SavedAnalysis {
+  id: string;
+  prioritiesId?: string;
+  cycle: number;
+  electionName?: string;
+  mode: Mode;
+  zipCode: string;
+  result: RecommendationsData;
+  createdAt: string;
+}
+
+export interface SavedCandidate {
+  id: string;
+  personKey: string;
+  name: string;
+  office: string;
+  party?: string;
+  cycle: number;
+  notes?: string;
+  createdAt: string;
+}
+
+/**
+ * How a voter's priorities moved between two analyses. Priorities are matched
+ * by wording; terms by the policy areas they mapped to.
+ */
+export interface PriorityDiff {
+  added: string[];
+  removed: string[];
+  kept: string[];
+  termsAdded: string[];
+  termsRemoved: string[];
+  termsKept: string[];
+}
@@ -0,0 +1,62 @@
+import type { TermStance } from './stance';
+import type { CandidateRecommendation } from './recommendations';
+
+/**
+ * Where a candidate's position came from
+ */
+export type PositionSource = 'fec' | 'platform' | 'curated';
+
+/**
+ * A candidate's position on one standardized policy term
+ */
+export interface CandidateIssuePosition {
+  standardTerm: string;
+  stance: TermStance;
+  // How firmly the candidate holds it, 0-1
+  strength: number;
+  source: PositionSource;
+  statement?: string;
+}
+
+export interface CandidateProfile {
+  name: string;
+  office: string;
+  party?: string;
+  positions: CandidateIssuePosition[];
+}
+
+/**
+ * What the voter wants on one policy term, weighted by how much it matters
+ * to them and how confident the mapping was
+ */
+export interface VoterIssuePreference {
+  standardTerm: string;
+  stance: TermStance;
+  weight: number;
+  priority: string;
+  // Why the term was chosen, when the voter picked it in a clarification
+  reason?: string;
+}
+
+export interface IssueAgreement {
+  standardTerm: string;
+  priority: string;
+  voterStance: TermStance;
+  candidateStance?: TermStance;
+  // -1 (opposed) to 1 (agrees); undefined when the candidate has no known position
+  agreement?: number;
+  weight: number;
+  source?: PositionSource;
+  reason?: string;
+}
+
+export interface CandidateAlignment {
+  candidate: CandidateProfile;
+  // 0-1 agreement on the issues where the candidate's position is known
+  score: number;
+  // Share of the voter's weighted issues the candidate has a known position on
+  coverage: number;
+  match: CandidateRecommendation['match'];
+  issues: IssueAgreement[];
+  rationale: string;
+}
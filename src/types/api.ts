@@ -1,3 +1,13 @@
+import type { ClarificationExchange } from './clarification';
+import type { DistrictResolution, OfficeLevel } from './districts';
+import type { ClauseMapping, PolicyTermMatch, PriorityTension } from './policy-mappings';
+import type { MeasureConcern } from './ballot-measures';
+import type { EmailDraft } from './email';
+import type { Locale } from './i18n';
+import type { DataFreshness } from './offline';
+
+export type { EmailDraft };
+
 // Mode type for the application
 export type Mode = "current" | "demo";
 
@@ -8,10 +18,13 @@ export interface PriorityMapping {
 
 export interface ConflictResult {
   priority1: string;
+  // Empty when a single priority conflicts with itself
   priority2: string;
   reason: string;
   severity?: 'low' | 'medium' | 'high';
   categories?: string[];
+  explanation?: string;
+  possibleCompromises?: string[];
 }
 
 export interface Candidate {
@@ -22,30 +35,41 @@ export interface Candidate {
   platformHighlights: string[];
   rationale: string;
   officialWebsite: string;
+  // Public contact address, when the official lists one
+  email?: string;
   positionSummary?: string;
+  // Set when the candidate has been scored against the voter's priorities
+  match?: 'full' | 'partial' | 'conflict';
+  alignmentScore?: number;
+  // Where the office sits, for officials and candidates from civic data
+  level?: OfficeLevel;
+  districtId?: string;
+  // Canonical ids from the people model, stable across FEC and Civic
+  personId?: string;
+  officeId?: string;
   stances?: Array<{
     topics: string[];
   }>;
 }
 
 export interface BallotMeasure {
+  id?: string;
   title: string;
   description: string;
   supporters: string[];
   opposers: string[];
   userConcernMapping: string;
   ballotpediaLink: string;
-}
-
-export interface EmailDraft {
-  recipient: {
-    name: string;
-    position: string;
-    email: string;
-  };
-  subject: string;
-  body: string;
-  stance: 'supportive' | 'mixed' | 'opposed';
+  electionDate?: string;
+  fiscalImpact?: string;
+  // Neutral plain-language summary and what each vote means
+  summary?: string;
+  yesMeans?: string;
+  noMeans?: string;
+  // The voter's policy terms the measure touches, most relevant first
+  concerns?: MeasureConcern[];
+  // 0-1, relevance of the strongest concern
+  relevance?: number;
 }
 
 export interface InterestGroup {
@@ -113,7 +137,12 @@ export interface RecommendationsData {
   mode: Mode;
   zipCode: string;
   region: string;
+  // The voter's districts, and any the ZIP code couldn't settle
+  districts?: DistrictResolution;
+  // Language the voter chose for emails and the voter guide
+  language?: Locale;
   analysis: {
+    summary?: string;
     priorities: string[];
     conflicts: ConflictResult[];
     mappedPriorities: Array<{
@@ -127,9 +156,15 @@ export interface RecommendationsData {
       needsClarification?: boolean;
       clarificationReason?: string;
       possibleTopics?: string[];
+      matches?: PolicyTermMatch[];
+      clarification?: ClarificationExchange;
+      clauses?: ClauseMapping[];
+      tensions?: PriorityTension[];
     }>;
   };
   recommendations: Recommendations;
+  // Present when some of the data came from the offline cache
+  freshness?: DataFreshness;
   error?: Error | null;
 }
 
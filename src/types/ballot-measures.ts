@@ -0,0 +1,24 @@
+import type { MeasureConcern, SummarizedBallotMeasure } from '../../supabase/functions/_shared/ballot-measures/types.ts';
+
+// Measure records are normalized, summarized and matched to concerns with the edge-function shared code
+export type {
+  ConcernPreference,
+  MeasureConcern,
+  MeasureIssuePosition,
+  MeasureSource,
+  MeasureStatus,
+  MeasureSummary,
+  NormalizedBallotMeasure,
+  RawBallotMeasure,
+  SummarizedBallotMeasure
+} from '../../supabase/functions/_shared/ballot-measures/types.ts';
+
+/**
+ * A summarized measure ranked against the voter's priorities
+ */
+export interface MappedBallotMeasure extends SummarizedBallotMeasure {
+  concerns: MeasureConcern[];
+  // Relevance of the strongest concern, 0 when the measure touches none
+  relevance: number;
+  userConcernMapping: string;
+}
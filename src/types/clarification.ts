@@ -0,0 +1,46 @@
+/**
+ * Where a candidate interpretation came from: the language model (or a
+ * recorded fixture of it), or the mapping engine's own lower-confidence matches
+ */
+export type InterpretationSource = 'model' | 'engine';
+
+/**
+ * One way a vague priority could be read, offered to the voter as a choice
+ */
+export interface ClarificationInterpretation {
+  standardTerm: string;
+  description?: string;
+  confidence: number;
+  source: InterpretationSource;
+  termKey?: string;
+  category?: string;
+}
+
+/**
+ * The voter's reply: one of the offered interpretations, or their own words
+ */
+export type ClarificationReply =
+  | { kind: 'interpretation'; standardTerm: string }
+  | { kind: 'free-text'; text: string };
+
+export type ClarificationAnswer = ClarificationReply & { answeredAt: string };
+
+/**
+ * A question put to the voter and, once answered, what they said
+ */
+export interface ClarificationTurn {
+  question: string;
+  interpretations: ClarificationInterpretation[];
+  askedAt: string;
+  answer?: ClarificationAnswer;
+}
+
+/**
+ * The full exchange behind a clarified priority, kept on the MappedPriority so
+ * recommendations can say why a term was chosen
+ */
+export interface ClarificationExchange {
+  turns: ClarificationTurn[];
+  // Open while the latest mapping still falls below the clarification threshold
+  status: 'open' | 'resolved';
+}
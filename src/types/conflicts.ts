@@ -0,0 +1,50 @@
+import type { ConflictDefinition } from './priority-mapping';
+
+/**
+ * Whether a voter holds this position or rejects it
+ */
+export type IssueStance = 'support' | 'oppose';
+
+/**
+ * An issue found in a single priority, with the approaches it leans towards
+ */
+export interface PriorityIssueMatch {
+  priority: string;
+  issueId: string;
+  issueName: string;
+  stance: IssueStance;
+  // Snake-cased approach ids, e.g. 'universal_coverage'
+  approaches: string[];
+  matchedTerms: string[];
+}
+
+export type ConflictEdgeKind = 'defined' | 'opposing-issue' | 'conflicting-approach';
+
+/**
+ * Edge in the conflict graph between two issues, or two approaches on them
+ */
+export interface ConflictEdge {
+  kind: ConflictEdgeKind;
+  issues: [string, string];
+  approaches?: [string, string];
+  definition: ConflictDefinition;
+}
+
+/**
+ * `within-priority` conflicts come from a single priority that pulls two ways
+ */
+export type ConflictScope = 'within-priority' | 'cross-priority';
+
+export interface ConflictExplanation {
+  id: string;
+  scope: ConflictScope;
+  kind: ConflictEdgeKind | 'stance';
+  // One priority for within-priority conflicts, two otherwise
+  priorities: string[];
+  issues: [string, string];
+  type: ConflictDefinition['type'];
+  severity: ConflictDefinition['severity'];
+  reason: string;
+  explanation: string;
+  possibleCompromises: string[];
+}
@@ -0,0 +1,93 @@
+/**
+ * Tiers of government, from the top down. Every office a voter can be
+ * represented by falls in exactly one.
+ */
+export type OfficeLevel = 'federal' | 'state' | 'county' | 'city' | 'school_board';
+
+export type DistrictType =
+  | 'country'
+  | 'state'
+  | 'congressional'
+  | 'state_senate'
+  | 'state_house'
+  | 'county'
+  | 'city'
+  | 'school_district';
+
+/**
+ * A political division, identified by its Open Civic Data id
+ * (e.g. `ocd-division/country:us/state:ca/cd:11`)
+ */
+export interface District {
+  id: string;
+  type: DistrictType;
+  name: string;
+  state?: string;
+}
+
+/**
+ * One district a ZIP code overlaps, with the share of the ZIP's addresses inside it
+ */
+export interface CrosswalkDistrict extends District {
+  share: number;
+}
+
+export interface ZipCrosswalkEntry {
+  zip: string;
+  state: string;
+  city?: string;
+  districts: Array<Omit<CrosswalkDistrict, 'state'>>;
+}
+
+/**
+ * What the voter gave us to locate them
+ */
+export interface VoterLocation {
+  zipCode: string;
+  address?: string;
+}
+
+/**
+ * A district type the ZIP alone can't settle, and the districts it could be
+ */
+export interface AmbiguousDistrict {
+  type: DistrictType;
+  candidates: CrosswalkDistrict[];
+}
+
+export interface DistrictResolution {
+  zipCode: string;
+  address?: string;
+  state?: string;
+  city?: string;
+  // Districts the voter is known to be in
+  districts: District[];
+  // District types where the ZIP straddles a boundary and the voter has to pick
+  ambiguous: AmbiguousDistrict[];
+  // How the districts were found: from a full address, the ZIP crosswalk, or not at all
+  source: 'address' | 'crosswalk' | 'none';
+}
+
+/**
+ * An office as the civic data source describes it, before normalization
+ */
+export interface RawOffice {
+  name: string;
+  divisionId?: string;
+  levels?: string[];
+  roles?: string[];
+}
+
+export interface NormalizedOffice {
+  name: string;
+  level: OfficeLevel;
+  divisionId?: string;
+  districtType?: DistrictType;
+  roles: string[];
+}
+
+export interface OfficeTier {
+  level: OfficeLevel;
+  label: string;
+  offices: NormalizedOffice[];
+}
@@ -0,0 +1,63 @@
+import type { Mode } from './mode';
+
+export type ElectionType = 'general' | 'primary' | 'runoff' | 'special';
+
+/**
+ * One election, nationwide or for a single state
+ */
+export interface ElectionEvent {
+  id: string;
+  name: string;
+  // ISO date (YYYY-MM-DD)
+  date: string;
+  type: ElectionType;
+  // Two-letter state code; unset for elections held nationwide
+  state?: string;
+  // Election year, used as the FEC cycle
+  cycle: number;
+  source: 'civic' | 'bundled';
+}
+
+/**
+ * A state's voting deadlines, counted back from election day
+ */
+export interface StateElectionRules {
+  registrationDaysBefore: number;
+  // Unset for states that mail every voter a ballot
+  mailBallotRequestDaysBefore?: number;
+  // Unset for states without in-person early voting
+  earlyVotingDaysBefore?: number;
+  sameDayRegistration?: boolean;
+}
+
+export type DeadlineKind = 'registration' | 'mail_ballot_request' | 'early_voting' | 'election_day';
+
+/**
+ * Days left until one deadline. The app labels each kind in the voter's
+ * language; election day shows the election's name instead.
+ */
+export interface ElectionCountdown {
+  kind: DeadlineKind;
+  date: string;
+  daysLeft: number;
+  // Election day only
+  electionName?: string;
+  // Registration only: voters can also register at the polls
+  sameDayRegistration?: boolean;
+}
+
+/**
+ * Everything the app needs to know about where a voter is in the election
+ * calendar: which mode fits, which cycle to pull data for, and what's coming up
+ */
+export interface ElectionContext {
+  state?: string;
+  // Mode the calendar recommends; the voter can still switch
+  mode: Mode;
+  cycle: number;
+  hasUpcomingBallots: boolean;
+  nextElection?: ElectionEvent;
+  // Most recent past general election, which demo mode replays
+  lastGeneralElection?: ElectionEvent;
+  countdowns: ElectionCountdown[];
+}
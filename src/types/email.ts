@@ -0,0 +1,13 @@
+// Email types live with the composer in the edge-function shared code
+export type {
+  ComposeEmailInput,
+  EmailComposition,
+  EmailDraft,
+  EmailIssue,
+  EmailLength,
+  EmailRecipient,
+  EmailSender,
+  EmailStance,
+  EmailTone,
+  RecipientCategory
+} from '../../supabase/functions/_shared/email/types.ts';
@@ -0,0 +1,86 @@
+/**
+ * Where a labeled example came from
+ */
+export type GoldSource = 'persona-csv' | 'persona-mappings' | 'persona-paraphrase' | 'test-persona' | 'category-persona';
+
+/**
+ * One labeled priority. Examples carry expected policy terms, expected
+ * display categories (see `categorizeTerms`), or both.
+ */
+export interface GoldExample {
+  id: string;
+  priority: string;
+  persona: string;
+  source: GoldSource;
+  expectedTerms: string[];
+  // Any of these counts as correct
+  expectedCategories: string[];
+  // The curated persona priority the labels were copied from. Pipelines hold
+  // it out of the persona lookup so the gold set doesn't grade itself.
+  labelPriority?: string;
+}
+
+export interface EvaluationMetrics {
+  examples: number;
+  // Examples with expected terms; precision, recall and top-k are over these
+  termLabeled: number;
+  // Examples with expected categories; category accuracy is over these
+  categoryLabeled: number;
+  precision: number | null;
+  recall: number | null;
+  top1: number | null;
+  top3: number | null;
+  categoryAccuracy: number | null;
+  // Share of examples that got at least one term
+  coverage: number | null;
+}
+
+export type MetricName = 'precision' | 'recall' | 'top1' | 'top3' | 'categoryAccuracy' | 'coverage';
+
+export interface ExampleResult {
+  example: GoldExample;
+  predictedTerms: string[];
+  predictedCategory: string;
+  confidence: number;
+  // Predicted terms that match an expected term, and expected terms that were found
+  matchedTerms: string[];
+  foundTerms: string[];
+  // Rank (1-based) of the first predicted term that matches, if any
+  firstHitRank?: number;
+  categoryCorrect?: boolean;
+}
+
+export interface EvaluationReport {
+  target: string;
+  embedder: 'hashing' | 'semantic';
+  generatedAt: string;
+  overall: EvaluationMetrics;
+  byCategory: Record<string, EvaluationMetrics>;
+  byPersona: Record<string, EvaluationMetrics>;
+  examples: ExampleResult[];
+}
+
+/**
+ * Stored metrics to compare later runs against, one entry per target
+ */
+export interface EvaluationBaseline {
+  generatedAt: string;
+  targets: Record<string, Pick<EvaluationReport, 'embedder' | 'overall' | 'byCategory' | 'byPersona'>>;
+}
+
+export interface MetricRegression {
+  // "overall", "category:Healthcare" or "persona:Sal"
+  scope: string;
+  metric: MetricName;
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface BaselineComparison {
+  // False when the baseline has no entry for the target or used another embedder
+  comparable: boolean;
+  reason?: string;
+  regressions: MetricRegression[];
+  improvements: MetricRegression[];
+}
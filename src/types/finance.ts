@@ -0,0 +1,68 @@
+/**
+ * Donations in one FEC size band
+ */
+export interface DonorSizeBucket {
+  label: string;
+  // Smallest donation in the band, in dollars
+  minimum: number;
+  total: number;
+  count?: number;
+  // Share of all individual contributions
+  share: number;
+}
+
+/**
+ * Money from one employer or industry
+ */
+export interface ContributorGroup {
+  name: string;
+  total: number;
+  count?: number;
+  // Share of itemized individual contributions
+  share: number;
+}
+
+/**
+ * Independent expenditures one outside group made for or against the candidate
+ */
+export interface OutsideSpender {
+  committeeId: string;
+  committeeName: string;
+  support: number;
+  oppose: number;
+}
+
+/**
+ * One filing period of the candidate's principal committee
+ */
+export interface FinancePeriod {
+  label: string;
+  endDate: string;
+  receipts: number;
+  disbursements: number;
+  cashOnHand: number;
+}
+
+export interface CandidateFinances {
+  candidateId: string;
+  committeeId?: string;
+  cycle: number;
+  // Last day the filings cover
+  coverageEndDate?: string;
+  receipts: number;
+  disbursements: number;
+  cashOnHand: number;
+  debts: number;
+  individualContributions: number;
+  // Donations under $200, usually unitemized
+  smallDollar: { total: number; share: number };
+  // Donations of $1,000 or more
+  largeDonor: { total: number; share: number };
+  donorSizes: DonorSizeBucket[];
+  topEmployers: ContributorGroup[];
+  topIndustries: ContributorGroup[];
+  // The candidate's own contributions and loans
+  selfFunding: { contributions: number; loans: number; total: number; share: number };
+  outsideSpending: { support: number; oppose: number; total: number; topSpenders: OutsideSpender[] };
+  trend: FinancePeriod[];
+}
@@ -0,0 +1,2 @@
+// Locales live with the edge-function shared code
+export type { Locale } from '../../supabase/functions/_shared/i18n/index.ts';
@@ -0,0 +1,53 @@
+/**
+ * Who a learned mapping applies to: the voter who taught it, or everyone
+ */
+export type LearningScope = 'user' | 'global';
+
+/**
+ * Lifecycle of a learned mapping. `pending_review` mappings have been sent to the
+ * terminology review queue; only approved ones end up in the terminology package.
+ */
+export type LearnedMappingStatus = 'active' | 'pending_review' | 'promoted' | 'rejected';
+
+export interface LearnedMapping {
+  id: string;
+  scope: LearningScope;
+  // Owner of a user-scoped mapping. Unset for mappings learned before sign-in,
+  // which stay on the device that learned them.
+  userId?: string;
+  originalTerm: string;
+  clarifiedTerm: string;
+  issueId: string;
+  issueName: string;
+  // Stored confidence before decay is applied
+  confidence: number;
+  usageCount: number;
+  status: LearnedMappingStatus;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface LearningQuery {
+  scope?: LearningScope;
+  // `null` selects mappings with no owner
+  userId?: string | null;
+  status?: LearnedMappingStatus;
+}
+
+/**
+ * Persistence for learned mappings. Implementations: IndexedDB (browser),
+ * Supabase (server-side, shared) and in-memory (tests).
+ */
+export interface LearningStore {
+  list(query?: LearningQuery): Promise<LearnedMapping[]>;
+  get(id: string): Promise<LearnedMapping | null>;
+  put(mapping: LearnedMapping): Promise<void>;
+  putMany(mappings: LearnedMapping[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+}
+
+export interface LearnedMappingExport {
+  version: 1;
+  exportedAt: string;
+  mappings: LearnedMapping[];
+}
@@ -0,0 +1,81 @@
+import type { MappedPriority, PriorityAnalysis } from './policy-mappings';
+import type { Locale } from './i18n';
+
+/**
+ * Names of the strategies the mapping pipeline knows how to run
+ */
+export type MappingStrategyName = 'persona' | 'learned' | 'terminology' | 'embedding' | 'llm';
+
+/**
+ * Raw match returned by a single strategy, before confidence fusion
+ */
+export interface StrategyMatch {
+  standardTerm: string;
+  termKey?: string;
+  category?: string;
+  confidence: number;
+  evidence: string[];
+}
+
+export interface MappingContext {
+  otherPriorities: string[];
+  // Language the priority is written in; strategies detect it when unset
+  language?: Locale;
+}
+
+export interface MappingStrategy {
+  readonly name: MappingStrategyName;
+  isAvailable(): boolean;
+  map(priority: string, context: MappingContext): Promise<StrategyMatch[]>;
+}
+
+export interface StrategyConfig {
+  name: MappingStrategyName;
+  enabled: boolean;
+  // Multiplier applied to the strategy's raw confidence before fusion
+  weight: number;
+  // Only run when earlier strategies left the priority below the clarification threshold
+  fallbackOnly?: boolean;
+  // Skip the remaining strategies once this strategy reaches the given confidence
+  shortCircuitAt?: number;
+  // Only run on the whole priority, not on its clauses (curated whole-sentence lookups)
+  wholePriorityOnly?: boolean;
+}
+
+/**
+ * Logistic mapping from raw cosine similarity to a 0-1 confidence
+ */
+export interface SimilarityCalibration {
+  // Similarity that maps to 50% confidence
+  midpoint: number;
+  // How quickly confidence rises around the midpoint
+  steepness: number;
+}
+
+/**
+ * Anything that can turn text into fixed-length vectors. Embedders whose raw
+ * similarities don't read as probabilities provide their own calibration.
+ */
+export interface Embedder {
+  readonly calibration?: SimilarityCalibration;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type ConfidenceFusion = 'noisy-or' | 'max' | 'mean';
+
+export interface MappingPipelineConfig {
+  strategies: StrategyConfig[];
+  fusion: ConfidenceFusion;
+  minConfidence: number;
+  clarificationThreshold: number;
+  maxTerms: number;
+  // Also map each clause of a multi-clause priority on its own
+  segmentClauses: boolean;
+  // A clause's terms must reach this to count; a few words give weak matches
+  minClauseConfidence: number;
+}
+
+export interface MappingEngine {
+  mapPriority(priority: string, context?: MappingContext): Promise<MappedPriority>;
+  mapPriorities(priorities: string[]): Promise<PriorityAnalysis>;
+}
@@ -0,0 +1,59 @@
+import type { RecommendationsData } from './api';
+import type { EmailDraft } from './email';
+import type { Locale } from './i18n';
+
+/**
+ * A network response kept in IndexedDB so it can stand in while offline
+ */
+export interface CachedDataset<T = unknown> {
+  key: string;
+  value: T;
+  fetchedAt: string;
+}
+
+export type OfflineDataSource = 'fec' | 'civic';
+
+/**
+ * How current the data behind a result is. Set when any of it came from the
+ * offline cache rather than the network.
+ */
+export interface DataFreshness {
+  offline: boolean;
+  // When each source was last fetched from the network
+  fetchedAt: Partial<Record<OfflineDataSource, string>>;
+  // Outbox item that will redo this analysis once back online
+  queuedId?: string;
+}
+
+export interface QueuedAnalysis {
+  values: {
+    mode: RecommendationsData['mode'];
+    zipCode: string;
+    address?: string;
+    priorities: string[];
+    // The replayed result comes back in the language the voter asked for
+    language?: Locale;
+  };
+  result: RecommendationsData;
+  // Drafts the voter edited by hand while offline, kept over the fresh ones
+  editedDrafts: EmailDraft[];
+}
+
+export interface OutboxItem {
+  id: string;
+  kind: 'analysis';
+  payload: QueuedAnalysis;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+  // Failed too often to retry on its own; kept until the voter retries or discards it
+  stalled?: boolean;
+}
+
+export interface OfflineStore {
+  getDataset<T>(key: string): Promise<CachedDataset<T> | null>;
+  putDataset<T>(dataset: CachedDataset<T>): Promise<void>;
+  listOutbox(): Promise<OutboxItem[]>;
+  putOutboxItem(item: OutboxItem): Promise<void>;
+  removeOutboxItem(id: string): Promise<void>;
+}
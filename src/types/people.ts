@@ -0,0 +1,83 @@
+import type { OfficeLevel } from './districts';
+
+/**
+ * Upstream a record came from
+ */
+export type DataSource = 'fec' | 'civic';
+
+export interface Party {
+  // Short stable code, e.g. DEM, REP, IND
+  id: string;
+  name: string;
+}
+
+export interface ContactChannel {
+  type: 'website' | 'email' | 'phone' | 'address' | 'social';
+  value: string;
+  // Social platform, e.g. twitter
+  platform?: string;
+}
+
+/**
+ * IDs a person has in each upstream source
+ */
+export interface ExternalIds {
+  // One FEC candidate id per office the person has run for
+  fec?: string[];
+  // Civic has no person ids, so this is the id we derived from name and office
+  civic?: string[];
+}
+
+export interface Person {
+  // FEC-based when the person has ever filed with the FEC, so it is stable across sources
+  id: string;
+  name: string;
+  party?: Party;
+  photoUrl?: string;
+  channels: ContactChannel[];
+  externalIds: ExternalIds;
+  sources: DataSource[];
+}
+
+export interface Office {
+  // OCD division id plus a role key, e.g. ocd-division/country:us/state:ca#us_senate
+  id: string;
+  name: string;
+  level: OfficeLevel;
+  divisionId: string;
+}
+
+/**
+ * A person currently holding an office
+ */
+export interface Term {
+  personId: string;
+  officeId: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export type CandidacyStatus = 'incumbent' | 'challenger' | 'open_seat' | 'unknown';
+
+/**
+ * A person running for an office in an election cycle
+ */
+export interface Candidacy {
+  id: string;
+  personId: string;
+  officeId: string;
+  cycle: number;
+  status: CandidacyStatus;
+  source: DataSource;
+  platformHighlights?: string[];
+}
+
+/**
+ * People, offices and the links between them from one or more sources
+ */
+export interface PeopleDataset {
+  people: Person[];
+  offices: Office[];
+  terms: Term[];
+  candidacies: Candidacy[];
+}
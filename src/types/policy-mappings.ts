@@ -1,3 +1,11 @@
+import type { ClarificationExchange } from './clarification';
+import type { MappingStrategyName } from './mapping-engine';
+import type { ConflictScope } from './conflicts';
+import type { ConflictDefinition } from './priority-mapping';
+import type { TermStance } from './stance';
+import type { NuancedMapping } from './terminology';
+import type { Locale } from './i18n';
+
 export interface PolicyData {
   standardTerm: string;
   plainLanguage?: string[];
@@ -11,6 +19,11 @@ export interface ConflictResult {
   priorities: string[];
   reason: string;
   severity: 'high' | 'medium' | 'low';
+  // Set for conflicts found by the conflict engine
+  type?: ConflictDefinition['type'];
+  scope?: ConflictScope;
+  explanation?: string;
+  possibleCompromises?: string[];
 }
 
 export interface PriorityAnalysis {
@@ -18,9 +31,63 @@ export interface PriorityAnalysis {
   conflicts: ConflictResult[];
 }
 
+/**
+ * What produced a match: a mapping strategy, or the voter's own answer to a
+ * clarification question
+ */
+export type MatchSource = MappingStrategyName | 'clarification';
+
+/**
+ * A single standardized policy term a priority was mapped to, with the fused
+ * confidence and the strategies that contributed to it.
+ */
+export interface PolicyTermMatch {
+  standardTerm: string;
+  termKey?: string;
+  category?: string;
+  confidence: number;
+  sources: MatchSource[];
+  evidence: string[];
+
+  // The voter's position on this term, which can differ between terms of one priority
+  stance?: TermStance;
+  stanceConfidence?: number;
+  stanceEvidence?: string[];
+  nuancedMapping?: NuancedMapping;
+}
+
+/**
+ * One clause of a multi-issue priority, mapped on its own
+ */
+export interface ClauseMapping {
+  text: string;
+  // Introduced by "but", "though", ... and usually qualifying the clause before
+  contrastive: boolean;
+  policyTerms: string[];
+  confidence: number;
+  // Stance on the clause's top term, read from the clause alone
+  stance?: TermStance;
+  matches: PolicyTermMatch[];
+}
+
+/**
+ * Opposing positions held within one priority, such as backing LGBTQ+ rights
+ * while objecting to trans women in locker rooms
+ */
+export interface PriorityTension {
+  clauses: string[];
+  terms: string[];
+  explanation: string;
+}
+
+/**
+ * Canonical mapping result produced by the MappingEngine.
+ * Every mapper and caller should produce/consume this shape.
+ */
 export interface MappedPriority {
   priority: string;
   policyTerms: string[];
+  // Derived from the top match's stance; per-term stances are on `matches`
   sentiment: 'positive' | 'negative' | 'neutral';
   confidence: number;
   needsClarification: boolean;
@@ -30,6 +97,19 @@ export interface MappedPriority {
   needsAddition?: boolean;
   additionPrompt?: string;
   suggestedCategory?: string;
+
+  // Ranked term matches from the mapping engine
+  matches?: PolicyTermMatch[];
+
+  // Questions the voter answered to pin down this priority
+  clarification?: ClarificationExchange;
+
+  // Language the priority was written in; its terms are still English standard terms
+  language?: Locale;
+
+  // Set when the priority has more than one clause; `matches` combines them
+  clauses?: ClauseMapping[];
+  tensions?: PriorityTension[];
   
   // Legacy fields for backward compatibility
   original?: string;
@@ -11,7 +11,10 @@ export interface PoliticalIssue {
   policyApproaches?: Array<{
     name: string;
     description: string;
+    // Snake-cased names of approaches (on any issue) this one contradicts
     conflictingApproaches?: string[];
+    // Phrases that signal a voter favours this approach
+    keywords?: string[];
   }>;
 }
 
@@ -37,15 +40,6 @@ export type PoliticalCategory =
   | 'CRIMINAL_JUSTICE'
   | 'ELECTORAL_REFORM';
 
-export interface MappedPriority {
-  userPriority: string;
-  mappedIssues: Array<{
-    issue: PoliticalIssue;
-    confidence: number;
-    matchedTerms: string[];
-  }>;
-}
-
 export interface ConflictDefinition {
   issues: [string, string];
   reason: string;
@@ -53,9 +47,3 @@ export interface ConflictDefinition {
   type: 'policy' | 'resource' | 'ideology' | 'implementation';
   possibleCompromises?: string[];
 }
-
-export interface PriorityAnalysis {
-  mappedPriorities: MappedPriority[];
-  dominantCategories: PoliticalCategory[];
-  potentialConflicts: ConflictDefinition[];
-}
@@ -1,4 +1,9 @@
 import { Mode } from '@/types/mode';
+import type { MeasureConcern } from './ballot-measures';
+import type { EmailDraft } from './email';
+import type { Locale } from './i18n';
+
+export type { EmailDraft };
 
 export type AlignmentLevel = '✅' | '⚠️' | '❌';
 
@@ -11,6 +16,8 @@ export interface CandidateRecommendation {
   rationale: string;
   officialWebsite: string;
   party?: string;
+  // Canonical person id, shared with Candidate
+  personId?: string;
 }
 
 export interface BallotMeasure {
@@ -22,18 +29,10 @@ export interface BallotMeasure {
   opposers: string[];
   userConcernMapping: string;
   ballotpediaLink: string;
-}
-
-export interface EmailDraft {
-  recipient: {
-    name: string;
-    title: string;
-    email: string;
-  };
-  subject: string;
-  content: string;
-  category: 'aligned' | 'opposing' | 'key_decision_maker';
-  stance: 'supportive' | 'mixed' | 'opposed';
+  yesMeans?: string;
+  noMeans?: string;
+  concerns?: MeasureConcern[];
+  relevance?: number;
 }
 
 export interface InterestGroup {
@@ -67,6 +66,7 @@ export interface DashboardData {
   mode: Mode;
   zipCode: string;
   region: string;
+  language?: Locale;
   priorities: {
     original: string;
     mapped: string[];
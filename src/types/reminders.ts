@@ -0,0 +1,18 @@
+import type { ReminderCategory } from '../../supabase/functions/_shared/reminders/types.ts';
+
+// Reminder types live with the scheduler in the edge-function shared code
+export type {
+  PushPayload,
+  Reminder,
+  ReminderCategory,
+  WebPushSubscription
+} from '../../supabase/functions/_shared/reminders/types.ts';
+
+/**
+ * What this browser is subscribed to
+ */
+export interface ReminderPreferences {
+  zipCode: string;
+  categories: ReminderCategory[];
+  createdAt: string;
+}
@@ -0,0 +1,39 @@
+import type { RecommendationsData } from './api';
+
+/**
+ * `full` shares the voter's own priority text; `terms_only` shares only the
+ * policy terms it was mapped to
+ */
+export type SnapshotPrivacy = 'full' | 'terms_only';
+
+export type SnapshotExpiry = '1d' | '7d' | '30d' | 'never';
+
+export interface ShareOptions {
+  privacy: SnapshotPrivacy;
+  expiry: SnapshotExpiry;
+}
+
+/**
+ * A snapshot as the public guide page reads it
+ */
+export interface SharedGuide {
+  id: string;
+  snapshot: RecommendationsData;
+  privacy: SnapshotPrivacy;
+  createdAt: string;
+  expiresAt?: string;
+}
+
+/**
+ * A link this browser created, kept so the sharer can revoke it later
+ */
+export interface CreatedShare {
+  id: string;
+  url: string;
+  // Secret that revokes the link; only its hash is stored on the server
+  revokeToken: string;
+  privacy: SnapshotPrivacy;
+  createdAt: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
@@ -0,0 +1,25 @@
+import type { NuancedMapping } from './terminology';
+
+/**
+ * A voter's position on one mapped policy term. `mixed` covers "X but Y"
+ * statements that back a policy while objecting to part of it.
+ */
+export type TermStance = 'support' | 'oppose' | 'mixed';
+
+export interface StanceAssessment {
+  stance: TermStance;
+  confidence: number;
+  // The words and clauses the stance was read from
+  evidence: string[];
+  // Terminology nuancedMapping flags, set from this stance
+  nuancedMapping?: NuancedMapping;
+}
+
+/**
+ * A clause of a priority. Clauses introduced by "but", "though", "however", ...
+ * are contrastive and usually qualify the clause before them.
+ */
+export interface PriorityClause {
+  text: string;
+  contrastive: boolean;
+}
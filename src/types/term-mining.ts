@@ -0,0 +1,48 @@
+import { Embedder } from '@/types/mapping-engine';
+
+/**
+ * A group of unmapped inputs that seem to be about the same thing
+ */
+export interface UnmappedCluster {
+  // Distinct inputs, most frequent first
+  inputs: string[];
+  // How often the inputs were logged, counting repeats
+  occurrences: number;
+  // Mean pairwise similarity of the inputs; 1 for a single input
+  cohesion: number;
+}
+
+/**
+ * A new term proposed from one cluster, in the shape reviewers see in the
+ * terminology pending queue
+ */
+export interface TermProposal {
+  standardTerm: string;
+  plainLanguage: string[];
+  category: string;
+  cluster: UnmappedCluster;
+  // Logged inputs, repeats included, that at least one phrase would match
+  estimatedCaptures: number;
+  // estimatedCaptures as a share of every logged input
+  captureRate: number;
+}
+
+export interface TermMiningOptions {
+  // Defaults to the active embedder (hashing until the local model loads)
+  embedder?: Embedder;
+  // Clusters merge while their average similarity is at least this
+  similarityThreshold?: number;
+  // Smaller clusters are left unclustered rather than proposed
+  minClusterSize?: number;
+  maxPhrases?: number;
+  // Phrases the terminology already has; proposals never repeat them
+  knownPhrases?: string[];
+}
+
+export interface TermMiningResult {
+  proposals: TermProposal[];
+  // Inputs in clusters too small to propose a term for
+  unclustered: string[];
+  // Every logged input, repeats included
+  totalInputs: number;
+}
@@ -41,3 +41,43 @@ export interface IssueTerminology {
   fallback: PolicyTerm;
   [key: string]: PolicyTerm | ComplexIssueTerm | ComplexIssueTerm[] | PolicyTerm[];
 }
+
+/**
+ * Review state of a voter-suggested term. `merged` terms were folded into an
+ * existing term as synonyms.
+ */
+export type IssueTermStatus = 'pending' | 'approved' | 'rejected' | 'merged';
+
+export interface IssueTerm {
+  id: string;
+  term: string;
+  category: string;
+  synonyms: string[];
+  mappedPolicies: string[];
+  dateAdded: string;
+  status: IssueTermStatus;
+  // Raw voter inputs that led to this term being suggested
+  sourceInputs?: string[];
+  reviewReason?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  mergedInto?: string;
+  // Key of the canonical terminology term it was merged into
+  mergedIntoTermKey?: string;
+}
+
+export type TerminologyReviewAction = 'submit' | 'update' | 'approve' | 'reject' | 'merge';
+
+/**
+ * One change to a term, recorded by the terminology-review edge function
+ */
+export interface TerminologyAuditEntry {
+  id: string;
+  termId: string;
+  action: TerminologyReviewAction;
+  actorId?: string;
+  actorEmail?: string;
+  reason?: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: string;
+}
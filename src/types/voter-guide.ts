@@ -0,0 +1,53 @@
+import type { Locale } from './i18n';
+
+/**
+ * Building blocks of a voter guide section. Renderers lay these out for PDF or print.
+ */
+export type GuideBlock =
+  | { kind: 'heading'; text: string }
+  | { kind: 'paragraph'; text: string; muted?: boolean }
+  | { kind: 'list'; items: string[] }
+  | {
+      kind: 'entry';
+      title: string;
+      subtitle?: string;
+      // Short label shown beside the title, e.g. "Strong match"
+      badge?: string;
+      lines: string[];
+      link?: string;
+    }
+  | { kind: 'table'; columns: string[]; rows: string[][] };
+
+export interface GuideSection {
+  id: string;
+  title: string;
+  blocks: GuideBlock[];
+}
+
+/**
+ * One line of the tear-off sheet: a contest and what the voter leans toward
+ */
+export interface PollSheetItem {
+  contest: string;
+  choice: string;
+  note?: string;
+}
+
+export interface PollSheet {
+  title: string;
+  items: PollSheetItem[];
+  // Dates and reminders printed under the choices
+  reminders: string[];
+}
+
+export interface VoterGuide {
+  title: string;
+  subtitle: string;
+  generatedOn: string;
+  zipCode: string;
+  region?: string;
+  // Language the guide's own wording is in; renderers label pages in it too
+  language: Locale;
+  sections: GuideSection[];
+  pollSheet: PollSheet;
+}
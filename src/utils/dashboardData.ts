@@ -0,0 +1,102 @@
+import { BallotMeasure, Candidate, RecommendationsData } from '@/types/api';
+import {
+  BallotMeasure as DashboardBallotMeasure,
+  CandidateRecommendation,
+  DashboardData
+} from '@/types/recommendations';
+
+export function toCandidateRecommendation(candidate: Candidate): CandidateRecommendation {
+  return {
+    name: candidate.name,
+    office: candidate.office || 'Unknown Office',
+    summary: candidate.positionSummary || '',
+    match: candidate.match || (candidate.alignment === '✅' ? 'full' : candidate.alignment === '⚠️' ? 'partial' : 'conflict'),
+    platformHighlights: candidate.platformHighlights || [],
+    rationale: candidate.rationale || '',
+    officialWebsite: candidate.officialWebsite || '#',
+    party: candidate.party || '',
+    personId: candidate.personId
+  };
+}
+
+export function toDashboardBallotMeasure(measure: BallotMeasure): DashboardBallotMeasure {
+  return {
+    id: measure.id || measure.title.replace(/\s+/g, '-').toLowerCase(),
+    title: measure.title,
+    summary: measure.summary || measure.description,
+    link: measure.ballotpediaLink || undefined,
+    supporters: measure.supporters,
+    opposers: measure.opposers,
+    userConcernMapping: measure.userConcernMapping,
+    ballotpediaLink: measure.ballotpediaLink,
+    yesMeans: measure.yesMeans,
+    noMeans: measure.noMeans,
+    concerns: measure.concerns,
+    relevance: measure.relevance
+  };
+}
+
+/**
+ * The dashboard's view of a recommendations response: candidates grouped by
+ * office, and each priority with its mapped terms, open questions and conflicts
+ */
+export function toDashboardData(data: RecommendationsData): DashboardData {
+  const { recommendations, analysis } = data;
+
+  const candidates: Record<string, CandidateRecommendation[]> = {};
+  for (const candidate of recommendations.candidates || []) {
+    const recommendation = toCandidateRecommendation(candidate);
+    candidates[recommendation.office] = [...(candidates[recommendation.office] || []), recommendation];
+  }
+
+  const priorities = analysis.mappedPriorities.map(mapped => {
+    const original = mapped.original || mapped.priority || '';
+    const conflicts = analysis.conflicts
+      .filter(conflict => conflict.priority1 === original || conflict.priority2 === original)
+      .map(conflict => conflict.reason);
+    return {
+      original,
+      mapped: mapped.policyTerms || mapped.mappedTerms || [],
+      weight: 1,
+      ambiguities: mapped.needsClarification && mapped.clarificationReason ? [mapped.clarificationReason] : undefined,
+      conflicts: conflicts.length > 0 ? conflicts : undefined
+    };
+  });
+
+  return {
+    mode: data.mode,
+    zipCode: data.zipCode,
+    region: data.region,
+    language: data.language,
+    priorities,
+    recommendations: {
+      candidates,
+      ballotMeasures: (recommendations.ballotMeasures || []).map(toDashboardBallotMeasure),
+      emailDrafts: recommendations.emailDrafts || [],
+      interestGroups: (recommendations.interestGroups || []).map(group => ({
+        name: group.name,
+        description: group.description,
+        website: group.website,
+        priorities: [],
+        relevance: group.reason || ''
+      })),
+      petitions: (recommendations.petitions || []).map(petition => ({
+        title: petition.title,
+        description: petition.description,
+        link: petition.changeOrgUrl,
+        relevantPriorities: [],
+        changeOrgUrl: petition.changeOrgUrl,
+        relevance: petition.relevance || ''
+      })),
+      civicEducation: (recommendations.educationResources || []).map(resource => ({
+        title: resource.topic,
+        description: resource.description,
+        source: resource.source as DashboardData['recommendations']['civicEducation'][number]['source'],
+        link: resource.url,
+        url: resource.url,
+        topics: [resource.topic],
+        type: resource.type === 'explainer' ? 'article' : resource.type
+      }))
+    }
+  };
+}
@@ -0,0 +1,49 @@
+// Map of common term fragments to display categories
+const categoryMap: Record<string, string> = {
+  'rights': 'Civil Rights',
+  'freedom': 'Civil Liberties',
+  'liberty': 'Civil Liberties',
+  'expression': 'Civil Liberties',
+  'speech': 'Civil Liberties',
+  'climate': 'Environment',
+  'environment': 'Environment',
+  'tax': 'Economy',
+  'economic': 'Economy',
+  'inequality': 'Economy',
+  'education': 'Education',
+  'college': 'Education',
+  'school': 'Education',
+  'health': 'Healthcare',
+  'mental': 'Healthcare',
+  'therapy': 'Healthcare',
+  'police': 'Criminal Justice',
+  'criminal': 'Criminal Justice',
+  'immigration': 'Immigration',
+  'religion': 'Religion',
+  'faith': 'Religion',
+  'church': 'Religion',
+  'election': 'Democracy',
+  'voting': 'Democracy',
+  'privacy': 'Technology',
+  'data': 'Technology',
+  'digital': 'Technology',
+  'lgbtq': 'Civil Rights',
+  'trans': 'Civil Rights',
+  'queer': 'Civil Rights',
+  'gender': 'Civil Rights'
+};
+
+/**
+ * Determine a display category based on mapped policy terms
+ */
+export function categorizeTerms(mappedTerms: string[]): string {
+  for (const term of mappedTerms) {
+    for (const [keyword, category] of Object.entries(categoryMap)) {
+      if (term.toLowerCase().includes(keyword)) {
+        return category;
+      }
+    }
+  }
+
+  return 'Other';
+}
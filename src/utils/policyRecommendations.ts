@@ -1,5 +1,5 @@
-import { ConflictResult } from './priorityConflicts';
-import issueTerminology from '@/config/issueTerminology.json';
+import { ConflictResult } from '@/types/api';
+import { issueTerminology } from '@/services/terminology';
 
 export interface PolicyRecommendation {
   title: string;
@@ -1,8 +1,27 @@
 import { MappedPriority, ConflictResult } from '@/types/policy-mappings';
-import { initialPolicyMappings } from '@/data/policy-mappings';
+import { ConflictResult as ApiConflictResult } from '@/types/api';
+import { TermStance } from '@/types/stance';
+import { conflictEngine } from '@/services/conflict-engine';
+
+export type { ConflictResult };
+
+const pairKey = (priorities: string[]) => [...priorities].sort().join('|');
 
 export function detectPriorityConflicts(mappedPriorities: MappedPriority[]): ConflictResult[] {
-  const conflicts: ConflictResult[] = [];
+  // Conflicts found in the political issue data come with explanations and
+  // compromises, so they win over the category checks below
+  const conflicts: ConflictResult[] = conflictEngine
+    .detect(mappedPriorities)
+    .map(conflict => ({
+      priorities: conflict.priorities,
+      reason: conflict.reason,
+      severity: conflict.severity,
+      type: conflict.type,
+      scope: conflict.scope,
+      explanation: conflict.explanation,
+      possibleCompromises: conflict.possibleCompromises
+    }));
+  const seen = new Set(conflicts.map(conflict => pairKey(conflict.priorities)));
 
   // Compare each priority with every other priority
   for (let i = 0; i < mappedPriorities.length; i++) {
@@ -12,7 +31,7 @@ export function detectPriorityConflicts(mappedPriorities: MappedPriority[]): Con
 
       // Check for known conflicts based on categories
       const conflict = checkForConflict(priority1, priority2);
-      if (conflict) {
+      if (conflict && !seen.has(pairKey([priority1.original, priority2.original]))) {
         conflicts.push({
           priorities: [priority1.original, priority2.original],
           reason: conflict.reason,
@@ -25,6 +44,20 @@ export function detectPriorityConflicts(mappedPriorities: MappedPriority[]): Con
   return conflicts;
 }
 
+/**
+ * Convert conflicts to the pairwise shape used by the API and UI
+ */
+export function toApiConflicts(conflicts: ConflictResult[]): ApiConflictResult[] {
+  return conflicts.map(conflict => ({
+    priority1: conflict.priorities[0] || '',
+    priority2: conflict.priorities[1] || '',
+    reason: conflict.reason,
+    severity: conflict.severity,
+    explanation: conflict.explanation,
+    possibleCompromises: conflict.possibleCompromises
+  }));
+}
+
 interface ConflictDefinition {
   reason: string;
   severity: 'high' | 'medium' | 'low';
@@ -51,6 +84,9 @@ const knownConflicts: Record<string, Record<string, ConflictDefinition>> = {
   }
 };
 
+const isOpposed = (a?: TermStance, b?: TermStance) =>
+  (a === 'support' && b === 'oppose') || (a === 'oppose' && b === 'support');
+
 function checkForConflict(priority1: MappedPriority, priority2: MappedPriority): ConflictDefinition | null {
   // Check direct category conflicts
   if (knownConflicts[priority1.category]?.[priority2.category]) {
@@ -62,7 +98,19 @@ function checkForConflict(priority1: MappedPriority, priority2: MappedPriority):
     return knownConflicts[priority2.category][priority1.category];
   }
 
-  // Check sentiment conflicts within same category
+  // Opposite stances on the same policy term
+  for (const match1 of priority1.matches || []) {
+    const match2 = priority2.matches?.find(m => m.standardTerm === match1.standardTerm);
+    if (match2 && isOpposed(match1.stance, match2.stance)) {
+      return {
+        reason: `Conflicting stances on ${match1.standardTerm}`,
+        severity: "medium"
+      };
+    }
+  }
+  if (priority1.matches || priority2.matches) return null;
+
+  // Without term matches, fall back to sentiment within the same category
   if (priority1.category === priority2.category && 
       priority1.sentiment !== priority2.sentiment &&
       priority1.sentiment !== 'neutral' &&
@@ -14,53 +14,84 @@ declare global {
 }
 
 export function registerServiceWorker() {
-  if ('serviceWorker' in navigator) {
-    window.addEventListener('load', async () => {
-      try {
-        const registration = await navigator.serviceWorker.register(
-          '/service-worker.js',
-          { scope: '/' }
-        );
-        
-        // Request notification permission
-        if ('Notification' in window) {
-          const permission = await Notification.requestPermission();
-          if (permission === 'granted') {
-            await enablePushNotifications(registration);
-          }
-        }
-
-        // Enable background sync
-        if ('sync' in registration) {
-          await registration.sync.register('sync-priorities');
-        }
-
-        console.log('Service Worker registered successfully:', registration.scope);
-      } catch (error) {
-        console.error('Service Worker registration failed:', error);
-      }
-    });
+  if (!('serviceWorker' in navigator)) return;
+
+  const register = async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(
+        '/service-worker.js',
+        { scope: '/' }
+      );
+      console.log('Service Worker registered successfully:', registration.scope);
+    } catch (error) {
+      console.error('Service Worker registration failed:', error);
+    }
+  };
+
+  // Registering after load keeps the worker's pre-caching off the critical path
+  if (document.readyState === 'complete') {
+    void register();
+  } else {
+    window.addEventListener('load', register, { once: true });
   }
 }
 
-async function enablePushNotifications(registration: ServiceWorkerRegistration) {
-  try {
-    const subscription = await registration.pushManager.subscribe({
-      userVisibleOnly: true,
-      applicationServerKey: urlBase64ToUint8Array(import.meta.env.VITE_VAPID_PUBLIC_KEY || ''),
-    });
-
-    // Send subscription to backend
-    await fetch('/api/push/subscribe', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(subscription),
-    });
-  } catch (error) {
-    console.error('Failed to enable push notifications:', error);
+/**
+ * Listen for messages the service worker posts to this page, such as its
+ * request to replay the offline outbox. `reply` answers on the port the
+ * worker sent along, if any.
+ */
+export function onServiceWorkerMessage(
+  listener: (message: { type: string }, reply: (data: unknown) => void) => void
+): () => void {
+  if (!('serviceWorker' in navigator)) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data && typeof event.data.type === 'string') {
+      listener(event.data, (data) => event.ports[0]?.postMessage(data));
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
+
+/**
+ * Ask for notification permission and subscribe this browser to push,
+ * reusing an existing subscription. Push needs the voter's permission, so it
+ * is enabled on request rather than at registration.
+ */
+export async function enablePushNotifications(): Promise<PushSubscription> {
+  const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+  if (!vapidPublicKey) {
+    throw new Error('Push notifications are not configured (VITE_VAPID_PUBLIC_KEY is not set)');
+  }
+  if (!('serviceWorker' in navigator) || !('PushManager' in window) || !('Notification' in window)) {
+    throw new Error('This browser does not support push notifications');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site');
   }
+
+  const registration = await navigator.serviceWorker.ready;
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) return existing;
+
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+  });
+}
+
+/**
+ * This browser's push subscription, if it has one
+ */
+export async function currentPushSubscription(): Promise<PushSubscription | null> {
+  if (!('serviceWorker' in navigator) || !('PushManager' in window)) return null;
+  // Unlike `ready`, this doesn't wait forever when no worker is registered
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
 }
 
 // Convert VAPID key from base64 to Uint8Array
@@ -1,8 +1,18 @@
-// This file provides utility functions for mapping user priorities to policy terms
-// using a simplified rule-based approach
+// This file provides utility functions for mapping user priorities to policy terms.
+// Rule-based terminology matching runs first; a locally bundled sentence-embedding
+// model catches paraphrases the rules miss, without any network calls.
 
-import issueTerminology from '@/config/issueTerminology.json';
+import { issueTerminology } from '@/services/terminology';
 import { detectPriorityConflicts, ConflictResult } from './priorityConflicts';
+import {
+  EmbeddingMappingStrategy,
+  TerminologyMappingStrategy,
+  initializeSemanticEmbeddings,
+  isSemanticEmbedderReady
+} from '@/services/mapping-engine';
+
+const terminologyStrategy = new TerminologyMappingStrategy();
+const embeddingStrategy = new EmbeddingMappingStrategy();
 
 // Keep track of model initialization status
 let isModelInitialized = false;
@@ -11,9 +21,13 @@ export const initializeModel = async () => {
   if (isModelInitialized) return true;
   
   try {
-    console.info('Initializing rule-based classifier...');
-    isModelInitialized = true;
-    return true;
+    console.info('Loading local embedding model...');
+    const loaded = await initializeSemanticEmbeddings();
+    if (!loaded) {
+      console.warn('Local embedding model unavailable, using rule-based classification');
+    }
+    isModelInitialized = loaded;
+    return loaded;
   } catch (e) {
     console.error('Failed to initialize classifier:', e);
     return false;
@@ -59,53 +73,36 @@ export const mapUserPriorities = async (userPriorities: string[]): Promise<Mappi
   };
 };
 
+// Map a single user priority to formal policy terms with confidence scores
+const scoreUserPriority = async (userPriority: string): Promise<Map<string, number>> => {
+  const scores = new Map<string, number>();
+  
+  // Use the mapping engine's strategies so results agree with the main pipeline
+  const matches = [
+    ...await terminologyStrategy.map(userPriority),
+    ...(isSemanticEmbedderReady() ? await embeddingStrategy.map(userPriority) : [])
+  ];
+  for (const match of matches) {
+    scores.set(match.standardTerm, Math.max(scores.get(match.standardTerm) || 0, match.confidence));
+  }
+  
+  return new Map([...scores.entries()].sort((a, b) => b[1] - a[1]));
+};
+
 // Map a single user priority to formal policy terms
 export const mapUserPriority = async (userPriority: string): Promise<string[]> => {
   if (!userPriority || userPriority.trim() === '') {
     return [];
   }
   
-  // Normalize the user input
-  const normalizedInput = userPriority.toLowerCase();
-  
-  // Check exact matches in issueTerminology
-  const matches = [];
-  
-  // First, look for direct matches in plainLanguage arrays
-  for (const [termKey, termData] of Object.entries(issueTerminology)) {
-    // Skip 'fallback' and 'issues' entries
-    if (termKey === 'fallback' || termKey === 'issues') continue;
-    
-    const termInfo = termData as any;
-    
-    // Check for direct matches in plainLanguage array
-    if (termInfo.plainLanguage && Array.isArray(termInfo.plainLanguage)) {
-      for (const phrase of termInfo.plainLanguage) {
-        if (normalizedInput.includes(phrase.toLowerCase())) {
-          matches.push(termInfo.standardTerm);
-          break;
-        }
-      }
-    }
-    
-    // Check inclusion words if no direct match found
-    if (matches.length === 0 && termInfo.inclusionWords && Array.isArray(termInfo.inclusionWords)) {
-      const matchCount = termInfo.inclusionWords.filter((word: string) => 
-        normalizedInput.includes(word.toLowerCase())
-      ).length;
-      
-      if (matchCount > 0) {
-        matches.push(termInfo.standardTerm);
-      }
-    }
-  }
+  const terms = [...(await scoreUserPriority(userPriority)).keys()];
   
   // If no matches found, try the fallback
-  if (matches.length === 0 && issueTerminology.fallback) {
-    matches.push(issueTerminology.fallback.standardTerm);
+  if (terms.length === 0 && issueTerminology.fallback) {
+    terms.push(issueTerminology.fallback.standardTerm);
   }
   
-  return matches;
+  return terms;
 };
 
 // Add the classifyPoliticalStatement function with rule-based approach
@@ -119,13 +116,13 @@ export const classifyPoliticalStatement = async (statement: string): Promise<{ t
   
   try {
     // Map the statement to policy terms
-    const mappedTerms = await mapUserPriority(statement);
+    const scores = await scoreUserPriority(statement);
+    const mappedTerms = scores.size > 0 ? [...scores.keys()] : await mapUserPriority(statement);
     
     // Create confidence scores
     const confidenceScores = {};
-    mappedTerms.forEach((term, index) => {
-      // Assign decreasing confidence scores based on position
-      confidenceScores[term] = 0.9 - (index * 0.1);
+    mappedTerms.forEach(term => {
+      confidenceScores[term] = scores.get(term) ?? 0;
     });
     
     return {
@@ -0,0 +1,31 @@
+/// <reference lib="webworker" />
+import { TransformersEmbedder } from '@/services/mapping-engine/embedders/transformers-embedder';
+import type {
+  EmbeddingWorkerRequest,
+  EmbeddingWorkerResponse
+} from '@/services/mapping-engine/embedders/worker-embedder';
+
+let embedder: TransformersEmbedder | null = null;
+
+const respond = (response: EmbeddingWorkerResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<EmbeddingWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'load') {
+      embedder = new TransformersEmbedder(request.options);
+      await embedder.load();
+      respond({ id: request.id, ok: true });
+      return;
+    }
+
+    if (!embedder) {
+      embedder = new TransformersEmbedder();
+    }
+    const vectors = await embedder.embed(request.texts);
+    respond({ id: request.id, ok: true, vectors });
+  } catch (error) {
+    respond({ id: request.id, ok: false, error: error instanceof Error ? error.message : String(error) });
+  }
+};
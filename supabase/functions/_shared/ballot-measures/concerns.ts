@@ -0,0 +1,51 @@
+import { ConcernPreference, MeasureConcern, MeasureIssuePosition } from './types.ts';
+
+// Concerns weaker than this aren't worth showing the voter
+const MIN_RELEVANCE = 0.1;
+
+// Longest list of priorities named in a concern description
+const MAX_LISTED = 2;
+
+/**
+ * Match a measure's policy terms against the voter's preferences. Relevance is
+ * how much the voter cares about the term (relative to their top issue) times
+ * how central the term is to the measure.
+ */
+export function mapMeasureConcerns(
+  preferences: ConcernPreference[],
+  positions: MeasureIssuePosition[]
+): MeasureConcern[] {
+  const maxWeight = Math.max(0, ...preferences.map(preference => preference.weight));
+  if (maxWeight === 0) return [];
+
+  const byTerm = new Map(positions.map(position => [position.standardTerm.toLowerCase(), position]));
+
+  return preferences
+    .map(preference => {
+      const position = byTerm.get(preference.standardTerm.toLowerCase());
+      if (!position) return undefined;
+      return {
+        standardTerm: preference.standardTerm,
+        priority: preference.priority,
+        relevance: (preference.weight / maxWeight) * position.strength,
+        voterStance: preference.stance,
+        measureStance: position.stance
+      };
+    })
+    .filter((concern): concern is MeasureConcern => !!concern && concern.relevance >= MIN_RELEVANCE)
+    .sort((a, b) => b.relevance - a.relevance);
+}
+
+/**
+ * One-line description of the concerns, kept for views that only show text
+ */
+export function describeConcerns(concerns: MeasureConcern[]): string {
+  if (concerns.length === 0) {
+    return "This measure doesn't touch any of your stated priorities.";
+  }
+
+  const priorities = Array.from(new Set(concerns.map(concern => concern.priority)));
+  const listed = priorities.slice(0, MAX_LISTED).map(priority => `"${priority}"`).join(' and ');
+  const more = priorities.length > MAX_LISTED ? ` and ${priorities.length - MAX_LISTED} more` : '';
+  return `Relates to your priorit${priorities.length > 1 ? 'ies' : 'y'} ${listed}${more} (${concerns[0].standardTerm}).`;
+}
@@ -0,0 +1,15 @@
+export { normalizeMeasure, normalizeStatus, measureId } from './normalizer.ts';
+export { summarizeMeasure } from './summarizer.ts';
+export { toBallotMeasures } from './rank.ts';
+export { describeConcerns, mapMeasureConcerns } from './concerns.ts';
+export type {
+  ConcernPreference,
+  MeasureConcern,
+  MeasureIssuePosition,
+  MeasureSource,
+  MeasureStatus,
+  MeasureSummary,
+  NormalizedBallotMeasure,
+  RawBallotMeasure,
+  SummarizedBallotMeasure
+} from './types.ts';
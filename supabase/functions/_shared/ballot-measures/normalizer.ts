@@ -0,0 +1,68 @@
+import {
+  MeasureIssuePosition,
+  MeasureSource,
+  MeasureStatus,
+  NormalizedBallotMeasure,
+  RawBallotMeasure
+} from './types.ts';
+
+type Stance = MeasureIssuePosition['stance'];
+
+const STANCES: Stance[] = ['support', 'oppose', 'mixed'];
+
+export function normalizeStatus(status?: string): MeasureStatus | undefined {
+  if (!status) return undefined;
+
+  const normalized = status.toLowerCase();
+  if (normalized.includes('upcoming')) return 'upcoming';
+  if (normalized.includes('active')) return 'active';
+  if (normalized.includes('passed') || normalized.includes('approved')) return 'passed';
+  if (normalized.includes('failed') || normalized.includes('rejected')) return 'failed';
+  return undefined;
+}
+
+const clean = (value?: string) => value?.replace(/\s+/g, ' ').trim() || undefined;
+
+const cleanList = (values?: string[]) =>
+  Array.from(new Set((values || []).map(value => clean(value)).filter((value): value is string => !!value)));
+
+export const measureId = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+function normalizePositions(terms: RawBallotMeasure['policy_terms']): MeasureIssuePosition[] | undefined {
+  if (!terms?.length) return undefined;
+
+  return terms
+    .filter(term => term.standardTerm && STANCES.includes(term.stance as Stance))
+    .map(term => ({
+      standardTerm: term.standardTerm,
+      stance: term.stance as Stance,
+      strength: Math.max(0, Math.min(1, term.strength ?? 1))
+    }));
+}
+
+/**
+ * Turn a raw Ballotpedia or fixture record into the shape the rest of the app uses
+ */
+export function normalizeMeasure(raw: RawBallotMeasure, source: MeasureSource): NormalizedBallotMeasure {
+  const title = clean(raw.title) || clean(raw.name) || 'Untitled Measure';
+
+  return {
+    id: raw.id !== undefined ? String(raw.id) : measureId(title),
+    title,
+    description: clean(raw.summary) || clean(raw.description) || 'No description available',
+    supporters: cleanList(raw.supporters),
+    opposers: cleanList(raw.opponents),
+    ballotpediaLink: raw.url || '',
+    source,
+    state: raw.state?.toUpperCase(),
+    electionDate: raw.election_date,
+    status: normalizeStatus(raw.measure_status),
+    type: clean(raw.measure_type),
+    topic: clean(raw.topic) || clean(raw.category),
+    fiscalImpact: clean(raw.fiscal_note),
+    yesVote: clean(raw.yes_vote),
+    noVote: clean(raw.no_vote),
+    positions: normalizePositions(raw.policy_terms)
+  };
+}
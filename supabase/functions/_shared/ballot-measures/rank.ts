@@ -0,0 +1,87 @@
+import { BallotMeasure } from '../../types/ballotpedia.ts';
+import { MappedPriority } from '../../types/mapping.ts';
+import { loadTerminology, TerminologyTerm } from '../terminology/index.ts';
+import { describeConcerns, mapMeasureConcerns } from './concerns.ts';
+import { normalizeMeasure } from './normalizer.ts';
+import { summarizeMeasure } from './summarizer.ts';
+import { ConcernPreference, MeasureConcern, MeasureIssuePosition, NormalizedBallotMeasure, RawBallotMeasure } from './types.ts';
+
+// Words too common to tie a measure to a policy term
+const STOP_WORDS = new Set(['and', 'the', 'for', 'with', 'from', 'that', 'this', 'policy', 'policies', 'reform']);
+
+const significantWords = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3 && !STOP_WORDS.has(word));
+
+const termsByName = () => new Map<string, TerminologyTerm>(
+  Object.values(loadTerminology().terms).map(term => [term.standardTerm.toLowerCase(), term])
+);
+
+/**
+ * How central a policy term is to an unlabeled measure, 0-1. A voter phrase
+ * for the term in the measure text counts fully; the term's own name counts
+ * by how many of its words appear.
+ */
+function termStrength(text: string, standardTerm: string, term?: TerminologyTerm): number {
+  const lower = text.toLowerCase();
+  if (term?.plainLanguage.some(phrase => lower.includes(phrase.toLowerCase()))) return 1;
+
+  const words = significantWords(standardTerm);
+  if (words.length === 0) return 0;
+  const measureWords = new Set(significantWords(text));
+  return words.filter(word => measureWords.has(word)).length / words.length;
+}
+
+/**
+ * Without the mapping engine here, a measure relates to a priority's terms
+ * through the measure's labeled positions or the terminology's voter phrases.
+ * Text matches don't say which way a YES vote goes, so they count as mixed.
+ */
+function mapConcerns(measure: NormalizedBallotMeasure, mappedPriorities: MappedPriority[]): MeasureConcern[] {
+  const preferences: ConcernPreference[] = mappedPriorities.flatMap(mapped => mapped.policyTerms.map(standardTerm => ({
+    standardTerm,
+    priority: mapped.priority,
+    stance: mapped.sentiment === 'negative' ? 'oppose' as const : 'support' as const,
+    weight: mapped.confidence
+  })));
+
+  let positions: MeasureIssuePosition[] = measure.positions || [];
+  if (positions.length === 0) {
+    const text = [measure.title, measure.description, measure.topic].filter(Boolean).join(' ');
+    const terms = termsByName();
+    positions = Array.from(new Set(preferences.map(preference => preference.standardTerm))).map(standardTerm => ({
+      standardTerm,
+      stance: 'mixed',
+      strength: termStrength(text, standardTerm, terms.get(standardTerm.toLowerCase()))
+    }));
+  }
+
+  return mapMeasureConcerns(preferences, positions);
+}
+
+/**
+ * Normalize raw Ballotpedia records, summarize them in neutral plain language,
+ * and rank them by relevance to the voter's mapped priorities
+ */
+export function toBallotMeasures(raw: RawBallotMeasure[], mappedPriorities: MappedPriority[]): BallotMeasure[] {
+  return raw
+    .map((record): BallotMeasure => {
+      const measure = normalizeMeasure(record, 'ballotpedia');
+      const concerns = mapConcerns(measure, mappedPriorities);
+
+      return {
+        id: measure.id,
+        title: measure.title,
+        description: measure.description,
+        supporters: measure.supporters,
+        opposers: measure.opposers,
+        ballotpediaLink: measure.ballotpediaLink,
+        electionDate: measure.electionDate,
+        fiscalImpact: measure.fiscalImpact,
+        ...summarizeMeasure(measure),
+        concerns,
+        relevance: concerns[0]?.relevance ?? 0,
+        userConcernMapping: describeConcerns(concerns)
+      };
+    })
+    .sort((a, b) => b.relevance - a.relevance);
+}
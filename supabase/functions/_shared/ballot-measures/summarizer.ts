@@ -0,0 +1,110 @@
+import { MeasureSummary, NormalizedBallotMeasure } from './types.ts';
+
+// Longest summary we show before cutting at a sentence boundary
+const MAX_SUMMARY_LENGTH = 280;
+
+// Verbs ballot summaries usually open with, mapped to their base form
+const LEADING_VERBS: Record<string, string> = {
+  adds: 'add',
+  allows: 'allow',
+  amends: 'amend',
+  authorizes: 'authorize',
+  bans: 'ban',
+  caps: 'cap',
+  creates: 'create',
+  cuts: 'cut',
+  eliminates: 'eliminate',
+  establishes: 'establish',
+  expands: 'expand',
+  extends: 'extend',
+  funds: 'fund',
+  imposes: 'impose',
+  increases: 'increase',
+  issues: 'issue',
+  limits: 'limit',
+  prohibits: 'prohibit',
+  provides: 'provide',
+  raises: 'raise',
+  reduces: 'reduce',
+  repeals: 'repeal',
+  replaces: 'replace',
+  requires: 'require'
+};
+
+// Campaign language that doesn't belong in a neutral summary
+const LOADED_WORDS = [
+  'common-sense', 'commonsense', 'job-killing', 'radical', 'so-called', 'disastrous',
+  'reckless', 'landmark', 'historic', 'extreme', 'dangerous', 'badly needed', 'much-needed'
+];
+
+// Clauses about who backs or fights the measure; the card lists those separately
+const ENDORSEMENT_CLAUSE = /[;,]?\s*(?:and\s+)?(?:supported|opposed|endorsed|backed|sponsored)\s+by\b[^;.]*/gi;
+
+const lowerFirst = (text: string) => text.charAt(0).toLowerCase() + text.slice(1);
+const upperFirst = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+const withPeriod = (text: string) => (/[.!?]$/.test(text) ? text : `${text}.`);
+
+function neutralize(text: string): string {
+  let result = text.replace(ENDORSEMENT_CLAUSE, '');
+  for (const word of LOADED_WORDS) {
+    result = result.replace(new RegExp(`\\b${word}\\b\\s*`, 'gi'), '');
+  }
+  return result.replace(/\s+/g, ' ').replace(/\s+([,.;])/g, '$1').trim();
+}
+
+function truncateAtSentence(text: string): string {
+  if (text.length <= MAX_SUMMARY_LENGTH) return text;
+
+  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
+  let result = '';
+  for (const sentence of sentences) {
+    if ((result + sentence).length > MAX_SUMMARY_LENGTH) break;
+    result += sentence;
+  }
+  return (result || `${text.slice(0, MAX_SUMMARY_LENGTH - 1).trimEnd()}…`).trim();
+}
+
+/**
+ * The measure's action as a base-form clause ("add a 0.25% sales tax ..."),
+ * or undefined when the description doesn't open with a verb we recognize
+ */
+function actionClause(description: string): string | undefined {
+  const [first, ...rest] = description.split(' ');
+  const verb = LEADING_VERBS[first.toLowerCase()];
+  if (!verb || rest.length === 0) return undefined;
+  return `${verb} ${rest.join(' ')}`.replace(/[.!?]+$/, '');
+}
+
+// Ballotpedia writes these as 'A "yes" vote supports ...'; keep its verb but our casing
+const asVoteText = (text: string, vote: 'YES' | 'NO') => {
+  const rest = text.replace(/^an?\s+["'“”]?(?:yes|no)["'“”]?\s+vote\s+/i, '');
+  return withPeriod(rest === text ? `A ${vote} vote means ${lowerFirst(text)}` : `A ${vote} vote ${rest}`);
+};
+
+/**
+ * Build a neutral plain-language summary and "a YES/NO vote means" text.
+ * Official vote descriptions from Ballotpedia are used when present.
+ */
+export function summarizeMeasure(measure: NormalizedBallotMeasure): MeasureSummary {
+  const description = neutralize(measure.description);
+  const action = actionClause(description);
+
+  const body = action ? `This measure would ${action}.` : withPeriod(upperFirst(description));
+  const fiscal = measure.fiscalImpact ? ` Estimated fiscal impact: ${withPeriod(measure.fiscalImpact)}` : '';
+
+  const yesMeans = measure.yesVote
+    ? asVoteText(measure.yesVote, 'YES')
+    : action
+      ? `A YES vote means the measure passes, which would ${action}.`
+      : `A YES vote means the measure passes: ${lowerFirst(withPeriod(description))}`;
+
+  const noMeans = measure.noVote
+    ? asVoteText(measure.noVote, 'NO')
+    : 'A NO vote means the measure fails and current law stays as it is.';
+
+  return {
+    summary: truncateAtSentence(body) + fiscal,
+    yesMeans,
+    noMeans
+  };
+}
@@ -0,0 +1,100 @@
+// Shared by the browser app and the analyze-priorities edge function, so
+// nothing in this folder may import app aliases or runtime-specific globals.
+
+/**
+ * Where a ballot measure record came from
+ */
+export type MeasureSource = 'ballotpedia' | 'fixture';
+
+export type MeasureStatus = 'upcoming' | 'active' | 'passed' | 'failed';
+
+/**
+ * A measure as Ballotpedia (or the local fixture) returns it. Every field is
+ * optional because Ballotpedia leaves them out freely.
+ */
+export interface RawBallotMeasure {
+  id?: string | number;
+  title?: string;
+  name?: string;
+  summary?: string;
+  description?: string;
+  supporters?: string[];
+  opponents?: string[];
+  topic?: string;
+  category?: string;
+  url?: string;
+  state?: string;
+  election_date?: string;
+  measure_status?: string;
+  measure_type?: string;
+  fiscal_note?: string;
+  // Official "a yes vote means" text, where Ballotpedia has it
+  yes_vote?: string;
+  no_vote?: string;
+  // Fixture only: hand-labeled policy terms and what a YES vote does to each
+  policy_terms?: Array<{ standardTerm: string; stance: string; strength?: number }>;
+}
+
+/**
+ * What a YES vote on the measure does to one standardized policy term
+ */
+export interface MeasureIssuePosition {
+  standardTerm: string;
+  stance: 'support' | 'oppose' | 'mixed';
+  // How central the term is to the measure, 0-1
+  strength: number;
+}
+
+export interface NormalizedBallotMeasure {
+  id: string;
+  title: string;
+  description: string;
+  supporters: string[];
+  opposers: string[];
+  ballotpediaLink: string;
+  source: MeasureSource;
+  state?: string;
+  electionDate?: string;
+  status?: MeasureStatus;
+  type?: string;
+  topic?: string;
+  fiscalImpact?: string;
+  yesVote?: string;
+  noVote?: string;
+  positions?: MeasureIssuePosition[];
+}
+
+/**
+ * A policy term the voter cares about, as concern mapping needs it
+ */
+export interface ConcernPreference {
+  standardTerm: string;
+  priority: string;
+  stance: MeasureIssuePosition['stance'];
+  // Only the ratio to the voter's top term matters
+  weight: number;
+}
+
+/**
+ * How a measure relates to one of the voter's mapped policy terms
+ */
+export interface MeasureConcern {
+  standardTerm: string;
+  priority: string;
+  // 0-1, how much the measure bears on what the voter cares about
+  relevance: number;
+  voterStance: MeasureIssuePosition['stance'];
+  // What a YES vote does to the term
+  measureStance: MeasureIssuePosition['stance'];
+}
+
+/**
+ * Neutral plain-language explanation of a measure
+ */
+export interface MeasureSummary {
+  summary: string;
+  yesMeans: string;
+  noMeans: string;
+}
+
+export type SummarizedBallotMeasure = NormalizedBallotMeasure & MeasureSummary;
@@ -0,0 +1,193 @@
+import { DEFAULT_LOCALE, Locale } from '../i18n/index.ts';
+import { localizeTerm } from '../terminology/index.ts';
+import { EMAIL_TEMPLATES, EmailTemplates, LENGTH_LIMITS } from './templates.ts';
+import {
+  ComposeEmailInput,
+  EmailComposition,
+  EmailDraft,
+  EmailIssue,
+  EmailLength,
+  EmailRecipient,
+  EmailSender,
+  EmailTone,
+  RecipientCategory
+} from './types.ts';
+
+export const DEFAULT_TONE: EmailTone = 'formal';
+export const DEFAULT_LENGTH: EmailLength = 'standard';
+
+// Longest voter quote kept verbatim, in characters
+const MAX_QUOTE_LENGTH = 240;
+
+// Spanish titles are gendered, so both forms are given
+const HONORIFICS: Array<[RegExp, Record<Locale, string>]> = [
+  [/\bsenator\b|\bsenate\b/i, { en: 'Senator', es: 'Senador/a' }],
+  [/\brepresentative\b|\bhouse\b|\bcongress/i, { en: 'Representative', es: 'Representante' }],
+  [/\bgovernor\b/i, { en: 'Governor', es: 'Gobernador/a' }],
+  [/\bmayor\b/i, { en: 'Mayor', es: 'Alcalde/sa' }],
+  [/\bcouncil/i, { en: 'Councilmember', es: 'Concejal/a' }],
+  [/\bpresident\b/i, { en: 'President', es: 'Presidente/a' }]
+];
+
+const NAME_PREFIXES = /^(senator|sen\.|representative|rep\.|governor|gov\.|mayor|president|councilmember|hon\.|the honorable)\s+/i;
+const NAME_SUFFIXES = /,?\s+(jr\.?|sr\.?|ii|iii|iv)$/i;
+
+/**
+ * "Senator Lee" for a U.S. Senator named Alex Lee; the full name when the
+ * title has no matching honorific
+ */
+export function salutationName(recipient: EmailRecipient, language: Locale = DEFAULT_LOCALE): string {
+  const name = recipient.name.trim().replace(NAME_PREFIXES, '');
+  const honorific = HONORIFICS.find(([pattern]) => pattern.test(recipient.title))?.[1][language];
+  if (!honorific) return name;
+
+  const lastName = name.replace(NAME_SUFFIXES, '').split(/\s+/).pop() || name;
+  return `${honorific} ${lastName}`;
+}
+
+/**
+ * Template for an official, from how their record lines up with the voter's priorities
+ */
+export function categorizeRecipient(match?: 'full' | 'partial' | 'conflict'): RecipientCategory {
+  if (match === 'full') return 'aligned';
+  if (match === 'conflict') return 'opposing';
+  return 'key_decision_maker';
+}
+
+/**
+ * Shape of a mapped priority the composer reads issues from
+ */
+export interface PriorityIssueSource {
+  priority: string;
+  policyTerms: string[];
+  sentiment?: 'positive' | 'negative' | 'neutral';
+  matches?: Array<{ standardTerm: string; stance?: EmailIssue['stance'] }>;
+}
+
+/**
+ * One issue per mapped term, in priority order, with the voter's stance and
+ * the priority text they typed. Terms repeated across priorities are kept once.
+ */
+export function issuesFromPriorities(priorities: PriorityIssueSource[]): EmailIssue[] {
+  const issues = new Map<string, EmailIssue>();
+  for (const priority of priorities) {
+    const fallback: EmailIssue['stance'] = priority.sentiment === 'negative' ? 'oppose' : 'support';
+    for (const term of priority.policyTerms) {
+      if (issues.has(term)) continue;
+      const match = priority.matches?.find(candidate => candidate.standardTerm === term);
+      issues.set(term, {
+        term,
+        stance: match?.stance || fallback,
+        voterWords: priority.priority.trim() || undefined
+      });
+    }
+  }
+  return Array.from(issues.values());
+}
+
+function quote(words: string): string {
+  const text = words.trim().replace(/\s+/g, ' ');
+  const quoted = text.length <= MAX_QUOTE_LENGTH ? text : `${text.slice(0, MAX_QUOTE_LENGTH).replace(/\s+\S*$/, '')}…`;
+  return /[.!?…]$/.test(quoted) ? `"${quoted}"` : `"${quoted}".`;
+}
+
+function issueParagraph(issues: EmailIssue[], quotes: number, templates: EmailTemplates, language: Locale): string {
+  if (issues.length === 0) {
+    return templates.noIssues;
+  }
+
+  const sentences: string[] = [];
+  const quoted = new Set<string>();
+  for (const issue of issues) {
+    sentences.push(templates.issueSentences[issue.stance](localizeTerm(issue.term, language)));
+    // One priority can map to several terms; quote it once
+    if (issue.voterWords && quoted.size < quotes && !quoted.has(issue.voterWords)) {
+      quoted.add(issue.voterWords);
+      sentences.push(templates.voterWords(quote(issue.voterWords)));
+    }
+  }
+  return sentences.join(' ');
+}
+
+function factsParagraph(facts: string[], sender: EmailSender, templates: EmailTemplates): string {
+  const { place } = templates;
+  const where = sender.city ? place.city(sender.city) : sender.zipCode ? place.zipCode(sender.zipCode) : place.district;
+  return templates.localFacts(where, facts.join(' '));
+}
+
+function signature(sender: EmailSender, templates: EmailTemplates): string {
+  const lines = [sender.name?.trim() || templates.namePlaceholder];
+  const place = [sender.city, sender.zipCode].filter(Boolean).join(' ');
+  if (place) lines.push(place);
+  return lines.join('\n');
+}
+
+/**
+ * Render a draft from the recipient's category, the voter's issues and local
+ * facts. Length caps how many issues, quotes and facts go in; tone and
+ * language pick the wording, and issues are named by their translated labels.
+ * The inputs are kept on the draft so it can be re-rendered.
+ */
+export function composeEmail(input: ComposeEmailInput): EmailDraft {
+  const tone = input.tone || DEFAULT_TONE;
+  const length = input.length || DEFAULT_LENGTH;
+  const language = input.language || DEFAULT_LOCALE;
+  const composition: EmailComposition = {
+    category: input.category,
+    issues: input.issues,
+    localFacts: input.localFacts || [],
+    sender: input.sender || {},
+    includeVoterWords: input.includeVoterWords ?? true,
+    includeLocalFacts: input.includeLocalFacts ?? true,
+    language
+  };
+
+  const templates = EMAIL_TEMPLATES[language];
+  const template = templates.categories[composition.category];
+  const limits = LENGTH_LIMITS[length];
+  const issues = composition.issues.slice(0, limits.issues);
+  const facts = composition.includeLocalFacts ? composition.localFacts.slice(0, limits.facts) : [];
+  const quotes = composition.includeVoterWords ? limits.quotes : 0;
+
+  const paragraphs = [
+    templates.greeting(salutationName(input.recipient, language)),
+    template.opening[tone],
+    issueParagraph(issues, quotes, templates, language)
+  ];
+  if (facts.length > 0) paragraphs.push(factsParagraph(facts, composition.sender, templates));
+  paragraphs.push(template.ask[tone]);
+  paragraphs.push(`${templates.closings[tone]}\n${signature(composition.sender, templates)}`);
+
+  const topIssue = issues[0] ? localizeTerm(issues[0].term, language) : templates.defaultTopic;
+  return {
+    recipient: input.recipient,
+    subject: template.subject[tone]({ topIssue }),
+    body: paragraphs.join('\n\n'),
+    category: composition.category,
+    stance: template.stance,
+    tone,
+    length,
+    language,
+    composition
+  };
+}
+
+/**
+ * Re-render a draft with new controls. Drafts without a composition, such as
+ * hand-written ones, are returned with only the controls updated.
+ */
+export function recomposeEmail(
+  draft: EmailDraft,
+  changes: Partial<Pick<ComposeEmailInput, 'tone' | 'length' | 'includeVoterWords' | 'includeLocalFacts' | 'sender'>>
+): EmailDraft {
+  if (!draft.composition) {
+    return { ...draft, tone: changes.tone || draft.tone, length: changes.length || draft.length };
+  }
+  return composeEmail({
+    ...draft.composition,
+    ...changes,
+    recipient: draft.recipient,
+    tone: changes.tone || draft.tone,
+    length: changes.length || draft.length
+  });
+}
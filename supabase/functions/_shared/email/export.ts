@@ -0,0 +1,68 @@
+import { EmailDraft } from './types.ts';
+
+/**
+ * Draft as plain text with To and Subject headers, for copying or a .txt file
+ */
+export function toPlainText(draft: EmailDraft): string {
+  const to = draft.recipient.email
+    ? `${draft.recipient.name} <${draft.recipient.email}>`
+    : draft.recipient.name;
+  return `To: ${to}\nSubject: ${draft.subject}\n\n${draft.body}\n`;
+}
+
+/**
+ * mailto: link that opens the draft in the voter's email client
+ */
+export function toMailto(draft: EmailDraft): string {
+  const params = `subject=${encodeURIComponent(draft.subject)}&body=${encodeURIComponent(draft.body)}`;
+  return `mailto:${draft.recipient.email || ''}?${params}`;
+}
+
+function base64Utf8(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+// eslint-disable-next-line no-control-regex
+const ASCII = /^[\x00-\x7F]*$/;
+
+// RFC 5322 specials, which a display name can only hold inside quotes
+const SPECIALS = /[()<>[\]:;@\\,."]/;
+
+// RFC 2047 encoded word, only when the header isn't plain ASCII
+function encodeHeader(text: string): string {
+  return ASCII.test(text) ? text : `=?UTF-8?B?${base64Utf8(text)}?=`;
+}
+
+// "SMITH, JOHN" would otherwise read as two addresses
+function encodeDisplayName(name: string): string {
+  if (!ASCII.test(name) || !SPECIALS.test(name)) return encodeHeader(name);
+  return `"${name.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * RFC 5322 message for a .eml file. `X-Unsent` makes Outlook and Apple Mail
+ * open it as a draft ready to send rather than a received message.
+ */
+export function toEml(draft: EmailDraft): string {
+  const headers = [
+    `To: ${draft.recipient.email ? `${encodeDisplayName(draft.recipient.name)} <${draft.recipient.email}>` : ''}`,
+    `Subject: ${encodeHeader(draft.subject)}`,
+    'X-Unsent: 1',
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64'
+  ];
+  const body = base64Utf8(draft.body.replace(/\r?\n/g, '\r\n')).replace(/.{76}/g, '$&\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n`;
+}
+
+/**
+ * File name for an exported draft, e.g. "email-senator-alex-lee.eml"
+ */
+export function exportFileName(draft: EmailDraft, extension: 'eml' | 'txt'): string {
+  const slug = draft.recipient.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `email-${slug || 'draft'}.${extension}`;
+}
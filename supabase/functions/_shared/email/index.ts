@@ -0,0 +1,25 @@
+export {
+  composeEmail,
+  recomposeEmail,
+  categorizeRecipient,
+  issuesFromPriorities,
+  salutationName,
+  DEFAULT_TONE,
+  DEFAULT_LENGTH
+} from './compose.ts';
+export type { PriorityIssueSource } from './compose.ts';
+export { toPlainText, toMailto, toEml, exportFileName } from './export.ts';
+export { CATEGORY_TEMPLATES, CLOSINGS, EMAIL_TEMPLATES, LENGTH_LIMITS } from './templates.ts';
+export type { EmailTemplates } from './templates.ts';
+export type {
+  ComposeEmailInput,
+  EmailComposition,
+  EmailDraft,
+  EmailIssue,
+  EmailLength,
+  EmailRecipient,
+  EmailSender,
+  EmailStance,
+  EmailTone,
+  RecipientCategory
+} from './types.ts';
@@ -0,0 +1,206 @@
+import type { Locale } from '../i18n/index.ts';
+import { EmailIssue, EmailLength, EmailStance, EmailTone, RecipientCategory } from './types.ts';
+
+export interface TemplateContext {
+  // First issue, for subject lines
+  topIssue: string;
+}
+
+export interface CategoryTemplate {
+  stance: EmailStance;
+  subject: Record<EmailTone, (context: TemplateContext) => string>;
+  opening: Record<EmailTone, string>;
+  ask: Record<EmailTone, string>;
+}
+
+/**
+ * Stance-aware wording for each kind of recipient: thank allies, press
+ * opponents to reconsider, and tell undecided officials where the voter stands
+ */
+export const CATEGORY_TEMPLATES: Record<RecipientCategory, CategoryTemplate> = {
+  aligned: {
+    stance: 'supportive',
+    subject: {
+      formal: ({ topIssue }) => `Thank you for your work on ${topIssue}`,
+      friendly: ({ topIssue }) => `Thanks for standing up on ${topIssue}`,
+      urgent: ({ topIssue }) => `Please keep fighting for ${topIssue}`
+    },
+    opening: {
+      formal: 'I am writing as your constituent to thank you for your work on the issues that matter most to me.',
+      friendly: "I'm one of your constituents, and I wanted to say thank you for standing up for the issues I care about.",
+      urgent: 'I am writing because the issues I care about need your continued leadership right now.'
+    },
+    ask: {
+      formal: 'I urge you to keep championing these priorities and to oppose efforts to roll them back.',
+      friendly: 'Please keep up the good work on these issues. Your constituents notice.',
+      urgent: 'Please do not back down on these priorities in the weeks ahead.'
+    }
+  },
+  opposing: {
+    stance: 'opposed',
+    subject: {
+      formal: ({ topIssue }) => `A constituent's concerns about ${topIssue}`,
+      friendly: ({ topIssue }) => `A different view on ${topIssue}`,
+      urgent: ({ topIssue }) => `Please reconsider your position on ${topIssue}`
+    },
+    opening: {
+      formal: 'I am writing as your constituent to share my concerns about your positions on issues that matter to me.',
+      friendly: "I'm one of your constituents, and I see some issues differently than you do. I'd like to explain why.",
+      urgent: 'I am writing because I am deeply concerned about your positions on issues that affect my community.'
+    },
+    ask: {
+      formal: 'I respectfully ask you to reconsider your position and to meet with constituents who hold these views.',
+      friendly: "I hope you'll take a second look at these issues and hear from constituents like me.",
+      urgent: 'I urge you to reconsider your position before the next vote.'
+    }
+  },
+  key_decision_maker: {
+    stance: 'mixed',
+    subject: {
+      formal: ({ topIssue }) => `Where I stand on ${topIssue}`,
+      friendly: ({ topIssue }) => `A constituent's view on ${topIssue}`,
+      urgent: ({ topIssue }) => `Your vote on ${topIssue} matters to me`
+    },
+    opening: {
+      formal: 'I am writing as your constituent because your decisions on these issues could decide the outcome.',
+      friendly: "I'm one of your constituents, and I know you're weighing these issues. Here's where I stand.",
+      urgent: 'Your decision on these issues is coming soon, and I want you to know where your constituents stand.'
+    },
+    ask: {
+      formal: 'I ask you to weigh these priorities carefully and to let me know where you stand.',
+      friendly: "I'd love to hear how you're thinking about these issues.",
+      urgent: 'Please commit to a position that reflects these priorities, and let your constituents know where you stand.'
+    }
+  }
+};
+
+export const CLOSINGS: Record<EmailTone, string> = {
+  formal: 'Sincerely,',
+  friendly: 'Thank you,',
+  urgent: 'Respectfully,'
+};
+
+/**
+ * How much of the voter's material each length includes
+ */
+export const LENGTH_LIMITS: Record<EmailLength, { issues: number; quotes: number; facts: number }> = {
+  short: { issues: 1, quotes: 0, facts: 0 },
+  standard: { issues: 3, quotes: 1, facts: 1 },
+  detailed: { issues: 5, quotes: 3, facts: 3 }
+};
+
+export const ISSUE_SENTENCES: Record<EmailIssue['stance'], (term: string) => string> = {
+  support: term => `I support ${term}.`,
+  oppose: term => `I oppose ${term}.`,
+  mixed: term => `I have mixed feelings about ${term} and want to see a balanced approach.`
+};
+
+/**
+ * All the wording of a draft in one language
+ */
+export interface EmailTemplates {
+  categories: Record<RecipientCategory, CategoryTemplate>;
+  closings: Record<EmailTone, string>;
+  issueSentences: Record<EmailIssue['stance'], (term: string) => string>;
+  greeting: (name: string) => string;
+  // Stands in for the issues when none were mapped
+  noIssues: string;
+  voterWords: (quote: string) => string;
+  localFacts: (place: string, facts: string) => string;
+  place: { city: (city: string) => string; zipCode: (zipCode: string) => string; district: string };
+  namePlaceholder: string;
+  // Subject line topic when there are no issues
+  defaultTopic: string;
+}
+
+const SPANISH_CATEGORY_TEMPLATES: Record<RecipientCategory, CategoryTemplate> = {
+  aligned: {
+    stance: 'supportive',
+    subject: {
+      formal: ({ topIssue }) => `Gracias por su trabajo sobre ${topIssue}`,
+      friendly: ({ topIssue }) => `Gracias por defender ${topIssue}`,
+      urgent: ({ topIssue }) => `Por favor, siga luchando por ${topIssue}`
+    },
+    opening: {
+      formal: 'Le escribo como constituyente para agradecerle su trabajo en los temas que más me importan.',
+      friendly: 'Vivo en su distrito y quería darle las gracias por defender los temas que me importan.',
+      urgent: 'Le escribo porque los temas que me importan necesitan su liderazgo ahora mismo.'
+    },
+    ask: {
+      formal: 'Le pido que siga defendiendo estas prioridades y que se oponga a los intentos de revertirlas.',
+      friendly: 'Por favor, siga con su buen trabajo en estos temas. Sus constituyentes lo notan.',
+      urgent: 'Por favor, no dé marcha atrás en estas prioridades en las próximas semanas.'
+    }
+  },
+  opposing: {
+    stance: 'opposed',
+    subject: {
+      formal: ({ topIssue }) => `Mis preocupaciones sobre ${topIssue}`,
+      friendly: ({ topIssue }) => `Otra manera de ver ${topIssue}`,
+      urgent: ({ topIssue }) => `Le pido que reconsidere su posición sobre ${topIssue}`
+    },
+    opening: {
+      formal: 'Le escribo como constituyente para compartir mis preocupaciones sobre sus posiciones en temas que me importan.',
+      friendly: 'Vivo en su distrito y veo algunos temas de otra manera. Me gustaría explicarle por qué.',
+      urgent: 'Le escribo porque me preocupan mucho sus posiciones en temas que afectan a mi comunidad.'
+    },
+    ask: {
+      formal: 'Le pido respetuosamente que reconsidere su posición y que se reúna con los constituyentes que pensamos así.',
+      friendly: 'Espero que vuelva a considerar estos temas y que escuche a constituyentes como yo.',
+      urgent: 'Le pido que reconsidere su posición antes de la próxima votación.'
+    }
+  },
+  key_decision_maker: {
+    stance: 'mixed',
+    subject: {
+      formal: ({ topIssue }) => `Mi posición sobre ${topIssue}`,
+      friendly: ({ topIssue }) => `Lo que pienso sobre ${topIssue}`,
+      urgent: ({ topIssue }) => `Su voto sobre ${topIssue} me importa`
+    },
+    opening: {
+      formal: 'Le escribo como constituyente porque sus decisiones sobre estos temas podrían definir el resultado.',
+      friendly: 'Vivo en su distrito y sé que está considerando estos temas. Esta es mi posición.',
+      urgent: 'Su decisión sobre estos temas se acerca y quiero que sepa lo que piensan sus constituyentes.'
+    },
+    ask: {
+      formal: 'Le pido que considere con cuidado estas prioridades y que me haga saber su posición.',
+      friendly: 'Me encantaría saber qué piensa sobre estos temas.',
+      urgent: 'Por favor, comprométase con una posición que refleje estas prioridades y compártala con sus constituyentes.'
+    }
+  }
+};
+
+export const EMAIL_TEMPLATES: Record<Locale, EmailTemplates> = {
+  en: {
+    categories: CATEGORY_TEMPLATES,
+    closings: CLOSINGS,
+    issueSentences: ISSUE_SENTENCES,
+    greeting: name => `Dear ${name},`,
+    noIssues: 'The issues I care about affect me and my neighbors every day.',
+    voterWords: quote => `In my own words: ${quote}`,
+    localFacts: (place, facts) => `As a voter ${place}, here is what I am seeing: ${facts}`,
+    place: { city: city => `in ${city}`, zipCode: zipCode => `in ZIP code ${zipCode}`, district: 'in your district' },
+    namePlaceholder: '[Your Name]',
+    defaultTopic: 'issues in our community'
+  },
+  es: {
+    categories: SPANISH_CATEGORY_TEMPLATES,
+    closings: {
+      formal: 'Atentamente,',
+      friendly: 'Gracias,',
+      urgent: 'Respetuosamente,'
+    },
+    issueSentences: {
+      support: term => `Estoy a favor de ${term}.`,
+      oppose: term => `Estoy en contra de ${term}.`,
+      mixed: term => `Tengo opiniones encontradas sobre ${term} y quiero ver un enfoque equilibrado.`
+    },
+    greeting: name => `Estimado/a ${name}:`,
+    noIssues: 'Los temas que me importan nos afectan a mí y a mis vecinos todos los días.',
+    voterWords: quote => `En mis propias palabras: ${quote}`,
+    localFacts: (place, facts) => `Como votante ${place}, esto es lo que veo: ${facts}`,
+    place: { city: city => `en ${city}`, zipCode: zipCode => `en el código postal ${zipCode}`, district: 'de su distrito' },
+    namePlaceholder: '[Su nombre]',
+    defaultTopic: 'los temas de nuestra comunidad'
+  }
+};
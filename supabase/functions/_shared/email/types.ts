@@ -0,0 +1,72 @@
+import type { Locale } from '../i18n/index.ts';
+
+/**
+ * How the recipient stands on the voter's priorities, which decides the template
+ */
+export type RecipientCategory = 'aligned' | 'opposing' | 'key_decision_maker';
+
+export type EmailStance = 'supportive' | 'mixed' | 'opposed';
+
+export type EmailTone = 'formal' | 'friendly' | 'urgent';
+
+export type EmailLength = 'short' | 'standard' | 'detailed';
+
+export interface EmailRecipient {
+  name: string;
+  // Office or position, e.g. "U.S. Senator"
+  title: string;
+  email?: string;
+  personId?: string;
+}
+
+/**
+ * One policy issue the email raises, with the voter's position on it
+ */
+export interface EmailIssue {
+  term: string;
+  stance: 'support' | 'oppose' | 'mixed';
+  // The priority as the voter typed it
+  voterWords?: string;
+}
+
+export interface EmailSender {
+  name?: string;
+  city?: string;
+  zipCode?: string;
+}
+
+/**
+ * Everything a draft is rendered from, kept on the draft so the composer can
+ * re-render it with another tone or length
+ */
+export interface EmailComposition {
+  category: RecipientCategory;
+  issues: EmailIssue[];
+  // Facts about the voter's area: upcoming elections, measures on the ballot
+  localFacts: string[];
+  sender: EmailSender;
+  includeVoterWords: boolean;
+  includeLocalFacts: boolean;
+  // Language the draft is written in; drafts saved before it existed are English
+  language?: Locale;
+}
+
+export interface EmailDraft {
+  recipient: EmailRecipient;
+  subject: string;
+  body: string;
+  category: RecipientCategory;
+  stance: EmailStance;
+  tone: EmailTone;
+  length: EmailLength;
+  language?: Locale;
+  composition?: EmailComposition;
+}
+
+export interface ComposeEmailInput extends Partial<Omit<EmailComposition, 'category' | 'issues'>> {
+  recipient: EmailRecipient;
+  category: RecipientCategory;
+  issues: EmailIssue[];
+  tone?: EmailTone;
+  length?: EmailLength;
+}
@@ -0,0 +1,45 @@
+import { DEFAULT_LOCALE, Locale } from './locales.ts';
+
+/**
+ * Strip accents so "educación" matches "educacion": voters often type
+ * Spanish without them
+ */
+export const foldDiacritics = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Common function words of each language. "a", "no" and "me" are left out
+// because both languages use them.
+const FUNCTION_WORDS: Record<Locale, Set<string>> = {
+  en: new Set([
+    'the', 'an', 'and', 'of', 'to', 'in', 'is', 'are', 'for', 'with', 'my', 'our', 'we', 'i', 'it',
+    'that', 'this', 'not', 'more', 'be', 'on', 'about', 'should', 'need', 'want', 'people', 'too',
+    'they', 'from', 'so', 'have', 'why', 'what', 'how', 'can', "can't", "don't", "i'm", "it's", 'way'
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'de', 'del', 'que', 'y', 'en', 'un', 'una', 'por', 'para', 'con', 'es',
+    'son', 'se', 'lo', 'mas', 'muy', 'pero', 'como', 'mi', 'mis', 'nuestro', 'nuestra', 'nuestros',
+    'nuestras', 'su', 'sus', 'al', 'yo', 'quiero', 'queremos', 'necesitamos', 'hay', 'esta', 'estan',
+    'ser', 'sin', 'sobre', 'tambien', 'porque', 'cuando', 'todos', 'gente', 'nos', 'les', 'debe',
+    'deben', 'deberia', 'tiene', 'tienen', 'puedo', 'ya', 'ni'
+  ])
+};
+
+// Letters and marks English never uses
+const SPANISH_CHARACTERS = /[áéíóúüñ¿¡]/gi;
+
+/**
+ * Which supported language a priority is written in, from its function words
+ * plus Spanish-only letters such as "ñ" and "¿". Text with no evidence either
+ * way, such as a bare "inflation", gets `fallback`.
+ */
+export function detectLanguage(text: string, fallback: Locale = DEFAULT_LOCALE): Locale {
+  const words = foldDiacritics(text.toLowerCase().replace(/’/g, "'"))
+    .split(/[^a-z']+/)
+    .filter(Boolean);
+
+  const english = words.filter(word => FUNCTION_WORDS.en.has(word)).length;
+  const spanish = words.filter(word => FUNCTION_WORDS.es.has(word)).length +
+    2 * Math.min(2, (text.match(SPANISH_CHARACTERS) || []).length);
+
+  if (english === spanish) return fallback;
+  return spanish > english ? 'es' : 'en';
+}
@@ -0,0 +1,3 @@
+export { DEFAULT_LOCALE, LOCALE_NAMES, LOCALE_TAGS, SUPPORTED_LOCALES, isLocale } from './locales.ts';
+export { detectLanguage, foldDiacritics } from './detect.ts';
+export type { Locale } from './locales.ts';
@@ -0,0 +1,27 @@
+// Shared by the browser app, Node tests and the Deno edge functions, so
+// nothing in this folder may import app aliases or runtime-specific globals.
+
+/**
+ * Languages the app can take priorities in and write results in. Policy terms
+ * stay keyed by their English `standardTerm` whatever the voter's language.
+ */
+export type Locale = 'en' | 'es';
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'es'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Each language's name in that language, for pickers
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español'
+};
+
+// BCP 47 tags for date formatting and `<html lang>`
+export const LOCALE_TAGS: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-US'
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && (SUPPORTED_LOCALES as string[]).includes(value);
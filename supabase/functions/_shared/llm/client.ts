@@ -0,0 +1,143 @@
+import { parseJsonContent, validateJson } from './json-schema.ts';
+import { PromptId, PromptVariables, renderPrompt } from './prompts.ts';
+import { LlmError, LlmProvider, LlmRequest, LlmResponse, LlmUsage } from './types.ts';
+
+export interface LlmClientOptions {
+  timeoutMs?: number;
+  // Attempts after the first one, for retryable failures only
+  maxRetries?: number;
+  // Doubled after every retry
+  retryDelayMs?: number;
+}
+
+export interface LlmUsageTotals extends LlmUsage {
+  requests: number;
+  failures: number;
+  byPrompt: Record<string, LlmUsage & { requests: number }>;
+}
+
+const emptyUsage = (): LlmUsage => ({ promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Provider-agnostic entry point for every language model call. Adds timeouts,
+ * retries with backoff, JSON schema validation and token accounting on top of
+ * whichever provider it wraps.
+ */
+export class LlmClient {
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private usage: LlmUsageTotals = { ...emptyUsage(), requests: 0, failures: 0, byPrompt: {} };
+
+  constructor(private provider: LlmProvider, options: LlmClientOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Whether calls can reach a model that answers arbitrary input
+   */
+  isLive(): boolean {
+    return this.provider.live;
+  }
+
+  setProvider(provider: LlmProvider): void {
+    this.provider = provider;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    let lastError: LlmError | undefined;
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      if (attempt > 0) await sleep(this.retryDelayMs * 2 ** (attempt - 1));
+
+      try {
+        const response = await this.attempt(request);
+        if (request.schema) this.checkSchema(request, response.content);
+        this.record(request, response);
+        return response;
+      } catch (error) {
+        lastError = error instanceof LlmError
+          ? error
+          : new LlmError(error instanceof Error ? error.message : 'LLM request failed', 'provider_error', true, undefined, error);
+        if (!lastError.retryable) break;
+      }
+    }
+
+    this.usage.failures++;
+    throw lastError;
+  }
+
+  /**
+   * Render a registered prompt and return the model's text
+   */
+  async runText<Id extends PromptId>(id: Id, variables: PromptVariables[Id]): Promise<string> {
+    return (await this.complete(renderPrompt(id, variables))).content;
+  }
+
+  /**
+   * Render a registered prompt and return its parsed, schema-checked JSON
+   */
+  async runJson<T, Id extends PromptId = PromptId>(id: Id, variables: PromptVariables[Id]): Promise<T> {
+    const response = await this.complete(renderPrompt(id, variables));
+    return parseJsonContent(response.content) as T;
+  }
+
+  getUsage(): LlmUsageTotals {
+    return { ...this.usage, byPrompt: { ...this.usage.byPrompt } };
+  }
+
+  resetUsage(): void {
+    this.usage = { ...emptyUsage(), requests: 0, failures: 0, byPrompt: {} };
+  }
+
+  private async attempt(request: LlmRequest): Promise<LlmResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      return await this.provider.complete(request, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted || (error instanceof Error && error.name === 'AbortError')) {
+        throw new LlmError(`LLM request timed out after ${this.timeoutMs}ms`, 'timeout', true);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private checkSchema(request: LlmRequest, content: string): void {
+    let parsed: unknown;
+    try {
+      parsed = parseJsonContent(content);
+    } catch (error) {
+      throw new LlmError('LLM response was not valid JSON', 'invalid_output', true, undefined, content);
+    }
+
+    const errors = validateJson(parsed, request.schema!);
+    if (errors.length > 0) {
+      throw new LlmError(`LLM response didn't match the schema: ${errors.slice(0, 3).join('; ')}`, 'invalid_output', true, undefined, errors);
+    }
+  }
+
+  private record(request: LlmRequest, response: LlmResponse): void {
+    const key = request.promptId || 'raw';
+    const prompt = this.usage.byPrompt[key] ?? { ...emptyUsage(), requests: 0 };
+
+    for (const totals of [this.usage, prompt]) {
+      totals.requests++;
+      totals.promptTokens += response.usage.promptTokens;
+      totals.completionTokens += response.usage.completionTokens;
+      totals.totalTokens += response.usage.totalTokens;
+    }
+    this.usage.byPrompt[key] = prompt;
+  }
+}
@@ -0,0 +1,103 @@
+import { LlmError, LlmProvider, LlmRequest, LlmResponse } from './types.ts';
+
+/**
+ * A recorded response. Fixtures without variables answer every call to
+ * their prompt, after any exact match.
+ */
+export interface LlmFixture {
+  promptId: string;
+  variables?: Record<string, unknown>;
+  // Objects are replayed as their JSON text
+  response: string | Record<string, unknown> | unknown[];
+}
+
+// Rough count used where the provider doesn't report usage
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * JSON.stringify with object keys sorted, so equal variables give equal keys
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+const requestVariables = (request: LlmRequest) => request.variables ?? { messages: request.messages };
+
+export function fixtureKey(promptId: string, variables?: Record<string, unknown>): string {
+  return `${promptId}:${variables ? stableStringify(variables) : '*'}`;
+}
+
+/**
+ * Replays recorded responses so the app and tests run without a network.
+ * Requests without a prompt id are keyed under `raw` by their messages.
+ */
+export class FixtureProvider implements LlmProvider {
+  readonly name = 'fixture';
+  readonly live = false;
+  private fixtures = new Map<string, LlmFixture>();
+
+  constructor(fixtures: LlmFixture[] = []) {
+    fixtures.forEach(fixture => this.add(fixture));
+  }
+
+  add(fixture: LlmFixture): void {
+    this.fixtures.set(fixtureKey(fixture.promptId, fixture.variables), fixture);
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const promptId = request.promptId || 'raw';
+    const fixture = this.fixtures.get(fixtureKey(promptId, requestVariables(request)))
+      ?? this.fixtures.get(fixtureKey(promptId));
+
+    if (!fixture) {
+      throw new LlmError(`No fixture recorded for prompt "${promptId}"`, 'fixture_missing');
+    }
+
+    const content = typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+    const promptTokens = estimateTokens(request.messages.map(message => message.content).join('\n'));
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      model: 'fixture',
+      provider: this.name,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+}
+
+/**
+ * Passes requests through to a live provider and keeps what it answered, so a
+ * session can be saved as fixtures for `FixtureProvider`
+ */
+export class RecordingProvider implements LlmProvider {
+  readonly name: string;
+  private recorded: LlmFixture[] = [];
+
+  constructor(private inner: LlmProvider) {
+    this.name = `recording:${inner.name}`;
+  }
+
+  get live(): boolean {
+    return this.inner.live;
+  }
+
+  async complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmResponse> {
+    const response = await this.inner.complete(request, signal);
+    this.recorded.push({
+      promptId: request.promptId || 'raw',
+      variables: requestVariables(request),
+      response: response.content
+    });
+    return response;
+  }
+
+  fixtures(): LlmFixture[] {
+    return [...this.recorded];
+  }
+}
@@ -0,0 +1,110 @@
+import { LlmFixture } from './fixture-provider.ts';
+
+/**
+ * Responses replayed when no live provider is configured. Prompts with a
+ * catch-all fixture keep their features working offline; `clarify-priority`
+ * and `interpret-priority` deliberately have none, so unrecorded inputs fall
+ * back to the app's own defaults instead of feeding made-up topics into the
+ * mapping engine.
+ */
+export const DEFAULT_FIXTURES: LlmFixture[] = [
+  {
+    promptId: 'clarify-priority',
+    variables: { input: 'Make the government work better' },
+    response: {
+      suggestedQuestion: 'Do you mean - Government Efficiency and Accountability?',
+      possibleTopics: ['Government Efficiency and Accountability', 'Government Transparency']
+    }
+  },
+  {
+    promptId: 'clarify-priority',
+    variables: { input: 'Keep my neighborhood safe' },
+    response: {
+      suggestedQuestion: 'Do you mean - Public Safety and Criminal Justice?',
+      possibleTopics: ['Public Safety and Criminal Justice', 'Community Policing']
+    }
+  },
+  {
+    promptId: 'interpret-priority',
+    variables: { input: 'Make the government work better', previousTurns: [] },
+    response: {
+      question: 'When you say the government should work better, which of these is closest to what you mean?',
+      interpretations: [
+        {
+          standardTerm: 'Government Efficiency and Accountability',
+          description: 'Cutting waste and making agencies answer for results.',
+          confidence: 0.6
+        },
+        {
+          standardTerm: 'Government Transparency',
+          description: 'Making government decisions and spending open to the public.',
+          confidence: 0.3
+        }
+      ]
+    }
+  },
+  {
+    promptId: 'interpret-priority',
+    variables: { input: 'Keep my neighborhood safe', previousTurns: [] },
+    response: {
+      question: 'Which of these comes closest to keeping your neighborhood safe?',
+      interpretations: [
+        {
+          standardTerm: 'Public Safety and Criminal Justice',
+          description: 'Crime prevention, policing and the courts.',
+          confidence: 0.6
+        },
+        {
+          standardTerm: 'Community Policing',
+          description: 'Officers working closely with the neighborhoods they patrol.',
+          confidence: 0.35
+        }
+      ]
+    }
+  },
+  {
+    promptId: 'analyze-priorities',
+    response: {
+      mappings: {},
+      analysis: 'Offline mode: priorities were not analyzed by a language model.',
+      conflicts: []
+    }
+  },
+  {
+    promptId: 'map-priorities',
+    response: {
+      mappings: {},
+      analysis: 'Offline mode: priorities were not analyzed by a language model.',
+      conflicts: [],
+      confidenceScores: {}
+    }
+  },
+  {
+    promptId: 'summarize-priorities',
+    response: {
+      mappings: {},
+      confidenceScores: {},
+      analysis: 'Offline mode: priorities were not analyzed by a language model.'
+    }
+  },
+  {
+    promptId: 'official-issue-areas',
+    response: 'Issue areas are not available offline.'
+  },
+  {
+    promptId: 'draft-email',
+    response: 'Dear Representative,\n\nAs your constituent, I am writing to share the issues that matter most to me and to ask for your support on them.\n\nThank you for your attention to these priorities.\n\nSincerely,\n[Your Name]'
+  },
+  {
+    promptId: 'suggest-interest-groups',
+    response: {
+      groups: [
+        {
+          name: 'Default Civic Action Group',
+          url: 'https://www.usa.gov/advocacy-groups',
+          relevance: 'General civic engagement resources'
+        }
+      ]
+    }
+  }
+];
@@ -0,0 +1,57 @@
+import { LlmClient, LlmClientOptions } from './client.ts';
+import { FixtureProvider, LlmFixture } from './fixture-provider.ts';
+import { DEFAULT_FIXTURES } from './fixtures.ts';
+import { OpenAIProvider } from './openai-provider.ts';
+import { LlmProvider } from './types.ts';
+
+export { LlmClient } from './client.ts';
+export type { LlmClientOptions, LlmUsageTotals } from './client.ts';
+export { OpenAIProvider, DEFAULT_OPENAI_MODEL } from './openai-provider.ts';
+export type { OpenAIProviderOptions } from './openai-provider.ts';
+export { FixtureProvider, RecordingProvider, fixtureKey, stableStringify, estimateTokens } from './fixture-provider.ts';
+export type { LlmFixture } from './fixture-provider.ts';
+export { DEFAULT_FIXTURES } from './fixtures.ts';
+export { PROMPTS, renderPrompt } from './prompts.ts';
+export type { PromptDefinition, PromptId, PromptVariables } from './prompts.ts';
+export { validateJson, parseJsonContent } from './json-schema.ts';
+export { LlmError } from './types.ts';
+export type {
+  JsonSchema,
+  LlmErrorCode,
+  LlmMessage,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmRole,
+  LlmUsage
+} from './types.ts';
+
+export type LlmProviderName = 'openai' | 'fixture';
+
+export interface LlmConfig extends LlmClientOptions {
+  // Defaults to openai when an API key is given, fixture replay otherwise
+  provider?: LlmProviderName;
+  apiKey?: string;
+  model?: string;
+  baseURL?: string;
+  organization?: string;
+  fixtures?: LlmFixture[];
+}
+
+export function createLlmProvider(config: LlmConfig = {}): LlmProvider {
+  const provider = config.provider || (config.apiKey ? 'openai' : 'fixture');
+
+  if (provider === 'openai') {
+    return new OpenAIProvider({
+      apiKey: config.apiKey,
+      model: config.model,
+      baseURL: config.baseURL,
+      organization: config.organization
+    });
+  }
+  return new FixtureProvider(config.fixtures || DEFAULT_FIXTURES);
+}
+
+export function createLlmClient(config: LlmConfig = {}): LlmClient {
+  return new LlmClient(createLlmProvider(config), config);
+}
@@ -0,0 +1,55 @@
+import { JsonSchema } from './types.ts';
+
+const typeOf = (value: unknown): string => {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+};
+
+/**
+ * Check a parsed value against a schema. Returns one message per problem,
+ * so an empty list means the value is valid.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [`${path} must be one of ${schema.enum.join(', ')}`];
+  }
+
+  switch (schema.type) {
+    case undefined:
+      return [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path} must be an integer`];
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return typeof value === schema.type ? [] : [`${path} must be a ${schema.type}, got ${typeOf(value)}`];
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array, got ${typeOf(value)}`];
+      const items = schema.items;
+      return items ? value.flatMap((item, index) => validateJson(item, items, `${path}[${index}]`)) : [];
+    }
+    case 'object': {
+      if (typeOf(value) !== 'object') return [`${path} must be an object, got ${typeOf(value)}`];
+      const record = value as Record<string, unknown>;
+      const errors = (schema.required || [])
+        .filter(key => !(key in record))
+        .map(key => `${path}.${key} is required`);
+
+      for (const [key, child] of Object.entries(record)) {
+        const childSchema = schema.properties?.[key]
+          ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+        if (childSchema) errors.push(...validateJson(child, childSchema, `${path}.${key}`));
+      }
+      return errors;
+    }
+  }
+}
+
+/**
+ * Parse model output as JSON, tolerating a markdown code fence around it
+ */
+export function parseJsonContent(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse((fenced ? fenced[1] : content).trim());
+}
@@ -0,0 +1,104 @@
+import { LlmError, LlmProvider, LlmRequest, LlmResponse } from './types.ts';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+  organization?: string;
+}
+
+// Needs structured output support for prompts with a schema
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+  error?: { message?: string };
+}
+
+/**
+ * OpenAI-compatible chat completions. Works against any endpoint that speaks
+ * the same protocol by changing `baseURL`.
+ */
+export class OpenAIProvider implements LlmProvider {
+  readonly name = 'openai';
+  private apiKey?: string;
+  private baseURL: string;
+  private model: string;
+  private organization?: string;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.apiKey = options.apiKey;
+    this.baseURL = (options.baseURL || 'https://api.openai.com/v1').replace(/\/$/, '');
+    this.model = options.model || DEFAULT_OPENAI_MODEL;
+    this.organization = options.organization;
+  }
+
+  get live(): boolean {
+    return !!this.apiKey;
+  }
+
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey;
+  }
+
+  async complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmResponse> {
+    if (!this.apiKey) {
+      throw new LlmError('OpenAI API key is not configured', 'not_configured');
+    }
+
+    const response = await fetch(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+        ...(this.organization && { 'OpenAI-Organization': this.organization })
+      },
+      body: JSON.stringify({
+        model: request.model || this.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.schema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: request.schemaName || 'response', schema: request.schema, strict: false }
+          }
+        })
+      }),
+      signal
+    });
+
+    const data = await response.json().catch(() => ({})) as ChatCompletionResponse;
+
+    if (!response.ok) {
+      const message = data.error?.message || response.statusText || 'Request failed';
+      throw new LlmError(
+        `OpenAI API error: ${message}`,
+        response.status === 429 ? 'rate_limited' : 'provider_error',
+        response.status === 429 || response.status >= 500,
+        response.status,
+        data
+      );
+    }
+
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LlmError('Invalid response from OpenAI API', 'invalid_output', true, response.status, data);
+    }
+
+    const promptTokens = data.usage?.prompt_tokens ?? 0;
+    const completionTokens = data.usage?.completion_tokens ?? 0;
+    return {
+      content,
+      model: data.model || request.model || this.model,
+      provider: this.name,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: data.usage?.total_tokens ?? promptTokens + completionTokens
+      }
+    };
+  }
+}
@@ -0,0 +1,245 @@
+import { JsonSchema, LlmRequest } from './types.ts';
+
+/**
+ * Variables each registered prompt is rendered with
+ */
+export interface PromptVariables {
+  'clarify-priority': { input: string };
+  'interpret-priority': { input: string; previousTurns: Array<{ question: string; answer: string }> };
+  'analyze-priorities': { priorities: string[] };
+  'map-priorities': { priorities: string[] };
+  'summarize-priorities': { priorities: string[] };
+  'official-issue-areas': { official: unknown };
+  'draft-email': { name: string; office?: string; priorities: string[] };
+  'suggest-interest-groups': { priorities: string[] };
+}
+
+export type PromptId = keyof PromptVariables;
+
+export interface PromptDefinition<V> {
+  id: PromptId;
+  description: string;
+  system: string;
+  user: (variables: V) => string;
+  schema?: JsonSchema;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+type PromptRegistry = { [Id in PromptId]: PromptDefinition<PromptVariables[Id]> };
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+const termsByPriority: JsonSchema = { type: 'object', additionalProperties: stringList };
+const scoresByPriority: JsonSchema = { type: 'object', additionalProperties: { type: 'number' } };
+
+export const PROMPTS: PromptRegistry = {
+  'clarify-priority': {
+    id: 'clarify-priority',
+    description: 'Clarification question and candidate topics for an unmapped priority',
+    system: `You are a helpful assistant that helps clarify political priorities.
+When given a statement that is unclear or doesn't match standard policy topics,
+generate a clarification question in the format "Do you mean - [specific policy topic]?"
+Also suggest 2-3 possible policy topics this might relate to. Keep your response brief and focused.`,
+    user: ({ input }) => `The user said: "${input}".
+This doesn't clearly match our standard policy topics.
+Generate a clarification question and suggest possible policy topics.`,
+    schema: {
+      type: 'object',
+      properties: {
+        suggestedQuestion: { type: 'string' },
+        possibleTopics: stringList
+      },
+      required: ['suggestedQuestion', 'possibleTopics']
+    },
+    temperature: 0.7,
+    maxTokens: 200
+  },
+
+  'interpret-priority': {
+    id: 'interpret-priority',
+    description: 'Next clarification question and ranked interpretations of a vague priority',
+    system: `You help voters say what they mean by a political priority.
+Given the voter's statement and any questions they have already answered, list the 2-4 most likely
+standard policy topics they could mean, each with a one-sentence neutral description and a confidence
+between 0 and 1, and write one short question that asks the voter to choose between them.
+Do not repeat interpretations the voter has already ruled out.`,
+    user: ({ input, previousTurns }) => {
+      const history = previousTurns.map(turn => `Q: ${turn.question}\nA: ${turn.answer}`).join('\n');
+      return `The voter said: "${input}".${history ? `\nEarlier answers:\n${history}` : ''}`;
+    },
+    schema: {
+      type: 'object',
+      properties: {
+        question: { type: 'string' },
+        interpretations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              standardTerm: { type: 'string' },
+              description: { type: 'string' },
+              confidence: { type: 'number' }
+            },
+            required: ['standardTerm', 'confidence']
+          }
+        }
+      },
+      required: ['question', 'interpretations']
+    },
+    temperature: 0.3,
+    maxTokens: 400
+  },
+
+  'analyze-priorities': {
+    id: 'analyze-priorities',
+    description: 'Policy terms, conflicts and an overview for a set of priorities',
+    system: `You are a political analyst expert who maps voter priorities to standardized policy terms and identifies potential conflicts.
+
+Instructions:
+1. Map each priority to relevant policy areas and political terminology
+2. Identify any conflicting priorities
+3. Generate a brief analysis explaining the relationships`,
+    user: ({ priorities }) => `Analyze these voter priorities:\n${priorities.join('\n')}`,
+    schema: {
+      type: 'object',
+      properties: {
+        mappings: termsByPriority,
+        analysis: { type: 'string' },
+        conflicts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              priority1: { type: 'string' },
+              priority2: { type: 'string' },
+              description: { type: 'string' }
+            },
+            required: ['priority1', 'priority2', 'description']
+          }
+        }
+      },
+      required: ['mappings', 'analysis', 'conflicts']
+    },
+    temperature: 0.7,
+    maxTokens: 1000
+  },
+
+  'map-priorities': {
+    id: 'map-priorities',
+    description: 'Policy terms with confidence scores and conflicts, used by analyze-priorities',
+    system: `You are a political analyst expert who maps voter priorities to standardized policy terms and identifies potential conflicts.
+
+Instructions:
+1. Map each priority to relevant policy areas and political terminology
+2. Identify any conflicting priorities
+3. Generate a brief analysis explaining the relationships
+4. Provide confidence scores for each mapping`,
+    user: ({ priorities }) => `Analyze these voter priorities: ${JSON.stringify(priorities)}`,
+    schema: {
+      type: 'object',
+      properties: {
+        mappings: termsByPriority,
+        analysis: { type: 'string' },
+        conflicts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              priority1: { type: 'string' },
+              priority2: { type: 'string' },
+              reason: { type: 'string' }
+            },
+            required: ['priority1', 'priority2', 'reason']
+          }
+        },
+        confidenceScores: scoresByPriority
+      },
+      required: ['mappings', 'analysis', 'conflicts', 'confidenceScores']
+    },
+    temperature: 0.3,
+    maxTokens: 1500
+  },
+
+  'summarize-priorities': {
+    id: 'summarize-priorities',
+    description: 'Formal policy positions and an overall analysis, used by analyze-content',
+    system: 'You are a political analyst expert in converting casual language about political priorities into formal policy positions. Key "mappings" and "confidenceScores" by each priority exactly as given; "analysis" is a comprehensive but concise analysis of the overall political perspective.',
+    user: ({ priorities }) => `Analyze these political priorities and map them to formal policy positions: ${JSON.stringify(priorities)}`,
+    schema: {
+      type: 'object',
+      properties: {
+        mappings: termsByPriority,
+        confidenceScores: scoresByPriority,
+        analysis: { type: 'string' }
+      },
+      required: ['mappings', 'confidenceScores', 'analysis']
+    },
+    temperature: 0.7,
+    maxTokens: 1000
+  },
+
+  'official-issue-areas': {
+    id: 'official-issue-areas',
+    description: "Free-text summary of an official's key issue areas",
+    system: 'You are a political analyst. Given information about a political official, identify their key issue areas and policy positions.',
+    user: ({ official }) => `Analyze this official's information and identify their key issue areas:\n${JSON.stringify(official)}`,
+    temperature: 0.3,
+    maxTokens: 500
+  },
+
+  'draft-email': {
+    id: 'draft-email',
+    description: 'Constituent email to a representative about the voter\'s priorities',
+    system: 'You are an expert in constituent communication. Write a professional, convincing email that clearly communicates the constituent\'s priorities.',
+    user: ({ name, office, priorities }) =>
+      `Write an email to ${name}${office ? ` (${office})` : ''} expressing these priorities: ${JSON.stringify(priorities)}`,
+    temperature: 0.7,
+    maxTokens: 1000
+  },
+
+  'suggest-interest-groups': {
+    id: 'suggest-interest-groups',
+    description: 'Advocacy groups relevant to a set of priorities',
+    system: 'You are an expert in civic engagement and advocacy groups. Generate relevant interest groups based on political priorities.',
+    user: ({ priorities }) => `Suggest 3 relevant interest groups for these priorities: ${JSON.stringify(priorities)}`,
+    schema: {
+      type: 'object',
+      properties: {
+        groups: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              url: { type: 'string' },
+              relevance: { type: 'string' }
+            },
+            required: ['name', 'url', 'relevance']
+          }
+        }
+      },
+      required: ['groups']
+    },
+    temperature: 0.7,
+    maxTokens: 1000
+  }
+};
+
+/**
+ * Build a request from a registered prompt
+ */
+export function renderPrompt<Id extends PromptId>(id: Id, variables: PromptVariables[Id]): LlmRequest {
+  const prompt = PROMPTS[id] as PromptDefinition<PromptVariables[Id]>;
+  return {
+    promptId: id,
+    variables: variables as Record<string, unknown>,
+    messages: [
+      { role: 'system', content: prompt.system },
+      { role: 'user', content: prompt.user(variables) }
+    ],
+    schema: prompt.schema,
+    schemaName: prompt.schema ? id.replace(/-/g, '_') : undefined,
+    temperature: prompt.temperature,
+    maxTokens: prompt.maxTokens
+  };
+}
@@ -0,0 +1,77 @@
+// Shared by the browser app, Node scripts and the Deno edge functions, so
+// nothing in this folder may import app aliases or runtime-specific globals.
+
+export type LlmRole = 'system' | 'user' | 'assistant';
+
+export interface LlmMessage {
+  role: LlmRole;
+  content: string;
+}
+
+/**
+ * The subset of JSON Schema we send to providers and validate responses against
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  // Schema for the values of an object keyed by arbitrary strings
+  additionalProperties?: JsonSchema | boolean;
+  enum?: Array<string | number>;
+  description?: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for JSON matching this schema instead of free text
+  schema?: JsonSchema;
+  schemaName?: string;
+  // Registry prompt and variables the messages were rendered from, if any
+  promptId?: string;
+  variables?: Record<string, unknown>;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmResponse {
+  content: string;
+  model: string;
+  provider: string;
+  usage: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  // Whether the provider can answer arbitrary requests (fixture replay can't)
+  readonly live: boolean;
+  complete(request: LlmRequest, signal?: AbortSignal): Promise<LlmResponse>;
+}
+
+export type LlmErrorCode =
+  | 'timeout'
+  | 'rate_limited'
+  | 'provider_error'
+  | 'invalid_output'
+  | 'fixture_missing'
+  | 'not_configured';
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public code: LlmErrorCode,
+    public retryable: boolean = false,
+    public status?: number,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
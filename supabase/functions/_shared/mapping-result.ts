@@ -0,0 +1,46 @@
+import { MappedPriority, PolicyTermMatch } from '../types/mapping.ts';
+
+// Acceptance criteria 1.1.6: below 80% the voter is asked to clarify
+const CLARIFICATION_THRESHOLD = 0.8;
+
+/**
+ * Convert an LLM `{ mappings, confidenceScores }` response into the canonical
+ * MappedPriority list used by the app. Terms the model lists first are treated
+ * as its strongest matches.
+ */
+export function toCanonicalMappedPriorities(
+  priorities: string[],
+  mappings: Record<string, string[]> = {},
+  confidenceScores: Record<string, number> = {}
+): MappedPriority[] {
+  return priorities.map((priority) => {
+    const terms = Array.isArray(mappings[priority]) ? mappings[priority] : [];
+    const baseConfidence = typeof confidenceScores[priority] === 'number'
+      ? Math.max(0, Math.min(1, confidenceScores[priority]))
+      : (terms.length > 0 ? 0.6 : 0);
+
+    const matches: PolicyTermMatch[] = terms.map((term, index) => ({
+      standardTerm: term,
+      confidence: Math.max(0, baseConfidence - index * 0.05),
+      sources: ['llm'],
+      evidence: ['Suggested by language model analysis']
+    }));
+
+    const needsClarification = baseConfidence < CLARIFICATION_THRESHOLD;
+
+    return {
+      priority,
+      policyTerms: terms,
+      sentiment: 'neutral',
+      confidence: baseConfidence,
+      needsClarification,
+      clarificationReason: needsClarification
+        ? (terms.length === 0 ? 'No matching policy terms were found' : 'Mapping confidence is below the threshold')
+        : undefined,
+      matches,
+      original: priority,
+      mappedTerms: terms,
+      possibleTopics: needsClarification ? terms.slice(0, 3) : []
+    };
+  });
+}
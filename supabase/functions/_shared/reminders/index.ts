@@ -0,0 +1,24 @@
+export { planReminders, REMINDER_CATEGORIES } from './schedule.ts';
+export {
+  sendWebPush,
+  encryptPushPayload,
+  decryptPushPayload,
+  vapidAuthorization,
+  verifyVapidAuthorization,
+  generateVapidKeys,
+  base64UrlEncode,
+  base64UrlDecode
+} from './web-push.ts';
+export type {
+  PublishedMeasure,
+  PushPayload,
+  Reminder,
+  ReminderCalendar,
+  ReminderCategory,
+  ReminderElection,
+  ReminderRules,
+  ReminderSubscriber,
+  VapidKeys,
+  WebPushResult,
+  WebPushSubscription
+} from './types.ts';
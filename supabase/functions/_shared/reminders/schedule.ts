@@ -0,0 +1,154 @@
+import {
+  PublishedMeasure,
+  Reminder,
+  ReminderCalendar,
+  ReminderCategory,
+  ReminderElection,
+  ReminderSubscriber
+} from './types.ts';
+
+export const REMINDER_CATEGORIES: ReminderCategory[] = ['deadlines', 'early_voting', 'election_day', 'new_measures'];
+
+// Days before each date that a reminder goes out, largest first
+const LEAD_DAYS: Record<Exclude<ReminderCategory, 'new_measures'>, number[]> = {
+  deadlines: [7, 1],
+  early_voting: [1],
+  election_day: [1, 0]
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+const shiftDate = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const formatDate = (date: string) =>
+  new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+const whenText = (daysLeft: number) => {
+  if (daysLeft === 0) return 'today';
+  if (daysLeft === 1) return 'tomorrow';
+  return `in ${daysLeft} days`;
+};
+
+interface DatedEvent {
+  kind: 'registration' | 'mail_ballot_request' | 'early_voting' | 'election_day';
+  category: Exclude<ReminderCategory, 'new_measures'>;
+  label: string;
+  date: string;
+  details: string;
+}
+
+function datedEvents(election: ReminderElection, calendar: ReminderCalendar, state?: string): DatedEvent[] {
+  const rules = state ? calendar.rules[state] : undefined;
+  const on = `${election.name} is ${formatDate(election.date)}.`;
+  const events: DatedEvent[] = [];
+
+  if (rules) {
+    events.push({
+      kind: 'registration',
+      category: 'deadlines',
+      label: rules.sameDayRegistration ? 'Register in advance' : 'Registration deadline',
+      date: shiftDate(election.date, -rules.registrationDaysBefore),
+      details: rules.sameDayRegistration
+        ? `${on} You can still register at the polls, but registering now saves time.`
+        : `${on} Check that you're registered at your current address.`
+    });
+    if (rules.mailBallotRequestDaysBefore !== undefined) {
+      events.push({
+        kind: 'mail_ballot_request',
+        category: 'deadlines',
+        label: 'Mail ballot request deadline',
+        date: shiftDate(election.date, -rules.mailBallotRequestDaysBefore),
+        details: `${on} Request your mail ballot from your county election office.`
+      });
+    }
+    if (rules.earlyVotingDaysBefore !== undefined) {
+      events.push({
+        kind: 'early_voting',
+        category: 'early_voting',
+        label: 'Early voting starts',
+        date: shiftDate(election.date, -rules.earlyVotingDaysBefore),
+        details: `${on} Find an early voting location near you.`
+      });
+    }
+  }
+  events.push({
+    kind: 'election_day',
+    category: 'election_day',
+    label: election.name,
+    date: election.date,
+    details: 'Check your polling place and bring your voter guide.'
+  });
+  return events;
+}
+
+function measureReminder(measures: PublishedMeasure[]): Reminder {
+  const [first] = measures;
+  return {
+    keys: measures.map(measure => `measure:${measure.id}`),
+    category: 'new_measures',
+    payload: {
+      title: measures.length === 1 ? 'New ballot measure published' : `${measures.length} new ballot measures published`,
+      body: measures.length === 1
+        ? `${first.title} will be on your ballot.`
+        : `${measures.slice(0, 2).map(measure => measure.title).join('; ')}${measures.length > 2 ? ' and more' : ''}.`,
+      url: measures.length === 1 && first.url ? first.url : '/',
+      tag: 'new-measures'
+    }
+  };
+}
+
+/**
+ * The notifications due for one subscriber today, leaving out any whose keys
+ * are in `sent`. Only the nearest lead time reached counts, so a voter who
+ * subscribes two days before a deadline hears about it once, not twice.
+ * Measures count as new when first seen after the voter subscribed.
+ */
+export function planReminders(
+  subscriber: ReminderSubscriber,
+  calendar: ReminderCalendar,
+  today: string,
+  sent: ReadonlySet<string> = new Set()
+): Reminder[] {
+  const wants = new Set(subscriber.categories);
+  const reminders: Reminder[] = [];
+
+  const elections = calendar.elections.filter(election =>
+    (!election.state || election.state === subscriber.state) && election.date >= today
+  );
+  for (const election of elections) {
+    for (const event of datedEvents(election, calendar, subscriber.state)) {
+      if (!wants.has(event.category)) continue;
+      const daysLeft = daysBetween(today, event.date);
+      const lead = LEAD_DAYS[event.category].filter(days => daysLeft >= 0 && daysLeft <= days).pop();
+      if (lead === undefined) continue;
+
+      const key = `${election.id}:${event.kind}:${lead}`;
+      if (sent.has(key)) continue;
+      reminders.push({
+        keys: [key],
+        category: event.category,
+        payload: {
+          title: event.kind === 'election_day' ? `Election day is ${whenText(daysLeft)}` : `${event.label} ${whenText(daysLeft)}`,
+          body: event.details,
+          url: '/',
+          tag: `${election.id}:${event.kind}`
+        }
+      });
+    }
+  }
+
+  if (wants.has('new_measures') && subscriber.state) {
+    const fresh = calendar.measures.filter(measure =>
+      measure.state === subscriber.state &&
+      measure.firstSeenAt >= subscriber.createdAt &&
+      !sent.has(`measure:${measure.id}`)
+    );
+    if (fresh.length > 0) reminders.push(measureReminder(fresh));
+  }
+
+  return reminders;
+}
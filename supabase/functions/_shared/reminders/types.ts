@@ -0,0 +1,104 @@
+/**
+ * What a voter can opt in to. `deadlines` covers registration and mail ballot
+ * request deadlines.
+ */
+export type ReminderCategory = 'deadlines' | 'early_voting' | 'election_day' | 'new_measures';
+
+/**
+ * A stored push subscription, as the scheduler reads it
+ */
+export interface ReminderSubscriber {
+  id: string;
+  zipCode: string;
+  state?: string;
+  // Congressional district id, e.g. "ca-12"
+  district?: string;
+  categories: ReminderCategory[];
+  createdAt: string;
+}
+
+export interface ReminderElection {
+  id: string;
+  name: string;
+  // ISO date (YYYY-MM-DD)
+  date: string;
+  // Unset for elections held nationwide
+  state?: string;
+}
+
+/**
+ * A state's deadlines as days before election day; matches StateElectionRules
+ */
+export interface ReminderRules {
+  registrationDaysBefore: number;
+  mailBallotRequestDaysBefore?: number;
+  earlyVotingDaysBefore?: number;
+  sameDayRegistration?: boolean;
+}
+
+/**
+ * A ballot measure and when the scheduler first saw it published
+ */
+export interface PublishedMeasure {
+  id: string;
+  state: string;
+  title: string;
+  firstSeenAt: string;
+  url?: string;
+}
+
+export interface ReminderCalendar {
+  elections: ReminderElection[];
+  rules: Record<string, ReminderRules>;
+  measures: PublishedMeasure[];
+}
+
+/**
+ * What the service worker shows
+ */
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  // Notifications with the same tag replace each other
+  tag: string;
+}
+
+/**
+ * One notification due for a subscriber. `keys` are recorded once it is sent
+ * so later runs skip it; a notice about several measures has one per measure.
+ */
+export interface Reminder {
+  keys: string[];
+  category: ReminderCategory;
+  payload: PushPayload;
+}
+
+/**
+ * A browser push subscription as `PushSubscription.toJSON()` gives it
+ */
+export interface WebPushSubscription {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/**
+ * VAPID key pair, base64url encoded: the public key as an uncompressed P-256
+ * point, the private key as its 32-byte scalar
+ */
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  // Contact for push services, a mailto: or https: URL
+  subject: string;
+}
+
+export interface WebPushResult {
+  status: number;
+  ok: boolean;
+  // The push service no longer knows the subscription; delete it
+  expired: boolean;
+}
@@ -0,0 +1,200 @@
+import { PushPayload, VapidKeys, WebPushResult, WebPushSubscription } from './types.ts';
+
+// Web Push with WebCrypto only, so it runs in Deno, browsers and tests alike:
+// payloads are encrypted per RFC 8291 (aes128gcm) and signed per RFC 8292 (VAPID)
+
+const RECORD_SIZE = 4096;
+// Room for the padding delimiter and the AES-GCM tag in one record
+const MAX_PAYLOAD_BYTES = RECORD_SIZE - 17;
+const VAPID_TOKEN_HOURS = 12;
+
+const encoder = new TextEncoder();
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (text.length % 4)) % 4);
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+const concat = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+async function hmac(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, data));
+}
+
+// HKDF with a single output block, which covers every length Web Push needs
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const prk = await hmac(salt, ikm);
+  return (await hmac(prk, concat(info, new Uint8Array([1])))).slice(0, length);
+}
+
+async function ecdhSecret(privateKey: CryptoKey, publicKey: Uint8Array): Promise<Uint8Array> {
+  const peer = await crypto.subtle.importKey('raw', publicKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: peer }, privateKey, 256));
+}
+
+async function contentKeys(
+  secret: Uint8Array,
+  authSecret: Uint8Array,
+  subscriberPublic: Uint8Array,
+  senderPublic: Uint8Array,
+  salt: Uint8Array
+): Promise<{ key: CryptoKey; nonce: Uint8Array }> {
+  const info = concat(encoder.encode('WebPush: info\0'), subscriberPublic, senderPublic);
+  const ikm = await hkdf(authSecret, secret, info, 32);
+  const cek = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+  const key = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return { key, nonce };
+}
+
+/**
+ * Encrypt a payload for one subscription as a single aes128gcm record
+ */
+export async function encryptPushPayload(plaintext: Uint8Array, subscription: WebPushSubscription): Promise<Uint8Array> {
+  if (plaintext.length > MAX_PAYLOAD_BYTES) {
+    throw new Error(`Push payload is ${plaintext.length} bytes; the limit is ${MAX_PAYLOAD_BYTES}`);
+  }
+  const subscriberPublic = base64UrlDecode(subscription.keys.p256dh);
+  const authSecret = base64UrlDecode(subscription.keys.auth);
+
+  const sender = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const senderPublic = new Uint8Array(await crypto.subtle.exportKey('raw', sender.publicKey));
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const secret = await ecdhSecret(sender.privateKey, subscriberPublic);
+  const { key, nonce } = await contentKeys(secret, authSecret, subscriberPublic, senderPublic, salt);
+
+  // 0x02 marks the last (and only) record
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, key, concat(plaintext, new Uint8Array([2])))
+  );
+  const header = new Uint8Array(21 + senderPublic.length);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = senderPublic.length;
+  header.set(senderPublic, 21);
+  return concat(header, ciphertext);
+}
+
+/**
+ * The subscriber's side of `encryptPushPayload`, for the push-test harness
+ */
+export async function decryptPushPayload(
+  body: Uint8Array,
+  subscriberPrivateKey: CryptoKey,
+  subscription: WebPushSubscription
+): Promise<Uint8Array> {
+  const salt = body.slice(0, 16);
+  const idLength = body[20];
+  const senderPublic = body.slice(21, 21 + idLength);
+  const subscriberPublic = base64UrlDecode(subscription.keys.p256dh);
+  const secret = await ecdhSecret(subscriberPrivateKey, senderPublic);
+  const { key, nonce } = await contentKeys(secret, base64UrlDecode(subscription.keys.auth), subscriberPublic, senderPublic, salt);
+
+  const padded = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, key, body.slice(21 + idLength)));
+  const delimiter = padded.lastIndexOf(2);
+  if (delimiter < 0) throw new Error('Push payload has no record delimiter');
+  return padded.slice(0, delimiter);
+}
+
+const importVapidKey = (vapid: Pick<VapidKeys, 'publicKey'> & { privateKey?: string }) => {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  const jwk: JsonWebKey = {
+    kty: 'EC',
+    crv: 'P-256',
+    x: base64UrlEncode(publicKey.slice(1, 33)),
+    y: base64UrlEncode(publicKey.slice(33, 65)),
+    ...(vapid.privateKey ? { d: vapid.privateKey } : {})
+  };
+  return crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, [vapid.privateKey ? 'sign' : 'verify']);
+};
+
+/**
+ * The `Authorization` header value for a push to `endpoint`
+ */
+export async function vapidAuthorization(endpoint: string, vapid: VapidKeys, now: number = Date.now()): Promise<string> {
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(encoder.encode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + VAPID_TOKEN_HOURS * 60 * 60,
+    sub: vapid.subject
+  })));
+  const key = await importVapidKey(vapid);
+  // WebCrypto signs ECDSA as raw r || s, which is what JWS ES256 wants
+  const signature = new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, encoder.encode(`${header}.${claims}`)));
+  return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Check a VAPID header against the public key, as a push service would
+ */
+export async function verifyVapidAuthorization(authorization: string, publicKey: string): Promise<boolean> {
+  const token = authorization.match(/t=([^,\s]+)/)?.[1];
+  const key = authorization.match(/k=([^,\s]+)/)?.[1];
+  if (!token || key !== publicKey) return false;
+
+  const [header, claims, signature] = token.split('.');
+  if (!header || !claims || !signature) return false;
+  const verifier = await importVapidKey({ publicKey });
+  return crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    verifier,
+    base64UrlDecode(signature),
+    encoder.encode(`${header}.${claims}`)
+  );
+}
+
+/**
+ * A new VAPID key pair for VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY
+ */
+export async function generateVapidKeys(): Promise<Omit<VapidKeys, 'subject'>> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey));
+  const { d } = await crypto.subtle.exportKey('jwk', pair.privateKey);
+  return { publicKey: base64UrlEncode(publicKey), privateKey: d || '' };
+}
+
+/**
+ * Encrypt and deliver one notification to a push service
+ */
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: PushPayload,
+  vapid: VapidKeys,
+  options: { ttlSeconds?: number; fetcher?: typeof fetch } = {}
+): Promise<WebPushResult> {
+  const { ttlSeconds = 24 * 60 * 60, fetcher = fetch } = options;
+  const body = await encryptPushPayload(encoder.encode(JSON.stringify(payload)), subscription);
+  const response = await fetcher(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: await vapidAuthorization(subscription.endpoint, vapid),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(ttlSeconds),
+      Urgency: 'normal'
+    },
+    body
+  });
+  return {
+    status: response.status,
+    ok: response.ok,
+    expired: response.status === 404 || response.status === 410
+  };
+}
@@ -0,0 +1,84 @@
+import terminologyData from './terminology.json' with { type: 'json' };
+import type { Locale } from '../i18n/index.ts';
+import { migrateTerminology } from './migrations.ts';
+import { terminologyPackageSchema } from './schema.ts';
+import { LegacyTerminologyConfig, TerminologyError, TerminologyPackage } from './types.ts';
+import { validateTerminology } from './validate.ts';
+
+export { CURRENT_TERMINOLOGY_VERSION, detectTerminologyVersion, migrateTerminology } from './migrations.ts';
+export {
+  complexIssueSchema,
+  fallbackTermSchema,
+  keywordTermSchema,
+  nuancedMappingSchema,
+  nuanceWeightsSchema,
+  terminologyPackageSchema,
+  terminologyTermSchema,
+  termTranslationSchema
+} from './schema.ts';
+export { checkTerminologySchema, validateTerminology } from './validate.ts';
+export { TerminologyError } from './types.ts';
+export type {
+  ComplexIssue,
+  FallbackTerm,
+  KeywordTerm,
+  LegacyTerminologyConfig,
+  NuancedMappingTemplate,
+  NuanceWeights,
+  TerminologyIssue,
+  TerminologyIssueCode,
+  TerminologyPackage,
+  TerminologyTerm,
+  TerminologyVersion,
+  TermTranslation,
+  TermTranslations
+} from './types.ts';
+
+/**
+ * Migrate a raw terminology document of any supported version to the current
+ * one and validate it. Throws a `TerminologyError` listing every issue if any
+ * of them is an error; warnings alone don't stop it loading.
+ */
+export function parseTerminology(raw: unknown): TerminologyPackage {
+  const migrated = migrateTerminology(raw);
+  const issues = validateTerminology(migrated);
+  const errors = issues.filter(issue => issue.severity === 'error');
+
+  if (errors.length > 0) {
+    const summary = errors.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    throw new TerminologyError(`Invalid terminology (${errors.length} errors): ${summary}`, issues);
+  }
+  return terminologyPackageSchema.parse(migrated) as TerminologyPackage;
+}
+
+let canonical: TerminologyPackage | null = null;
+
+/**
+ * The canonical terminology in `terminology.json`, parsed once per runtime
+ */
+export function loadTerminology(): TerminologyPackage {
+  if (!canonical) canonical = parseTerminology(terminologyData);
+  return canonical;
+}
+
+/**
+ * The version 1 flat layout (`{ fallback, economy: {...}, ..., issues }`) that
+ * the keyword matchers and the stance detector iterate over
+ */
+export function toLegacyTerminology(terminology: TerminologyPackage = loadTerminology()): LegacyTerminologyConfig {
+  return migrateTerminology(terminology, 1) as LegacyTerminologyConfig;
+}
+
+/**
+ * What to show a voter for an English `standardTerm` in their language: the
+ * term's translated label, or the standard term itself when there is none
+ */
+export function localizeTerm(
+  standardTerm: string,
+  locale: Locale,
+  terminology: TerminologyPackage = loadTerminology()
+): string {
+  if (locale === 'en') return standardTerm;
+  const term = Object.values(terminology.terms).find(candidate => candidate.standardTerm === standardTerm);
+  return term?.translations?.[locale]?.label || standardTerm;
+}
@@ -0,0 +1,78 @@
+import {
+  ComplexIssue,
+  FallbackTerm,
+  LegacyTerminologyConfig,
+  TerminologyError,
+  TerminologyPackage,
+  TerminologyTerm,
+  TerminologyVersion
+} from './types.ts';
+
+export const CURRENT_TERMINOLOGY_VERSION: TerminologyVersion = 3;
+
+type Document = Record<string, unknown>;
+
+const isDocument = (value: unknown): value is Document =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Which version a raw terminology document is in. Version 1 files carry no
+ * version field, so they are recognised by their top-level `fallback` term.
+ */
+export function detectTerminologyVersion(raw: unknown): TerminologyVersion {
+  if (!isDocument(raw)) throw new TerminologyError('Terminology must be a JSON object');
+  if (raw.version === undefined && isDocument(raw.fallback)) return 1;
+  if (raw.version === 1 || raw.version === 2 || raw.version === 3) return raw.version;
+  throw new TerminologyError(`Unsupported terminology version: ${JSON.stringify(raw.version)}`);
+}
+
+const upgrades: Record<number, (doc: Document) => Document> = {
+  // The flat layout becomes an envelope with the terms under `terms`
+  1: doc => {
+    const { fallback, issues, version: _version, lastUpdated, ...terms } = doc;
+    const { standardTerm, plainEnglish, nuance } = fallback as FallbackTerm;
+    const upgraded: Omit<TerminologyPackage, 'version' | 'keywordTerms'> & { version: 2 } = {
+      version: 2,
+      updatedAt: typeof lastUpdated === 'string' ? lastUpdated : new Date().toISOString(),
+      fallback: { standardTerm, plainEnglish, nuance: nuance || {} },
+      terms: terms as Record<string, TerminologyTerm>,
+      complexIssues: Array.isArray(issues) ? issues as ComplexIssue[] : [],
+      nuanceTriggers: {}
+    };
+    return upgraded as unknown as Document;
+  },
+  // Keyword terms used to be generated in the app from current-issues.json
+  2: doc => ({ ...doc, version: 3, keywordTerms: {} })
+};
+
+const downgrades: Record<number, (doc: Document) => Document> = {
+  // Nuance triggers have no place in the flat layout and are dropped
+  2: doc => {
+    const { fallback, terms, complexIssues } = doc as unknown as TerminologyPackage;
+    const legacy: LegacyTerminologyConfig = { fallback, ...terms, issues: complexIssues };
+    return legacy;
+  },
+  3: doc => {
+    const { keywordTerms: _keywordTerms, ...rest } = doc;
+    return { ...rest, version: 2 };
+  }
+};
+
+/**
+ * Step a raw terminology document up or down to the given version, one
+ * version at a time. The result is not validated; `parseTerminology` does that.
+ */
+export function migrateTerminology(raw: unknown, to: TerminologyVersion = CURRENT_TERMINOLOGY_VERSION): unknown {
+  let version: number = detectTerminologyVersion(raw);
+  let doc = raw as Document;
+
+  while (version < to) {
+    doc = upgrades[version](doc);
+    version++;
+  }
+  while (version > to) {
+    doc = downgrades[version](doc);
+    version--;
+  }
+  return doc;
+}
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+const phrase = z.string().trim().min(1, 'must not be empty');
+const phrases = z.array(phrase);
+
+export const nuanceWeightsSchema = z.record(z.number().min(-1).max(1));
+
+export const nuancedMappingSchema = z.object({ reasoning: z.string().min(1) }).catchall(z.boolean());
+
+export const termTranslationSchema = z.object({
+  label: phrase,
+  plainEnglish: phrase,
+  plainLanguage: phrases.min(1, 'needs at least one phrase'),
+  inclusionWords: phrases.min(1).optional(),
+  exclusionWords: phrases.min(1).optional()
+}).strict();
+
+// Strict, so a misspelled field ("exclusionWord") fails instead of being ignored
+export const terminologyTermSchema = z.object({
+  standardTerm: phrase,
+  plainEnglish: phrase,
+  plainLanguage: phrases.min(1, 'needs at least one phrase'),
+  inclusionWords: phrases.min(1).optional(),
+  exclusionWords: phrases.min(1).optional(),
+  nuance: nuanceWeightsSchema,
+  nuancedMapping: nuancedMappingSchema.optional(),
+  // English is the term itself, so only the other locales appear here
+  translations: z.object({ es: termTranslationSchema.optional() }).strict().optional()
+}).strict();
+
+export const fallbackTermSchema = z.object({
+  standardTerm: phrase,
+  plainEnglish: phrase,
+  nuance: nuanceWeightsSchema
+}).strict();
+
+export const complexIssueSchema = z.object({
+  political_priority: phrase,
+  plain_english: phrase,
+  nuance: nuanceWeightsSchema
+}).strict();
+
+export const keywordTermSchema = z.object({
+  standardTerm: phrase,
+  category: phrase,
+  plainLanguage: phrases,
+  keywords: phrases,
+  publicConcern: z.enum(['High', 'Moderate', 'Low']).optional(),
+  nuance: nuanceWeightsSchema
+}).strict();
+
+export const terminologyPackageSchema = z.object({
+  version: z.literal(3),
+  updatedAt: z.string().datetime({ offset: true }),
+  fallback: fallbackTermSchema,
+  terms: z.record(z.string().regex(/^[a-z][A-Za-z0-9]*$/, 'term ids are camelCase'), terminologyTermSchema),
+  complexIssues: z.array(complexIssueSchema),
+  nuanceTriggers: z.record(phrases),
+  keywordTerms: z.record(phrase, keywordTermSchema)
+}).strict();
@@ -0,0 +1,131 @@
+// Shared by the browser app, Node tests and the Deno edge functions, so
+// nothing in this folder may import app aliases or runtime-specific globals.
+
+import type { Locale } from '../i18n/index.ts';
+
+/**
+ * How strongly a term leans on each nuance, from -1 (opposing view) to 1
+ */
+export type NuanceWeights = Record<string, number>;
+
+/**
+ * Flags describing a supporter of the term, filled in per voter by the stance
+ * detector. `reasoning` explains them in plain words.
+ */
+export interface NuancedMappingTemplate {
+  reasoning: string;
+  [flag: string]: boolean | string;
+}
+
+/**
+ * A term in another language. Voter phrases in that language still map to
+ * the English `standardTerm`; `label` is only what the voter is shown.
+ */
+export interface TermTranslation {
+  label: string;
+  plainEnglish: string;
+  plainLanguage: string[];
+  inclusionWords?: string[];
+  exclusionWords?: string[];
+}
+
+export type TermTranslations = Partial<Record<Exclude<Locale, 'en'>, TermTranslation>>;
+
+export interface TerminologyTerm {
+  standardTerm: string;
+  plainEnglish: string;
+  // Voter phrases that map to this term
+  plainLanguage: string[];
+  // At least one of these must appear for the term to match
+  inclusionWords?: string[];
+  // Any of these rules the term out
+  exclusionWords?: string[];
+  nuance: NuanceWeights;
+  nuancedMapping?: NuancedMappingTemplate;
+  translations?: TermTranslations;
+}
+
+export interface FallbackTerm {
+  standardTerm: string;
+  plainEnglish: string;
+  nuance: NuanceWeights;
+}
+
+/**
+ * A priority that spans several terms, described by its nuance weights alone
+ */
+export interface ComplexIssue {
+  political_priority: string;
+  plain_english: string;
+  nuance: NuanceWeights;
+}
+
+/**
+ * A broad topic matched by phrases and keywords alone, such as the current
+ * issues voters raise most ("Inflation and Cost of Living")
+ */
+export interface KeywordTerm {
+  standardTerm: string;
+  category: string;
+  plainLanguage: string[];
+  // Two or more of these together count as a match
+  keywords: string[];
+  publicConcern?: 'High' | 'Moderate' | 'Low';
+  nuance: NuanceWeights;
+}
+
+/**
+ * The canonical terminology document (version 3)
+ */
+export interface TerminologyPackage {
+  version: 3;
+  updatedAt: string;
+  fallback: FallbackTerm;
+  // Keyed by a stable camelCase id ("taxWealthyMore")
+  terms: Record<string, TerminologyTerm>;
+  complexIssues: ComplexIssue[];
+  // Phrases that signal a nuance key, used by the debug-terminology scorer
+  nuanceTriggers: Record<string, string[]>;
+  // Keyed by the ids learned mappings already store, so some aren't camelCase
+  keywordTerms: Record<string, KeywordTerm>;
+}
+
+/**
+ * Version 1: the flat `issueTerminology.json` layout, with terms, `fallback`
+ * and `issues` side by side at the top level. Still what most consumers read.
+ */
+export type LegacyTerminologyConfig = {
+  fallback: FallbackTerm;
+  issues?: ComplexIssue[];
+} & Record<string, TerminologyTerm | FallbackTerm | ComplexIssue[]>;
+
+export type TerminologyVersion = 1 | 2 | 3;
+
+export type TerminologyIssueCode =
+  | 'schema'
+  | 'duplicate_phrase'
+  | 'overlapping_phrase'
+  | 'duplicate_standard_term'
+  | 'conflicting_words'
+  | 'excluded_phrase'
+  | 'dangling_reference'
+  | 'missing_translation';
+
+/**
+ * One problem found by the validator. Errors stop the package from loading;
+ * warnings are worth a look but can be intentional.
+ */
+export interface TerminologyIssue {
+  code: TerminologyIssueCode;
+  severity: 'error' | 'warning';
+  // Dotted path into the package ("terms.proLife.plainLanguage[3]")
+  path: string;
+  message: string;
+}
+
+export class TerminologyError extends Error {
+  constructor(message: string, public issues: TerminologyIssue[] = []) {
+    super(message);
+    this.name = 'TerminologyError';
+  }
+}
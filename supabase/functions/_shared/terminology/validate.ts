@@ -0,0 +1,214 @@
+import { foldDiacritics, Locale, SUPPORTED_LOCALES } from '../i18n/index.ts';
+import { terminologyPackageSchema } from './schema.ts';
+import { TerminologyIssue, TerminologyPackage, TerminologyTerm } from './types.ts';
+
+const normalize = (phrase: string) => foldDiacritics(phrase.toLowerCase()).replace(/\s+/g, ' ').trim();
+
+const TRANSLATED_LOCALES = SUPPORTED_LOCALES.filter((locale): locale is Exclude<Locale, 'en'> => locale !== 'en');
+
+/**
+ * A term's phrases and words in one language, with the path they live at
+ */
+interface LocalizedWords {
+  locale: Locale;
+  path: string;
+  plainLanguage: string[];
+  inclusionWords?: string[];
+  exclusionWords?: string[];
+}
+
+function localizedWords(termId: string, term: TerminologyTerm): LocalizedWords[] {
+  const localized: LocalizedWords[] = [{ locale: 'en', path: `terms.${termId}`, ...term }];
+  for (const locale of TRANSLATED_LOCALES) {
+    const translation = term.translations?.[locale];
+    if (translation) localized.push({ locale, path: `terms.${termId}.translations.${locale}`, ...translation });
+  }
+  return localized;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word containment, so "tax" is inside "wealth tax" but not "taxi"
+const containsPhrase = (text: string, phrase: string) =>
+  new RegExp(`(?<![a-z0-9])${escapeRegExp(phrase)}(?![a-z0-9])`).test(text);
+
+const formatPath = (path: Array<string | number>) => path.reduce<string>((formatted, part) =>
+  typeof part === 'number' ? `${formatted}[${part}]` : formatted ? `${formatted}.${part}` : part, '');
+
+/**
+ * Check a terminology package's shape against the zod schema. Returns one
+ * issue per problem, so an empty list means the shape is valid.
+ */
+export function checkTerminologySchema(raw: unknown): TerminologyIssue[] {
+  const result = terminologyPackageSchema.safeParse(raw);
+  if (result.success) return [];
+  return result.error.issues.map((issue): TerminologyIssue => ({
+    code: 'schema',
+    severity: 'error',
+    path: formatPath(issue.path),
+    message: issue.message
+  }));
+}
+
+interface PhraseUse {
+  termId: string;
+  phrase: string;
+  path: string;
+}
+
+// Phrases are compared within one language only
+function checkLocalePhrases(uses: PhraseUse[]): TerminologyIssue[] {
+  const issues: TerminologyIssue[] = [];
+  const firstUse = new Map<string, PhraseUse>();
+  for (const use of uses) {
+    const earlier = firstUse.get(use.phrase);
+    if (!earlier) {
+      firstUse.set(use.phrase, use);
+      continue;
+    }
+    const sameTerm = earlier.termId === use.termId;
+    issues.push({
+      code: 'duplicate_phrase',
+      severity: sameTerm ? 'warning' : 'error',
+      path: use.path,
+      message: sameTerm
+        ? `"${use.phrase}" is listed twice for ${use.termId}`
+        : `"${use.phrase}" maps to both ${earlier.termId} and ${use.termId}`
+    });
+  }
+
+  // A phrase inside another term's phrase means every input matching the
+  // longer one also matches the shorter one's term
+  const distinct = Array.from(firstUse.values());
+  for (const inner of distinct) {
+    for (const outer of distinct) {
+      if (inner.termId === outer.termId || inner.phrase === outer.phrase) continue;
+      if (!containsPhrase(outer.phrase, inner.phrase)) continue;
+      issues.push({
+        code: 'overlapping_phrase',
+        severity: 'warning',
+        path: outer.path,
+        message: `"${outer.phrase}" (${outer.termId}) also matches "${inner.phrase}" (${inner.termId})`
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkPhrases(terminology: TerminologyPackage): TerminologyIssue[] {
+  const usesByLocale = new Map<Locale, PhraseUse[]>();
+  for (const [termId, term] of Object.entries(terminology.terms)) {
+    for (const { locale, path, plainLanguage } of localizedWords(termId, term)) {
+      const uses = usesByLocale.get(locale) || [];
+      uses.push(...plainLanguage.map((phrase, index) => ({
+        termId,
+        phrase: normalize(phrase),
+        path: `${path}.plainLanguage[${index}]`
+      })));
+      usesByLocale.set(locale, uses);
+    }
+  }
+
+  return Array.from(usesByLocale.values()).flatMap(checkLocalePhrases);
+}
+
+function checkWords(termId: string, { path, plainLanguage, inclusionWords, exclusionWords }: LocalizedWords): TerminologyIssue[] {
+  const issues: TerminologyIssue[] = [];
+  const excluded = (exclusionWords || []).map(normalize);
+
+  for (const word of (inclusionWords || []).map(normalize)) {
+    if (!excluded.includes(word)) continue;
+    issues.push({
+      code: 'conflicting_words',
+      severity: 'error',
+      path,
+      message: `"${word}" is both an inclusion and an exclusion word for ${termId}`
+    });
+  }
+
+  plainLanguage.forEach((phrase, index) => {
+    const word = excluded.find(excludedWord => containsPhrase(normalize(phrase), excludedWord));
+    if (!word) return;
+    issues.push({
+      code: 'excluded_phrase',
+      severity: 'error',
+      path: `${path}.plainLanguage[${index}]`,
+      message: `"${phrase}" contains the exclusion word "${word}", so it can never match ${termId}`
+    });
+  });
+
+  return issues;
+}
+
+function checkTerms(terminology: TerminologyPackage): TerminologyIssue[] {
+  const issues: TerminologyIssue[] = [];
+  const standardTerms = new Map<string, string>();
+  // A language counts as translated once any term has it; then every term should
+  const translated = TRANSLATED_LOCALES.filter(locale =>
+    Object.values(terminology.terms).some(term => term.translations?.[locale])
+  );
+
+  for (const [termId, term] of Object.entries(terminology.terms)) {
+    const key = normalize(term.standardTerm);
+    const existing = standardTerms.get(key);
+    if (existing) {
+      issues.push({
+        code: 'duplicate_standard_term',
+        severity: 'error',
+        path: `terms.${termId}.standardTerm`,
+        message: `${termId} and ${existing} are both "${term.standardTerm}"`
+      });
+    } else {
+      standardTerms.set(key, termId);
+    }
+
+    for (const localized of localizedWords(termId, term)) {
+      issues.push(...checkWords(termId, localized));
+    }
+
+    for (const locale of translated) {
+      if (term.translations?.[locale]) continue;
+      issues.push({
+        code: 'missing_translation',
+        severity: 'warning',
+        path: `terms.${termId}.translations`,
+        message: `${termId} has no ${locale} phrases, so ${locale} priorities can only reach it by similarity`
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkReferences(terminology: TerminologyPackage): TerminologyIssue[] {
+  const nuanceKeys = new Set([
+    ...Object.values(terminology.terms).flatMap(term => Object.keys(term.nuance)),
+    ...terminology.complexIssues.flatMap(issue => Object.keys(issue.nuance)),
+    ...Object.values(terminology.keywordTerms).flatMap(term => Object.keys(term.nuance))
+  ]);
+
+  return Object.keys(terminology.nuanceTriggers)
+    .filter(key => !nuanceKeys.has(key))
+    .map((key): TerminologyIssue => ({
+      code: 'dangling_reference',
+      severity: 'error',
+      path: `nuanceTriggers.${key}`,
+      message: `Triggers are defined for "${key}", but no term has that nuance`
+    }));
+}
+
+/**
+ * Everything wrong with a terminology package: schema errors first, then,
+ * once the shape is valid, duplicate and overlapping phrases, contradictory
+ * inclusion/exclusion words (each checked per language), terms missing a
+ * language the rest are translated into and references to nuance keys that
+ * don't exist.
+ */
+export function validateTerminology(raw: unknown): TerminologyIssue[] {
+  const schemaIssues = checkTerminologySchema(raw);
+  if (schemaIssues.length > 0) return schemaIssues;
+
+  const terminology = raw as TerminologyPackage;
+  return [...checkPhrases(terminology), ...checkTerms(terminology), ...checkReferences(terminology)];
+}
@@ -1,6 +1,16 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import "https://deno.land/x/xhr@0.1.0/mod.ts"
+import { toCanonicalMappedPriorities } from '../_shared/mapping-result.ts'
+import { createLlmClient, type LlmProviderName } from '../_shared/llm/index.ts'
+import {
+  categorizeRecipient,
+  composeEmail,
+  issuesFromPriorities,
+  type EmailLength,
+  type EmailSender,
+  type EmailTone
+} from '../_shared/email/index.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,133 +19,64 @@ const corsHeaders = {
 
 const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 if (!openAIApiKey) {
-  throw new Error('OPENAI_API_KEY is not set');
+  console.warn('OPENAI_API_KEY is not set, replaying recorded LLM fixtures');
 }
 
+const llm = createLlmClient({
+  provider: Deno.env.get('LLM_PROVIDER') as LlmProviderName | undefined,
+  apiKey: openAIApiKey,
+  model: Deno.env.get('LLM_MODEL')
+});
+
 async function analyzePriorities(priorities: string[]) {
   console.log('Analyzing priorities:', priorities);
   
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a political analyst expert in converting casual language about political priorities into formal policy positions. Format the response as JSON with two fields: 1. "mappedPriorities": array of formal policy positions, 2. "analysis": comprehensive but concise analysis of the overall political perspective'
-          },
-          {
-            role: 'user',
-            content: `Analyze these political priorities and map them to formal policy positions: ${JSON.stringify(priorities)}`
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', errorText);
-      throw new Error(`OpenAI API error: ${errorText}`);
-    }
-
-    const data = await response.json();
-    console.log('OpenAI response:', data);
-    
-    if (!data.choices?.[0]?.message?.content) {
-      throw new Error('Invalid response from OpenAI API');
-    }
-    
-    return JSON.parse(data.choices[0].message.content);
+    const result = await llm.runJson<{
+      mappings: Record<string, string[]>;
+      confidenceScores: Record<string, number>;
+      analysis: string;
+    }>('summarize-priorities', { priorities });
+    return {
+      mappedPriorities: toCanonicalMappedPriorities(priorities, result.mappings, result.confidenceScores),
+      analysis: result.analysis
+    };
   } catch (error) {
     console.error('Error in analyzePriorities:', error);
     throw error;
   }
 }
 
-async function generateEmailDraft(representative: any, priorities: string[]) {
+// Rendered from the shared templates, so drafts match the ones the app composes
+function generateEmailDraft(
+  representative: any,
+  issues: ReturnType<typeof issuesFromPriorities>,
+  options: { sender?: EmailSender; tone?: EmailTone; length?: EmailLength; localFacts?: string[] }
+) {
   console.log('Generating email draft for:', representative.name);
-  
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert in constituent communication. Write a professional, convincing email that clearly communicates the constituent\'s priorities.'
-          },
-          {
-            role: 'user',
-            content: `Write an email to ${representative.name} (${representative.office}) expressing these priorities: ${JSON.stringify(priorities)}`
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
-      }),
-    });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', errorText);
-      throw new Error(`OpenAI API error: ${errorText}`);
-    }
-
-    const data = await response.json();
-    if (!data.choices?.[0]?.message?.content) {
-      throw new Error('Invalid response from OpenAI API');
-    }
-    return data.choices[0].message.content;
-  } catch (error) {
-    console.error('Error in generateEmailDraft:', error);
-    throw error;
-  }
+  const draft = composeEmail({
+    recipient: {
+      name: representative.name,
+      title: representative.office || '',
+      email: representative.email,
+      personId: representative.personId
+    },
+    category: categorizeRecipient(representative.match),
+    issues,
+    ...options
+  });
+  return { to: draft.recipient.email, ...draft };
 }
 
 async function findRelevantGroups(priorities: string[]) {
   console.log('Finding relevant groups for priorities:', priorities);
   
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert in civic engagement and advocacy groups. Generate relevant interest groups based on political priorities. Return response as a JSON array of objects with fields: name, url, relevance'
-          },
-          {
-            role: 'user',
-            content: `Suggest 3 relevant interest groups for these priorities: ${JSON.stringify(priorities)}`
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to get interest group suggestions');
-    }
-
-    const data = await response.json();
-    return JSON.parse(data.choices[0].message.content);
+    const { groups } = await llm.runJson<{
+      groups: Array<{ name: string; url: string; relevance: string }>;
+    }>('suggest-interest-groups', { priorities });
+    return groups;
   } catch (error) {
     console.error('Error finding interest groups:', error);
     return [{
@@ -153,7 +94,7 @@ serve(async (req) => {
   }
 
   try {
-    const { priorities, representatives } = await req.json();
+    const { priorities, representatives, sender, tone, length, localFacts } = await req.json();
     console.log('Received request:', { priorities, representativesCount: representatives?.length });
 
     if (!Array.isArray(priorities) || priorities.length !== 6) {
@@ -165,12 +106,9 @@ serve(async (req) => {
     console.log('Priority analysis completed');
 
     // Generate email drafts for each representative
-    const emailDrafts = await Promise.all(
-      (representatives || []).map(async (rep) => ({
-        to: rep.email,
-        subject: `Constituent Priorities for ${rep.name}`,
-        body: await generateEmailDraft(rep, priorities)
-      }))
+    const issues = issuesFromPriorities(priorityAnalysis.mappedPriorities);
+    const emailDrafts = (representatives || []).map((rep) =>
+      generateEmailDraft(rep, issues, { sender, tone, length, localFacts })
     );
     console.log('Email drafts generated');
 
@@ -1,7 +1,11 @@
 import { serve } from "std/http/server.ts";
 import "xhr";
 import { BallotMeasure, BallotpediaApiResponse } from '../types/ballotpedia.ts';
+import { MappedPriority } from '../types/mapping.ts';
 import { FECCandidate, FECCommittee, FECApiResponse } from '../types/fec.ts';
+import { toCanonicalMappedPriorities } from '../_shared/mapping-result.ts';
+import { toBallotMeasures } from '../_shared/ballot-measures/index.ts';
+import { createLlmClient, type LlmProviderName } from '../_shared/llm/index.ts';
 
 // CORS headers
 const corsHeaders = {
@@ -21,9 +25,15 @@ const fecApiKey = Deno.env.get('FEC_API_KEY');
 const ballotpediaApiKey = Deno.env.get('BALLOTPEDIA_API_KEY');
 
 if (!openAIApiKey) {
-  console.warn('OPENAI_API_KEY is not set');
+  console.warn('OPENAI_API_KEY is not set, replaying recorded LLM fixtures');
 }
 
+const llm = createLlmClient({
+  provider: Deno.env.get('LLM_PROVIDER') as LlmProviderName | undefined,
+  apiKey: openAIApiKey,
+  model: Deno.env.get('LLM_MODEL')
+});
+
 // Function to fetch representatives from Google Civic API
 async function fetchRepresentatives(zipCode: string) {
   if (!googleCivicApiKey) {
@@ -49,33 +59,7 @@ async function fetchRepresentatives(zipCode: string) {
 // Function to identify issue areas for officials
 async function identifyOfficialIssueAreas(official: any, mappingResult: any) {
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a political analyst. Given information about a political official, identify their key issue areas and policy positions.'
-          },
-          {
-            role: 'user',
-            content: `Analyze this official's information and identify their key issue areas:\n${JSON.stringify(official)}`
-          }
-        ]
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to analyze official issue areas');
-    }
-
-    const data = await response.json();
-    return data.choices[0].message.content;
+    return await llm.runText('official-issue-areas', { official });
   } catch (error) {
     console.error('Error identifying official issue areas:', error);
     throw error;
@@ -85,33 +69,7 @@ async function identifyOfficialIssueAreas(official: any, mappingResult: any) {
 // Function to generate email draft
 async function generateEmailDraft(official: any, userPriorities: string[], issueAreas: string) {
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert at drafting constituent emails to political representatives.'
-          },
-          {
-            role: 'user',
-            content: `Draft an email to ${official.name} about these priorities: ${userPriorities.join(', ')}`
-          }
-        ]
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to generate email draft');
-    }
-
-    const data = await response.json();
-    return data.choices[0].message.content;
+    return await llm.runText('draft-email', { name: official.name, office: official.office, priorities: userPriorities });
   } catch (error) {
     console.error('Error generating email draft:', error);
     throw error;
@@ -122,65 +80,19 @@ async function analyzePriorities(priorities: string[], mode: "current" | "demo")
   console.log('Analyzing priorities:', priorities);
   
   try {
-    // Step 1: Use GPT-4 to analyze and map priorities
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a political analyst expert who maps voter priorities to standardized policy terms and identifies potential conflicts.
-
-Instructions:
-1. Map each priority to relevant policy areas and political terminology
-2. Identify any conflicting priorities
-3. Generate a brief analysis explaining the relationships
-4. Provide confidence scores for each mapping
-
-Output Format (JSON):
-{
-  "mappings": {
-    "[priority]": ["mapped term 1", "mapped term 2"]
-  },
-  "analysis": "Multi-paragraph analysis with line breaks",
-  "conflicts": [
-    {
-      "priority1": "first priority",
-      "priority2": "second priority",
-      "reason": "explanation of conflict"
-    }
-  ],
-  "confidenceScores": {
-    "[priority]": 0.95
-  }
-}`
-          },
-          {
-            role: 'user',
-            content: `Analyze these voter priorities: ${JSON.stringify(priorities)}`
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 1500
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${await response.text()}`);
-    }
-
-    const data = await response.json();
-    if (!data.choices?.[0]?.message?.content) {
-      throw new Error('Invalid response from OpenAI API');
-    }
-
-    const mappingResult = JSON.parse(data.choices[0].message.content);
+    // Step 1: Ask the language model to map priorities
+    const mappingResult = await llm.runJson<{
+      mappings: Record<string, string[]>;
+      analysis: string;
+      conflicts: Array<{ priority1: string; priority2: string; reason: string }>;
+      confidenceScores: Record<string, number>;
+    }>('map-priorities', { priorities });
     console.log('Priority mapping result:', mappingResult);
+    const mappedPriorities = toCanonicalMappedPriorities(
+      priorities,
+      mappingResult.mappings,
+      mappingResult.confidenceScores
+    );
 
     // Step 2: Get representatives data
     const zipCode = '94105'; // TODO: Get from request
@@ -193,7 +105,7 @@ Output Format (JSON):
     console.log('Candidates:', candidates);
 
     // Step 4: Get ballot measures
-    const ballotMeasures = await fetchBallotMeasures(state, mode);
+    const ballotMeasures = await fetchBallotMeasures(state, mode, mappedPriorities);
     console.log('Ballot measures:', ballotMeasures);
 
     // Step 5: Analyze representatives' issue areas
@@ -216,6 +128,7 @@ Output Format (JSON):
       region: state,
       analysis: mappingResult.analysis,
       mappings: mappingResult.mappings,
+      mappedPriorities,
       candidates,
       ballotMeasures,
       draftEmails: emailDrafts,
@@ -296,7 +209,11 @@ async function fetchCandidatesByState(state: string, mode: "current" | "demo"):
   }
 }
 
-async function fetchBallotMeasures(state: string, mode: "current" | "demo"): Promise<BallotMeasure[]> {
+async function fetchBallotMeasures(
+  state: string,
+  mode: "current" | "demo",
+  mappedPriorities: MappedPriority[]
+): Promise<BallotMeasure[]> {
   if (!ballotpediaApiKey) {
     console.warn('BALLOTPEDIA_API_KEY not set');
     throw new Error('Ballotpedia API key is not configured');
@@ -323,14 +240,7 @@ async function fetchBallotMeasures(state: string, mode: "current" | "demo"): Pro
       throw new Error('Invalid response format from Ballotpedia API');
     }
 
-    return data.data.map((measure): BallotMeasure => ({
-      title: measure.title || measure.name || 'Untitled Measure',
-      description: measure.summary || measure.description || 'No description available',
-      supporters: measure.supporters || [],
-      opposers: measure.opponents || [],
-      userConcernMapping: measure.topic || measure.category || 'Uncategorized',
-      ballotpediaLink: measure.url || ''
-    }));
+    return toBallotMeasures(data.data, mappedPriorities);
   } catch (error) {
     console.error('Error fetching ballot measures:', error);
     throw error; // Re-throw to let the caller handle the error
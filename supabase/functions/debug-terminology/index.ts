@@ -1,146 +1,16 @@
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
+import { loadTerminology, TerminologyPackage, TerminologyTerm } from '../_shared/terminology/index.ts';
 
-interface TermCategory {
-  plainLanguage: string[];
-  standardTerm: string;
-  plainEnglish: string;
-  nuance?: Record<string, number>;
-  inclusionWords?: string[];
-  exclusionWords?: string[];
-  nuancedMapping?: Record<string, any>;
-}
-
-interface TerminologyConfig {
-  [key: string]: TermCategory;
-  fallback: TermCategory;
-}
-
-// Simple mapping of nuance keys to trigger phrases
-const nuanceTriggers: Record<string, string[]> = {
-  // Economic issues
-  "economic_issues": ["tax", "taxes", "income tax", "income taxes", "hard earned money"],
-  "tax_burden_reduction": ["tax burden", "tax relief", "reduce taxes", "lower taxes"],
-  "middle_class_support": ["middle class", "working families", "working class"],
-  "tax_cut_opposition": ["no tax cuts", "against tax cuts", "oppose tax cuts"],
-  
-  // Personal liberty
-  "freedom_from_regulation": ["government interference", "overreach", "regulation"],
-  "privacy_and_autonomy": ["privacy", "autonomy", "personal choice", "personal freedom"],
-
-  // Environmental
-  "climate_action": ["climate action", "global warming", "climate crisis"],
-  "climate_skepticism": ["climate hoax", "climate skeptic"],
-
-  // Other common triggers
-  "oppose_affirmative_action_race": ["race in hiring", "hiring based on race"],
-  "oppose_affirmative_action_gender": ["gender in hiring", "hiring based on gender"],
-  "merit_based_hiring_support": ["merit based", "qualified candidates"]
-};
-
-async function fetchTerminologyConfig(): Promise<TerminologyConfig> {
-  try {
-    // For this demo, we'll hard-code a minimal config that includes the categories 
-    // we're testing with more detailed nuance analysis
-    const config: TerminologyConfig = {
-      "fallback": {
-        "standardTerm": "Clarification Needed",
-        "plainEnglish": "Can you please clarify your stance on this topic?",
-        "plainLanguage": [],
-        "nuance": {}
-      },
-      "taxCutsForMiddleClass": {
-        "plainLanguage": [
-          "middle class tax cuts",
-          "tax cuts for working families",
-          "tax breaks for middle class",
-          "reduce taxes for middle class",
-          "tax relief for middle class",
-          "help working families"
-        ],
-        "inclusionWords": [
-          "middle class",
-          "working families"
-        ],
-        "standardTerm": "Middle Class Tax Relief",
-        "plainEnglish": "I want tax cuts that help working families and the middle class keep more of their money.",
-        "nuance": {
-          "middle_class_support": 0.8,
-          "tax_burden_reduction": 0.7
-        },
-        "nuancedMapping": {
-          "supports_middle_class_relief": true,
-          "opposes_tax_increases": true,
-          "supports_working_families": true,
-          "explicitly_mentions_middle_class": false,
-          "reasoning": "The voter expresses support for tax cuts that benefit the middle class and working families."
-        }
-      },
-      "personalLiberty": {
-        "plainLanguage": [
-          "individual freedom",
-          "personal autonomy",
-          "self-determination",
-          "liberty from government control",
-          "personal rights"
-        ],
-        "standardTerm": "Personal Autonomy and Freedom",
-        "plainEnglish": "I value my personal autonomy and want the freedom to make private choices about my life—without excessive government or societal interference.",
-        "nuance": {
-          "freedom_from_regulation": 0.9,
-          "privacy_and_autonomy": 0.8,
-          "economic_issues": -0.9
-        },
-        "exclusionWords": [
-          "tax",
-          "income",
-          "money"
-        ],
-        "nuancedMapping": {
-          "supports_personal_freedom": true,
-          "opposes_government_interference": true,
-          "mentions_privacy": false,
-          "economic_focus": false,
-          "reasoning": "The voter values personal autonomy and freedom from government interference in private choices."
-        }
-      },
-      "opposeRaceGenderHiring": {
-        "plainLanguage": [
-          "disgraceful to use race in hiring",
-          "disgraceful to use gender in hiring",
-          "hiring based on race",
-          "hiring based on gender",
-          "merit based hiring only",
-          "no quotas in hiring",
-          "race decide whether to hire",
-          "gender decide whether to hire"
-        ],
-        "standardTerm": "Opposition to Race and Gender-Based Hiring Policies",
-        "plainEnglish": "I believe that hiring should be based solely on merit, and it's disgraceful to use race or gender as deciding factors.",
-        "nuance": {
-          "oppose_affirmative_action_race": -0.8,
-          "oppose_affirmative_action_gender": -0.8,
-          "merit_based_hiring_support": 0.8
-        },
-        "nuancedMapping": {
-          "anti_discrimination": true,
-          "supports_affirmative_action": false,
-          "explicitly_against_affirmative_action": true,
-          "supports_merit_based_hiring": true,
-          "reasoning": "The voter explicitly opposes racial and gender discrimination in hiring, favoring merit-based decisions over quotas or affirmative action policies."
-        }
-      }
-    };
-    
-    return config;
-  } catch (error) {
-    console.error('Error fetching terminology config:', error);
-    throw new Error('Failed to load terminology configuration');
-  }
-}
-
-function computeScoreForCategory(userInput: string, category: TermCategory, categoryKey: string): {
+// Scores the input against every term in the shared terminology, with the
+// nuance trigger phrases stored alongside it
+function computeScoreForCategory(
+  userInput: string,
+  category: TerminologyTerm,
+  categoryKey: string,
+  nuanceTriggers: Record<string, string[]>
+): {
   score: number;
   details: string[];
   nuancedMapping?: Record<string, any>;
@@ -239,13 +109,11 @@ function computeScoreForCategory(userInput: string, category: TermCategory, cate
   return { score, details, nuancedMapping: updatedNuancedMapping };
 }
 
-function mapUserInput(userInput: string, config: TerminologyConfig) {
+function mapUserInput(userInput: string, terminology: TerminologyPackage) {
   const results = [];
   
-  for (const [key, category] of Object.entries(config)) {
-    if (key === 'fallback') continue; // Skip fallback category in results
-    
-    const { score, details, nuancedMapping } = computeScoreForCategory(userInput, category, key);
+  for (const [key, category] of Object.entries(terminology.terms)) {
+    const { score, details, nuancedMapping } = computeScoreForCategory(userInput, category, key, terminology.nuanceTriggers);
     
     if (score !== 0 || details.length > 0) {
       results.push({
@@ -278,8 +146,7 @@ serve(async (req) => {
       );
     }
     
-    const terminologyConfig = await fetchTerminologyConfig();
-    const results = mapUserInput(input, terminologyConfig);
+    const results = mapUserInput(input, loadTerminology());
     
     return new Response(
       JSON.stringify({ results }),
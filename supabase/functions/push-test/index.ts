@@ -0,0 +1,105 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import {
+  base64UrlEncode,
+  decryptPushPayload,
+  encryptPushPayload,
+  generateVapidKeys,
+  PushPayload,
+  sendWebPush,
+  vapidAuthorization,
+  VapidKeys,
+  verifyVapidAuthorization,
+  WebPushSubscription
+} from '../_shared/reminders/index.ts';
+
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// Local harness for Web Push, meant for `supabase functions serve`:
+//   GET                        a fresh VAPID key pair to put in your env
+//   POST {}                    self-test: encrypt, decrypt and sign without a push service
+//   POST { subscription, ... } send one test notification to a real browser
+
+interface PushTestRequest {
+  subscription?: WebPushSubscription;
+  title?: string;
+  body?: string;
+}
+
+const json = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+);
+
+const testPayload = (request: PushTestRequest): PushPayload => ({
+  title: request.title || 'Test reminder',
+  body: request.body || 'Push reminders are working.',
+  url: '/',
+  tag: 'push-test'
+});
+
+/**
+ * Play the browser's part with a throwaway subscription: the payload must
+ * decrypt to what was sent and the VAPID token must verify
+ */
+async function selfTest(vapid: VapidKeys, payload: PushPayload) {
+  const subscriber = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const subscription: WebPushSubscription = {
+    endpoint: 'https://push.example.test/self-test',
+    keys: {
+      p256dh: base64UrlEncode(new Uint8Array(await crypto.subtle.exportKey('raw', subscriber.publicKey))),
+      auth: base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)))
+    }
+  };
+
+  const plaintext = JSON.stringify(payload);
+  const encrypted = await encryptPushPayload(new TextEncoder().encode(plaintext), subscription);
+  const decrypted = new TextDecoder().decode(await decryptPushPayload(encrypted, subscriber.privateKey, subscription));
+  const authorization = await vapidAuthorization(subscription.endpoint, vapid);
+
+  return {
+    encryption: decrypted === plaintext,
+    vapid: await verifyVapidAuthorization(authorization, vapid.publicKey),
+    encryptedBytes: encrypted.length
+  };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return json({ ...(await generateVapidKeys()), subject: 'mailto:you@example.com' });
+    }
+
+    const vapid: VapidKeys = {
+      publicKey: Deno.env.get('VAPID_PUBLIC_KEY') || '',
+      privateKey: Deno.env.get('VAPID_PRIVATE_KEY') || '',
+      subject: Deno.env.get('VAPID_SUBJECT') || 'mailto:push-test@example.com'
+    };
+    // Without configured keys the self-test runs with a throwaway pair
+    const keysConfigured = !!vapid.publicKey && !!vapid.privateKey;
+    const request = await req.json().catch(() => ({})) as PushTestRequest;
+
+    if (!request.subscription) {
+      const keys = keysConfigured ? vapid : { ...vapid, ...(await generateVapidKeys()) };
+      return json({ keysConfigured, ...(await selfTest(keys, testPayload(request))) });
+    }
+
+    if (!keysConfigured) {
+      return json({ error: 'Set VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY to send to a browser' }, 400);
+    }
+    const result = await sendWebPush(request.subscription, testPayload(request), vapid, { ttlSeconds: 60 });
+    return json(result, result.ok ? 200 : 502);
+  } catch (error) {
+    console.error('Error in push-test function:', error);
+    return json({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
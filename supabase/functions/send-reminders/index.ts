@@ -0,0 +1,289 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.48.1';
+import { corsHeaders } from '../_shared/cors.ts';
+import {
+  planReminders,
+  PublishedMeasure,
+  Reminder,
+  ReminderCalendar,
+  ReminderCategory,
+  ReminderSubscriber,
+  sendWebPush,
+  VapidKeys
+} from '../_shared/reminders/index.ts';
+import { BallotpediaApiResponse } from '../types/ballotpedia.ts';
+// The same bundled calendar the app starts from
+import calendarData from '../_shared/elections/election-calendar.json' with { type: 'json' };
+
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+// Scheduler for Web Push reminders. Run it once a day (pg_cron or any cron
+// that can POST with the service role key); every reminder is recorded when
+// sent, so extra runs don't repeat anything.
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+// Subscriptions planned together, with one delivery lookup per batch
+const BATCH_SIZE = 100;
+// Subscriptions whose pushes are in flight at once
+const SEND_CONCURRENCY = 10;
+
+interface SubscriptionRow {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  zip_code: string;
+  state: string | null;
+  district: string | null;
+  categories: string[];
+  created_at: string;
+}
+
+interface MeasureRow {
+  id: string;
+  state: string;
+  title: string;
+  url: string | null;
+  first_seen_at: string;
+}
+
+interface SendRemindersRequest {
+  // Plan for another day (YYYY-MM-DD); defaults to today in UTC
+  today?: string;
+  // Plan without sending or recording anything
+  dryRun?: boolean;
+}
+
+const json = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+);
+
+const toSubscriber = (row: SubscriptionRow): ReminderSubscriber => ({
+  id: row.id,
+  zipCode: row.zip_code,
+  state: row.state || undefined,
+  district: row.district || undefined,
+  categories: row.categories as ReminderCategory[],
+  createdAt: row.created_at
+});
+
+const toMeasure = (row: MeasureRow): PublishedMeasure => ({
+  id: row.id,
+  state: row.state,
+  title: row.title,
+  url: row.url || undefined,
+  firstSeenAt: row.first_seen_at
+});
+
+/**
+ * Record any measures Ballotpedia lists for these states that we haven't
+ * seen yet; existing rows keep their first-seen time
+ */
+async function refreshMeasures(supabase: SupabaseClient, states: string[], year: number): Promise<void> {
+  const apiKey = Deno.env.get('BALLOTPEDIA_API_KEY');
+  if (!apiKey) {
+    console.warn('BALLOTPEDIA_API_KEY not set; skipping new measure checks');
+    return;
+  }
+
+  for (const state of states) {
+    try {
+      const response = await fetch(
+        `https://api.ballotpedia.org/v3/measures?access_token=${apiKey}&state=${state}&year=${year}`,
+        { headers: { 'Accept': 'application/json' } }
+      );
+      if (!response.ok) throw new Error(`Ballotpedia API error: ${response.status}`);
+      const data = await response.json() as BallotpediaApiResponse;
+
+      const rows = (data.data || []).flatMap(measure => {
+        const title = measure.title || measure.name;
+        if (measure.id === undefined || !title) return [];
+        return [{
+          id: `${state}:${measure.id}`,
+          state,
+          title,
+          url: measure.url || null,
+          election_date: measure.election_date || null
+        }];
+      });
+      if (rows.length === 0) continue;
+
+      const { error } = await supabase.from('published_measures').upsert(rows, { onConflict: 'id', ignoreDuplicates: true });
+      if (error) throw new Error(`Failed to record measures: ${error.message}`);
+    } catch (error) {
+      console.error(`Error checking ballot measures for ${state}:`, error);
+    }
+  }
+}
+
+type Page<T> = PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
+
+/**
+ * Every row a query matches. PostgREST returns at most PAGE_SIZE rows per
+ * request, so the query must be ordered for the pages to line up.
+ */
+async function selectAll<T>(query: (from: number, to: number) => Page<T>, what: string): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load ${what}: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+const chunks = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+/**
+ * Which of the planned reminder keys each subscription already received,
+ * looked up only for those subscriptions and keys
+ */
+async function sentKeys(supabase: SupabaseClient, plans: Map<string, Reminder[]>): Promise<Map<string, Set<string>>> {
+  const sentBySubscription = new Map<string, Set<string>>();
+  const keys = Array.from(new Set(Array.from(plans.values()).flatMap(reminders => reminders.flatMap(reminder => reminder.keys))));
+  if (keys.length === 0) return sentBySubscription;
+
+  const deliveries = await selectAll<{ subscription_id: string; reminder_key: string }>(
+    (from, to) => supabase
+      .from('reminder_deliveries')
+      .select('subscription_id, reminder_key')
+      .in('subscription_id', Array.from(plans.keys()))
+      .in('reminder_key', keys)
+      .order('subscription_id')
+      .order('reminder_key')
+      .range(from, to),
+    'deliveries'
+  );
+  for (const row of deliveries) {
+    const sent = sentBySubscription.get(row.subscription_id) || new Set<string>();
+    sent.add(row.reminder_key);
+    sentBySubscription.set(row.subscription_id, sent);
+  }
+  return sentBySubscription;
+}
+
+async function sendReminders(supabase: SupabaseClient, vapid: VapidKeys, request: SendRemindersRequest) {
+  const today = request.today || new Date().toISOString().slice(0, 10);
+
+  const subscriptions = await selectAll<SubscriptionRow>(
+    (from, to) => supabase.from('push_subscriptions').select('*').order('id').range(from, to),
+    'subscriptions'
+  );
+
+  const measureStates = Array.from(new Set(subscriptions
+    .filter(row => row.state && row.categories.includes('new_measures'))
+    .map(row => row.state as string)));
+  if (!request.dryRun) await refreshMeasures(supabase, measureStates, Number(today.slice(0, 4)));
+
+  const measures = measureStates.length > 0
+    ? await selectAll<MeasureRow>(
+      (from, to) => supabase.from('published_measures').select('*').in('state', measureStates).order('id').range(from, to),
+      'measures'
+    )
+    : [];
+
+  const calendar: ReminderCalendar = {
+    elections: calendarData.elections,
+    rules: calendarData.stateRules,
+    measures: measures.map(toMeasure)
+  };
+
+  const summary = { subscriptions: subscriptions.length, sent: 0, failed: 0, removed: 0, planned: [] as string[] };
+
+  // Reminders for one subscription go out in order, so an expired endpoint stops the rest
+  const sendAll = async (row: SubscriptionRow, reminders: Reminder[]) => {
+    for (const reminder of reminders) {
+      try {
+        const result = await sendWebPush(
+          { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } },
+          reminder.payload,
+          vapid
+        );
+        if (result.expired) {
+          await supabase.from('push_subscriptions').delete().eq('id', row.id);
+          summary.removed++;
+          return;
+        }
+        if (!result.ok) throw new Error(`Push service returned ${result.status}`);
+
+        const { error } = await supabase.from('reminder_deliveries').insert(
+          reminder.keys.map(key => ({ subscription_id: row.id, reminder_key: key }))
+        );
+        if (error) throw new Error(`Failed to record delivery: ${error.message}`);
+        summary.sent++;
+      } catch (error) {
+        console.error(`Error sending reminder to subscription ${row.id}:`, error);
+        summary.failed++;
+      }
+    }
+  };
+
+  for (const batch of chunks(subscriptions, BATCH_SIZE)) {
+    // Plan as if nothing was sent to learn which deliveries to look up, then
+    // plan again without the ones already sent
+    const candidates = new Map<string, Reminder[]>();
+    for (const row of batch) {
+      const reminders = planReminders(toSubscriber(row), calendar, today);
+      if (reminders.length > 0) candidates.set(row.id, reminders);
+    }
+    if (candidates.size === 0) continue;
+    const sentBySubscription = await sentKeys(supabase, candidates);
+
+    const due = batch.flatMap(row => {
+      if (!candidates.has(row.id)) return [];
+      const reminders = planReminders(toSubscriber(row), calendar, today, sentBySubscription.get(row.id));
+      summary.planned.push(...reminders.flatMap(reminder => reminder.keys));
+      return reminders.length > 0 ? [{ row, reminders }] : [];
+    });
+    if (request.dryRun) continue;
+
+    for (const group of chunks(due, SEND_CONCURRENCY)) {
+      await Promise.all(group.map(({ row, reminders }) => sendAll(row, reminders)));
+    }
+  }
+  return summary;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      return json({ error: 'Server configuration error: Missing Supabase URL or service role key' }, 500);
+    }
+
+    // Only the scheduler may trigger a send
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (token !== supabaseServiceRoleKey) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const request = await req.json().catch(() => ({})) as SendRemindersRequest;
+    const vapid: VapidKeys = {
+      publicKey: Deno.env.get('VAPID_PUBLIC_KEY') || '',
+      privateKey: Deno.env.get('VAPID_PRIVATE_KEY') || '',
+      subject: Deno.env.get('VAPID_SUBJECT') || ''
+    };
+    if (!request.dryRun && (!vapid.publicKey || !vapid.privateKey || !vapid.subject)) {
+      return json({ error: 'Server configuration error: Missing VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY or VAPID_SUBJECT' }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+    return json(await sendReminders(supabase, vapid, request));
+  } catch (error) {
+    console.error('Error in send-reminders function:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,412 @@
+import { serve } from 'https://deno.land/std@0.177.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.48.1';
+import { corsHeaders } from '../_shared/cors.ts';
+import { loadTerminology } from '../_shared/terminology/index.ts';
+import {
+  IssueTerm,
+  IssueTermStatus,
+  TerminologyAuditEntry,
+  TerminologyReviewAction,
+  TerminologyReviewRequest
+} from '../types/terminology.ts';
+
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+interface TermRow {
+  id: string;
+  term: string;
+  // lower(term), generated by the database
+  term_key: string;
+  category: string;
+  synonyms: string[];
+  mapped_policies: string[];
+  source_inputs: string[];
+  status: IssueTermStatus;
+  review_reason: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  merged_into: string | null;
+  merged_into_term_key: string | null;
+  date_added: string;
+}
+
+interface AuditRow {
+  id: string;
+  term_id: string;
+  action: TerminologyReviewAction;
+  actor_id: string | null;
+  actor_email: string | null;
+  reason: string | null;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  created_at: string;
+}
+
+interface Actor {
+  id: string | null;
+  email: string | null;
+  isReviewer: boolean;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+);
+
+const toTerm = (row: TermRow): IssueTerm => ({
+  id: row.id,
+  term: row.term,
+  category: row.category,
+  synonyms: row.synonyms || [],
+  mappedPolicies: row.mapped_policies || [],
+  dateAdded: row.date_added,
+  status: row.status,
+  sourceInputs: row.source_inputs || [],
+  reviewReason: row.review_reason || undefined,
+  reviewedBy: row.reviewed_by || undefined,
+  reviewedAt: row.reviewed_at || undefined,
+  mergedInto: row.merged_into || undefined,
+  mergedIntoTermKey: row.merged_into_term_key || undefined
+});
+
+const toAuditEntry = (row: AuditRow): TerminologyAuditEntry => ({
+  id: row.id,
+  termId: row.term_id,
+  action: row.action,
+  actorId: row.actor_id || undefined,
+  actorEmail: row.actor_email || undefined,
+  reason: row.reason || undefined,
+  changes: row.changes || {},
+  createdAt: row.created_at
+});
+
+// Case-insensitive union that keeps the first spelling seen
+const mergeLists = (...lists: string[][]): string[] => {
+  const seen = new Map<string, string>();
+  lists.flat().forEach(value => {
+    const trimmed = value.trim();
+    if (trimmed && !seen.has(trimmed.toLowerCase())) {
+      seen.set(trimmed.toLowerCase(), trimmed);
+    }
+  });
+  return Array.from(seen.values());
+};
+
+const cleanList = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? mergeLists(value.filter((item): item is string => typeof item === 'string')) : undefined;
+
+function diff(before: Partial<TermRow>, after: Partial<TermRow>): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const key of Object.keys(after) as Array<keyof TermRow>) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes[key] = { from: before[key] ?? null, to: after[key] };
+    }
+  }
+  return changes;
+}
+
+async function getActor(supabase: SupabaseClient, req: Request): Promise<Actor> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return { id: null, email: null, isReviewer: false };
+
+  // The anon key is also sent as a bearer token; it simply has no user
+  const { data } = await supabase.auth.getUser(token);
+  if (!data?.user) return { id: null, email: null, isReviewer: false };
+
+  const { data: reviewer } = await supabase
+    .from('terminology_reviewers')
+    .select('user_id')
+    .eq('user_id', data.user.id)
+    .maybeSingle();
+
+  return { id: data.user.id, email: data.user.email ?? null, isReviewer: !!reviewer };
+}
+
+async function getTermRow(supabase: SupabaseClient, id: string): Promise<TermRow> {
+  const { data, error } = await supabase.from('terminology_terms').select('*').eq('id', id).maybeSingle();
+  if (error) throw new Error(`Failed to load term: ${error.message}`);
+  if (!data) throw new HttpError(404, 'Term not found');
+  return data as TermRow;
+}
+
+async function updateTerm(
+  supabase: SupabaseClient,
+  actor: Actor,
+  before: TermRow,
+  patch: Partial<TermRow>,
+  action: TerminologyReviewAction,
+  reason?: string
+): Promise<TermRow> {
+  const { data, error } = await supabase
+    .from('terminology_terms')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', before.id)
+    .select('*')
+    .single();
+  if (error) throw new Error(`Failed to update term: ${error.message}`);
+
+  await recordAudit(supabase, actor, before.id, action, diff(before, patch), reason);
+  return data as TermRow;
+}
+
+async function recordAudit(
+  supabase: SupabaseClient,
+  actor: Actor,
+  termId: string,
+  action: TerminologyReviewAction,
+  changes: Record<string, { from: unknown; to: unknown }>,
+  reason?: string
+): Promise<void> {
+  const { error } = await supabase.from('terminology_audit_log').insert({
+    term_id: termId,
+    action,
+    actor_id: actor.id,
+    actor_email: actor.email,
+    reason: reason || null,
+    changes
+  });
+  // The change itself already happened; don't fail the request over the log
+  if (error) console.error('Error writing terminology audit log:', error);
+}
+
+async function submitTerm(
+  supabase: SupabaseClient,
+  actor: Actor,
+  request: Extract<TerminologyReviewRequest, { action: 'submit' }>
+): Promise<TermRow> {
+  const term = request.term?.trim();
+  if (!term) throw new HttpError(400, 'Term is required');
+  const sourceInputs = mergeLists([request.sourceInput || term]);
+
+  const { data: existing } = await supabase
+    .from('terminology_terms')
+    .select('*')
+    .eq('term_key', term.toLowerCase())
+    .maybeSingle();
+
+  // Re-suggesting a known term only records the new input that triggered it
+  if (existing) {
+    const row = existing as TermRow;
+    const merged = mergeLists(row.source_inputs || [], sourceInputs);
+    if (merged.length === (row.source_inputs || []).length) return row;
+    return updateTerm(supabase, actor, row, { source_inputs: merged }, 'submit');
+  }
+
+  const { data, error } = await supabase
+    .from('terminology_terms')
+    .insert({
+      term,
+      category: request.category || 'Uncategorized',
+      synonyms: cleanList(request.synonyms) || [],
+      mapped_policies: cleanList(request.mappedPolicies) || [],
+      source_inputs: sourceInputs,
+      status: 'pending'
+    })
+    .select('*')
+    .single();
+  if (error) throw new Error(`Failed to add term: ${error.message}`);
+
+  const row = data as TermRow;
+  await recordAudit(supabase, actor, row.id, 'submit', diff({}, {
+    term: row.term,
+    category: row.category,
+    synonyms: row.synonyms,
+    mapped_policies: row.mapped_policies
+  }));
+  return row;
+}
+
+/**
+ * Fold a pending term into a canonical terminology term. The package itself
+ * is a versioned file, so the term stays in the table as `merged` with the
+ * key, and the mapping engine reads it from there as extra phrasing.
+ */
+async function mergeIntoTerminology(
+  supabase: SupabaseClient,
+  actor: Actor,
+  id: string,
+  termKey: string,
+  reason?: string
+): Promise<TermRow> {
+  const target = loadTerminology().terms[termKey];
+  if (!target) throw new HttpError(404, 'Terminology term not found');
+
+  const source = await getTermRow(supabase, id);
+  if (source.status !== 'pending') {
+    throw new HttpError(409, `Term is already ${source.status}`);
+  }
+
+  return updateTerm(supabase, actor, source, {
+    status: 'merged',
+    merged_into_term_key: termKey,
+    mapped_policies: mergeLists(source.mapped_policies, [target.standardTerm]),
+    review_reason: reason?.trim() || null,
+    reviewed_by: actor.id,
+    reviewed_at: new Date().toISOString()
+  }, 'merge', reason);
+}
+
+async function termStatuses(supabase: SupabaseClient, terms: unknown): Promise<Record<string, IssueTermStatus>> {
+  const wanted = cleanList(terms) || [];
+  if (wanted.length === 0) return {};
+
+  // Voters and the learning service may type a term in any case
+  const { data, error } = await supabase
+    .from('terminology_terms')
+    .select('term_key, status')
+    .in('term_key', wanted.map(term => term.toLowerCase()));
+  if (error) throw new Error(`Failed to load term statuses: ${error.message}`);
+
+  const statuses: Record<string, IssueTermStatus> = {};
+  for (const row of data as Array<Pick<TermRow, 'term_key' | 'status'>>) {
+    statuses[row.term_key] = row.status;
+  }
+  return statuses;
+}
+
+async function handleRequest(supabase: SupabaseClient, actor: Actor, request: TerminologyReviewRequest) {
+  // Anyone may suggest a term; everything else is for reviewers
+  if (request.action === 'submit') {
+    return { term: toTerm(await submitTerm(supabase, actor, request)) };
+  }
+
+  // Whoever suggested a term can see how it was decided, not who decided it
+  if (request.action === 'status') {
+    return { statuses: await termStatuses(supabase, request.terms) };
+  }
+
+  if (!actor.isReviewer) {
+    throw new HttpError(403, 'Only terminology reviewers can do this');
+  }
+
+  switch (request.action) {
+    case 'list': {
+      let query = supabase.from('terminology_terms').select('*').order('date_added', { ascending: false });
+      if (request.status) query = query.eq('status', request.status);
+      const { data, error } = await query;
+      if (error) throw new Error(`Failed to load terms: ${error.message}`);
+      return { terms: (data as TermRow[]).map(toTerm) };
+    }
+
+    case 'history': {
+      const { data, error } = await supabase
+        .from('terminology_audit_log')
+        .select('*')
+        .eq('term_id', request.id)
+        .order('created_at', { ascending: false });
+      if (error) throw new Error(`Failed to load history: ${error.message}`);
+      return { history: (data as AuditRow[]).map(toAuditEntry) };
+    }
+
+    case 'update': {
+      const before = await getTermRow(supabase, request.id);
+      const patch: Partial<TermRow> = {};
+      if (request.category) patch.category = request.category;
+      const synonyms = cleanList(request.synonyms);
+      if (synonyms) patch.synonyms = synonyms;
+      const mappedPolicies = cleanList(request.mappedPolicies);
+      if (mappedPolicies) patch.mapped_policies = mappedPolicies;
+      return { term: toTerm(await updateTerm(supabase, actor, before, patch, 'update', request.reason)) };
+    }
+
+    case 'approve':
+    case 'reject': {
+      if (request.action === 'reject' && !request.reason?.trim()) {
+        throw new HttpError(400, 'A reason is required to reject a term');
+      }
+      const before = await getTermRow(supabase, request.id);
+      if (before.status !== 'pending') {
+        throw new HttpError(409, `Term is already ${before.status}`);
+      }
+      const after = await updateTerm(supabase, actor, before, {
+        status: request.action === 'approve' ? 'approved' : 'rejected',
+        review_reason: request.reason?.trim() || null,
+        reviewed_by: actor.id,
+        reviewed_at: new Date().toISOString()
+      }, request.action, request.reason);
+      return { term: toTerm(after) };
+    }
+
+    case 'merge': {
+      if (request.targetTermKey) {
+        return { term: toTerm(await mergeIntoTerminology(supabase, actor, request.id, request.targetTermKey, request.reason)) };
+      }
+      if (!request.targetId) {
+        throw new HttpError(400, 'A merge target is required');
+      }
+      if (request.id === request.targetId) {
+        throw new HttpError(400, 'Cannot merge a term into itself');
+      }
+      const [source, target] = await Promise.all([
+        getTermRow(supabase, request.id),
+        getTermRow(supabase, request.targetId)
+      ]);
+      if (source.status !== 'pending') {
+        throw new HttpError(409, `Term is already ${source.status}`);
+      }
+      if (target.status !== 'approved') {
+        throw new HttpError(409, 'Terms can only be merged into an approved term');
+      }
+
+      // The suggested term and its synonyms become synonyms of the existing term
+      const updatedTarget = await updateTerm(supabase, actor, target, {
+        synonyms: mergeLists(target.synonyms, [source.term], source.synonyms)
+          .filter(synonym => synonym.toLowerCase() !== target.term.toLowerCase()),
+        mapped_policies: mergeLists(target.mapped_policies, source.mapped_policies),
+        source_inputs: mergeLists(target.source_inputs || [], source.source_inputs || [])
+      }, 'merge', request.reason);
+
+      const updatedSource = await updateTerm(supabase, actor, source, {
+        status: 'merged',
+        merged_into: target.id,
+        review_reason: request.reason?.trim() || null,
+        reviewed_by: actor.id,
+        reviewed_at: new Date().toISOString()
+      }, 'merge', request.reason);
+
+      return { term: toTerm(updatedSource), target: toTerm(updatedTarget) };
+    }
+
+    default:
+      throw new HttpError(400, 'Unknown action');
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      return json({ error: 'Server configuration error: Missing Supabase URL or service role key' }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+    const request = await req.json() as TerminologyReviewRequest;
+    if (!request?.action) {
+      return json({ error: 'Missing required field: action' }, 400);
+    }
+
+    const actor = await getActor(supabase, req);
+    return json(await handleRequest(supabase, actor, request));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error('Error in terminology-review function:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
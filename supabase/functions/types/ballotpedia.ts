@@ -1,22 +1,25 @@
+import type { MeasureConcern, RawBallotMeasure } from '../_shared/ballot-measures/types.ts';
+
+export type { MeasureConcern, RawBallotMeasure };
+
 export interface BallotMeasure {
+  id: string;
   title: string;
   description: string;
   supporters: string[];
   opposers: string[];
   userConcernMapping: string;
   ballotpediaLink: string;
+  electionDate?: string;
+  fiscalImpact?: string;
+  // Neutral plain-language summary and what each vote means
+  summary: string;
+  yesMeans: string;
+  noMeans: string;
+  concerns: MeasureConcern[];
+  relevance: number;
 }
 
 export interface BallotpediaApiResponse {
-  data: Array<{
-    title?: string;
-    name?: string;
-    summary?: string;
-    description?: string;
-    supporters?: string[];
-    opponents?: string[];
-    topic?: string;
-    category?: string;
-    url?: string;
-  }>;
+  data: RawBallotMeasure[];
 }
@@ -0,0 +1,27 @@
+// Mirrors the canonical mapping result in src/types/policy-mappings.ts so edge
+// functions return the same shape as the browser MappingEngine.
+
+export type MappingStrategyName = 'persona' | 'terminology' | 'embedding' | 'llm';
+
+export interface PolicyTermMatch {
+  standardTerm: string;
+  termKey?: string;
+  category?: string;
+  confidence: number;
+  sources: MappingStrategyName[];
+  evidence: string[];
+}
+
+export interface MappedPriority {
+  priority: string;
+  policyTerms: string[];
+  sentiment: 'positive' | 'negative' | 'neutral';
+  confidence: number;
+  needsClarification: boolean;
+  clarificationReason?: string;
+  matches?: PolicyTermMatch[];
+  original?: string;
+  category?: string;
+  mappedTerms?: string[];
+  possibleTopics?: string[];
+}
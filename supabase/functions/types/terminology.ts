@@ -0,0 +1,49 @@
+// Mirrors the review types in src/types/terminology.ts
+
+export type IssueTermStatus = 'pending' | 'approved' | 'rejected' | 'merged';
+
+export interface IssueTerm {
+  id: string;
+  term: string;
+  category: string;
+  synonyms: string[];
+  mappedPolicies: string[];
+  dateAdded: string;
+  status: IssueTermStatus;
+  sourceInputs?: string[];
+  reviewReason?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  mergedInto?: string;
+  mergedIntoTermKey?: string;
+}
+
+export type TerminologyReviewAction = 'submit' | 'update' | 'approve' | 'reject' | 'merge';
+
+export interface TerminologyAuditEntry {
+  id: string;
+  termId: string;
+  action: TerminologyReviewAction;
+  actorId?: string;
+  actorEmail?: string;
+  reason?: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: string;
+}
+
+export type TerminologyReviewRequest =
+  | { action: 'list'; status?: IssueTermStatus }
+  | { action: 'status'; terms: string[] }
+  | { action: 'history'; id: string }
+  | {
+      action: 'submit';
+      term: string;
+      category?: string;
+      synonyms?: string[];
+      mappedPolicies?: string[];
+      sourceInput?: string;
+    }
+  | { action: 'update'; id: string; category?: string; synonyms?: string[]; mappedPolicies?: string[]; reason?: string }
+  | { action: 'approve' | 'reject'; id: string; reason?: string }
+  // Merge into an approved voter term (targetId) or a canonical terminology term (targetTermKey)
+  | { action: 'merge'; id: string; targetId?: string; targetTermKey?: string; reason?: string };
@@ -0,0 +1,41 @@
+-- Learned priority mappings from voter clarifications (PriorityLearningService)
+create table if not exists public.learned_mappings (
+  id text primary key,
+  scope text not null check (scope in ('user', 'global')),
+  user_id uuid references auth.users (id) on delete cascade,
+  original_term text not null,
+  clarified_term text not null,
+  issue_id text not null,
+  issue_name text not null,
+  confidence real not null default 0.6 check (confidence between 0 and 1),
+  usage_count integer not null default 1,
+  status text not null default 'active'
+    check (status in ('active', 'pending_review', 'promoted', 'rejected')),
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz not null default now(),
+  constraint learned_mappings_user_scope check ((scope = 'user') = (user_id is not null))
+);
+
+create index if not exists learned_mappings_user_id_idx on public.learned_mappings (user_id);
+create index if not exists learned_mappings_status_idx on public.learned_mappings (status);
+
+alter table public.learned_mappings enable row level security;
+
+-- Everyone can read global mappings; users can read their own
+create policy "Read global and own learned mappings"
+  on public.learned_mappings for select
+  using (scope = 'global' or user_id = auth.uid());
+
+-- Users manage only their own mappings; global mappings are written by the service role
+create policy "Insert own learned mappings"
+  on public.learned_mappings for insert
+  with check (scope = 'user' and user_id = auth.uid());
+
+create policy "Update own learned mappings"
+  on public.learned_mappings for update
+  using (scope = 'user' and user_id = auth.uid())
+  with check (scope = 'user' and user_id = auth.uid());
+
+create policy "Delete own learned mappings"
+  on public.learned_mappings for delete
+  using (scope = 'user' and user_id = auth.uid());
@@ -0,0 +1,60 @@
+-- Voter-suggested terminology and its review history (terminology-review edge function)
+create table if not exists public.terminology_terms (
+  id uuid primary key default gen_random_uuid(),
+  term text not null,
+  category text not null default 'Uncategorized',
+  synonyms text[] not null default '{}',
+  mapped_policies text[] not null default '{}',
+  source_inputs text[] not null default '{}',
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected', 'merged')),
+  review_reason text,
+  reviewed_by uuid references auth.users (id) on delete set null,
+  reviewed_at timestamptz,
+  merged_into uuid references public.terminology_terms (id) on delete set null,
+  date_added timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists terminology_terms_term_idx on public.terminology_terms (lower(term));
+create index if not exists terminology_terms_status_idx on public.terminology_terms (status);
+
+create table if not exists public.terminology_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  term_id uuid not null references public.terminology_terms (id) on delete cascade,
+  action text not null check (action in ('submit', 'update', 'approve', 'reject', 'merge')),
+  actor_id uuid references auth.users (id) on delete set null,
+  actor_email text,
+  reason text,
+  changes jsonb not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists terminology_audit_log_term_id_idx on public.terminology_audit_log (term_id, created_at desc);
+
+-- Users allowed to approve, reject, edit and merge terms
+create table if not exists public.terminology_reviewers (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.terminology_terms enable row level security;
+alter table public.terminology_audit_log enable row level security;
+alter table public.terminology_reviewers enable row level security;
+
+-- Approved terms are public; all writes go through the edge function (service role)
+create policy "Read approved terms"
+  on public.terminology_terms for select
+  using (status = 'approved');
+
+create policy "Reviewers read all terms"
+  on public.terminology_terms for select
+  using (exists (select 1 from public.terminology_reviewers r where r.user_id = auth.uid()));
+
+create policy "Reviewers read the audit log"
+  on public.terminology_audit_log for select
+  using (exists (select 1 from public.terminology_reviewers r where r.user_id = auth.uid()));
+
+create policy "Reviewers see their own membership"
+  on public.terminology_reviewers for select
+  using (user_id = auth.uid());
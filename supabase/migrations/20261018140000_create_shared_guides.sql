@@ -0,0 +1,69 @@
+-- Read-only snapshots of a voter's recommendations, shared by link (SnapshotService)
+create table if not exists public.shared_guides (
+  id text primary key check (id ~ '^[A-Za-z0-9]{10}$'),
+  snapshot jsonb not null,
+  -- Whether the voter's own priority text is included or only mapped policy terms
+  privacy text not null check (privacy in ('full', 'terms_only')),
+  -- SHA-256 of the secret the sharer keeps to revoke the link without an account
+  revoke_token_hash text not null check (length(revoke_token_hash) = 64),
+  user_id uuid references auth.users (id) on delete cascade,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now(),
+  constraint shared_guides_expiry_after_creation check (expires_at is null or expires_at > created_at)
+);
+
+create index if not exists shared_guides_user_id_idx on public.shared_guides (user_id);
+
+alter table public.shared_guides enable row level security;
+
+-- Anyone can create a link, signed in or not; snapshots are never listed or read directly
+create policy "Create shared guides"
+  on public.shared_guides for insert
+  with check (revoked_at is null and (user_id is null or user_id = auth.uid()));
+
+-- Signed-in sharers can see their own links
+create policy "Read own shared guides"
+  on public.shared_guides for select
+  using (user_id is not null and user_id = auth.uid());
+
+-- The public read path: one live snapshot by id, without the revoke token hash
+create or replace function public.get_shared_guide(guide_id text)
+returns table (id text, snapshot jsonb, privacy text, created_at timestamptz, expires_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select g.id, g.snapshot, g.privacy, g.created_at, g.expires_at
+  from public.shared_guides g
+  where g.id = guide_id
+    and g.revoked_at is null
+    and (g.expires_at is null or g.expires_at > now());
+$$;
+
+-- Revoke with the secret from when the link was made, or as the signed-in owner
+create or replace function public.revoke_shared_guide(guide_id text, token text default null)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  revoked integer;
+begin
+  update public.shared_guides g
+    set revoked_at = now()
+    where g.id = guide_id
+      and g.revoked_at is null
+      and (
+        (token is not null and g.revoke_token_hash = encode(sha256(convert_to(token, 'UTF8')), 'hex'))
+        or (g.user_id is not null and g.user_id = auth.uid())
+      );
+  get diagnostics revoked = row_count;
+  return revoked > 0;
+end;
+$$;
+
+grant execute on function public.get_shared_guide(text) to anon, authenticated;
+grant execute on function public.revoke_shared_guide(text, text) to anon, authenticated;
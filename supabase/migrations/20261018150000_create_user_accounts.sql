@@ -0,0 +1,102 @@
+-- What a signed-in voter keeps in their account (AccountService)
+
+-- Saved priority sets. Every save is a new immutable version; versions of one
+-- set share a set_id.
+create table if not exists public.priorities (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  set_id uuid not null,
+  version integer not null check (version > 0),
+  name text not null default 'My priorities',
+  priorities text[] not null check (cardinality(priorities) > 0),
+  -- MappedPriority[] as mapped when saved, including clarifications
+  mapped_priorities jsonb not null default '[]',
+  zip_code text,
+  created_at timestamptz not null default now(),
+  constraint priorities_set_version_key unique (user_id, set_id, version)
+);
+
+create index if not exists priorities_user_id_idx on public.priorities (user_id, created_at desc);
+
+-- Past analyses, filed by the election cycle they were run for
+create table if not exists public.analyses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  priorities_id uuid references public.priorities (id) on delete set null,
+  election_cycle integer not null,
+  election_name text,
+  mode text not null check (mode in ('current', 'demo')),
+  zip_code text not null,
+  -- RecommendationsData without the street address
+  result jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists analyses_user_cycle_idx on public.analyses (user_id, election_cycle, created_at desc);
+
+-- Candidates the voter bookmarked, once per cycle
+create table if not exists public.saved_candidates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  -- Canonical person id when known, otherwise office and name
+  person_key text not null,
+  name text not null,
+  office text not null,
+  party text,
+  election_cycle integer not null,
+  notes text,
+  created_at timestamptz not null default now(),
+  constraint saved_candidates_person_cycle_key unique (user_id, person_key, election_cycle)
+);
+
+alter table public.priorities enable row level security;
+alter table public.analyses enable row level security;
+alter table public.saved_candidates enable row level security;
+
+-- Each voter sees and changes only their own rows. Priority versions and
+-- analyses are history, so they can be deleted but not edited.
+create policy "Read own priorities"
+  on public.priorities for select
+  using (user_id = auth.uid());
+
+create policy "Insert own priorities"
+  on public.priorities for insert
+  with check (user_id = auth.uid());
+
+create policy "Delete own priorities"
+  on public.priorities for delete
+  using (user_id = auth.uid());
+
+create policy "Read own analyses"
+  on public.analyses for select
+  using (user_id = auth.uid());
+
+create policy "Insert own analyses"
+  on public.analyses for insert
+  with check (
+    user_id = auth.uid()
+    and (priorities_id is null or exists (
+      select 1 from public.priorities p where p.id = priorities_id and p.user_id = auth.uid()
+    ))
+  );
+
+create policy "Delete own analyses"
+  on public.analyses for delete
+  using (user_id = auth.uid());
+
+create policy "Read own saved candidates"
+  on public.saved_candidates for select
+  using (user_id = auth.uid());
+
+create policy "Insert own saved candidates"
+  on public.saved_candidates for insert
+  with check (user_id = auth.uid());
+
+create policy "Update own saved candidates"
+  on public.saved_candidates for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Delete own saved candidates"
+  on public.saved_candidates for delete
+  using (user_id = auth.uid());
@@ -0,0 +1,108 @@
+-- Web Push reminders for election deadlines and new ballot measures (send-reminders)
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  -- The push service URL; unguessable, so it doubles as the subscriber's secret
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  zip_code text not null check (zip_code ~ '^\d{5}$'),
+  state text check (state ~ '^[A-Z]{2}$'),
+  -- Congressional district id from the ZIP crosswalk, e.g. "ca-12"
+  district text,
+  categories text[] not null default array['deadlines', 'early_voting', 'election_day', 'new_measures']
+    check (categories <@ array['deadlines', 'early_voting', 'election_day', 'new_measures']),
+  user_id uuid references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists push_subscriptions_state_district_idx on public.push_subscriptions (state, district);
+
+-- One row per notification sent, so each reminder goes out once
+create table if not exists public.reminder_deliveries (
+  subscription_id uuid not null references public.push_subscriptions (id) on delete cascade,
+  reminder_key text not null,
+  sent_at timestamptz not null default now(),
+  primary key (subscription_id, reminder_key)
+);
+
+-- Ballot measures as the scheduler first saw them, to tell which are new
+create table if not exists public.published_measures (
+  id text primary key,
+  state text not null check (state ~ '^[A-Z]{2}$'),
+  title text not null,
+  url text,
+  election_date date,
+  first_seen_at timestamptz not null default now()
+);
+
+create index if not exists published_measures_state_idx on public.published_measures (state, first_seen_at);
+
+-- Only the scheduler (service role) reads these tables; browsers go through the functions below
+alter table public.push_subscriptions enable row level security;
+alter table public.reminder_deliveries enable row level security;
+alter table public.published_measures enable row level security;
+
+-- Subscribe or update a subscription, signed in or not
+create or replace function public.save_push_subscription(
+  endpoint text,
+  p256dh text,
+  auth text,
+  zip_code text,
+  state text default null,
+  district text default null,
+  categories text[] default array['deadlines', 'early_voting', 'election_day', 'new_measures']
+)
+returns uuid
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.push_subscriptions as s (endpoint, p256dh, auth, zip_code, state, district, categories, user_id)
+  values (
+    save_push_subscription.endpoint, save_push_subscription.p256dh, save_push_subscription.auth,
+    save_push_subscription.zip_code, save_push_subscription.state, save_push_subscription.district,
+    save_push_subscription.categories, auth.uid()
+  )
+  on conflict (endpoint) do update
+    set p256dh = excluded.p256dh,
+        auth = excluded.auth,
+        zip_code = excluded.zip_code,
+        state = excluded.state,
+        district = excluded.district,
+        categories = excluded.categories,
+        user_id = coalesce(excluded.user_id, s.user_id),
+        updated_at = now()
+  returning s.id;
+$$;
+
+create or replace function public.get_push_subscription(endpoint text)
+returns table (zip_code text, categories text[], created_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.zip_code, s.categories, s.created_at
+  from public.push_subscriptions s
+  where s.endpoint = get_push_subscription.endpoint;
+$$;
+
+create or replace function public.delete_push_subscription(endpoint text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  deleted integer;
+begin
+  delete from public.push_subscriptions s where s.endpoint = delete_push_subscription.endpoint;
+  get diagnostics deleted = row_count;
+  return deleted > 0;
+end;
+$$;
+
+grant execute on function public.save_push_subscription(text, text, text, text, text, text, text[]) to anon, authenticated;
+grant execute on function public.get_push_subscription(text) to anon, authenticated;
+grant execute on function public.delete_push_subscription(text) to anon, authenticated;
@@ -0,0 +1,15 @@
+-- Pending terms can be merged into a canonical terminology term (by its key in
+-- the terminology package), not only into another approved voter term
+alter table public.terminology_terms
+  add column if not exists merged_into_term_key text;
+
+alter table public.terminology_terms
+  add constraint terminology_terms_one_merge_target
+  check (merged_into is null or merged_into_term_key is null);
+
+-- Terms merged into the terminology package are read by the mapping engine
+-- alongside approved ones
+drop policy if exists "Read approved terms" on public.terminology_terms;
+create policy "Read approved terms"
+  on public.terminology_terms for select
+  using (status = 'approved' or (status = 'merged' and merged_into_term_key is not null));
@@ -0,0 +1,8 @@
+-- The lower-cased term as a column, so the API can match terms regardless of
+-- case (PostgREST filters on columns, not on lower(term))
+alter table public.terminology_terms
+  add column if not exists term_key text generated always as (lower(term)) stored;
+
+-- Replaces the unique index on lower(term)
+drop index if exists public.terminology_terms_term_idx;
+create unique index if not exists terminology_terms_term_key_idx on public.terminology_terms (term_key);
@@ -1,8 +1,32 @@
-import { defineConfig, loadEnv } from "vite";
+import { defineConfig, loadEnv, transformWithEsbuild, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { readFile } from "fs/promises";
 import { componentTagger } from "lovable-tagger";
 
+// public/service-worker.ts is TypeScript, which the browser can't load; serve
+// it compiled as /service-worker.js in dev and emit it next to the build
+function serviceWorker(): Plugin {
+  const source = path.resolve(__dirname, "public/service-worker.ts");
+  const compile = async () => {
+    const result = await transformWithEsbuild(await readFile(source, "utf8"), source, { loader: "ts", target: "es2020" });
+    return result.code;
+  };
+
+  return {
+    name: "service-worker",
+    configureServer(server) {
+      server.middlewares.use("/service-worker.js", async (_req, res) => {
+        res.setHeader("Content-Type", "application/javascript");
+        res.end(await compile());
+      });
+    },
+    async generateBundle() {
+      this.emitFile({ type: "asset", fileName: "service-worker.js", source: await compile() });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   // Load env file based on mode
@@ -22,6 +46,7 @@ export default defineConfig(({ mode }) => {
     },
     plugins: [
       react(),
+      serviceWorker(),
       mode === 'development' &&
       componentTagger(),
     ].filter(Boolean),